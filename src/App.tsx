@@ -19,6 +19,7 @@ import {
   Contacts,
   Reports,
   Admin,
+  District,
   InitialSetup,
   InvitationAccept,
   NotFound,
@@ -31,7 +32,7 @@ import './utils/integrationVerification';
 
 // Component to handle authenticated user redirects for setup/invitation pages
 function AuthenticatedRedirect({ children }: { children: React.ReactNode }) {
-  const { isAuthenticated, isLoading } = useAuth();
+  const { isAuthenticated, isLoading, landingPage } = useAuth();
 
   if (isLoading) {
     return (
@@ -63,9 +64,9 @@ function AuthenticatedRedirect({ children }: { children: React.ReactNode }) {
     );
   }
 
-  // If user is already authenticated, redirect to dashboard
+  // If user is already authenticated, redirect to the tenant's landing page
   if (isAuthenticated) {
-    return <Navigate to="/dashboard" replace />;
+    return <Navigate to={landingPage} replace />;
   }
 
   return <>{children}</>;
@@ -73,6 +74,7 @@ function AuthenticatedRedirect({ children }: { children: React.ReactNode }) {
 
 function AnimatedRoutes() {
   const location = useLocation();
+  const { landingPage } = useAuth();
 
   return (
     <AnimatePresence mode="wait">
@@ -134,10 +136,20 @@ function AnimatedRoutes() {
               </RoleBasedRoute>
             }
           />
+
+          {/* District admin routes */}
+          <Route
+            path="/district"
+            element={
+              <RoleBasedRoute allowedRoles={['DISTRICT_ADMIN']}>
+                <District />
+              </RoleBasedRoute>
+            }
+          />
         </Route>
 
         {/* Redirects and 404 */}
-        <Route path="/" element={<Navigate to="/dashboard" replace />} />
+        <Route path="/" element={<Navigate to={landingPage} replace />} />
         <Route path="*" element={<NotFound />} />
       </Routes>
     </AnimatePresence>
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/services/supabase';
+import { useCaseloadSizes } from '@/hooks/useCaseloads';
 import type { User } from '@/types/user';
 import { Select } from '@/components/ui/select';
 import { Label } from '@/components/ui/label';
@@ -32,6 +33,8 @@ export function AdminDashboard() {
   const [stats, setStats] = useState<CounselorStats[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [activeView, setActiveView] = useState<'dashboard' | 'security'>('dashboard');
+  const { data: caseloads = [] } = useCaseloadSizes();
+  const caseloadByCounselor = new Map(caseloads.map(size => [size.counselorId, size]));
 
   useEffect(() => {
     fetchCounselors();
@@ -291,6 +294,9 @@ export function AdminDashboard() {
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                           Counselor
                         </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Caseload
+                        </th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                           Interactions
                         </th>
@@ -306,27 +312,39 @@ export function AdminDashboard() {
                       </tr>
                     </thead>
                     <tbody className="bg-white divide-y divide-gray-200">
-                      {stats.map(stat => (
-                        <tr key={stat.counselorId}>
-                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                            {stat.counselorName}
-                          </td>
-                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
-                            {stat.totalInteractions}
-                          </td>
-                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
-                            {stat.totalStudents}
-                          </td>
-                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
-                            {(stat.totalTimeSpent / 60).toFixed(1)}
-                          </td>
-                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
-                            {stat.totalInteractions > 0
-                              ? `${(stat.totalTimeSpent / stat.totalInteractions).toFixed(0)} min`
-                              : 'N/A'}
-                          </td>
-                        </tr>
-                      ))}
+                      {stats.map(stat => {
+                        const caseload = caseloadByCounselor.get(stat.counselorId);
+                        return (
+                          <tr key={stat.counselorId}>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                              {stat.counselorName}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                              {caseload?.primary ?? 0}
+                              {caseload && caseload.secondary > 0 && (
+                                <span className="text-gray-400">
+                                  {' '}
+                                  (+{caseload.secondary} secondary)
+                                </span>
+                              )}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                              {stat.totalInteractions}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                              {stat.totalStudents}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                              {(stat.totalTimeSpent / 60).toFixed(1)}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                              {stat.totalInteractions > 0
+                                ? `${(stat.totalTimeSpent / stat.totalInteractions).toFixed(0)} min`
+                                : 'N/A'}
+                            </td>
+                          </tr>
+                        );
+                      })}
                     </tbody>
                   </table>
                 </div>
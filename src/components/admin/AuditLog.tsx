@@ -0,0 +1,303 @@
+import { useMemo, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useAuditLog } from '@/hooks/useAuditLog';
+import { useStudents } from '@/hooks/useStudents';
+import { useUsers } from '@/hooks/useUsers';
+import {
+  AUDIT_LOG_EXPORT_LIMIT,
+  AUDIT_LOG_PAGE_SIZE,
+  fetchAuditLog,
+  formatAuditChanges,
+  formatAuditValue,
+  getAuditFieldChanges,
+} from '@/services/auditLogService';
+import { formatDateTime } from '@/utils/dateHelpers';
+import { exportToCSVWithMapping, generateFilenameWithTimestamp } from '@/utils/exportHelpers';
+import { toast } from '@/utils/toast';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  SearchableDropdown,
+  type SearchableDropdownOption,
+} from '@/components/common/SearchableDropdown';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import type { AuditAction, AuditEntityType, AuditLogEntry, AuditLogFilters } from '@/types/audit';
+import { AlertTriangle, Download, Loader2 } from 'lucide-react';
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  CREATE: 'Created',
+  UPDATE: 'Updated',
+  DELETE: 'Deleted',
+  VIEW: 'Viewed',
+  MERGE: 'Merged',
+};
+
+const ACTION_COLORS: Record<AuditAction, string> = {
+  CREATE: 'bg-green-100 text-green-800',
+  UPDATE: 'bg-blue-100 text-blue-800',
+  DELETE: 'bg-red-100 text-red-800',
+  VIEW: 'bg-gray-100 text-gray-800',
+  MERGE: 'bg-purple-100 text-purple-800',
+};
+
+const ENTITY_LABELS: Record<AuditEntityType, string> = {
+  student: 'Student',
+  contact: 'Contact',
+  interaction: 'Interaction',
+  participant: 'Group Participant',
+};
+
+export function AuditLog() {
+  const { user: currentUser } = useAuth();
+  const [filters, setFilters] = useState<AuditLogFilters>({});
+  const [isExporting, setIsExporting] = useState(false);
+
+  const { data: entries = [], isLoading, error } = useAuditLog(filters);
+  const { data: users = [] } = useUsers();
+  const { data: students = [] } = useStudents();
+
+  const userNames = useMemo(
+    () => new Map(users.map(user => [user.id, `${user.firstName} ${user.lastName}`])),
+    [users]
+  );
+
+  const studentOptions: SearchableDropdownOption[] = useMemo(
+    () =>
+      students.map(student => ({
+        value: student.id,
+        label: `${student.firstName} ${student.lastName}`,
+        subtitle: `${student.studentId} - Grade ${student.gradeLevel}`,
+      })),
+    [students]
+  );
+
+  const getUserName = (entry: AuditLogEntry) =>
+    entry.userId ? userNames.get(entry.userId) || 'Unknown user' : 'System';
+
+  const handleFilterChange = (key: keyof AuditLogFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value || undefined }));
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const { data, error: exportError } = await fetchAuditLog(filters, AUDIT_LOG_EXPORT_LIMIT);
+
+      if (exportError) {
+        toast.error('Failed to export audit log', exportError.message);
+        return;
+      }
+
+      if (!data || data.length === 0) {
+        toast.info('There are no audit entries to export');
+        return;
+      }
+
+      exportToCSVWithMapping(data, generateFilenameWithTimestamp('audit-log'), {
+        Timestamp: (entry: AuditLogEntry) => entry.createdAt.toISOString(),
+        User: getUserName,
+        Action: (entry: AuditLogEntry) => ACTION_LABELS[entry.action],
+        'Record Type': (entry: AuditLogEntry) => ENTITY_LABELS[entry.entityType],
+        Record: (entry: AuditLogEntry) => entry.recordLabel || '',
+        'Record ID': 'entityId',
+        Student: (entry: AuditLogEntry) => entry.studentName || '',
+        Changes: formatAuditChanges,
+      });
+
+      if (data.length === AUDIT_LOG_EXPORT_LIMIT) {
+        toast.info(
+          `Exported the most recent ${AUDIT_LOG_EXPORT_LIMIT} entries`,
+          'Narrow the date range to export older entries'
+        );
+      }
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  if (!currentUser || currentUser.role !== 'ADMIN') {
+    return (
+      <div className="p-6">
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-red-800">You do not have permission to access this page.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Audit Log</h2>
+          <p className="text-gray-600 mt-1">
+            Every change to students, contacts and interactions, and every time a student record was
+            opened. Entries cannot be edited or deleted.
+          </p>
+        </div>
+        <Button variant="outline" onClick={handleExport} disabled={isExporting}>
+          {isExporting ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <Download className="w-4 h-4 mr-2" />
+          )}
+          Export CSV
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <Card className="p-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="audit-user">User</Label>
+            <Select
+              id="audit-user"
+              value={filters.userId || ''}
+              onChange={e => handleFilterChange('userId', e.target.value)}
+            >
+              <option value="">All Users</option>
+              {users.map(user => (
+                <option key={user.id} value={user.id}>
+                  {user.firstName} {user.lastName}
+                </option>
+              ))}
+            </Select>
+          </div>
+          <SearchableDropdown
+            label="Student"
+            placeholder="All Students"
+            options={studentOptions}
+            value={filters.studentId || ''}
+            onChange={value => handleFilterChange('studentId', value)}
+            emptyMessage="No students found"
+          />
+          <div className="space-y-2">
+            <Label htmlFor="audit-start-date">From</Label>
+            <Input
+              id="audit-start-date"
+              type="date"
+              value={filters.startDate || ''}
+              onChange={e => handleFilterChange('startDate', e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-end-date">To</Label>
+            <Input
+              id="audit-end-date"
+              type="date"
+              value={filters.endDate || ''}
+              onChange={e => handleFilterChange('endDate', e.target.value)}
+            />
+          </div>
+        </div>
+        <div className="mt-4 flex justify-end">
+          <Button variant="outline" onClick={() => setFilters({})}>
+            Clear Filters
+          </Button>
+        </div>
+      </Card>
+
+      {/* Entries */}
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <LoadingSpinner />
+          <span className="ml-2 text-gray-600">Loading audit log...</span>
+        </div>
+      ) : error ? (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <div className="flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5 text-red-600" />
+            <p className="text-red-800">Failed to load audit log</p>
+          </div>
+        </div>
+      ) : entries.length === 0 ? (
+        <Card className="p-6 text-center">
+          <p className="text-gray-500">No audit entries match these filters</p>
+        </Card>
+      ) : (
+        <div className="space-y-2">
+          <div className="rounded-md border overflow-x-auto bg-white">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead>User</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Record</TableHead>
+                  <TableHead>Student</TableHead>
+                  <TableHead>Changes</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map(entry => {
+                  const changes = entry.action === 'VIEW' ? [] : getAuditFieldChanges(entry);
+
+                  return (
+                    <TableRow key={entry.id}>
+                      <TableCell className="whitespace-nowrap">
+                        {formatDateTime(entry.createdAt)}
+                      </TableCell>
+                      <TableCell>{getUserName(entry)}</TableCell>
+                      <TableCell>
+                        <span
+                          className={`px-2 py-1 rounded-full text-xs font-medium ${ACTION_COLORS[entry.action]}`}
+                        >
+                          {ACTION_LABELS[entry.action]}
+                        </span>
+                      </TableCell>
+                      <TableCell>
+                        <p className="text-xs text-gray-500">{ENTITY_LABELS[entry.entityType]}</p>
+                        <p>{entry.recordLabel}</p>
+                      </TableCell>
+                      <TableCell>{entry.studentName || '—'}</TableCell>
+                      <TableCell>
+                        {changes.length > 0 && (
+                          <details className="text-sm">
+                            <summary className="cursor-pointer text-gray-600 hover:text-gray-800">
+                              {changes.length} field{changes.length === 1 ? '' : 's'}
+                            </summary>
+                            <dl className="mt-2 space-y-1 text-xs">
+                              {changes.map(change => (
+                                <div key={change.field}>
+                                  <dt className="font-medium text-gray-700">{change.field}</dt>
+                                  <dd className="text-gray-600 break-all">
+                                    {entry.action === 'UPDATE'
+                                      ? `${formatAuditValue(change.before)} → ${formatAuditValue(change.after)}`
+                                      : formatAuditValue(
+                                          entry.action === 'DELETE' ? change.before : change.after
+                                        )}
+                                  </dd>
+                                </div>
+                              ))}
+                            </dl>
+                          </details>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+          {entries.length === AUDIT_LOG_PAGE_SIZE && (
+            <p className="text-sm text-gray-500">
+              Showing the most recent {AUDIT_LOG_PAGE_SIZE} entries. Narrow the filters or export to
+              CSV to see more.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+import { useMemo, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useStudents } from '@/hooks/useStudents';
+import { useUsers } from '@/hooks/useUsers';
+import { useAssignCaseload } from '@/hooks/useCaseloads';
+import { previewCaseloadAssignment, validateCaseloadAssignment } from '@/services/caseloadService';
+import { gradeLevelSchema } from '@/schemas/student';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select } from '@/components/ui/select';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import type { CaseloadAssignment as CaseloadAssignmentData } from '@/types/caseload';
+import { AlertTriangle, Loader2, Users } from 'lucide-react';
+
+const GRADE_LEVELS: readonly string[] = gradeLevelSchema.options;
+
+const EMPTY_ASSIGNMENT: CaseloadAssignmentData = {
+  counselorId: '',
+  role: 'primary',
+  rule: { lastNameFrom: '', lastNameTo: '', gradeLevels: [] },
+  onlyUnassigned: false,
+};
+
+export function CaseloadAssignment() {
+  const { user: currentUser } = useAuth();
+  const { data: students = [], isLoading, error } = useStudents();
+  const { data: users = [] } = useUsers();
+  const assignCaseload = useAssignCaseload();
+  const [assignment, setAssignment] = useState<CaseloadAssignmentData>(EMPTY_ASSIGNMENT);
+
+  const counselors = users.filter(user => user.isActive && user.role === 'COUNSELOR');
+  const errors = validateCaseloadAssignment(assignment);
+  const matched = useMemo(
+    () => (errors.length === 0 ? previewCaseloadAssignment(students, assignment) : []),
+    [students, assignment, errors.length]
+  );
+
+  const updateRule = (changes: Partial<CaseloadAssignmentData['rule']>) => {
+    setAssignment(prev => ({ ...prev, rule: { ...prev.rule, ...changes } }));
+  };
+
+  const toggleGrade = (gradeLevel: string) => {
+    const gradeLevels = assignment.rule.gradeLevels ?? [];
+    updateRule({
+      gradeLevels: gradeLevels.includes(gradeLevel)
+        ? gradeLevels.filter(grade => grade !== gradeLevel)
+        : [...gradeLevels, gradeLevel],
+    });
+  };
+
+  const handleAssign = () => {
+    assignCaseload.mutate(assignment, {
+      onSuccess: () => setAssignment(prev => ({ ...EMPTY_ASSIGNMENT, role: prev.role })),
+    });
+  };
+
+  if (!currentUser || currentUser.role !== 'ADMIN') {
+    return (
+      <div className="p-6">
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-red-800">You do not have permission to access this page.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="p-6">
+        <div className="flex items-center justify-center py-12">
+          <LoadingSpinner />
+          <span className="ml-2 text-gray-600">Loading students...</span>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-6">
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <div className="flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5 text-red-600" />
+            <p className="text-red-800">Failed to load students</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">Caseloads</h2>
+        <p className="text-gray-600 mt-1">
+          Assign students to a counselor by last-name range, grade level, or both. Individual
+          students can be reassigned from their edit form.
+        </p>
+      </div>
+
+      <Card className="p-6 space-y-6">
+        <div className="flex items-center gap-3">
+          <Users className="w-5 h-5 text-blue-600" />
+          <h3 className="text-lg font-semibold">Bulk Assignment</h3>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="caseload-counselor">Counselor</Label>
+            <Select
+              id="caseload-counselor"
+              value={assignment.counselorId}
+              onChange={e => setAssignment(prev => ({ ...prev, counselorId: e.target.value }))}
+            >
+              <option value="">Select a counselor...</option>
+              {counselors.map(counselor => (
+                <option key={counselor.id} value={counselor.id}>
+                  {counselor.firstName} {counselor.lastName}
+                </option>
+              ))}
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="caseload-role">Assign as</Label>
+            <Select
+              id="caseload-role"
+              value={assignment.role}
+              onChange={e =>
+                setAssignment(prev => ({
+                  ...prev,
+                  role: e.target.value as CaseloadAssignmentData['role'],
+                }))
+              }
+            >
+              <option value="primary">Primary counselor</option>
+              <option value="secondary">Secondary counselor</option>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Last names</Label>
+          <div className="flex items-center gap-2 max-w-xs">
+            <Input
+              aria-label="Last names from"
+              placeholder="A"
+              value={assignment.rule.lastNameFrom}
+              onChange={e => updateRule({ lastNameFrom: e.target.value })}
+            />
+            <span className="text-sm text-gray-500">to</span>
+            <Input
+              aria-label="Last names to"
+              placeholder="F"
+              value={assignment.rule.lastNameTo}
+              onChange={e => updateRule({ lastNameTo: e.target.value })}
+            />
+          </div>
+          <p className="text-xs text-gray-500">
+            Inclusive, so A to F includes every name starting with F. Use more letters to split a
+            letter, e.g. Ma to Mo.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Grade levels</Label>
+          <div className="flex flex-wrap gap-x-4 gap-y-2">
+            {GRADE_LEVELS.map(gradeLevel => (
+              <label key={gradeLevel} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={assignment.rule.gradeLevels?.includes(gradeLevel) ?? false}
+                  onChange={() => toggleGrade(gradeLevel)}
+                />
+                {gradeLevel}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={assignment.onlyUnassigned}
+            onChange={e => setAssignment(prev => ({ ...prev, onlyUnassigned: e.target.checked }))}
+          />
+          Only students without a {assignment.role} counselor
+        </label>
+
+        <div className="flex items-center justify-between border-t pt-4">
+          <p className="text-sm text-gray-600">
+            {errors.length > 0
+              ? errors[0]
+              : `${matched.length} active student${matched.length !== 1 ? 's' : ''} will be assigned`}
+          </p>
+          <Button
+            onClick={handleAssign}
+            disabled={errors.length > 0 || matched.length === 0 || assignCaseload.isPending}
+          >
+            {assignCaseload.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Assign
+          </Button>
+        </div>
+      </Card>
+    </div>
+  );
+}
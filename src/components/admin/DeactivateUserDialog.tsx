@@ -0,0 +1,153 @@
+import { useState } from 'react';
+import { useOpenFollowUpTaskCount, useReassignAllFollowUpTasks } from '@/hooks/useFollowUpTasks';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Select } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import type { User } from '@/types/user';
+import { Loader2, UserX } from 'lucide-react';
+
+interface DeactivateUserDialogProps {
+  user: User | null;
+  users: User[];
+  onOpenChange: (open: boolean) => void;
+  onDeactivate: (userId: string) => Promise<void>;
+}
+
+/**
+ * Confirms deactivating a user. Their open follow-ups must be handed to
+ * another active user first so none are left without an owner.
+ */
+export function DeactivateUserDialog({
+  user,
+  users,
+  onOpenChange,
+  onDeactivate,
+}: DeactivateUserDialogProps) {
+  return (
+    <Dialog open={!!user} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <UserX className="w-5 h-5" />
+            Deactivate User
+          </DialogTitle>
+          <DialogDescription>
+            {user && `${user.firstName} ${user.lastName} will no longer be able to sign in.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {user && (
+          <DeactivateForm
+            key={user.id}
+            user={user}
+            users={users}
+            onCancel={() => onOpenChange(false)}
+            onDeactivate={onDeactivate}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface DeactivateFormProps {
+  user: User;
+  users: User[];
+  onCancel: () => void;
+  onDeactivate: (userId: string) => Promise<void>;
+}
+
+function DeactivateForm({ user, users, onCancel, onDeactivate }: DeactivateFormProps) {
+  const { data: openCount = 0, isLoading } = useOpenFollowUpTaskCount(user.id);
+  const reassignAll = useReassignAllFollowUpTasks();
+  const [toUserId, setToUserId] = useState('');
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const candidates = users.filter(candidate => candidate.isActive && candidate.id !== user.id);
+  const needsTarget = openCount > 0;
+
+  const handleConfirm = async () => {
+    setIsSubmitting(true);
+    try {
+      if (needsTarget) {
+        await reassignAll.mutateAsync({ fromUserId: user.id, toUserId, note });
+      }
+      await onDeactivate(user.id);
+    } catch {
+      // The reassignment hook has already shown the error
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center py-4">
+        <LoadingSpinner />
+        <span className="ml-2 text-sm text-gray-600">Checking open follow-ups...</span>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {needsTarget && (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-700">
+            {user.firstName} has {openCount} open follow-up{openCount !== 1 ? 's' : ''}. Choose who
+            takes them over.
+          </p>
+          <div className="space-y-2">
+            <Label htmlFor="deactivate-assignee">Hand follow-ups to</Label>
+            <Select
+              id="deactivate-assignee"
+              value={toUserId}
+              onChange={e => setToUserId(e.target.value)}
+            >
+              <option value="">Select a user...</option>
+              {candidates.map(candidate => (
+                <option key={candidate.id} value={candidate.id}>
+                  {candidate.firstName} {candidate.lastName}
+                </option>
+              ))}
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="deactivate-note">Handoff note (optional)</Label>
+            <Textarea
+              id="deactivate-note"
+              value={note}
+              onChange={e => setNote(e.target.value)}
+              rows={3}
+            />
+          </div>
+        </div>
+      )}
+
+      <DialogFooter>
+        <Button variant="outline" onClick={onCancel} disabled={isSubmitting}>
+          Cancel
+        </Button>
+        <Button
+          variant="destructive"
+          onClick={handleConfirm}
+          disabled={isSubmitting || (needsTarget && !toUserId)}
+        >
+          {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Deactivate
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
@@ -0,0 +1,244 @@
+import { useMemo, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useStudents } from '@/hooks/useStudents';
+import {
+  useDismissDuplicate,
+  useDuplicateDismissals,
+  useMergeStudents,
+} from '@/hooks/useStudentMerges';
+import {
+  DUPLICATE_REASON_LABELS,
+  findDuplicateStudents,
+  getDuplicatePairKey,
+} from '@/services/studentMergeService';
+import { formatDate } from '@/utils/dateHelpers';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import type { Student } from '@/types/student';
+import { AlertTriangle, Loader2, Merge } from 'lucide-react';
+
+interface PendingMerge {
+  survivor: Student;
+  duplicate: Student;
+}
+
+export function DuplicateStudents() {
+  const { user: currentUser } = useAuth();
+  const { data: students = [], isLoading, error } = useStudents();
+  const { data: dismissed = [], isLoading: isLoadingDismissals } = useDuplicateDismissals();
+  const dismissDuplicate = useDismissDuplicate();
+  const [pendingMerge, setPendingMerge] = useState<PendingMerge | null>(null);
+
+  const candidates = useMemo(
+    () => findDuplicateStudents(students, new Set(dismissed)),
+    [students, dismissed]
+  );
+
+  if (!currentUser || currentUser.role !== 'ADMIN') {
+    return (
+      <div className="p-6">
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-red-800">You do not have permission to access this page.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (isLoading || isLoadingDismissals) {
+    return (
+      <div className="p-6">
+        <div className="flex items-center justify-center py-12">
+          <LoadingSpinner />
+          <span className="ml-2 text-gray-600">Looking for duplicates...</span>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-6">
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <div className="flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5 text-red-600" />
+            <p className="text-red-800">Failed to load students</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">Duplicate Students</h2>
+        <p className="text-gray-600 mt-1">
+          Students that may have been entered twice, based on similar names, emails and phone
+          numbers. Merge a pair to keep one record with both records&apos; history, or mark them as
+          different students.
+        </p>
+      </div>
+
+      {candidates.length === 0 ? (
+        <Card className="p-6">
+          <p className="text-sm text-gray-500">No possible duplicates found.</p>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {candidates.map(({ student, other, reasons }) => (
+            <Card key={getDuplicatePairKey(student.id, other.id)} className="p-4 space-y-4">
+              <div className="flex flex-wrap gap-2">
+                {reasons.map(reason => (
+                  <span
+                    key={reason}
+                    className="px-2 py-1 rounded-full text-xs font-medium bg-amber-100 text-amber-800"
+                  >
+                    {DUPLICATE_REASON_LABELS[reason]}
+                  </span>
+                ))}
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {[
+                  [student, other],
+                  [other, student],
+                ].map(([survivor, duplicate]) => (
+                  <div key={survivor.id} className="rounded-lg border p-4 space-y-3">
+                    <StudentSummary student={survivor} />
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPendingMerge({ survivor, duplicate })}
+                    >
+                      Keep this record
+                    </Button>
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-end">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    dismissDuplicate.mutate({ studentId: student.id, otherStudentId: other.id })
+                  }
+                  disabled={dismissDuplicate.isPending}
+                >
+                  Not duplicates
+                </Button>
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <MergeStudentsDialog merge={pendingMerge} onOpenChange={() => setPendingMerge(null)} />
+    </div>
+  );
+}
+
+function StudentSummary({ student }: { student: Student }) {
+  return (
+    <dl className="text-sm space-y-1">
+      <div className="flex items-center gap-2">
+        <dt className="sr-only">Name</dt>
+        <dd className="font-semibold text-gray-900">
+          {student.firstName} {student.lastName}
+        </dd>
+        {student.archivedAt && (
+          <span className="px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-700">
+            Archived
+          </span>
+        )}
+      </div>
+      <div className="text-gray-600">
+        <dt className="inline">Student ID: </dt>
+        <dd className="inline">{student.studentId}</dd>
+      </div>
+      <div className="text-gray-600">
+        <dt className="inline">Grade: </dt>
+        <dd className="inline">{student.gradeLevel}</dd>
+      </div>
+      <div className="text-gray-600">
+        <dt className="inline">Email: </dt>
+        <dd className="inline">{student.email || '—'}</dd>
+      </div>
+      <div className="text-gray-600">
+        <dt className="inline">Phone: </dt>
+        <dd className="inline">{student.phone || '—'}</dd>
+      </div>
+      <div className="text-gray-500 text-xs">
+        <dt className="inline">Added </dt>
+        <dd className="inline">{formatDate(student.createdAt)}</dd>
+      </div>
+    </dl>
+  );
+}
+
+interface MergeStudentsDialogProps {
+  merge: PendingMerge | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+function MergeStudentsDialog({ merge, onOpenChange }: MergeStudentsDialogProps) {
+  const mergeStudents = useMergeStudents();
+
+  const handleMerge = () => {
+    if (!merge) return;
+    mergeStudents.mutate(
+      { survivorId: merge.survivor.id, duplicateId: merge.duplicate.id },
+      { onSuccess: () => onOpenChange(false) }
+    );
+  };
+
+  return (
+    <Dialog open={!!merge} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Merge className="w-5 h-5" />
+            Merge Students
+          </DialogTitle>
+          {merge && (
+            <DialogDescription>
+              Merge {merge.duplicate.firstName} {merge.duplicate.lastName} (
+              {merge.duplicate.studentId}) into {merge.survivor.firstName} {merge.survivor.lastName}{' '}
+              ({merge.survivor.studentId})
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        <ul className="list-disc pl-5 text-sm text-gray-700 space-y-1">
+          <li>
+            Interactions, group sessions, appointments, risk flags, goals and linked contacts move
+            to the kept record.
+          </li>
+          <li>
+            A contact linked to both records keeps every custody and no-contact flag either had.
+          </li>
+          <li>A missing email or phone number on the kept record is filled in.</li>
+          <li>The other record is deleted. The merge is recorded in the audit log.</li>
+        </ul>
+        <p className="text-sm font-medium text-red-700">This cannot be undone.</p>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleMerge} disabled={mergeStudents.isPending}>
+            {mergeStudents.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Merge
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,109 @@
+import { useEmailDeliveries } from '@/hooks/useEmailDeliveries';
+import { formatDateTime } from '@/utils/dateHelpers';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import type { EmailDeliveryStatus } from '@/types/email';
+import type { PendingInvitation } from '@/types/setup';
+import { AlertTriangle, History } from 'lucide-react';
+
+const STATUS_LABELS: Record<EmailDeliveryStatus, string> = {
+  queued: 'Queued',
+  sent: 'Sent',
+  failed: 'Failed',
+  bounced: 'Bounced',
+};
+
+const STATUS_COLORS: Record<EmailDeliveryStatus, string> = {
+  queued: 'bg-blue-100 text-blue-800',
+  sent: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  bounced: 'bg-orange-100 text-orange-800',
+};
+
+interface EmailDeliveryHistoryProps {
+  invitation: PendingInvitation | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function EmailDeliveryHistory({ invitation, onOpenChange }: EmailDeliveryHistoryProps) {
+  const { data: deliveries = [], isLoading, error } = useEmailDeliveries(invitation?.id || null);
+
+  return (
+    <Dialog open={!!invitation} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="w-5 h-5" />
+            Email Delivery History
+          </DialogTitle>
+          <DialogDescription>Every invitation email sent to {invitation?.email}</DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-96 overflow-y-auto">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <LoadingSpinner />
+              <span className="ml-2 text-gray-600">Loading delivery history...</span>
+            </div>
+          ) : error ? (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+              <div className="flex items-center gap-2">
+                <AlertTriangle className="w-5 h-5 text-red-600" />
+                <p className="text-red-800">Failed to load delivery history</p>
+              </div>
+            </div>
+          ) : deliveries.length === 0 ? (
+            <p className="text-center py-8 text-gray-500">No emails recorded for this invitation</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {deliveries.map(delivery => (
+                <li key={delivery.id} className="py-3">
+                  <div className="flex items-center justify-between gap-4">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">
+                        {formatDateTime(delivery.createdAt)}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {delivery.attempts} of {delivery.maxAttempts} attempt
+                        {delivery.maxAttempts === 1 ? '' : 's'}
+                        {delivery.transport && ` via ${delivery.transport}`}
+                        {delivery.sentAt && ` · delivered ${formatDateTime(delivery.sentAt)}`}
+                        {delivery.status === 'queued' &&
+                          delivery.attempts > 0 &&
+                          ` · next try ${formatDateTime(delivery.nextAttemptAt)}`}
+                        {delivery.deadLetteredAt &&
+                          ` · gave up ${formatDateTime(delivery.deadLetteredAt)}`}
+                      </p>
+                    </div>
+                    <span
+                      className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_COLORS[delivery.status]}`}
+                    >
+                      {STATUS_LABELS[delivery.status]}
+                    </span>
+                  </div>
+                  {delivery.lastError && delivery.status !== 'sent' && (
+                    <p className="mt-1 text-xs text-red-700 break-words">{delivery.lastError}</p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,243 @@
+import { useMemo, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  useEmailTemplates,
+  useResetEmailTemplate,
+  useSaveEmailTemplate,
+} from '@/hooks/useEmailTemplates';
+import {
+  DEFAULT_EMAIL_TEMPLATES,
+  EMAIL_TEMPLATE_LABELS,
+  EMAIL_TEMPLATE_VARIABLES,
+  getSampleEmailVariables,
+  renderEmailTemplate,
+  validateEmailTemplate,
+} from '@/services/emailTemplateService';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import type { EmailTemplate, EmailTemplateName } from '@/types/email';
+import { AlertTriangle, Loader2, Mail, RotateCcw, Save } from 'lucide-react';
+
+const TEMPLATE_NAMES = Object.keys(EMAIL_TEMPLATE_LABELS) as EmailTemplateName[];
+
+export function EmailTemplateEditor() {
+  const [selected, setSelected] = useState<EmailTemplateName>('invitation');
+  const [drafts, setDrafts] = useState<Partial<Record<EmailTemplateName, EmailTemplate>>>({});
+  const { branding } = useAuth();
+
+  const { data: customized = [], isLoading, error } = useEmailTemplates();
+  const saveTemplate = useSaveEmailTemplate();
+  const resetTemplate = useResetEmailTemplate();
+
+  const saved = customized.find(template => template.template === selected);
+  const current: EmailTemplate = drafts[selected] ?? saved ?? DEFAULT_EMAIL_TEMPLATES[selected];
+  const isDirty = !!drafts[selected];
+
+  const errors = useMemo(() => validateEmailTemplate(selected, current), [selected, current]);
+  const preview = useMemo(
+    () =>
+      errors.length === 0
+        ? renderEmailTemplate(current, getSampleEmailVariables(selected), branding ?? {})
+        : null,
+    [errors, current, selected, branding]
+  );
+
+  const updateField = (field: keyof EmailTemplate, value: string) => {
+    setDrafts(prev => ({
+      ...prev,
+      [selected]: {
+        subject: current.subject,
+        htmlBody: current.htmlBody,
+        textBody: current.textBody,
+        [field]: value,
+      },
+    }));
+  };
+
+  const discardDraft = () => {
+    setDrafts(prev => {
+      const next = { ...prev };
+      delete next[selected];
+      return next;
+    });
+  };
+
+  const handleSave = () => {
+    saveTemplate.mutate({ name: selected, template: current }, { onSuccess: discardDraft });
+  };
+
+  const handleReset = () => {
+    if (!confirm(`Restore the default ${EMAIL_TEMPLATE_LABELS[selected]} email?`)) {
+      return;
+    }
+    if (saved) {
+      resetTemplate.mutate(selected, { onSuccess: discardDraft });
+    } else {
+      discardDraft();
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <Mail className="w-5 h-5 text-blue-600" />
+          <div>
+            <h3 className="text-lg font-semibold">Email Templates</h3>
+            <p className="text-sm text-gray-600">
+              Customize the emails sent to your users. Unchanged templates use the built-in version.
+            </p>
+          </div>
+        </div>
+        <Select
+          value={selected}
+          onChange={e => setSelected(e.target.value as EmailTemplateName)}
+          className="w-56"
+        >
+          {TEMPLATE_NAMES.map(name => (
+            <option key={name} value={name}>
+              {EMAIL_TEMPLATE_LABELS[name]}
+              {customized.some(template => template.template === name) ? ' (customized)' : ''}
+            </option>
+          ))}
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <LoadingSpinner />
+          <span className="ml-2 text-gray-600">Loading email templates...</span>
+        </div>
+      ) : error ? (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <div className="flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5 text-red-600" />
+            <p className="text-red-800">Failed to load email templates</p>
+          </div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+          {/* Editor */}
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="email-template-subject">Subject</Label>
+              <Input
+                id="email-template-subject"
+                value={current.subject}
+                onChange={e => updateField('subject', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="email-template-html">HTML Body</Label>
+              <Textarea
+                id="email-template-html"
+                value={current.htmlBody}
+                onChange={e => updateField('htmlBody', e.target.value)}
+                rows={14}
+                className="font-mono text-xs"
+              />
+              <p className="text-xs text-gray-500">
+                Scripts, forms, embedded content and links other than http(s) and mailto are removed
+                when saving.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="email-template-text">Plain Text Body</Label>
+              <Textarea
+                id="email-template-text"
+                value={current.textBody}
+                onChange={e => updateField('textBody', e.target.value)}
+                rows={10}
+                className="font-mono text-xs"
+              />
+            </div>
+
+            <div className="rounded-md bg-gray-50 border border-gray-200 p-3 text-xs text-gray-700">
+              <p className="font-medium mb-2">Available variables</p>
+              <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-1">
+                {EMAIL_TEMPLATE_VARIABLES[selected].map(variable => (
+                  <div key={variable.name}>
+                    <dt className="inline font-mono text-blue-700">{`{{${variable.name}}}`}</dt>{' '}
+                    <dd className="inline text-gray-600">{variable.description}</dd>
+                  </div>
+                ))}
+              </dl>
+              <p className="mt-2 text-gray-600">
+                Show text only when a variable has a value with{' '}
+                <code className="font-mono">{'{{#if adminEmail}}...{{else}}...{{/if}}'}</code>
+              </p>
+            </div>
+
+            {errors.length > 0 && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+                <ul className="text-sm text-red-800 list-disc list-inside space-y-1">
+                  {errors.map(message => (
+                    <li key={message}>{message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="outline"
+                onClick={handleReset}
+                disabled={(!saved && !isDirty) || resetTemplate.isPending}
+              >
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Restore Default
+              </Button>
+              <Button
+                onClick={handleSave}
+                disabled={!isDirty || errors.length > 0 || saveTemplate.isPending}
+              >
+                {saveTemplate.isPending ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Save className="w-4 h-4 mr-2" />
+                )}
+                Save Template
+              </Button>
+            </div>
+          </div>
+
+          {/* Preview */}
+          <div className="space-y-2">
+            <Label>Preview with sample data</Label>
+            {preview ? (
+              <>
+                <div className="rounded-md border border-gray-200 bg-gray-50 px-3 py-2 text-sm">
+                  <span className="text-gray-500">Subject: </span>
+                  <span className="font-medium text-gray-900">{preview.subject}</span>
+                </div>
+                <iframe
+                  title="Email preview"
+                  sandbox=""
+                  srcDoc={preview.htmlBody}
+                  className="w-full h-[28rem] rounded-md border border-gray-200 bg-white"
+                />
+                <details className="text-sm">
+                  <summary className="cursor-pointer text-gray-600 hover:text-gray-800">
+                    Plain text version
+                  </summary>
+                  <pre className="mt-2 whitespace-pre-wrap rounded-md border border-gray-200 bg-gray-50 p-3 text-xs text-gray-800">
+                    {preview.textBody}
+                  </pre>
+                </details>
+              </>
+            ) : (
+              <div className="rounded-md border border-dashed border-gray-300 p-6 text-center text-sm text-gray-500">
+                Fix the problems in the template to see a preview
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
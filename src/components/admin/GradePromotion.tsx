@@ -0,0 +1,139 @@
+import { useMemo } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useStudents, usePromoteGrades } from '@/hooks/useStudents';
+import { previewGradePromotion } from '@/utils/gradeHelpers';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { AlertTriangle, Archive, GraduationCap, Loader2 } from 'lucide-react';
+
+export function GradePromotion() {
+  const { user: currentUser } = useAuth();
+  const { data: students = [], isLoading, error } = useStudents();
+  const promoteGrades = usePromoteGrades();
+
+  const preview = useMemo(() => previewGradePromotion(students), [students]);
+
+  const handlePromote = () => {
+    if (
+      !window.confirm(
+        `Promote ${preview.promoted} students to the next grade and archive ${preview.archived} graduating students? This cannot be undone.`
+      )
+    ) {
+      return;
+    }
+
+    promoteGrades.mutate();
+  };
+
+  if (!currentUser || currentUser.role !== 'ADMIN') {
+    return (
+      <div className="p-6">
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-red-800">You do not have permission to access this page.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="p-6">
+        <div className="flex items-center justify-center py-12">
+          <LoadingSpinner />
+          <span className="ml-2 text-gray-600">Loading students...</span>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-6">
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <div className="flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5 text-red-600" />
+            <p className="text-red-800">Failed to load students</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">School Year Rollover</h2>
+          <p className="text-gray-600 mt-1">
+            Move every active student up one grade. Graduating students are archived, not deleted,
+            so their interaction history is kept.
+          </p>
+        </div>
+        <Button
+          onClick={handlePromote}
+          disabled={promoteGrades.isPending || preview.promoted + preview.archived === 0}
+        >
+          {promoteGrades.isPending ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <GraduationCap className="w-4 h-4 mr-2" />
+          )}
+          Promote Grades
+        </Button>
+      </div>
+
+      <Card className="p-6">
+        <div className="flex items-center gap-3 mb-4">
+          <Archive className="w-5 h-5 text-blue-600" />
+          <h3 className="text-lg font-semibold">Preview</h3>
+        </div>
+
+        {preview.rows.length === 0 ? (
+          <p className="text-sm text-gray-500">There are no active students to promote.</p>
+        ) : (
+          <div className="rounded-md border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Current Grade</TableHead>
+                  <TableHead>Moves To</TableHead>
+                  <TableHead className="text-right">Students</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.rows.map(row => (
+                  <TableRow key={row.gradeLevel}>
+                    <TableCell>{row.gradeLevel}</TableCell>
+                    <TableCell>
+                      {row.nextGradeLevel ?? (
+                        <span className="inline-flex items-center rounded-full bg-gray-100 px-2.5 py-0.5 text-xs font-medium text-gray-800">
+                          Graduated (archived)
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{row.count}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {preview.skipped > 0 && (
+          <p className="mt-4 text-sm text-yellow-800">
+            {preview.skipped} students have an unrecognized grade level and will not be changed.
+          </p>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -16,7 +16,17 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
-import { Mail, MailX, RefreshCw, Clock, AlertTriangle, CheckCircle, XCircle } from 'lucide-react';
+import { EmailDeliveryHistory } from './EmailDeliveryHistory';
+import {
+  Mail,
+  MailX,
+  RefreshCw,
+  Clock,
+  AlertTriangle,
+  CheckCircle,
+  XCircle,
+  History,
+} from 'lucide-react';
 
 interface InvitationManagementProps {
   onInvitationChange?: () => void;
@@ -29,6 +39,7 @@ export function InvitationManagement({ onInvitationChange }: InvitationManagemen
   const [error, setError] = useState<string | null>(null);
   const [actionLoading, setActionLoading] = useState<Record<string, 'cancel' | 'resend'>>({});
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [historyInvitation, setHistoryInvitation] = useState<PendingInvitation | null>(null);
 
   useEffect(() => {
     fetchInvitations();
@@ -284,6 +295,14 @@ export function InvitationManagement({ onInvitationChange }: InvitationManagemen
                   </TableCell>
                   <TableCell className="text-right">
                     <div className="flex items-center justify-end gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setHistoryInvitation(invitation)}
+                      >
+                        <History className="w-4 h-4 mr-1" />
+                        History
+                      </Button>
                       <Button
                         variant="outline"
                         size="sm"
@@ -334,6 +353,11 @@ export function InvitationManagement({ onInvitationChange }: InvitationManagemen
           </p>
         </div>
       )}
+
+      <EmailDeliveryHistory
+        invitation={historyInvitation}
+        onOpenChange={open => !open && setHistoryInvitation(null)}
+      />
     </div>
   );
 }
@@ -0,0 +1,111 @@
+import { useAuth } from '@/contexts/AuthContext';
+import { useNoteEncryptionStatus, useRotateNoteEncryptionKey } from '@/hooks/useNoteEncryption';
+import { formatDate } from '@/utils/dateHelpers';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { AlertTriangle, KeyRound, Loader2, RefreshCw } from 'lucide-react';
+
+export function NoteEncryption() {
+  const { user: currentUser } = useAuth();
+  const { data: status, isLoading, error } = useNoteEncryptionStatus();
+  const rotateKey = useRotateNoteEncryptionKey();
+
+  const handleRotate = () => {
+    if (
+      !window.confirm(
+        'Rotate the note encryption key? Every encrypted note will be re-wrapped with a new key. This may take a while for large organizations.'
+      )
+    ) {
+      return;
+    }
+
+    rotateKey.mutate();
+  };
+
+  if (!currentUser || currentUser.role !== 'ADMIN') {
+    return (
+      <div className="p-6">
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-red-800">You do not have permission to access this page.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="p-6">
+        <div className="flex items-center justify-center py-12">
+          <LoadingSpinner />
+          <span className="ml-2 text-gray-600">Loading encryption status...</span>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-6">
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <div className="flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5 text-red-600" />
+            <p className="text-red-800">Failed to load encryption status</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Note Encryption</h2>
+          <p className="text-gray-600 mt-1">
+            Interaction notes and follow-up notes are encrypted in the browser before they are
+            saved. Rotate the key if you suspect it has been exposed.
+          </p>
+        </div>
+        <Button onClick={handleRotate} disabled={rotateKey.isPending}>
+          {rotateKey.isPending ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <RefreshCw className="w-4 h-4 mr-2" />
+          )}
+          Rotate Key
+        </Button>
+      </div>
+
+      <Card className="p-6">
+        <div className="flex items-center gap-3 mb-4">
+          <KeyRound className="w-5 h-5 text-blue-600" />
+          <h3 className="text-lg font-semibold">Current Key</h3>
+        </div>
+
+        {status?.activeVersion ? (
+          <dl className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm">
+            <div>
+              <dt className="text-gray-500">Version</dt>
+              <dd className="font-medium">{status.activeVersion}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Active Since</dt>
+              <dd className="font-medium">
+                {status.activatedAt ? formatDate(status.activatedAt, 'long') : 'Unknown'}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Retired Versions</dt>
+              <dd className="font-medium">{status.retiredVersions}</dd>
+            </div>
+          </dl>
+        ) : (
+          <p className="text-sm text-gray-500">
+            No key has been created yet. One is created automatically when the first note is saved.
+          </p>
+        )}
+      </Card>
+    </div>
+  );
+}
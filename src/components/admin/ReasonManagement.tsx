@@ -7,6 +7,18 @@ import { Plus, Edit, Trash2, GripVertical } from 'lucide-react';
 import { CategoryForm } from './CategoryForm';
 import { SubcategoryForm } from './SubcategoryForm';
 
+// Marks categories pushed from the district, which the school can't change
+function DistrictBadge() {
+  return (
+    <span
+      className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800"
+      title="Managed by your district"
+    >
+      District
+    </span>
+  );
+}
+
 export function ReasonManagement() {
   const { user: currentUser } = useAuth();
   const [categories, setCategories] = useState<ReasonCategory[]>([]);
@@ -50,6 +62,7 @@ export function ReasonManagement() {
         name: c.name,
         color: c.color,
         sortOrder: c.sort_order,
+        districtCategoryId: c.district_category_id || undefined,
         createdAt: new Date(c.created_at),
         updatedAt: new Date(c.updated_at),
       }));
@@ -60,6 +73,7 @@ export function ReasonManagement() {
         categoryId: s.category_id,
         name: s.name,
         sortOrder: s.sort_order,
+        districtSubcategoryId: s.district_subcategory_id || undefined,
         createdAt: new Date(s.created_at),
         updatedAt: new Date(s.updated_at),
       }));
@@ -217,6 +231,7 @@ export function ReasonManagement() {
                     <div className="w-4 h-4 rounded" style={{ backgroundColor: category.color }} />
                   )}
                   <h3 className="text-lg font-semibold text-gray-900">{category.name}</h3>
+                  {category.districtCategoryId && <DistrictBadge />}
                 </div>
                 <div className="flex items-center gap-2">
                   <Button
@@ -227,16 +242,24 @@ export function ReasonManagement() {
                     <Plus className="w-4 h-4 mr-1" />
                     Add Subcategory
                   </Button>
-                  <Button variant="outline" size="sm" onClick={() => handleEditCategory(category)}>
-                    <Edit className="w-4 h-4" />
-                  </Button>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => handleDeleteCategory(category.id)}
-                  >
-                    <Trash2 className="w-4 h-4" />
-                  </Button>
+                  {!category.districtCategoryId && (
+                    <>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleEditCategory(category)}
+                      >
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDeleteCategory(category.id)}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </>
+                  )}
                 </div>
               </div>
 
@@ -259,23 +282,26 @@ export function ReasonManagement() {
                             <GripVertical className="w-4 h-4 text-gray-400" />
                           </button>
                           <span className="text-gray-900">{subcategory.name}</span>
+                          {subcategory.districtSubcategoryId && <DistrictBadge />}
                         </div>
-                        <div className="flex items-center gap-2">
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => handleEditSubcategory(subcategory)}
-                          >
-                            <Edit className="w-3 h-3" />
-                          </Button>
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => handleDeleteSubcategory(subcategory.id)}
-                          >
-                            <Trash2 className="w-3 h-3" />
-                          </Button>
-                        </div>
+                        {!subcategory.districtSubcategoryId && (
+                          <div className="flex items-center gap-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleEditSubcategory(subcategory)}
+                            >
+                              <Edit className="w-3 h-3" />
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleDeleteSubcategory(subcategory.id)}
+                            >
+                              <Trash2 className="w-3 h-3" />
+                            </Button>
+                          </div>
+                        )}
                       </div>
                     ))}
                   </div>
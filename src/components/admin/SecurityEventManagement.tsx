@@ -45,6 +45,7 @@ const EVENT_TYPE_LABELS: Record<SecurityEventType, string> = {
   TOKEN_MANIPULATION: 'Token Manipulation',
   DUPLICATE_EMAIL_ATTEMPT: 'Duplicate Email Attempt',
   INVALID_TOKEN_ACCESS: 'Invalid Token Access',
+  TENANT_MISMATCH: 'Tenant Mismatch',
 };
 
 const SEVERITY_COLORS: Record<SecurityEventSeverity, string> = {
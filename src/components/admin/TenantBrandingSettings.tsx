@@ -0,0 +1,206 @@
+import { useRef, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useUpdateTenantBranding, useUploadTenantLogo } from '@/hooks/useTenantBranding';
+import { DATE_FORMATS, LANDING_PAGES, validateTenantLogo } from '@/services/tenantService';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select } from '@/components/ui/select';
+import { toast } from '@/utils/toast';
+import type {
+  DateFormat,
+  LandingPage,
+  TenantBranding,
+  TenantBrandingFormData,
+} from '@/types/tenant';
+import { Loader2, Palette, Save, Upload, X } from 'lucide-react';
+
+// The app's own primary color, offered when the tenant hasn't picked one
+const DEFAULT_PRIMARY_COLOR = '#0ea5e9';
+
+export function TenantBrandingSettings() {
+  const { branding } = useAuth();
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center gap-3 mb-4">
+        <Palette className="w-5 h-5 text-blue-600" />
+        <h3 className="text-lg font-semibold">Branding</h3>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Your logo and color appear on the login page, in the app, in emails and on exported reports.
+      </p>
+
+      {branding ? (
+        // Start again from the saved branding whenever it changes
+        <BrandingForm key={JSON.stringify(branding)} branding={branding} />
+      ) : (
+        <p className="text-sm text-gray-500">Branding could not be loaded.</p>
+      )}
+    </Card>
+  );
+}
+
+function BrandingForm({ branding }: { branding: TenantBranding }) {
+  const updateBranding = useUpdateTenantBranding();
+  const uploadLogo = useUploadTenantLogo();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [form, setForm] = useState<TenantBrandingFormData>({
+    logoUrl: branding.logoUrl,
+    primaryColor: branding.primaryColor,
+    defaultLandingPage: branding.defaultLandingPage,
+    dateFormat: branding.dateFormat,
+  });
+
+  const handleLogoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const errors = validateTenantLogo(file);
+    if (errors.length > 0) {
+      toast.error(errors[0]);
+      return;
+    }
+
+    uploadLogo.mutate(file, {
+      onSuccess: logoUrl => setForm(prev => ({ ...prev, logoUrl })),
+    });
+  };
+
+  return (
+    <div className="space-y-5">
+      <div className="space-y-2">
+        <Label>Logo</Label>
+        <div className="flex items-center gap-4">
+          <div className="w-32 h-16 rounded-lg border bg-gray-50 flex items-center justify-center overflow-hidden">
+            {form.logoUrl ? (
+              <img src={form.logoUrl} alt="Logo" className="max-w-full max-h-full object-contain" />
+            ) : (
+              <span className="text-xs text-gray-400">No logo</span>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/png,image/jpeg,image/webp"
+              className="hidden"
+              onChange={handleLogoChange}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={uploadLogo.isPending}
+            >
+              {uploadLogo.isPending ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Upload className="w-4 h-4 mr-2" />
+              )}
+              Upload
+            </Button>
+            {form.logoUrl && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setForm(prev => ({ ...prev, logoUrl: undefined }))}
+              >
+                <X className="w-4 h-4 mr-2" />
+                Remove
+              </Button>
+            )}
+          </div>
+        </div>
+        <p className="text-xs text-gray-500">PNG, JPEG or WebP, up to 1 MB.</p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="branding-primary-color">Primary color</Label>
+        <div className="flex items-center gap-3">
+          <input
+            id="branding-primary-color"
+            type="color"
+            value={form.primaryColor ?? DEFAULT_PRIMARY_COLOR}
+            onChange={e => setForm(prev => ({ ...prev, primaryColor: e.target.value }))}
+            className="h-10 w-14 rounded border cursor-pointer"
+          />
+          <Input
+            value={form.primaryColor ?? ''}
+            onChange={e =>
+              setForm(prev => ({ ...prev, primaryColor: e.target.value || undefined }))
+            }
+            placeholder="Default"
+            className="w-32 font-mono"
+            aria-label="Primary color hex value"
+          />
+          {form.primaryColor && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setForm(prev => ({ ...prev, primaryColor: undefined }))}
+            >
+              Use default
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="branding-landing-page">Default landing page</Label>
+          <Select
+            id="branding-landing-page"
+            value={form.defaultLandingPage}
+            onChange={e =>
+              setForm(prev => ({ ...prev, defaultLandingPage: e.target.value as LandingPage }))
+            }
+          >
+            {LANDING_PAGES.map(page => (
+              <option key={page.value} value={page.value}>
+                {page.label}
+              </option>
+            ))}
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="branding-date-format">Date format</Label>
+          <Select
+            id="branding-date-format"
+            value={form.dateFormat}
+            onChange={e => setForm(prev => ({ ...prev, dateFormat: e.target.value as DateFormat }))}
+          >
+            {DATE_FORMATS.map(format => (
+              <option key={format.value} value={format.value}>
+                {format.label}
+              </option>
+            ))}
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-end gap-3">
+        {form.primaryColor && !/^#[0-9a-f]{6}$/i.test(form.primaryColor) && (
+          <p className="text-sm text-gray-600 mr-auto">Enter the color as #rrggbb</p>
+        )}
+        <Button
+          onClick={() => updateBranding.mutate(form)}
+          disabled={
+            updateBranding.isPending ||
+            uploadLogo.isPending ||
+            (!!form.primaryColor && !/^#[0-9a-f]{6}$/i.test(form.primaryColor))
+          }
+        >
+          {updateBranding.isPending ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <Save className="w-4 h-4 mr-2" />
+          )}
+          Save Branding
+        </Button>
+      </div>
+    </div>
+  );
+}
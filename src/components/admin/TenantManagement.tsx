@@ -6,13 +6,17 @@ import type { Tenant } from '@/types/tenant';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
-import { Building2, Mail, Phone, MapPin, User, Edit, AlertTriangle } from 'lucide-react';
+import { useUpdateDigestSurnameSetting } from '@/hooks/useFollowUpDigest';
+import { EmailTemplateEditor } from './EmailTemplateEditor';
+import { TenantBrandingSettings } from './TenantBrandingSettings';
+import { Building2, Mail, Phone, MapPin, User, Edit, AlertTriangle, BellRing } from 'lucide-react';
 
 export function TenantManagement() {
   const { user: currentUser } = useAuth();
   const [tenant, setTenant] = useState<Tenant | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const updateDigestSurnames = useUpdateDigestSurnameSetting();
 
   useEffect(() => {
     fetchTenantInfo();
@@ -45,10 +49,16 @@ export function TenantManagement() {
         id: data.id,
         name: data.name,
         subdomain: data.subdomain,
+        districtId: data.district_id || undefined,
+        logoUrl: data.logo_url || undefined,
+        primaryColor: data.primary_color || undefined,
+        defaultLandingPage: data.default_landing_page,
+        dateFormat: data.date_format,
         contactPhone: data.contact_phone,
         contactAddress: data.contact_address,
         contactEmail: data.contact_email,
         contactPersonName: data.contact_person_name,
+        digestIncludeSurnames: data.digest_include_surnames,
         createdAt: new Date(data.created_at),
         updatedAt: new Date(data.updated_at),
       };
@@ -223,6 +233,36 @@ export function TenantManagement() {
         </Card>
       </div>
 
+      <TenantBrandingSettings />
+
+      {/* Follow-up Digests */}
+      <Card className="p-6">
+        <div className="flex items-center gap-3 mb-4">
+          <BellRing className="w-5 h-5 text-blue-600" />
+          <h3 className="text-lg font-semibold">Follow-up Digests</h3>
+        </div>
+        <p className="text-sm text-gray-600 mb-3">
+          Counselors can get a daily or weekly email of their open follow-ups. By default students
+          and contacts appear as first name and last initial.
+        </p>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={tenant.digestIncludeSurnames}
+            disabled={updateDigestSurnames.isPending}
+            onChange={e =>
+              updateDigestSurnames.mutate(e.target.checked, {
+                onSuccess: includeSurnames =>
+                  setTenant({ ...tenant, digestIncludeSurnames: includeSurnames }),
+              })
+            }
+          />
+          Include full surnames in digest emails
+        </label>
+      </Card>
+
+      <EmailTemplateEditor />
+
       {/* Information Note */}
       <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
         <div className="flex items-start gap-3">
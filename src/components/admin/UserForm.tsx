@@ -215,6 +215,12 @@ export function UserForm({ open, onOpenChange, user, onSuccess }: UserFormProps)
             >
               <option value="COUNSELOR">Counselor</option>
               <option value="ADMIN">Admin</option>
+              {/* District admins are appointed by the district */}
+              {user?.role === 'DISTRICT_ADMIN' && (
+                <option value="DISTRICT_ADMIN" disabled>
+                  District Admin
+                </option>
+              )}
             </Select>
             {errors.role && <p className="text-sm text-red-600">{errors.role}</p>}
           </div>
@@ -15,6 +15,7 @@ import { UserPlus, Edit, UserX, Mail } from 'lucide-react';
 import { UserForm } from './UserForm';
 import { UserInvitationForm } from './UserInvitationForm';
 import { InvitationManagement } from './InvitationManagement';
+import { DeactivateUserDialog } from './DeactivateUserDialog';
 
 export function UserManagement() {
   const { user: currentUser } = useAuth();
@@ -24,6 +25,7 @@ export function UserManagement() {
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [isInvitationFormOpen, setIsInvitationFormOpen] = useState(false);
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
+  const [deactivatingUser, setDeactivatingUser] = useState<User | null>(null);
 
   useEffect(() => {
     fetchUsers();
@@ -94,10 +96,6 @@ export function UserManagement() {
   };
 
   const handleDeactivateUser = async (userId: string) => {
-    if (!confirm('Are you sure you want to deactivate this user?')) {
-      return;
-    }
-
     try {
       // Ensure we have current user context with tenant information
       if (!currentUser?.tenantId) {
@@ -113,6 +111,8 @@ export function UserManagement() {
 
       if (updateError) throw updateError;
 
+      setDeactivatingUser(null);
+
       // Refresh users list
       await fetchUsers();
     } catch (err) {
@@ -219,7 +219,9 @@ export function UserManagement() {
                         className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
                           user.role === 'ADMIN'
                             ? 'bg-purple-100 text-purple-800'
-                            : 'bg-blue-100 text-blue-800'
+                            : user.role === 'DISTRICT_ADMIN'
+                              ? 'bg-amber-100 text-amber-800'
+                              : 'bg-blue-100 text-blue-800'
                         }`}
                       >
                         {user.role}
@@ -249,7 +251,7 @@ export function UserManagement() {
                           <Button
                             variant="outline"
                             size="sm"
-                            onClick={() => handleDeactivateUser(user.id)}
+                            onClick={() => setDeactivatingUser(user)}
                           >
                             <UserX className="w-4 h-4 mr-1" />
                             Deactivate
@@ -280,6 +282,13 @@ export function UserManagement() {
         onOpenChange={setIsInvitationFormOpen}
         onInvitationSent={handleInvitationSent}
       />
+
+      <DeactivateUserDialog
+        user={deactivatingUser}
+        users={users}
+        onOpenChange={open => !open && setDeactivatingUser(null)}
+        onDeactivate={handleDeactivateUser}
+      />
     </>
   );
 }
@@ -1,10 +1,19 @@
 export { UserManagement } from './UserManagement';
 export { UserForm } from './UserForm';
+export { DeactivateUserDialog } from './DeactivateUserDialog';
 export { UserInvitationForm } from './UserInvitationForm';
 export { InvitationManagement } from './InvitationManagement';
+export { EmailDeliveryHistory } from './EmailDeliveryHistory';
 export { ReasonManagement } from './ReasonManagement';
 export { CategoryForm } from './CategoryForm';
 export { SubcategoryForm } from './SubcategoryForm';
 export { AdminDashboard } from './AdminDashboard';
 export { TenantManagement } from './TenantManagement';
+export { EmailTemplateEditor } from './EmailTemplateEditor';
+export { TenantBrandingSettings } from './TenantBrandingSettings';
 export { SecurityEventManagement } from './SecurityEventManagement';
+export { GradePromotion } from './GradePromotion';
+export { CaseloadAssignment } from './CaseloadAssignment';
+export { DuplicateStudents } from './DuplicateStudents';
+export { NoteEncryption } from './NoteEncryption';
+export { AuditLog } from './AuditLog';
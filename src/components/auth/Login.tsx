@@ -10,7 +10,7 @@ import { z } from 'zod';
 export function Login() {
   const navigate = useNavigate();
   const location = useLocation();
-  const { login, isLoading, error: authError, clearError } = useAuth();
+  const { login, isLoading, error: authError, clearError, hostTenant, isUnknownHost } = useAuth();
 
   const [formData, setFormData] = useState<LoginFormData>({
     email: '',
@@ -66,8 +66,8 @@ export function Login() {
     if (response.user && !response.error) {
       toast.success('Login successful!');
 
-      // Redirect to the intended destination or dashboard
-      const from = (location.state as any)?.from?.pathname || '/dashboard';
+      // Redirect to the intended destination or the tenant's landing page
+      const from = (location.state as any)?.from?.pathname || '/';
       navigate(from, { replace: true });
     } else if (response.error) {
       toast.error(response.error.message || 'Login failed. Please try again.');
@@ -79,15 +79,34 @@ export function Login() {
       <div className="max-w-md w-full space-y-8">
         <div>
           <div className="flex justify-center mb-6">
-            <div className="w-16 h-16 bg-primary rounded-xl flex items-center justify-center shadow-lg">
-              <span className="text-primary-foreground font-bold text-2xl">SC</span>
-            </div>
+            {hostTenant?.logoUrl ? (
+              <img
+                src={hostTenant.logoUrl}
+                alt={`${hostTenant.name} logo`}
+                className="h-16 max-w-[12rem] object-contain"
+              />
+            ) : (
+              <div className="w-16 h-16 bg-primary rounded-xl flex items-center justify-center shadow-lg">
+                <span className="text-primary-foreground font-bold text-2xl">SC</span>
+              </div>
+            )}
           </div>
-          <h2 className="heading-1 text-center">School Counselor Ledger</h2>
-          <p className="mt-2 text-center body-text-sm">Sign in to your account</p>
+          <h2 className="heading-1 text-center">{hostTenant?.name ?? 'School Counselor Ledger'}</h2>
+          <p className="mt-2 text-center body-text-sm">
+            {hostTenant ? 'Sign in to School Counselor Ledger' : 'Sign in to your account'}
+          </p>
         </div>
 
         <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+          {isUnknownHost && (
+            <div className="rounded-md bg-destructive/10 border border-destructive/20 p-4">
+              <h3 className="text-sm font-medium text-destructive">School Not Found</h3>
+              <p className="mt-2 text-sm text-destructive/90">
+                No school is set up at this address. Check the link you were given.
+              </p>
+            </div>
+          )}
+
           {authError && (
             <div className="rounded-md bg-destructive/10 border border-destructive/20 p-4">
               <div className="flex">
@@ -152,7 +171,7 @@ export function Login() {
           <div>
             <button
               type="submit"
-              disabled={isLoading}
+              disabled={isLoading || isUnknownHost}
               className="inline-flex items-center justify-center gap-2 whitespace-nowrap rounded-md text-sm font-medium ring-offset-background transition-all duration-200 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:pointer-events-none disabled:opacity-50 active:scale-95 bg-primary text-primary-foreground hover:bg-primary/90 hover:shadow-md h-10 px-4 py-2 w-full"
             >
               {isLoading ? (
@@ -0,0 +1,452 @@
+import * as React from 'react';
+import { useState, useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { FormInput } from '@/components/common/FormInput';
+import { FormSelect } from '@/components/common/FormSelect';
+import { FormTextarea } from '@/components/common/FormTextarea';
+import { DateTimePicker } from '@/components/common/DateTimePicker';
+import { SearchableDropdown } from '@/components/common/SearchableDropdown';
+import type { SearchableDropdownOption } from '@/components/common/SearchableDropdown';
+import { RegardingStudentSelector } from '@/components/interactions/RegardingStudentSelector';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { Label } from '@/components/ui/label';
+import { appointmentFormSchema, MAX_APPOINTMENT_OCCURRENCES } from '@/schemas/appointment';
+import { expandRecurrence } from '@/services/appointmentService';
+import type { AppointmentFormData, AppointmentFrequency } from '@/types/appointment';
+import type { Student } from '@/types/student';
+import type { Contact } from '@/types/contact';
+import type { ReasonCategory, ReasonSubcategory } from '@/types/reason';
+import { z } from 'zod';
+
+type RecurrenceEnd = 'until' | 'count';
+
+export interface AppointmentFormProps {
+  initialData?: Partial<AppointmentFormData>;
+  students: Student[];
+  contacts: Contact[];
+  categories: ReasonCategory[];
+  subcategories: ReasonSubcategory[];
+  onSubmit: (data: AppointmentFormData) => void | Promise<void>;
+  onCancel?: () => void;
+  isLoading?: boolean;
+  submitLabel?: string;
+  // Hide the recurrence fields, e.g. when editing a single occurrence
+  showRecurrence?: boolean;
+}
+
+export function AppointmentForm({
+  initialData,
+  students,
+  contacts,
+  categories,
+  subcategories,
+  onSubmit,
+  onCancel,
+  isLoading = false,
+  submitLabel = 'Schedule Appointment',
+  showRecurrence = true,
+}: AppointmentFormProps) {
+  // Form state
+  const [type, setType] = useState<'student' | 'contact'>(initialData?.type || 'student');
+  const [studentId, setStudentId] = useState(initialData?.studentId || '');
+  const [contactId, setContactId] = useState(initialData?.contactId || '');
+  const [regardingStudentId, setRegardingStudentId] = useState(
+    initialData?.regardingStudentId || ''
+  );
+  const [categoryId, setCategoryId] = useState(initialData?.categoryId || '');
+  const [subcategoryId, setSubcategoryId] = useState(initialData?.subcategoryId || '');
+  const [startTime, setStartTime] = useState(initialData?.startTime || '');
+  const [durationMinutes, setDurationMinutes] = useState(
+    initialData?.durationMinutes?.toString() || '30'
+  );
+  const [notes, setNotes] = useState(initialData?.notes || '');
+  const [frequency, setFrequency] = useState<AppointmentFrequency>(
+    initialData?.frequency || 'NONE'
+  );
+  const [recurrenceEnd, setRecurrenceEnd] = useState<RecurrenceEnd>(
+    initialData?.untilDate ? 'until' : 'count'
+  );
+  const [untilDate, setUntilDate] = useState(initialData?.untilDate || '');
+  const [occurrenceCount, setOccurrenceCount] = useState(
+    initialData?.occurrenceCount?.toString() || '10'
+  );
+
+  // Validation errors
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  // Filter subcategories by selected category
+  const filteredSubcategories = useMemo(() => {
+    if (!categoryId) return [];
+    return subcategories.filter(sub => sub.categoryId === categoryId);
+  }, [categoryId, subcategories]);
+
+  // Convert students to dropdown options (archived students cannot be scheduled)
+  const studentOptions: SearchableDropdownOption[] = useMemo(
+    () =>
+      students
+        .filter(student => !student.archivedAt || student.id === initialData?.studentId)
+        .map(student => ({
+          value: student.id,
+          label: `${student.firstName} ${student.lastName}`,
+          subtitle: `${student.studentId} - Grade ${student.gradeLevel}`,
+        })),
+    [students, initialData?.studentId]
+  );
+
+  // Convert contacts to dropdown options
+  const contactOptions: SearchableDropdownOption[] = useMemo(
+    () =>
+      contacts.map(contact => ({
+        value: contact.id,
+        label: `${contact.firstName} ${contact.lastName}`,
+        subtitle: `${contact.relationship}${contact.organization ? ` - ${contact.organization}` : ''}`,
+      })),
+    [contacts]
+  );
+
+  const buildFormData = (): AppointmentFormData => {
+    const isRecurring = frequency !== 'NONE';
+    const count = parseInt(occurrenceCount, 10);
+    // Keep the existing rule when recurrence fields are hidden
+    const recurrence = showRecurrence
+      ? {
+          frequency,
+          untilDate: isRecurring && recurrenceEnd === 'until' ? untilDate || undefined : undefined,
+          occurrenceCount:
+            isRecurring && recurrenceEnd === 'count' && !isNaN(count) ? count : undefined,
+        }
+      : {
+          frequency: initialData?.frequency || 'NONE',
+          untilDate: initialData?.untilDate,
+          occurrenceCount: initialData?.occurrenceCount,
+        };
+
+    return {
+      type,
+      studentId: type === 'student' ? studentId : undefined,
+      contactId: type === 'contact' ? contactId : undefined,
+      regardingStudentId: type === 'contact' && regardingStudentId ? regardingStudentId : undefined,
+      categoryId,
+      subcategoryId: subcategoryId || undefined,
+      startTime,
+      durationMinutes: parseInt(durationMinutes, 10),
+      notes: notes || undefined,
+      ...recurrence,
+    };
+  };
+
+  // Preview how many appointments the recurrence rule will create
+  const occurrencePreview = useMemo(() => {
+    if (!showRecurrence || frequency === 'NONE' || !startTime) return null;
+    if (recurrenceEnd === 'until' && !untilDate) return null;
+
+    const start = new Date(startTime);
+    if (isNaN(start.getTime())) return null;
+
+    const count = parseInt(occurrenceCount, 10);
+    const occurrences = expandRecurrence(start, {
+      frequency,
+      untilDate: recurrenceEnd === 'until' ? untilDate || undefined : undefined,
+      occurrenceCount: recurrenceEnd === 'count' && !isNaN(count) ? count : undefined,
+    });
+
+    const last = occurrences[occurrences.length - 1];
+    if (!last) return null;
+
+    return `${occurrences.length} appointments, last on ${last.toLocaleDateString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    })}`;
+  }, [showRecurrence, frequency, startTime, recurrenceEnd, untilDate, occurrenceCount]);
+
+  const validate = (formData: AppointmentFormData): boolean => {
+    try {
+      appointmentFormSchema.parse(formData);
+      setErrors({});
+      return true;
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const newErrors: Record<string, string> = {};
+        error.issues.forEach(err => {
+          const field = err.path[0] as string;
+          if (field) {
+            newErrors[field] = err.message;
+          }
+        });
+        setErrors(newErrors);
+      }
+      return false;
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const formData = buildFormData();
+    if (!validate(formData)) {
+      return;
+    }
+
+    await onSubmit(formData);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {/* Appointment Type */}
+      <div className="space-y-2">
+        <Label htmlFor="appointment-type">
+          Appointment With <span className="text-destructive">*</span>
+        </Label>
+        <FormSelect
+          id="appointment-type"
+          value={type}
+          onChange={e => {
+            setType(e.target.value as 'student' | 'contact');
+            setStudentId('');
+            setContactId('');
+            setRegardingStudentId('');
+            setErrors(prev => ({
+              ...prev,
+              studentId: '',
+              contactId: '',
+              regardingStudentId: '',
+            }));
+          }}
+          disabled={isLoading}
+        >
+          <option value="student">Student</option>
+          <option value="contact">Contact</option>
+        </FormSelect>
+      </div>
+
+      {/* Student/Contact Selection */}
+      {type === 'student' ? (
+        <SearchableDropdown
+          label="Student"
+          placeholder="Search for a student..."
+          options={studentOptions}
+          value={studentId}
+          onChange={value => {
+            setStudentId(value);
+            setErrors(prev => ({ ...prev, studentId: '' }));
+          }}
+          error={errors.studentId}
+          disabled={isLoading}
+          required
+          emptyMessage="No students found"
+        />
+      ) : (
+        <>
+          <SearchableDropdown
+            label="Contact"
+            placeholder="Search for a contact..."
+            options={contactOptions}
+            value={contactId}
+            onChange={value => {
+              setContactId(value);
+              setErrors(prev => ({ ...prev, contactId: '', studentId: '' }));
+            }}
+            error={errors.contactId || errors.studentId}
+            disabled={isLoading}
+            required
+            emptyMessage="No contacts found"
+          />
+
+          <RegardingStudentSelector
+            value={regardingStudentId}
+            onChange={value => setRegardingStudentId(value || '')}
+            disabled={isLoading}
+          />
+        </>
+      )}
+
+      {/* Category Selection */}
+      <div className="space-y-2">
+        <Label htmlFor="appointment-category">
+          Reason Category <span className="text-destructive">*</span>
+        </Label>
+        <FormSelect
+          id="appointment-category"
+          value={categoryId}
+          onChange={e => {
+            setCategoryId(e.target.value);
+            setSubcategoryId('');
+            setErrors(prev => ({ ...prev, categoryId: '' }));
+          }}
+          error={errors.categoryId}
+          disabled={isLoading}
+        >
+          <option value="">Select a category</option>
+          {categories.map(category => (
+            <option key={category.id} value={category.id}>
+              {category.name}
+            </option>
+          ))}
+        </FormSelect>
+      </div>
+
+      {/* Subcategory Selection */}
+      {categoryId && filteredSubcategories.length > 0 && (
+        <div className="space-y-2">
+          <Label htmlFor="appointment-subcategory">Reason Subcategory</Label>
+          <FormSelect
+            id="appointment-subcategory"
+            value={subcategoryId}
+            onChange={e => setSubcategoryId(e.target.value)}
+            disabled={isLoading}
+          >
+            <option value="">Select a subcategory (optional)</option>
+            {filteredSubcategories.map(subcategory => (
+              <option key={subcategory.id} value={subcategory.id}>
+                {subcategory.name}
+              </option>
+            ))}
+          </FormSelect>
+        </div>
+      )}
+
+      {/* Start Time and Duration */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <DateTimePicker
+          label="Start Time"
+          type="datetime-local"
+          value={startTime}
+          onChange={value => {
+            setStartTime(value);
+            setErrors(prev => ({ ...prev, startTime: '', untilDate: '' }));
+          }}
+          error={errors.startTime}
+          disabled={isLoading}
+          required
+        />
+
+        <FormInput
+          label="Duration (minutes)"
+          type="number"
+          placeholder="e.g., 30"
+          value={durationMinutes}
+          onChange={e => {
+            setDurationMinutes(e.target.value);
+            setErrors(prev => ({ ...prev, durationMinutes: '' }));
+          }}
+          error={errors.durationMinutes}
+          disabled={isLoading}
+          required
+          min="1"
+          max="480"
+        />
+      </div>
+
+      {/* Recurrence */}
+      {showRecurrence && (
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="appointment-frequency">Repeats</Label>
+            <FormSelect
+              id="appointment-frequency"
+              value={frequency}
+              onChange={e => {
+                setFrequency(e.target.value as AppointmentFrequency);
+                setErrors(prev => ({ ...prev, untilDate: '', occurrenceCount: '' }));
+              }}
+              disabled={isLoading}
+            >
+              <option value="NONE">Does not repeat</option>
+              <option value="WEEKLY">Weekly</option>
+              <option value="BIWEEKLY">Every 2 weeks</option>
+            </FormSelect>
+          </div>
+
+          {frequency !== 'NONE' && (
+            <div className="space-y-4 pl-6 border-l-2 border-primary/20">
+              <div className="space-y-2">
+                <Label htmlFor="appointment-recurrence-end">Ends</Label>
+                <FormSelect
+                  id="appointment-recurrence-end"
+                  value={recurrenceEnd}
+                  onChange={e => {
+                    setRecurrenceEnd(e.target.value as RecurrenceEnd);
+                    setErrors(prev => ({ ...prev, untilDate: '', occurrenceCount: '' }));
+                  }}
+                  disabled={isLoading}
+                >
+                  <option value="count">After a number of appointments</option>
+                  <option value="until">On a date</option>
+                </FormSelect>
+              </div>
+
+              {recurrenceEnd === 'until' ? (
+                <DateTimePicker
+                  label="End Date"
+                  type="date"
+                  value={untilDate}
+                  onChange={value => {
+                    setUntilDate(value);
+                    setErrors(prev => ({ ...prev, untilDate: '' }));
+                  }}
+                  error={errors.untilDate}
+                  disabled={isLoading}
+                  required
+                />
+              ) : (
+                <FormInput
+                  label="Number of Appointments"
+                  type="number"
+                  value={occurrenceCount}
+                  onChange={e => {
+                    setOccurrenceCount(e.target.value);
+                    setErrors(prev => ({ ...prev, occurrenceCount: '', untilDate: '' }));
+                  }}
+                  error={errors.occurrenceCount || errors.untilDate}
+                  disabled={isLoading}
+                  required
+                  min="1"
+                  max={String(MAX_APPOINTMENT_OCCURRENCES)}
+                />
+              )}
+
+              {occurrencePreview && (
+                <p className="text-sm text-muted-foreground">{occurrencePreview}</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Notes */}
+      <FormTextarea
+        label="Notes"
+        placeholder="Add any notes for this appointment..."
+        value={notes}
+        onChange={e => setNotes(e.target.value)}
+        disabled={isLoading}
+        rows={3}
+      />
+
+      {/* Form Actions */}
+      <div className="flex flex-col-reverse sm:flex-row justify-end gap-3 pt-4 border-t">
+        {onCancel && (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onCancel}
+            disabled={isLoading}
+            className="w-full sm:w-auto"
+          >
+            Cancel
+          </Button>
+        )}
+        <Button type="submit" disabled={isLoading} className="w-full sm:w-auto relative">
+          {isLoading && (
+            <span className="absolute inset-0 flex items-center justify-center">
+              <LoadingSpinner size="sm" />
+            </span>
+          )}
+          <span className={isLoading ? 'invisible' : ''}>{submitLabel}</span>
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,166 @@
+import { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  useCalendarFeed,
+  useRegenerateCalendarFeed,
+  useUpdateCalendarFeed,
+  useDeleteCalendarFeed,
+} from '@/hooks/useCalendarFeed';
+import { generateInteractionsIcs } from '@/utils/calendarHelpers';
+import { exportToICS, generateFilenameWithTimestamp } from '@/utils/exportHelpers';
+import { toast } from '@/utils/toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { Interaction } from '@/types/interaction';
+import { Copy, Download, Link2, RefreshCw, Trash2 } from 'lucide-react';
+
+export interface CalendarExportProps {
+  interactions: Interaction[];
+}
+
+export function CalendarExport({ interactions }: CalendarExportProps) {
+  const { user } = useAuth();
+  const { data: feed, isLoading: isFeedLoading } = useCalendarFeed();
+  const regenerateFeed = useRegenerateCalendarFeed();
+  const updateFeed = useUpdateCalendarFeed();
+  const deleteFeed = useDeleteCalendarFeed();
+
+  const [redactDownload, setRedactDownload] = useState(true);
+
+  const handleDownload = () => {
+    const ownInteractions = interactions.filter(
+      interaction => interaction.counselorId === user?.id
+    );
+
+    if (ownInteractions.length === 0) {
+      toast.info('There are no interactions to export');
+      return;
+    }
+
+    const ics = generateInteractionsIcs(ownInteractions, { redactStudentNames: redactDownload });
+    exportToICS(ics, generateFilenameWithTimestamp('counseling-calendar'));
+  };
+
+  const handleCopy = async () => {
+    if (!feed) return;
+
+    try {
+      await navigator.clipboard.writeText(feed.url);
+      toast.success('Feed link copied');
+    } catch {
+      toast.error('Could not copy the link. Select it and copy it manually.');
+    }
+  };
+
+  const handleRegenerate = () => {
+    if (
+      feed &&
+      !window.confirm(
+        'Create a new feed link? Calendars subscribed to the current link will stop updating.'
+      )
+    ) {
+      return;
+    }
+
+    regenerateFeed.mutate(feed?.redactStudentNames ?? true);
+  };
+
+  const handleDisable = () => {
+    if (!feed) return;
+    if (!window.confirm('Disable the calendar feed? Subscribed calendars will stop updating.')) {
+      return;
+    }
+
+    deleteFeed.mutate(feed.id);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4 space-y-4">
+      {/* One-time download */}
+      <div className="space-y-2">
+        <Label className="text-sm font-medium">Export</Label>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={redactDownload}
+            onChange={e => setRedactDownload(e.target.checked)}
+          />
+          Show students as initials
+        </label>
+        <Button variant="outline" size="sm" className="w-full" onClick={handleDownload}>
+          <Download className="w-4 h-4 mr-2" />
+          Download .ics
+        </Button>
+      </div>
+
+      {/* Subscription feed */}
+      <div className="space-y-2 pt-4 border-t">
+        <Label className="text-sm font-medium">Calendar Subscription</Label>
+        <p className="text-xs text-gray-500">
+          Subscribe from Google Calendar, Outlook or Apple Calendar to see your interactions and
+          follow-ups. Anyone with the link can view the feed.
+        </p>
+
+        {isFeedLoading ? null : feed ? (
+          <>
+            <div className="flex gap-2">
+              <Input
+                readOnly
+                value={feed.url}
+                onFocus={e => e.target.select()}
+                className="text-xs"
+              />
+              <Button variant="outline" size="sm" onClick={handleCopy} aria-label="Copy feed link">
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={feed.redactStudentNames}
+                disabled={updateFeed.isPending}
+                onChange={e =>
+                  updateFeed.mutate({ id: feed.id, redactStudentNames: e.target.checked })
+                }
+              />
+              Show students as initials
+            </label>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleRegenerate}
+                disabled={regenerateFeed.isPending}
+              >
+                <RefreshCw className="w-4 h-4 mr-2" />
+                New Link
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleDisable}
+                disabled={deleteFeed.isPending}
+                className="text-destructive"
+              >
+                <Trash2 className="w-4 h-4 mr-2" />
+                Disable
+              </Button>
+            </div>
+          </>
+        ) : (
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full"
+            onClick={handleRegenerate}
+            disabled={regenerateFeed.isPending}
+          >
+            <Link2 className="w-4 h-4 mr-2" />
+            Create Feed Link
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -87,6 +87,10 @@ export const CalendarView = forwardRef<CalendarViewRef, CalendarViewProps>(
         tooltipText = `${extendedProps.contactName} (re: ${extendedProps.regardingStudentName})\n${categoryName}\n${duration}`;
       }
 
+      if (extendedProps.isPlanned) {
+        tooltipText = `Planned${extendedProps.isRecurring ? ' (recurring)' : ''}\n${tooltipText}`;
+      }
+
       // Add notes if available
       if (extendedProps.notes) {
         tooltipText += `\n${extendedProps.notes}`;
@@ -113,7 +117,10 @@ export const CalendarView = forwardRef<CalendarViewRef, CalendarViewProps>(
         <div className="fc-event-main-frame" title={tooltipText}>
           <div className="fc-event-time">{eventInfo.timeText}</div>
           <div className="fc-event-title-container">
-            <div className="fc-event-title fc-sticky">{eventInfo.event.title}</div>
+            <div className="fc-event-title fc-sticky">
+              {extendedProps.isPlanned && <span className="event-planned-badge">Planned</span>}
+              {eventInfo.event.title}
+            </div>
           </div>
         </div>
       );
@@ -1,39 +1,80 @@
+import { useState } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { FormSelect } from '@/components/common/FormSelect';
 import { InteractionForm } from '@/components/interactions/InteractionForm';
+import { AppointmentForm } from './AppointmentForm';
+import { appointmentToFormData } from '@/utils/calendarHelpers';
+import { formatDateTimeForInput } from '@/utils/dateHelpers';
+import { cn } from '@/lib/utils';
 import type { InteractionFormData, Interaction } from '@/types/interaction';
+import type { Appointment, AppointmentEditScope, AppointmentFormData } from '@/types/appointment';
 import type { Student } from '@/types/student';
 import type { Contact } from '@/types/contact';
 import type { ReasonCategory, ReasonSubcategory } from '@/types/reason';
+import { CalendarCheck, CalendarX, Lock } from 'lucide-react';
 
 export interface EventModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   interaction?: Interaction;
+  appointment?: Appointment;
   prefilledDate?: Date;
   students: Student[];
   contacts: Contact[];
   categories: ReasonCategory[];
   subcategories: ReasonSubcategory[];
   onSubmit: (data: InteractionFormData) => Promise<void>;
+  onAppointmentSubmit?: (data: AppointmentFormData, scope: AppointmentEditScope) => Promise<void>;
+  onMarkHeld?: (appointment: Appointment, data: InteractionFormData) => Promise<void>;
+  onCancelAppointment?: (appointment: Appointment, scope: AppointmentEditScope) => Promise<void>;
   isLoading?: boolean;
 }
 
-export function EventModal({
-  open,
+type EventModalMode = 'interaction' | 'appointment' | 'held';
+
+export function EventModal({ open, onOpenChange, ...props }: EventModalProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <EventModalContent onOpenChange={onOpenChange} {...props} />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Rendered inside the dialog so mode and scope reset each time it opens
+function EventModalContent({
   onOpenChange,
   interaction,
+  appointment,
   prefilledDate,
   students,
   contacts,
   categories,
   subcategories,
   onSubmit,
+  onAppointmentSubmit,
+  onMarkHeld,
+  onCancelAppointment,
   isLoading = false,
-}: EventModalProps) {
-  // Prepare initial data for the form
+}: Omit<EventModalProps, 'open'>) {
+  const [mode, setMode] = useState<EventModalMode>(appointment ? 'appointment' : 'interaction');
+  const [scope, setScope] = useState<AppointmentEditScope>('occurrence');
+
+  const isRecurring = !!appointment && appointment.recurrence.frequency !== 'NONE';
+  // A one-off appointment is its own series, so edits can add a recurrence rule
+  const editScope: AppointmentEditScope = isRecurring ? scope : 'series';
+  const canSchedule = !interaction && !appointment && !!onAppointmentSubmit;
+
+  // Prepare initial data for the interaction form
   const initialData: Partial<InteractionFormData> | undefined = interaction
     ? {
-        type: interaction.studentId ? 'student' : 'contact',
+        type: interaction.isGroup ? 'group' : interaction.studentId ? 'student' : 'contact',
+        participants: interaction.participants.map(({ studentId, attended }) => ({
+          studentId,
+          attended,
+        })),
         studentId: interaction.studentId,
         contactId: interaction.contactId,
         categoryId: interaction.categoryId,
@@ -48,25 +89,162 @@ export function EventModal({
           : undefined,
         followUpNotes: interaction.followUpNotes,
       }
+    : appointment
+      ? {
+          type: appointment.studentId ? 'student' : 'contact',
+          studentId: appointment.studentId,
+          contactId: appointment.contactId,
+          regardingStudentId: appointment.regardingStudentId,
+          categoryId: appointment.categoryId,
+          subcategoryId: appointment.subcategoryId,
+          startTime: new Date(appointment.startTime).toISOString().slice(0, 16),
+          durationMinutes: appointment.durationMinutes,
+          notes: appointment.notes,
+        }
+      : prefilledDate
+        ? {
+            startTime: new Date(prefilledDate).toISOString().slice(0, 16),
+            type: 'student',
+          }
+        : undefined;
+
+  // Prepare initial data for the appointment form
+  const appointmentInitialData: Partial<AppointmentFormData> | undefined = appointment
+    ? appointmentToFormData(appointment)
     : prefilledDate
       ? {
-          startTime: new Date(prefilledDate).toISOString().slice(0, 16),
+          startTime: formatDateTimeForInput(prefilledDate),
           type: 'student',
         }
       : undefined;
 
   const handleSubmit = async (data: InteractionFormData) => {
-    await onSubmit(data);
+    if (mode === 'held' && appointment && onMarkHeld) {
+      await onMarkHeld(appointment, data);
+    } else {
+      await onSubmit(data);
+    }
+    onOpenChange(false);
+  };
+
+  const handleAppointmentSubmit = async (data: AppointmentFormData) => {
+    if (!onAppointmentSubmit) return;
+    await onAppointmentSubmit(data, editScope);
+    onOpenChange(false);
+  };
+
+  const handleCancelAppointment = async () => {
+    if (!appointment || !onCancelAppointment) return;
+    await onCancelAppointment(appointment, editScope);
     onOpenChange(false);
   };
 
+  const title = interaction
+    ? 'Edit Interaction'
+    : mode === 'held'
+      ? 'Log Appointment as Held'
+      : appointment
+        ? 'Edit Appointment'
+        : mode === 'appointment'
+          ? 'Schedule Appointment'
+          : 'Create Interaction';
+
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
-        <DialogHeader>
-          <DialogTitle>{interaction ? 'Edit Interaction' : 'Create Interaction'}</DialogTitle>
-        </DialogHeader>
+    <>
+      <DialogHeader>
+        <DialogTitle>{title}</DialogTitle>
+      </DialogHeader>
 
+      {canSchedule && (
+        <div className="grid grid-cols-2 gap-2 rounded-lg bg-muted p-1">
+          {(['interaction', 'appointment'] as const).map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setMode(option)}
+              className={cn(
+                'rounded-md px-3 py-1.5 text-sm font-medium transition-colors',
+                mode === option
+                  ? 'bg-white shadow text-gray-900'
+                  : 'text-gray-600 hover:text-gray-900'
+              )}
+            >
+              {option === 'interaction' ? 'Log Interaction' : 'Schedule Appointment'}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {appointment && mode === 'appointment' && (
+        <div className="space-y-4">
+          {isRecurring && (
+            <FormSelect
+              id="appointment-edit-scope"
+              label="Apply changes to"
+              value={scope}
+              onChange={e => setScope(e.target.value as AppointmentEditScope)}
+              disabled={isLoading}
+            >
+              <option value="occurrence">This appointment only</option>
+              <option value="series">This and all upcoming appointments in the series</option>
+            </FormSelect>
+          )}
+
+          <div className="flex flex-col sm:flex-row gap-2">
+            {onMarkHeld && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setMode('held')}
+                disabled={isLoading}
+              >
+                <CalendarCheck className="w-4 h-4 mr-2" />
+                Mark as Held
+              </Button>
+            )}
+            {onCancelAppointment && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleCancelAppointment}
+                disabled={isLoading}
+                className="text-destructive"
+              >
+                <CalendarX className="w-4 h-4 mr-2" />
+                {isRecurring && scope === 'series'
+                  ? 'Cancel Upcoming Appointments'
+                  : 'Cancel Appointment'}
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {appointment?.notesDecryptionFailed && mode === 'appointment' ? (
+        <div className="flex items-start gap-3 p-3 bg-red-50 border border-red-200 rounded-md">
+          <Lock className="w-5 h-5 text-red-600 mt-0.5 shrink-0" />
+          <div className="space-y-1">
+            <p className="text-sm font-medium text-red-800">Notes could not be decrypted</p>
+            <p className="text-sm text-red-700">
+              The notes for this appointment are encrypted with a key that is not available. Editing
+              is disabled so they are not overwritten. Contact your administrator.
+            </p>
+          </div>
+        </div>
+      ) : mode === 'appointment' ? (
+        <AppointmentForm
+          initialData={appointmentInitialData}
+          students={students}
+          contacts={contacts}
+          categories={categories}
+          subcategories={subcategories}
+          onSubmit={handleAppointmentSubmit}
+          onCancel={() => onOpenChange(false)}
+          isLoading={isLoading}
+          showRecurrence={editScope === 'series'}
+          submitLabel={appointment ? 'Update Appointment' : 'Schedule Appointment'}
+        />
+      ) : (
         <InteractionForm
           initialData={initialData}
           students={students}
@@ -74,11 +252,17 @@ export function EventModal({
           categories={categories}
           subcategories={subcategories}
           onSubmit={handleSubmit}
-          onCancel={() => onOpenChange(false)}
+          onCancel={mode === 'held' ? () => setMode('appointment') : () => onOpenChange(false)}
           isLoading={isLoading}
-          submitLabel={interaction ? 'Update Interaction' : 'Create Interaction'}
+          submitLabel={
+            interaction
+              ? 'Update Interaction'
+              : mode === 'held'
+                ? 'Log Interaction'
+                : 'Create Interaction'
+          }
         />
-      </DialogContent>
-    </Dialog>
+      )}
+    </>
   );
 }
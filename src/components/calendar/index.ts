@@ -1,3 +1,5 @@
 export { CalendarView } from './CalendarView';
 export { EventModal } from './EventModal';
 export { CalendarFilters } from './CalendarFilters';
+export { AppointmentForm } from './AppointmentForm';
+export { CalendarExport } from './CalendarExport';
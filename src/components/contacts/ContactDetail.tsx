@@ -9,6 +9,7 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
+import { StudentContactLinks } from './StudentContactLinks';
 import type { Contact } from '@/types/contact';
 import type { Interaction } from '@/types/interaction';
 
@@ -137,6 +138,9 @@ export function ContactDetail({
             </dl>
           </div>
 
+          {/* Linked Students */}
+          <StudentContactLinks contactId={contact.id} />
+
           {/* Interaction Summary */}
           <div>
             <h3 className="text-lg font-semibold mb-3">Interaction Summary</h3>
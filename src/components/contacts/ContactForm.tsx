@@ -11,7 +11,8 @@ import { FormInput } from '@/components/common/FormInput';
 import { FormSelect } from '@/components/common/FormSelect';
 import { FormTextarea } from '@/components/common/FormTextarea';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
-import type { Contact, ContactRelationship } from '@/types/contact';
+import { CONTACT_RELATIONSHIPS } from '@/services/studentContactService';
+import type { Contact } from '@/types/contact';
 
 interface ContactFormData {
   firstName: string;
@@ -31,16 +32,6 @@ interface ContactFormProps {
   errors?: Record<string, string>;
 }
 
-const relationshipOptions: ContactRelationship[] = [
-  'Parent',
-  'Guardian',
-  'Teacher',
-  'Administrator',
-  'Counselor',
-  'Social Worker',
-  'Other',
-];
-
 export function ContactForm({
   contact,
   open,
@@ -143,7 +134,7 @@ export function ContactForm({
             disabled={isSubmitting}
           >
             <option value="">Select relationship...</option>
-            {relationshipOptions.map(rel => (
+            {CONTACT_RELATIONSHIPS.map(rel => (
               <option key={rel} value={rel}>
                 {rel}
               </option>
@@ -0,0 +1,349 @@
+import { useMemo, useState } from 'react';
+import { useContacts } from '@/hooks/useContacts';
+import { useStudents } from '@/hooks/useStudents';
+import {
+  useContactStudentLinks,
+  useCreateStudentContactLink,
+  useDeleteStudentContactLink,
+  useStudentContactLinks,
+  useUpdateStudentContactLink,
+} from '@/hooks/useStudentContacts';
+import {
+  CONTACT_RELATIONSHIPS,
+  sortStudentContactLinks,
+  validateStudentContactLink,
+} from '@/services/studentContactService';
+import { isArchivedStudent } from '@/utils/gradeHelpers';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Select } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { SearchableDropdown } from '@/components/common/SearchableDropdown';
+import type { StudentContactFormData, StudentContactLink } from '@/types/contact';
+import { AlertTriangle, Ban, Loader2, Plus } from 'lucide-react';
+
+/** Lists the contacts linked to a student, or the students linked to a contact */
+type StudentContactLinksProps = { studentId: string } | { contactId: string };
+
+type LinkDialogState = StudentContactLink | 'new' | null;
+
+export function StudentContactLinks(props: StudentContactLinksProps) {
+  const bySide = 'studentId' in props ? 'contact' : 'student';
+  const studentLinks = useStudentContactLinks('studentId' in props ? props.studentId : '');
+  const contactLinks = useContactStudentLinks('contactId' in props ? props.contactId : '');
+  const { data = [], isLoading, error } = 'studentId' in props ? studentLinks : contactLinks;
+  const deleteLink = useDeleteStudentContactLink();
+  const [editing, setEditing] = useState<LinkDialogState>(null);
+
+  const links = useMemo(() => sortStudentContactLinks(data, bySide), [data, bySide]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold">{bySide === 'contact' ? 'Contacts' : 'Students'}</h3>
+        <Button variant="outline" size="sm" onClick={() => setEditing('new')}>
+          <Plus className="w-4 h-4 mr-2" />
+          {bySide === 'contact' ? 'Link Contact' : 'Link Student'}
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center py-4">
+          <LoadingSpinner />
+          <span className="ml-2 text-sm text-gray-600">Loading links...</span>
+        </div>
+      ) : error ? (
+        <div className="flex items-center gap-2 text-sm text-red-700">
+          <AlertTriangle className="w-4 h-4" />
+          Failed to load links
+        </div>
+      ) : links.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          {bySide === 'contact' ? 'No contacts linked yet.' : 'No students linked yet.'}
+        </p>
+      ) : (
+        <ul className="divide-y rounded-lg border">
+          {links.map(link => (
+            <li key={link.id} className="flex items-start justify-between gap-4 p-3">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="font-medium text-gray-900">
+                    {bySide === 'contact' ? link.contactName : link.studentName}
+                  </span>
+                  <span className="text-sm text-gray-600">{link.relationship}</span>
+                  <LinkBadges link={link} />
+                </div>
+                {bySide === 'contact' && (link.contactPhone || link.contactEmail) && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    {[link.contactPhone, link.contactEmail].filter(Boolean).join(' · ')}
+                  </p>
+                )}
+                {link.notes && (
+                  <p className="text-xs text-gray-600 mt-1 whitespace-pre-line">{link.notes}</p>
+                )}
+              </div>
+              <div className="flex gap-2">
+                <Button variant="ghost" size="sm" onClick={() => setEditing(link)}>
+                  Edit
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deleteLink.mutate(link)}
+                  disabled={deleteLink.isPending}
+                >
+                  Remove
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <LinkDialog
+        state={editing}
+        studentId={'studentId' in props ? props.studentId : undefined}
+        contactId={'contactId' in props ? props.contactId : undefined}
+        linkedIds={links.map(link => (bySide === 'contact' ? link.contactId : link.studentId))}
+        onOpenChange={open => !open && setEditing(null)}
+      />
+    </div>
+  );
+}
+
+function LinkBadges({ link }: { link: StudentContactLink }) {
+  return (
+    <>
+      {link.isPrimaryGuardian && (
+        <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+          Primary guardian
+        </span>
+      )}
+      {link.hasCustody && (
+        <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+          Custody
+        </span>
+      )}
+      {link.noContact && (
+        <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+          <Ban className="w-3 h-3" />
+          No contact
+        </span>
+      )}
+    </>
+  );
+}
+
+interface LinkDialogProps {
+  state: LinkDialogState;
+  studentId?: string;
+  contactId?: string;
+  /** IDs already linked on the side being picked, which cannot be linked again */
+  linkedIds: string[];
+  onOpenChange: (open: boolean) => void;
+}
+
+function LinkDialog({ state, studentId, contactId, linkedIds, onOpenChange }: LinkDialogProps) {
+  const link = state && state !== 'new' ? state : undefined;
+
+  return (
+    <Dialog open={!!state} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {link ? 'Edit Link' : studentId ? 'Link Contact' : 'Link Student'}
+          </DialogTitle>
+          {link && (
+            <DialogDescription>
+              {link.contactName} and {link.studentName}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        {state && (
+          <LinkForm
+            key={link?.id ?? 'new'}
+            link={link}
+            studentId={studentId}
+            contactId={contactId}
+            linkedIds={linkedIds}
+            onDone={() => onOpenChange(false)}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface LinkFormProps {
+  link?: StudentContactLink;
+  studentId?: string;
+  contactId?: string;
+  linkedIds: string[];
+  onDone: () => void;
+}
+
+function LinkForm({ link, studentId, contactId, linkedIds, onDone }: LinkFormProps) {
+  const { data: students = [], isLoading: isLoadingStudents } = useStudents();
+  const { data: contacts = [], isLoading: isLoadingContacts } = useContacts();
+  const createLink = useCreateStudentContactLink();
+  const updateLink = useUpdateStudentContactLink();
+  const [form, setForm] = useState<StudentContactFormData>({
+    studentId: link?.studentId ?? studentId ?? '',
+    contactId: link?.contactId ?? contactId ?? '',
+    relationship:
+      link?.relationship ?? contacts.find(c => c.id === contactId)?.relationship ?? 'Parent',
+    isPrimaryGuardian: link?.isPrimaryGuardian ?? false,
+    hasCustody: link?.hasCustody ?? false,
+    noContact: link?.noContact ?? false,
+    notes: link?.notes ?? '',
+  });
+
+  const errors = validateStudentContactLink(form);
+  const isPending = createLink.isPending || updateLink.isPending;
+  // Keep a relationship typed before the fixed list existed selectable
+  const relationships: string[] = CONTACT_RELATIONSHIPS.some(r => r === form.relationship)
+    ? CONTACT_RELATIONSHIPS
+    : [form.relationship, ...CONTACT_RELATIONSHIPS];
+
+  const studentOptions = students
+    .filter(student => !isArchivedStudent(student) && !linkedIds.includes(student.id))
+    .map(student => ({
+      value: student.id,
+      label: `${student.firstName} ${student.lastName}`,
+      subtitle: `${student.studentId} • Grade ${student.gradeLevel}`,
+    }));
+  const contactOptions = contacts
+    .filter(contact => !linkedIds.includes(contact.id))
+    .map(contact => ({
+      value: contact.id,
+      label: `${contact.firstName} ${contact.lastName}`,
+      subtitle: contact.organization || contact.relationship,
+    }));
+
+  const handleContactChange = (id: string) => {
+    const contact = contacts.find(c => c.id === id);
+    setForm(prev => ({
+      ...prev,
+      contactId: id,
+      relationship: contact?.relationship ?? prev.relationship,
+    }));
+  };
+
+  const handleSubmit = () => {
+    if (link) {
+      updateLink.mutate({ id: link.id, data: form }, { onSuccess: onDone });
+    } else {
+      createLink.mutate(form, { onSuccess: onDone });
+    }
+  };
+
+  return (
+    <>
+      <div className="space-y-4">
+        {!link && studentId && (
+          <SearchableDropdown
+            label="Contact"
+            placeholder="Search for a contact..."
+            options={contactOptions}
+            value={form.contactId}
+            onChange={handleContactChange}
+            loading={isLoadingContacts}
+            required
+            emptyMessage="No contacts found"
+          />
+        )}
+        {!link && contactId && (
+          <SearchableDropdown
+            label="Student"
+            placeholder="Search for a student..."
+            options={studentOptions}
+            value={form.studentId}
+            onChange={id => setForm(prev => ({ ...prev, studentId: id }))}
+            loading={isLoadingStudents}
+            required
+            emptyMessage="No students found"
+          />
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="student-contact-relationship">Relationship to student</Label>
+          <Select
+            id="student-contact-relationship"
+            value={form.relationship}
+            onChange={e => setForm(prev => ({ ...prev, relationship: e.target.value }))}
+          >
+            {relationships.map(relationship => (
+              <option key={relationship} value={relationship}>
+                {relationship}
+              </option>
+            ))}
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={form.isPrimaryGuardian}
+              onChange={e => setForm(prev => ({ ...prev, isPrimaryGuardian: e.target.checked }))}
+            />
+            Primary guardian
+          </label>
+          {form.isPrimaryGuardian && !link?.isPrimaryGuardian && (
+            <p className="text-xs text-gray-500 pl-6">
+              Replaces the student&apos;s current primary guardian, if any.
+            </p>
+          )}
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={form.hasCustody}
+              onChange={e => setForm(prev => ({ ...prev, hasCustody: e.target.checked }))}
+            />
+            Has custody
+          </label>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={form.noContact}
+              onChange={e => setForm(prev => ({ ...prev, noContact: e.target.checked }))}
+            />
+            No contact (do not share information about the student)
+          </label>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="student-contact-notes">Notes (optional)</Label>
+          <Textarea
+            id="student-contact-notes"
+            value={form.notes}
+            onChange={e => setForm(prev => ({ ...prev, notes: e.target.value }))}
+            rows={2}
+            placeholder="e.g. court order details, pickup arrangements"
+          />
+        </div>
+      </div>
+
+      <DialogFooter className="items-center">
+        {errors.length > 0 && <p className="text-sm text-gray-600 mr-auto">{errors[0]}</p>}
+        <Button variant="outline" onClick={onDone}>
+          Cancel
+        </Button>
+        <Button onClick={handleSubmit} disabled={errors.length > 0 || isPending}>
+          {isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          {link ? 'Save' : 'Link'}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
@@ -2,3 +2,4 @@ export { ContactList } from './ContactList';
 export { ContactDetail } from './ContactDetail';
 export { ContactForm } from './ContactForm';
 export { ContactSearch } from './ContactSearch';
+export { StudentContactLinks } from './StudentContactLinks';
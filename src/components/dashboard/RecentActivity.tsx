@@ -21,6 +21,9 @@ export function RecentActivity({ interactions }: RecentActivityProps) {
 
   // Get display name for interaction (student or contact)
   const getInteractionName = (interaction: Interaction): string => {
+    if (interaction.isGroup) {
+      return `Group session (${interaction.participants.length} students)`;
+    }
     if (interaction.student) {
       return `${interaction.student.firstName} ${interaction.student.lastName}`;
     }
@@ -32,6 +35,7 @@ export function RecentActivity({ interactions }: RecentActivityProps) {
 
   // Get type label
   const getTypeLabel = (interaction: Interaction): string => {
+    if (interaction.isGroup) return 'Group';
     if (interaction.student) return 'Student';
     if (interaction.contact) return 'Contact';
     return '';
@@ -0,0 +1,226 @@
+import { useState } from 'react';
+import { useDistrictReportAggregates } from '@/hooks/useDistrict';
+import { DISTRICT_MIN_CELL_SIZE, formatDistrictCount } from '@/services/districtService';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { formatDate } from '@/utils/dateHelpers';
+import type { District } from '@/types/district';
+import { AlertTriangle, Building2, Clock, MessageSquare, ShieldCheck, Users } from 'lucide-react';
+
+// District totals cover whole months (UTC) that have ended
+const PRESET_OPTIONS = [
+  { label: 'Last Month', months: 1 },
+  { label: 'Last 3 Months', months: 3 },
+  { label: 'Last 12 Months', months: 12 },
+];
+
+interface DateRange {
+  months: number;
+  startDate: Date;
+  endDate: Date;
+}
+
+function getRange(months: number): DateRange {
+  const today = new Date();
+  const startDate = new Date(today.getUTCFullYear(), today.getUTCMonth() - months, 1);
+  const endDate = new Date(today.getUTCFullYear(), today.getUTCMonth(), 0);
+  return { months, startDate, endDate };
+}
+
+function formatMinutes(minutes: number | null): string {
+  if (minutes === null) return '—';
+  return `${Math.round(minutes / 60).toLocaleString()} h`;
+}
+
+interface DistrictOverviewProps {
+  district: District;
+}
+
+export function DistrictOverview({ district }: DistrictOverviewProps) {
+  const [range, setRange] = useState<DateRange>(() => getRange(1));
+  const {
+    data: totals,
+    isLoading,
+    error,
+  } = useDistrictReportAggregates(range.startDate, range.months);
+
+  const summaryCards = [
+    {
+      label: 'Schools',
+      value: district.schools.length.toLocaleString(),
+      icon: Building2,
+      color: 'text-blue-600',
+    },
+    {
+      label: 'Interactions',
+      value: totals ? formatDistrictCount(totals.totalInteractions) : '—',
+      icon: MessageSquare,
+      color: 'text-green-600',
+    },
+    {
+      label: 'Students Seen',
+      value: totals ? formatDistrictCount(totals.totalStudents) : '—',
+      icon: Users,
+      color: 'text-purple-600',
+    },
+    {
+      label: 'Counseling Time',
+      value: totals ? formatMinutes(totals.totalDuration) : '—',
+      icon: Clock,
+      color: 'text-orange-600',
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex flex-wrap gap-2">
+          {PRESET_OPTIONS.map(preset => (
+            <Button
+              key={preset.months}
+              variant={range.months === preset.months ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setRange(getRange(preset.months))}
+            >
+              {preset.label}
+            </Button>
+          ))}
+        </div>
+        <p className="text-sm text-gray-600">
+          {formatDate(range.startDate, 'short')} to {formatDate(range.endDate, 'short')}
+        </p>
+      </div>
+
+      <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 flex items-start gap-3">
+        <ShieldCheck className="w-5 h-5 text-blue-600 mt-0.5" />
+        <p className="text-sm text-blue-900">
+          District totals are de-identified. Counts below {DISTRICT_MIN_CELL_SIZE} are shown as &lt;
+          {DISTRICT_MIN_CELL_SIZE} so no student can be picked out of a school&apos;s numbers, and
+          another count may be hidden with them so they can&apos;t be worked out from the total.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        {summaryCards.map(card => (
+          <Card key={card.label} className="p-4">
+            <div className="flex items-center gap-3">
+              <card.icon className={`w-5 h-5 ${card.color}`} />
+              <div>
+                <p className="text-sm text-gray-500">{card.label}</p>
+                <p className="text-2xl font-semibold text-gray-900">{card.value}</p>
+              </div>
+            </div>
+          </Card>
+        ))}
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <LoadingSpinner />
+          <span className="ml-2 text-gray-600">Loading district totals...</span>
+        </div>
+      ) : error || !totals ? (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <div className="flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5 text-red-600" />
+            <p className="text-red-800">Failed to load district totals</p>
+          </div>
+        </div>
+      ) : (
+        <>
+          <Card className="p-6">
+            <h3 className="text-lg font-semibold mb-4">By School</h3>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>School</TableHead>
+                  <TableHead className="text-right">Interactions</TableHead>
+                  <TableHead className="text-right">Students</TableHead>
+                  <TableHead className="text-right">Time</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {totals.schools.map(school => (
+                  <TableRow key={school.tenantId}>
+                    <TableCell className="font-medium">{school.tenantName}</TableCell>
+                    <TableCell className="text-right">
+                      {formatDistrictCount(school.totalInteractions)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatDistrictCount(school.totalStudents)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatMinutes(school.totalDuration)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Card>
+
+          <Card className="p-6">
+            <h3 className="text-lg font-semibold mb-1">By Reason</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              Categories pushed from the district are combined across schools; categories schools
+              added themselves are combined into one row.
+            </p>
+            {totals.categories.length === 0 ? (
+              <p className="text-sm text-gray-500">No interactions in this period.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Category</TableHead>
+                    <TableHead className="text-right">Schools</TableHead>
+                    <TableHead className="text-right">Interactions</TableHead>
+                    <TableHead className="text-right">Students</TableHead>
+                    <TableHead className="text-right">Time</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {totals.categories.map(category => (
+                    <TableRow key={category.districtCategoryId ?? 'school'}>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <span
+                            className="w-3 h-3 rounded-full"
+                            style={{ backgroundColor: category.color || '#9ca3af' }}
+                          />
+                          <span className="font-medium">{category.categoryName}</span>
+                          {category.districtCategoryId && (
+                            <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                              District
+                            </span>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">{category.schoolCount}</TableCell>
+                      <TableCell className="text-right">
+                        {formatDistrictCount(category.count)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatDistrictCount(category.totalStudents)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatMinutes(category.totalDuration)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,274 @@
+import { useState } from 'react';
+import {
+  useCreateDistrictReasonCategory,
+  useCreateDistrictReasonSubcategory,
+  useDeleteDistrictReasonCategory,
+  useDeleteDistrictReasonSubcategory,
+  useDistrictReasonTemplates,
+  usePushDistrictReasonTemplates,
+  useUpdateDistrictReasonCategory,
+} from '@/hooks/useDistrict';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { formatDateTime } from '@/utils/dateHelpers';
+import type {
+  District,
+  DistrictReasonCategory,
+  DistrictReasonCategoryFormData,
+} from '@/types/district';
+import { AlertTriangle, Check, Edit, Plus, Send, Trash2, X } from 'lucide-react';
+
+const DEFAULT_COLOR = '#3B82F6';
+
+interface DistrictReasonTemplatesProps {
+  district: District;
+}
+
+export function DistrictReasonTemplates({ district }: DistrictReasonTemplatesProps) {
+  const { data: templates = [], isLoading, error } = useDistrictReasonTemplates();
+  const createTemplate = useCreateDistrictReasonCategory();
+  const pushTemplates = usePushDistrictReasonTemplates();
+  const [newName, setNewName] = useState('');
+  const [newColor, setNewColor] = useState(DEFAULT_COLOR);
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+
+    const sortOrder = templates.reduce((max, t) => Math.max(max, t.sortOrder + 1), 0);
+    createTemplate.mutate(
+      { districtId: district.id, form: { name: newName, color: newColor, sortOrder } },
+      { onSuccess: () => setNewName('') }
+    );
+  };
+
+  const handlePush = () => {
+    if (
+      !confirm(
+        `Push these templates to all ${district.schools.length} schools? Their copies will be replaced with the current templates.`
+      )
+    ) {
+      return;
+    }
+    pushTemplates.mutate();
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <LoadingSpinner />
+        <span className="ml-2 text-gray-600">Loading reason templates...</span>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+        <div className="flex items-center gap-2">
+          <AlertTriangle className="w-5 h-5 text-red-600" />
+          <p className="text-red-800">Failed to load reason templates</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <p className="text-gray-600">
+            Reason categories every school in the district uses. Schools can&apos;t change them, but
+            can add their own alongside.
+          </p>
+          <p className="text-sm text-gray-500 mt-1">
+            {district.templatesPushedAt
+              ? `Last pushed ${formatDateTime(district.templatesPushedAt)}`
+              : 'Not pushed to schools yet'}
+          </p>
+        </div>
+        <Button onClick={handlePush} disabled={pushTemplates.isPending || templates.length === 0}>
+          <Send className="w-4 h-4 mr-2" />
+          {pushTemplates.isPending ? 'Pushing...' : 'Push to Schools'}
+        </Button>
+      </div>
+
+      <Card className="p-4">
+        <form onSubmit={handleCreate} className="flex flex-wrap items-center gap-3">
+          <Input
+            type="color"
+            value={newColor}
+            onChange={e => setNewColor(e.target.value)}
+            className="w-14 h-10"
+            aria-label="Category color"
+          />
+          <Input
+            value={newName}
+            onChange={e => setNewName(e.target.value)}
+            placeholder="New category name"
+            className="flex-1 min-w-[12rem]"
+            maxLength={100}
+          />
+          <Button type="submit" disabled={!newName.trim() || createTemplate.isPending}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Category
+          </Button>
+        </form>
+      </Card>
+
+      {templates.length === 0 ? (
+        <div className="bg-white rounded-lg border border-gray-200 p-8 text-center">
+          <p className="text-gray-500">No reason templates yet</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {templates.map(template => (
+            <TemplateCard key={template.id} template={template} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function TemplateCard({ template }: { template: DistrictReasonCategory }) {
+  const updateTemplate = useUpdateDistrictReasonCategory();
+  const deleteTemplate = useDeleteDistrictReasonCategory();
+  const createSubcategory = useCreateDistrictReasonSubcategory();
+  const deleteSubcategory = useDeleteDistrictReasonSubcategory();
+  const [editForm, setEditForm] = useState<DistrictReasonCategoryFormData | null>(null);
+  const [newSubcategory, setNewSubcategory] = useState('');
+
+  const handleSave = () => {
+    if (!editForm?.name.trim()) return;
+    updateTemplate.mutate(
+      { categoryId: template.id, form: editForm },
+      { onSuccess: () => setEditForm(null) }
+    );
+  };
+
+  const handleDelete = () => {
+    if (
+      !confirm('Delete this template? Schools keep their copies and can manage them as their own.')
+    ) {
+      return;
+    }
+    deleteTemplate.mutate(template.id);
+  };
+
+  const handleAddSubcategory = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newSubcategory.trim()) return;
+
+    const sortOrder = template.subcategories.reduce((max, s) => Math.max(max, s.sortOrder + 1), 0);
+    createSubcategory.mutate(
+      { categoryId: template.id, name: newSubcategory, sortOrder },
+      { onSuccess: () => setNewSubcategory('') }
+    );
+  };
+
+  return (
+    <Card className="p-4">
+      <div className="flex items-center justify-between gap-3">
+        {editForm ? (
+          <div className="flex flex-1 items-center gap-3">
+            <Input
+              type="color"
+              value={editForm.color || DEFAULT_COLOR}
+              onChange={e => setEditForm({ ...editForm, color: e.target.value })}
+              className="w-14 h-10"
+              aria-label="Category color"
+            />
+            <Input
+              value={editForm.name}
+              onChange={e => setEditForm({ ...editForm, name: e.target.value })}
+              className="flex-1"
+              maxLength={100}
+            />
+            <Button
+              size="sm"
+              onClick={handleSave}
+              disabled={!editForm.name.trim() || updateTemplate.isPending}
+            >
+              <Check className="w-4 h-4" />
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setEditForm(null)}>
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center gap-3">
+              <span
+                className="w-4 h-4 rounded"
+                style={{ backgroundColor: template.color || DEFAULT_COLOR }}
+              />
+              <h3 className="text-lg font-semibold text-gray-900">{template.name}</h3>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() =>
+                  setEditForm({
+                    name: template.name,
+                    color: template.color,
+                    sortOrder: template.sortOrder,
+                  })
+                }
+              >
+                <Edit className="w-4 h-4" />
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={handleDelete}
+                disabled={deleteTemplate.isPending}
+              >
+                <Trash2 className="w-4 h-4 text-red-600" />
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="mt-3 flex flex-wrap items-center gap-2">
+        {template.subcategories.map(subcategory => (
+          <span
+            key={subcategory.id}
+            className="inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-sm bg-gray-100 text-gray-800"
+          >
+            {subcategory.name}
+            <button
+              type="button"
+              onClick={() => deleteSubcategory.mutate(subcategory.id)}
+              className="text-gray-400 hover:text-red-600"
+              aria-label={`Remove ${subcategory.name}`}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        <form onSubmit={handleAddSubcategory} className="flex items-center gap-2">
+          <Input
+            value={newSubcategory}
+            onChange={e => setNewSubcategory(e.target.value)}
+            placeholder="Add subcategory"
+            className="h-8 w-44"
+            maxLength={100}
+          />
+          <Button
+            type="submit"
+            size="sm"
+            variant="outline"
+            disabled={!newSubcategory.trim() || createSubcategory.isPending}
+          >
+            <Plus className="w-4 h-4" />
+          </Button>
+        </form>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,2 @@
+export { DistrictOverview } from './DistrictOverview';
+export { DistrictReasonTemplates } from './DistrictReasonTemplates';
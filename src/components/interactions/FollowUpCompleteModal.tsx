@@ -58,6 +58,9 @@ export function FollowUpCompleteModal({
 
   const getStudentName = () => {
     if (!interaction) return '';
+    if (interaction.isGroup) {
+      return `Group session (${interaction.participants.length} students)`;
+    }
     if (interaction.student) {
       return `${interaction.student.firstName} ${interaction.student.lastName}`;
     }
@@ -121,7 +124,7 @@ export function FollowUpCompleteModal({
                 rows={4}
               />
               <p className="text-xs text-muted-foreground">
-                These notes will be added to the interaction record.
+                These notes are saved with the completed follow-up.
               </p>
             </div>
 
@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import {
+  useFollowUpDigestPreferences,
+  useSaveFollowUpDigestPreferences,
+} from '@/hooks/useFollowUpDigest';
+import {
+  DIGEST_DAY_NAMES,
+  getDefaultFollowUpDigestPreferences,
+  validateFollowUpDigestPreferences,
+} from '@/services/followUpDigestService';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select } from '@/components/ui/select';
+import type { FollowUpDigestCadence, FollowUpDigestPreferences } from '@/types/followUpDigest';
+import { Loader2, Mail } from 'lucide-react';
+
+export function FollowUpDigestSettings() {
+  const { data: saved, isLoading } = useFollowUpDigestPreferences();
+  const savePreferences = useSaveFollowUpDigestPreferences();
+  const [draft, setDraft] = useState<FollowUpDigestPreferences | null>(null);
+
+  if (isLoading || !saved) {
+    return null;
+  }
+
+  const current = draft ?? saved;
+  const errors = validateFollowUpDigestPreferences(current);
+  const browserTimezone = getDefaultFollowUpDigestPreferences().timezone;
+
+  const update = (changes: Partial<FollowUpDigestPreferences>) => {
+    setDraft({ ...current, ...changes });
+  };
+
+  const toggleQuietDay = (day: number) => {
+    update({
+      quietDays: current.quietDays.includes(day)
+        ? current.quietDays.filter(quietDay => quietDay !== day)
+        : [...current.quietDays, day],
+    });
+  };
+
+  const handleSave = () => {
+    savePreferences.mutate(current, { onSuccess: () => setDraft(null) });
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <Mail className="w-4 h-4 text-blue-600" />
+        <Label className="text-sm font-medium">Email Digest</Label>
+      </div>
+      <p className="text-xs text-gray-500">
+        Get an email listing your overdue follow-ups and those due soon. Digests are sent after 7am
+        ({current.timezone}) and only when you have follow-ups.
+        {current.timezone !== browserTimezone && (
+          <>
+            {' '}
+            <button
+              type="button"
+              className="text-primary hover:underline"
+              onClick={() => update({ timezone: browserTimezone })}
+            >
+              Use {browserTimezone}
+            </button>
+          </>
+        )}
+      </p>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <Select
+          aria-label="Digest frequency"
+          value={current.cadence}
+          onChange={e => update({ cadence: e.target.value as FollowUpDigestCadence })}
+          className="w-36"
+        >
+          <option value="daily">Daily</option>
+          <option value="weekly">Weekly</option>
+          <option value="off">Off</option>
+        </Select>
+
+        {current.cadence === 'weekly' && (
+          <Select
+            aria-label="Digest day"
+            value={current.weeklyDay}
+            onChange={e => update({ weeklyDay: Number(e.target.value) })}
+            className="w-40"
+          >
+            {DIGEST_DAY_NAMES.map((name, day) => (
+              <option key={name} value={day}>
+                on {name}
+              </option>
+            ))}
+          </Select>
+        )}
+      </div>
+
+      {current.cadence !== 'off' && (
+        <div className="space-y-1">
+          <p className="text-xs text-gray-600">Skip these days</p>
+          <div className="flex flex-wrap gap-3">
+            {DIGEST_DAY_NAMES.map((name, day) => (
+              <label key={name} className="flex items-center gap-1 text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={current.quietDays.includes(day)}
+                  onChange={() => toggleQuietDay(day)}
+                />
+                {name.slice(0, 3)}
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {errors.length > 0 && <p className="text-sm text-red-600">{errors.join('. ')}</p>}
+
+      {draft && (
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" size="sm" onClick={() => setDraft(null)}>
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            onClick={handleSave}
+            disabled={errors.length > 0 || savePreferences.isPending}
+          >
+            {savePreferences.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
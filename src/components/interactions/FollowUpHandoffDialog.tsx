@@ -0,0 +1,177 @@
+import { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useFollowUpTaskHistory, useReassignFollowUpTask } from '@/hooks/useFollowUpTasks';
+import { useUsers } from '@/hooks/useUsers';
+import { formatDateTime } from '@/utils/dateHelpers';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Select } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import type { FollowUpTask, FollowUpTaskAssignment } from '@/types/followUpTask';
+import { AlertTriangle, Forward, Loader2 } from 'lucide-react';
+
+export interface FollowUpHandoffDialogProps {
+  task: FollowUpTask | null;
+  subjectName?: string;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function FollowUpHandoffDialog({
+  task,
+  subjectName,
+  onOpenChange,
+}: FollowUpHandoffDialogProps) {
+  const { user: currentUser } = useAuth();
+  const canReassign =
+    !!task && (task.assignedTo === currentUser?.id || currentUser?.role === 'ADMIN');
+
+  return (
+    <Dialog open={!!task} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Forward className="w-5 h-5" />
+            Hand Off Follow-up
+          </DialogTitle>
+          <DialogDescription>
+            {subjectName ? `Follow-up with ${subjectName}` : 'Follow-up'}
+            {task?.assigneeName && `, assigned to ${task.assigneeName}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {task && <AssignmentHistory taskId={task.id} />}
+
+        {task && canReassign ? (
+          <HandoffForm key={task.id} task={task} onDone={() => onOpenChange(false)} />
+        ) : (
+          <DialogFooter>
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Close
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function describeAssignment(assignment: FollowUpTaskAssignment): string {
+  const to = assignment.toUserName ?? 'a former user';
+  if (!assignment.fromUserId) {
+    return `Created for ${to}`;
+  }
+  const by =
+    assignment.assignedByName && assignment.assignedBy !== assignment.fromUserId
+      ? ` by ${assignment.assignedByName}`
+      : '';
+  return `${assignment.fromUserName ?? 'A former user'} → ${to}${by}`;
+}
+
+function AssignmentHistory({ taskId }: { taskId: string }) {
+  const { data: history = [], isLoading, error } = useFollowUpTaskHistory(taskId);
+
+  return (
+    <div className="space-y-2">
+      <Label>History</Label>
+      {isLoading ? (
+        <div className="flex items-center py-4">
+          <LoadingSpinner />
+          <span className="ml-2 text-sm text-gray-600">Loading history...</span>
+        </div>
+      ) : error ? (
+        <div className="flex items-center gap-2 text-sm text-red-700">
+          <AlertTriangle className="w-4 h-4" />
+          Failed to load history
+        </div>
+      ) : (
+        <ul className="max-h-48 overflow-y-auto divide-y divide-gray-100 text-sm">
+          {history.map(assignment => (
+            <li key={assignment.id} className="py-2">
+              <div className="flex justify-between gap-4">
+                <span className="text-gray-900">{describeAssignment(assignment)}</span>
+                <span className="text-xs text-gray-500 whitespace-nowrap">
+                  {formatDateTime(assignment.createdAt)}
+                </span>
+              </div>
+              {assignment.note && (
+                <p className="mt-1 text-xs text-gray-600 whitespace-pre-line">{assignment.note}</p>
+              )}
+              {assignment.noteDecryptionFailed && (
+                <p className="mt-1 text-xs text-red-700">The handoff note could not be decrypted</p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+interface HandoffFormProps {
+  task: FollowUpTask;
+  onDone: () => void;
+}
+
+function HandoffForm({ task, onDone }: HandoffFormProps) {
+  const { data: users = [] } = useUsers();
+  const reassignTask = useReassignFollowUpTask();
+  const [toUserId, setToUserId] = useState('');
+  const [note, setNote] = useState('');
+
+  const candidates = users.filter(user => user.isActive && user.id !== task.assignedTo);
+
+  const handleSubmit = () => {
+    reassignTask.mutate({ taskId: task.id, toUserId, note }, { onSuccess: onDone });
+  };
+
+  return (
+    <>
+      <div className="space-y-4 pt-2 border-t">
+        <div className="space-y-2">
+          <Label htmlFor="handoff-assignee">Hand off to</Label>
+          <Select
+            id="handoff-assignee"
+            value={toUserId}
+            onChange={e => setToUserId(e.target.value)}
+          >
+            <option value="">Select a counselor...</option>
+            {candidates.map(user => (
+              <option key={user.id} value={user.id}>
+                {user.firstName} {user.lastName}
+              </option>
+            ))}
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="handoff-note">Handoff note (optional)</Label>
+          <Textarea
+            id="handoff-note"
+            value={note}
+            onChange={e => setNote(e.target.value)}
+            rows={3}
+            placeholder="Context for the counselor taking over"
+          />
+        </div>
+      </div>
+
+      <DialogFooter>
+        <Button variant="outline" onClick={onDone}>
+          Cancel
+        </Button>
+        <Button onClick={handleSubmit} disabled={!toUserId || reassignTask.isPending}>
+          {reassignTask.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Hand Off
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
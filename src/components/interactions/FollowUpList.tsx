@@ -8,28 +8,42 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { Button } from '@/components/ui/button';
+import type { FollowUpTask } from '@/types/followUpTask';
 import type { Interaction } from '@/types/interaction';
 
 export interface FollowUpListProps {
   interactions: Interaction[];
+  /** Open follow-up tasks; when given, only follow-ups with a task are listed */
+  tasks?: FollowUpTask[];
   onMarkComplete?: (interaction: Interaction) => void;
   onViewInteraction?: (interaction: Interaction) => void;
+  onHandOff?: (task: FollowUpTask, interaction: Interaction) => void;
   isLoading?: boolean;
 }
 
 export function FollowUpList({
   interactions,
+  tasks,
   onMarkComplete,
   onViewInteraction,
+  onHandOff,
   isLoading = false,
 }: FollowUpListProps) {
+  const tasksByInteraction = useMemo(
+    () => new Map((tasks ?? []).map(task => [task.interactionId, task])),
+    [tasks]
+  );
+
   // Filter for pending follow-ups and sort by follow-up date (overdue first)
   const pendingFollowUps = useMemo(() => {
     const now = new Date();
 
     const pending = interactions.filter(
       interaction =>
-        interaction.needsFollowUp && !interaction.isFollowUpComplete && interaction.followUpDate
+        interaction.needsFollowUp &&
+        !interaction.isFollowUpComplete &&
+        interaction.followUpDate &&
+        (!tasks || tasksByInteraction.has(interaction.id))
     );
 
     // Sort: overdue first, then by follow-up date
@@ -47,7 +61,7 @@ export function FollowUpList({
       // Within same category (both overdue or both not), sort by date
       return aDate.getTime() - bDate.getTime();
     });
-  }, [interactions]);
+  }, [interactions, tasks, tasksByInteraction]);
 
   const formatDate = (date: Date) => {
     return new Date(date).toLocaleDateString('en-US', {
@@ -73,6 +87,9 @@ export function FollowUpList({
   };
 
   const getStudentName = (interaction: Interaction) => {
+    if (interaction.isGroup) {
+      return `Group session (${interaction.participants.length} students)`;
+    }
     if (interaction.student) {
       return `${interaction.student.firstName} ${interaction.student.lastName}`;
     }
@@ -133,6 +150,7 @@ export function FollowUpList({
               <TableHead>Student/Contact</TableHead>
               <TableHead>Interaction Date</TableHead>
               <TableHead>Follow-up Date</TableHead>
+              {tasks && <TableHead>Assigned To</TableHead>}
               <TableHead>Notes</TableHead>
               <TableHead className="text-right">Actions</TableHead>
             </TableRow>
@@ -142,6 +160,7 @@ export function FollowUpList({
               const overdue = interaction.followUpDate
                 ? isOverdue(interaction.followUpDate)
                 : false;
+              const task = tasksByInteraction.get(interaction.id);
 
               return (
                 <TableRow key={interaction.id} className={overdue ? 'bg-red-50' : ''}>
@@ -172,6 +191,11 @@ export function FollowUpList({
                       )}
                     </div>
                   </TableCell>
+                  {tasks && (
+                    <TableCell>
+                      <span className="text-sm">{task?.assigneeName ?? 'Unassigned'}</span>
+                    </TableCell>
+                  )}
                   <TableCell>
                     <div className="max-w-md">
                       {interaction.followUpNotes ? (
@@ -194,6 +218,15 @@ export function FollowUpList({
                           View
                         </Button>
                       )}
+                      {onHandOff && task && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => onHandOff(task, interaction)}
+                        >
+                          Hand Off
+                        </Button>
+                      )}
                       {onMarkComplete && (
                         <Button
                           variant="default"
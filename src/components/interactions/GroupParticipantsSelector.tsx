@@ -0,0 +1,135 @@
+import * as React from 'react';
+import {
+  SearchableDropdown,
+  type SearchableDropdownOption,
+} from '@/components/common/SearchableDropdown';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { X } from 'lucide-react';
+import type { InteractionParticipant } from '@/types/interaction';
+import type { Student } from '@/types/student';
+import { isArchivedStudent } from '@/utils/gradeHelpers';
+
+export interface GroupParticipantsSelectorProps {
+  students: Student[];
+  value: InteractionParticipant[];
+  onChange: (participants: InteractionParticipant[]) => void;
+  error?: string;
+  disabled?: boolean;
+}
+
+export function GroupParticipantsSelector({
+  students,
+  value,
+  onChange,
+  error,
+  disabled = false,
+}: GroupParticipantsSelectorProps) {
+  // Students not yet in the group, hiding archived students
+  const studentOptions: SearchableDropdownOption[] = React.useMemo(
+    () =>
+      students
+        .filter(
+          student => !isArchivedStudent(student) && !value.some(p => p.studentId === student.id)
+        )
+        .map(student => ({
+          value: student.id,
+          label: `${student.firstName} ${student.lastName}`,
+          subtitle: `${student.studentId} - Grade ${student.gradeLevel}`,
+        })),
+    [students, value]
+  );
+
+  const handleAdd = (studentId: string) => {
+    if (!studentId) return;
+    onChange([...value, { studentId, attended: true }]);
+  };
+
+  const handleAttendanceChange = (studentId: string, attended: boolean) => {
+    onChange(value.map(p => (p.studentId === studentId ? { ...p, attended } : p)));
+  };
+
+  const handleRemove = (studentId: string) => {
+    onChange(value.filter(p => p.studentId !== studentId));
+  };
+
+  const attendedCount = value.filter(p => p.attended).length;
+
+  return (
+    <div className="space-y-3">
+      <SearchableDropdown
+        label="Add Participant"
+        placeholder="Search for a student..."
+        options={studentOptions}
+        value=""
+        onChange={handleAdd}
+        error={error}
+        disabled={disabled}
+        emptyMessage="No students found"
+      />
+
+      <div className="space-y-2">
+        <Label>
+          Participants ({attendedCount} of {value.length} attended){' '}
+          <span className="text-destructive">*</span>
+        </Label>
+
+        {value.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Add at least two students to log a group session.
+          </p>
+        ) : (
+          <ul className="divide-y rounded-md border">
+            {value.map(participant => {
+              const student = students.find(s => s.id === participant.studentId);
+              const checkboxId = `participant-attended-${participant.studentId}`;
+
+              return (
+                <li
+                  key={participant.studentId}
+                  className="flex items-center justify-between gap-3 px-3 py-2"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">
+                      {student ? `${student.firstName} ${student.lastName}` : 'Unknown student'}
+                    </p>
+                    {student && (
+                      <p className="text-xs text-muted-foreground">Grade {student.gradeLevel}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <label
+                      htmlFor={checkboxId}
+                      className="flex items-center gap-2 text-sm text-muted-foreground cursor-pointer"
+                    >
+                      <input
+                        id={checkboxId}
+                        type="checkbox"
+                        checked={participant.attended}
+                        onChange={e =>
+                          handleAttendanceChange(participant.studentId, e.target.checked)
+                        }
+                        disabled={disabled}
+                      />
+                      Attended
+                    </label>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRemove(participant.studentId)}
+                      disabled={disabled}
+                      aria-label="Remove participant"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
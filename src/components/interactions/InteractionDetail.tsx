@@ -6,7 +6,9 @@ import {
   DialogFooter,
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
+import { useFollowUpTask } from '@/hooks/useFollowUpTasks';
 import type { Interaction } from '@/types/interaction';
+import { Lock } from 'lucide-react';
 
 export interface InteractionDetailProps {
   interaction: Interaction | null;
@@ -25,6 +27,10 @@ export function InteractionDetail({
   onDelete,
   isDeleting = false,
 }: InteractionDetailProps) {
+  const { data: followUpTask } = useFollowUpTask(
+    interaction?.needsFollowUp && interaction.isFollowUpComplete ? interaction.id : null
+  );
+
   if (!interaction) return null;
 
   const formatDateTime = (date: Date) => {
@@ -59,6 +65,14 @@ export function InteractionDetail({
   };
 
   const getPersonInfo = () => {
+    if (interaction.isGroup) {
+      const attendedCount = interaction.participants.filter(p => p.attended).length;
+      return {
+        type: 'Group Session',
+        name: `${interaction.participants.length} students`,
+        details: `${attendedCount} attended`,
+      };
+    }
     if (interaction.student) {
       return {
         type: 'Student',
@@ -101,6 +115,36 @@ export function InteractionDetail({
             </div>
           </div>
 
+          {/* Participants (for group sessions) */}
+          {interaction.isGroup && interaction.participants.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium text-muted-foreground">Participants</h3>
+              <ul className="divide-y rounded-md border">
+                {interaction.participants.map(participant => (
+                  <li
+                    key={participant.studentId}
+                    className="flex items-center justify-between px-3 py-2 text-sm"
+                  >
+                    <span>
+                      {participant.student
+                        ? `${participant.student.firstName} ${participant.student.lastName}`
+                        : 'Unknown student'}
+                    </span>
+                    {participant.attended ? (
+                      <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                        Attended
+                      </span>
+                    ) : (
+                      <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                        Absent
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* Regarding Student Information (for contact interactions) */}
           {interaction.contact && interaction.regardingStudent && (
             <div className="space-y-2 p-3 bg-blue-50 rounded-md border-l-4 border-blue-200">
@@ -160,6 +204,20 @@ export function InteractionDetail({
             </p>
           </div>
 
+          {/* Notes that could not be decrypted */}
+          {interaction.notesDecryptionFailed && (
+            <div className="flex items-start gap-3 p-3 bg-red-50 border border-red-200 rounded-md">
+              <Lock className="w-5 h-5 text-red-600 mt-0.5 shrink-0" />
+              <div className="space-y-1">
+                <p className="text-sm font-medium text-red-800">Notes could not be decrypted</p>
+                <p className="text-sm text-red-700">
+                  The notes for this interaction are encrypted with a key that is not available.
+                  Editing is disabled so they are not overwritten. Contact your administrator.
+                </p>
+              </div>
+            </div>
+          )}
+
           {/* Notes */}
           {interaction.notes && (
             <div className="space-y-2">
@@ -199,6 +257,17 @@ export function InteractionDetail({
                   <p className="text-sm whitespace-pre-wrap">{interaction.followUpNotes}</p>
                 </div>
               )}
+
+              {followUpTask?.completionNote && (
+                <div className="space-y-1">
+                  <p className="text-sm font-medium text-muted-foreground">Completion Notes</p>
+                  <p className="text-sm whitespace-pre-wrap">{followUpTask.completionNote}</p>
+                </div>
+              )}
+
+              {followUpTask?.completionNoteDecryptionFailed && (
+                <p className="text-sm text-red-700">The completion notes could not be decrypted</p>
+              )}
             </div>
           )}
 
@@ -246,7 +315,7 @@ export function InteractionDetail({
                     onEdit(interaction);
                     onOpenChange(false);
                   }}
-                  disabled={isDeleting}
+                  disabled={isDeleting || interaction.notesDecryptionFailed}
                   className="w-full sm:w-auto"
                 >
                   Edit
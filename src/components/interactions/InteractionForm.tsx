@@ -8,10 +8,15 @@ import { DateTimePicker } from '@/components/common/DateTimePicker';
 import { SearchableDropdown } from '@/components/common/SearchableDropdown';
 import type { SearchableDropdownOption } from '@/components/common/SearchableDropdown';
 import { RegardingStudentSelector } from './RegardingStudentSelector';
+import { GroupParticipantsSelector } from './GroupParticipantsSelector';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
 import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
-import type { InteractionFormData } from '@/types/interaction';
+import type {
+  InteractionFormData,
+  InteractionParticipant,
+  InteractionType,
+} from '@/types/interaction';
 import type { Student } from '@/types/student';
 import type { Contact } from '@/types/contact';
 import type { ReasonCategory, ReasonSubcategory } from '@/types/reason';
@@ -42,12 +47,15 @@ export function InteractionForm({
   submitLabel = 'Save Interaction',
 }: InteractionFormProps) {
   // Form state
-  const [type, setType] = useState<'student' | 'contact'>(initialData?.type || 'student');
+  const [type, setType] = useState<InteractionType>(initialData?.type || 'student');
   const [studentId, setStudentId] = useState(initialData?.studentId || '');
   const [contactId, setContactId] = useState(initialData?.contactId || '');
   const [regardingStudentId, setRegardingStudentId] = useState(
     initialData?.regardingStudentId || ''
   );
+  const [participants, setParticipants] = useState<InteractionParticipant[]>(
+    initialData?.participants || []
+  );
   const [categoryId, setCategoryId] = useState(initialData?.categoryId || '');
   const [subcategoryId, setSubcategoryId] = useState(initialData?.subcategoryId || '');
   const [customReason, setCustomReason] = useState(initialData?.customReason || '');
@@ -146,6 +154,7 @@ export function InteractionForm({
       studentId: type === 'student' ? studentId : undefined,
       contactId: type === 'contact' ? contactId : undefined,
       regardingStudentId: type === 'contact' && regardingStudentId ? regardingStudentId : undefined,
+      participants: type === 'group' ? participants : undefined,
       categoryId,
       subcategoryId: subcategoryId || undefined,
       customReason: isCustomSubcategory ? customReason : undefined,
@@ -188,6 +197,7 @@ export function InteractionForm({
       studentId: type === 'student' ? studentId : undefined,
       contactId: type === 'contact' ? contactId : undefined,
       regardingStudentId: type === 'contact' && regardingStudentId ? regardingStudentId : undefined,
+      participants: type === 'group' ? participants : undefined,
       categoryId,
       subcategoryId: subcategoryId || undefined,
       customReason: isCustomSubcategory ? customReason : undefined,
@@ -213,26 +223,40 @@ export function InteractionForm({
           id="interaction-type"
           value={type}
           onChange={e => {
-            setType(e.target.value as 'student' | 'contact');
+            setType(e.target.value as InteractionType);
             setStudentId('');
             setContactId('');
             setRegardingStudentId('');
+            setParticipants([]);
             setErrors(prev => ({
               ...prev,
               studentId: '',
               contactId: '',
               regardingStudentId: '',
+              participants: '',
             }));
           }}
           disabled={isLoading}
         >
           <option value="student">Student</option>
           <option value="contact">Contact</option>
+          <option value="group">Group Session</option>
         </FormSelect>
       </div>
 
-      {/* Student/Contact Selection */}
-      {type === 'student' ? (
+      {/* Student/Contact/Participant Selection */}
+      {type === 'group' ? (
+        <GroupParticipantsSelector
+          students={students}
+          value={participants}
+          onChange={value => {
+            setParticipants(value);
+            setErrors(prev => ({ ...prev, participants: '' }));
+          }}
+          error={errors.participants}
+          disabled={isLoading}
+        />
+      ) : type === 'student' ? (
         <SearchableDropdown
           label="Student"
           placeholder="Search for a student..."
@@ -271,6 +295,7 @@ export function InteractionForm({
               setRegardingStudentId(value || '');
               setErrors(prev => ({ ...prev, regardingStudentId: '' }));
             }}
+            contactId={contactId || undefined}
             error={errors.regardingStudentId}
             disabled={isLoading}
           />
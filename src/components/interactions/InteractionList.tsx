@@ -1,4 +1,5 @@
-import { useState, useMemo } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useInteractionPages } from '@/hooks/useInteractionsQuery';
 import {
   Table,
   TableBody,
@@ -13,31 +14,33 @@ import { FormSelect } from '@/components/common/FormSelect';
 import { DateTimePicker } from '@/components/common/DateTimePicker';
 import { SearchableDropdown } from '@/components/common/SearchableDropdown';
 import type { SearchableDropdownOption } from '@/components/common/SearchableDropdown';
-import type { Interaction } from '@/types/interaction';
+import type {
+  FollowUpStatusFilter,
+  Interaction,
+  InteractionListFilters,
+} from '@/types/interaction';
 import type { Student } from '@/types/student';
 import type { Contact } from '@/types/contact';
 import type { ReasonCategory } from '@/types/reason';
 
+const SEARCH_DEBOUNCE_MS = 250;
+
 export interface InteractionListProps {
-  interactions: Interaction[];
   students?: Student[];
   contacts?: Contact[];
   categories?: ReasonCategory[];
   onView?: (interaction: Interaction) => void;
   onEdit?: (interaction: Interaction) => void;
   showFilters?: boolean;
-  isLoading?: boolean;
 }
 
 export function InteractionList({
-  interactions,
   students = [],
   contacts = [],
   categories = [],
   onView,
   onEdit,
   showFilters = true,
-  isLoading = false,
 }: InteractionListProps) {
   // Filter state
   const [startDate, setStartDate] = useState('');
@@ -46,9 +49,56 @@ export function InteractionList({
   const [studentFilter, setStudentFilter] = useState('');
   const [contactFilter, setContactFilter] = useState('');
   const [searchQuery, setSearchQuery] = useState('');
-  const [followUpFilter, setFollowUpFilter] = useState<'all' | 'pending' | 'overdue' | 'completed'>(
-    'all'
+  const [followUpFilter, setFollowUpFilter] = useState<FollowUpStatusFilter>('all');
+
+  // Search once typing pauses rather than on every keystroke
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchQuery.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  // Filters and search are applied by the server, a page at a time
+  const filters: InteractionListFilters = useMemo(
+    () => ({
+      startDate: startDate || undefined,
+      endDate: endDate || undefined,
+      categoryId: categoryFilter || undefined,
+      studentId: studentFilter || undefined,
+      contactId: contactFilter || undefined,
+      followUpStatus: followUpFilter,
+      search: debouncedSearch || undefined,
+    }),
+    [
+      startDate,
+      endDate,
+      categoryFilter,
+      studentFilter,
+      contactFilter,
+      followUpFilter,
+      debouncedSearch,
+    ]
   );
+  const { data, isLoading, error, hasNextPage, isFetchingNextPage, fetchNextPage } =
+    useInteractionPages(filters);
+  const interactions = useMemo(() => data?.pages.flatMap(page => page.interactions) ?? [], [data]);
+  const totalCount = data?.pages[0]?.totalCount ?? interactions.length;
+
+  // Load the next page when the end of the list scrolls into view
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const node = loadMoreRef.current;
+    if (!node || !hasNextPage || isFetchingNextPage) return;
+
+    const observer = new IntersectionObserver(
+      entries => {
+        if (entries[0]?.isIntersecting) fetchNextPage();
+      },
+      { rootMargin: '200px' }
+    );
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
 
   // Student/Contact dropdown options
   const studentOptions: SearchableDropdownOption[] = useMemo(
@@ -71,100 +121,14 @@ export function InteractionList({
     [contacts]
   );
 
-  // Filter interactions
-  const filteredInteractions = useMemo(() => {
-    let filtered = [...interactions];
-
-    // Date range filter
-    if (startDate) {
-      const start = new Date(startDate);
-      filtered = filtered.filter(interaction => new Date(interaction.startTime) >= start);
-    }
-    if (endDate) {
-      const end = new Date(endDate);
-      end.setHours(23, 59, 59, 999); // Include the entire end date
-      filtered = filtered.filter(interaction => new Date(interaction.startTime) <= end);
-    }
-
-    // Category filter
-    if (categoryFilter) {
-      filtered = filtered.filter(interaction => interaction.categoryId === categoryFilter);
-    }
-
-    // Student filter
-    if (studentFilter) {
-      filtered = filtered.filter(interaction => interaction.studentId === studentFilter);
-    }
-
-    // Contact filter
-    if (contactFilter) {
-      filtered = filtered.filter(interaction => interaction.contactId === contactFilter);
-    }
-
-    // Search query (searches in notes)
-    if (searchQuery) {
-      const query = searchQuery.toLowerCase();
-      filtered = filtered.filter(interaction => {
-        const studentName = interaction.student
-          ? `${interaction.student.firstName} ${interaction.student.lastName}`.toLowerCase()
-          : '';
-        const contactName = interaction.contact
-          ? `${interaction.contact.firstName} ${interaction.contact.lastName}`.toLowerCase()
-          : '';
-        const regardingStudentName = interaction.regardingStudent
-          ? `${interaction.regardingStudent.firstName} ${interaction.regardingStudent.lastName}`.toLowerCase()
-          : '';
-        const categoryName = interaction.category?.name.toLowerCase() || '';
-        const notes = interaction.notes?.toLowerCase() || '';
-
-        return (
-          studentName.includes(query) ||
-          contactName.includes(query) ||
-          regardingStudentName.includes(query) ||
-          categoryName.includes(query) ||
-          notes.includes(query)
-        );
-      });
-    }
-
-    // Follow-up filter
-    if (followUpFilter !== 'all') {
-      const now = new Date();
-      filtered = filtered.filter(interaction => {
-        if (followUpFilter === 'pending') {
-          return (
-            interaction.needsFollowUp && !interaction.isFollowUpComplete && interaction.followUpDate
-          );
-        }
-        if (followUpFilter === 'overdue') {
-          return (
-            interaction.needsFollowUp &&
-            !interaction.isFollowUpComplete &&
-            interaction.followUpDate &&
-            new Date(interaction.followUpDate) < now
-          );
-        }
-        if (followUpFilter === 'completed') {
-          return interaction.isFollowUpComplete;
-        }
-        return true;
-      });
-    }
-
-    // Sort by most recent first
-    filtered.sort((a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime());
-
-    return filtered;
-  }, [
-    interactions,
-    startDate,
-    endDate,
-    categoryFilter,
-    studentFilter,
-    contactFilter,
-    searchQuery,
-    followUpFilter,
-  ]);
+  const hasFilters =
+    !!startDate ||
+    !!endDate ||
+    !!categoryFilter ||
+    !!studentFilter ||
+    !!contactFilter ||
+    !!searchQuery ||
+    followUpFilter !== 'all';
 
   const handleClearFilters = () => {
     setStartDate('');
@@ -197,6 +161,9 @@ export function InteractionList({
   };
 
   const getPersonName = (interaction: Interaction) => {
+    if (interaction.isGroup) {
+      return `Group session (${interaction.participants.length} students)`;
+    }
     if (interaction.student) {
       return `${interaction.student.firstName} ${interaction.student.lastName}`;
     }
@@ -211,6 +178,9 @@ export function InteractionList({
   };
 
   const getPersonType = (interaction: Interaction) => {
+    if (interaction.isGroup) {
+      return 'Group';
+    }
     if (interaction.student) {
       return 'Student';
     }
@@ -256,14 +226,6 @@ export function InteractionList({
     );
   };
 
-  if (isLoading) {
-    return (
-      <div className="flex items-center justify-center p-12">
-        <p className="text-muted-foreground">Loading interactions...</p>
-      </div>
-    );
-  }
-
   return (
     <div className="space-y-6">
       {/* Filters */}
@@ -271,20 +233,7 @@ export function InteractionList({
         <div className="bg-muted/50 p-3 sm:p-4 rounded-lg space-y-3 sm:space-y-4">
           <div className="flex items-center justify-between">
             <h3 className="text-sm font-medium">Filters</h3>
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={handleClearFilters}
-              disabled={
-                !startDate &&
-                !endDate &&
-                !categoryFilter &&
-                !studentFilter &&
-                !contactFilter &&
-                !searchQuery &&
-                followUpFilter === 'all'
-              }
-            >
+            <Button variant="ghost" size="sm" onClick={handleClearFilters} disabled={!hasFilters}>
               Clear All
             </Button>
           </div>
@@ -292,7 +241,7 @@ export function InteractionList({
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 sm:gap-4">
             {/* Search */}
             <FormInput
-              placeholder="Search interactions..."
+              placeholder="Search names, categories and reasons..."
               value={searchQuery}
               onChange={e => setSearchQuery(e.target.value)}
             />
@@ -345,9 +294,7 @@ export function InteractionList({
             <div className="space-y-2">
               <FormSelect
                 value={followUpFilter}
-                onChange={e =>
-                  setFollowUpFilter(e.target.value as 'all' | 'pending' | 'overdue' | 'completed')
-                }
+                onChange={e => setFollowUpFilter(e.target.value as FollowUpStatusFilter)}
               >
                 <option value="all">All Follow-ups</option>
                 <option value="pending">Pending Follow-ups</option>
@@ -360,17 +307,26 @@ export function InteractionList({
       )}
 
       {/* Results Count */}
-      <div className="flex items-center justify-between">
-        <p className="text-sm text-muted-foreground">
-          Showing {filteredInteractions.length} of {interactions.length} interactions
-        </p>
-      </div>
+      {!isLoading && !error && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-muted-foreground">
+            Showing {interactions.length} of {totalCount} interactions
+          </p>
+        </div>
+      )}
 
-      {/* Interactions Table */}
-      {filteredInteractions.length === 0 ? (
+      {isLoading ? (
+        <div className="flex items-center justify-center p-12">
+          <p className="text-muted-foreground">Loading interactions...</p>
+        </div>
+      ) : error ? (
+        <div className="text-center p-12 border rounded-lg">
+          <p className="text-destructive">Failed to load interactions. Please try again.</p>
+        </div>
+      ) : interactions.length === 0 ? (
         <div className="text-center p-12 border rounded-lg">
           <p className="text-muted-foreground">
-            {interactions.length === 0
+            {!hasFilters
               ? 'No interactions found. Create your first interaction to get started.'
               : 'No interactions match your filters. Try adjusting your search criteria.'}
           </p>
@@ -391,7 +347,7 @@ export function InteractionList({
               </TableRow>
             </TableHeader>
             <TableBody>
-              {filteredInteractions.map(interaction => {
+              {interactions.map(interaction => {
                 const isOverdue =
                   interaction.needsFollowUp &&
                   !interaction.isFollowUpComplete &&
@@ -450,6 +406,15 @@ export function InteractionList({
           </Table>
         </div>
       )}
+
+      {/* Infinite scroll sentinel */}
+      {hasNextPage && (
+        <div ref={loadMoreRef} className="flex items-center justify-center p-4">
+          <p className="text-sm text-muted-foreground">
+            {isFetchingNextPage ? 'Loading more...' : ''}
+          </p>
+        </div>
+      )}
     </div>
   );
 }
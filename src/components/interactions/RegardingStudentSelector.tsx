@@ -4,18 +4,22 @@ import {
   type SearchableDropdownOption,
 } from '@/components/common/SearchableDropdown';
 import { useStudents, useCreateStudent } from '@/hooks/useStudents';
+import { useContactStudentLinks } from '@/hooks/useStudentContacts';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { FormSelect } from '@/components/common/FormSelect';
-import { Plus } from 'lucide-react';
+import { Ban, Plus } from 'lucide-react';
 import { toast } from '@/utils/toast';
 import type { Student } from '@/types/student';
+import { isArchivedStudent } from '@/utils/gradeHelpers';
 
 interface RegardingStudentSelectorProps {
   value?: string;
   onChange?: (studentId: string | undefined) => void;
+  /** The interaction's contact; its linked students are offered first */
+  contactId?: string;
   error?: string;
   helperText?: string;
   disabled?: boolean;
@@ -51,6 +55,7 @@ const GRADE_LEVELS = [
 export function RegardingStudentSelector({
   value,
   onChange,
+  contactId,
   error,
   helperText,
   disabled = false,
@@ -58,6 +63,11 @@ export function RegardingStudentSelector({
   className,
 }: RegardingStudentSelectorProps) {
   const { data: students = [], isLoading, error: studentsError } = useStudents();
+  const { data: links = [] } = useContactStudentLinks(contactId ?? '');
+  // The contact whose linked-students filter was turned off
+  const [showAllFor, setShowAllFor] = React.useState<string | null>(null);
+  const showLinkedOnly = links.length > 0 && showAllFor !== contactId;
+  const selectedLink = links.find(link => link.studentId === value);
   const createStudentMutation = useCreateStudent();
 
   const [isAddDialogOpen, setIsAddDialogOpen] = React.useState(false);
@@ -71,15 +81,26 @@ export function RegardingStudentSelector({
   });
   const [formErrors, setFormErrors] = React.useState<Partial<NewStudentFormData>>({});
 
-  // Convert students to dropdown options
+  // Convert students to dropdown options, hiding archived students unless already selected.
+  // When the contact has linked students only those are offered, with their relationship.
   const studentOptions: SearchableDropdownOption[] = React.useMemo(() => {
-    return students.map(student => ({
-      value: student.id,
-      label: `${student.firstName} ${student.lastName}`,
-      subtitle: `${student.studentId} • Grade ${student.gradeLevel}`,
-      metadata: { student },
-    }));
-  }, [students]);
+    const linksByStudent = new Map(links.map(link => [link.studentId, link]));
+
+    return students
+      .filter(student => !isArchivedStudent(student) || student.id === value)
+      .filter(student => !showLinkedOnly || linksByStudent.has(student.id) || student.id === value)
+      .map(student => {
+        const link = linksByStudent.get(student.id);
+        return {
+          value: student.id,
+          label: `${student.firstName} ${student.lastName}`,
+          subtitle: link
+            ? `${student.studentId} • ${link.relationship}${link.noContact ? ' • No contact' : ''}`
+            : `${student.studentId} • Grade ${student.gradeLevel}`,
+          metadata: { student },
+        };
+      });
+  }, [students, links, showLinkedOnly, value]);
 
   // Custom filter function for students
   const filterStudents = React.useCallback((option: SearchableDropdownOption, query: string) => {
@@ -185,12 +206,30 @@ export function RegardingStudentSelector({
             disabled={disabled}
             required={required}
             error={error}
-            helperText={helperText || 'Select which student this contact interaction is about'}
+            helperText={
+              helperText ||
+              (showLinkedOnly
+                ? "Showing this contact's linked students"
+                : 'Select which student this contact interaction is about')
+            }
             emptyMessage="No students found"
             filterFn={filterStudents}
           />
         </div>
 
+        {links.length > 0 && contactId && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowAllFor(showLinkedOnly ? contactId : null)}
+            disabled={disabled}
+            className="mb-2"
+          >
+            {showLinkedOnly ? 'All Students' : 'Linked Only'}
+          </Button>
+        )}
+
         <Button
           type="button"
           variant="outline"
@@ -310,6 +349,13 @@ export function RegardingStudentSelector({
           </DialogContent>
         </Dialog>
       </div>
+
+      {selectedLink?.noContact && (
+        <p className="flex items-center gap-1 text-sm text-destructive mt-1">
+          <Ban className="h-4 w-4" />
+          This contact is marked no-contact for this student
+        </p>
+      )}
     </div>
   );
 }
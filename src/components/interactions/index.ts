@@ -6,6 +6,11 @@ export { InteractionDetail } from './InteractionDetail';
 export type { InteractionDetailProps } from './InteractionDetail';
 export { FollowUpList } from './FollowUpList';
 export type { FollowUpListProps } from './FollowUpList';
+export { FollowUpDigestSettings } from './FollowUpDigestSettings';
 export { FollowUpCompleteModal } from './FollowUpCompleteModal';
 export type { FollowUpCompleteModalProps } from './FollowUpCompleteModal';
 export { RegardingStudentSelector } from './RegardingStudentSelector';
+export { GroupParticipantsSelector } from './GroupParticipantsSelector';
+export type { GroupParticipantsSelectorProps } from './GroupParticipantsSelector';
+export { FollowUpHandoffDialog } from './FollowUpHandoffDialog';
+export type { FollowUpHandoffDialogProps } from './FollowUpHandoffDialog';
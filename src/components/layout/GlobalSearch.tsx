@@ -0,0 +1,178 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Search, GraduationCap, Users, MessageSquare, Loader2 } from 'lucide-react';
+import { useGlobalSearch } from '@/hooks/useGlobalSearch';
+import { cn } from '@/lib/utils';
+import type { SearchResult, SearchResultType } from '@/types/search';
+
+const RESULT_GROUPS: { type: SearchResultType; label: string; icon: typeof Search }[] = [
+  { type: 'student', label: 'Students', icon: GraduationCap },
+  { type: 'contact', label: 'Contacts', icon: Users },
+  { type: 'interaction', label: 'Interactions', icon: MessageSquare },
+];
+
+function getResultPath(result: SearchResult): string {
+  switch (result.type) {
+    case 'student':
+      return `/students/${result.id}`;
+    case 'contact':
+      return `/contacts?contactId=${result.id}`;
+    case 'interaction':
+      return `/interactions?interactionId=${result.id}`;
+  }
+}
+
+export function GlobalSearch() {
+  const navigate = useNavigate();
+  const [query, setQuery] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [highlightedIndex, setHighlightedIndex] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const { data: results, isFetching, isError } = useGlobalSearch(query);
+  const hasQuery = query.trim().length >= 2;
+
+  // Flattened in display order so arrow keys move across groups
+  const flatResults = useMemo(() => {
+    if (!results) return [];
+    return [...results.students, ...results.contacts, ...results.interactions];
+  }, [results]);
+
+  // Close when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, []);
+
+  const handleSelect = (result: SearchResult) => {
+    setIsOpen(false);
+    setQuery('');
+    inputRef.current?.blur();
+    navigate(getResultPath(result));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setIsOpen(true);
+        setHighlightedIndex(prev => Math.min(prev + 1, flatResults.length - 1));
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setHighlightedIndex(prev => Math.max(prev - 1, 0));
+        break;
+      case 'Enter':
+        e.preventDefault();
+        if (isOpen && flatResults[highlightedIndex]) {
+          handleSelect(flatResults[highlightedIndex]);
+        }
+        break;
+      case 'Escape':
+        e.preventDefault();
+        setIsOpen(false);
+        inputRef.current?.blur();
+        break;
+    }
+  };
+
+  const showDropdown = isOpen && hasQuery;
+
+  return (
+    <div ref={containerRef} className="relative hidden md:block">
+      <div className="flex items-center gap-2 bg-slate-100/80 rounded-lg px-3 py-2 min-w-[300px] focus-within:ring-2 focus-within:ring-primary/20 transition-all">
+        <Search className="w-4 h-4 text-slate-400" />
+        <input
+          ref={inputRef}
+          type="text"
+          value={query}
+          onChange={e => {
+            setQuery(e.target.value);
+            setHighlightedIndex(0);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search students, contacts, interactions..."
+          className="bg-transparent border-none outline-none text-sm text-slate-700 placeholder:text-slate-400 w-full"
+          role="combobox"
+          aria-expanded={showDropdown}
+          aria-controls="global-search-results"
+          aria-autocomplete="list"
+          aria-label="Search students, contacts and interactions"
+        />
+        {isFetching && <Loader2 className="w-4 h-4 text-slate-400 animate-spin" />}
+      </div>
+
+      {showDropdown && (
+        <div
+          id="global-search-results"
+          role="listbox"
+          className="absolute left-0 right-0 mt-2 max-h-96 overflow-auto rounded-lg border border-slate-200 bg-white shadow-lg z-50"
+        >
+          {isError ? (
+            <p className="px-4 py-3 text-sm text-destructive">Search failed. Please try again.</p>
+          ) : flatResults.length === 0 ? (
+            <p className="px-4 py-3 text-sm text-slate-500">
+              {isFetching || !results ? 'Searching...' : 'No results found'}
+            </p>
+          ) : (
+            RESULT_GROUPS.map(group => {
+              const groupResults = flatResults.filter(result => result.type === group.type);
+              if (groupResults.length === 0) return null;
+              const Icon = group.icon;
+
+              return (
+                <div key={group.type} className="py-1">
+                  <p className="px-4 pt-2 pb-1 text-xs font-semibold uppercase tracking-wide text-slate-400">
+                    {group.label}
+                  </p>
+                  {groupResults.map(result => {
+                    const index = flatResults.indexOf(result);
+                    return (
+                      <button
+                        key={`${result.type}-${result.id}`}
+                        type="button"
+                        role="option"
+                        aria-selected={index === highlightedIndex}
+                        onMouseEnter={() => setHighlightedIndex(index)}
+                        onMouseDown={e => e.preventDefault()}
+                        onClick={() => handleSelect(result)}
+                        className={cn(
+                          'flex w-full items-start gap-3 px-4 py-2 text-left transition-colors',
+                          index === highlightedIndex ? 'bg-slate-100' : 'hover:bg-slate-50'
+                        )}
+                      >
+                        <Icon className="mt-0.5 w-4 h-4 shrink-0 text-slate-400" />
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium text-slate-900 truncate">
+                            {result.title}
+                          </p>
+                          {result.subtitle && (
+                            <p className="text-xs text-slate-500 truncate">{result.subtitle}</p>
+                          )}
+                          {result.snippet && (
+                            <p className="text-xs text-slate-600 line-clamp-2">{result.snippet}</p>
+                          )}
+                        </div>
+                      </button>
+                    );
+                  })}
+                </div>
+              );
+            })
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
-import { Menu, LogOut, Bell, Search } from 'lucide-react';
+import { Menu, LogOut } from 'lucide-react';
+import { GlobalSearch } from './GlobalSearch';
+import { NotificationCenter } from './NotificationCenter';
 
 interface HeaderProps {
   onMenuClick: () => void;
@@ -28,26 +30,13 @@ export function Header({ onMenuClick }: HeaderProps) {
           </button>
 
           {/* Search bar - hidden on mobile */}
-          <div className="hidden md:flex items-center gap-2 bg-slate-100/80 rounded-lg px-3 py-2 min-w-[300px] focus-within:ring-2 focus-within:ring-primary/20 transition-all">
-            <Search className="w-4 h-4 text-slate-400" />
-            <input
-              type="text"
-              placeholder="Search students, contacts..."
-              className="bg-transparent border-none outline-none text-sm text-slate-700 placeholder:text-slate-400 w-full"
-            />
-          </div>
+          <GlobalSearch />
         </div>
 
         {/* Right section - User info and actions */}
         <div className="flex items-center gap-3">
           {/* Notifications */}
-          <button
-            className="relative p-2 rounded-lg hover:bg-slate-100 transition-all duration-200 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2"
-            aria-label="Notifications"
-          >
-            <Bell className="w-5 h-5 text-slate-600" />
-            <span className="absolute top-1 right-1 w-2 h-2 bg-red-500 rounded-full ring-2 ring-white"></span>
-          </button>
+          <NotificationCenter />
 
           {/* User info */}
           {user && (
@@ -57,9 +46,11 @@ export function Header({ onMenuClick }: HeaderProps) {
                   <p className="text-sm font-semibold text-slate-900">
                     {user.firstName} {user.lastName}
                   </p>
-                  <p className="text-xs text-slate-500 capitalize">{user.role.toLowerCase()}</p>
+                  <p className="text-xs text-slate-500 capitalize">
+                    {user.role.toLowerCase().replace('_', ' ')}
+                  </p>
                 </div>
-                <div className="w-10 h-10 rounded-full bg-gradient-to-br from-primary-400 to-primary-600 flex items-center justify-center text-white font-semibold shadow-md">
+                <div className="w-10 h-10 rounded-full bg-gradient-to-br from-primary/80 to-primary flex items-center justify-center text-white font-semibold shadow-md">
                   {user.firstName[0]}
                   {user.lastName[0]}
                 </div>
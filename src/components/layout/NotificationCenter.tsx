@@ -0,0 +1,172 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Bell,
+  CalendarClock,
+  ShieldAlert,
+  UserCheck,
+  CheckCheck,
+  Forward,
+  Flag,
+} from 'lucide-react';
+import {
+  useNotifications,
+  useMarkNotificationRead,
+  useMarkAllNotificationsRead,
+} from '@/hooks/useNotifications';
+import { getRelativeTime } from '@/utils/dateHelpers';
+import { cn } from '@/lib/utils';
+import type { Notification, NotificationType } from '@/types/notification';
+
+const NOTIFICATION_ICONS: Record<NotificationType, typeof Bell> = {
+  FOLLOW_UP_OVERDUE: CalendarClock,
+  FOLLOW_UP_ASSIGNED: Forward,
+  INVITATION_ACCEPTED: UserCheck,
+  RISK_FLAG_ESCALATED: Flag,
+  SECURITY_ALERT: ShieldAlert,
+};
+
+const NOTIFICATION_ICON_COLORS: Record<NotificationType, string> = {
+  FOLLOW_UP_OVERDUE: 'text-amber-500',
+  FOLLOW_UP_ASSIGNED: 'text-blue-600',
+  INVITATION_ACCEPTED: 'text-green-600',
+  RISK_FLAG_ESCALATED: 'text-orange-600',
+  SECURITY_ALERT: 'text-red-600',
+};
+
+export function NotificationCenter() {
+  const navigate = useNavigate();
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const { data, isLoading, isError } = useNotifications();
+  const markRead = useMarkNotificationRead();
+  const markAllRead = useMarkAllNotificationsRead();
+
+  const notifications = data?.notifications ?? [];
+  const unreadCount = data?.unreadCount ?? 0;
+
+  // Close when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, []);
+
+  const handleNotificationClick = (notification: Notification) => {
+    if (!notification.readAt) {
+      markRead.mutate(notification.id);
+    }
+    if (notification.link) {
+      setIsOpen(false);
+      navigate(notification.link);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        onKeyDown={e => e.key === 'Escape' && setIsOpen(false)}
+        className="relative p-2 rounded-lg hover:bg-slate-100 transition-all duration-200 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2"
+        aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+        aria-expanded={isOpen}
+        aria-haspopup="true"
+      >
+        <Bell className="w-5 h-5 text-slate-600" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-red-500 text-[10px] font-semibold leading-[18px] text-white text-center ring-2 ring-white">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 sm:w-96 rounded-lg border border-slate-200 bg-white shadow-lg z-50">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-slate-200">
+            <h2 className="text-sm font-semibold text-slate-900">Notifications</h2>
+            <button
+              type="button"
+              onClick={() => markAllRead.mutate()}
+              disabled={unreadCount === 0 || markAllRead.isPending}
+              className="flex items-center gap-1 text-xs font-medium text-primary hover:underline disabled:text-slate-400 disabled:no-underline"
+            >
+              <CheckCheck className="w-3.5 h-3.5" />
+              Mark all as read
+            </button>
+          </div>
+
+          <div className="max-h-96 overflow-auto">
+            {isLoading ? (
+              <p className="px-4 py-6 text-sm text-center text-slate-500">
+                Loading notifications...
+              </p>
+            ) : isError ? (
+              <p className="px-4 py-6 text-sm text-center text-destructive">
+                Failed to load notifications.
+              </p>
+            ) : notifications.length === 0 ? (
+              <p className="px-4 py-6 text-sm text-center text-slate-500">You're all caught up.</p>
+            ) : (
+              <ul className="divide-y divide-slate-100">
+                {notifications.map(notification => {
+                  const Icon = NOTIFICATION_ICONS[notification.type];
+                  const isUnread = !notification.readAt;
+
+                  return (
+                    <li key={notification.id}>
+                      <button
+                        type="button"
+                        onClick={() => handleNotificationClick(notification)}
+                        className={cn(
+                          'flex w-full items-start gap-3 px-4 py-3 text-left transition-colors hover:bg-slate-50',
+                          isUnread && 'bg-primary/5'
+                        )}
+                      >
+                        <Icon
+                          className={cn(
+                            'mt-0.5 w-4 h-4 shrink-0',
+                            NOTIFICATION_ICON_COLORS[notification.type]
+                          )}
+                        />
+                        <div className="min-w-0 flex-1">
+                          <p
+                            className={cn(
+                              'text-sm text-slate-900',
+                              isUnread ? 'font-semibold' : 'font-medium'
+                            )}
+                          >
+                            {notification.title}
+                          </p>
+                          <p className="text-xs text-slate-600 line-clamp-2">
+                            {notification.message}
+                          </p>
+                          <p className="mt-1 text-xs text-slate-400">
+                            {getRelativeTime(notification.createdAt)}
+                          </p>
+                        </div>
+                        {isUnread && (
+                          <span
+                            className="mt-1.5 w-2 h-2 shrink-0 rounded-full bg-primary"
+                            aria-label="Unread"
+                          />
+                        )}
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -11,7 +11,9 @@ import {
   Settings,
   X,
   GraduationCap,
+  Landmark,
 } from 'lucide-react';
+import type { UserRole } from '@/types/user';
 
 interface SidebarProps {
   isOpen: boolean;
@@ -24,7 +26,7 @@ interface NavItem {
   name: string;
   path: string;
   icon: React.ComponentType<{ className?: string }>;
-  roles: ('ADMIN' | 'COUNSELOR')[];
+  roles: UserRole[];
 }
 
 const navigationItems: NavItem[] = [
@@ -32,37 +34,37 @@ const navigationItems: NavItem[] = [
     name: 'Dashboard',
     path: '/dashboard',
     icon: LayoutDashboard,
-    roles: ['ADMIN', 'COUNSELOR'],
+    roles: ['ADMIN', 'COUNSELOR', 'DISTRICT_ADMIN'],
   },
   {
     name: 'Interactions',
     path: '/interactions',
     icon: MessageSquare,
-    roles: ['ADMIN', 'COUNSELOR'],
+    roles: ['ADMIN', 'COUNSELOR', 'DISTRICT_ADMIN'],
   },
   {
     name: 'Calendar',
     path: '/calendar',
     icon: Calendar,
-    roles: ['ADMIN', 'COUNSELOR'],
+    roles: ['ADMIN', 'COUNSELOR', 'DISTRICT_ADMIN'],
   },
   {
     name: 'Students',
     path: '/students',
     icon: Users,
-    roles: ['ADMIN', 'COUNSELOR'],
+    roles: ['ADMIN', 'COUNSELOR', 'DISTRICT_ADMIN'],
   },
   {
     name: 'Contacts',
     path: '/contacts',
     icon: Contact,
-    roles: ['ADMIN', 'COUNSELOR'],
+    roles: ['ADMIN', 'COUNSELOR', 'DISTRICT_ADMIN'],
   },
   {
     name: 'Reports',
     path: '/reports',
     icon: FileText,
-    roles: ['ADMIN', 'COUNSELOR'],
+    roles: ['ADMIN', 'COUNSELOR', 'DISTRICT_ADMIN'],
   },
   {
     name: 'Admin',
@@ -70,11 +72,34 @@ const navigationItems: NavItem[] = [
     icon: Settings,
     roles: ['ADMIN'],
   },
+  {
+    name: 'District',
+    path: '/district',
+    icon: Landmark,
+    roles: ['DISTRICT_ADMIN'],
+  },
 ];
 
+// The school's logo, or the app mark in the school's color
+function BrandMark({ logoUrl }: { logoUrl?: string }) {
+  if (logoUrl) {
+    return (
+      <div className="w-10 h-10 bg-white rounded-xl flex items-center justify-center shadow-lg overflow-hidden">
+        <img src={logoUrl} alt="" className="max-w-full max-h-full object-contain" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-10 h-10 bg-gradient-to-br from-primary/80 to-primary rounded-xl flex items-center justify-center shadow-lg shadow-primary/30">
+      <GraduationCap className="w-6 h-6 text-white" />
+    </div>
+  );
+}
+
 export function Sidebar({ isOpen, isCollapsed, isMobile, onClose }: SidebarProps) {
   const location = useLocation();
-  const { user } = useAuth();
+  const { user, branding } = useAuth();
 
   const filteredNavItems = navigationItems.filter(item =>
     user?.role ? item.roles.includes(user.role) : false
@@ -113,13 +138,20 @@ export function Sidebar({ isOpen, isCollapsed, isMobile, onClose }: SidebarProps
             {showLabels ? (
               <>
                 <div className="flex items-center gap-3">
-                  <div className="w-10 h-10 bg-gradient-to-br from-primary-400 to-primary-600 rounded-xl flex items-center justify-center shadow-lg shadow-primary-500/30">
-                    <GraduationCap className="w-6 h-6 text-white" />
-                  </div>
-                  <div>
-                    <h1 className="font-bold text-white text-lg leading-tight">Counselor</h1>
-                    <p className="text-xs text-slate-400 font-medium">Ledger</p>
-                  </div>
+                  <BrandMark logoUrl={branding?.logoUrl} />
+                  {branding ? (
+                    <div className="min-w-0">
+                      <h1 className="font-bold text-white text-lg leading-tight truncate">
+                        {branding.tenantName}
+                      </h1>
+                      <p className="text-xs text-slate-400 font-medium">Counselor Ledger</p>
+                    </div>
+                  ) : (
+                    <div>
+                      <h1 className="font-bold text-white text-lg leading-tight">Counselor</h1>
+                      <p className="text-xs text-slate-400 font-medium">Ledger</p>
+                    </div>
+                  )}
                 </div>
                 {isMobile && (
                   <button
@@ -132,9 +164,7 @@ export function Sidebar({ isOpen, isCollapsed, isMobile, onClose }: SidebarProps
                 )}
               </>
             ) : (
-              <div className="w-10 h-10 bg-gradient-to-br from-primary-400 to-primary-600 rounded-xl flex items-center justify-center shadow-lg shadow-primary-500/30">
-                <GraduationCap className="w-6 h-6 text-white" />
-              </div>
+              <BrandMark logoUrl={branding?.logoUrl} />
             )}
           </div>
 
@@ -154,7 +184,7 @@ export function Sidebar({ isOpen, isCollapsed, isMobile, onClose }: SidebarProps
                         'flex items-center gap-3 px-3 py-3 rounded-xl transition-all duration-200 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2 focus-visible:ring-offset-slate-900 group relative overflow-hidden',
                         showLabels ? 'justify-start' : 'justify-center',
                         isActive
-                          ? 'bg-gradient-to-r from-primary-500 to-primary-600 text-white shadow-lg shadow-primary-500/30'
+                          ? 'bg-gradient-to-r from-primary/90 to-primary text-white shadow-lg shadow-primary/30'
                           : 'text-slate-300 hover:bg-slate-700/50 hover:text-white'
                       )}
                       title={!showLabels ? item.name : undefined}
@@ -194,7 +224,7 @@ export function Sidebar({ isOpen, isCollapsed, isMobile, onClose }: SidebarProps
           {user && showLabels && (
             <div className="p-4 border-t border-slate-700/50 bg-slate-900/50 backdrop-blur-sm">
               <div className="flex items-center gap-3 p-3 rounded-xl bg-slate-800/50 border border-slate-700/50">
-                <div className="w-10 h-10 rounded-full bg-gradient-to-br from-primary-400 to-primary-600 flex items-center justify-center text-white font-semibold text-sm shadow-lg shadow-primary-500/20">
+                <div className="w-10 h-10 rounded-full bg-gradient-to-br from-primary/80 to-primary flex items-center justify-center text-white font-semibold text-sm shadow-lg shadow-primary/20">
                   {user.firstName[0]}
                   {user.lastName[0]}
                 </div>
@@ -202,7 +232,9 @@ export function Sidebar({ isOpen, isCollapsed, isMobile, onClose }: SidebarProps
                   <p className="text-sm font-semibold text-white truncate">
                     {user.firstName} {user.lastName}
                   </p>
-                  <p className="text-xs text-slate-400 capitalize">{user.role.toLowerCase()}</p>
+                  <p className="text-xs text-slate-400 capitalize">
+                    {user.role.toLowerCase().replace('_', ' ')}
+                  </p>
                 </div>
               </div>
             </div>
@@ -211,7 +243,7 @@ export function Sidebar({ isOpen, isCollapsed, isMobile, onClose }: SidebarProps
           {/* Collapsed user avatar */}
           {user && !showLabels && (
             <div className="p-3 border-t border-slate-700/50 bg-slate-900/50 backdrop-blur-sm flex justify-center">
-              <div className="w-10 h-10 rounded-full bg-gradient-to-br from-primary-400 to-primary-600 flex items-center justify-center text-white font-semibold text-sm shadow-lg shadow-primary-500/20">
+              <div className="w-10 h-10 rounded-full bg-gradient-to-br from-primary/80 to-primary flex items-center justify-center text-white font-semibold text-sm shadow-lg shadow-primary/20">
                 {user.firstName[0]}
                 {user.lastName[0]}
               </div>
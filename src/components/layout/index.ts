@@ -1,3 +1,5 @@
 export { AppLayout } from './AppLayout';
 export { Sidebar } from './Sidebar';
 export { Header } from './Header';
+export { GlobalSearch } from './GlobalSearch';
+export { NotificationCenter } from './NotificationCenter';
@@ -1,52 +1,30 @@
 import { useMemo, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table } from '@/components/ui/table';
-import type { Interaction } from '@/types';
+import type { ReportAggregates } from '@/types';
 
 interface FrequencyReportProps {
-  interactions: Interaction[];
+  aggregates: ReportAggregates;
 }
 
 type SortField = 'studentName' | 'gradeLevel' | 'interactionCount' | 'totalTimeSpent';
 type SortDirection = 'asc' | 'desc';
 
-export function FrequencyReport({ interactions }: FrequencyReportProps) {
+export function FrequencyReport({ aggregates }: FrequencyReportProps) {
   const [sortField, setSortField] = useState<SortField>('interactionCount');
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
 
-  const reportData = useMemo(() => {
-    // Group interactions by student
-    const studentMap = new Map<
-      string,
-      {
-        studentId: string;
-        studentName: string;
-        gradeLevel: string;
-        interactionCount: number;
-        totalTimeSpent: number;
-      }
-    >();
-
-    interactions.forEach(interaction => {
-      if (interaction.student && interaction.studentId) {
-        const existing = studentMap.get(interaction.studentId);
-        if (existing) {
-          existing.interactionCount++;
-          existing.totalTimeSpent += interaction.durationMinutes;
-        } else {
-          studentMap.set(interaction.studentId, {
-            studentId: interaction.studentId,
-            studentName: `${interaction.student.firstName} ${interaction.student.lastName}`,
-            gradeLevel: interaction.student.gradeLevel,
-            interactionCount: 1,
-            totalTimeSpent: interaction.durationMinutes,
-          });
-        }
-      }
-    });
-
-    return Array.from(studentMap.values());
-  }, [interactions]);
+  const reportData = useMemo(
+    () =>
+      aggregates.studentFrequency.map(student => ({
+        studentId: student.studentId,
+        studentName: student.studentName,
+        gradeLevel: student.gradeLevel,
+        interactionCount: student.interactionCount,
+        totalTimeSpent: student.totalDuration,
+      })),
+    [aggregates]
+  );
 
   const sortedData = useMemo(() => {
     const sorted = [...reportData];
@@ -10,10 +10,10 @@ import {
   ResponsiveContainer,
   Cell,
 } from 'recharts';
-import type { Interaction } from '@/types';
+import type { ReportAggregates } from '@/types';
 
 interface GradeLevelReportProps {
-  interactions: Interaction[];
+  aggregates: ReportAggregates;
 }
 
 const COLORS = [
@@ -25,39 +25,17 @@ const COLORS = [
   'hsl(var(--chart-5))',
 ];
 
-export function GradeLevelReport({ interactions }: GradeLevelReportProps) {
+export function GradeLevelReport({ aggregates }: GradeLevelReportProps) {
   const reportData = useMemo(() => {
-    // Count interactions by grade level
-    const gradeMap = new Map<string, number>();
-    let totalInteractions = 0;
+    const totalInteractions = aggregates.summary.totalInteractions;
 
-    interactions.forEach(interaction => {
-      if (interaction.student) {
-        const grade = interaction.student.gradeLevel;
-        gradeMap.set(grade, (gradeMap.get(grade) || 0) + 1);
-        totalInteractions++;
-      }
-    });
-
-    // Convert to array and calculate percentages
-    const data = Array.from(gradeMap.entries())
-      .map(([gradeLevel, count]) => ({
-        gradeLevel,
-        interactionCount: count,
-        percentage: totalInteractions > 0 ? (count / totalInteractions) * 100 : 0,
-      }))
-      .sort((a, b) => {
-        // Sort grades numerically if possible
-        const aNum = parseInt(a.gradeLevel);
-        const bNum = parseInt(b.gradeLevel);
-        if (!isNaN(aNum) && !isNaN(bNum)) {
-          return aNum - bNum;
-        }
-        return a.gradeLevel.localeCompare(b.gradeLevel);
-      });
-
-    return data;
-  }, [interactions]);
+    // Breakdown is already in grade order
+    return aggregates.gradeLevelBreakdown.map(({ gradeLevel, count }) => ({
+      gradeLevel,
+      interactionCount: count,
+      percentage: totalInteractions > 0 ? (count / totalInteractions) * 100 : 0,
+    }));
+  }, [aggregates]);
 
   const totalInteractions = useMemo(() => {
     return reportData.reduce((sum, item) => sum + item.interactionCount, 0);
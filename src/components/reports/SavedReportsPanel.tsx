@@ -0,0 +1,145 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { FormInput } from '@/components/common/FormInput';
+import { savedReportSchema } from '@/schemas/report';
+import type { ReportType, SavedReport } from '@/types/report';
+import { FolderOpen, Save, Trash2 } from 'lucide-react';
+
+interface SavedReportsPanelProps {
+  savedReports: SavedReport[];
+  reportType: ReportType;
+  activeReportId?: string;
+  onSave: (name: string) => void;
+  onOpen: (report: SavedReport) => void;
+  onDelete: (report: SavedReport) => void;
+  isLoading?: boolean;
+  isSaving?: boolean;
+}
+
+const REPORT_TYPE_LABELS: Record<ReportType, string> = {
+  volume: 'Student Volume',
+  frequency: 'Interaction Frequency',
+  gradeLevel: 'Grade Level Distribution',
+  timeAllocation: 'Time Allocation',
+};
+
+export function SavedReportsPanel({
+  savedReports,
+  reportType,
+  activeReportId,
+  onSave,
+  onOpen,
+  onDelete,
+  isLoading = false,
+  isSaving = false,
+}: SavedReportsPanelProps) {
+  const [name, setName] = useState('');
+  const [nameError, setNameError] = useState<string | undefined>();
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const result = savedReportSchema.safeParse({ name, reportType });
+    if (!result.success) {
+      setNameError(result.error.issues[0]?.message);
+      return;
+    }
+
+    const isDuplicate = savedReports.some(
+      report => report.name.toLowerCase() === result.data.name.toLowerCase()
+    );
+    if (isDuplicate) {
+      setNameError('A saved report with this name already exists');
+      return;
+    }
+
+    setNameError(undefined);
+    onSave(result.data.name);
+    setName('');
+  };
+
+  const formatDate = (date: Date): string => {
+    return new Intl.DateTimeFormat('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    }).format(date);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Saved Reports</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Save current report */}
+        <form onSubmit={handleSave} className="space-y-2">
+          <FormInput
+            label="Save current view as"
+            placeholder="e.g., 9th Grade - Fall Semester"
+            value={name}
+            onChange={e => {
+              setName(e.target.value);
+              if (nameError) setNameError(undefined);
+            }}
+            error={nameError}
+            helperText={`Saves the current filters with the ${REPORT_TYPE_LABELS[reportType]} report`}
+          />
+          <Button type="submit" size="sm" disabled={isSaving} className="flex items-center gap-2">
+            <Save className="w-4 h-4" />
+            {isSaving ? 'Saving...' : 'Save Report'}
+          </Button>
+        </form>
+
+        {/* Saved report list */}
+        <div className="border-t pt-4">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading saved reports...</p>
+          ) : savedReports.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No saved reports yet. Save a filter combination to reopen it later.
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {savedReports.map(report => (
+                <li
+                  key={report.id}
+                  className={`flex items-center justify-between gap-2 rounded-md border p-3 ${
+                    report.id === activeReportId ? 'border-primary bg-primary/5' : ''
+                  }`}
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{report.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {REPORT_TYPE_LABELS[report.reportType]} ·{' '}
+                      {formatDate(report.filters.startDate)} – {formatDate(report.filters.endDate)}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onOpen(report)}
+                      aria-label={`Open ${report.name}`}
+                    >
+                      <FolderOpen className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onDelete(report)}
+                      aria-label={`Delete ${report.name}`}
+                    >
+                      <Trash2 className="w-4 h-4 text-destructive" />
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,10 +1,10 @@
 import { useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, Legend } from 'recharts';
-import type { Interaction } from '@/types';
+import type { ReportAggregates } from '@/types';
 
 interface TimeAllocationReportProps {
-  interactions: Interaction[];
+  aggregates: ReportAggregates;
 }
 
 const COLORS = [
@@ -15,91 +15,33 @@ const COLORS = [
   'hsl(var(--chart-5))',
 ];
 
-export function TimeAllocationReport({ interactions }: TimeAllocationReportProps) {
+export function TimeAllocationReport({ aggregates }: TimeAllocationReportProps) {
   const reportData = useMemo(() => {
-    let totalMinutes = 0;
+    const totalMinutes = aggregates.summary.totalDuration;
+    const percentOf = (minutes: number) => (totalMinutes > 0 ? (minutes / totalMinutes) * 100 : 0);
 
     // Time by category
-    const categoryMap = new Map<string, number>();
-    interactions.forEach(interaction => {
-      if (interaction.category) {
-        const categoryName = interaction.category.name;
-        categoryMap.set(
-          categoryName,
-          (categoryMap.get(categoryName) || 0) + interaction.durationMinutes
-        );
-        totalMinutes += interaction.durationMinutes;
-      }
-    });
-
-    const byCategory = Array.from(categoryMap.entries())
-      .map(([categoryName, totalMinutes]) => ({
-        categoryName,
-        totalMinutes,
-        percentage: totalMinutes > 0 ? (totalMinutes / totalMinutes) * 100 : 0,
-      }))
-      .sort((a, b) => b.totalMinutes - a.totalMinutes);
-
-    // Recalculate percentages based on total
-    const categoryTotal = byCategory.reduce((sum, item) => sum + item.totalMinutes, 0);
-    byCategory.forEach(item => {
-      item.percentage = categoryTotal > 0 ? (item.totalMinutes / categoryTotal) * 100 : 0;
-    });
+    const byCategory = aggregates.timeByCategory.map(({ categoryName, totalMinutes }) => ({
+      categoryName,
+      totalMinutes,
+      percentage: percentOf(totalMinutes),
+    }));
 
     // Time by grade level
-    const gradeMap = new Map<string, number>();
-    interactions.forEach(interaction => {
-      if (interaction.student) {
-        const grade = interaction.student.gradeLevel;
-        gradeMap.set(grade, (gradeMap.get(grade) || 0) + interaction.durationMinutes);
-      }
-    });
-
-    const byGradeLevel = Array.from(gradeMap.entries())
-      .map(([gradeLevel, totalMinutes]) => ({
-        gradeLevel,
-        totalMinutes,
-        percentage: 0,
-      }))
-      .sort((a, b) => {
-        const aNum = parseInt(a.gradeLevel);
-        const bNum = parseInt(b.gradeLevel);
-        if (!isNaN(aNum) && !isNaN(bNum)) {
-          return aNum - bNum;
-        }
-        return a.gradeLevel.localeCompare(b.gradeLevel);
-      });
-
-    const gradeTotal = byGradeLevel.reduce((sum, item) => sum + item.totalMinutes, 0);
-    byGradeLevel.forEach(item => {
-      item.percentage = gradeTotal > 0 ? (item.totalMinutes / gradeTotal) * 100 : 0;
-    });
+    const byGradeLevel = aggregates.timeByGradeLevel.map(({ gradeLevel, totalMinutes }) => ({
+      gradeLevel,
+      totalMinutes,
+      percentage: percentOf(totalMinutes),
+    }));
 
     // Time by student (top 20)
-    const studentMap = new Map<string, { studentName: string; totalMinutes: number }>();
-    interactions.forEach(interaction => {
-      if (interaction.student && interaction.studentId) {
-        const existing = studentMap.get(interaction.studentId);
-        const studentName = `${interaction.student.firstName} ${interaction.student.lastName}`;
-        if (existing) {
-          existing.totalMinutes += interaction.durationMinutes;
-        } else {
-          studentMap.set(interaction.studentId, {
-            studentName,
-            totalMinutes: interaction.durationMinutes,
-          });
-        }
-      }
-    });
-
-    const byStudent = Array.from(studentMap.entries())
-      .map(([studentId, data]) => ({
+    const byStudent = aggregates.topStudentsByTime.map(
+      ({ studentId, studentName, totalMinutes }) => ({
         studentId,
-        studentName: data.studentName,
-        totalMinutes: data.totalMinutes,
-      }))
-      .sort((a, b) => b.totalMinutes - a.totalMinutes)
-      .slice(0, 20);
+        studentName,
+        totalMinutes,
+      })
+    );
 
     return {
       byCategory,
@@ -107,7 +49,7 @@ export function TimeAllocationReport({ interactions }: TimeAllocationReportProps
       byStudent,
       totalMinutes,
     };
-  }, [interactions]);
+  }, [aggregates]);
 
   const formatTime = (minutes: number): string => {
     const hours = Math.floor(minutes / 60);
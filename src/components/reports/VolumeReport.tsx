@@ -13,79 +13,33 @@ import {
   Line,
 } from 'recharts';
 import { exportToCSV, exportToPDF } from '@/utils/exportHelpers';
-import type { Interaction } from '@/types';
+import { useAuth } from '@/contexts/AuthContext';
+import type { ReportAggregates } from '@/types';
+import { compareGradeLevels } from '@/utils/reportHelpers';
 
 interface VolumeReportProps {
-  interactions: Interaction[];
+  aggregates: ReportAggregates;
 }
 
-export function VolumeReport({ interactions }: VolumeReportProps) {
+export function VolumeReport({ aggregates }: VolumeReportProps) {
+  const { branding } = useAuth();
   const reportData = useMemo(() => {
-    // Get unique students
-    const uniqueStudentIds = new Set(
-      interactions.filter(i => i.studentId).map(i => i.studentId as string)
-    );
-
-    const totalStudents = uniqueStudentIds.size;
-
-    // Breakdown by grade level
-    const gradeMap = new Map<string, Set<string>>();
-    interactions.forEach(interaction => {
-      if (interaction.student && interaction.studentId) {
-        const grade = interaction.student.gradeLevel;
-        if (!gradeMap.has(grade)) {
-          gradeMap.set(grade, new Set());
-        }
-        gradeMap.get(grade)!.add(interaction.studentId);
-      }
+    // Students by the grade they are in
+    const gradeMap = new Map<string, number>();
+    aggregates.studentFrequency.forEach(({ gradeLevel }) => {
+      gradeMap.set(gradeLevel, (gradeMap.get(gradeLevel) || 0) + 1);
     });
 
     const byGradeLevel = Array.from(gradeMap.entries())
-      .map(([gradeLevel, studentIds]) => ({
-        gradeLevel,
-        count: studentIds.size,
-      }))
-      .sort((a, b) => {
-        // Sort grades numerically if possible
-        const aNum = parseInt(a.gradeLevel);
-        const bNum = parseInt(b.gradeLevel);
-        if (!isNaN(aNum) && !isNaN(bNum)) {
-          return aNum - bNum;
-        }
-        return a.gradeLevel.localeCompare(b.gradeLevel);
-      });
-
-    // Trend over time (group by week)
-    const trendMap = new Map<string, Set<string>>();
-    interactions.forEach(interaction => {
-      if (interaction.student && interaction.studentId) {
-        const date = new Date(interaction.startTime);
-        // Get start of week (Sunday)
-        const weekStart = new Date(date);
-        weekStart.setDate(date.getDate() - date.getDay());
-        weekStart.setHours(0, 0, 0, 0);
-        const weekKey = weekStart.toISOString().split('T')[0];
-
-        if (!trendMap.has(weekKey)) {
-          trendMap.set(weekKey, new Set());
-        }
-        trendMap.get(weekKey)!.add(interaction.studentId);
-      }
-    });
-
-    const trend = Array.from(trendMap.entries())
-      .map(([dateStr, studentIds]) => ({
-        date: new Date(dateStr),
-        count: studentIds.size,
-      }))
-      .sort((a, b) => a.date.getTime() - b.date.getTime());
+      .map(([gradeLevel, count]) => ({ gradeLevel, count }))
+      .sort((a, b) => compareGradeLevels(a.gradeLevel, b.gradeLevel));
 
     return {
-      totalStudents,
+      totalStudents: aggregates.summary.totalStudents,
       byGradeLevel,
-      trend,
+      trend: aggregates.studentTrend,
     };
-  }, [interactions]);
+  }, [aggregates]);
 
   const formatDate = (date: Date): string => {
     return new Intl.DateTimeFormat('en-US', {
@@ -109,7 +63,7 @@ export function VolumeReport({ interactions }: VolumeReportProps) {
   };
 
   const handleExportPDF = () => {
-    exportToPDF('volume-report-content', 'student-volume-report');
+    exportToPDF('volume-report-content', 'student-volume-report', branding ?? undefined);
   };
 
   return (
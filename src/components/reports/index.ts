@@ -3,3 +3,4 @@ export { VolumeReport } from './VolumeReport';
 export { FrequencyReport } from './FrequencyReport';
 export { GradeLevelReport } from './GradeLevelReport';
 export { TimeAllocationReport } from './TimeAllocationReport';
+export { SavedReportsPanel } from './SavedReportsPanel';
@@ -0,0 +1,288 @@
+import { useMemo, useState } from 'react';
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import {
+  useLinkGoalInteraction,
+  useStudentGoals,
+  useUnlinkGoalInteraction,
+} from '@/hooks/useGoals';
+import {
+  buildGoalProgressSeries,
+  getLatestGoalRating,
+  GOAL_AREA_LABELS,
+  GOAL_RATING_LABELS,
+  GOAL_STATUS_LABELS,
+} from '@/services/goalService';
+import { formatDate } from '@/utils/dateHelpers';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Select } from '@/components/ui/select';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { GoalCheckInDialog, GoalFormDialog } from './GoalDialogs';
+import type { Interaction } from '@/types/interaction';
+import type { ReasonCategory } from '@/types/reason';
+import type { GoalStatus, StudentGoal } from '@/types/goal';
+import { AlertTriangle, Plus, X } from 'lucide-react';
+
+interface CounselingPlanProps {
+  studentId: string;
+  interactions: Interaction[];
+  categories: ReasonCategory[];
+}
+
+const COLORS = [
+  'hsl(var(--chart-1))',
+  'hsl(var(--chart-2))',
+  'hsl(var(--chart-3))',
+  'hsl(var(--chart-4))',
+  'hsl(var(--chart-5))',
+];
+
+const STATUS_STYLES: Record<GoalStatus, string> = {
+  ACTIVE: 'bg-blue-100 text-blue-800 border-blue-200',
+  ACHIEVED: 'bg-green-100 text-green-800 border-green-200',
+  DISCONTINUED: 'bg-gray-100 text-gray-700 border-gray-200',
+};
+
+export function CounselingPlan({ studentId, interactions, categories }: CounselingPlanProps) {
+  const { data: goals = [], isLoading, error } = useStudentGoals(studentId);
+  const [editing, setEditing] = useState<StudentGoal | 'new' | null>(null);
+  const [checkingIn, setCheckingIn] = useState<StudentGoal | null>(null);
+
+  const describeInteraction = (interaction: Interaction) => {
+    const category = categories.find(c => c.id === interaction.categoryId);
+    return `${formatDate(interaction.startTime)} · ${category?.name ?? interaction.customReason ?? 'Interaction'}`;
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Counseling Plan</CardTitle>
+        <Button variant="outline" size="sm" onClick={() => setEditing('new')}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Goal
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex items-center py-4">
+            <LoadingSpinner />
+            <span className="ml-2 text-sm text-gray-600">Loading goals...</span>
+          </div>
+        ) : error ? (
+          <div className="flex items-center gap-2 text-sm text-red-700">
+            <AlertTriangle className="w-4 h-4" />
+            Failed to load goals
+          </div>
+        ) : goals.length === 0 ? (
+          <p className="text-sm text-gray-500">No goals yet.</p>
+        ) : (
+          <>
+            <GoalProgressChart goals={goals} />
+            <ul className="space-y-3">
+              {goals.map(goal => (
+                <GoalItem
+                  key={goal.id}
+                  goal={goal}
+                  interactions={interactions}
+                  describeInteraction={describeInteraction}
+                  onEdit={() => setEditing(goal)}
+                  onCheckIn={() => setCheckingIn(goal)}
+                />
+              ))}
+            </ul>
+          </>
+        )}
+      </CardContent>
+
+      <GoalFormDialog
+        studentId={studentId}
+        goal={editing}
+        onOpenChange={open => !open && setEditing(null)}
+      />
+      <GoalCheckInDialog goal={checkingIn} onOpenChange={open => !open && setCheckingIn(null)} />
+    </Card>
+  );
+}
+
+function GoalProgressChart({ goals }: { goals: StudentGoal[] }) {
+  const charted = useMemo(() => goals.filter(goal => goal.checkIns.length > 0), [goals]);
+  const data = useMemo(() => buildGoalProgressSeries(charted), [charted]);
+
+  if (charted.length === 0) {
+    return <p className="text-sm text-gray-500">Progress appears here after the first check-in.</p>;
+  }
+
+  return (
+    <ResponsiveContainer width="100%" height={240}>
+      <LineChart data={data}>
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis
+          dataKey="recordedAt"
+          type="number"
+          scale="time"
+          domain={['dataMin', 'dataMax']}
+          tickFormatter={value => formatDate(new Date(value))}
+        />
+        <YAxis domain={[1, 5]} ticks={[1, 2, 3, 4, 5]} allowDecimals={false} width={30} />
+        <Tooltip
+          labelFormatter={value => formatDate(new Date(value as number))}
+          formatter={(value: number, name: string) => [
+            `${value} - ${GOAL_RATING_LABELS[value as keyof typeof GOAL_RATING_LABELS]}`,
+            name,
+          ]}
+        />
+        <Legend />
+        {charted.map((goal, index) => (
+          <Line
+            key={goal.id}
+            type="monotone"
+            dataKey={goal.id}
+            name={goal.title}
+            stroke={COLORS[index % COLORS.length]}
+            strokeWidth={2}
+            connectNulls
+          />
+        ))}
+      </LineChart>
+    </ResponsiveContainer>
+  );
+}
+
+interface GoalItemProps {
+  goal: StudentGoal;
+  interactions: Interaction[];
+  describeInteraction: (interaction: Interaction) => string;
+  onEdit: () => void;
+  onCheckIn: () => void;
+}
+
+function GoalItem({ goal, interactions, describeInteraction, onEdit, onCheckIn }: GoalItemProps) {
+  const linkInteraction = useLinkGoalInteraction();
+  const unlinkInteraction = useUnlinkGoalInteraction();
+  const latestRating = getLatestGoalRating(goal);
+  const lastCheckIn = goal.checkIns[goal.checkIns.length - 1];
+
+  const linked = interactions.filter(interaction => goal.interactionIds.includes(interaction.id));
+  const unlinked = interactions.filter(
+    interaction => !goal.interactionIds.includes(interaction.id)
+  );
+
+  const handleLink = (interactionId: string) => {
+    if (!interactionId) return;
+    linkInteraction.mutate({ goalId: goal.id, studentId: goal.studentId, interactionId });
+  };
+
+  return (
+    <li className="rounded-lg border p-4 space-y-3">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-2 flex-wrap">
+            <span className="font-medium text-gray-900">{goal.title}</span>
+            <span
+              className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium border ${STATUS_STYLES[goal.status]}`}
+            >
+              {GOAL_STATUS_LABELS[goal.status]}
+            </span>
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            {GOAL_AREA_LABELS[goal.area]}
+            {goal.targetDate && ` · Target ${formatDate(`${goal.targetDate}T00:00:00`)}`}
+            {goal.createdByName && ` · Added by ${goal.createdByName}`}
+          </p>
+          {goal.measure && <p className="text-sm text-gray-700 mt-2">{goal.measure}</p>}
+          {goal.description && (
+            <p className="text-sm text-gray-600 mt-1 whitespace-pre-line">{goal.description}</p>
+          )}
+        </div>
+        <div className="flex gap-2">
+          {goal.status === 'ACTIVE' && (
+            <Button variant="outline" size="sm" onClick={onCheckIn}>
+              Check In
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" onClick={onEdit}>
+            Edit
+          </Button>
+        </div>
+      </div>
+
+      {lastCheckIn && latestRating && (
+        <div className="text-sm border-t pt-3">
+          <p className="text-gray-900">
+            Latest: {latestRating} - {GOAL_RATING_LABELS[latestRating]}
+            <span className="text-xs text-gray-500">
+              {' '}
+              on {formatDate(lastCheckIn.recordedAt)}
+              {lastCheckIn.recordedByName && ` by ${lastCheckIn.recordedByName}`} (
+              {goal.checkIns.length} check-in{goal.checkIns.length !== 1 ? 's' : ''})
+            </span>
+          </p>
+          {lastCheckIn.note && (
+            <p className="mt-1 text-xs text-gray-600 whitespace-pre-line">{lastCheckIn.note}</p>
+          )}
+          {lastCheckIn.noteDecryptionFailed && (
+            <p className="mt-1 text-xs text-red-700">The note could not be decrypted</p>
+          )}
+        </div>
+      )}
+
+      <div className="text-sm border-t pt-3 space-y-2">
+        <p className="text-xs font-semibold text-slate-600">Linked interactions</p>
+        {linked.length > 0 && (
+          <ul className="flex flex-wrap gap-2">
+            {linked.map(interaction => (
+              <li
+                key={interaction.id}
+                className="inline-flex items-center gap-1 rounded-full bg-gray-100 px-3 py-1 text-xs text-gray-700"
+              >
+                {describeInteraction(interaction)}
+                <button
+                  type="button"
+                  aria-label="Unlink interaction"
+                  className="text-gray-400 hover:text-gray-700"
+                  onClick={() =>
+                    unlinkInteraction.mutate({
+                      goalId: goal.id,
+                      studentId: goal.studentId,
+                      interactionId: interaction.id,
+                    })
+                  }
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        {unlinked.length > 0 && (
+          <Select
+            aria-label="Link an interaction"
+            className="max-w-sm"
+            value=""
+            onChange={e => handleLink(e.target.value)}
+            disabled={linkInteraction.isPending}
+          >
+            <option value="">Link an interaction...</option>
+            {unlinked.map(interaction => (
+              <option key={interaction.id} value={interaction.id}>
+                {describeInteraction(interaction)}
+              </option>
+            ))}
+          </Select>
+        )}
+        {linked.length === 0 && unlinked.length === 0 && (
+          <p className="text-xs text-gray-500">No interactions with this student yet.</p>
+        )}
+      </div>
+    </li>
+  );
+}
@@ -0,0 +1,248 @@
+import { useState } from 'react';
+import { useCreateGoal, useRecordGoalCheckIn, useUpdateGoal } from '@/hooks/useGoals';
+import {
+  GOAL_AREA_LABELS,
+  GOAL_RATING_LABELS,
+  GOAL_STATUS_LABELS,
+  validateGoalForm,
+} from '@/services/goalService';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import type { GoalArea, GoalFormData, GoalRating, GoalStatus, StudentGoal } from '@/types/goal';
+import { Loader2, Target } from 'lucide-react';
+
+export interface GoalFormDialogProps {
+  studentId: string;
+  /** The goal to edit, 'new' to add one, or null when closed */
+  goal: StudentGoal | 'new' | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function GoalFormDialog({ studentId, goal, onOpenChange }: GoalFormDialogProps) {
+  const editing = goal && goal !== 'new' ? goal : undefined;
+
+  return (
+    <Dialog open={!!goal} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Target className="w-5 h-5" />
+            {editing ? 'Edit Goal' : 'Add Goal'}
+          </DialogTitle>
+        </DialogHeader>
+
+        {goal && (
+          <GoalForm
+            key={editing?.id ?? 'new'}
+            studentId={studentId}
+            goal={editing}
+            onDone={() => onOpenChange(false)}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface GoalFormProps {
+  studentId: string;
+  goal?: StudentGoal;
+  onDone: () => void;
+}
+
+function GoalForm({ studentId, goal, onDone }: GoalFormProps) {
+  const createGoal = useCreateGoal();
+  const updateGoal = useUpdateGoal();
+  const [form, setForm] = useState<GoalFormData>({
+    area: goal?.area ?? 'ACADEMIC',
+    title: goal?.title ?? '',
+    description: goal?.description ?? '',
+    measure: goal?.measure ?? '',
+    targetDate: goal?.targetDate ?? '',
+    status: goal?.status ?? 'ACTIVE',
+  });
+
+  const errors = validateGoalForm(form);
+  const isPending = createGoal.isPending || updateGoal.isPending;
+
+  const handleSubmit = () => {
+    if (goal) {
+      updateGoal.mutate({ goalId: goal.id, form }, { onSuccess: onDone });
+    } else {
+      createGoal.mutate({ studentId, form }, { onSuccess: onDone });
+    }
+  };
+
+  return (
+    <>
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="goal-area">Area</Label>
+            <Select
+              id="goal-area"
+              value={form.area}
+              onChange={e => setForm(prev => ({ ...prev, area: e.target.value as GoalArea }))}
+            >
+              {(Object.keys(GOAL_AREA_LABELS) as GoalArea[]).map(area => (
+                <option key={area} value={area}>
+                  {GOAL_AREA_LABELS[area]}
+                </option>
+              ))}
+            </Select>
+          </div>
+          {goal && (
+            <div className="space-y-2">
+              <Label htmlFor="goal-status">Status</Label>
+              <Select
+                id="goal-status"
+                value={form.status}
+                onChange={e => setForm(prev => ({ ...prev, status: e.target.value as GoalStatus }))}
+              >
+                {(Object.keys(GOAL_STATUS_LABELS) as GoalStatus[]).map(status => (
+                  <option key={status} value={status}>
+                    {GOAL_STATUS_LABELS[status]}
+                  </option>
+                ))}
+              </Select>
+            </div>
+          )}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="goal-title">Goal</Label>
+          <Input
+            id="goal-title"
+            value={form.title}
+            onChange={e => setForm(prev => ({ ...prev, title: e.target.value }))}
+            placeholder="e.g. Raise math grade to a C"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="goal-measure">How progress is measured</Label>
+          <Input
+            id="goal-measure"
+            value={form.measure}
+            onChange={e => setForm(prev => ({ ...prev, measure: e.target.value }))}
+            placeholder="e.g. Turns in 90% of homework each week"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="goal-description">Details (optional)</Label>
+          <Textarea
+            id="goal-description"
+            value={form.description}
+            onChange={e => setForm(prev => ({ ...prev, description: e.target.value }))}
+            rows={3}
+          />
+        </div>
+        <div className="space-y-2 max-w-xs">
+          <Label htmlFor="goal-target-date">Target date (optional)</Label>
+          <Input
+            id="goal-target-date"
+            type="date"
+            value={form.targetDate}
+            onChange={e => setForm(prev => ({ ...prev, targetDate: e.target.value }))}
+          />
+        </div>
+      </div>
+
+      <DialogFooter className="items-center">
+        {errors.length > 0 && <p className="text-sm text-gray-600 mr-auto">{errors[0]}</p>}
+        <Button variant="outline" onClick={onDone}>
+          Cancel
+        </Button>
+        <Button onClick={handleSubmit} disabled={errors.length > 0 || isPending}>
+          {isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          {goal ? 'Save' : 'Add Goal'}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
+
+export interface GoalCheckInDialogProps {
+  goal: StudentGoal | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function GoalCheckInDialog({ goal, onOpenChange }: GoalCheckInDialogProps) {
+  return (
+    <Dialog open={!!goal} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Progress Check-in</DialogTitle>
+          {goal && <DialogDescription>{goal.title}</DialogDescription>}
+        </DialogHeader>
+
+        {goal && <CheckInForm key={goal.id} goal={goal} onDone={() => onOpenChange(false)} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function CheckInForm({ goal, onDone }: { goal: StudentGoal; onDone: () => void }) {
+  const recordCheckIn = useRecordGoalCheckIn();
+  const [rating, setRating] = useState<GoalRating | null>(null);
+  const [note, setNote] = useState('');
+
+  const handleSubmit = () => {
+    if (!rating) return;
+    recordCheckIn.mutate(
+      { goalId: goal.id, studentId: goal.studentId, form: { rating, note } },
+      { onSuccess: onDone }
+    );
+  };
+
+  return (
+    <>
+      <div className="space-y-4">
+        {goal.measure && <p className="text-sm text-gray-600">Measured by: {goal.measure}</p>}
+        <fieldset className="space-y-2">
+          <legend className="text-sm font-medium">Progress</legend>
+          {(Object.keys(GOAL_RATING_LABELS).map(Number) as GoalRating[]).map(value => (
+            <label key={value} className="flex items-center gap-2 text-sm">
+              <input
+                type="radio"
+                name="goal-rating"
+                checked={rating === value}
+                onChange={() => setRating(value)}
+              />
+              <span className="font-medium w-4">{value}</span>
+              {GOAL_RATING_LABELS[value]}
+            </label>
+          ))}
+        </fieldset>
+        <div className="space-y-2">
+          <Label htmlFor="goal-check-in-note">Note (optional)</Label>
+          <Textarea
+            id="goal-check-in-note"
+            value={note}
+            onChange={e => setNote(e.target.value)}
+            rows={3}
+          />
+        </div>
+      </div>
+
+      <DialogFooter>
+        <Button variant="outline" onClick={onDone}>
+          Cancel
+        </Button>
+        <Button onClick={handleSubmit} disabled={!rating || recordCheckIn.isPending}>
+          {recordCheckIn.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Record
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
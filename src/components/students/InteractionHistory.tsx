@@ -16,12 +16,14 @@ import { Select } from '@/components/ui/select';
 
 interface InteractionHistoryProps {
   interactions: Interaction[];
+  studentId?: string; // The student whose history this is, for group attendance
   categories?: ReasonCategory[];
   onInteractionClick?: (interactionId: string) => void;
 }
 
 export function InteractionHistory({
   interactions,
+  studentId,
   categories = [],
   onInteractionClick,
 }: InteractionHistoryProps) {
@@ -164,8 +166,11 @@ export function InteractionHistory({
               </TableRow>
             ) : (
               filteredInteractions.map(interaction => {
-                // Determine if this is a direct interaction or a regarding interaction
-                const isDirect = interaction.studentId !== undefined;
+                // Determine if this is a group, direct or regarding interaction
+                const participant = interaction.isGroup
+                  ? interaction.participants.find(p => p.studentId === studentId)
+                  : undefined;
+                const isDirect = !interaction.isGroup && interaction.studentId !== undefined;
                 const isRegarding =
                   interaction.contactId !== undefined &&
                   interaction.regardingStudentId !== undefined;
@@ -178,7 +183,18 @@ export function InteractionHistory({
                     <TableCell>{formatTime(interaction.startTime)}</TableCell>
                     <TableCell>{formatDuration(interaction.durationMinutes)}</TableCell>
                     <TableCell>
-                      {isDirect ? (
+                      {interaction.isGroup ? (
+                        <div className="flex flex-wrap items-center gap-1">
+                          <span className="inline-flex items-center rounded-full bg-amber-100 px-2.5 py-0.5 text-xs font-medium text-amber-800">
+                            Group ({interaction.participants.length})
+                          </span>
+                          {participant && !participant.attended && (
+                            <span className="inline-flex items-center rounded-full bg-gray-100 px-2.5 py-0.5 text-xs font-medium text-gray-800">
+                              Absent
+                            </span>
+                          )}
+                        </div>
+                      ) : isDirect ? (
                         <span className="inline-flex items-center rounded-full bg-green-100 px-2.5 py-0.5 text-xs font-medium text-green-800">
                           Direct
                         </span>
@@ -0,0 +1,295 @@
+import { useState } from 'react';
+import {
+  useChangeRiskFlagSeverity,
+  useClearRiskFlag,
+  useRaiseRiskFlag,
+} from '@/hooks/useRiskFlags';
+import {
+  RISK_FLAG_CATEGORY_LABELS,
+  RISK_FLAG_SEVERITY_LABELS,
+  validateRiskFlagForm,
+} from '@/services/riskFlagService';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import type {
+  RiskFlag,
+  RiskFlagCategory,
+  RiskFlagFormData,
+  RiskFlagSeverity,
+  SafetyPlan,
+} from '@/types/riskFlag';
+import { Flag, Loader2 } from 'lucide-react';
+
+export type RiskFlagDialogState =
+  | { action: 'raise' }
+  | { action: 'change' | 'clear'; flag: RiskFlag }
+  | null;
+
+export interface RiskFlagDialogProps {
+  studentId: string;
+  state: RiskFlagDialogState;
+  /** Categories that already have an open flag and cannot be raised again */
+  openCategories?: RiskFlagCategory[];
+  onOpenChange: (open: boolean) => void;
+}
+
+const EMPTY_SAFETY_PLAN: SafetyPlan = {
+  warningSigns: '',
+  copingStrategies: '',
+  supportContacts: '',
+  guardianNotified: false,
+  reviewDate: '',
+};
+
+const TITLES = {
+  raise: 'Raise Risk Flag',
+  change: 'Change Severity',
+  clear: 'Clear Risk Flag',
+};
+
+export function RiskFlagDialog({
+  studentId,
+  state,
+  openCategories = [],
+  onOpenChange,
+}: RiskFlagDialogProps) {
+  const flag = state && state.action !== 'raise' ? state.flag : undefined;
+  const onDone = () => onOpenChange(false);
+
+  return (
+    <Dialog open={!!state} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Flag className="w-5 h-5" />
+            {state && TITLES[state.action]}
+          </DialogTitle>
+          {flag && (
+            <DialogDescription>
+              {RISK_FLAG_CATEGORY_LABELS[flag.category]} flag, currently{' '}
+              {RISK_FLAG_SEVERITY_LABELS[flag.severity].toLowerCase()}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        {state?.action === 'clear' && flag && (
+          <ClearForm key={flag.id} flag={flag} onDone={onDone} />
+        )}
+        {state && state.action !== 'clear' && (
+          <SeverityForm
+            key={flag?.id ?? 'raise'}
+            studentId={studentId}
+            flag={flag}
+            openCategories={openCategories}
+            onDone={onDone}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface SeverityFormProps {
+  studentId: string;
+  flag?: RiskFlag;
+  openCategories: RiskFlagCategory[];
+  onDone: () => void;
+}
+
+function SeverityForm({ studentId, flag, openCategories, onDone }: SeverityFormProps) {
+  const raiseFlag = useRaiseRiskFlag();
+  const changeSeverity = useChangeRiskFlagSeverity();
+  const availableCategories = (Object.keys(RISK_FLAG_CATEGORY_LABELS) as RiskFlagCategory[]).filter(
+    category => !openCategories.includes(category)
+  );
+  const [form, setForm] = useState<RiskFlagFormData>({
+    category: flag?.category ?? availableCategories[0] ?? 'ATTENDANCE',
+    severity: flag ? (flag.severity === 'HIGH' ? 'MEDIUM' : 'HIGH') : 'LOW',
+    note: '',
+  });
+  const [safetyPlan, setSafetyPlan] = useState<SafetyPlan>(EMPTY_SAFETY_PLAN);
+
+  // An existing plan carries over when a flag is escalated back to high
+  const needsSafetyPlan =
+    form.severity === 'HIGH' && !flag?.safetyPlan && !flag?.safetyPlanDecryptionFailed;
+  const submitted: RiskFlagFormData = {
+    ...form,
+    safetyPlan: needsSafetyPlan ? safetyPlan : undefined,
+  };
+  const errors = validateRiskFlagForm(submitted, flag);
+  const isPending = raiseFlag.isPending || changeSeverity.isPending;
+
+  const updatePlan = (changes: Partial<SafetyPlan>) => {
+    setSafetyPlan(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleSubmit = () => {
+    if (flag) {
+      changeSeverity.mutate({ flagId: flag.id, form: submitted }, { onSuccess: onDone });
+    } else {
+      raiseFlag.mutate({ studentId, form: submitted }, { onSuccess: onDone });
+    }
+  };
+
+  return (
+    <>
+      <div className="space-y-4">
+        {!flag && (
+          <div className="space-y-2">
+            <Label htmlFor="risk-flag-category">Category</Label>
+            <Select
+              id="risk-flag-category"
+              value={form.category}
+              onChange={e =>
+                setForm(prev => ({ ...prev, category: e.target.value as RiskFlagCategory }))
+              }
+            >
+              {availableCategories.map(category => (
+                <option key={category} value={category}>
+                  {RISK_FLAG_CATEGORY_LABELS[category]}
+                </option>
+              ))}
+            </Select>
+          </div>
+        )}
+        <div className="space-y-2">
+          <Label htmlFor="risk-flag-severity">Severity</Label>
+          <Select
+            id="risk-flag-severity"
+            value={form.severity}
+            onChange={e =>
+              setForm(prev => ({ ...prev, severity: e.target.value as RiskFlagSeverity }))
+            }
+          >
+            {(Object.keys(RISK_FLAG_SEVERITY_LABELS) as RiskFlagSeverity[]).map(severity => (
+              <option key={severity} value={severity}>
+                {RISK_FLAG_SEVERITY_LABELS[severity]}
+              </option>
+            ))}
+          </Select>
+          {form.severity === 'HIGH' && (
+            <p className="text-xs text-gray-500">Administrators are notified of high risk flags.</p>
+          )}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="risk-flag-note">Note (optional)</Label>
+          <Textarea
+            id="risk-flag-note"
+            value={form.note}
+            onChange={e => setForm(prev => ({ ...prev, note: e.target.value }))}
+            rows={3}
+            placeholder="What prompted this?"
+          />
+        </div>
+
+        {needsSafetyPlan && (
+          <div className="space-y-4 pt-4 border-t">
+            <h4 className="text-sm font-semibold text-gray-900">Safety Plan</h4>
+            <div className="space-y-2">
+              <Label htmlFor="safety-plan-warning-signs">Warning signs</Label>
+              <Textarea
+                id="safety-plan-warning-signs"
+                value={safetyPlan.warningSigns}
+                onChange={e => updatePlan({ warningSigns: e.target.value })}
+                rows={2}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="safety-plan-coping">Coping strategies</Label>
+              <Textarea
+                id="safety-plan-coping"
+                value={safetyPlan.copingStrategies}
+                onChange={e => updatePlan({ copingStrategies: e.target.value })}
+                rows={2}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="safety-plan-contacts">Support contacts</Label>
+              <Textarea
+                id="safety-plan-contacts"
+                value={safetyPlan.supportContacts}
+                onChange={e => updatePlan({ supportContacts: e.target.value })}
+                rows={2}
+              />
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 items-end">
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={safetyPlan.guardianNotified}
+                  onChange={e => updatePlan({ guardianNotified: e.target.checked })}
+                />
+                Guardian notified
+              </label>
+              <div className="space-y-2">
+                <Label htmlFor="safety-plan-review-date">Review by (optional)</Label>
+                <Input
+                  id="safety-plan-review-date"
+                  type="date"
+                  value={safetyPlan.reviewDate}
+                  onChange={e => updatePlan({ reviewDate: e.target.value })}
+                />
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <DialogFooter className="items-center">
+        {errors.length > 0 && <p className="text-sm text-gray-600 mr-auto">{errors[0]}</p>}
+        <Button variant="outline" onClick={onDone}>
+          Cancel
+        </Button>
+        <Button onClick={handleSubmit} disabled={errors.length > 0 || isPending}>
+          {isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          {flag ? 'Save' : 'Raise Flag'}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
+
+function ClearForm({ flag, onDone }: { flag: RiskFlag; onDone: () => void }) {
+  const clearFlag = useClearRiskFlag();
+  const [note, setNote] = useState('');
+
+  const handleSubmit = () => {
+    clearFlag.mutate({ flagId: flag.id, note }, { onSuccess: onDone });
+  };
+
+  return (
+    <>
+      <div className="space-y-2">
+        <Label htmlFor="risk-flag-clear-note">Note (optional)</Label>
+        <Textarea
+          id="risk-flag-clear-note"
+          value={note}
+          onChange={e => setNote(e.target.value)}
+          rows={3}
+          placeholder="Why is this flag no longer needed?"
+        />
+      </div>
+
+      <DialogFooter>
+        <Button variant="outline" onClick={onDone}>
+          Cancel
+        </Button>
+        <Button onClick={handleSubmit} disabled={clearFlag.isPending}>
+          {clearFlag.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Clear Flag
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
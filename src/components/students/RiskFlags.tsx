@@ -0,0 +1,195 @@
+import { useState } from 'react';
+import { useStudentRiskFlags } from '@/hooks/useRiskFlags';
+import { RISK_FLAG_CATEGORY_LABELS, RISK_FLAG_SEVERITY_LABELS } from '@/services/riskFlagService';
+import { formatDate, formatDateTime } from '@/utils/dateHelpers';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { RiskFlagDialog, type RiskFlagDialogState } from './RiskFlagDialog';
+import type { RiskFlag, RiskFlagEvent, RiskFlagSeverity } from '@/types/riskFlag';
+import { AlertTriangle, Flag } from 'lucide-react';
+
+interface RiskFlagsProps {
+  studentId: string;
+}
+
+const SEVERITY_STYLES: Record<RiskFlagSeverity, string> = {
+  LOW: 'bg-blue-100 text-blue-800 border-blue-200',
+  MEDIUM: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  HIGH: 'bg-red-100 text-red-800 border-red-200',
+};
+
+const ACTION_LABELS: Record<RiskFlagEvent['action'], string> = {
+  RAISED: 'raised',
+  ESCALATED: 'escalated',
+  DOWNGRADED: 'downgraded',
+  CLEARED: 'cleared',
+};
+
+export function RiskFlags({ studentId }: RiskFlagsProps) {
+  const { data, isLoading, error } = useStudentRiskFlags(studentId);
+  const [dialog, setDialog] = useState<RiskFlagDialogState>(null);
+
+  const openFlags = (data?.flags ?? []).filter(flag => !flag.clearedAt);
+  const events = data?.events ?? [];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Risk Flags</CardTitle>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setDialog({ action: 'raise' })}
+          disabled={isLoading || openFlags.length === Object.keys(RISK_FLAG_CATEGORY_LABELS).length}
+        >
+          <Flag className="w-4 h-4 mr-2" />
+          Raise Flag
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex items-center py-4">
+            <LoadingSpinner />
+            <span className="ml-2 text-sm text-gray-600">Loading risk flags...</span>
+          </div>
+        ) : error ? (
+          <div className="flex items-center gap-2 text-sm text-red-700">
+            <AlertTriangle className="w-4 h-4" />
+            Failed to load risk flags
+          </div>
+        ) : (
+          <>
+            {openFlags.length === 0 ? (
+              <p className="text-sm text-gray-500">No open risk flags.</p>
+            ) : (
+              <ul className="space-y-3">
+                {openFlags.map(flag => (
+                  <OpenFlag
+                    key={flag.id}
+                    flag={flag}
+                    onChange={() => setDialog({ action: 'change', flag })}
+                    onClear={() => setDialog({ action: 'clear', flag })}
+                  />
+                ))}
+              </ul>
+            )}
+
+            {events.length > 0 && (
+              <div>
+                <h4 className="text-sm font-semibold text-slate-600 mb-2">Timeline</h4>
+                <ol className="divide-y divide-gray-100 text-sm">
+                  {events.map(event => (
+                    <li key={event.id} className="py-2">
+                      <div className="flex justify-between gap-4">
+                        <span className="text-gray-900">{describeEvent(event)}</span>
+                        <span className="text-xs text-gray-500 whitespace-nowrap">
+                          {formatDateTime(event.createdAt)}
+                        </span>
+                      </div>
+                      {event.note && (
+                        <p className="mt-1 text-xs text-gray-600 whitespace-pre-line">
+                          {event.note}
+                        </p>
+                      )}
+                      {event.noteDecryptionFailed && (
+                        <p className="mt-1 text-xs text-red-700">The note could not be decrypted</p>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <RiskFlagDialog
+        studentId={studentId}
+        state={dialog}
+        openCategories={openFlags.map(flag => flag.category)}
+        onOpenChange={open => !open && setDialog(null)}
+      />
+    </Card>
+  );
+}
+
+function describeEvent(event: RiskFlagEvent): string {
+  const actor = event.actorName ?? 'A former user';
+  const category = RISK_FLAG_CATEGORY_LABELS[event.category];
+  const severity = RISK_FLAG_SEVERITY_LABELS[event.severity].toLowerCase();
+
+  if (event.action === 'CLEARED') {
+    return `${actor} cleared the ${category.toLowerCase()} flag`;
+  }
+  if (event.action === 'RAISED') {
+    return `${actor} raised a ${severity} ${category.toLowerCase()} flag`;
+  }
+  return `${actor} ${ACTION_LABELS[event.action]} the ${category.toLowerCase()} flag to ${severity}`;
+}
+
+interface OpenFlagProps {
+  flag: RiskFlag;
+  onChange: () => void;
+  onClear: () => void;
+}
+
+function OpenFlag({ flag, onChange, onClear }: OpenFlagProps) {
+  return (
+    <li className="rounded-lg border p-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-2">
+            <span className="font-medium text-gray-900">
+              {RISK_FLAG_CATEGORY_LABELS[flag.category]}
+            </span>
+            <span
+              className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium border ${SEVERITY_STYLES[flag.severity]}`}
+            >
+              {RISK_FLAG_SEVERITY_LABELS[flag.severity]}
+            </span>
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            Raised {formatDate(flag.raisedAt, 'short')}
+            {flag.raisedByName && ` by ${flag.raisedByName}`}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={onChange}>
+            Change
+          </Button>
+          <Button variant="ghost" size="sm" onClick={onClear}>
+            Clear
+          </Button>
+        </div>
+      </div>
+
+      {flag.safetyPlan && (
+        <dl className="mt-3 grid grid-cols-1 gap-3 sm:grid-cols-3 text-sm border-t pt-3">
+          <div>
+            <dt className="text-xs font-semibold text-slate-600">Warning signs</dt>
+            <dd className="text-gray-900 whitespace-pre-line">{flag.safetyPlan.warningSigns}</dd>
+          </div>
+          <div>
+            <dt className="text-xs font-semibold text-slate-600">Coping strategies</dt>
+            <dd className="text-gray-900 whitespace-pre-line">
+              {flag.safetyPlan.copingStrategies}
+            </dd>
+          </div>
+          <div>
+            <dt className="text-xs font-semibold text-slate-600">Support contacts</dt>
+            <dd className="text-gray-900 whitespace-pre-line">{flag.safetyPlan.supportContacts}</dd>
+          </div>
+          <p className="sm:col-span-3 text-xs text-gray-500">
+            Guardian {flag.safetyPlan.guardianNotified ? 'notified' : 'not yet notified'}
+            {flag.safetyPlan.reviewDate &&
+              `, review by ${formatDate(`${flag.safetyPlan.reviewDate}T00:00:00`, 'short')}`}
+          </p>
+        </dl>
+      )}
+      {flag.safetyPlanDecryptionFailed && (
+        <p className="mt-3 text-xs text-red-700">The safety plan could not be decrypted</p>
+      )}
+    </li>
+  );
+}
@@ -10,10 +10,23 @@ import {
 import { Button } from '@/components/ui/button';
 import { FormInput } from '@/components/common/FormInput';
 import { FormSelect } from '@/components/common/FormSelect';
+import { useAuth } from '@/contexts/AuthContext';
 import { useCreateStudent, useUpdateStudent } from '@/hooks/useStudents';
+import { useUsers } from '@/hooks/useUsers';
 import type { Student } from '@/types/student';
 import { Loader2 } from 'lucide-react';
 
+const EMPTY_FORM = {
+  studentId: '',
+  firstName: '',
+  lastName: '',
+  gradeLevel: '',
+  email: '',
+  phone: '',
+  primaryCounselorId: '',
+  secondaryCounselorId: '',
+};
+
 interface StudentFormModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -24,15 +37,19 @@ export function StudentFormModal({ open, onOpenChange, student }: StudentFormMod
   const createStudent = useCreateStudent();
   const updateStudent = useUpdateStudent();
   const isEditing = !!student;
+  const { user: currentUser } = useAuth();
+  const { data: users = [] } = useUsers();
+
+  // Only admins assign caseloads; keep an inactive counselor listed while still assigned
+  const canAssignCaseload = currentUser?.role === 'ADMIN';
+  const counselors = users.filter(
+    user =>
+      (user.isActive && user.role === 'COUNSELOR') ||
+      user.id === student?.primaryCounselorId ||
+      user.id === student?.secondaryCounselorId
+  );
 
-  const [formData, setFormData] = useState({
-    studentId: '',
-    firstName: '',
-    lastName: '',
-    gradeLevel: '',
-    email: '',
-    phone: '',
-  });
+  const [formData, setFormData] = useState(EMPTY_FORM);
 
   const [errors, setErrors] = useState<Record<string, string>>({});
 
@@ -46,16 +63,11 @@ export function StudentFormModal({ open, onOpenChange, student }: StudentFormMod
         gradeLevel: student.gradeLevel || '',
         email: student.email || '',
         phone: student.phone || '',
+        primaryCounselorId: student.primaryCounselorId || '',
+        secondaryCounselorId: student.secondaryCounselorId || '',
       });
     } else {
-      setFormData({
-        studentId: '',
-        firstName: '',
-        lastName: '',
-        gradeLevel: '',
-        email: '',
-        phone: '',
-      });
+      setFormData(EMPTY_FORM);
     }
     setErrors({});
   }, [student, open]);
@@ -83,6 +95,12 @@ export function StudentFormModal({ open, onOpenChange, student }: StudentFormMod
     if (!formData.gradeLevel) {
       newErrors.gradeLevel = 'Grade level is required';
     }
+    if (
+      formData.secondaryCounselorId &&
+      formData.secondaryCounselorId === formData.primaryCounselorId
+    ) {
+      newErrors.secondaryCounselorId = 'Choose a different counselor than the primary';
+    }
     if (formData.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.email)) {
       newErrors.email = 'Invalid email format';
     }
@@ -98,6 +116,13 @@ export function StudentFormModal({ open, onOpenChange, student }: StudentFormMod
       return;
     }
 
+    const caseloadFields = canAssignCaseload
+      ? {
+          primaryCounselorId: formData.primaryCounselorId || null,
+          secondaryCounselorId: formData.secondaryCounselorId || null,
+        }
+      : {};
+
     try {
       if (isEditing && student) {
         // Update existing student
@@ -109,6 +134,7 @@ export function StudentFormModal({ open, onOpenChange, student }: StudentFormMod
           gradeLevel: formData.gradeLevel,
           email: formData.email || undefined,
           phone: formData.phone || undefined,
+          ...caseloadFields,
         });
       } else {
         // Create new student
@@ -119,18 +145,12 @@ export function StudentFormModal({ open, onOpenChange, student }: StudentFormMod
           gradeLevel: formData.gradeLevel,
           email: formData.email || undefined,
           phone: formData.phone || undefined,
+          ...caseloadFields,
         });
       }
 
       // Reset form and close modal
-      setFormData({
-        studentId: '',
-        firstName: '',
-        lastName: '',
-        gradeLevel: '',
-        email: '',
-        phone: '',
-      });
+      setFormData(EMPTY_FORM);
       setErrors({});
       onOpenChange(false);
     } catch (error) {
@@ -139,14 +159,7 @@ export function StudentFormModal({ open, onOpenChange, student }: StudentFormMod
   };
 
   const handleCancel = () => {
-    setFormData({
-      studentId: '',
-      firstName: '',
-      lastName: '',
-      gradeLevel: '',
-      email: '',
-      phone: '',
-    });
+    setFormData(EMPTY_FORM);
     setErrors({});
     onOpenChange(false);
   };
@@ -227,6 +240,37 @@ export function StudentFormModal({ open, onOpenChange, student }: StudentFormMod
             error={errors.phone}
           />
 
+          {canAssignCaseload && (
+            <div className="grid grid-cols-2 gap-4">
+              <FormSelect
+                label="Primary Counselor"
+                value={formData.primaryCounselorId}
+                onChange={e => handleChange('primaryCounselorId', e.target.value)}
+              >
+                <option value="">Unassigned</option>
+                {counselors.map(counselor => (
+                  <option key={counselor.id} value={counselor.id}>
+                    {counselor.firstName} {counselor.lastName}
+                  </option>
+                ))}
+              </FormSelect>
+
+              <FormSelect
+                label="Secondary Counselor"
+                value={formData.secondaryCounselorId}
+                onChange={e => handleChange('secondaryCounselorId', e.target.value)}
+                error={errors.secondaryCounselorId}
+              >
+                <option value="">None</option>
+                {counselors.map(counselor => (
+                  <option key={counselor.id} value={counselor.id}>
+                    {counselor.firstName} {counselor.lastName}
+                  </option>
+                ))}
+              </FormSelect>
+            </div>
+          )}
+
           <DialogFooter>
             <Button type="button" variant="outline" onClick={handleCancel} disabled={isPending}>
               Cancel
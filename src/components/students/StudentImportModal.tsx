@@ -0,0 +1,361 @@
+import { useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { FormSelect } from '@/components/common/FormSelect';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useImportStudents } from '@/hooks/useStudents';
+import {
+  STUDENT_IMPORT_FIELDS,
+  parseCsv,
+  autoMapColumns,
+  buildStudentImportPlan,
+} from '@/services/studentImportService';
+import { cn } from '@/lib/utils';
+import type {
+  Student,
+  StudentImportAction,
+  StudentImportColumnMapping,
+  StudentImportPlan,
+} from '@/types/student';
+import { FileUp, Loader2 } from 'lucide-react';
+
+interface StudentImportModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  existingStudents: Student[];
+  onImported?: () => void;
+}
+
+type ImportStep = 'upload' | 'map' | 'review';
+
+const ACTION_LABELS: Record<StudentImportAction, string> = {
+  create: 'Create',
+  update: 'Update',
+  skip: 'Skip',
+  error: 'Error',
+};
+
+const ACTION_STYLES: Record<StudentImportAction, string> = {
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  skip: 'bg-gray-100 text-gray-700',
+  error: 'bg-red-100 text-red-800',
+};
+
+export function StudentImportModal({
+  open,
+  onOpenChange,
+  existingStudents,
+  onImported,
+}: StudentImportModalProps) {
+  const importStudents = useImportStudents();
+
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [fileError, setFileError] = useState<string | undefined>();
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<StudentImportColumnMapping>({});
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const missingRequiredFields = STUDENT_IMPORT_FIELDS.filter(
+    ({ field, required }) => required && mapping[field] === undefined
+  );
+
+  const plan: StudentImportPlan | null = useMemo(
+    () => (step === 'review' ? buildStudentImportPlan(dataRows, mapping, existingStudents) : null),
+    [step, dataRows, mapping, existingStudents]
+  );
+
+  const visibleRows = plan ? plan.rows.filter(row => showUnchanged || row.action !== 'skip') : [];
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setFileError(undefined);
+    setHeaders([]);
+    setDataRows([]);
+    setMapping({});
+    setShowUnchanged(false);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    setFileError(undefined);
+
+    try {
+      const rows = parseCsv(await file.text());
+      if (rows.length < 2) {
+        setFileError('The file must contain a header row and at least one student');
+        return;
+      }
+
+      setHeaders(rows[0].map(header => header.trim()));
+      setDataRows(rows.slice(1));
+      setMapping(autoMapColumns(rows[0]));
+      setStep('map');
+    } catch (error) {
+      console.error('Error reading CSV file:', error);
+      setFileError('Could not read the file. Make sure it is a CSV file.');
+    }
+  };
+
+  const handleMappingChange = (field: keyof StudentImportColumnMapping, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === '') {
+        delete next[field];
+      } else {
+        next[field] = Number(value);
+      }
+      return next;
+    });
+  };
+
+  const handleCommit = async () => {
+    if (!plan) return;
+
+    try {
+      await importStudents.mutateAsync(plan);
+      onImported?.();
+      handleOpenChange(false);
+    } catch (error) {
+      console.error('Error importing students:', error);
+    }
+  };
+
+  const columnOptions = headers.map((header, index) => ({
+    value: String(index),
+    label: header || `Column ${index + 1}`,
+  }));
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import Students from CSV</DialogTitle>
+          <DialogDescription>
+            {step === 'upload' &&
+              'Upload a CSV roster with a header row. Existing students are matched by Student ID.'}
+            {step === 'map' &&
+              `Match the columns in ${fileName} to student fields. Fields marked with * are required.`}
+            {step === 'review' &&
+              'Review the changes below. Nothing is saved until you confirm the import.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-2">
+            <label
+              htmlFor="student-import-file"
+              className="flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed border-gray-300 p-8 text-sm text-gray-600 cursor-pointer hover:border-primary hover:bg-primary/5"
+            >
+              <FileUp className="w-8 h-8 text-gray-400" />
+              <span>Choose a .csv file</span>
+            </label>
+            <input
+              id="student-import-file"
+              type="file"
+              accept=".csv,text/csv"
+              className="sr-only"
+              onChange={handleFileChange}
+            />
+            {fileError && <p className="text-sm text-destructive">{fileError}</p>}
+          </div>
+        )}
+
+        {step === 'map' && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {STUDENT_IMPORT_FIELDS.map(({ field, label, required }) => (
+              <FormSelect
+                key={field}
+                id={`import-column-${field}`}
+                label={required ? `${label} *` : label}
+                value={mapping[field] === undefined ? '' : String(mapping[field])}
+                onChange={e => handleMappingChange(field, e.target.value)}
+                options={columnOptions}
+                helperText={required ? undefined : 'Blank cells keep the existing value'}
+              />
+            ))}
+          </div>
+        )}
+
+        {step === 'review' && plan && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2 text-sm">
+              <span className={cn('rounded-full px-3 py-1', ACTION_STYLES.create)}>
+                {plan.createCount} to create
+              </span>
+              <span className={cn('rounded-full px-3 py-1', ACTION_STYLES.update)}>
+                {plan.updateCount} to update
+              </span>
+              <span className={cn('rounded-full px-3 py-1', ACTION_STYLES.skip)}>
+                {plan.skipCount} unchanged
+              </span>
+              <span className={cn('rounded-full px-3 py-1', ACTION_STYLES.error)}>
+                {plan.errorCount} with errors
+              </span>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={showUnchanged}
+                onChange={e => setShowUnchanged(e.target.checked)}
+              />
+              Show unchanged rows
+            </label>
+
+            <div className="max-h-80 overflow-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>Student</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Details</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleRows.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center text-gray-500">
+                        No changes to show
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    visibleRows.map(row => (
+                      <TableRow key={row.rowNumber}>
+                        <TableCell>{row.rowNumber}</TableCell>
+                        <TableCell>
+                          <p className="font-medium">{row.studentId || '—'}</p>
+                          <p className="text-xs text-gray-500">
+                            {row.values.firstName ?? row.existingStudent?.firstName}{' '}
+                            {row.values.lastName ?? row.existingStudent?.lastName}
+                          </p>
+                        </TableCell>
+                        <TableCell>
+                          <span
+                            className={cn(
+                              'rounded-full px-2 py-0.5 text-xs font-medium',
+                              ACTION_STYLES[row.action]
+                            )}
+                          >
+                            {ACTION_LABELS[row.action]}
+                          </span>
+                        </TableCell>
+                        <TableCell className="text-xs">
+                          {row.action === 'error' &&
+                            row.errors.map(error => (
+                              <p key={error} className="text-destructive">
+                                {error}
+                              </p>
+                            ))}
+                          {row.action === 'update' &&
+                            row.changes.map(change => (
+                              <p key={change.field}>
+                                <span className="font-medium">
+                                  {STUDENT_IMPORT_FIELDS.find(f => f.field === change.field)?.label}
+                                  :
+                                </span>{' '}
+                                <span className="text-gray-500 line-through">
+                                  {change.from || 'empty'}
+                                </span>{' '}
+                                → {change.to}
+                              </p>
+                            ))}
+                          {row.action === 'create' && (
+                            <p className="text-gray-500">
+                              {row.values.gradeLevel}
+                              {row.values.email ? ` • ${row.values.email}` : ''}
+                            </p>
+                          )}
+                          {row.action === 'skip' && (
+                            <p className="text-gray-500">Already up to date</p>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+
+            {plan.errorCount > 0 && (
+              <p className="text-sm text-gray-600">
+                Rows with errors will be skipped. Fix them in the file and import again to include
+                them.
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'upload' && (
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+              Cancel
+            </Button>
+          )}
+
+          {step === 'map' && (
+            <>
+              <Button type="button" variant="outline" onClick={reset}>
+                Back
+              </Button>
+              <Button
+                type="button"
+                onClick={() => setStep('review')}
+                disabled={missingRequiredFields.length > 0}
+              >
+                Preview Changes
+              </Button>
+            </>
+          )}
+
+          {step === 'review' && plan && (
+            <>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setStep('map')}
+                disabled={importStudents.isPending}
+              >
+                Back
+              </Button>
+              <Button
+                type="button"
+                onClick={handleCommit}
+                disabled={importStudents.isPending || plan.createCount + plan.updateCount === 0}
+              >
+                {importStudents.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Import {plan.createCount + plan.updateCount} Students
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -11,6 +11,9 @@ import {
 import { Button } from '@/components/ui/button';
 import type { Student } from '@/types/student';
 import type { Interaction } from '@/types/interaction';
+import { isArchivedStudent } from '@/utils/gradeHelpers';
+import { isOnCaseload } from '@/services/caseloadService';
+import { useAuth } from '@/contexts/AuthContext';
 
 interface StudentListProps {
   students: Student[];
@@ -29,14 +32,35 @@ export function StudentList({
   onEditStudent,
 }: StudentListProps) {
   const navigate = useNavigate();
+  const { user: currentUser } = useAuth();
   const [sortField, setSortField] = useState<SortField>('name');
   const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
   const [currentPage, setCurrentPage] = useState(1);
+  const [showArchived, setShowArchived] = useState(false);
+  const [showMyCaseload, setShowMyCaseload] = useState(false);
   const itemsPerPage = 20;
 
-  // Calculate interaction stats for each student
+  const archivedCount = useMemo(() => students.filter(isArchivedStudent).length, [students]);
+
+  const caseloadCount = useMemo(
+    () =>
+      currentUser
+        ? students.filter(
+            student => !isArchivedStudent(student) && isOnCaseload(student, currentUser.id)
+          ).length
+        : 0,
+    [students, currentUser]
+  );
+
+  // Calculate interaction stats for each student (archived students are hidden by default)
   const studentsWithStats = useMemo(() => {
-    return students.map(student => {
+    const visibleStudents = students.filter(
+      student =>
+        (showArchived || !isArchivedStudent(student)) &&
+        (!showMyCaseload || (currentUser && isOnCaseload(student, currentUser.id)))
+    );
+
+    return visibleStudents.map(student => {
       const studentInteractions = interactions.filter(
         interaction => interaction.studentId === student.id
       );
@@ -59,7 +83,7 @@ export function StudentList({
         followUpCount,
       };
     });
-  }, [students, interactions]);
+  }, [students, interactions, showArchived, showMyCaseload, currentUser]);
 
   // Sort students
   const sortedStudents = useMemo(() => {
@@ -144,6 +168,37 @@ export function StudentList({
 
   return (
     <div className="space-y-4">
+      {(caseloadCount > 0 || archivedCount > 0) && (
+        <div className="flex flex-wrap items-center gap-6">
+          {caseloadCount > 0 && (
+            <label className="flex items-center gap-2 text-sm text-muted-foreground">
+              <input
+                type="checkbox"
+                checked={showMyCaseload}
+                onChange={e => {
+                  setShowMyCaseload(e.target.checked);
+                  setCurrentPage(1);
+                }}
+              />
+              My caseload ({caseloadCount})
+            </label>
+          )}
+          {archivedCount > 0 && (
+            <label className="flex items-center gap-2 text-sm text-muted-foreground">
+              <input
+                type="checkbox"
+                checked={showArchived}
+                onChange={e => {
+                  setShowArchived(e.target.checked);
+                  setCurrentPage(1);
+                }}
+              />
+              Show archived students ({archivedCount})
+            </label>
+          )}
+        </div>
+      )}
+
       <div className="rounded-md border overflow-x-auto">
         <Table>
           <TableHeader>
@@ -206,7 +261,14 @@ export function StudentList({
                   <TableCell>
                     {student.lastName}, {student.firstName}
                   </TableCell>
-                  <TableCell>{student.gradeLevel}</TableCell>
+                  <TableCell>
+                    {student.gradeLevel}
+                    {isArchivedStudent(student) && (
+                      <span className="ml-2 inline-flex items-center rounded-full bg-gray-100 px-2.5 py-0.5 text-xs font-medium text-gray-800">
+                        Archived
+                      </span>
+                    )}
+                  </TableCell>
                   <TableCell>{student.interactionCount || 0}</TableCell>
                   <TableCell>{formatTime(student.totalTimeSpent || 0)}</TableCell>
                   <TableCell>
@@ -1,6 +1,8 @@
 import type { Student } from '@/types/student';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { StudentContactLinks } from '@/components/contacts/StudentContactLinks';
+import { RiskFlags } from './RiskFlags';
 
 interface StudentProfileProps {
   student: Student;
@@ -73,6 +75,9 @@ export function StudentProfile({ student, onAddInteraction }: StudentProfileProp
         </Card>
       )}
 
+      {/* Risk Flags */}
+      <RiskFlags studentId={student.id} />
+
       {/* Basic Information */}
       <Card>
         <CardHeader>
@@ -124,6 +129,13 @@ export function StudentProfile({ student, onAddInteraction }: StudentProfileProp
         </CardContent>
       </Card>
 
+      {/* Contacts */}
+      <Card>
+        <CardContent className="pt-6">
+          <StudentContactLinks studentId={student.id} />
+        </CardContent>
+      </Card>
+
       {/* Interaction Statistics */}
       <Card>
         <CardHeader>
@@ -3,3 +3,8 @@ export { StudentProfile } from './StudentProfile';
 export { InteractionHistory } from './InteractionHistory';
 export { StudentSearch } from './StudentSearch';
 export { StudentFormModal } from './StudentFormModal';
+export { StudentImportModal } from './StudentImportModal';
+export { RiskFlags } from './RiskFlags';
+export { RiskFlagDialog } from './RiskFlagDialog';
+export { CounselingPlan } from './CounselingPlan';
+export { GoalFormDialog, GoalCheckInDialog } from './GoalDialogs';
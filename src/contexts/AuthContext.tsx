@@ -1,6 +1,7 @@
 /* eslint-disable react-refresh/only-export-components */
-import React, { createContext, useContext, useEffect, useState, useCallback } from 'react';
+import React, { createContext, useContext, useEffect, useState, useCallback, useRef } from 'react';
 import type { User } from '../types/user';
+import type { HostTenant, LandingPage, TenantBranding } from '../types/tenant';
 import {
   signIn as authSignIn,
   signOut as authSignOut,
@@ -9,6 +10,14 @@ import {
   type LoginCredentials,
   type AuthResponse,
 } from '../services/auth';
+import {
+  fetchHostTenant,
+  fetchTenantBranding,
+  getHostSubdomain,
+  hexToHslComponents,
+} from '../services/tenantService';
+import { setDateFormat } from '../utils/dateHelpers';
+import { logTenantMismatch } from '../services/securityEventService';
 import type { AuthError } from '../services/supabase';
 
 interface AuthContextType {
@@ -16,14 +25,74 @@ interface AuthContextType {
   isLoading: boolean;
   isAuthenticated: boolean;
   error: AuthError | null;
+  /** Tenant served on this hostname; null on the bare domain */
+  hostTenant: HostTenant | null;
+  /** The hostname names a subdomain no tenant uses */
+  isUnknownHost: boolean;
+  /** The signed-in user's tenant branding, loaded once at sign-in */
+  branding: TenantBranding | null;
+  /** Where to send users who go to / or have just signed in */
+  landingPage: LandingPage | '/district';
   login: (credentials: LoginCredentials) => Promise<AuthResponse>;
   logout: () => Promise<void>;
   refreshUser: () => Promise<void>;
+  refreshBranding: () => Promise<void>;
   clearError: () => void;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+const hostSubdomain = getHostSubdomain();
+
+function createAuthError(message: string, code = 'AUTH_ERROR', status = 500): AuthError {
+  return {
+    message,
+    name: 'AuthError',
+    status,
+    code,
+    __isAuthError: true,
+  } as unknown as AuthError;
+}
+
+/**
+ * Sign out a user who does not belong to the tenant served on this hostname
+ * and record the attempt; returns the error to show, or null when they belong
+ */
+async function rejectOtherTenantUser(
+  user: User,
+  hostTenant: HostTenant | null
+): Promise<AuthError | null> {
+  if (!hostTenant || user.tenantId === hostTenant.id) {
+    return null;
+  }
+
+  await logTenantMismatch(hostTenant.id, user.email, {
+    subdomain: hostTenant.subdomain,
+    userTenantId: user.tenantId,
+  });
+  await authSignOut();
+
+  return createAuthError(
+    `This account does not belong to ${hostTenant.name}. Sign in at your school's address.`,
+    'TENANT_MISMATCH',
+    403
+  );
+}
+
+/**
+ * Load the signed-in user's tenant branding and apply its date format; null
+ * when it can't be loaded, leaving the app defaults
+ */
+async function loadBranding(): Promise<TenantBranding | null> {
+  const { data, error } = await fetchTenantBranding();
+
+  if (error) {
+    console.error('Error loading branding:', error);
+  }
+  setDateFormat(data?.dateFormat ?? 'MM/DD/YYYY');
+  return data;
+}
+
 interface AuthProviderProps {
   children: React.ReactNode;
 }
@@ -32,8 +101,27 @@ export function AuthProvider({ children }: AuthProviderProps) {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<AuthError | null>(null);
+  const [hostTenant, setHostTenant] = useState<HostTenant | null>(null);
+  const [isUnknownHost, setIsUnknownHost] = useState(false);
+  const [branding, setBranding] = useState<TenantBranding | null>(null);
+  // Tenant whose branding is loaded or loading
+  const brandingTenantRef = useRef<string | null>(null);
+  // Read by the auth state subscription, which outlives any one render
+  const hostTenantRef = useRef<HostTenant | null>(null);
 
   const isAuthenticated = user !== null;
+  // District admins start from the district overview
+  const landingPage =
+    user?.role === 'DISTRICT_ADMIN' ? '/district' : (branding?.defaultLandingPage ?? '/dashboard');
+  // Before sign-in the login page takes the color of the school on this host
+  const primaryColor = user ? branding?.primaryColor : hostTenant?.primaryColor;
+
+  // Branding loads once per signed-in tenant, however the user signed in
+  const ensureBranding = useCallback(async (tenantId: string) => {
+    if (brandingTenantRef.current === tenantId) return;
+    brandingTenantRef.current = tenantId;
+    setBranding(await loadBranding());
+  }, []);
 
   // Initialize auth state on mount
   useEffect(() => {
@@ -41,11 +129,30 @@ export function AuthProvider({ children }: AuthProviderProps) {
 
     async function initAuth() {
       try {
+        let tenant: HostTenant | null = null;
+        if (hostSubdomain) {
+          const { data, error: tenantError } = await fetchHostTenant(hostSubdomain);
+          if (tenantError) {
+            console.error('Error resolving tenant:', tenantError);
+          }
+          tenant = data;
+          hostTenantRef.current = tenant;
+          if (mounted) {
+            setHostTenant(tenant);
+            setIsUnknownHost(!tenant && !tenantError);
+          }
+        }
+
         const { user: currentUser, error: authError } = await getCurrentUser();
+        const tenantError = currentUser ? await rejectOtherTenantUser(currentUser, tenant) : null;
+
+        if (currentUser && !tenantError) {
+          await ensureBranding(currentUser.tenantId);
+        }
 
         if (mounted) {
-          if (authError) {
-            setError(authError);
+          if (authError || tenantError) {
+            setError(authError || tenantError);
             setUser(null);
           } else {
             setUser(currentUser);
@@ -68,51 +175,85 @@ export function AuthProvider({ children }: AuthProviderProps) {
     return () => {
       mounted = false;
     };
-  }, []);
+  }, [ensureBranding]);
+
+  // Theme colors are CSS variables, so the tenant's color restyles the app
+  useEffect(() => {
+    const hsl = primaryColor ? hexToHslComponents(primaryColor) : null;
+    const root = document.documentElement;
+
+    if (hsl) {
+      root.style.setProperty('--primary', hsl);
+      root.style.setProperty('--ring', hsl);
+    } else {
+      root.style.removeProperty('--primary');
+      root.style.removeProperty('--ring');
+    }
+  }, [primaryColor]);
 
   // Subscribe to auth state changes
   useEffect(() => {
     const subscription = onAuthStateChange(newUser => {
+      // login() signs these users out again; don't let them in meanwhile
+      const hostTenant = hostTenantRef.current;
+      if (newUser && hostTenant && newUser.tenantId !== hostTenant.id) {
+        return;
+      }
+
       setUser(newUser);
       if (newUser) {
         setError(null);
+        void ensureBranding(newUser.tenantId);
       }
     });
 
     return () => {
       subscription.unsubscribe();
     };
-  }, []);
+  }, [ensureBranding]);
 
-  const login = useCallback(async (credentials: LoginCredentials): Promise<AuthResponse> => {
-    setIsLoading(true);
-    setError(null);
+  const login = useCallback(
+    async (credentials: LoginCredentials): Promise<AuthResponse> => {
+      setIsLoading(true);
+      setError(null);
 
-    try {
-      const response = await authSignIn(credentials);
+      try {
+        if (hostSubdomain && !hostTenantRef.current) {
+          const authError = createAuthError(
+            'No school is set up at this address.',
+            'AUTH_ERROR',
+            404
+          );
+          setError(authError);
+          return { user: null, error: authError };
+        }
 
-      if (response.error) {
-        setError(response.error);
-        setUser(null);
-      } else {
+        const response = await authSignIn(credentials);
+        const tenantError = response.user
+          ? await rejectOtherTenantUser(response.user, hostTenantRef.current)
+          : null;
+
+        if (response.error || tenantError) {
+          setError(response.error || tenantError);
+          setUser(null);
+          return { user: null, error: response.error || tenantError };
+        }
+
+        if (response.user) {
+          await ensureBranding(response.user.tenantId);
+        }
         setUser(response.user);
+        return response;
+      } catch (err) {
+        const authError = createAuthError(err instanceof Error ? err.message : 'Login failed');
+        setError(authError);
+        return { user: null, error: authError };
+      } finally {
+        setIsLoading(false);
       }
-
-      return response;
-    } catch (err) {
-      const authError = {
-        message: err instanceof Error ? err.message : 'Login failed',
-        name: 'AuthError',
-        status: 500,
-        code: 'AUTH_ERROR',
-        __isAuthError: true,
-      } as unknown as AuthError;
-      setError(authError);
-      return { user: null, error: authError };
-    } finally {
-      setIsLoading(false);
-    }
-  }, []);
+    },
+    [ensureBranding]
+  );
 
   const logout = useCallback(async () => {
     setIsLoading(true);
@@ -125,16 +266,13 @@ export function AuthProvider({ children }: AuthProviderProps) {
         setError(signOutError);
       } else {
         setUser(null);
+        brandingTenantRef.current = null;
+        setBranding(null);
+        setDateFormat('MM/DD/YYYY');
       }
     } catch (err) {
       console.error('Error during logout:', err);
-      setError({
-        message: err instanceof Error ? err.message : 'Logout failed',
-        name: 'AuthError',
-        status: 500,
-        code: 'AUTH_ERROR',
-        __isAuthError: true,
-      } as unknown as AuthError);
+      setError(createAuthError(err instanceof Error ? err.message : 'Logout failed'));
     } finally {
       setIsLoading(false);
     }
@@ -152,16 +290,14 @@ export function AuthProvider({ children }: AuthProviderProps) {
       }
     } catch (err) {
       console.error('Error refreshing user:', err);
-      setError({
-        message: err instanceof Error ? err.message : 'Failed to refresh user',
-        name: 'AuthError',
-        status: 500,
-        code: 'AUTH_ERROR',
-        __isAuthError: true,
-      } as unknown as AuthError);
+      setError(createAuthError(err instanceof Error ? err.message : 'Failed to refresh user'));
     }
   }, []);
 
+  const refreshBranding = useCallback(async () => {
+    setBranding(await loadBranding());
+  }, []);
+
   const clearError = useCallback(() => {
     setError(null);
   }, []);
@@ -171,9 +307,14 @@ export function AuthProvider({ children }: AuthProviderProps) {
     isLoading,
     isAuthenticated,
     error,
+    hostTenant,
+    isUnknownHost,
+    branding,
+    landingPage,
     login,
     logout,
     refreshUser,
+    refreshBranding,
     clearError,
   };
 
@@ -5,6 +5,8 @@ export {
   useCreateStudent,
   useUpdateStudent,
   useDeleteStudent,
+  useImportStudents,
+  usePromoteGrades,
 } from './useStudents';
 
 export {
@@ -18,6 +20,9 @@ export {
 export {
   useInteractionsQuery,
   useInteractionQuery,
+  useInteractionPages,
+  useRecentInteractions,
+  usePendingFollowUpInteractions,
   useCreateInteraction,
   useUpdateInteraction,
   useDeleteInteraction,
@@ -36,6 +41,102 @@ export {
   useDeleteSubcategory,
 } from './useReasonCategories';
 
+export {
+  useAppointments,
+  useCreateAppointment,
+  useUpdateAppointment,
+  useCancelAppointment,
+  useMarkAppointmentHeld,
+} from './useAppointments';
+
+export { useSavedReports, useCreateSavedReport, useDeleteSavedReport } from './useSavedReports';
+export { useReportAggregates } from './useReportAggregates';
+
+export { useGlobalSearch } from './useGlobalSearch';
+
+export {
+  useCalendarFeed,
+  useRegenerateCalendarFeed,
+  useUpdateCalendarFeed,
+  useDeleteCalendarFeed,
+} from './useCalendarFeed';
+
+export { useNoteEncryptionStatus, useRotateNoteEncryptionKey } from './useNoteEncryption';
+
+export { useAuditLog } from './useAuditLog';
+
+export { useUsers } from './useUsers';
+
+export { useEmailDeliveries } from './useEmailDeliveries';
+
+export {
+  useEmailTemplates,
+  useSaveEmailTemplate,
+  useResetEmailTemplate,
+} from './useEmailTemplates';
+
+export {
+  useFollowUpTasks,
+  useFollowUpTask,
+  useFollowUpTaskHistory,
+  useOpenFollowUpTaskCount,
+  useReassignFollowUpTask,
+  useReassignAllFollowUpTasks,
+} from './useFollowUpTasks';
+
+export { useCaseloadSizes, useAssignCaseload } from './useCaseloads';
+
+export {
+  useStudentRiskFlags,
+  useRaiseRiskFlag,
+  useChangeRiskFlagSeverity,
+  useClearRiskFlag,
+} from './useRiskFlags';
+
+export {
+  useStudentGoals,
+  useCreateGoal,
+  useUpdateGoal,
+  useRecordGoalCheckIn,
+  useLinkGoalInteraction,
+  useUnlinkGoalInteraction,
+} from './useGoals';
+
+export { useDuplicateDismissals, useDismissDuplicate, useMergeStudents } from './useStudentMerges';
+export {
+  useStudentContactLinks,
+  useContactStudentLinks,
+  useCreateStudentContactLink,
+  useUpdateStudentContactLink,
+  useDeleteStudentContactLink,
+} from './useStudentContacts';
+
+export {
+  useFollowUpDigestPreferences,
+  useSaveFollowUpDigestPreferences,
+  useUpdateDigestSurnameSetting,
+} from './useFollowUpDigest';
+
+export { useUpdateTenantBranding, useUploadTenantLogo } from './useTenantBranding';
+
+export {
+  useDistrict,
+  useDistrictReportAggregates,
+  useDistrictReasonTemplates,
+  useCreateDistrictReasonCategory,
+  useUpdateDistrictReasonCategory,
+  useDeleteDistrictReasonCategory,
+  useCreateDistrictReasonSubcategory,
+  useDeleteDistrictReasonSubcategory,
+  usePushDistrictReasonTemplates,
+} from './useDistrict';
+
+export {
+  useNotifications,
+  useMarkNotificationRead,
+  useMarkAllNotificationsRead,
+} from './useNotifications';
+
 // Token cleanup hooks
 export { useTokenCleanup, useCleanupStats } from './useTokenCleanup';
 export { useTokenPersistence, useTokenValidationCache } from './useTokenPersistence';
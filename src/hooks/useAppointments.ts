@@ -0,0 +1,179 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  fetchAppointments,
+  createAppointmentSeries,
+  updateAppointment,
+  cancelAppointment,
+  markAppointmentHeld,
+} from '@/services/appointmentService';
+import { toast } from '@/utils/toast';
+import { handleApiError } from '@/utils/errorHandling';
+import { queryKeys } from '@/lib/queryClient';
+import type { Appointment, AppointmentEditScope, AppointmentFormData } from '@/types/appointment';
+import type { Interaction, InteractionFormData } from '@/types/interaction';
+
+// Fetch all appointments
+async function fetchAll(): Promise<Appointment[]> {
+  const { data, error } = await fetchAppointments();
+
+  if (error) throw error;
+  return data || [];
+}
+
+// Create appointment series
+async function createSeries(data: AppointmentFormData): Promise<Appointment[]> {
+  const { data: appointments, error } = await createAppointmentSeries(data);
+
+  if (error) throw error;
+  return appointments || [];
+}
+
+// Update appointment occurrence or series
+interface UpdateAppointmentData {
+  appointment: Appointment;
+  data: AppointmentFormData;
+  scope: AppointmentEditScope;
+}
+
+async function update({ appointment, data, scope }: UpdateAppointmentData): Promise<void> {
+  const { error } = await updateAppointment(appointment, data, scope);
+
+  if (error) throw error;
+}
+
+// Cancel appointment occurrence or series
+interface CancelAppointmentData {
+  appointment: Appointment;
+  scope: AppointmentEditScope;
+}
+
+async function cancel({ appointment, scope }: CancelAppointmentData): Promise<void> {
+  const { error } = await cancelAppointment(appointment, scope);
+
+  if (error) throw error;
+}
+
+// Log appointment as a held interaction
+interface MarkHeldData {
+  appointmentId: string;
+  interaction: InteractionFormData;
+}
+
+async function markHeld({ appointmentId, interaction }: MarkHeldData): Promise<Interaction> {
+  const { data, error } = await markAppointmentHeld(appointmentId, interaction);
+
+  if (error) throw error;
+  if (!data) throw new Error('Failed to log interaction');
+  return data;
+}
+
+/**
+ * Hook to fetch scheduled, held and cancelled appointments
+ * @returns {UseQueryResult<Appointment[]>} React Query result with appointments
+ * @example
+ * const { data: appointments = [] } = useAppointments();
+ */
+export function useAppointments() {
+  return useQuery({
+    queryKey: queryKeys.appointments,
+    queryFn: fetchAll,
+  });
+}
+
+/**
+ * Hook to schedule a one-off or recurring appointment
+ * @returns {UseMutationResult} React Query mutation with mutate function
+ * @example
+ * const createAppointment = useCreateAppointment();
+ * createAppointment.mutate({ ...formData, frequency: 'WEEKLY', occurrenceCount: 10 });
+ */
+export function useCreateAppointment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: createSeries,
+    onSuccess: appointments => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.appointments });
+      toast.success(
+        appointments.length > 1
+          ? `${appointments.length} appointments scheduled`
+          : 'Appointment scheduled'
+      );
+    },
+    onError: error => {
+      const apiError = handleApiError(error, { customMessage: 'Failed to schedule appointment' });
+      toast.error(apiError.message);
+    },
+  });
+}
+
+/**
+ * Hook to update a single occurrence or every upcoming occurrence of a series
+ * @returns {UseMutationResult} React Query mutation with mutate function
+ * @example
+ * const updateAppointment = useUpdateAppointment();
+ * updateAppointment.mutate({ appointment, data: formData, scope: 'series' });
+ */
+export function useUpdateAppointment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: update,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.appointments });
+      toast.success('Appointment updated successfully');
+    },
+    onError: error => {
+      const apiError = handleApiError(error, { customMessage: 'Failed to update appointment' });
+      toast.error(apiError.message);
+    },
+  });
+}
+
+/**
+ * Hook to cancel a single occurrence or the rest of a series
+ * @returns {UseMutationResult} React Query mutation with mutate function
+ * @example
+ * const cancelAppointment = useCancelAppointment();
+ * cancelAppointment.mutate({ appointment, scope: 'occurrence' });
+ */
+export function useCancelAppointment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: cancel,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.appointments });
+      toast.success('Appointment cancelled');
+    },
+    onError: error => {
+      const apiError = handleApiError(error, { customMessage: 'Failed to cancel appointment' });
+      toast.error(apiError.message);
+    },
+  });
+}
+
+/**
+ * Hook to mark an appointment as held, logging it as an interaction
+ * @returns {UseMutationResult} React Query mutation with mutate function
+ * @example
+ * const markHeld = useMarkAppointmentHeld();
+ * markHeld.mutate({ appointmentId: appointment.id, interaction: formData });
+ */
+export function useMarkAppointmentHeld() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: markHeld,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.appointments });
+      queryClient.invalidateQueries({ queryKey: queryKeys.interactions });
+      queryClient.invalidateQueries({ queryKey: queryKeys.followUps });
+      toast.success('Appointment logged as an interaction');
+    },
+    onError: error => {
+      const apiError = handleApiError(error, { customMessage: 'Failed to log appointment' });
+      toast.error(apiError.message);
+    },
+  });
+}
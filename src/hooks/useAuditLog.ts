@@ -0,0 +1,26 @@
+import { useQuery } from '@tanstack/react-query';
+import { fetchAuditLog } from '@/services/auditLogService';
+import { queryKeys } from '@/lib/queryClient';
+import type { AuditLogEntry, AuditLogFilters } from '@/types/audit';
+
+// Fetch audit log entries matching the filters
+async function fetchEntries(filters: AuditLogFilters): Promise<AuditLogEntry[]> {
+  const { data, error } = await fetchAuditLog(filters);
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Hook to fetch the most recent audit log entries matching the filters (admins only)
+ * @param {AuditLogFilters} filters - User, student and date range filters
+ * @returns {UseQueryResult<AuditLogEntry[]>} React Query result with audit entries, newest first
+ * @example
+ * const { data: entries = [] } = useAuditLog({ studentId, startDate: '2024-09-01' });
+ */
+export function useAuditLog(filters: AuditLogFilters) {
+  return useQuery({
+    queryKey: queryKeys.auditLog(filters),
+    queryFn: () => fetchEntries(filters),
+  });
+}
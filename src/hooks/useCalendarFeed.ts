@@ -0,0 +1,134 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  fetchCalendarFeed,
+  regenerateCalendarFeed,
+  updateCalendarFeedRedaction,
+  deleteCalendarFeed,
+} from '@/services/calendarFeedService';
+import { toast } from '@/utils/toast';
+import { handleApiError } from '@/utils/errorHandling';
+import { queryKeys } from '@/lib/queryClient';
+import type { CalendarFeed } from '@/types/calendarFeed';
+
+// Fetch the current user's calendar feed
+async function fetchFeed(): Promise<CalendarFeed | null> {
+  const { data, error } = await fetchCalendarFeed();
+
+  if (error) throw error;
+  return data;
+}
+
+// Create feed or issue a new token
+async function regenerate(redactStudentNames: boolean): Promise<CalendarFeed> {
+  const { data, error } = await regenerateCalendarFeed(redactStudentNames);
+
+  if (error) throw error;
+  if (!data) throw new Error('Failed to create calendar feed');
+  return data;
+}
+
+// Update feed name redaction
+interface UpdateRedactionData {
+  id: string;
+  redactStudentNames: boolean;
+}
+
+async function updateRedaction({
+  id,
+  redactStudentNames,
+}: UpdateRedactionData): Promise<CalendarFeed> {
+  const { data, error } = await updateCalendarFeedRedaction(id, redactStudentNames);
+
+  if (error) throw error;
+  if (!data) throw new Error('Failed to update calendar feed');
+  return data;
+}
+
+// Delete feed
+async function remove(id: string): Promise<void> {
+  const { error } = await deleteCalendarFeed(id);
+
+  if (error) throw error;
+}
+
+/**
+ * Hook to fetch the current user's calendar subscription feed
+ * @returns {UseQueryResult<CalendarFeed | null>} React Query result with the feed, or null if none exists
+ * @example
+ * const { data: feed } = useCalendarFeed();
+ * const url = feed?.url;
+ */
+export function useCalendarFeed() {
+  return useQuery({
+    queryKey: queryKeys.calendarFeed,
+    queryFn: fetchFeed,
+  });
+}
+
+/**
+ * Hook to create the calendar feed or replace its token (revoking the old URL)
+ * @returns {UseMutationResult} React Query mutation with mutate function
+ * @example
+ * const regenerateFeed = useRegenerateCalendarFeed();
+ * regenerateFeed.mutate(true);
+ */
+export function useRegenerateCalendarFeed() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: regenerate,
+    onSuccess: feed => {
+      queryClient.setQueryData(queryKeys.calendarFeed, feed);
+      toast.success('Calendar feed link created');
+    },
+    onError: error => {
+      const apiError = handleApiError(error, { customMessage: 'Failed to create calendar feed' });
+      toast.error(apiError.message);
+    },
+  });
+}
+
+/**
+ * Hook to switch the calendar feed between full student names and initials
+ * @returns {UseMutationResult} React Query mutation with mutate function
+ * @example
+ * const updateFeed = useUpdateCalendarFeed();
+ * updateFeed.mutate({ id: feed.id, redactStudentNames: false });
+ */
+export function useUpdateCalendarFeed() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: updateRedaction,
+    onSuccess: feed => {
+      queryClient.setQueryData(queryKeys.calendarFeed, feed);
+    },
+    onError: error => {
+      const apiError = handleApiError(error, { customMessage: 'Failed to update calendar feed' });
+      toast.error(apiError.message);
+    },
+  });
+}
+
+/**
+ * Hook to disable the calendar feed
+ * @returns {UseMutationResult} React Query mutation with mutate function
+ * @example
+ * const deleteFeed = useDeleteCalendarFeed();
+ * deleteFeed.mutate(feed.id);
+ */
+export function useDeleteCalendarFeed() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: remove,
+    onSuccess: () => {
+      queryClient.setQueryData(queryKeys.calendarFeed, null);
+      toast.success('Calendar feed disabled');
+    },
+    onError: error => {
+      const apiError = handleApiError(error, { customMessage: 'Failed to disable calendar feed' });
+      toast.error(apiError.message);
+    },
+  });
+}
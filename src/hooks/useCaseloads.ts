@@ -0,0 +1,64 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { assignCaseload, fetchCaseloadSizes } from '@/services/caseloadService';
+import { toast } from '@/utils/toast';
+import { handleApiError } from '@/utils/errorHandling';
+import { queryKeys } from '@/lib/queryClient';
+import type { CaseloadAssignment, CaseloadSize } from '@/types/caseload';
+
+// Fetch active students per counselor
+async function fetchSizes(): Promise<CaseloadSize[]> {
+  const { data, error } = await fetchCaseloadSizes();
+
+  if (error) throw error;
+  return data || [];
+}
+
+// Apply a bulk caseload assignment
+async function assign(assignment: CaseloadAssignment): Promise<number> {
+  const { data, error } = await assignCaseload(assignment);
+
+  if (error) throw error;
+  return data ?? 0;
+}
+
+/**
+ * Hook to fetch the number of active students on each counselor's caseload
+ * @returns {UseQueryResult<CaseloadSize[]>} React Query result with caseload sizes
+ * @example
+ * const { data: caseloads = [] } = useCaseloadSizes();
+ */
+export function useCaseloadSizes() {
+  return useQuery({
+    queryKey: queryKeys.caseloadSizes,
+    queryFn: fetchSizes,
+  });
+}
+
+/**
+ * Hook to assign every student matching a rule to a counselor (admin only)
+ * @returns {UseMutationResult} React Query mutation with mutate function
+ * @example
+ * const assignCaseload = useAssignCaseload();
+ * assignCaseload.mutate({
+ *   counselorId: counselor.id,
+ *   role: 'primary',
+ *   rule: { lastNameFrom: 'A', lastNameTo: 'F' },
+ *   onlyUnassigned: false,
+ * });
+ */
+export function useAssignCaseload() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: assign,
+    onSuccess: count => {
+      // Also refreshes caseload sizes, which live under the students key
+      queryClient.invalidateQueries({ queryKey: queryKeys.students });
+      toast.success(`Assigned ${count} student${count !== 1 ? 's' : ''}`);
+    },
+    onError: error => {
+      const apiError = handleApiError(error, { customMessage: 'Failed to assign caseload' });
+      toast.error(apiError.message);
+    },
+  });
+}
@@ -0,0 +1,310 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  createDistrictReasonCategory,
+  createDistrictReasonSubcategory,
+  deleteDistrictReasonCategory,
+  deleteDistrictReasonSubcategory,
+  fetchDistrict,
+  fetchDistrictReasonTemplates,
+  fetchDistrictReportAggregates,
+  pushDistrictReasonTemplates,
+  updateDistrictReasonCategory,
+} from '@/services/districtService';
+import { toast } from '@/utils/toast';
+import { handleApiError } from '@/utils/errorHandling';
+import { formatDateForInput } from '@/utils/dateHelpers';
+import { queryKeys } from '@/lib/queryClient';
+import type {
+  District,
+  DistrictReasonCategory,
+  DistrictReasonCategoryFormData,
+  DistrictReasonSubcategory,
+  DistrictReportAggregates,
+} from '@/types/district';
+
+// Fetch the user's district
+async function fetchUserDistrict(): Promise<District | null> {
+  const { data, error } = await fetchDistrict();
+
+  if (error) throw error;
+  return data;
+}
+
+// Fetch district-wide totals
+async function fetchAggregates(
+  startMonth: Date,
+  months: number
+): Promise<DistrictReportAggregates> {
+  const { data, error } = await fetchDistrictReportAggregates(startMonth, months);
+
+  if (error) throw error;
+  if (!data) throw new Error('Failed to fetch district totals');
+  return data;
+}
+
+// Fetch the district's reason templates
+async function fetchTemplates(): Promise<DistrictReasonCategory[]> {
+  const { data, error } = await fetchDistrictReasonTemplates();
+
+  if (error) throw error;
+  return data || [];
+}
+
+// Create a reason template
+interface CreateTemplateData {
+  districtId: string;
+  form: DistrictReasonCategoryFormData;
+}
+
+async function createTemplate({
+  districtId,
+  form,
+}: CreateTemplateData): Promise<DistrictReasonCategory> {
+  const { data, error } = await createDistrictReasonCategory(districtId, form);
+
+  if (error) throw error;
+  if (!data) throw new Error('Failed to create reason template');
+  return data;
+}
+
+// Update a reason template
+interface UpdateTemplateData {
+  categoryId: string;
+  form: DistrictReasonCategoryFormData;
+}
+
+async function updateTemplate({
+  categoryId,
+  form,
+}: UpdateTemplateData): Promise<DistrictReasonCategory> {
+  const { data, error } = await updateDistrictReasonCategory(categoryId, form);
+
+  if (error) throw error;
+  if (!data) throw new Error('Failed to update reason template');
+  return data;
+}
+
+// Delete a reason template
+async function deleteTemplate(categoryId: string): Promise<void> {
+  const { error } = await deleteDistrictReasonCategory(categoryId);
+
+  if (error) throw error;
+}
+
+// Add a subcategory to a template
+interface CreateSubtemplateData {
+  categoryId: string;
+  name: string;
+  sortOrder: number;
+}
+
+async function createSubtemplate({
+  categoryId,
+  name,
+  sortOrder,
+}: CreateSubtemplateData): Promise<DistrictReasonSubcategory> {
+  const { data, error } = await createDistrictReasonSubcategory(categoryId, name, sortOrder);
+
+  if (error) throw error;
+  if (!data) throw new Error('Failed to create subcategory');
+  return data;
+}
+
+// Delete a template subcategory
+async function deleteSubtemplate(subcategoryId: string): Promise<void> {
+  const { error } = await deleteDistrictReasonSubcategory(subcategoryId);
+
+  if (error) throw error;
+}
+
+// Push the templates to the schools
+async function pushTemplates(): Promise<number> {
+  const { data, error } = await pushDistrictReasonTemplates();
+
+  if (error) throw error;
+  return data ?? 0;
+}
+
+/**
+ * Hook to fetch the district of the user's school, with its schools
+ * @returns {UseQueryResult<District | null>} React Query result; null outside a district
+ * @example
+ * const { data: district } = useDistrict();
+ */
+export function useDistrict() {
+  return useQuery({
+    queryKey: queryKeys.district,
+    queryFn: fetchUserDistrict,
+  });
+}
+
+/**
+ * Hook to fetch de-identified totals across the district (district admins only)
+ * @param startMonth - A day in the first month of the range
+ * @param months - Number of whole months, all of which must have ended
+ * @returns {UseQueryResult<DistrictReportAggregates>} React Query result with district totals
+ * @example
+ * const { data: totals } = useDistrictReportAggregates(startMonth, 3);
+ */
+export function useDistrictReportAggregates(startMonth: Date, months: number) {
+  return useQuery({
+    queryKey: queryKeys.districtReportAggregates(formatDateForInput(startMonth), months),
+    queryFn: () => fetchAggregates(startMonth, months),
+  });
+}
+
+/**
+ * Hook to fetch the district's reason templates (district admins only)
+ * @returns {UseQueryResult<DistrictReasonCategory[]>} React Query result with templates
+ * @example
+ * const { data: templates = [] } = useDistrictReasonTemplates();
+ */
+export function useDistrictReasonTemplates() {
+  return useQuery({
+    queryKey: queryKeys.districtReasonTemplates,
+    queryFn: fetchTemplates,
+  });
+}
+
+/**
+ * Hook to add a reason template to the district
+ * @returns {UseMutationResult} React Query mutation with mutate function
+ * @example
+ * const createTemplate = useCreateDistrictReasonCategory();
+ * createTemplate.mutate({ districtId: district.id, form });
+ */
+export function useCreateDistrictReasonCategory() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: createTemplate,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.districtReasonTemplates });
+      toast.success('Reason template added');
+    },
+    onError: error => {
+      const apiError = handleApiError(error, { customMessage: 'Failed to add reason template' });
+      toast.error(apiError.message);
+    },
+  });
+}
+
+/**
+ * Hook to update a reason template
+ * @returns {UseMutationResult} React Query mutation with mutate function
+ * @example
+ * const updateTemplate = useUpdateDistrictReasonCategory();
+ * updateTemplate.mutate({ categoryId: template.id, form });
+ */
+export function useUpdateDistrictReasonCategory() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: updateTemplate,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.districtReasonTemplates });
+      toast.success('Reason template updated');
+    },
+    onError: error => {
+      const apiError = handleApiError(error, {
+        customMessage: 'Failed to update reason template',
+      });
+      toast.error(apiError.message);
+    },
+  });
+}
+
+/**
+ * Hook to delete a reason template; schools keep their copies
+ * @returns {UseMutationResult} React Query mutation with mutate function
+ * @example
+ * const deleteTemplate = useDeleteDistrictReasonCategory();
+ * deleteTemplate.mutate(template.id);
+ */
+export function useDeleteDistrictReasonCategory() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deleteTemplate,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.districtReasonTemplates });
+      toast.success('Reason template deleted');
+    },
+    onError: error => {
+      const apiError = handleApiError(error, {
+        customMessage: 'Failed to delete reason template',
+      });
+      toast.error(apiError.message);
+    },
+  });
+}
+
+/**
+ * Hook to add a subcategory to a reason template
+ * @returns {UseMutationResult} React Query mutation with mutate function
+ * @example
+ * const createSubcategory = useCreateDistrictReasonSubcategory();
+ * createSubcategory.mutate({ categoryId: template.id, name: 'Attendance', sortOrder: 0 });
+ */
+export function useCreateDistrictReasonSubcategory() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: createSubtemplate,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.districtReasonTemplates });
+    },
+    onError: error => {
+      const apiError = handleApiError(error, { customMessage: 'Failed to add subcategory' });
+      toast.error(apiError.message);
+    },
+  });
+}
+
+/**
+ * Hook to delete a subcategory from a reason template
+ * @returns {UseMutationResult} React Query mutation with mutate function
+ * @example
+ * const deleteSubcategory = useDeleteDistrictReasonSubcategory();
+ * deleteSubcategory.mutate(subcategory.id);
+ */
+export function useDeleteDistrictReasonSubcategory() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deleteSubtemplate,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.districtReasonTemplates });
+    },
+    onError: error => {
+      const apiError = handleApiError(error, { customMessage: 'Failed to delete subcategory' });
+      toast.error(apiError.message);
+    },
+  });
+}
+
+/**
+ * Hook to copy the district's reason templates into every school
+ * @returns {UseMutationResult} React Query mutation resolving to the number of schools
+ * @example
+ * const pushTemplates = usePushDistrictReasonTemplates();
+ * pushTemplates.mutate();
+ */
+export function usePushDistrictReasonTemplates() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: pushTemplates,
+    onSuccess: schools => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.district });
+      queryClient.invalidateQueries({ queryKey: queryKeys.categories });
+      toast.success(`Reason templates pushed to ${schools} school${schools !== 1 ? 's' : ''}`);
+    },
+    onError: error => {
+      const apiError = handleApiError(error, {
+        customMessage: 'Failed to push reason templates',
+      });
+      toast.error(apiError.message);
+    },
+  });
+}
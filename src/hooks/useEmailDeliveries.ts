@@ -0,0 +1,27 @@
+import { useQuery } from '@tanstack/react-query';
+import { fetchEmailDeliveries as fetchInvitationDeliveries } from '@/services/emailDeliveryService';
+import { queryKeys } from '@/lib/queryClient';
+import type { EmailDelivery } from '@/types/email';
+
+// Fetch the delivery history of an invitation
+async function fetchEmailDeliveries(invitationId: string): Promise<EmailDelivery[]> {
+  const { data, error } = await fetchInvitationDeliveries(invitationId);
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Hook to fetch every email sent for an invitation, newest first
+ * @param {string | null} invitationId - Invitation to load; nothing is fetched while null
+ * @returns {UseQueryResult<EmailDelivery[]>} React Query result with deliveries array
+ * @example
+ * const { data: deliveries = [] } = useEmailDeliveries(invitation.id);
+ */
+export function useEmailDeliveries(invitationId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.emailDeliveries(invitationId || ''),
+    queryFn: () => fetchEmailDeliveries(invitationId!),
+    enabled: !!invitationId,
+  });
+}
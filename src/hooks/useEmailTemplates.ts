@@ -0,0 +1,99 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  fetchEmailTemplates,
+  resetEmailTemplate,
+  saveEmailTemplate,
+} from '@/services/emailTemplateService';
+import { toast } from '@/utils/toast';
+import { handleApiError } from '@/utils/errorHandling';
+import { queryKeys } from '@/lib/queryClient';
+import type { EmailTemplate, EmailTemplateName, TenantEmailTemplate } from '@/types/email';
+
+// Fetch the tenant's customized templates
+async function fetchTemplates(): Promise<TenantEmailTemplate[]> {
+  const { data, error } = await fetchEmailTemplates();
+
+  if (error) throw error;
+  return data || [];
+}
+
+// Save a customized template
+interface SaveTemplateData {
+  name: EmailTemplateName;
+  template: EmailTemplate;
+}
+
+async function save({ name, template }: SaveTemplateData): Promise<TenantEmailTemplate> {
+  const { data, error } = await saveEmailTemplate(name, template);
+
+  if (error) throw error;
+  if (!data) throw new Error('Failed to save email template');
+  return data;
+}
+
+// Restore the built-in template
+async function reset(name: EmailTemplateName): Promise<void> {
+  const { error } = await resetEmailTemplate(name);
+
+  if (error) throw error;
+}
+
+/**
+ * Hook to fetch the email templates this tenant has customized
+ * @returns {UseQueryResult<TenantEmailTemplate[]>} React Query result with customized templates
+ * @example
+ * const { data: templates = [] } = useEmailTemplates();
+ * const invitation = templates.find(t => t.template === 'invitation');
+ */
+export function useEmailTemplates() {
+  return useQuery({
+    queryKey: queryKeys.emailTemplates,
+    queryFn: fetchTemplates,
+  });
+}
+
+/**
+ * Hook to save the tenant's version of an email template
+ * @returns {UseMutationResult} React Query mutation with mutate function
+ * @example
+ * const saveTemplate = useSaveEmailTemplate();
+ * saveTemplate.mutate({ name: 'invitation', template: { subject, htmlBody, textBody } });
+ */
+export function useSaveEmailTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: save,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.emailTemplates });
+      toast.success('Email template saved');
+    },
+    onError: error => {
+      const apiError = handleApiError(error, { customMessage: 'Failed to save email template' });
+      toast.error(apiError.message);
+    },
+  });
+}
+
+/**
+ * Hook to restore the built-in version of an email template
+ * @returns {UseMutationResult} React Query mutation with mutate function
+ * @example
+ * const resetTemplate = useResetEmailTemplate();
+ * resetTemplate.mutate('invitation');
+ */
+export function useResetEmailTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: reset,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.emailTemplates });
+      toast.success('Email template reset to default');
+    },
+    onError: error => {
+      const apiError = handleApiError(error, { customMessage: 'Failed to reset email template' });
+      toast.error(apiError.message);
+    },
+  });
+}
@@ -0,0 +1,97 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  fetchFollowUpDigestPreferences,
+  saveFollowUpDigestPreferences,
+  updateDigestSurnameSetting,
+} from '@/services/followUpDigestService';
+import { toast } from '@/utils/toast';
+import { handleApiError } from '@/utils/errorHandling';
+import { queryKeys } from '@/lib/queryClient';
+import type { FollowUpDigestPreferences } from '@/types/followUpDigest';
+
+// Fetch the current user's digest preferences
+async function fetchPreferences(): Promise<FollowUpDigestPreferences> {
+  const { data, error } = await fetchFollowUpDigestPreferences();
+
+  if (error) throw error;
+  if (!data) throw new Error('Failed to fetch digest preferences');
+  return data;
+}
+
+// Save the current user's digest preferences
+async function savePreferences(
+  preferences: FollowUpDigestPreferences
+): Promise<FollowUpDigestPreferences> {
+  const { data, error } = await saveFollowUpDigestPreferences(preferences);
+
+  if (error) throw error;
+  if (!data) throw new Error('Failed to save digest preferences');
+  return data;
+}
+
+// Update the tenant's surname setting
+async function updateSurnames(includeSurnames: boolean): Promise<boolean> {
+  const { error } = await updateDigestSurnameSetting(includeSurnames);
+
+  if (error) throw error;
+  return includeSurnames;
+}
+
+/**
+ * Hook to fetch the current user's follow-up digest preferences
+ * @returns {UseQueryResult<FollowUpDigestPreferences>} React Query result with the saved preferences or the defaults
+ * @example
+ * const { data: preferences } = useFollowUpDigestPreferences();
+ * const isOff = preferences?.cadence === 'off';
+ */
+export function useFollowUpDigestPreferences() {
+  return useQuery({
+    queryKey: queryKeys.followUpDigestPreferences,
+    queryFn: fetchPreferences,
+  });
+}
+
+/**
+ * Hook to save the current user's follow-up digest preferences
+ * @returns {UseMutationResult} React Query mutation with mutate function
+ * @example
+ * const savePreferences = useSaveFollowUpDigestPreferences();
+ * savePreferences.mutate({ ...preferences, cadence: 'weekly' });
+ */
+export function useSaveFollowUpDigestPreferences() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: savePreferences,
+    onSuccess: preferences => {
+      queryClient.setQueryData(queryKeys.followUpDigestPreferences, preferences);
+      toast.success('Digest preferences saved');
+    },
+    onError: error => {
+      const apiError = handleApiError(error, {
+        customMessage: 'Failed to save digest preferences',
+      });
+      toast.error(apiError.message);
+    },
+  });
+}
+
+/**
+ * Hook to choose whether follow-up digests show full student names (admin only)
+ * @returns {UseMutationResult} React Query mutation with mutate function
+ * @example
+ * const updateSurnames = useUpdateDigestSurnameSetting();
+ * updateSurnames.mutate(true);
+ */
+export function useUpdateDigestSurnameSetting() {
+  return useMutation({
+    mutationFn: updateSurnames,
+    onSuccess: () => {
+      toast.success('Digest setting updated');
+    },
+    onError: error => {
+      const apiError = handleApiError(error, { customMessage: 'Failed to update digest setting' });
+      toast.error(apiError.message);
+    },
+  });
+}
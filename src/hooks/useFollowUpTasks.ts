@@ -0,0 +1,182 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  countOpenFollowUpTasks,
+  fetchFollowUpTaskForInteraction,
+  fetchFollowUpTaskHistory,
+  fetchFollowUpTasks,
+  reassignAllFollowUpTasks,
+  reassignFollowUpTask,
+} from '@/services/followUpTaskService';
+import { toast } from '@/utils/toast';
+import { handleApiError } from '@/utils/errorHandling';
+import { queryKeys } from '@/lib/queryClient';
+import type { FollowUpTask, FollowUpTaskAssignment } from '@/types/followUpTask';
+
+// Fetch open follow-up tasks
+async function fetchTasks(): Promise<FollowUpTask[]> {
+  const { data, error } = await fetchFollowUpTasks();
+
+  if (error) throw error;
+  return data || [];
+}
+
+// Fetch the task of one interaction
+async function fetchTaskForInteraction(interactionId: string): Promise<FollowUpTask | null> {
+  const { data, error } = await fetchFollowUpTaskForInteraction(interactionId);
+
+  if (error) throw error;
+  return data;
+}
+
+// Fetch a task's ownership history
+async function fetchHistory(taskId: string): Promise<FollowUpTaskAssignment[]> {
+  const { data, error } = await fetchFollowUpTaskHistory(taskId);
+
+  if (error) throw error;
+  return data || [];
+}
+
+// Count a user's open tasks
+async function fetchOpenCount(userId: string): Promise<number> {
+  const { data, error } = await countOpenFollowUpTasks(userId);
+
+  if (error) throw error;
+  return data ?? 0;
+}
+
+// Reassign one task
+interface ReassignTaskData {
+  taskId: string;
+  toUserId: string;
+  note?: string;
+}
+
+async function reassign({ taskId, toUserId, note }: ReassignTaskData): Promise<FollowUpTask> {
+  const { data, error } = await reassignFollowUpTask(taskId, toUserId, note);
+
+  if (error) throw error;
+  if (!data) throw new Error('Failed to reassign follow-up');
+  return data;
+}
+
+// Reassign all of a user's open tasks
+interface ReassignAllData {
+  fromUserId: string;
+  toUserId: string;
+  note?: string;
+}
+
+async function reassignAll({ fromUserId, toUserId, note }: ReassignAllData): Promise<number> {
+  const { data, error } = await reassignAllFollowUpTasks(fromUserId, toUserId, note);
+
+  if (error) throw error;
+  return data ?? 0;
+}
+
+/**
+ * Hook to fetch open follow-up tasks (the user's own, or all for admins)
+ * @returns {UseQueryResult<FollowUpTask[]>} React Query result with open tasks
+ * @example
+ * const { data: tasks = [] } = useFollowUpTasks();
+ */
+export function useFollowUpTasks() {
+  return useQuery({
+    queryKey: queryKeys.followUpTasks,
+    queryFn: fetchTasks,
+  });
+}
+
+/**
+ * Hook to fetch the follow-up task of an interaction, including its completion note
+ * @param {string | null} interactionId - Interaction to load for; nothing is fetched while null
+ * @returns {UseQueryResult<FollowUpTask | null>} React Query result with the task, or null if not visible
+ * @example
+ * const { data: task } = useFollowUpTask(interaction.isFollowUpComplete ? interaction.id : null);
+ */
+export function useFollowUpTask(interactionId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.followUpTask(interactionId || ''),
+    queryFn: () => fetchTaskForInteraction(interactionId!),
+    enabled: !!interactionId,
+  });
+}
+
+/**
+ * Hook to fetch who has owned a follow-up task
+ * @param {string | null} taskId - Task to load; nothing is fetched while null
+ * @returns {UseQueryResult<FollowUpTaskAssignment[]>} React Query result with assignments, oldest first
+ * @example
+ * const { data: history = [] } = useFollowUpTaskHistory(task?.id ?? null);
+ */
+export function useFollowUpTaskHistory(taskId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.followUpTaskHistory(taskId || ''),
+    queryFn: () => fetchHistory(taskId!),
+    enabled: !!taskId,
+  });
+}
+
+/**
+ * Hook to count a user's open follow-up tasks (admin only)
+ * @param {string | null} userId - User to count for; nothing is fetched while null
+ * @returns {UseQueryResult<number>} React Query result with the number of open tasks
+ * @example
+ * const { data: openCount = 0 } = useOpenFollowUpTaskCount(user?.id ?? null);
+ */
+export function useOpenFollowUpTaskCount(userId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.openFollowUpTaskCount(userId || ''),
+    queryFn: () => fetchOpenCount(userId!),
+    enabled: !!userId,
+  });
+}
+
+/**
+ * Hook to hand a follow-up to another counselor
+ * @returns {UseMutationResult} React Query mutation with mutate function
+ * @example
+ * const reassignTask = useReassignFollowUpTask();
+ * reassignTask.mutate({ taskId: task.id, toUserId: counselor.id, note: 'Covering this week' });
+ */
+export function useReassignFollowUpTask() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: reassign,
+    onSuccess: task => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.followUpTasks });
+      toast.success(
+        task.assigneeName ? `Follow-up handed to ${task.assigneeName}` : 'Follow-up reassigned'
+      );
+    },
+    onError: error => {
+      const apiError = handleApiError(error, { customMessage: 'Failed to reassign follow-up' });
+      toast.error(apiError.message);
+    },
+  });
+}
+
+/**
+ * Hook to move all of a user's open follow-ups to another user (admin only)
+ * @returns {UseMutationResult} React Query mutation with mutate function
+ * @example
+ * const reassignAll = useReassignAllFollowUpTasks();
+ * reassignAll.mutate({ fromUserId: leaving.id, toUserId: counselor.id });
+ */
+export function useReassignAllFollowUpTasks() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: reassignAll,
+    onSuccess: count => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.followUpTasks });
+      if (count > 0) {
+        toast.success(`${count} follow-up${count === 1 ? '' : 's'} reassigned`);
+      }
+    },
+    onError: error => {
+      const apiError = handleApiError(error, { customMessage: 'Failed to reassign follow-ups' });
+      toast.error(apiError.message);
+    },
+  });
+}
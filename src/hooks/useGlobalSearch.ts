@@ -0,0 +1,40 @@
+import { useEffect, useState } from 'react';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { globalSearch } from '@/services/searchService';
+import { queryKeys } from '@/lib/queryClient';
+import type { GlobalSearchResults } from '@/types/search';
+
+const MIN_QUERY_LENGTH = 2;
+const DEBOUNCE_MS = 250;
+
+// Run a global search
+async function runSearch(query: string): Promise<GlobalSearchResults> {
+  const { data, error } = await globalSearch(query);
+
+  if (error) throw error;
+  return data || { students: [], contacts: [], interactions: [] };
+}
+
+/**
+ * Hook to search students, contacts and interactions as the user types
+ * @param {string} query - The raw search input; debounced before querying
+ * @returns {UseQueryResult<GlobalSearchResults>} React Query result with grouped results
+ * @example
+ * const { data: results, isFetching } = useGlobalSearch(searchText);
+ */
+export function useGlobalSearch(query: string) {
+  const [debouncedQuery, setDebouncedQuery] = useState(query.trim());
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query.trim()), DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  return useQuery({
+    queryKey: queryKeys.globalSearch(debouncedQuery),
+    queryFn: () => runSearch(debouncedQuery),
+    enabled: debouncedQuery.length >= MIN_QUERY_LENGTH,
+    placeholderData: keepPreviousData,
+    staleTime: 30 * 1000,
+  });
+}
@@ -0,0 +1,211 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  createGoal,
+  fetchStudentGoals,
+  linkGoalInteraction,
+  recordGoalCheckIn,
+  unlinkGoalInteraction,
+  updateGoal,
+} from '@/services/goalService';
+import { toast } from '@/utils/toast';
+import { handleApiError } from '@/utils/errorHandling';
+import { queryKeys } from '@/lib/queryClient';
+import type { GoalCheckIn, GoalCheckInFormData, GoalFormData, StudentGoal } from '@/types/goal';
+
+// Fetch a student's goals
+async function fetchGoals(studentId: string): Promise<StudentGoal[]> {
+  const { data, error } = await fetchStudentGoals(studentId);
+
+  if (error) throw error;
+  return data || [];
+}
+
+// Create a goal
+interface CreateGoalData {
+  studentId: string;
+  form: GoalFormData;
+}
+
+async function create({ studentId, form }: CreateGoalData): Promise<StudentGoal> {
+  const { data, error } = await createGoal(studentId, form);
+
+  if (error) throw error;
+  if (!data) throw new Error('Failed to create goal');
+  return data;
+}
+
+// Update a goal
+interface UpdateGoalData {
+  goalId: string;
+  form: GoalFormData;
+}
+
+async function update({ goalId, form }: UpdateGoalData): Promise<StudentGoal> {
+  const { data, error } = await updateGoal(goalId, form);
+
+  if (error) throw error;
+  if (!data) throw new Error('Failed to update goal');
+  return data;
+}
+
+// Record a check-in
+interface CheckInData {
+  goalId: string;
+  studentId: string;
+  form: GoalCheckInFormData;
+}
+
+async function checkIn({ goalId, form }: CheckInData): Promise<GoalCheckIn> {
+  const { data, error } = await recordGoalCheckIn(goalId, form);
+
+  if (error) throw error;
+  if (!data) throw new Error('Failed to record check-in');
+  return data;
+}
+
+// Link or unlink an interaction
+interface GoalInteractionData {
+  goalId: string;
+  studentId: string;
+  interactionId: string;
+}
+
+async function link({ goalId, interactionId }: GoalInteractionData): Promise<void> {
+  const { error } = await linkGoalInteraction(goalId, interactionId);
+
+  if (error) throw error;
+}
+
+async function unlink({ goalId, interactionId }: GoalInteractionData): Promise<void> {
+  const { error } = await unlinkGoalInteraction(goalId, interactionId);
+
+  if (error) throw error;
+}
+
+/**
+ * Hook to fetch a student's counseling plan goals
+ * @param {string} studentId - The student's unique identifier
+ * @returns {UseQueryResult<StudentGoal[]>} React Query result with goals, check-ins and links
+ * @example
+ * const { data: goals = [] } = useStudentGoals(student.id);
+ */
+export function useStudentGoals(studentId: string) {
+  return useQuery({
+    queryKey: queryKeys.goals(studentId),
+    queryFn: () => fetchGoals(studentId),
+    enabled: !!studentId,
+  });
+}
+
+/**
+ * Hook to add a goal to a student's plan
+ * @returns {UseMutationResult} React Query mutation with mutate function
+ * @example
+ * const createGoal = useCreateGoal();
+ * createGoal.mutate({ studentId, form: { area: 'ACADEMIC', title: 'Raise math grade' } });
+ */
+export function useCreateGoal() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: create,
+    onSuccess: goal => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.goals(goal.studentId) });
+      toast.success('Goal added');
+    },
+    onError: error => {
+      const apiError = handleApiError(error, { customMessage: 'Failed to add goal' });
+      toast.error(apiError.message);
+    },
+  });
+}
+
+/**
+ * Hook to edit a goal or change its status
+ * @returns {UseMutationResult} React Query mutation with mutate function
+ * @example
+ * const updateGoal = useUpdateGoal();
+ * updateGoal.mutate({ goalId: goal.id, form: { ...form, status: 'ACHIEVED' } });
+ */
+export function useUpdateGoal() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: update,
+    onSuccess: goal => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.goals(goal.studentId) });
+      toast.success('Goal updated');
+    },
+    onError: error => {
+      const apiError = handleApiError(error, { customMessage: 'Failed to update goal' });
+      toast.error(apiError.message);
+    },
+  });
+}
+
+/**
+ * Hook to record a progress check-in on a goal
+ * @returns {UseMutationResult} React Query mutation with mutate function
+ * @example
+ * const recordCheckIn = useRecordGoalCheckIn();
+ * recordCheckIn.mutate({ goalId: goal.id, studentId, form: { rating: 3 } });
+ */
+export function useRecordGoalCheckIn() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: checkIn,
+    onSuccess: (_, { studentId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.goals(studentId) });
+      toast.success('Check-in recorded');
+    },
+    onError: error => {
+      const apiError = handleApiError(error, { customMessage: 'Failed to record check-in' });
+      toast.error(apiError.message);
+    },
+  });
+}
+
+/**
+ * Hook to link an interaction to a goal
+ * @returns {UseMutationResult} React Query mutation with mutate function
+ * @example
+ * const linkInteraction = useLinkGoalInteraction();
+ * linkInteraction.mutate({ goalId: goal.id, studentId, interactionId });
+ */
+export function useLinkGoalInteraction() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: link,
+    onSuccess: (_, { studentId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.goals(studentId) });
+    },
+    onError: error => {
+      const apiError = handleApiError(error, { customMessage: 'Failed to link interaction' });
+      toast.error(apiError.message);
+    },
+  });
+}
+
+/**
+ * Hook to unlink an interaction from a goal
+ * @returns {UseMutationResult} React Query mutation with mutate function
+ * @example
+ * const unlinkInteraction = useUnlinkGoalInteraction();
+ * unlinkInteraction.mutate({ goalId: goal.id, studentId, interactionId });
+ */
+export function useUnlinkGoalInteraction() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: unlink,
+    onSuccess: (_, { studentId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.goals(studentId) });
+    },
+    onError: error => {
+      const apiError = handleApiError(error, { customMessage: 'Failed to unlink interaction' });
+      toast.error(apiError.message);
+    },
+  });
+}
@@ -1,5 +1,8 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/services/supabase';
+import { INTERACTION_SELECT, saveInteractionParticipants } from '@/services/api';
+import { decryptInteractionRows, encryptInteractionNotes } from '@/services/noteEncryptionService';
+import { completeFollowUpTask } from '@/services/followUpTaskService';
 import { toast } from '@/utils/toast';
 import { handleApiError } from '@/utils/errorHandling';
 import type { Interaction, InteractionFormData, InteractionDbResponse } from '@/types/interaction';
@@ -50,6 +53,12 @@ function convertInteractionFromDb(
     studentId: dbInteraction.student_id,
     contactId: dbInteraction.contact_id,
     regardingStudentId: dbInteraction.regarding_student_id,
+    isGroup: dbInteraction.is_group ?? false,
+    participants: (dbInteraction.interaction_participants || []).map(participant => ({
+      studentId: participant.student_id,
+      attended: participant.attended,
+      student: students.find(s => s.id === participant.student_id),
+    })),
     categoryId: dbInteraction.category_id,
     subcategoryId: dbInteraction.subcategory_id,
     customReason: dbInteraction.custom_reason,
@@ -61,6 +70,7 @@ function convertInteractionFromDb(
     followUpDate: dbInteraction.follow_up_date ? new Date(dbInteraction.follow_up_date) : undefined,
     followUpNotes: dbInteraction.follow_up_notes,
     isFollowUpComplete: dbInteraction.is_follow_up_complete,
+    notesDecryptionFailed: dbInteraction.notes_decryption_failed,
     createdAt: new Date(dbInteraction.created_at),
     updatedAt: new Date(dbInteraction.updated_at),
     student,
@@ -83,6 +93,9 @@ function convertStudentFromDb(dbStudent: StudentDbResponse): Student {
     phone: dbStudent.phone,
     needsFollowUp: dbStudent.needs_follow_up,
     followUpNotes: dbStudent.follow_up_notes,
+    primaryCounselorId: dbStudent.primary_counselor_id ?? undefined,
+    secondaryCounselorId: dbStudent.secondary_counselor_id ?? undefined,
+    archivedAt: dbStudent.archived_at ? new Date(dbStudent.archived_at) : undefined,
     createdAt: new Date(dbStudent.created_at),
     updatedAt: new Date(dbStudent.updated_at),
   };
@@ -202,7 +215,7 @@ export function useInteractions(): UseInteractionsResult {
       // Fetch interactions
       const { data: interactionsData, error: interactionsError } = await supabase
         .from('interactions')
-        .select('*')
+        .select(INTERACTION_SELECT)
         .order('start_time', { ascending: false });
 
       if (interactionsError) throw interactionsError;
@@ -231,7 +244,8 @@ export function useInteractions(): UseInteractionsResult {
       setCounselorsCache(convertedCounselors);
 
       // Convert interactions with all related data
-      const convertedInteractions = (interactionsData || []).map(interaction =>
+      const decryptedInteractions = await decryptInteractionRows(interactionsData || []);
+      const convertedInteractions = decryptedInteractions.map(interaction =>
         convertInteractionFromDb(
           interaction,
           convertedStudents,
@@ -272,12 +286,15 @@ export function useInteractions(): UseInteractionsResult {
         const startTime = new Date(data.startTime);
         const endTime = new Date(startTime.getTime() + data.durationMinutes * 60000);
 
+        const isGroup = data.type === 'group';
+
         // Prepare data for insertion
-        const insertData = {
+        const insertData = await encryptInteractionNotes({
           counselor_id: user.id,
-          student_id: data.studentId || null,
-          contact_id: data.contactId || null,
-          regarding_student_id: data.regardingStudentId || null,
+          student_id: isGroup ? null : data.studentId || null,
+          contact_id: isGroup ? null : data.contactId || null,
+          regarding_student_id: isGroup ? null : data.regardingStudentId || null,
+          is_group: isGroup,
           category_id: data.categoryId,
           subcategory_id: data.subcategoryId || null,
           custom_reason: data.customReason || null,
@@ -289,12 +306,28 @@ export function useInteractions(): UseInteractionsResult {
           follow_up_date: data.followUpDate || null,
           follow_up_notes: data.followUpNotes || null,
           is_follow_up_complete: false,
-        };
+        });
 
-        const { error: insertError } = await supabase.from('interactions').insert(insertData);
+        const { data: newInteraction, error: insertError } = await supabase
+          .from('interactions')
+          .insert(insertData)
+          .select('id')
+          .single();
 
         if (insertError) throw insertError;
 
+        if (isGroup) {
+          const { error: participantsError } = await saveInteractionParticipants(
+            newInteraction.id,
+            data.participants || []
+          );
+
+          if (participantsError) {
+            await supabase.from('interactions').delete().eq('id', newInteraction.id);
+            throw participantsError;
+          }
+        }
+
         // Refresh data with optimistic update
         await fetchData();
         toast.success('Interaction created successfully');
@@ -317,10 +350,17 @@ export function useInteractions(): UseInteractionsResult {
         // Prepare update data
         const updateData: any = {};
 
+        if (data.type !== undefined) updateData.is_group = data.type === 'group';
         if (data.studentId !== undefined) updateData.student_id = data.studentId || null;
         if (data.contactId !== undefined) updateData.contact_id = data.contactId || null;
         if (data.regardingStudentId !== undefined)
           updateData.regarding_student_id = data.regardingStudentId || null;
+        // Group sessions record their students as participants
+        if (data.type === 'group') {
+          updateData.student_id = null;
+          updateData.contact_id = null;
+          updateData.regarding_student_id = null;
+        }
         if (data.categoryId !== undefined) updateData.category_id = data.categoryId;
         if (data.subcategoryId !== undefined)
           updateData.subcategory_id = data.subcategoryId || null;
@@ -343,11 +383,20 @@ export function useInteractions(): UseInteractionsResult {
 
         const { error: updateError } = await supabase
           .from('interactions')
-          .update(updateData)
+          .update(await encryptInteractionNotes(updateData))
           .eq('id', id);
 
         if (updateError) throw updateError;
 
+        if (data.participants !== undefined || data.type !== undefined) {
+          const { error: participantsError } = await saveInteractionParticipants(
+            id,
+            data.type === 'group' ? data.participants || [] : []
+          );
+
+          if (participantsError) throw participantsError;
+        }
+
         // Refresh data
         await fetchData();
         toast.success('Interaction updated successfully');
@@ -387,38 +436,9 @@ export function useInteractions(): UseInteractionsResult {
       setError(null);
 
       try {
-        // Get the current interaction to append completion notes
-        const interaction = interactions.find(i => i.id === id);
-        if (!interaction) {
-          throw new Error('Interaction not found');
-        }
-
-        // Prepare update data
-        const updateData: any = {
-          is_follow_up_complete: true,
-        };
-
-        // Append completion notes to existing notes if provided
-        if (completionNotes) {
-          const existingNotes = interaction.notes || '';
-          const completionTimestamp = new Date().toLocaleString('en-US', {
-            month: 'short',
-            day: 'numeric',
-            year: 'numeric',
-            hour: 'numeric',
-            minute: '2-digit',
-            hour12: true,
-          });
-          const completionNote = `\n\n[Follow-up completed on ${completionTimestamp}]\n${completionNotes}`;
-          updateData.notes = existingNotes + completionNote;
-        }
-
-        const { error: updateError } = await supabase
-          .from('interactions')
-          .update(updateData)
-          .eq('id', id);
-
-        if (updateError) throw updateError;
+        // The completion note is kept on the follow-up task, not in the notes
+        const { error: completeError } = await completeFollowUpTask(id, completionNotes);
+        if (completeError) throw completeError;
 
         // Refresh data
         await fetchData();
@@ -430,7 +450,7 @@ export function useInteractions(): UseInteractionsResult {
         throw err;
       }
     },
-    [interactions, fetchData]
+    [fetchData]
   );
 
   return {
@@ -1,9 +1,24 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useInfiniteQuery, useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/services/supabase';
+import {
+  fetchInteraction as fetchInteractionById,
+  fetchInteractionPage,
+  INTERACTION_SELECT,
+  saveInteractionParticipants,
+} from '@/services/api';
+import { decryptInteractionRows, encryptInteractionNotes } from '@/services/noteEncryptionService';
+import { completeFollowUpTask } from '@/services/followUpTaskService';
 import { toast } from '@/utils/toast';
 import { handleApiError } from '@/utils/errorHandling';
 import { queryKeys } from '@/lib/queryClient';
-import type { Interaction, InteractionFormData, InteractionDbResponse } from '@/types/interaction';
+import type {
+  Interaction,
+  InteractionCursor,
+  InteractionFormData,
+  InteractionDbResponse,
+  InteractionListFilters,
+  InteractionPage,
+} from '@/types/interaction';
 import type { Student, StudentDbResponse } from '@/types/student';
 import type { Contact, ContactDbResponse } from '@/types/contact';
 import type {
@@ -26,6 +41,9 @@ function convertStudentFromDb(dbStudent: StudentDbResponse): Student {
     phone: dbStudent.phone,
     needsFollowUp: dbStudent.needs_follow_up,
     followUpNotes: dbStudent.follow_up_notes,
+    primaryCounselorId: dbStudent.primary_counselor_id ?? undefined,
+    secondaryCounselorId: dbStudent.secondary_counselor_id ?? undefined,
+    archivedAt: dbStudent.archived_at ? new Date(dbStudent.archived_at) : undefined,
     createdAt: new Date(dbStudent.created_at),
     updatedAt: new Date(dbStudent.updated_at),
   };
@@ -87,6 +105,12 @@ function convertInteractionFromDb(
     counselorId: dbInteraction.counselor_id,
     studentId: dbInteraction.student_id,
     contactId: dbInteraction.contact_id,
+    isGroup: dbInteraction.is_group ?? false,
+    participants: (dbInteraction.interaction_participants || []).map(participant => ({
+      studentId: participant.student_id,
+      attended: participant.attended,
+      student: students.find(s => s.id === participant.student_id),
+    })),
     categoryId: dbInteraction.category_id,
     subcategoryId: dbInteraction.subcategory_id,
     customReason: dbInteraction.custom_reason,
@@ -98,6 +122,7 @@ function convertInteractionFromDb(
     followUpDate: dbInteraction.follow_up_date ? new Date(dbInteraction.follow_up_date) : undefined,
     followUpNotes: dbInteraction.follow_up_notes,
     isFollowUpComplete: dbInteraction.is_follow_up_complete,
+    notesDecryptionFailed: dbInteraction.notes_decryption_failed,
     createdAt: new Date(dbInteraction.created_at),
     updatedAt: new Date(dbInteraction.updated_at),
     student,
@@ -119,7 +144,10 @@ async function fetchInteractions(): Promise<Interaction[]> {
     { data: subcategoriesData, error: subcategoriesError },
     { data: counselorsData, error: counselorsError },
   ] = await Promise.all([
-    supabase.from('interactions').select('*').order('start_time', { ascending: false }),
+    supabase
+      .from('interactions')
+      .select(INTERACTION_SELECT)
+      .order('start_time', { ascending: false }),
     supabase.from('students').select('*'),
     supabase.from('contacts').select('*'),
     supabase.from('reason_categories').select('*').order('sort_order', { ascending: true }),
@@ -152,60 +180,18 @@ async function fetchInteractions(): Promise<Interaction[]> {
   }));
 
   // Convert interactions with all related data
-  return (interactionsData || []).map(interaction =>
+  const interactions = await decryptInteractionRows(interactionsData || []);
+  return interactions.map(interaction =>
     convertInteractionFromDb(interaction, students, contacts, categories, subcategories, counselors)
   );
 }
 
 async function fetchInteraction(id: string): Promise<Interaction> {
-  // Fetch interaction and related data
-  const [
-    { data: interactionData, error: interactionError },
-    { data: studentsData, error: studentsError },
-    { data: contactsData, error: contactsError },
-    { data: categoriesData, error: categoriesError },
-    { data: subcategoriesData, error: subcategoriesError },
-    { data: counselorsData, error: counselorsError },
-  ] = await Promise.all([
-    supabase.from('interactions').select('*').eq('id', id).single(),
-    supabase.from('students').select('*'),
-    supabase.from('contacts').select('*'),
-    supabase.from('reason_categories').select('*'),
-    supabase.from('reason_subcategories').select('*'),
-    supabase.from('users').select('*'),
-  ]);
-
-  if (interactionError) throw interactionError;
-  if (studentsError) throw studentsError;
-  if (contactsError) throw contactsError;
-  if (categoriesError) throw categoriesError;
-  if (subcategoriesError) throw subcategoriesError;
-  if (counselorsError) throw counselorsError;
+  const { data, error } = await fetchInteractionById(id);
 
-  const students = (studentsData || []).map(convertStudentFromDb);
-  const contacts = (contactsData || []).map(convertContactFromDb);
-  const categories = (categoriesData || []).map(convertCategoryFromDb);
-  const subcategories = (subcategoriesData || []).map(convertSubcategoryFromDb);
-  const counselors = (counselorsData || []).map((user: any) => ({
-    id: user.id,
-    email: user.email,
-    firstName: user.first_name || user.firstName,
-    lastName: user.last_name || user.lastName,
-    role: user.role,
-    tenantId: user.tenant_id || user.tenantId,
-    isActive: user.is_active ?? user.isActive ?? true,
-    createdAt: new Date(user.created_at || user.createdAt || Date.now()),
-    updatedAt: new Date(user.updated_at || user.updatedAt || Date.now()),
-  }));
-
-  return convertInteractionFromDb(
-    interactionData,
-    students,
-    contacts,
-    categories,
-    subcategories,
-    counselors
-  );
+  if (error) throw error;
+  if (!data) throw new Error('Interaction not found');
+  return data;
 }
 
 // Create interaction
@@ -218,10 +204,13 @@ async function createInteraction(data: InteractionFormData): Promise<Interaction
   const startTime = new Date(data.startTime);
   const endTime = new Date(startTime.getTime() + data.durationMinutes * 60000);
 
-  const insertData = {
+  const isGroup = data.type === 'group';
+
+  const insertData = await encryptInteractionNotes({
     counselor_id: user.id,
-    student_id: data.studentId || null,
-    contact_id: data.contactId || null,
+    student_id: isGroup ? null : data.studentId || null,
+    contact_id: isGroup ? null : data.contactId || null,
+    is_group: isGroup,
     category_id: data.categoryId,
     subcategory_id: data.subcategoryId || null,
     custom_reason: data.customReason || null,
@@ -233,7 +222,7 @@ async function createInteraction(data: InteractionFormData): Promise<Interaction
     follow_up_date: data.followUpDate || null,
     follow_up_notes: data.followUpNotes || null,
     is_follow_up_complete: false,
-  };
+  });
 
   const { data: newInteraction, error } = await supabase
     .from('interactions')
@@ -243,6 +232,18 @@ async function createInteraction(data: InteractionFormData): Promise<Interaction
 
   if (error) throw error;
 
+  if (isGroup) {
+    const { error: participantsError } = await saveInteractionParticipants(
+      newInteraction.id,
+      data.participants || []
+    );
+
+    if (participantsError) {
+      await supabase.from('interactions').delete().eq('id', newInteraction.id);
+      throw participantsError;
+    }
+  }
+
   // Fetch the complete interaction with relations
   return fetchInteraction(newInteraction.id);
 }
@@ -256,8 +257,15 @@ interface UpdateInteractionData {
 async function updateInteraction({ id, data }: UpdateInteractionData): Promise<Interaction> {
   const updateData: any = {};
 
+  if (data.type !== undefined) updateData.is_group = data.type === 'group';
   if (data.studentId !== undefined) updateData.student_id = data.studentId || null;
   if (data.contactId !== undefined) updateData.contact_id = data.contactId || null;
+  // Group sessions record their students as participants
+  if (data.type === 'group') {
+    updateData.student_id = null;
+    updateData.contact_id = null;
+    updateData.regarding_student_id = null;
+  }
   if (data.categoryId !== undefined) updateData.category_id = data.categoryId;
   if (data.subcategoryId !== undefined) updateData.subcategory_id = data.subcategoryId || null;
   if (data.customReason !== undefined) updateData.custom_reason = data.customReason || null;
@@ -275,10 +283,22 @@ async function updateInteraction({ id, data }: UpdateInteractionData): Promise<I
   if (data.followUpDate !== undefined) updateData.follow_up_date = data.followUpDate || null;
   if (data.followUpNotes !== undefined) updateData.follow_up_notes = data.followUpNotes || null;
 
-  const { error } = await supabase.from('interactions').update(updateData).eq('id', id);
+  const { error } = await supabase
+    .from('interactions')
+    .update(await encryptInteractionNotes(updateData))
+    .eq('id', id);
 
   if (error) throw error;
 
+  if (data.participants !== undefined || data.type !== undefined) {
+    const { error: participantsError } = await saveInteractionParticipants(
+      id,
+      data.type === 'group' ? data.participants || [] : []
+    );
+
+    if (participantsError) throw participantsError;
+  }
+
   return fetchInteraction(id);
 }
 
@@ -298,38 +318,37 @@ async function completeFollowUp({
   id,
   completionNotes,
 }: CompleteFollowUpData): Promise<Interaction> {
-  // Get current interaction
-  const { data: interactionData, error: fetchError } = await supabase
-    .from('interactions')
-    .select('notes')
-    .eq('id', id)
-    .single();
+  // The completion note is kept on the follow-up task, not in the notes
+  const { error } = await completeFollowUpTask(id, completionNotes);
+  if (error) throw error;
 
-  if (fetchError) throw fetchError;
+  return fetchInteraction(id);
+}
 
-  const updateData: any = {
-    is_follow_up_complete: true,
-  };
+async function fetchPage(
+  filters: InteractionListFilters,
+  cursor: InteractionCursor | null,
+  pageSize?: number
+): Promise<InteractionPage> {
+  const { data, error } = await fetchInteractionPage(filters, cursor, pageSize);
 
-  if (completionNotes) {
-    const existingNotes = interactionData.notes || '';
-    const completionTimestamp = new Date().toLocaleString('en-US', {
-      month: 'short',
-      day: 'numeric',
-      year: 'numeric',
-      hour: 'numeric',
-      minute: '2-digit',
-      hour12: true,
-    });
-    const completionNote = `\n\n[Follow-up completed on ${completionTimestamp}]\n${completionNotes}`;
-    updateData.notes = existingNotes + completionNote;
-  }
+  if (error) throw error;
+  if (!data) throw new Error('Failed to fetch interactions');
+  return data;
+}
 
-  const { error } = await supabase.from('interactions').update(updateData).eq('id', id);
+// Every interaction with a pending follow-up, a page at a time
+async function fetchPendingFollowUpInteractions(): Promise<Interaction[]> {
+  const interactions: Interaction[] = [];
+  let cursor: InteractionCursor | null = null;
 
-  if (error) throw error;
+  do {
+    const page = await fetchPage({ followUpStatus: 'pending' }, cursor);
+    interactions.push(...page.interactions);
+    cursor = page.nextCursor;
+  } while (cursor);
 
-  return fetchInteraction(id);
+  return interactions;
 }
 
 // Hooks
@@ -348,6 +367,34 @@ export function useInteractionQuery(id: string) {
   });
 }
 
+// Pages of interactions matching a filter set, newest first. Mutations that
+// invalidate queryKeys.interactions refresh every loaded page.
+export function useInteractionPages(filters: InteractionListFilters) {
+  return useInfiniteQuery({
+    queryKey: queryKeys.interactionPages(filters),
+    queryFn: ({ pageParam }) => fetchPage(filters, pageParam),
+    initialPageParam: null as InteractionCursor | null,
+    getNextPageParam: lastPage => lastPage.nextCursor,
+  });
+}
+
+// The newest interactions matching a filter set, without loading further pages
+export function useRecentInteractions(filters: InteractionListFilters, limit = 10) {
+  return useQuery({
+    queryKey: queryKeys.recentInteractions(filters, limit),
+    queryFn: async () => (await fetchPage(filters, null, limit)).interactions,
+  });
+}
+
+// Interactions behind the follow-up list, without loading the rest
+export function usePendingFollowUpInteractions(enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.pendingFollowUpInteractions,
+    queryFn: fetchPendingFollowUpInteractions,
+    enabled,
+  });
+}
+
 export function useCreateInteraction() {
   const queryClient = useQueryClient();
 
@@ -0,0 +1,78 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  fetchNoteEncryptionStatus,
+  rotateNoteEncryptionKey,
+} from '@/services/noteEncryptionService';
+import { toast } from '@/utils/toast';
+import { handleApiError } from '@/utils/errorHandling';
+import { queryKeys } from '@/lib/queryClient';
+import type { NoteEncryptionStatus, NoteKeyRotationResult } from '@/types/noteEncryption';
+
+// Fetch the tenant's note encryption key status
+async function fetchStatus(): Promise<NoteEncryptionStatus> {
+  const { data, error } = await fetchNoteEncryptionStatus();
+
+  if (error) throw error;
+  if (!data) throw new Error('Failed to load note encryption status');
+  return data;
+}
+
+// Rotate the tenant key and re-wrap existing notes
+async function rotate(): Promise<NoteKeyRotationResult> {
+  const { data, error } = await rotateNoteEncryptionKey();
+
+  if (error) throw error;
+  if (!data) throw new Error('Failed to rotate note encryption key');
+  return data;
+}
+
+/**
+ * Hook to fetch the active note encryption key version for the tenant
+ * @returns {UseQueryResult<NoteEncryptionStatus>} React Query result with the key status
+ * @example
+ * const { data: status } = useNoteEncryptionStatus();
+ * const version = status?.activeVersion;
+ */
+export function useNoteEncryptionStatus() {
+  return useQuery({
+    queryKey: queryKeys.noteEncryption,
+    queryFn: fetchStatus,
+  });
+}
+
+/**
+ * Hook to rotate the note encryption key (admins only)
+ * @returns {UseMutationResult} React Query mutation with mutate function
+ * @example
+ * const rotateKey = useRotateNoteEncryptionKey();
+ * rotateKey.mutate();
+ */
+export function useRotateNoteEncryptionKey() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: rotate,
+    onSuccess: result => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.noteEncryption });
+      queryClient.invalidateQueries({ queryKey: queryKeys.interactions });
+
+      if (result.failed > 0) {
+        toast.error(
+          `Key rotated to version ${result.version}`,
+          `${result.failed} interaction(s) could not be updated and still use an older key`
+        );
+      } else {
+        toast.success(
+          `Key rotated to version ${result.version}`,
+          `${result.rewrapped} note(s) re-wrapped, ${result.encrypted} plaintext note(s) encrypted`
+        );
+      }
+    },
+    onError: error => {
+      const apiError = handleApiError(error, {
+        customMessage: 'Failed to rotate note encryption key',
+      });
+      toast.error(apiError.message);
+    },
+  });
+}
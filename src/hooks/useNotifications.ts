@@ -0,0 +1,142 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  fetchNotifications,
+  markNotificationRead,
+  markAllNotificationsRead,
+} from '@/services/notificationService';
+import { toast } from '@/utils/toast';
+import { handleApiError } from '@/utils/errorHandling';
+import { queryKeys } from '@/lib/queryClient';
+import type { NotificationFeed } from '@/types/notification';
+
+const POLL_INTERVAL_MS = 60 * 1000;
+
+// Fetch notifications for the current user
+async function fetchFeed(): Promise<NotificationFeed> {
+  const { data, error } = await fetchNotifications();
+
+  if (error) throw error;
+  return data || { notifications: [], unreadCount: 0 };
+}
+
+// Mark a single notification as read
+async function markRead(id: string): Promise<void> {
+  const { error } = await markNotificationRead(id);
+
+  if (error) throw error;
+}
+
+// Mark all notifications as read
+async function markAllRead(): Promise<void> {
+  const { error } = await markAllNotificationsRead();
+
+  if (error) throw error;
+}
+
+/**
+ * Hook to fetch the current user's notifications and unread count, polled every minute
+ * @returns {UseQueryResult<NotificationFeed>} React Query result with notifications
+ * @example
+ * const { data } = useNotifications();
+ * const unreadCount = data?.unreadCount ?? 0;
+ */
+export function useNotifications() {
+  return useQuery({
+    queryKey: queryKeys.notifications,
+    queryFn: fetchFeed,
+    refetchInterval: POLL_INTERVAL_MS,
+  });
+}
+
+/**
+ * Hook to mark a notification as read with optimistic updates
+ * @returns {UseMutationResult} React Query mutation with mutate function
+ * @example
+ * const markRead = useMarkNotificationRead();
+ * markRead.mutate('notification-uuid');
+ */
+export function useMarkNotificationRead() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: markRead,
+    onMutate: async id => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.notifications });
+
+      const previousFeed = queryClient.getQueryData<NotificationFeed>(queryKeys.notifications);
+
+      queryClient.setQueryData(queryKeys.notifications, (old: NotificationFeed | undefined) => {
+        if (!old) return old;
+        const target = old.notifications.find(n => n.id === id);
+        if (!target || target.readAt) return old;
+
+        return {
+          notifications: old.notifications.map(n =>
+            n.id === id ? { ...n, readAt: new Date() } : n
+          ),
+          unreadCount: Math.max(0, old.unreadCount - 1),
+        };
+      });
+
+      return { previousFeed };
+    },
+    onError: (error, _, context) => {
+      if (context?.previousFeed) {
+        queryClient.setQueryData(queryKeys.notifications, context.previousFeed);
+      }
+
+      const apiError = handleApiError(error, {
+        customMessage: 'Failed to mark notification as read',
+      });
+      toast.error(apiError.message);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.notifications });
+    },
+  });
+}
+
+/**
+ * Hook to mark all notifications as read with optimistic updates
+ * @returns {UseMutationResult} React Query mutation with mutate function
+ * @example
+ * const markAllRead = useMarkAllNotificationsRead();
+ * markAllRead.mutate();
+ */
+export function useMarkAllNotificationsRead() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: markAllRead,
+    onMutate: async () => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.notifications });
+
+      const previousFeed = queryClient.getQueryData<NotificationFeed>(queryKeys.notifications);
+
+      queryClient.setQueryData(queryKeys.notifications, (old: NotificationFeed | undefined) => {
+        if (!old) return old;
+        const readAt = new Date();
+
+        return {
+          notifications: old.notifications.map(n => (n.readAt ? n : { ...n, readAt })),
+          unreadCount: 0,
+        };
+      });
+
+      return { previousFeed };
+    },
+    onError: (error, _, context) => {
+      if (context?.previousFeed) {
+        queryClient.setQueryData(queryKeys.notifications, context.previousFeed);
+      }
+
+      const apiError = handleApiError(error, {
+        customMessage: 'Failed to mark notifications as read',
+      });
+      toast.error(apiError.message);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.notifications });
+    },
+  });
+}
@@ -2,6 +2,7 @@ import { useAuth } from '@/contexts/AuthContext';
 import {
   isAdmin,
   isCounselor,
+  isDistrictAdmin,
   canAccessAdminFeatures,
   canManageUsers,
   canManageReasonCategories,
@@ -15,6 +16,7 @@ export function usePermissions() {
   return {
     isAdmin: isAdmin(user),
     isCounselor: isCounselor(user),
+    isDistrictAdmin: isDistrictAdmin(user),
     canAccessAdminFeatures: canAccessAdminFeatures(user),
     canManageUsers: canManageUsers(user),
     canManageReasonCategories: canManageReasonCategories(user),
@@ -0,0 +1,34 @@
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { fetchReportAggregates } from '@/services/api';
+import { queryKeys } from '@/lib/queryClient';
+import type { ReportAggregates, ReportFilters, TrendBucket } from '@/types/dashboard';
+
+// Fetch report totals computed in the database
+async function fetchAggregates(
+  filters: ReportFilters,
+  trendBucket: TrendBucket
+): Promise<ReportAggregates> {
+  const { data, error } = await fetchReportAggregates(filters, trendBucket);
+
+  if (error) throw error;
+  if (!data) throw new Error('Failed to fetch report totals');
+  return data;
+}
+
+/**
+ * Hook to fetch totals, breakdowns and trend buckets for a set of report
+ * filters without loading the interactions themselves
+ * @param filters - Report filters; the whole end day is included
+ * @param trendBucket - Trend bucket size (default 'day')
+ * @returns {UseQueryResult<ReportAggregates>} React Query result with report totals
+ * @example
+ * const { data: aggregates } = useReportAggregates({ startDate, endDate }, 'week');
+ */
+export function useReportAggregates(filters: ReportFilters, trendBucket: TrendBucket = 'day') {
+  return useQuery({
+    queryKey: queryKeys.reportAggregates(filters, trendBucket),
+    queryFn: () => fetchAggregates(filters, trendBucket),
+    // Keep the current report on screen while new filters load
+    placeholderData: keepPreviousData,
+  });
+}
@@ -0,0 +1,147 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  changeRiskFlagSeverity,
+  clearRiskFlag,
+  fetchStudentRiskFlags,
+  raiseRiskFlag,
+} from '@/services/riskFlagService';
+import { toast } from '@/utils/toast';
+import { handleApiError } from '@/utils/errorHandling';
+import { queryKeys } from '@/lib/queryClient';
+import type { RiskFlag, RiskFlagFormData, StudentRiskFlags } from '@/types/riskFlag';
+
+// Fetch a student's flags and timeline
+async function fetchFlags(studentId: string): Promise<StudentRiskFlags> {
+  const { data, error } = await fetchStudentRiskFlags(studentId);
+
+  if (error) throw error;
+  return data || { flags: [], events: [] };
+}
+
+// Raise a flag
+interface RaiseFlagData {
+  studentId: string;
+  form: RiskFlagFormData;
+}
+
+async function raise({ studentId, form }: RaiseFlagData): Promise<RiskFlag> {
+  const { data, error } = await raiseRiskFlag(studentId, form);
+
+  if (error) throw error;
+  if (!data) throw new Error('Failed to raise risk flag');
+  return data;
+}
+
+// Change a flag's severity
+interface ChangeSeverityData {
+  flagId: string;
+  form: RiskFlagFormData;
+}
+
+async function changeSeverity({ flagId, form }: ChangeSeverityData): Promise<RiskFlag> {
+  const { data, error } = await changeRiskFlagSeverity(flagId, form);
+
+  if (error) throw error;
+  if (!data) throw new Error('Failed to change risk flag');
+  return data;
+}
+
+// Clear a flag
+interface ClearFlagData {
+  flagId: string;
+  note?: string;
+}
+
+async function clear({ flagId, note }: ClearFlagData): Promise<RiskFlag> {
+  const { data, error } = await clearRiskFlag(flagId, note);
+
+  if (error) throw error;
+  if (!data) throw new Error('Failed to clear risk flag');
+  return data;
+}
+
+/**
+ * Hook to fetch a student's risk flags and their timeline
+ * @param {string} studentId - The student's unique identifier
+ * @returns {UseQueryResult<StudentRiskFlags>} React Query result with flags and events
+ * @example
+ * const { data } = useStudentRiskFlags(student.id);
+ */
+export function useStudentRiskFlags(studentId: string) {
+  return useQuery({
+    queryKey: queryKeys.riskFlags(studentId),
+    queryFn: () => fetchFlags(studentId),
+    enabled: !!studentId,
+  });
+}
+
+/**
+ * Hook to raise a risk flag on a student
+ * @returns {UseMutationResult} React Query mutation with mutate function
+ * @example
+ * const raiseFlag = useRaiseRiskFlag();
+ * raiseFlag.mutate({ studentId, form: { category: 'ATTENDANCE', severity: 'LOW' } });
+ */
+export function useRaiseRiskFlag() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: raise,
+    onSuccess: flag => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.riskFlags(flag.studentId) });
+      toast.success(
+        flag.severity === 'HIGH' ? 'Risk flag raised and admins notified' : 'Risk flag raised'
+      );
+    },
+    onError: error => {
+      const apiError = handleApiError(error, { customMessage: 'Failed to raise risk flag' });
+      toast.error(apiError.message);
+    },
+  });
+}
+
+/**
+ * Hook to escalate or downgrade a risk flag
+ * @returns {UseMutationResult} React Query mutation with mutate function
+ * @example
+ * const changeSeverity = useChangeRiskFlagSeverity();
+ * changeSeverity.mutate({ flagId: flag.id, form: { ...form, severity: 'MEDIUM' } });
+ */
+export function useChangeRiskFlagSeverity() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: changeSeverity,
+    onSuccess: flag => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.riskFlags(flag.studentId) });
+      toast.success('Risk flag updated');
+    },
+    onError: error => {
+      const apiError = handleApiError(error, { customMessage: 'Failed to change risk flag' });
+      toast.error(apiError.message);
+    },
+  });
+}
+
+/**
+ * Hook to clear a risk flag
+ * @returns {UseMutationResult} React Query mutation with mutate function
+ * @example
+ * const clearFlag = useClearRiskFlag();
+ * clearFlag.mutate({ flagId: flag.id, note: 'Attendance back to normal' });
+ */
+export function useClearRiskFlag() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: clear,
+    onSuccess: flag => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.riskFlags(flag.studentId) });
+      toast.success('Risk flag cleared');
+    },
+    onError: error => {
+      const apiError = handleApiError(error, { customMessage: 'Failed to clear risk flag' });
+      toast.error(apiError.message);
+    },
+  });
+}
@@ -0,0 +1,119 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  fetchSavedReports,
+  createSavedReport,
+  deleteSavedReport,
+} from '@/services/savedReportService';
+import { toast } from '@/utils/toast';
+import { handleApiError } from '@/utils/errorHandling';
+import { queryKeys } from '@/lib/queryClient';
+import type { ReportFilters } from '@/types/dashboard';
+import type { ReportType, SavedReport } from '@/types/report';
+
+// Fetch saved reports for the current user
+async function fetchReports(): Promise<SavedReport[]> {
+  const { data, error } = await fetchSavedReports();
+
+  if (error) throw error;
+  return data || [];
+}
+
+// Create saved report
+interface CreateSavedReportData {
+  name: string;
+  reportType: ReportType;
+  filters: ReportFilters;
+}
+
+async function createReport(data: CreateSavedReportData): Promise<SavedReport> {
+  const { data: savedReport, error } = await createSavedReport(data);
+
+  if (error) throw error;
+  if (!savedReport) throw new Error('Failed to save report');
+  return savedReport;
+}
+
+// Delete saved report
+async function deleteReport(id: string): Promise<void> {
+  const { error } = await deleteSavedReport(id);
+
+  if (error) throw error;
+}
+
+/**
+ * Hook to fetch the current user's saved report definitions
+ * @returns {UseQueryResult<SavedReport[]>} React Query result with saved reports
+ * @example
+ * const { data: savedReports, isLoading } = useSavedReports();
+ */
+export function useSavedReports() {
+  return useQuery({
+    queryKey: queryKeys.savedReports,
+    queryFn: fetchReports,
+  });
+}
+
+/**
+ * Hook to save a named report definition
+ * @returns {UseMutationResult} React Query mutation with mutate function
+ * @example
+ * const createSavedReport = useCreateSavedReport();
+ * createSavedReport.mutate({ name: 'Grade 9 - Fall', reportType: 'volume', filters });
+ */
+export function useCreateSavedReport() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: createReport,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.savedReports });
+      toast.success('Report saved successfully');
+    },
+    onError: error => {
+      const apiError = handleApiError(error, { customMessage: 'Failed to save report' });
+      toast.error(apiError.message);
+    },
+  });
+}
+
+/**
+ * Hook to delete a saved report with optimistic updates
+ * @returns {UseMutationResult} React Query mutation with mutate function
+ * @example
+ * const deleteSavedReport = useDeleteSavedReport();
+ * deleteSavedReport.mutate('saved-report-uuid');
+ */
+export function useDeleteSavedReport() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deleteReport,
+    onMutate: async id => {
+      // Cancel outgoing refetches
+      await queryClient.cancelQueries({ queryKey: queryKeys.savedReports });
+
+      // Snapshot previous value
+      const previousReports = queryClient.getQueryData(queryKeys.savedReports);
+
+      // Optimistically remove from list
+      queryClient.setQueryData(queryKeys.savedReports, (old: SavedReport[] | undefined) =>
+        old ? old.filter(report => report.id !== id) : []
+      );
+
+      return { previousReports };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.savedReports });
+      toast.success('Saved report deleted');
+    },
+    onError: (error, _, context) => {
+      // Rollback on error
+      if (context?.previousReports) {
+        queryClient.setQueryData(queryKeys.savedReports, context.previousReports);
+      }
+
+      const apiError = handleApiError(error, { customMessage: 'Failed to delete saved report' });
+      toast.error(apiError.message);
+    },
+  });
+}
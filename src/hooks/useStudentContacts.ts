@@ -0,0 +1,161 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  createStudentContactLink,
+  deleteStudentContactLink,
+  fetchStudentContactLinks,
+  updateStudentContactLink,
+} from '@/services/studentContactService';
+import { toast } from '@/utils/toast';
+import { handleApiError } from '@/utils/errorHandling';
+import { queryKeys } from '@/lib/queryClient';
+import type { StudentContactFormData, StudentContactLink } from '@/types/contact';
+
+// Fetch links for a student or a contact
+async function fetchLinks(
+  filter: { studentId: string } | { contactId: string }
+): Promise<StudentContactLink[]> {
+  const { data, error } = await fetchStudentContactLinks(filter);
+
+  if (error) throw error;
+  return data || [];
+}
+
+// Create a link
+async function createLink(data: StudentContactFormData): Promise<StudentContactLink> {
+  const { data: link, error } = await createStudentContactLink(data);
+
+  if (error) throw error;
+  if (!link) throw new Error('Failed to link contact');
+  return link;
+}
+
+// Update a link
+interface UpdateLinkData {
+  id: string;
+  data: StudentContactFormData;
+}
+
+async function updateLink({ id, data }: UpdateLinkData): Promise<StudentContactLink> {
+  const { data: link, error } = await updateStudentContactLink(id, data);
+
+  if (error) throw error;
+  if (!link) throw new Error('Failed to update link');
+  return link;
+}
+
+// Remove a link
+async function deleteLink(link: StudentContactLink): Promise<StudentContactLink> {
+  const { error } = await deleteStudentContactLink(link.id);
+
+  if (error) throw error;
+  return link;
+}
+
+/**
+ * Hook to fetch the contacts linked to a student
+ * @param studentId - Student ID
+ * @returns {UseQueryResult<StudentContactLink[]>} React Query result with links
+ * @example
+ * const { data: links = [] } = useStudentContactLinks(student.id);
+ */
+export function useStudentContactLinks(studentId: string) {
+  return useQuery({
+    queryKey: queryKeys.studentContacts(studentId),
+    queryFn: () => fetchLinks({ studentId }),
+    enabled: !!studentId,
+  });
+}
+
+/**
+ * Hook to fetch the students linked to a contact
+ * @param contactId - Contact ID; the query is disabled when empty
+ * @returns {UseQueryResult<StudentContactLink[]>} React Query result with links
+ * @example
+ * const { data: links = [] } = useContactStudentLinks(contact.id);
+ */
+export function useContactStudentLinks(contactId: string) {
+  return useQuery({
+    queryKey: queryKeys.contactStudents(contactId),
+    queryFn: () => fetchLinks({ contactId }),
+    enabled: !!contactId,
+  });
+}
+
+// Links appear on both the student and the contact
+function useInvalidateLinks() {
+  const queryClient = useQueryClient();
+
+  return (link: Pick<StudentContactLink, 'studentId' | 'contactId'>) => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.studentContacts(link.studentId) });
+    queryClient.invalidateQueries({ queryKey: queryKeys.contactStudents(link.contactId) });
+  };
+}
+
+/**
+ * Hook to link a contact to a student
+ * @returns {UseMutationResult} React Query mutation with mutate function
+ * @example
+ * const createLink = useCreateStudentContactLink();
+ * createLink.mutate({ studentId, contactId, relationship: 'Parent', ... });
+ */
+export function useCreateStudentContactLink() {
+  const invalidateLinks = useInvalidateLinks();
+
+  return useMutation({
+    mutationFn: createLink,
+    onSuccess: link => {
+      invalidateLinks(link);
+      toast.success('Contact linked');
+    },
+    onError: error => {
+      const apiError = handleApiError(error, { customMessage: 'Failed to link contact' });
+      toast.error(apiError.message);
+    },
+  });
+}
+
+/**
+ * Hook to update a student-contact link
+ * @returns {UseMutationResult} React Query mutation with mutate function
+ * @example
+ * const updateLink = useUpdateStudentContactLink();
+ * updateLink.mutate({ id: link.id, data: { ...formData, hasCustody: true } });
+ */
+export function useUpdateStudentContactLink() {
+  const invalidateLinks = useInvalidateLinks();
+
+  return useMutation({
+    mutationFn: updateLink,
+    onSuccess: link => {
+      invalidateLinks(link);
+      toast.success('Link updated');
+    },
+    onError: error => {
+      const apiError = handleApiError(error, { customMessage: 'Failed to update link' });
+      toast.error(apiError.message);
+    },
+  });
+}
+
+/**
+ * Hook to remove a student-contact link
+ * @returns {UseMutationResult} React Query mutation with mutate function
+ * @example
+ * const deleteLink = useDeleteStudentContactLink();
+ * deleteLink.mutate(link);
+ */
+export function useDeleteStudentContactLink() {
+  const invalidateLinks = useInvalidateLinks();
+
+  return useMutation({
+    mutationFn: deleteLink,
+    onSuccess: link => {
+      invalidateLinks(link);
+      toast.success('Link removed');
+    },
+    onError: error => {
+      const apiError = handleApiError(error, { customMessage: 'Failed to remove link' });
+      toast.error(apiError.message);
+    },
+  });
+}
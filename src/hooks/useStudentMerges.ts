@@ -0,0 +1,105 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  dismissDuplicate,
+  fetchDuplicateDismissals,
+  mergeStudents,
+} from '@/services/studentMergeService';
+import { toast } from '@/utils/toast';
+import { handleApiError } from '@/utils/errorHandling';
+import { queryKeys } from '@/lib/queryClient';
+
+// Fetch dismissed duplicate pairs
+async function fetchDismissals(): Promise<string[]> {
+  const { data, error } = await fetchDuplicateDismissals();
+
+  if (error) throw error;
+  return data || [];
+}
+
+// Dismiss a pair
+interface DismissData {
+  studentId: string;
+  otherStudentId: string;
+}
+
+async function dismiss({ studentId, otherStudentId }: DismissData): Promise<void> {
+  const { error } = await dismissDuplicate(studentId, otherStudentId);
+
+  if (error) throw error;
+}
+
+// Merge a duplicate into the survivor
+interface MergeData {
+  survivorId: string;
+  duplicateId: string;
+}
+
+async function merge({ survivorId, duplicateId }: MergeData): Promise<number> {
+  const { data, error } = await mergeStudents(survivorId, duplicateId);
+
+  if (error) throw error;
+  return data ?? 0;
+}
+
+/**
+ * Hook to fetch the duplicate pairs admins marked as different students
+ * @returns {UseQueryResult<string[]>} React Query result with pair keys from getDuplicatePairKey
+ * @example
+ * const { data: dismissed = [] } = useDuplicateDismissals();
+ */
+export function useDuplicateDismissals() {
+  return useQuery({
+    queryKey: queryKeys.duplicateDismissals,
+    queryFn: fetchDismissals,
+  });
+}
+
+/**
+ * Hook to mark a pair of students as not duplicates (admin only)
+ * @returns {UseMutationResult} React Query mutation with mutate function
+ * @example
+ * const dismissDuplicate = useDismissDuplicate();
+ * dismissDuplicate.mutate({ studentId: a.id, otherStudentId: b.id });
+ */
+export function useDismissDuplicate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: dismiss,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.duplicateDismissals });
+      toast.success('Marked as different students');
+    },
+    onError: error => {
+      const apiError = handleApiError(error, { customMessage: 'Failed to dismiss duplicate' });
+      toast.error(apiError.message);
+    },
+  });
+}
+
+/**
+ * Hook to merge a duplicate student into the survivor (admin only)
+ * @returns {UseMutationResult} React Query mutation with mutate function
+ * @example
+ * const mergeStudents = useMergeStudents();
+ * mergeStudents.mutate({ survivorId: kept.id, duplicateId: duplicate.id });
+ */
+export function useMergeStudents() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: merge,
+    onSuccess: count => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.students });
+      queryClient.invalidateQueries({ queryKey: queryKeys.interactions });
+      queryClient.invalidateQueries({ queryKey: queryKeys.appointments });
+      toast.success(
+        `Students merged; ${count} interaction${count !== 1 ? 's' : ''} moved to the kept record`
+      );
+    },
+    onError: error => {
+      const apiError = handleApiError(error, { customMessage: 'Failed to merge students' });
+      toast.error(apiError.message);
+    },
+  });
+}
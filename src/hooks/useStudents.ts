@@ -3,7 +3,15 @@ import { supabase } from '@/services/supabase';
 import { toast } from '@/utils/toast';
 import { handleApiError } from '@/utils/errorHandling';
 import { queryKeys } from '@/lib/queryClient';
-import type { Student, StudentDbResponse } from '@/types/student';
+import { commitStudentImport } from '@/services/studentImportService';
+import { promoteStudentGrades } from '@/services/api';
+import type {
+  Student,
+  StudentDbResponse,
+  StudentImportPlan,
+  StudentImportResult,
+  GradePromotionResult,
+} from '@/types/student';
 
 // Helper function to convert snake_case DB response to camelCase
 function convertStudentFromDb(dbStudent: StudentDbResponse): Student {
@@ -17,6 +25,9 @@ function convertStudentFromDb(dbStudent: StudentDbResponse): Student {
     phone: dbStudent.phone,
     needsFollowUp: dbStudent.needs_follow_up,
     followUpNotes: dbStudent.follow_up_notes,
+    primaryCounselorId: dbStudent.primary_counselor_id ?? undefined,
+    secondaryCounselorId: dbStudent.secondary_counselor_id ?? undefined,
+    archivedAt: dbStudent.archived_at ? new Date(dbStudent.archived_at) : undefined,
     createdAt: new Date(dbStudent.created_at),
     updatedAt: new Date(dbStudent.updated_at),
   };
@@ -49,6 +60,8 @@ interface CreateStudentData {
   gradeLevel: string;
   email?: string;
   phone?: string;
+  primaryCounselorId?: string | null;
+  secondaryCounselorId?: string | null;
 }
 
 async function createStudent(data: CreateStudentData): Promise<Student> {
@@ -59,6 +72,8 @@ async function createStudent(data: CreateStudentData): Promise<Student> {
     grade_level: data.gradeLevel,
     email: data.email || null,
     phone: data.phone || null,
+    primary_counselor_id: data.primaryCounselorId || null,
+    secondary_counselor_id: data.secondaryCounselorId || null,
   };
 
   const { data: newStudent, error } = await supabase
@@ -82,6 +97,8 @@ interface UpdateStudentData {
   phone?: string;
   needsFollowUp?: boolean;
   followUpNotes?: string;
+  primaryCounselorId?: string | null;
+  secondaryCounselorId?: string | null;
 }
 
 async function updateStudent(data: UpdateStudentData): Promise<Student> {
@@ -98,6 +115,10 @@ async function updateStudent(data: UpdateStudentData): Promise<Student> {
     updateData.needs_follow_up = updateFields.needsFollowUp;
   if (updateFields.followUpNotes !== undefined)
     updateData.follow_up_notes = updateFields.followUpNotes || null;
+  if (updateFields.primaryCounselorId !== undefined)
+    updateData.primary_counselor_id = updateFields.primaryCounselorId || null;
+  if (updateFields.secondaryCounselorId !== undefined)
+    updateData.secondary_counselor_id = updateFields.secondaryCounselorId || null;
 
   const { data: updatedStudent, error } = await supabase
     .from('students')
@@ -117,6 +138,24 @@ async function deleteStudent(id: string): Promise<void> {
   if (error) throw error;
 }
 
+// Import students from a CSV import plan
+async function importStudents(plan: StudentImportPlan): Promise<StudentImportResult> {
+  const { data, error } = await commitStudentImport(plan);
+
+  if (error) throw error;
+  if (!data) throw new Error('Failed to import students');
+  return data;
+}
+
+// Promote all active students one grade
+async function promoteGrades(): Promise<GradePromotionResult> {
+  const { data, error } = await promoteStudentGrades();
+
+  if (error) throw error;
+  if (!data) throw new Error('Failed to promote student grades');
+  return data;
+}
+
 /**
  * Hook to fetch all students for the current tenant
  * @returns {UseQueryResult<Student[]>} React Query result with students array
@@ -279,3 +318,58 @@ export function useDeleteStudent() {
     },
   });
 }
+
+/**
+ * Hook to commit a CSV roster import plan
+ * @returns {UseMutationResult} React Query mutation with mutate function
+ * @example
+ * const importStudents = useImportStudents();
+ * importStudents.mutate(plan);
+ */
+export function useImportStudents() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: importStudents,
+    onSuccess: result => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.students });
+
+      const summary = `${result.created} created, ${result.updated} updated`;
+      if (result.failed > 0) {
+        toast.warning('Import finished with errors', `${summary}, ${result.failed} failed`);
+      } else {
+        toast.success('Students imported successfully', summary);
+      }
+    },
+    onError: error => {
+      const apiError = handleApiError(error, { customMessage: 'Failed to import students' });
+      toast.error(apiError.message);
+    },
+  });
+}
+
+/**
+ * Hook to run the year-end grade promotion (admin only)
+ * @returns {UseMutationResult} React Query mutation with mutate function
+ * @example
+ * const promoteGrades = usePromoteGrades();
+ * promoteGrades.mutate();
+ */
+export function usePromoteGrades() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: promoteGrades,
+    onSuccess: result => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.students });
+      toast.success(
+        'Grades promoted successfully',
+        `${result.promoted} promoted, ${result.archived} graduated and archived`
+      );
+    },
+    onError: error => {
+      const apiError = handleApiError(error, { customMessage: 'Failed to promote student grades' });
+      toast.error(apiError.message);
+    },
+  });
+}
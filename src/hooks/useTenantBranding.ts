@@ -0,0 +1,65 @@
+import { useMutation } from '@tanstack/react-query';
+import { updateTenantBranding, uploadTenantLogo } from '@/services/tenantService';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/utils/toast';
+import { handleApiError } from '@/utils/errorHandling';
+import type { TenantBranding, TenantBrandingFormData } from '@/types/tenant';
+
+// Save the tenant's branding
+async function saveBranding(data: TenantBrandingFormData): Promise<TenantBranding> {
+  const { data: branding, error } = await updateTenantBranding(data);
+
+  if (error) throw error;
+  if (!branding) throw new Error('Failed to save branding');
+  return branding;
+}
+
+// Upload a logo, returning its URL
+async function uploadLogo(file: File): Promise<string> {
+  const { data: url, error } = await uploadTenantLogo(file);
+
+  if (error) throw error;
+  if (!url) throw new Error('Failed to upload logo');
+  return url;
+}
+
+/**
+ * Hook to save the tenant's branding (admin only). The app picks up the new
+ * branding straight away.
+ * @returns {UseMutationResult} React Query mutation with mutate function
+ * @example
+ * const updateBranding = useUpdateTenantBranding();
+ * updateBranding.mutate({ ...form, primaryColor: '#7c3aed' });
+ */
+export function useUpdateTenantBranding() {
+  const { refreshBranding } = useAuth();
+
+  return useMutation({
+    mutationFn: saveBranding,
+    onSuccess: () => {
+      void refreshBranding();
+      toast.success('Branding saved');
+    },
+    onError: error => {
+      const apiError = handleApiError(error, { customMessage: 'Failed to save branding' });
+      toast.error(apiError.message);
+    },
+  });
+}
+
+/**
+ * Hook to upload a logo image; save the returned URL with useUpdateTenantBranding
+ * @returns {UseMutationResult} React Query mutation resolving to the logo URL
+ * @example
+ * const uploadLogo = useUploadTenantLogo();
+ * uploadLogo.mutate(file, { onSuccess: logoUrl => setForm({ ...form, logoUrl }) });
+ */
+export function useUploadTenantLogo() {
+  return useMutation({
+    mutationFn: uploadLogo,
+    onError: error => {
+      const apiError = handleApiError(error, { customMessage: 'Failed to upload logo' });
+      toast.error(apiError.message);
+    },
+  });
+}
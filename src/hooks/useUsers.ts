@@ -0,0 +1,25 @@
+import { useQuery } from '@tanstack/react-query';
+import { fetchUsers as fetchTenantUsers } from '@/services/api';
+import { queryKeys } from '@/lib/queryClient';
+import type { User } from '@/types/user';
+
+// Fetch all users in the tenant
+async function fetchUsers(): Promise<User[]> {
+  const { data, error } = await fetchTenantUsers();
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Hook to fetch all counselors and admins in the current tenant
+ * @returns {UseQueryResult<User[]>} React Query result with users array
+ * @example
+ * const { data: users = [] } = useUsers();
+ */
+export function useUsers() {
+  return useQuery({
+    queryKey: queryKeys.users,
+    queryFn: fetchUsers,
+  });
+}
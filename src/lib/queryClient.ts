@@ -40,20 +40,48 @@ export const queryKeys = {
   // Interactions
   interactions: ['interactions'] as const,
   interaction: (id: string) => ['interactions', id] as const,
+  interactionPages: (filters: object) => ['interactions', 'pages', filters] as const,
+  recentInteractions: (filters: object, limit: number) =>
+    ['interactions', 'recent', filters, limit] as const,
+  pendingFollowUpInteractions: ['interactions', 'followUps', 'pending'] as const,
   interactionsByStudent: (studentId: string) => ['interactions', 'student', studentId] as const,
   interactionsByContact: (contactId: string) => ['interactions', 'contact', contactId] as const,
   interactionsByDateRange: (startDate: string, endDate: string) =>
     ['interactions', 'dateRange', startDate, endDate] as const,
 
+  // Appointments
+  appointments: ['appointments'] as const,
+
+  // Calendar feed
+  calendarFeed: ['calendarFeed'] as const,
+
+  // Note encryption
+  noteEncryption: ['noteEncryption'] as const,
+
+  // Audit log
+  auditLog: (filters: object) => ['auditLog', filters] as const,
+
+  // Email deliveries
+  emailDeliveries: (invitationId: string) => ['emailDeliveries', invitationId] as const,
+
+  // Email templates
+  emailTemplates: ['emailTemplates'] as const,
+
   // Students
   students: ['students'] as const,
   student: (id: string) => ['students', id] as const,
   studentSearch: (query: string) => ['students', 'search', query] as const,
+  caseloadSizes: ['students', 'caseloads'] as const,
+  riskFlags: (studentId: string) => ['students', studentId, 'riskFlags'] as const,
+  goals: (studentId: string) => ['students', studentId, 'goals'] as const,
+  duplicateDismissals: ['students', 'duplicateDismissals'] as const,
+  studentContacts: (studentId: string) => ['students', studentId, 'contacts'] as const,
 
   // Contacts
   contacts: ['contacts'] as const,
   contact: (id: string) => ['contacts', id] as const,
   contactSearch: (query: string) => ['contacts', 'search', query] as const,
+  contactStudents: (contactId: string) => ['contacts', contactId, 'students'] as const,
 
   // Reason categories
   categories: ['categories'] as const,
@@ -71,4 +99,29 @@ export const queryKeys = {
   // Follow-ups
   followUps: ['followUps'] as const,
   followUpsByStudent: (studentId: string) => ['followUps', 'student', studentId] as const,
+  followUpTasks: ['followUps', 'tasks'] as const,
+  followUpTask: (interactionId: string) =>
+    ['followUps', 'tasks', 'interaction', interactionId] as const,
+  followUpTaskHistory: (taskId: string) => ['followUps', 'tasks', taskId, 'history'] as const,
+  openFollowUpTaskCount: (userId: string) => ['followUps', 'tasks', 'count', userId] as const,
+  followUpDigestPreferences: ['followUpDigestPreferences'] as const,
+
+  // Reports
+  reportAggregates: (filters: object, trendBucket: string) =>
+    ['reports', 'aggregates', filters, trendBucket] as const,
+
+  // Saved reports
+  savedReports: ['savedReports'] as const,
+
+  // Districts
+  district: ['district'] as const,
+  districtReportAggregates: (startMonth: string, months: number) =>
+    ['district', 'aggregates', startMonth, months] as const,
+  districtReasonTemplates: ['district', 'reasonTemplates'] as const,
+
+  // Notifications
+  notifications: ['notifications'] as const,
+
+  // Global search
+  globalSearch: (query: string) => ['search', query] as const,
 };
@@ -4,9 +4,23 @@ import {
   ReasonManagement,
   AdminDashboard,
   TenantManagement,
+  GradePromotion,
+  CaseloadAssignment,
+  DuplicateStudents,
+  NoteEncryption,
+  AuditLog,
 } from '@/components/admin';
 
-type AdminTab = 'dashboard' | 'users' | 'categories' | 'organization';
+type AdminTab =
+  | 'dashboard'
+  | 'users'
+  | 'categories'
+  | 'caseloads'
+  | 'duplicates'
+  | 'schoolYear'
+  | 'encryption'
+  | 'audit'
+  | 'organization';
 
 export function Admin() {
   const [activeTab, setActiveTab] = useState<AdminTab>('dashboard');
@@ -19,6 +33,31 @@ export function Admin() {
       label: 'Reason Categories',
       description: 'Manage interaction categories',
     },
+    {
+      id: 'caseloads' as AdminTab,
+      label: 'Caseloads',
+      description: 'Assign students to counselors',
+    },
+    {
+      id: 'duplicates' as AdminTab,
+      label: 'Duplicates',
+      description: 'Review and merge duplicate students',
+    },
+    {
+      id: 'schoolYear' as AdminTab,
+      label: 'School Year',
+      description: 'Promote grades and archive graduates',
+    },
+    {
+      id: 'encryption' as AdminTab,
+      label: 'Encryption',
+      description: 'Rotate the note encryption key',
+    },
+    {
+      id: 'audit' as AdminTab,
+      label: 'Audit Log',
+      description: 'Review who viewed or changed student records',
+    },
     {
       id: 'organization' as AdminTab,
       label: 'Organization',
@@ -60,6 +99,11 @@ export function Admin() {
         {activeTab === 'dashboard' && <AdminDashboard />}
         {activeTab === 'users' && <UserManagement />}
         {activeTab === 'categories' && <ReasonManagement />}
+        {activeTab === 'caseloads' && <CaseloadAssignment />}
+        {activeTab === 'duplicates' && <DuplicateStudents />}
+        {activeTab === 'schoolYear' && <GradePromotion />}
+        {activeTab === 'encryption' && <NoteEncryption />}
+        {activeTab === 'audit' && <AuditLog />}
         {activeTab === 'organization' && <TenantManagement />}
       </div>
     </div>
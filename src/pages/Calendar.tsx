@@ -1,10 +1,23 @@
 import { useState, useRef, useMemo } from 'react';
-import { CalendarView, EventModal, CalendarFilters } from '@/components/calendar';
+import { CalendarView, EventModal, CalendarFilters, CalendarExport } from '@/components/calendar';
 import { InteractionDetail } from '@/components/interactions/InteractionDetail';
 import { useInteractions } from '@/hooks/useInteractions';
-import { transformInteractionsToEvents } from '@/utils/calendarHelpers';
+import {
+  useAppointments,
+  useCreateAppointment,
+  useUpdateAppointment,
+  useCancelAppointment,
+  useMarkAppointmentHeld,
+} from '@/hooks/useAppointments';
+import {
+  transformInteractionsToEvents,
+  transformAppointmentsToEvents,
+  appointmentToFormData,
+} from '@/utils/calendarHelpers';
+import { formatDateTimeForInput } from '@/utils/dateHelpers';
 import type { EventClickArg, DateSelectArg, EventDropArg } from '@fullcalendar/core';
 import type { Interaction, InteractionFormData } from '@/types/interaction';
+import type { Appointment, AppointmentEditScope, AppointmentFormData } from '@/types/appointment';
 import type { CalendarViewRef } from '@/components/calendar/CalendarView';
 
 export function Calendar() {
@@ -18,8 +31,15 @@ export function Calendar() {
     createInteraction,
     updateInteraction,
     deleteInteraction,
+    refreshInteractions,
   } = useInteractions();
 
+  const { data: appointments = [] } = useAppointments();
+  const createAppointment = useCreateAppointment();
+  const updateAppointment = useUpdateAppointment();
+  const cancelAppointment = useCancelAppointment();
+  const markAppointmentHeld = useMarkAppointmentHeld();
+
   const calendarRef = useRef<CalendarViewRef>(null);
   const [selectedView, setSelectedView] = useState<'dayGridMonth' | 'timeGridWeek' | 'timeGridDay'>(
     'dayGridMonth'
@@ -30,6 +50,7 @@ export function Calendar() {
   const [detailModalOpen, setDetailModalOpen] = useState(false);
   const [eventModalOpen, setEventModalOpen] = useState(false);
   const [selectedInteraction, setSelectedInteraction] = useState<Interaction | null>(null);
+  const [selectedAppointment, setSelectedAppointment] = useState<Appointment | null>(null);
   const [prefilledDate, setPrefilledDate] = useState<Date | undefined>(undefined);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
@@ -42,8 +63,18 @@ export function Calendar() {
     return interactions.filter(interaction => selectedCategories.includes(interaction.categoryId));
   }, [interactions, selectedCategories]);
 
-  // Transform interactions to calendar events
-  const events = transformInteractionsToEvents(filteredInteractions);
+  const filteredAppointments = useMemo(() => {
+    if (selectedCategories.length === 0) {
+      return appointments;
+    }
+    return appointments.filter(appointment => selectedCategories.includes(appointment.categoryId));
+  }, [appointments, selectedCategories]);
+
+  // Transform interactions and scheduled appointments to calendar events
+  const events = [
+    ...transformInteractionsToEvents(filteredInteractions),
+    ...transformAppointmentsToEvents(filteredAppointments, students, contacts, categories),
+  ];
 
   // Handle category filter toggle
   const handleCategoryToggle = (categoryId: string) => {
@@ -71,8 +102,17 @@ export function Calendar() {
     calendarRef.current?.today();
   };
 
-  // Handle event click - open detail modal
+  // Handle event click - open detail modal, or the edit modal for planned appointments
   const handleEventClick = (info: EventClickArg) => {
+    const appointment = info.event.extendedProps.appointment as Appointment | undefined;
+    if (appointment) {
+      setSelectedAppointment(appointment);
+      setSelectedInteraction(null);
+      setPrefilledDate(undefined);
+      setEventModalOpen(true);
+      return;
+    }
+
     const interaction = info.event.extendedProps.interaction as Interaction;
     setSelectedInteraction(interaction);
     setDetailModalOpen(true);
@@ -82,12 +122,14 @@ export function Calendar() {
   const handleDateSelect = (info: DateSelectArg) => {
     setPrefilledDate(info.start);
     setSelectedInteraction(null);
+    setSelectedAppointment(null);
     setEventModalOpen(true);
   };
 
-  // Handle event drop - update interaction start time
+  // Handle event drop - update interaction or appointment start time
   const handleEventDrop = async (info: EventDropArg) => {
     const interaction = info.event.extendedProps.interaction as Interaction;
+    const appointment = info.event.extendedProps.appointment as Appointment | undefined;
     const newStartTime = info.event.start;
 
     if (!newStartTime) {
@@ -97,14 +139,17 @@ export function Calendar() {
 
     // Show confirmation
     const confirmed = window.confirm(
-      `Reschedule this interaction to ${newStartTime.toLocaleString('en-US', {
-        weekday: 'short',
-        month: 'short',
-        day: 'numeric',
-        hour: 'numeric',
-        minute: '2-digit',
-        hour12: true,
-      })}?`
+      `Reschedule this ${appointment ? 'appointment' : 'interaction'} to ${newStartTime.toLocaleString(
+        'en-US',
+        {
+          weekday: 'short',
+          month: 'short',
+          day: 'numeric',
+          hour: 'numeric',
+          minute: '2-digit',
+          hour12: true,
+        }
+      )}?`
     );
 
     if (!confirmed) {
@@ -112,6 +157,23 @@ export function Calendar() {
       return;
     }
 
+    // Dragging moves only this occurrence of a recurring appointment
+    if (appointment) {
+      try {
+        await updateAppointment.mutateAsync({
+          appointment,
+          data: {
+            ...appointmentToFormData(appointment),
+            startTime: formatDateTimeForInput(newStartTime),
+          },
+          scope: 'occurrence',
+        });
+      } catch {
+        info.revert();
+      }
+      return;
+    }
+
     try {
       await updateInteraction(interaction.id, {
         startTime: newStartTime.toISOString(),
@@ -126,6 +188,7 @@ export function Calendar() {
   // Handle edit from detail modal
   const handleEdit = (interaction: Interaction) => {
     setSelectedInteraction(interaction);
+    setSelectedAppointment(null);
     setDetailModalOpen(false);
     setEventModalOpen(true);
   };
@@ -174,6 +237,47 @@ export function Calendar() {
     }
   };
 
+  // Handle appointment form submit (schedule or update)
+  const handleAppointmentSubmit = async (
+    data: AppointmentFormData,
+    scope: AppointmentEditScope
+  ) => {
+    if (selectedAppointment) {
+      await updateAppointment.mutateAsync({ appointment: selectedAppointment, data, scope });
+    } else {
+      await createAppointment.mutateAsync(data);
+    }
+    setSelectedAppointment(null);
+    setPrefilledDate(undefined);
+  };
+
+  // Handle logging a planned appointment as a held interaction
+  const handleMarkHeld = async (appointment: Appointment, data: InteractionFormData) => {
+    await markAppointmentHeld.mutateAsync({ appointmentId: appointment.id, interaction: data });
+    setSelectedAppointment(null);
+    await refreshInteractions();
+  };
+
+  // Handle cancelling one appointment or the rest of a series
+  const handleCancelAppointment = async (appointment: Appointment, scope: AppointmentEditScope) => {
+    const confirmed = window.confirm(
+      scope === 'series' && appointment.recurrence.frequency !== 'NONE'
+        ? 'Cancel this and all upcoming appointments in the series?'
+        : 'Cancel this appointment?'
+    );
+
+    if (!confirmed) return;
+
+    await cancelAppointment.mutateAsync({ appointment, scope });
+    setSelectedAppointment(null);
+  };
+
+  const isSavingAppointment =
+    createAppointment.isPending ||
+    updateAppointment.isPending ||
+    cancelAppointment.isPending ||
+    markAppointmentHeld.isPending;
+
   if (isLoading) {
     return (
       <div className="p-6">
@@ -194,7 +298,7 @@ export function Calendar() {
 
       <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
         {/* Filters Sidebar */}
-        <div className="lg:col-span-1">
+        <div className="lg:col-span-1 space-y-6">
           <CalendarFilters
             categories={categories}
             selectedCategories={selectedCategories}
@@ -204,6 +308,7 @@ export function Calendar() {
             onViewChange={handleViewChange}
             onToday={handleToday}
           />
+          <CalendarExport interactions={interactions} />
         </div>
 
         {/* Calendar */}
@@ -229,18 +334,22 @@ export function Calendar() {
         isDeleting={isDeleting}
       />
 
-      {/* Create/Edit Interaction Modal */}
+      {/* Create/Edit Interaction and Appointment Modal */}
       <EventModal
         open={eventModalOpen}
         onOpenChange={setEventModalOpen}
         interaction={selectedInteraction || undefined}
+        appointment={selectedAppointment || undefined}
         prefilledDate={prefilledDate}
         students={students}
         contacts={contacts}
         categories={categories}
         subcategories={subcategories}
         onSubmit={handleFormSubmit}
-        isLoading={isSubmitting}
+        onAppointmentSubmit={handleAppointmentSubmit}
+        onMarkHeld={handleMarkHeld}
+        onCancelAppointment={handleCancelAppointment}
+        isLoading={isSubmitting || isSavingAppointment}
       />
     </div>
   );
@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { ContactList, ContactDetail, ContactForm } from '@/components/contacts';
 import type { Contact } from '@/types/contact';
@@ -21,12 +22,25 @@ export function Contacts() {
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [searchParams, setSearchParams] = useSearchParams();
 
   // Load data from API
   useEffect(() => {
     loadData();
   }, []);
 
+  // Contact linked from global search, shown until its dialog is closed
+  const linkedContactId = searchParams.get('contactId');
+  const linkedContact = linkedContactId ? contacts.find(c => c.id === linkedContactId) : undefined;
+  const detailContact = linkedContact ?? selectedContact;
+
+  // Drop links to contacts that no longer exist
+  useEffect(() => {
+    if (linkedContactId && !isLoading && !linkedContact) {
+      setSearchParams({}, { replace: true });
+    }
+  }, [linkedContactId, linkedContact, isLoading, setSearchParams]);
+
   const loadData = async () => {
     setIsLoading(true);
     try {
@@ -56,6 +70,13 @@ export function Contacts() {
     }
   };
 
+  const handleDetailOpenChange = (open: boolean) => {
+    setIsDetailOpen(open);
+    if (!open && linkedContactId) {
+      setSearchParams({}, { replace: true });
+    }
+  };
+
   const handleEditContact = (contactId: string) => {
     const contact = contacts.find(c => c.id === contactId);
     if (contact) {
@@ -124,14 +145,14 @@ export function Contacts() {
 
   const handleAddInteraction = () => {
     // This would navigate to the interaction form with the contact pre-selected
-    console.log('Add interaction for contact:', selectedContact?.id);
+    console.log('Add interaction for contact:', detailContact?.id);
     // TODO: Implement navigation to interaction form
   };
 
   const handleEditFromDetail = () => {
-    if (selectedContact) {
-      setEditingContact(selectedContact);
-      setIsDetailOpen(false);
+    if (detailContact) {
+      setEditingContact(detailContact);
+      handleDetailOpenChange(false);
       setFormErrors({});
       setIsFormOpen(true);
     }
@@ -169,10 +190,10 @@ export function Contacts() {
       />
 
       <ContactDetail
-        contact={selectedContact}
+        contact={detailContact}
         interactions={interactions}
-        open={isDetailOpen}
-        onOpenChange={setIsDetailOpen}
+        open={isDetailOpen || !!linkedContact}
+        onOpenChange={handleDetailOpenChange}
         onAddInteraction={handleAddInteraction}
         onEdit={handleEditFromDetail}
         onDelete={handleDeleteContact}
@@ -1,6 +1,8 @@
 import { useState } from 'react';
-import { useInteractions } from '@/hooks/useInteractions';
-import { useDashboardStats } from '@/hooks/useDashboardStats';
+import { useAuth } from '@/contexts/AuthContext';
+import { useRecentInteractions } from '@/hooks/useInteractionsQuery';
+import { useReportAggregates } from '@/hooks/useReportAggregates';
+import { formatDateForInput } from '@/utils/dateHelpers';
 import {
   DashboardStats,
   InteractionChart,
@@ -18,19 +20,34 @@ export function Dashboard() {
     return { startDate, endDate };
   });
 
-  const { interactions, isLoading, error } = useInteractions();
+  const { user } = useAuth();
 
-  const stats = useDashboardStats({
-    interactions,
-    startDate: dateRange.startDate,
-    endDate: dateRange.endDate,
+  // Counselors see only their own data, admins see all
+  const counselorId = user?.role === 'COUNSELOR' ? user.id : undefined;
+
+  // Totals are computed in the database
+  const {
+    data: aggregates,
+    isLoading: isLoadingAggregates,
+    error: aggregatesError,
+  } = useReportAggregates({ ...dateRange, counselorId });
+
+  // Only the ten newest interactions in the range are loaded
+  const {
+    data: recentInteractions = [],
+    isLoading,
+    error,
+  } = useRecentInteractions({
+    startDate: formatDateForInput(dateRange.startDate),
+    endDate: formatDateForInput(dateRange.endDate),
+    counselorId,
   });
 
   const handleDateRangeChange = (startDate: Date, endDate: Date) => {
     setDateRange({ startDate, endDate });
   };
 
-  if (isLoading) {
+  if (isLoading || isLoadingAggregates) {
     return (
       <PageTransition>
         <div className="page-container">
@@ -40,12 +57,14 @@ export function Dashboard() {
     );
   }
 
-  if (error) {
+  if (error || aggregatesError) {
     return (
       <PageTransition>
         <div className="page-container">
           <div className="flex items-center justify-center h-64">
-            <p className="text-destructive">Error loading dashboard: {error}</p>
+            <p className="text-destructive">
+              Error loading dashboard: {(error || aggregatesError)?.message}
+            </p>
           </div>
         </div>
       </PageTransition>
@@ -69,15 +88,15 @@ export function Dashboard() {
 
         {/* Statistics Cards */}
         <DashboardStats
-          totalInteractions={stats.totalInteractions}
-          totalStudents={stats.totalStudents}
-          totalTimeSpent={stats.totalTimeSpent}
+          totalInteractions={aggregates?.summary.totalInteractions ?? 0}
+          totalStudents={aggregates?.summary.totalStudents ?? 0}
+          totalTimeSpent={aggregates?.summary.totalDuration ?? 0}
         />
 
         {/* Charts and Activity */}
         <div className="grid gap-6 grid-cols-1 lg:grid-cols-2">
-          <InteractionChart categoryBreakdown={stats.categoryBreakdown} />
-          <RecentActivity interactions={stats.recentInteractions} />
+          <InteractionChart categoryBreakdown={aggregates?.categoryBreakdown ?? []} />
+          <RecentActivity interactions={recentInteractions} />
         </div>
       </div>
     </PageTransition>
@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { useDistrict } from '@/hooks/useDistrict';
+import { DistrictOverview, DistrictReasonTemplates } from '@/components/district';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { AlertTriangle } from 'lucide-react';
+
+type DistrictTab = 'overview' | 'templates';
+
+export function District() {
+  const [activeTab, setActiveTab] = useState<DistrictTab>('overview');
+  const { data: district, isLoading, error } = useDistrict();
+
+  const tabs = [
+    { id: 'overview' as DistrictTab, label: 'Overview' },
+    { id: 'templates' as DistrictTab, label: 'Reason Templates' },
+  ];
+
+  if (isLoading) {
+    return (
+      <div className="p-6">
+        <div className="flex items-center justify-center py-12">
+          <LoadingSpinner />
+          <span className="ml-2 text-gray-600">Loading district...</span>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !district) {
+    return (
+      <div className="p-6">
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+          <div className="flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5 text-yellow-600" />
+            <p className="text-yellow-800">
+              {error ? 'Failed to load district' : 'Your school is not part of a district.'}
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-gray-900">{district.name}</h1>
+        <p className="mt-2 text-gray-600">
+          Totals across {district.schools.length} school
+          {district.schools.length !== 1 ? 's' : ''} and the reason categories they share
+        </p>
+      </div>
+
+      {/* Tabs */}
+      <div className="border-b border-gray-200 mb-6">
+        <nav className="-mb-px flex space-x-8">
+          {tabs.map(tab => (
+            <button
+              key={tab.id}
+              onClick={() => setActiveTab(tab.id)}
+              className={`
+                py-4 px-1 border-b-2 font-medium text-sm transition-colors
+                ${
+                  activeTab === tab.id
+                    ? 'border-blue-500 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }
+              `}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </nav>
+      </div>
+
+      {/* Tab Content */}
+      <div>
+        {activeTab === 'overview' && <DistrictOverview district={district} />}
+        {activeTab === 'templates' && <DistrictReasonTemplates district={district} />}
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,6 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import {
@@ -6,9 +8,15 @@ import {
   InteractionList,
   InteractionDetail,
   FollowUpList,
+  FollowUpDigestSettings,
   FollowUpCompleteModal,
+  FollowUpHandoffDialog,
 } from '@/components/interactions';
-import { useInteractions } from '@/hooks/useInteractions';
+import { useStudents } from '@/hooks/useStudents';
+import { useContacts } from '@/hooks/useContacts';
+import { useReasonCategories, useReasonSubcategories } from '@/hooks/useReasonCategories';
+import { useInteractionQuery, usePendingFollowUpInteractions } from '@/hooks/useInteractionsQuery';
+import { useFollowUpTasks } from '@/hooks/useFollowUpTasks';
 import {
   createInteraction,
   updateInteraction,
@@ -16,21 +24,51 @@ import {
   completeFollowUp,
 } from '@/services/api';
 import { handleFormSubmission } from '@/utils/formSubmission';
+import { toast } from '@/utils/toast';
+import { queryKeys } from '@/lib/queryClient';
+import type { FollowUpTask } from '@/types/followUpTask';
 import type { Interaction, InteractionFormData } from '@/types/interaction';
 
+function getSubjectName(interaction: Interaction): string | undefined {
+  if (interaction.isGroup) {
+    return 'the group session';
+  }
+  const person = interaction.student ?? interaction.contact;
+  return person ? `${person.firstName} ${person.lastName}` : undefined;
+}
+
 export function Interactions() {
+  const [activeTab, setActiveTab] = useState<'all' | 'followups'>('all');
+
+  // What the form and filters offer; the list pages through its own queries
+  const { data: students = [], isLoading: isLoadingStudents, error: studentsError } = useStudents();
+  const { data: contacts = [], isLoading: isLoadingContacts, error: contactsError } = useContacts();
   const {
-    interactions,
-    students,
-    contacts,
-    categories,
-    subcategories,
-    isLoading,
-    error,
-    refreshInteractions,
-  } = useInteractions();
+    data: categories = [],
+    isLoading: isLoadingCategories,
+    error: categoriesError,
+  } = useReasonCategories();
+  const { data: subcategories = [], error: subcategoriesError } = useReasonSubcategories();
+  const isLoading = isLoadingStudents || isLoadingContacts || isLoadingCategories;
+  const error =
+    studentsError || contactsError || categoriesError || subcategoriesError
+      ? 'Failed to load students, contacts and categories. Please try again.'
+      : null;
+
+  // Only the interactions with pending follow-ups, once the tab is opened
+  const { data: followUpInteractions = [], isLoading: isLoadingFollowUps } =
+    usePendingFollowUpInteractions(activeTab === 'followups');
+  const {
+    data: followUpTasks,
+    isLoading: isLoadingTasks,
+    refetch: refetchFollowUpTasks,
+  } = useFollowUpTasks();
+  const queryClient = useQueryClient();
+
+  const refreshLists = () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.interactions });
+  };
 
-  const [activeTab, setActiveTab] = useState<'all' | 'followups'>('all');
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [isDetailOpen, setIsDetailOpen] = useState(false);
   const [isCompleteModalOpen, setIsCompleteModalOpen] = useState(false);
@@ -38,6 +76,32 @@ export function Interactions() {
   const [editingInteraction, setEditingInteraction] = useState<Interaction | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [handoff, setHandoff] = useState<{ task: FollowUpTask; interaction: Interaction } | null>(
+    null
+  );
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // Interaction linked from global search, shown until its dialog is closed
+  const linkedInteractionId = searchParams.get('interactionId');
+  const { data: linkedInteractionData, isError: isLinkedInteractionError } = useInteractionQuery(
+    linkedInteractionId ?? ''
+  );
+  const linkedInteraction = linkedInteractionId ? linkedInteractionData : undefined;
+  const detailInteraction = linkedInteraction ?? selectedInteraction;
+
+  // Drop links to interactions that are not visible to the current user
+  useEffect(() => {
+    if (linkedInteractionId && isLinkedInteractionError) {
+      setSearchParams({}, { replace: true });
+    }
+  }, [linkedInteractionId, isLinkedInteractionError, setSearchParams]);
+
+  const handleDetailOpenChange = (open: boolean) => {
+    setIsDetailOpen(open);
+    if (!open && linkedInteractionId) {
+      setSearchParams({}, { replace: true });
+    }
+  };
 
   const handleCreateClick = () => {
     setEditingInteraction(null);
@@ -50,6 +114,12 @@ export function Interactions() {
   };
 
   const handleEdit = (interaction: Interaction) => {
+    // Saving the form would overwrite notes that could not be decrypted
+    if (interaction.notesDecryptionFailed) {
+      toast.error('This interaction cannot be edited because its notes could not be decrypted');
+      return;
+    }
+
     setEditingInteraction(interaction);
     setIsFormOpen(true);
   };
@@ -68,9 +138,9 @@ export function Interactions() {
     await handleFormSubmission(() => deleteInteraction(interaction.id), {
       successMessage: 'Interaction deleted successfully',
       onSuccess: () => {
-        setIsDetailOpen(false);
+        handleDetailOpenChange(false);
         setSelectedInteraction(null);
-        refreshInteractions();
+        refreshLists();
       },
       showErrorToast: true,
     });
@@ -87,7 +157,7 @@ export function Interactions() {
         onSuccess: () => {
           setIsFormOpen(false);
           setEditingInteraction(null);
-          refreshInteractions();
+          refreshLists();
         },
         showErrorToast: true,
       });
@@ -97,7 +167,7 @@ export function Interactions() {
         onSuccess: () => {
           setIsFormOpen(false);
           setEditingInteraction(null);
-          refreshInteractions();
+          refreshLists();
         },
         showErrorToast: true,
       });
@@ -124,7 +194,8 @@ export function Interactions() {
         onSuccess: () => {
           setIsCompleteModalOpen(false);
           setSelectedInteraction(null);
-          refreshInteractions();
+          refreshLists();
+          refetchFollowUpTasks();
         },
         showErrorToast: true,
       }
@@ -138,7 +209,11 @@ export function Interactions() {
   // Convert interaction to form data for editing
   const getInitialFormData = (interaction: Interaction): Partial<InteractionFormData> => {
     return {
-      type: interaction.studentId ? 'student' : 'contact',
+      type: interaction.isGroup ? 'group' : interaction.studentId ? 'student' : 'contact',
+      participants: interaction.participants.map(({ studentId, attended }) => ({
+        studentId,
+        attended,
+      })),
       studentId: interaction.studentId,
       contactId: interaction.contactId,
       categoryId: interaction.categoryId,
@@ -212,21 +287,24 @@ export function Interactions() {
       {/* Tab Content */}
       {activeTab === 'all' ? (
         <InteractionList
-          interactions={interactions}
           students={students}
           contacts={contacts}
           categories={categories}
           onView={handleView}
           onEdit={handleEdit}
-          isLoading={isLoading}
         />
       ) : (
-        <FollowUpList
-          interactions={interactions}
-          onMarkComplete={handleMarkComplete}
-          onViewInteraction={handleView}
-          isLoading={isLoading}
-        />
+        <div className="space-y-4">
+          <FollowUpDigestSettings />
+          <FollowUpList
+            interactions={followUpInteractions}
+            tasks={followUpTasks}
+            onMarkComplete={handleMarkComplete}
+            onViewInteraction={handleView}
+            onHandOff={(task, interaction) => setHandoff({ task, interaction })}
+            isLoading={isLoadingFollowUps || isLoadingTasks}
+          />
+        </div>
       )}
 
       {/* Create/Edit Form Dialog */}
@@ -253,9 +331,9 @@ export function Interactions() {
 
       {/* Detail View Dialog */}
       <InteractionDetail
-        interaction={selectedInteraction}
-        open={isDetailOpen}
-        onOpenChange={setIsDetailOpen}
+        interaction={detailInteraction}
+        open={isDetailOpen || !!linkedInteraction}
+        onOpenChange={handleDetailOpenChange}
         onEdit={handleEdit}
         onDelete={handleDelete}
         isDeleting={isDeleting}
@@ -271,6 +349,13 @@ export function Interactions() {
         }}
         onComplete={handleCompleteFollowUp}
       />
+
+      {/* Follow-up Handoff Dialog */}
+      <FollowUpHandoffDialog
+        task={handoff?.task ?? null}
+        subjectName={handoff ? getSubjectName(handoff.interaction) : undefined}
+        onOpenChange={open => !open && setHandoff(null)}
+      />
     </div>
   );
 }
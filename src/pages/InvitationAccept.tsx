@@ -199,9 +199,9 @@ function InvitationAcceptContent() {
       // Clear session data after successful registration
       clearSession();
 
-      // Redirect to dashboard after successful registration
+      // Redirect to the tenant's landing page after successful registration
       // If auto-login failed, user will be redirected to login page by auth guards
-      navigate('/dashboard');
+      navigate('/');
     } catch (error) {
       toast.error('An unexpected error occurred during registration');
       setIsSubmitting(false);
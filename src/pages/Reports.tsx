@@ -1,8 +1,197 @@
+import { useMemo, useState } from 'react';
+import { useStudents } from '@/hooks/useStudents';
+import { useReasonCategories } from '@/hooks/useReasonCategories';
+import { useUsers } from '@/hooks/useUsers';
+import { useReportAggregates } from '@/hooks/useReportAggregates';
+import {
+  useSavedReports,
+  useCreateSavedReport,
+  useDeleteSavedReport,
+} from '@/hooks/useSavedReports';
+import {
+  ReportFilters,
+  VolumeReport,
+  FrequencyReport,
+  GradeLevelReport,
+  TimeAllocationReport,
+  SavedReportsPanel,
+} from '@/components/reports';
+import { PageTransition, DashboardSkeleton } from '@/components/common';
+import { reportFiltersSchema } from '@/schemas/report';
+import { gradeLevelSchema } from '@/schemas/student';
+import { toast } from '@/utils/toast';
+import type { ReportFilters as ReportFiltersType } from '@/types/dashboard';
+import type { ReportType, SavedReport } from '@/types/report';
+
+const REPORT_TABS: { id: ReportType; label: string }[] = [
+  { id: 'volume', label: 'Student Volume' },
+  { id: 'frequency', label: 'Frequency' },
+  { id: 'gradeLevel', label: 'Grade Level' },
+  { id: 'timeAllocation', label: 'Time Allocation' },
+];
+
+function getDefaultFilters(): ReportFiltersType {
+  const endDate = new Date();
+  const startDate = new Date();
+  startDate.setDate(startDate.getDate() - 30);
+  return { startDate, endDate };
+}
+
 export function Reports() {
+  const { data: students = [] } = useStudents();
+  const { data: categories = [] } = useReasonCategories();
+  const { data: users = [] } = useUsers();
+  const { data: savedReports = [], isLoading: isLoadingSavedReports } = useSavedReports();
+  const createSavedReport = useCreateSavedReport();
+  const deleteSavedReport = useDeleteSavedReport();
+
+  const [filters, setFilters] = useState<ReportFiltersType>(getDefaultFilters);
+  const [reportType, setReportType] = useState<ReportType>('volume');
+  const [activeSavedReportId, setActiveSavedReportId] = useState<string | undefined>();
+  // Bumped when a saved report is opened so ReportFilters re-initializes its local state
+  const [filtersVersion, setFiltersVersion] = useState(0);
+
+  // Totals are computed in the database
+  const { data: aggregates, isLoading, error } = useReportAggregates(filters);
+
+  // Anyone in the tenant can have logged interactions (the filter is shown to admins only)
+  const counselors = useMemo(
+    () => [...users].sort((a, b) => a.lastName.localeCompare(b.lastName)),
+    [users]
+  );
+
+  const validateFilters = (nextFilters: ReportFiltersType): boolean => {
+    const result = reportFiltersSchema.safeParse(nextFilters);
+    if (!result.success) {
+      toast.error(result.error.issues[0]?.message || 'Invalid report filters');
+      return false;
+    }
+    return true;
+  };
+
+  const handleFiltersChange = (nextFilters: ReportFiltersType) => {
+    if (!validateFilters(nextFilters)) return;
+    setFilters(nextFilters);
+    setActiveSavedReportId(undefined);
+  };
+
+  const handleSaveReport = (name: string) => {
+    createSavedReport.mutate(
+      { name, reportType, filters },
+      {
+        onSuccess: savedReport => setActiveSavedReportId(savedReport.id),
+      }
+    );
+  };
+
+  const handleOpenReport = (report: SavedReport) => {
+    if (!validateFilters(report.filters)) return;
+    setFilters(report.filters);
+    setReportType(report.reportType);
+    setActiveSavedReportId(report.id);
+    setFiltersVersion(version => version + 1);
+  };
+
+  const handleDeleteReport = (report: SavedReport) => {
+    if (!window.confirm(`Delete saved report "${report.name}"?`)) {
+      return;
+    }
+
+    deleteSavedReport.mutate(report.id);
+    if (report.id === activeSavedReportId) {
+      setActiveSavedReportId(undefined);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <PageTransition>
+        <div className="page-container">
+          <DashboardSkeleton />
+        </div>
+      </PageTransition>
+    );
+  }
+
+  if (error || !aggregates) {
+    return (
+      <PageTransition>
+        <div className="page-container">
+          <div className="flex items-center justify-center h-64">
+            <p className="text-destructive">
+              Error loading reports: {error?.message ?? 'No report data'}
+            </p>
+          </div>
+        </div>
+      </PageTransition>
+    );
+  }
+
   return (
-    <div className="p-6">
-      <h1 className="text-3xl font-bold text-gray-900">Reports</h1>
-      <p className="mt-4 text-gray-600">Generate and view comprehensive analytics and reports.</p>
-    </div>
+    <PageTransition>
+      <div className="p-4 sm:p-6 space-y-4 sm:space-y-6">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Reports</h1>
+          <p className="mt-1 sm:mt-2 text-sm sm:text-base text-gray-600">
+            Generate and view comprehensive analytics and reports.
+          </p>
+        </div>
+
+        <div className="grid gap-6 grid-cols-1 xl:grid-cols-4">
+          <div className="xl:col-span-3 space-y-6">
+            <ReportFilters
+              key={filtersVersion}
+              filters={filters}
+              onFiltersChange={handleFiltersChange}
+              categories={categories}
+              counselors={counselors}
+              students={students}
+              gradeLevels={gradeLevelSchema.options}
+            />
+
+            {/* Report Tabs */}
+            <div className="border-b border-gray-200">
+              <nav className="-mb-px flex space-x-4 sm:space-x-8 overflow-x-auto">
+                {REPORT_TABS.map(tab => (
+                  <button
+                    key={tab.id}
+                    onClick={() => setReportType(tab.id)}
+                    className={`
+                      whitespace-nowrap py-3 sm:py-4 px-1 border-b-2 font-medium text-sm
+                      ${
+                        reportType === tab.id
+                          ? 'border-primary text-primary'
+                          : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                      }
+                    `}
+                  >
+                    {tab.label}
+                  </button>
+                ))}
+              </nav>
+            </div>
+
+            {/* Report Content */}
+            {reportType === 'volume' && <VolumeReport aggregates={aggregates} />}
+            {reportType === 'frequency' && <FrequencyReport aggregates={aggregates} />}
+            {reportType === 'gradeLevel' && <GradeLevelReport aggregates={aggregates} />}
+            {reportType === 'timeAllocation' && <TimeAllocationReport aggregates={aggregates} />}
+          </div>
+
+          <div>
+            <SavedReportsPanel
+              savedReports={savedReports}
+              reportType={reportType}
+              activeReportId={activeSavedReportId}
+              onSave={handleSaveReport}
+              onOpen={handleOpenReport}
+              onDelete={handleDeleteReport}
+              isLoading={isLoadingSavedReports}
+              isSaving={createSavedReport.isPending}
+            />
+          </div>
+        </div>
+      </div>
+    </PageTransition>
   );
 }
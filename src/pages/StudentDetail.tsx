@@ -1,12 +1,15 @@
 import { useEffect, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { fetchStudent } from '@/services/api';
+import { fetchStudent, INTERACTION_SELECT } from '@/services/api';
+import { decryptInteractionRows } from '@/services/noteEncryptionService';
+import { logStudentView } from '@/services/auditLogService';
 import { supabase } from '@/services/supabase';
 import type { Student } from '@/types/student';
 import type { Interaction, InteractionDbResponse } from '@/types/interaction';
 import type { ReasonCategory } from '@/types/reason';
 import { StudentProfile } from '@/components/students/StudentProfile';
 import { InteractionHistory } from '@/components/students/InteractionHistory';
+import { CounselingPlan } from '@/components/students/CounselingPlan';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 
@@ -22,6 +25,7 @@ export function StudentDetail() {
   useEffect(() => {
     if (studentId) {
       fetchStudentData(studentId);
+      logStudentView(studentId);
     }
   }, [studentId]);
 
@@ -41,11 +45,25 @@ export function StudentDetail() {
         throw new Error('Student not found');
       }
 
-      // Fetch interactions for this student (both direct and regarding)
+      // Fetch the group sessions this student is a participant of
+      const { data: participationData, error: participationError } = await supabase
+        .from('interaction_participants')
+        .select('interaction_id')
+        .eq('student_id', id);
+
+      if (participationError) throw participationError;
+
+      const interactionFilters = [`student_id.eq.${id}`, `regarding_student_id.eq.${id}`];
+      if (participationData.length > 0) {
+        const groupIds = participationData.map(participant => participant.interaction_id);
+        interactionFilters.push(`id.in.(${groupIds.join(',')})`);
+      }
+
+      // Fetch interactions for this student (direct, regarding and group)
       const { data: interactionsData, error: interactionsError } = await supabase
         .from('interactions')
-        .select('*')
-        .or(`student_id.eq.${id},regarding_student_id.eq.${id}`)
+        .select(INTERACTION_SELECT)
+        .or(interactionFilters.join(','))
         .order('start_time', { ascending: false });
 
       if (interactionsError) throw interactionsError;
@@ -63,14 +81,20 @@ export function StudentDetail() {
       console.log('Fetched student:', transformedStudent);
 
       // Transform interactions data
-      const transformedInteractions: Interaction[] = (
+      const decryptedInteractions = await decryptInteractionRows(
         interactionsData as InteractionDbResponse[]
-      ).map(interaction => ({
+      );
+      const transformedInteractions: Interaction[] = decryptedInteractions.map(interaction => ({
         id: interaction.id,
         counselorId: interaction.counselor_id,
         studentId: interaction.student_id,
         contactId: interaction.contact_id,
         regardingStudentId: interaction.regarding_student_id,
+        isGroup: interaction.is_group ?? false,
+        participants: (interaction.interaction_participants || []).map(participant => ({
+          studentId: participant.student_id,
+          attended: participant.attended,
+        })),
         categoryId: interaction.category_id,
         subcategoryId: interaction.subcategory_id,
         customReason: interaction.custom_reason,
@@ -82,13 +106,19 @@ export function StudentDetail() {
         followUpDate: interaction.follow_up_date ? new Date(interaction.follow_up_date) : undefined,
         followUpNotes: interaction.follow_up_notes,
         isFollowUpComplete: interaction.is_follow_up_complete,
+        notesDecryptionFailed: interaction.notes_decryption_failed,
         createdAt: new Date(interaction.created_at),
         updatedAt: new Date(interaction.updated_at),
       }));
 
-      // Calculate stats
-      const interactionCount = transformedInteractions.length;
-      const totalTimeSpent = transformedInteractions.reduce(
+      // Calculate stats, skipping group sessions the student missed
+      const attendedInteractions = transformedInteractions.filter(
+        interaction =>
+          !interaction.isGroup ||
+          interaction.participants.some(p => p.studentId === id && p.attended)
+      );
+      const interactionCount = attendedInteractions.length;
+      const totalTimeSpent = attendedInteractions.reduce(
         (sum, interaction) => sum + interaction.durationMinutes,
         0
       );
@@ -163,6 +193,15 @@ export function StudentDetail() {
       </Button>
       <StudentProfile student={student} onAddInteraction={handleAddInteraction} />
 
+      {/* Counseling Plan */}
+      <div className="mt-6">
+        <CounselingPlan
+          studentId={student.id}
+          interactions={interactions}
+          categories={categories}
+        />
+      </div>
+
       {/* Interaction History */}
       <div className="mt-6">
         <Card>
@@ -172,6 +211,7 @@ export function StudentDetail() {
           <CardContent>
             <InteractionHistory
               interactions={interactions}
+              studentId={student.id}
               categories={categories}
               onInteractionClick={handleInteractionClick}
             />
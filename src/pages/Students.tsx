@@ -5,10 +5,11 @@ import type { Interaction } from '@/types/interaction';
 import { StudentList } from '@/components/students/StudentList';
 import { StudentSearch } from '@/components/students/StudentSearch';
 import { StudentFormModal } from '@/components/students/StudentFormModal';
+import { StudentImportModal } from '@/components/students/StudentImportModal';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { PageTransition, TableSkeleton } from '@/components/common';
-import { Plus } from 'lucide-react';
+import { Plus, Upload } from 'lucide-react';
 
 export function Students() {
   const [students, setStudents] = useState<Student[]>([]);
@@ -16,6 +17,7 @@ export function Students() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
   const [editingStudent, setEditingStudent] = useState<Student | null>(null);
 
   useEffect(() => {
@@ -91,11 +93,22 @@ export function Students() {
               Manage student profiles and interaction history.
             </p>
           </div>
-          <Button onClick={() => setIsAddModalOpen(true)} className="flex items-center gap-2">
-            <Plus className="w-4 h-4" />
-            <span className="hidden sm:inline">Add Student</span>
-            <span className="sm:hidden">Add</span>
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              onClick={() => setIsImportModalOpen(true)}
+              className="flex items-center gap-2"
+            >
+              <Upload className="w-4 h-4" />
+              <span className="hidden sm:inline">Import CSV</span>
+              <span className="sm:hidden">Import</span>
+            </Button>
+            <Button onClick={() => setIsAddModalOpen(true)} className="flex items-center gap-2">
+              <Plus className="w-4 h-4" />
+              <span className="hidden sm:inline">Add Student</span>
+              <span className="sm:hidden">Add</span>
+            </Button>
+          </div>
         </div>
 
         {/* Search Card */}
@@ -125,6 +138,14 @@ export function Students() {
         {/* Add Student Modal */}
         <StudentFormModal open={isAddModalOpen} onOpenChange={setIsAddModalOpen} />
 
+        {/* CSV Import Modal */}
+        <StudentImportModal
+          open={isImportModalOpen}
+          onOpenChange={setIsImportModalOpen}
+          existingStudents={students}
+          onImported={fetchData}
+        />
+
         {/* Edit Student Modal */}
         <StudentFormModal
           open={!!editingStudent}
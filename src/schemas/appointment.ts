@@ -0,0 +1,55 @@
+import { z } from 'zod';
+
+// Upper bound on occurrences generated for a single series
+export const MAX_APPOINTMENT_OCCURRENCES = 52;
+
+export const appointmentFrequencySchema = z.enum(['NONE', 'WEEKLY', 'BIWEEKLY'], {
+  message: 'Please select how often the appointment repeats',
+});
+
+export const appointmentFormSchema = z
+  .object({
+    type: z.enum(['student', 'contact'], {
+      message: 'Please select appointment type',
+    }),
+    studentId: z.string().optional(),
+    contactId: z.string().optional(),
+    regardingStudentId: z.string().optional(),
+    categoryId: z.string().min(1, 'Category is required'),
+    subcategoryId: z.string().optional(),
+    startTime: z.string().min(1, 'Start time is required'),
+    durationMinutes: z
+      .number({
+        message: 'Duration must be a number',
+      })
+      .min(1, 'Duration must be at least 1 minute')
+      .max(480, 'Duration cannot exceed 8 hours'),
+    notes: z.string().optional(),
+    frequency: appointmentFrequencySchema,
+    untilDate: z.string().optional(),
+    occurrenceCount: z
+      .number({
+        message: 'Occurrences must be a number',
+      })
+      .int('Occurrences must be a whole number')
+      .min(1, 'There must be at least 1 occurrence')
+      .max(
+        MAX_APPOINTMENT_OCCURRENCES,
+        `A series cannot have more than ${MAX_APPOINTMENT_OCCURRENCES} occurrences`
+      )
+      .optional(),
+  })
+  .refine(data => data.studentId || data.contactId, {
+    message: 'Either student or contact must be selected',
+    path: ['studentId'],
+  })
+  .refine(data => data.frequency === 'NONE' || data.untilDate || data.occurrenceCount, {
+    message: 'Choose an end date or a number of occurrences for a repeating appointment',
+    path: ['untilDate'],
+  })
+  .refine(data => !data.untilDate || data.untilDate >= data.startTime.slice(0, 10), {
+    message: 'End date must be on or after the first appointment',
+    path: ['untilDate'],
+  });
+
+export type AppointmentFormSchema = z.infer<typeof appointmentFormSchema>;
@@ -1,4 +1,5 @@
 // Export all schemas
+export * from './appointment';
 export * from './auth';
 export * from './contact';
 export * from './interaction';
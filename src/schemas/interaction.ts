@@ -2,12 +2,20 @@ import { z } from 'zod';
 
 export const interactionFormSchema = z
   .object({
-    type: z.enum(['student', 'contact'], {
+    type: z.enum(['student', 'contact', 'group'], {
       message: 'Please select interaction type',
     }),
     studentId: z.string().optional(),
     contactId: z.string().optional(),
     regardingStudentId: z.string().optional(),
+    participants: z
+      .array(
+        z.object({
+          studentId: z.string().min(1),
+          attended: z.boolean(),
+        })
+      )
+      .optional(),
     categoryId: z.string().min(1, 'Category is required'),
     subcategoryId: z.string().optional(),
     customReason: z.string().optional(),
@@ -25,14 +33,24 @@ export const interactionFormSchema = z
   })
   .refine(
     data => {
-      // Either studentId or contactId must be provided
-      return data.studentId || data.contactId;
+      // Either studentId or contactId must be provided, except for group sessions
+      return data.type === 'group' || data.studentId || data.contactId;
     },
     {
       message: 'Either student or contact must be selected',
       path: ['studentId'],
     }
   )
+  .refine(
+    data => {
+      // Group sessions need at least two participants
+      return data.type !== 'group' || (data.participants?.length ?? 0) >= 2;
+    },
+    {
+      message: 'A group session needs at least two participants',
+      path: ['participants'],
+    }
+  )
   .refine(
     data => {
       // If subcategory is "Custom", customReason is required
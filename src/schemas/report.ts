@@ -12,6 +12,7 @@ export const reportFiltersSchema = z
     gradeLevel: z.string().optional(),
     categoryId: z.string().uuid('Invalid category ID').optional(),
     counselorId: z.string().uuid('Invalid counselor ID').optional(),
+    regardingStudentId: z.string().uuid('Invalid student ID').optional(),
   })
   .refine(
     data => {
@@ -44,5 +45,20 @@ export const dateRangePresetSchema = z.enum([
   'custom',
 ]);
 
+// Report type schema
+export const reportTypeSchema = z.enum(['volume', 'frequency', 'gradeLevel', 'timeAllocation']);
+
+// Saved report schema (name + report type; filters are validated by reportFiltersSchema)
+export const savedReportSchema = z.object({
+  name: z
+    .string()
+    .min(1, 'Report name is required')
+    .max(100, 'Report name must be less than 100 characters')
+    .trim(),
+  reportType: reportTypeSchema,
+});
+
 export type ReportFiltersSchema = z.infer<typeof reportFiltersSchema>;
 export type DateRangePreset = z.infer<typeof dateRangePresetSchema>;
+export type ReportTypeSchema = z.infer<typeof reportTypeSchema>;
+export type SavedReportSchema = z.infer<typeof savedReportSchema>;
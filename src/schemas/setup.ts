@@ -10,6 +10,9 @@ const passwordSchema = z
   .regex(/[0-9]/, 'Password must contain at least one number')
   .regex(/[^a-zA-Z0-9]/, 'Password must contain at least one special character');
 
+// Names that cannot be a tenant's subdomain
+export const RESERVED_SUBDOMAINS = ['www', 'api', 'admin', 'app', 'mail', 'ftp', 'localhost'];
+
 // Subdomain validation schema
 const subdomainSchema = z
   .string()
@@ -20,10 +23,7 @@ const subdomainSchema = z
     'Subdomain must contain only lowercase letters, numbers, and hyphens, and cannot start or end with a hyphen'
   )
   .refine(val => !val.includes('--'), 'Subdomain cannot contain consecutive hyphens')
-  .refine(
-    val => !['www', 'api', 'admin', 'app', 'mail', 'ftp', 'localhost'].includes(val),
-    'Subdomain cannot use reserved names'
-  );
+  .refine(val => !RESERVED_SUBDOMAINS.includes(val), 'Subdomain cannot use reserved names');
 
 // Tenant setup form schema
 export const tenantSetupSchema = z
@@ -1,7 +1,7 @@
 import { z } from 'zod';
 
 // User role enum
-export const userRoleSchema = z.enum(['ADMIN', 'COUNSELOR']);
+export const userRoleSchema = z.enum(['ADMIN', 'COUNSELOR', 'DISTRICT_ADMIN']);
 
 // User form schema for creating/editing users
 export const userFormSchema = z.object({
@@ -0,0 +1,234 @@
+/**
+ * Appointment Service Tests
+ *
+ * Covers expansion of recurrence rules into occurrence start times, series
+ * updates with encrypted notes, and logging an appointment as held.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { from, rpc, createInteraction, deleteInteraction } = vi.hoisted(() => ({
+  from: vi.fn(),
+  rpc: vi.fn(),
+  createInteraction: vi.fn(),
+  deleteInteraction: vi.fn(),
+}));
+
+vi.mock('../supabase', () => ({ supabase: { from, rpc } }));
+vi.mock('../api', () => ({ createInteraction, deleteInteraction }));
+vi.mock('../noteEncryptionService', () => ({
+  encryptInteractionNotes: async (columns: { notes?: string | null }) => ({
+    ...columns,
+    notes: columns.notes ? `enc(${columns.notes})` : columns.notes,
+  }),
+  decryptInteractionRows: async (rows: Array<{ notes?: string | null }>) => rows,
+}));
+
+import { expandRecurrence, markAppointmentHeld, updateAppointment } from '../appointmentService';
+import { MAX_APPOINTMENT_OCCURRENCES } from '@/schemas/appointment';
+import type { Appointment } from '@/types/appointment';
+import type { InteractionFormData } from '@/types/interaction';
+
+const start = new Date(2024, 8, 3, 10, 0);
+
+describe('Appointment Service', () => {
+  describe('expandRecurrence', () => {
+    it('should return a single occurrence for a one-off appointment', () => {
+      const occurrences = expandRecurrence(start, { frequency: 'NONE', occurrenceCount: 5 });
+
+      expect(occurrences).toEqual([start]);
+    });
+
+    it('should repeat weekly up to the occurrence count', () => {
+      const occurrences = expandRecurrence(start, { frequency: 'WEEKLY', occurrenceCount: 3 });
+
+      expect(occurrences).toEqual([
+        new Date(2024, 8, 3, 10, 0),
+        new Date(2024, 8, 10, 10, 0),
+        new Date(2024, 8, 17, 10, 0),
+      ]);
+    });
+
+    it('should repeat biweekly and include the until date', () => {
+      const occurrences = expandRecurrence(start, {
+        frequency: 'BIWEEKLY',
+        untilDate: '2024-10-01',
+      });
+
+      expect(occurrences).toEqual([
+        new Date(2024, 8, 3, 10, 0),
+        new Date(2024, 8, 17, 10, 0),
+        new Date(2024, 9, 1, 10, 0),
+      ]);
+    });
+
+    it('should stop at whichever end condition comes first and respect the cap', () => {
+      expect(
+        expandRecurrence(start, {
+          frequency: 'WEEKLY',
+          untilDate: '2024-12-31',
+          occurrenceCount: 2,
+        })
+      ).toHaveLength(2);
+      expect(
+        expandRecurrence(start, { frequency: 'WEEKLY', untilDate: '2030-01-01' })
+      ).toHaveLength(MAX_APPOINTMENT_OCCURRENCES);
+    });
+  });
+
+  describe('updateAppointment', () => {
+    const appointment = {
+      id: 'appointment-2',
+      seriesId: 'series-1',
+      occurrenceIndex: 1,
+      startTime: new Date(2024, 8, 10, 10, 0),
+    } as Appointment;
+
+    beforeEach(() => {
+      from.mockReset();
+      rpc.mockReset();
+      const query = {
+        select: vi.fn(() => query),
+        eq: vi.fn(() => query),
+        single: vi.fn(async () => ({
+          data: { id: 'series-1', start_time: new Date(2024, 8, 3, 10, 0).toISOString() },
+          error: null,
+        })),
+      };
+      from.mockReturnValue(query);
+      rpc.mockResolvedValue({ data: null, error: null });
+    });
+
+    it('should regenerate the series in one call with encrypted notes', async () => {
+      const { error } = await updateAppointment(
+        appointment,
+        {
+          type: 'student',
+          studentId: 'student-1',
+          categoryId: 'category-1',
+          startTime: '2024-09-10T11:00',
+          durationMinutes: 30,
+          notes: 'Check in after the exam',
+          frequency: 'WEEKLY',
+          occurrenceCount: 3,
+        },
+        'series'
+      );
+
+      expect(error).toBeNull();
+      expect(rpc).toHaveBeenCalledWith(
+        'update_appointment_series',
+        expect.objectContaining({
+          p_series_id: 'series-1',
+          p_student_id: 'student-1',
+          p_notes: 'enc(Check in after the exam)',
+          p_start_time: new Date(2024, 8, 3, 11, 0).toISOString(),
+          p_frequency: 'WEEKLY',
+          p_occurrence_count: 3,
+          p_cutoff: appointment.startTime.toISOString(),
+          p_occurrence_start_times: [
+            new Date(2024, 8, 3, 11, 0).toISOString(),
+            new Date(2024, 8, 10, 11, 0).toISOString(),
+            new Date(2024, 8, 17, 11, 0).toISOString(),
+          ],
+        })
+      );
+    });
+
+    it('should report a failed regeneration', async () => {
+      rpc.mockResolvedValue({ data: null, error: { code: '23503', message: 'foreign key' } });
+
+      const { error } = await updateAppointment(
+        appointment,
+        {
+          type: 'student',
+          studentId: 'student-1',
+          categoryId: 'category-1',
+          startTime: '2024-09-10T10:00',
+          durationMinutes: 30,
+          frequency: 'NONE',
+        },
+        'series'
+      );
+
+      expect(error).not.toBeNull();
+    });
+  });
+
+  describe('markAppointmentHeld', () => {
+    const interactionData: InteractionFormData = {
+      type: 'student',
+      studentId: 'student-1',
+      categoryId: 'category-1',
+      startTime: '2024-09-03T10:00',
+      durationMinutes: 30,
+      needsFollowUp: false,
+    };
+
+    function appointmentUpdate(result: { data: unknown; error: unknown }) {
+      const query = {
+        update: vi.fn(() => query),
+        eq: vi.fn(() => query),
+        select: vi.fn(() => query),
+        maybeSingle: vi.fn(async () => result),
+      };
+      from.mockReturnValue(query);
+      return query;
+    }
+
+    beforeEach(() => {
+      from.mockReset();
+      createInteraction.mockReset();
+      deleteInteraction.mockReset();
+      createInteraction.mockResolvedValue({ data: { id: 'interaction-1' }, error: null });
+      deleteInteraction.mockResolvedValue({ data: null, error: null });
+    });
+
+    it('should link the new interaction to the scheduled appointment', async () => {
+      const query = appointmentUpdate({ data: { id: 'appointment-1' }, error: null });
+
+      const { data, error } = await markAppointmentHeld('appointment-1', interactionData);
+
+      expect(error).toBeNull();
+      expect(data).toEqual({ id: 'interaction-1' });
+      expect(query.update).toHaveBeenCalledWith({
+        status: 'HELD',
+        interaction_id: 'interaction-1',
+      });
+      expect(query.eq).toHaveBeenCalledWith('status', 'SCHEDULED');
+      expect(deleteInteraction).not.toHaveBeenCalled();
+    });
+
+    it('should delete the interaction again when the appointment cannot be updated', async () => {
+      appointmentUpdate({ data: null, error: { code: '42501', message: 'permission denied' } });
+
+      const { data, error } = await markAppointmentHeld('appointment-1', interactionData);
+
+      expect(data).toBeNull();
+      expect(error?.code).toBe('42501');
+      expect(deleteInteraction).toHaveBeenCalledWith('interaction-1');
+    });
+
+    it('should delete the interaction again when the appointment is no longer scheduled', async () => {
+      appointmentUpdate({ data: null, error: null });
+
+      const { data, error } = await markAppointmentHeld('appointment-1', interactionData);
+
+      expect(data).toBeNull();
+      expect(error?.code).toBe('NOT_FOUND');
+      expect(deleteInteraction).toHaveBeenCalledWith('interaction-1');
+    });
+
+    it('should not touch the appointment when the interaction cannot be logged', async () => {
+      createInteraction.mockResolvedValue({
+        data: null,
+        error: { code: 'AUTH_ERROR', message: 'User not authenticated' },
+      });
+
+      const { error } = await markAppointmentHeld('appointment-1', interactionData);
+
+      expect(error?.code).toBe('AUTH_ERROR');
+      expect(from).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Audit Log Service Tests
+ *
+ * Covers how audit entries are turned into field changes for review and export.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { formatAuditChanges, formatAuditValue, getAuditFieldChanges } from '../auditLogService';
+import type { AuditLogEntry } from '@/types/audit';
+
+function entry(overrides: Partial<AuditLogEntry>): AuditLogEntry {
+  return {
+    id: 'entry-1',
+    action: 'UPDATE',
+    entityType: 'student',
+    entityId: 'student-1',
+    createdAt: new Date('2024-09-03T10:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('Audit Log Service', () => {
+  describe('getAuditFieldChanges', () => {
+    it('should pair before and after values of an update', () => {
+      const changes = getAuditFieldChanges(
+        entry({
+          before: { grade_level: '9th Grade', needs_follow_up: false },
+          after: { grade_level: '10th Grade', needs_follow_up: true },
+        })
+      );
+
+      expect(changes).toEqual([
+        { field: 'grade_level', before: '9th Grade', after: '10th Grade' },
+        { field: 'needs_follow_up', before: false, after: true },
+      ]);
+    });
+
+    it('should skip bookkeeping and empty fields of a created record', () => {
+      const changes = getAuditFieldChanges(
+        entry({
+          action: 'CREATE',
+          after: {
+            id: 'student-1',
+            tenant_id: 'tenant-1',
+            first_name: 'Ada',
+            email: null,
+            created_at: '2024-09-03T10:00:00Z',
+          },
+        })
+      );
+
+      expect(changes).toEqual([{ field: 'first_name', before: null, after: 'Ada' }]);
+    });
+  });
+
+  describe('formatAuditValue', () => {
+    it('should hide encrypted notes', () => {
+      expect(formatAuditValue('enc:v1:1:abc:def:ghi')).toBe('(encrypted)');
+    });
+
+    it('should flag redacted notes without showing them', () => {
+      expect(formatAuditValue('[redacted]')).toBe('(not logged)');
+    });
+
+    it('should mark empty values', () => {
+      expect(formatAuditValue(null)).toBe('(empty)');
+      expect(formatAuditValue('')).toBe('(empty)');
+    });
+
+    it('should print other values as text', () => {
+      expect(formatAuditValue(false)).toBe('false');
+      expect(formatAuditValue(30)).toBe('30');
+    });
+  });
+
+  describe('formatAuditChanges', () => {
+    it('should show both sides of an update', () => {
+      const summary = formatAuditChanges(
+        entry({ before: { duration_minutes: 30 }, after: { duration_minutes: 45 } })
+      );
+
+      expect(summary).toBe('duration_minutes: 30 → 45');
+    });
+
+    it('should show the removed values of a delete', () => {
+      const summary = formatAuditChanges(
+        entry({ action: 'DELETE', before: { first_name: 'Ada', last_name: 'Lovelace' } })
+      );
+
+      expect(summary).toBe('first_name: Ada; last_name: Lovelace');
+    });
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Caseload Service Tests
+ *
+ * Covers matching students against caseload rules, previewing bulk assignments
+ * and reading caseload sizes counted by the database.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+const { rpc } = vi.hoisted(() => ({ rpc: vi.fn() }));
+
+vi.mock('../supabase', () => ({ supabase: { rpc } }));
+
+vi.mock('../supabaseHelpers', async importOriginal => ({
+  ...(await importOriginal<typeof import('../supabaseHelpers')>()),
+  getTenantContext: async () => ({ tenantId: 'tenant-1', userId: 'admin-1', userRole: 'ADMIN' }),
+}));
+
+import {
+  fetchCaseloadSizes,
+  matchesCaseloadRule,
+  previewCaseloadAssignment,
+  validateCaseloadAssignment,
+} from '../caseloadService';
+import type { Student } from '@/types/student';
+
+function makeStudent(overrides: Partial<Student>): Student {
+  return {
+    id: overrides.lastName ?? 'student',
+    studentId: '1001',
+    firstName: 'Sam',
+    lastName: 'Adams',
+    gradeLevel: '9th Grade',
+    needsFollowUp: false,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+    ...overrides,
+  };
+}
+
+describe('Caseload Service', () => {
+  describe('matchesCaseloadRule', () => {
+    it('should include last names starting with the end of the range', () => {
+      const rule = { lastNameFrom: 'a', lastNameTo: 'f' };
+
+      expect(matchesCaseloadRule(makeStudent({ lastName: 'Adams' }), rule)).toBe(true);
+      expect(matchesCaseloadRule(makeStudent({ lastName: 'Fuller' }), rule)).toBe(true);
+      expect(matchesCaseloadRule(makeStudent({ lastName: 'Garcia' }), rule)).toBe(false);
+    });
+
+    it('should compare multi-letter bounds by prefix', () => {
+      const rule = { lastNameFrom: 'Ma', lastNameTo: 'Mo' };
+
+      expect(matchesCaseloadRule(makeStudent({ lastName: 'Lopez' }), rule)).toBe(false);
+      expect(matchesCaseloadRule(makeStudent({ lastName: 'Martin' }), rule)).toBe(true);
+      expect(matchesCaseloadRule(makeStudent({ lastName: 'Moore' }), rule)).toBe(true);
+      expect(matchesCaseloadRule(makeStudent({ lastName: 'Murphy' }), rule)).toBe(false);
+    });
+
+    it('should require both the range and the grade when given', () => {
+      const rule = { lastNameFrom: 'A', lastNameTo: 'M', gradeLevels: ['10th Grade'] };
+
+      expect(matchesCaseloadRule(makeStudent({ gradeLevel: '10th Grade' }), rule)).toBe(true);
+      expect(matchesCaseloadRule(makeStudent({ gradeLevel: '9th Grade' }), rule)).toBe(false);
+    });
+  });
+
+  describe('validateCaseloadAssignment', () => {
+    it('should require a counselor and a rule', () => {
+      const errors = validateCaseloadAssignment({
+        counselorId: '',
+        role: 'primary',
+        rule: {},
+        onlyUnassigned: false,
+      });
+
+      expect(errors).toHaveLength(2);
+    });
+
+    it('should reject a reversed range', () => {
+      const errors = validateCaseloadAssignment({
+        counselorId: 'c1',
+        role: 'primary',
+        rule: { lastNameFrom: 'N', lastNameTo: 'F' },
+        onlyUnassigned: false,
+      });
+
+      expect(errors).toEqual(['The last-name range must start before it ends']);
+    });
+  });
+
+  describe('previewCaseloadAssignment', () => {
+    const students = [
+      makeStudent({ lastName: 'Adams' }),
+      makeStudent({ lastName: 'Baker', primaryCounselorId: 'c2' }),
+      makeStudent({ lastName: 'Clark', primaryCounselorId: 'c1' }),
+      makeStudent({ lastName: 'Davis', archivedAt: new Date('2024-06-01') }),
+    ];
+
+    it('should skip archived students and those already assigned to the counselor', () => {
+      const preview = previewCaseloadAssignment(students, {
+        counselorId: 'c1',
+        role: 'primary',
+        rule: { lastNameFrom: 'A', lastNameTo: 'Z' },
+        onlyUnassigned: false,
+      });
+
+      expect(preview.map(student => student.lastName)).toEqual(['Adams', 'Baker']);
+    });
+
+    it('should leave assigned students alone when only filling gaps', () => {
+      const preview = previewCaseloadAssignment(students, {
+        counselorId: 'c1',
+        role: 'primary',
+        rule: { lastNameFrom: 'A', lastNameTo: 'Z' },
+        onlyUnassigned: true,
+      });
+
+      expect(preview.map(student => student.lastName)).toEqual(['Adams']);
+    });
+
+    it('should not make a primary counselor their own secondary', () => {
+      const preview = previewCaseloadAssignment(students, {
+        counselorId: 'c1',
+        role: 'secondary',
+        rule: { lastNameFrom: 'A', lastNameTo: 'Z' },
+        onlyUnassigned: false,
+      });
+
+      expect(preview.map(student => student.lastName)).toEqual(['Adams', 'Baker']);
+    });
+  });
+
+  describe('fetchCaseloadSizes', () => {
+    it('should read the counts from get_caseload_sizes', async () => {
+      rpc.mockResolvedValue({
+        data: [
+          { counselor_id: 'counselor-1', primary_count: 1500, secondary_count: 0 },
+          { counselor_id: 'counselor-2', primary_count: 0, secondary_count: 12 },
+        ],
+        error: null,
+      });
+
+      const { data, error } = await fetchCaseloadSizes();
+
+      expect(error).toBeNull();
+      expect(rpc).toHaveBeenCalledWith('get_caseload_sizes');
+      expect(data).toEqual([
+        { counselorId: 'counselor-1', primary: 1500, secondary: 0 },
+        { counselorId: 'counselor-2', primary: 0, secondary: 12 },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * District Service Tests
+ *
+ * Covers how withheld district report counts are displayed, and that district
+ * reports are requested for whole months.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+const { rpc } = vi.hoisted(() => ({ rpc: vi.fn() }));
+
+vi.mock('../supabase', () => ({ supabase: { rpc } }));
+
+import {
+  DISTRICT_MIN_CELL_SIZE,
+  fetchDistrictReportAggregates,
+  formatDistrictCount,
+} from '../districtService';
+
+describe('District Service', () => {
+  describe('formatDistrictCount', () => {
+    it('marks withheld counts with the minimum cell size', () => {
+      expect(DISTRICT_MIN_CELL_SIZE).toBe(5);
+      expect(formatDistrictCount(null)).toBe('<5');
+    });
+
+    it('shows zero and reported counts as numbers', () => {
+      expect(formatDistrictCount(0)).toBe('0');
+      expect(formatDistrictCount(12)).toBe('12');
+    });
+  });
+
+  describe('fetchDistrictReportAggregates', () => {
+    it('requests whole months from the first of the start month', async () => {
+      rpc.mockResolvedValue({
+        data: {
+          total_interactions: null,
+          total_duration: null,
+          total_students: null,
+          schools: [],
+          categories: [],
+        },
+        error: null,
+      });
+
+      await fetchDistrictReportAggregates(new Date(2024, 8, 17), 3);
+
+      expect(rpc).toHaveBeenCalledWith('get_district_report_aggregates', {
+        p_start_month: '2024-09-01',
+        p_months: 3,
+      });
+    });
+  });
+});
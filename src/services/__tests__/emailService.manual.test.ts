@@ -21,21 +21,28 @@ describe('EmailService Tests', () => {
       maxRetries: 2,
       retryDelayMs: 500,
       maxRetryDelayMs: 5000,
-      queueProcessIntervalMs: 2000,
     });
     
     expect(emailService).toBeDefined();
-    expect(typeof emailService.stopQueueProcessor).toBe('function');
-    
-    // Clean up
-    emailService.stopQueueProcessor();
+    expect(typeof emailService.getQueueStatus).toBe('function');
   });
 
-  it('should return queue status', () => {
-    const queueStatus = getEmailQueueStatus();
+  it('should return queue status from the queue store', async () => {
+    const emailService = new EmailService(undefined, {
+      queue: {
+        enqueue: async () => ({ data: { id: 'delivery-1' }, error: null }),
+        getStatus: async () => ({
+          data: { pending: 2, sending: 1, deadLettered: 0, total: 3 },
+          error: null,
+        }),
+        wake: async () => {},
+      },
+    });
+
+    const { data: queueStatus } = await emailService.getQueueStatus();
     expect(queueStatus).toBeDefined();
-    expect(typeof queueStatus.pending).toBe('number');
-    expect(typeof queueStatus.sending).toBe('number');
-    expect(typeof queueStatus.total).toBe('number');
+    expect(typeof queueStatus!.pending).toBe('number');
+    expect(typeof queueStatus!.sending).toBe('number');
+    expect(typeof queueStatus!.total).toBe('number');
   });
 });
\ No newline at end of file
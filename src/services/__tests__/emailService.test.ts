@@ -0,0 +1,128 @@
+/**
+ * Email Service Tests
+ *
+ * Covers how rendered emails are handed to the persistent queue, including
+ * retry policy and idempotency keys.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { EmailService } from '../emailService';
+import { DEFAULT_EMAIL_TEMPLATES } from '../emailTemplateService';
+import type { EmailQueueEntry, EmailQueueStore } from '../emailDeliveryService';
+
+class MemoryEmailQueue implements EmailQueueStore {
+  entries: EmailQueueEntry[] = [];
+  wakeCount = 0;
+  failWith?: string;
+
+  async enqueue(entry: EmailQueueEntry) {
+    if (this.failWith) {
+      return { data: null, error: { code: 'UNKNOWN_ERROR', message: this.failWith } };
+    }
+
+    const existing = this.entries.findIndex(
+      queued => entry.idempotencyKey && queued.idempotencyKey === entry.idempotencyKey
+    );
+    if (existing !== -1) {
+      return { data: { id: String(existing) }, error: null };
+    }
+
+    this.entries.push(entry);
+    return { data: { id: String(this.entries.length - 1) }, error: null };
+  }
+
+  async getStatus() {
+    const pending = this.entries.length;
+    return { data: { pending, sending: 0, deadLettered: 0, total: pending }, error: null };
+  }
+
+  async wake() {
+    this.wakeCount++;
+  }
+}
+
+function createService() {
+  const queue = new MemoryEmailQueue();
+  const service = new EmailService(
+    { maxRetries: 5, retryDelayMs: 2000, maxRetryDelayMs: 60000 },
+    {
+      queue,
+      templates: { getTemplate: async name => DEFAULT_EMAIL_TEMPLATES[name] },
+      branding: { getBranding: async () => ({}) },
+    }
+  );
+  return { service, queue };
+}
+
+const invitation = {
+  to: 'new.counselor@example.com',
+  tenantName: 'Lincoln High',
+  inviterName: 'Ada Admin',
+  role: 'COUNSELOR',
+  invitationUrl: 'https://app.example.com/invite/token',
+  expirationDate: '9/10/2024',
+  adminEmail: 'ada@example.com',
+  invitationId: 'invitation-1',
+  idempotencyKey: 'invitation:invitation-1:hash',
+};
+
+describe('Email Service', () => {
+  it('should queue the rendered invitation with the retry policy', async () => {
+    const { service, queue } = createService();
+
+    const result = await service.sendInvitationEmail(invitation);
+
+    expect(result.data).toEqual({ success: true, messageId: '0' });
+    expect(queue.entries[0]).toMatchObject({
+      template: 'invitation',
+      recipient: 'new.counselor@example.com',
+      subject: "You're invited to join Lincoln High on School Counselor Ledger",
+      invitationId: 'invitation-1',
+      idempotencyKey: 'invitation:invitation-1:hash',
+      maxAttempts: 5,
+      retryDelayMs: 2000,
+      maxRetryDelayMs: 60000,
+    });
+    expect(queue.entries[0].textBody).toContain('https://app.example.com/invite/token');
+    expect(queue.entries[0].htmlBody).not.toContain('{{');
+    expect(queue.wakeCount).toBe(1);
+  });
+
+  it('should return the existing delivery for a repeated idempotency key', async () => {
+    const { service, queue } = createService();
+
+    const first = await service.sendInvitationEmail(invitation);
+    const second = await service.sendInvitationEmail(invitation);
+
+    expect(queue.entries).toHaveLength(1);
+    expect(second.data?.messageId).toBe(first.data?.messageId);
+  });
+
+  it('should report an email that could not be queued', async () => {
+    const { service, queue } = createService();
+    queue.failWith = 'permission denied for table email_deliveries';
+
+    const result = await service.sendSetupConfirmationEmail({
+      to: 'ada@example.com',
+      tenantName: 'Lincoln High',
+      adminName: 'Ada Admin',
+      dashboardUrl: 'https://app.example.com/dashboard',
+    });
+
+    expect(result.data?.success).toBe(false);
+    expect(result.error).toEqual({
+      code: 'EMAIL_QUEUE_ERROR',
+      message: 'permission denied for table email_deliveries',
+    });
+    expect(queue.wakeCount).toBe(0);
+  });
+
+  it('should read queue status from the queue store', async () => {
+    const { service } = createService();
+
+    await service.sendInvitationEmail(invitation);
+    const { data: status } = await service.getQueueStatus();
+
+    expect(status).toEqual({ pending: 1, sending: 0, deadLettered: 0, total: 1 });
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Email Template Service Tests
+ *
+ * Covers template rendering, validation against the variable whitelist, and
+ * HTML sanitization of tenant templates.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_EMAIL_TEMPLATES,
+  renderEmailTemplate,
+  renderTemplateString,
+  sanitizeEmailHtml,
+  validateEmailTemplate,
+} from '../emailTemplateService';
+
+describe('Email Template Service', () => {
+  describe('renderTemplateString', () => {
+    it('should fill in variables and conditional blocks', () => {
+      const source =
+        'Hi {{adminName}}.{{#if adminEmail}} Reach us at {{adminEmail}}.{{else}} Bye.{{/if}}';
+
+      expect(renderTemplateString(source, { adminName: 'Ada', adminEmail: 'a@example.com' })).toBe(
+        'Hi Ada. Reach us at a@example.com.'
+      );
+      expect(renderTemplateString(source, { adminName: 'Ada' })).toBe('Hi Ada. Bye.');
+    });
+
+    it('should escape values in HTML', () => {
+      expect(
+        renderTemplateString(
+          '<p>{{tenantName}}</p>',
+          { tenantName: '<b>"A&B"</b>' },
+          { escapeHtml: true }
+        )
+      ).toBe('<p>&lt;b&gt;&quot;A&amp;B&quot;&lt;/b&gt;</p>');
+    });
+  });
+
+  describe('renderEmailTemplate', () => {
+    it('should render the built-in invitation inside the email layout', () => {
+      const email = renderEmailTemplate(DEFAULT_EMAIL_TEMPLATES.invitation, {
+        appName: 'School Counselor Ledger',
+        tenantName: 'Lincoln High',
+        invitationUrl: 'https://app.example.com/invite/token',
+      });
+
+      expect(email.subject).toBe("You're invited to join Lincoln High on School Counselor Ledger");
+      expect(email.htmlBody).toMatch(/^<!DOCTYPE html>/);
+      expect(email.htmlBody).toContain(
+        '<a href="https://app.example.com/invite/token" class="button">'
+      );
+      expect(email.htmlBody).not.toContain('contact your administrator');
+      expect(email.textBody).not.toContain('{{');
+    });
+
+    it('should keep the subject on one line', () => {
+      const email = renderEmailTemplate(
+        { subject: 'Welcome {{adminName}}', htmlBody: '<p>Hi</p>', textBody: 'Hi' },
+        { adminName: 'Ada\r\nBcc: someone@example.com' }
+      );
+
+      expect(email.subject).toBe('Welcome Ada Bcc: someone@example.com');
+    });
+
+    it('should sanitize the body after expanding conditional blocks', () => {
+      const template = {
+        subject: 'Hi',
+        htmlBody:
+          '<a title="{{#if invitationUrl}}{{else}}">{{/if}}<b class=" href=javascript:alert(1) ">click</b></a>' +
+          '<a href="{{invitationUrl}}">{{tenantName}}</a>',
+        textBody: 'Hi',
+      };
+      const email = renderEmailTemplate(template, {
+        invitationUrl: 'https://app.example.com/invite/token',
+        tenantName: '<Lincoln>',
+      });
+
+      expect(validateEmailTemplate('invitation', template)).toEqual([]);
+      expect(email.htmlBody).not.toContain('href=javascript');
+      expect(email.htmlBody).toContain(
+        '<a href="https://app.example.com/invite/token">&lt;Lincoln&gt;</a>'
+      );
+    });
+
+    it('should apply the tenant logo and color to the layout', () => {
+      const email = renderEmailTemplate(
+        { subject: 'Hi', htmlBody: '<p>Hi</p>', textBody: 'Hi' },
+        {},
+        {
+          tenantName: 'Lincoln High',
+          logoUrl: 'https://cdn.example.com/logo.png',
+          primaryColor: '#7c3aed',
+        }
+      );
+
+      expect(email.htmlBody).toContain(
+        '<img src="https://cdn.example.com/logo.png" alt="Lincoln High logo"'
+      );
+      expect(email.htmlBody).toContain('.button { background-color: #7c3aed; }');
+    });
+
+    it('should ignore branding that is not a hex color or https logo', () => {
+      const email = renderEmailTemplate(
+        { subject: 'Hi', htmlBody: '<p>Hi</p>', textBody: 'Hi' },
+        {},
+        { logoUrl: 'javascript:alert(1)', primaryColor: 'red; } body { display: none' }
+      );
+
+      expect(email.htmlBody).not.toContain('<img');
+      expect(email.htmlBody).not.toContain('display: none');
+    });
+  });
+
+  describe('validateEmailTemplate', () => {
+    it('should accept the built-in templates', () => {
+      expect(validateEmailTemplate('invitation', DEFAULT_EMAIL_TEMPLATES.invitation)).toEqual([]);
+      expect(
+        validateEmailTemplate('setup_confirmation', DEFAULT_EMAIL_TEMPLATES.setup_confirmation)
+      ).toEqual([]);
+    });
+
+    it('should reject unknown variables and unbalanced blocks', () => {
+      const errors = validateEmailTemplate('setup_confirmation', {
+        subject: 'Welcome {{invitationUrl}}',
+        htmlBody: '{{#if adminName}}<p>Hi</p>',
+        textBody: '',
+      });
+
+      expect(errors).toEqual([
+        'Subject: unknown variable {{invitationUrl}}',
+        'HTML body: {{#if adminName}} is missing its {{/if}}',
+        'Text body is required',
+      ]);
+    });
+  });
+
+  describe('sanitizeEmailHtml', () => {
+    it('should remove scripts, event handlers and unsafe links', () => {
+      const html = sanitizeEmailHtml(
+        '<p onclick="steal()">Hi<script>alert(1)</script></p>' +
+          '<a href="jav&#x61;script:alert(1)">x</a><a href="{{invitationUrl}}" target="_blank">y</a>'
+      );
+
+      expect(html).toBe('<p>Hi</p><a>x</a><a href="{{invitationUrl}}">y</a>');
+    });
+
+    it('should only take a whole link from a link variable', () => {
+      const html = sanitizeEmailHtml(
+        '<a href="{{tenantName}}">a</a>' +
+          '<a href="{{#if adminEmail}}javascript:alert(1){{/if}}">b</a>' +
+          '<a href="{{invitationUrl}}x">c</a>' +
+          '<a href="mailto:{{adminEmail}}">d</a>'
+      );
+
+      expect(html).toBe('<a>a</a><a>b</a><a>c</a><a href="mailto:{{adminEmail}}">d</a>');
+    });
+
+    it('should drop unknown tags but keep their text', () => {
+      expect(sanitizeEmailHtml('<form><input value="x">Name</form><!-- note --><br/>')).toBe(
+        'Name<br>'
+      );
+    });
+
+    it('should escape stray angle brackets and unsafe styles', () => {
+      expect(
+        sanitizeEmailHtml('1 < 2 <span style="background:url(https://x.example/a.png)">ok</span>')
+      ).toBe('1 &lt; 2 <span>ok</span>');
+    });
+  });
+});
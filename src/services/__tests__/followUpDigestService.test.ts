@@ -0,0 +1,58 @@
+/**
+ * Follow-up Digest Service Tests
+ *
+ * Covers validation of digest cadence and quiet days.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getDefaultFollowUpDigestPreferences,
+  validateFollowUpDigestPreferences,
+} from '../followUpDigestService';
+
+describe('Follow-up Digest Service', () => {
+  describe('validateFollowUpDigestPreferences', () => {
+    it('should accept the defaults', () => {
+      expect(validateFollowUpDigestPreferences(getDefaultFollowUpDigestPreferences())).toEqual([]);
+    });
+
+    it('should reject a weekly digest on a quiet day', () => {
+      const errors = validateFollowUpDigestPreferences({
+        ...getDefaultFollowUpDigestPreferences(),
+        cadence: 'weekly',
+        weeklyDay: 0,
+        quietDays: [0, 6],
+      });
+
+      expect(errors).toEqual(['Sunday is a quiet day']);
+    });
+
+    it('should reject a daily digest where every day is quiet', () => {
+      const errors = validateFollowUpDigestPreferences({
+        ...getDefaultFollowUpDigestPreferences(),
+        quietDays: [0, 1, 2, 3, 4, 5, 6],
+      });
+
+      expect(errors).toHaveLength(1);
+    });
+
+    it('should allow any quiet days when digests are off', () => {
+      const errors = validateFollowUpDigestPreferences({
+        ...getDefaultFollowUpDigestPreferences(),
+        cadence: 'off',
+        quietDays: [0, 1, 2, 3, 4, 5, 6],
+      });
+
+      expect(errors).toEqual([]);
+    });
+
+    it('should reject days outside the week', () => {
+      const errors = validateFollowUpDigestPreferences({
+        ...getDefaultFollowUpDigestPreferences(),
+        quietDays: [7],
+      });
+
+      expect(errors).toEqual(['Quiet days must be days of the week']);
+    });
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Follow-up Task Service Tests
+ *
+ * Covers handing off and completing follow-ups through their database
+ * functions, and that handoff and completion notes are encrypted on the way in
+ * and decrypted on the way out.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { rpc, from } = vi.hoisted(() => ({ rpc: vi.fn(), from: vi.fn() }));
+
+vi.mock('../supabase', () => ({ supabase: { rpc, from } }));
+
+vi.mock('../noteEncryptionService', () => ({
+  encryptInteractionNotes: async (columns: { notes?: string | null }) => ({
+    ...columns,
+    notes: columns.notes ? `enc(${columns.notes})` : columns.notes,
+  }),
+  decryptInteractionRows: async (rows: Array<{ notes?: string | null }>) =>
+    rows.map(row =>
+      row.notes === 'enc(corrupt)'
+        ? { ...row, notes: undefined, notes_decryption_failed: true }
+        : { ...row, notes: row.notes?.replace(/^enc\((.*)\)$/, '$1') }
+    ),
+}));
+
+import {
+  completeFollowUpTask,
+  fetchFollowUpTaskHistory,
+  reassignFollowUpTask,
+} from '../followUpTaskService';
+
+function taskRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'task-1',
+    tenant_id: 'tenant-1',
+    interaction_id: 'interaction-1',
+    assigned_to: 'counselor-2',
+    assigned_at: '2024-03-01T10:00:00Z',
+    created_at: '2024-03-01T09:00:00Z',
+    updated_at: '2024-03-01T10:00:00Z',
+    ...overrides,
+  };
+}
+
+function historyQuery(rows: unknown[]) {
+  const query = {
+    select: () => query,
+    eq: () => query,
+    order: async () => ({ data: rows, error: null }),
+  };
+  return query;
+}
+
+describe('Follow-up Task Service', () => {
+  beforeEach(() => {
+    rpc.mockReset();
+    from.mockReset();
+  });
+
+  describe('reassignFollowUpTask', () => {
+    it('should hand the task off with an encrypted note', async () => {
+      rpc.mockResolvedValue({ data: taskRow(), error: null });
+
+      const { data, error } = await reassignFollowUpTask('task-1', 'counselor-2', ' Covering ');
+
+      expect(error).toBeNull();
+      expect(rpc).toHaveBeenCalledWith('reassign_follow_up_task', {
+        p_task_id: 'task-1',
+        p_to_user_id: 'counselor-2',
+        p_note: 'enc(Covering)',
+      });
+      expect(data?.assignedTo).toBe('counselor-2');
+    });
+
+    it('should send no note when it is blank', async () => {
+      rpc.mockResolvedValue({ data: taskRow(), error: null });
+
+      await reassignFollowUpTask('task-1', 'counselor-2', '   ');
+
+      expect(rpc.mock.calls[0][1].p_note).toBeNull();
+    });
+
+    it('should return the database error when the handoff is refused', async () => {
+      rpc.mockResolvedValue({
+        data: null,
+        error: {
+          code: '42501',
+          message: 'Only the assignee or an admin can reassign this follow-up',
+        },
+      });
+
+      const { data, error } = await reassignFollowUpTask('task-1', 'counselor-2');
+
+      expect(data).toBeNull();
+      expect(error?.code).toBe('42501');
+    });
+  });
+
+  describe('fetchFollowUpTaskHistory', () => {
+    it('should decrypt handoff notes and flag those that fail', async () => {
+      from.mockReturnValue(
+        historyQuery([
+          { id: 'a1', task_id: 'task-1', to_user_id: 'counselor-1', created_at: '2024-03-01' },
+          {
+            id: 'a2',
+            task_id: 'task-1',
+            from_user_id: 'counselor-1',
+            to_user_id: 'counselor-2',
+            note: 'enc(Covering this week)',
+            created_at: '2024-03-02',
+          },
+          {
+            id: 'a3',
+            task_id: 'task-1',
+            from_user_id: 'counselor-2',
+            to_user_id: 'counselor-3',
+            note: 'enc(corrupt)',
+            created_at: '2024-03-03',
+          },
+        ])
+      );
+
+      const { data } = await fetchFollowUpTaskHistory('task-1');
+
+      expect(from).toHaveBeenCalledWith('follow_up_task_assignments');
+      expect(data?.map(assignment => assignment.note)).toEqual([
+        undefined,
+        'Covering this week',
+        undefined,
+      ]);
+      expect(data?.[2].noteDecryptionFailed).toBe(true);
+    });
+  });
+
+  describe('completeFollowUpTask', () => {
+    it('should complete through the database function without touching the interaction', async () => {
+      rpc.mockResolvedValue({
+        data: taskRow({
+          completed_at: '2024-03-05T12:00:00Z',
+          completed_by: 'counselor-2',
+          completion_note: 'enc(Spoke with parent)',
+        }),
+        error: null,
+      });
+
+      const { data, error } = await completeFollowUpTask('interaction-1', 'Spoke with parent');
+
+      expect(error).toBeNull();
+      expect(rpc).toHaveBeenCalledWith('complete_follow_up', {
+        p_interaction_id: 'interaction-1',
+        p_note: 'enc(Spoke with parent)',
+      });
+      expect(from).not.toHaveBeenCalled();
+      expect(data?.completedAt).toEqual(new Date('2024-03-05T12:00:00Z'));
+      expect(data?.completionNote).toBe('Spoke with parent');
+    });
+
+    it('should complete without a note', async () => {
+      rpc.mockResolvedValue({
+        data: taskRow({ completed_at: '2024-03-05T12:00:00Z' }),
+        error: null,
+      });
+
+      const { data } = await completeFollowUpTask('interaction-1');
+
+      expect(rpc.mock.calls[0][1].p_note).toBeNull();
+      expect(data?.completionNote).toBeUndefined();
+    });
+
+    it('should return the database error when the follow-up is already complete', async () => {
+      rpc.mockResolvedValue({
+        data: null,
+        error: { code: '22023', message: 'This follow-up is already complete' },
+      });
+
+      const { data, error } = await completeFollowUpTask('interaction-1', 'Again');
+
+      expect(data).toBeNull();
+      expect(error?.message).toBe('This follow-up is already complete');
+    });
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Goal Service Tests
+ *
+ * Covers goal validation and the progress chart series built from check-ins.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildGoalProgressSeries, getLatestGoalRating, validateGoalForm } from '../goalService';
+import type { GoalCheckIn, GoalRating, StudentGoal } from '@/types/goal';
+
+function makeCheckIn(goalId: string, rating: GoalRating, recordedAt: string): GoalCheckIn {
+  return { id: `${goalId}-${recordedAt}`, goalId, rating, recordedAt: new Date(recordedAt) };
+}
+
+function makeGoal(id: string, checkIns: GoalCheckIn[] = []): StudentGoal {
+  return {
+    id,
+    studentId: 'student-1',
+    area: 'ACADEMIC',
+    title: `Goal ${id}`,
+    measure: 'Weekly grade check',
+    status: 'ACTIVE',
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+    checkIns,
+    interactionIds: [],
+  };
+}
+
+describe('Goal Service', () => {
+  describe('validateGoalForm', () => {
+    it('should require a goal and a measure', () => {
+      expect(validateGoalForm({ area: 'SEL', title: ' ', measure: '' })).toEqual([
+        'Enter a goal',
+        'Describe how progress will be measured',
+      ]);
+    });
+
+    it('should accept a measurable goal', () => {
+      expect(
+        validateGoalForm({ area: 'SEL', title: 'Join a club', measure: 'Attends weekly' })
+      ).toEqual([]);
+    });
+  });
+
+  describe('getLatestGoalRating', () => {
+    it('should return the most recent rating', () => {
+      const goal = makeGoal('a', [
+        makeCheckIn('a', 2, '2024-02-01T10:00:00Z'),
+        makeCheckIn('a', 4, '2024-03-01T10:00:00Z'),
+      ]);
+
+      expect(getLatestGoalRating(goal)).toBe(4);
+    });
+
+    it('should return null before the first check-in', () => {
+      expect(getLatestGoalRating(makeGoal('a'))).toBeNull();
+    });
+  });
+
+  describe('buildGoalProgressSeries', () => {
+    it('should merge check-ins from several goals by time, oldest first', () => {
+      const goals = [
+        makeGoal('a', [
+          makeCheckIn('a', 2, '2024-02-01T10:00:00Z'),
+          makeCheckIn('a', 3, '2024-03-01T10:00:00Z'),
+        ]),
+        makeGoal('b', [
+          makeCheckIn('b', 1, '2024-01-15T10:00:00Z'),
+          makeCheckIn('b', 5, '2024-03-01T10:00:00Z'),
+        ]),
+      ];
+
+      expect(buildGoalProgressSeries(goals)).toEqual([
+        { recordedAt: Date.parse('2024-01-15T10:00:00Z'), b: 1 },
+        { recordedAt: Date.parse('2024-02-01T10:00:00Z'), a: 2 },
+        { recordedAt: Date.parse('2024-03-01T10:00:00Z'), a: 3, b: 5 },
+      ]);
+    });
+  });
+});
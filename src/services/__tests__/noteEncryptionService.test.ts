@@ -0,0 +1,88 @@
+/**
+ * Note Encryption Service Tests
+ *
+ * Covers sealing and opening note envelopes with their data keys.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { isEncryptedNote, openNote, sealNote } from '../noteEncryptionService';
+
+const WRAPPING = { version: 1, wrappedKey: 'd3JhcHBlZA==' };
+
+function generateDataKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, [
+    'encrypt',
+    'decrypt',
+  ]) as Promise<CryptoKey>;
+}
+
+describe('Note Encryption Service', () => {
+  describe('isEncryptedNote', () => {
+    it('should recognize encrypted envelopes', async () => {
+      const key = await generateDataKey();
+      const envelope = await sealNote('Discussed schedule change', key, WRAPPING);
+
+      expect(isEncryptedNote(envelope)).toBe(true);
+    });
+
+    it('should treat plaintext and empty values as unencrypted', () => {
+      expect(isEncryptedNote('Discussed schedule change')).toBe(false);
+      expect(isEncryptedNote('')).toBe(false);
+      expect(isEncryptedNote(null)).toBe(false);
+      expect(isEncryptedNote(undefined)).toBe(false);
+    });
+  });
+
+  describe('sealNote', () => {
+    it('should round-trip a note through its data key', async () => {
+      const key = await generateDataKey();
+      const note = 'Student reported stress about exams.\nFollow up next week.';
+
+      const envelope = await sealNote(note, key, WRAPPING);
+
+      expect(envelope).not.toContain('stress');
+      expect(await openNote(envelope, key)).toBe(note);
+    });
+
+    it('should store the key version and wrapped data key in the envelope', async () => {
+      const key = await generateDataKey();
+
+      const envelope = await sealNote('Confidential', key, { version: 3, wrappedKey: 'abc=' });
+
+      expect(envelope.startsWith('enc:v1:3:abc=:')).toBe(true);
+    });
+
+    it('should produce a different envelope each time', async () => {
+      const key = await generateDataKey();
+
+      const first = await sealNote('Same note', key, WRAPPING);
+      const second = await sealNote('Same note', key, WRAPPING);
+
+      expect(first).not.toBe(second);
+    });
+  });
+
+  describe('openNote', () => {
+    it('should fail with another data key', async () => {
+      const envelope = await sealNote('Confidential', await generateDataKey(), WRAPPING);
+
+      await expect(openNote(envelope, await generateDataKey())).rejects.toThrow();
+    });
+
+    it('should fail when the ciphertext has been tampered with', async () => {
+      const key = await generateDataKey();
+      const envelope = await sealNote('Confidential', key, WRAPPING);
+      const parts = envelope.split(':');
+      const ciphertext = parts[parts.length - 1];
+      parts[parts.length - 1] = (ciphertext[0] === 'A' ? 'B' : 'A') + ciphertext.slice(1);
+
+      await expect(openNote(parts.join(':'), key)).rejects.toThrow();
+    });
+
+    it('should reject malformed envelopes', async () => {
+      await expect(openNote('enc:v1:1:abc', await generateDataKey())).rejects.toThrow(
+        'Malformed encrypted note'
+      );
+    });
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * Report Aggregates Tests
+ *
+ * Checks that report totals computed in the database match the client-side
+ * report helpers. REPORT_AGGREGATES_ROW is what get_report_aggregates returns
+ * for the fixture below; supabase/tests/database/report_aggregates.test.sql
+ * asserts the same values against the function itself.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { rpc } = vi.hoisted(() => ({ rpc: vi.fn() }));
+
+vi.mock('../supabase', () => ({ supabase: { rpc } }));
+
+import { fetchReportAggregates } from '../api';
+import {
+  applyReportFilters,
+  calculateCategoryBreakdown,
+  calculateStudentFrequency,
+  calculateSummaryStats,
+  calculateTimeAllocationByCategory,
+  calculateTimeAllocationByGrade,
+  calculateTopStudentsByTime,
+  calculateTrendData,
+  groupByGradeLevel,
+} from '@/utils/reportHelpers';
+import type { Interaction } from '@/types/interaction';
+import type { ReasonCategory } from '@/types/reason';
+import type { Student } from '@/types/student';
+import type { ReportAggregatesDbResponse, ReportFilters } from '@/types/dashboard';
+
+const ACADEMIC_ID = '30000000-0000-0000-0000-000000000001';
+const SOCIAL_ID = '30000000-0000-0000-0000-000000000002';
+const ADA_ID = '40000000-0000-0000-0000-000000000001';
+const BEN_ID = '40000000-0000-0000-0000-000000000002';
+const CY_ID = '40000000-0000-0000-0000-000000000003';
+const CONTACT_ID = '50000000-0000-0000-0000-000000000001';
+
+function makeCategory(id: string, name: string, color: string): ReasonCategory {
+  return {
+    id,
+    name,
+    color,
+    sortOrder: 0,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+}
+
+function makeStudent(id: string, firstName: string, lastName: string, gradeLevel: string): Student {
+  return {
+    id,
+    studentId: id.slice(-4),
+    firstName,
+    lastName,
+    gradeLevel,
+    needsFollowUp: false,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+}
+
+const academic = makeCategory(ACADEMIC_ID, 'Academic', '#3b82f6');
+const social = makeCategory(SOCIAL_ID, 'Social', '#10b981');
+const ada = makeStudent(ADA_ID, 'Ada', 'Lovelace', '9');
+const ben = makeStudent(BEN_ID, 'Ben', 'Carter', '10');
+// No grade on file, so reported as Unknown
+const cy = makeStudent(CY_ID, 'Cy', 'Dunn', '');
+
+function makeInteraction(
+  id: number,
+  startTime: string,
+  durationMinutes: number,
+  category: ReasonCategory,
+  people: Pick<Interaction, 'studentId' | 'student' | 'contactId' | 'isGroup' | 'participants'>
+): Interaction {
+  const start = new Date(startTime);
+  return {
+    id: `60000000-0000-0000-0000-00000000000${id}`,
+    counselorId: '20000000-0000-0000-0000-000000000001',
+    categoryId: category.id,
+    category,
+    startTime: start,
+    durationMinutes,
+    endTime: new Date(start.getTime() + durationMinutes * 60000),
+    needsFollowUp: false,
+    isFollowUpComplete: false,
+    createdAt: start,
+    updatedAt: start,
+    ...people,
+  };
+}
+
+function direct(student: Student) {
+  return { studentId: student.id, student, isGroup: false, participants: [] };
+}
+
+function group(...participants: Array<[Student, boolean]>) {
+  return {
+    isGroup: true,
+    participants: participants.map(([student, attended]) => ({
+      studentId: student.id,
+      student,
+      attended,
+    })),
+  };
+}
+
+// Newest first, as the helpers have always received them
+const interactions: Interaction[] = [
+  makeInteraction(7, '2024-10-15T10:00:00Z', 30, academic, direct(ben)),
+  makeInteraction(6, '2024-09-05T15:00:00Z', 40, academic, group([ben, true])),
+  makeInteraction(5, '2024-09-05T11:00:00Z', 25, academic, direct(cy)),
+  makeInteraction(4, '2024-09-04T09:00:00Z', 15, social, {
+    contactId: CONTACT_ID,
+    isGroup: false,
+    participants: [],
+  }),
+  // Grades 9 and 10 attended, so reported as Mixed
+  makeInteraction(
+    3,
+    '2024-09-03T14:00:00Z',
+    45,
+    social,
+    group([ada, true], [ben, true], [cy, false])
+  ),
+  makeInteraction(2, '2024-09-03T10:00:00Z', 20, academic, direct(ada)),
+  makeInteraction(1, '2024-09-02T10:00:00Z', 30, academic, direct(ada)),
+];
+
+const filters: ReportFilters = {
+  startDate: new Date('2024-09-01T00:00:00Z'),
+  endDate: new Date('2024-09-30T12:00:00Z'),
+};
+
+const REPORT_AGGREGATES_ROW: ReportAggregatesDbResponse = {
+  total_interactions: 6,
+  total_duration: 175,
+  total_students: 3,
+  total_contacts: 1,
+  categories: [
+    {
+      category_id: SOCIAL_ID,
+      category_name: 'Social',
+      color: '#10b981',
+      count: 2,
+      total_duration: 60,
+      last_start_time: '2024-09-04T09:00:00+00:00',
+    },
+    {
+      category_id: ACADEMIC_ID,
+      category_name: 'Academic',
+      color: '#3b82f6',
+      count: 4,
+      total_duration: 115,
+      last_start_time: '2024-09-05T15:00:00+00:00',
+    },
+  ],
+  grade_levels: [
+    { grade_level: 'Unknown', count: 2, total_duration: 40 },
+    { grade_level: 'Mixed', count: 1, total_duration: 45 },
+    { grade_level: '9', count: 2, total_duration: 50 },
+    { grade_level: '10', count: 1, total_duration: 40 },
+  ],
+  trend: [
+    { date: '2024-09-02', count: 1, total_duration: 30 },
+    { date: '2024-09-03', count: 2, total_duration: 65 },
+    { date: '2024-09-04', count: 1, total_duration: 15 },
+    { date: '2024-09-05', count: 2, total_duration: 65 },
+  ],
+  students: [
+    {
+      student_id: CY_ID,
+      student_name: 'Cy Dunn',
+      grade_level: '',
+      count: 1,
+      total_duration: 25,
+      last_start_time: '2024-09-05T11:00:00+00:00',
+    },
+    {
+      student_id: ADA_ID,
+      student_name: 'Ada Lovelace',
+      grade_level: '9',
+      count: 3,
+      total_duration: 95,
+      last_start_time: '2024-09-03T14:00:00+00:00',
+    },
+    {
+      student_id: BEN_ID,
+      student_name: 'Ben Carter',
+      grade_level: '10',
+      count: 2,
+      total_duration: 85,
+      last_start_time: '2024-09-05T15:00:00+00:00',
+    },
+  ],
+  student_trend: [{ date: '2024-09-01', count: 3 }],
+};
+
+describe('Report Aggregates', () => {
+  const filtered = applyReportFilters(interactions, filters);
+
+  beforeEach(() => {
+    rpc.mockReset();
+    rpc.mockResolvedValue({ data: REPORT_AGGREGATES_ROW, error: null });
+  });
+
+  it('should pass the report filters to the database', async () => {
+    await fetchReportAggregates({ ...filters, gradeLevel: '10', categoryId: ACADEMIC_ID }, 'week');
+
+    expect(rpc).toHaveBeenCalledWith(
+      'get_report_aggregates',
+      expect.objectContaining({
+        p_start_time: '2024-09-01T00:00:00.000Z',
+        p_grade_level: '10',
+        p_category_id: ACADEMIC_ID,
+        p_counselor_id: null,
+        p_regarding_student_id: null,
+        p_trend_bucket: 'week',
+      })
+    );
+  });
+
+  it('should match the summary statistics', async () => {
+    const { data } = await fetchReportAggregates(filters);
+
+    expect(data?.summary).toEqual(calculateSummaryStats(filtered));
+  });
+
+  it('should match the category breakdown and time allocation', async () => {
+    const { data } = await fetchReportAggregates(filters);
+
+    expect(data?.categoryBreakdown.map(({ color: _color, ...category }) => category)).toEqual(
+      calculateCategoryBreakdown(filtered)
+    );
+    expect(data?.timeByCategory).toEqual(calculateTimeAllocationByCategory(filtered));
+  });
+
+  it('should match the grade-level breakdown, including Mixed and Unknown', async () => {
+    const { data } = await fetchReportAggregates(filters);
+    const byGrade = groupByGradeLevel(filtered);
+
+    expect(data?.gradeLevelBreakdown).toEqual(byGrade);
+    expect(data?.timeByGradeLevel).toEqual(calculateTimeAllocationByGrade(filtered));
+    expect(byGrade.find(grade => grade.gradeLevel === 'Mixed')?.count).toBe(1);
+    // A contact interaction and a student without a grade
+    expect(byGrade.find(grade => grade.gradeLevel === 'Unknown')?.count).toBe(2);
+  });
+
+  it('should credit attended group participants like the student helpers', async () => {
+    const { data } = await fetchReportAggregates(filters);
+
+    expect(data?.studentFrequency).toEqual(calculateStudentFrequency(filtered));
+    expect(data?.topStudentsByTime).toEqual(calculateTopStudentsByTime(filtered));
+  });
+
+  it('should match the daily trend', async () => {
+    const { data } = await fetchReportAggregates(filters);
+
+    expect(data?.trend).toEqual(calculateTrendData(filtered, 'day'));
+    expect(data?.studentTrend).toEqual([{ date: new Date(2024, 8, 1), count: 3 }]);
+  });
+
+  it('should match a group session on any attended participant when filtering by grade', () => {
+    // The database test expects the same two interactions for grade 10
+    expect(
+      applyReportFilters(interactions, { ...filters, gradeLevel: '10' }).map(
+        interaction => interaction.id
+      )
+    ).toEqual(['60000000-0000-0000-0000-000000000006', '60000000-0000-0000-0000-000000000003']);
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Risk Flag Service Tests
+ *
+ * Covers severity ordering and the safety plan rule for high risk flags.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getHighestRiskSeverity, validateRiskFlagForm } from '../riskFlagService';
+import type { RiskFlag, SafetyPlan } from '@/types/riskFlag';
+
+const safetyPlan: SafetyPlan = {
+  warningSigns: 'Withdrawn in class',
+  copingStrategies: 'Check in with counselor',
+  supportContacts: 'Parent, school nurse',
+  guardianNotified: true,
+};
+
+function makeFlag(overrides: Partial<RiskFlag>): RiskFlag {
+  return {
+    id: 'flag-1',
+    studentId: 'student-1',
+    category: 'ATTENDANCE',
+    severity: 'LOW',
+    raisedAt: new Date('2024-01-01'),
+    ...overrides,
+  };
+}
+
+describe('Risk Flag Service', () => {
+  describe('getHighestRiskSeverity', () => {
+    it('should ignore cleared flags', () => {
+      const flags = [
+        makeFlag({ severity: 'MEDIUM' }),
+        makeFlag({ severity: 'HIGH', clearedAt: new Date('2024-02-01') }),
+      ];
+
+      expect(getHighestRiskSeverity(flags)).toBe('MEDIUM');
+    });
+
+    it('should return null without open flags', () => {
+      expect(getHighestRiskSeverity([])).toBeNull();
+    });
+  });
+
+  describe('validateRiskFlagForm', () => {
+    it('should require a safety plan for a high flag', () => {
+      expect(validateRiskFlagForm({ category: 'SAFETY', severity: 'HIGH' })).toEqual([
+        'A safety plan is required for a high risk flag',
+      ]);
+      expect(validateRiskFlagForm({ category: 'SAFETY', severity: 'HIGH', safetyPlan })).toEqual(
+        []
+      );
+    });
+
+    it('should accept an existing safety plan when escalating', () => {
+      const flag = makeFlag({ severity: 'MEDIUM', safetyPlan });
+
+      expect(validateRiskFlagForm({ category: 'ATTENDANCE', severity: 'HIGH' }, flag)).toEqual([]);
+    });
+
+    it('should reject an incomplete safety plan', () => {
+      const errors = validateRiskFlagForm({
+        category: 'SAFETY',
+        severity: 'HIGH',
+        safetyPlan: { ...safetyPlan, supportContacts: ' ' },
+      });
+
+      expect(errors).toEqual(['List support contacts in the safety plan']);
+    });
+
+    it('should reject a change to the same severity', () => {
+      const flag = makeFlag({ severity: 'LOW' });
+
+      expect(validateRiskFlagForm({ category: 'ATTENDANCE', severity: 'LOW' }, flag)).toHaveLength(
+        1
+      );
+    });
+  });
+});
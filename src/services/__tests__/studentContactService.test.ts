@@ -0,0 +1,93 @@
+/**
+ * Student Contact Service Tests
+ *
+ * Covers link ordering and validation.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { sortStudentContactLinks, validateStudentContactLink } from '../studentContactService';
+import type { StudentContactFormData, StudentContactLink } from '@/types/contact';
+
+function makeLink(id: string, overrides: Partial<StudentContactLink>): StudentContactLink {
+  return {
+    id,
+    studentId: `student-${id}`,
+    studentName: `Student ${id}`,
+    contactId: `contact-${id}`,
+    contactName: `Contact ${id}`,
+    relationship: 'Parent',
+    isPrimaryGuardian: false,
+    hasCustody: false,
+    noContact: false,
+    ...overrides,
+  };
+}
+
+const validForm: StudentContactFormData = {
+  studentId: 'student-1',
+  contactId: 'contact-1',
+  relationship: 'Parent',
+  isPrimaryGuardian: true,
+  hasCustody: true,
+  noContact: false,
+};
+
+describe('Student Contact Service', () => {
+  describe('sortStudentContactLinks', () => {
+    it('puts the primary guardian first and no-contact links last', () => {
+      const links = [
+        makeLink('a', { noContact: true }),
+        makeLink('b', {}),
+        makeLink('c', { hasCustody: true }),
+        makeLink('d', { isPrimaryGuardian: true, hasCustody: true }),
+      ];
+
+      expect(sortStudentContactLinks(links, 'contact').map(link => link.id)).toEqual([
+        'd',
+        'c',
+        'b',
+        'a',
+      ]);
+    });
+
+    it('orders links in the same group by the name being listed', () => {
+      const links = [
+        makeLink('1', { contactName: 'Zoe Park', studentName: 'Ann Park' }),
+        makeLink('2', { contactName: 'Amy Park', studentName: 'Zed Park' }),
+      ];
+
+      expect(sortStudentContactLinks(links, 'contact').map(link => link.id)).toEqual(['2', '1']);
+      expect(sortStudentContactLinks(links, 'student').map(link => link.id)).toEqual(['1', '2']);
+    });
+
+    it('does not reorder the input', () => {
+      const links = [makeLink('a', {}), makeLink('b', { isPrimaryGuardian: true })];
+      sortStudentContactLinks(links, 'contact');
+
+      expect(links[0].id).toBe('a');
+    });
+  });
+
+  describe('validateStudentContactLink', () => {
+    it('accepts a complete link', () => {
+      expect(validateStudentContactLink(validForm)).toEqual([]);
+    });
+
+    it('requires a student, contact and relationship', () => {
+      expect(
+        validateStudentContactLink({
+          ...validForm,
+          studentId: '',
+          contactId: '',
+          relationship: ' ',
+        })
+      ).toEqual(['Choose a student', 'Choose a contact', 'Enter the relationship']);
+    });
+
+    it('rejects a primary guardian marked no-contact', () => {
+      expect(validateStudentContactLink({ ...validForm, noContact: true })).toEqual([
+        'A primary guardian cannot be marked no-contact',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Student Import Service Tests
+ *
+ * Covers CSV parsing, column auto-mapping and the dry-run import plan.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseCsv,
+  autoMapColumns,
+  normalizeGradeLevel,
+  buildStudentImportPlan,
+} from '../studentImportService';
+import type { Student } from '@/types/student';
+
+const existingStudent: Student = {
+  id: 'uuid-1',
+  studentId: 'S100',
+  firstName: 'Ava',
+  lastName: 'Lopez',
+  gradeLevel: '9th Grade',
+  email: 'ava@example.com',
+  needsFollowUp: false,
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01'),
+};
+
+describe('Student Import Service', () => {
+  describe('parseCsv', () => {
+    it('should handle quoted cells, escaped quotes and CRLF line endings', () => {
+      const rows = parseCsv('id,name\r\n1,"Lopez, Ava"\r\n2,"Say ""hi"""\r\n');
+
+      expect(rows).toEqual([
+        ['id', 'name'],
+        ['1', 'Lopez, Ava'],
+        ['2', 'Say "hi"'],
+      ]);
+    });
+
+    it('should keep line breaks inside quotes and drop blank lines', () => {
+      const rows = parseCsv('﻿a,b\n\n"line 1\nline 2",x');
+
+      expect(rows).toEqual([
+        ['a', 'b'],
+        ['line 1\nline 2', 'x'],
+      ]);
+    });
+  });
+
+  describe('autoMapColumns', () => {
+    it('should map common header spellings to fields', () => {
+      const mapping = autoMapColumns(['Student_ID', 'First Name', 'LAST NAME', 'Grade', 'Notes']);
+
+      expect(mapping).toEqual({ studentId: 0, firstName: 1, lastName: 2, gradeLevel: 3 });
+    });
+  });
+
+  describe('normalizeGradeLevel', () => {
+    it('should normalize numeric and abbreviated grades', () => {
+      expect(normalizeGradeLevel('9')).toBe('9th Grade');
+      expect(normalizeGradeLevel('Grade 1')).toBe('1st Grade');
+      expect(normalizeGradeLevel('12th')).toBe('12th Grade');
+      expect(normalizeGradeLevel('K')).toBe('Kindergarten');
+      expect(normalizeGradeLevel('PK')).toBe('Pre-K');
+      expect(normalizeGradeLevel('13')).toBe('13');
+    });
+  });
+
+  describe('buildStudentImportPlan', () => {
+    const mapping = { studentId: 0, firstName: 1, lastName: 2, gradeLevel: 3, email: 4 };
+
+    it('should classify rows as create, update, skip and error', () => {
+      const plan = buildStudentImportPlan(
+        [
+          ['S200', 'Ben', 'Kim', '10', ''],
+          ['S100', 'Ava', 'Lopez', '10th Grade', ''],
+          ['S100', 'Ava', 'Lopez', '9', ''],
+          ['S300', '', 'Diaz', '11', 'not-an-email'],
+        ],
+        mapping,
+        [existingStudent]
+      );
+
+      expect(plan.rows.map(row => row.action)).toEqual(['create', 'update', 'error', 'error']);
+      expect(plan.rows[1].changes).toEqual([
+        { field: 'gradeLevel', from: '9th Grade', to: '10th Grade' },
+      ]);
+      expect(plan.rows[2].errors[0]).toContain('Duplicate student ID');
+      expect(plan.rows[3].errors).toHaveLength(2);
+      expect(plan).toMatchObject({ createCount: 1, updateCount: 1, skipCount: 0, errorCount: 2 });
+    });
+
+    it('should skip existing students with no changes and keep values for blank cells', () => {
+      const plan = buildStudentImportPlan([['S100', 'Ava', 'Lopez', '9th Grade', '']], mapping, [
+        existingStudent,
+      ]);
+
+      expect(plan.rows[0].action).toBe('skip');
+      expect(plan.rows[0].rowNumber).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Student Merge Service Tests
+ *
+ * Covers the duplicate heuristics and the review queue built from them.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  findDuplicateStudents,
+  getDuplicatePairKey,
+  getDuplicateReasons,
+} from '../studentMergeService';
+import type { Student } from '@/types/student';
+
+function makeStudent(id: string, overrides: Partial<Student>): Student {
+  return {
+    id,
+    studentId: `S-${id}`,
+    firstName: 'Jordan',
+    lastName: 'Lee',
+    gradeLevel: '9',
+    needsFollowUp: false,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+    ...overrides,
+  } as Student;
+}
+
+describe('Student Merge Service', () => {
+  describe('getDuplicateReasons', () => {
+    it('should match names regardless of case, accents and where the middle name was typed', () => {
+      const a = makeStudent('1', { firstName: 'José', lastName: 'Ann Garcia' });
+      const b = makeStudent('2', { firstName: 'jose ann', lastName: 'GARCIA' });
+
+      expect(getDuplicateReasons(a, b)).toEqual(['SAME_NAME']);
+    });
+
+    it('should match short forms and one-letter typos', () => {
+      const alex = makeStudent('1', { firstName: 'Alex', lastName: 'Smith' });
+
+      expect(
+        getDuplicateReasons(alex, makeStudent('2', { firstName: 'Alexander', lastName: 'Smith' }))
+      ).toEqual(['SIMILAR_NAME']);
+      expect(
+        getDuplicateReasons(alex, makeStudent('3', { firstName: 'Alex', lastName: 'Smyth' }))
+      ).toEqual(['SIMILAR_NAME']);
+    });
+
+    it('should match swapped first and last names', () => {
+      const a = makeStudent('1', { firstName: 'Lee', lastName: 'Jordan' });
+
+      expect(getDuplicateReasons(a, makeStudent('2', {}))).toEqual(['SWAPPED_NAME']);
+    });
+
+    it('should not treat a shared family phone as a duplicate on its own', () => {
+      const a = makeStudent('1', { firstName: 'Sam', phone: '(555) 123-4567' });
+      const b = makeStudent('2', { firstName: 'Riley', phone: '555-123-4567' });
+
+      expect(getDuplicateReasons(a, b)).toEqual([]);
+    });
+
+    it('should add email and phone matches to a name match', () => {
+      const a = makeStudent('1', { email: 'JLee@school.org', phone: '555 123 4567' });
+      const b = makeStudent('2', { email: 'jlee@school.org', phone: '+1 555-123-4567' });
+
+      expect(getDuplicateReasons(a, b)).toEqual(['SAME_NAME', 'SAME_EMAIL', 'SAME_PHONE']);
+    });
+  });
+
+  describe('findDuplicateStudents', () => {
+    const students = [
+      makeStudent('1', { firstName: 'Jordan', lastName: 'Lee', email: 'jlee@school.org' }),
+      makeStudent('2', { firstName: 'Jordan', lastName: 'Lee', email: 'jlee@school.org' }),
+      makeStudent('3', { firstName: 'Jorge', lastName: 'Lopez' }),
+      makeStudent('4', { firstName: 'Jord', lastName: 'Lee' }),
+    ];
+
+    it('should list each likely pair once, most likely first', () => {
+      const candidates = findDuplicateStudents(students);
+
+      expect(candidates.map(c => getDuplicatePairKey(c.student.id, c.other.id))).toEqual([
+        '1:2',
+        '1:4',
+        '2:4',
+      ]);
+      expect(candidates[0].score).toBeGreaterThan(candidates[1].score);
+    });
+
+    it('should skip dismissed pairs', () => {
+      const candidates = findDuplicateStudents(students, new Set(['1:4', '2:4']));
+
+      expect(candidates).toHaveLength(1);
+    });
+  });
+});
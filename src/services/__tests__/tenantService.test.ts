@@ -0,0 +1,73 @@
+/**
+ * Tenant Service Tests
+ *
+ * Covers reading the tenant subdomain from a hostname and the branding helpers.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getSubdomainFromHostname, hexToHslComponents, validateTenantLogo } from '../tenantService';
+
+describe('Tenant Service', () => {
+  describe('getSubdomainFromHostname', () => {
+    it('reads the subdomain under the app domain', () => {
+      expect(
+        getSubdomainFromHostname('lincoln-high.counselorledger.app', 'counselorledger.app')
+      ).toBe('lincoln-high');
+      expect(
+        getSubdomainFromHostname('Lincoln-High.CounselorLedger.app.', 'counselorledger.app')
+      ).toBe('lincoln-high');
+    });
+
+    it('ignores hosts outside the app domain and nested subdomains', () => {
+      expect(getSubdomainFromHostname('counselorledger.app', 'counselorledger.app')).toBeNull();
+      expect(getSubdomainFromHostname('lincoln.example.com', 'counselorledger.app')).toBeNull();
+      expect(getSubdomainFromHostname('a.b.counselorledger.app', 'counselorledger.app')).toBeNull();
+    });
+
+    it('names no tenant when no app domain is configured', () => {
+      expect(getSubdomainFromHostname('lincoln-high.example.com')).toBeNull();
+      expect(getSubdomainFromHostname('my-ledger.vercel.app')).toBeNull();
+      expect(getSubdomainFromHostname('my-ledger.netlify.app')).toBeNull();
+      expect(getSubdomainFromHostname('192.168.1.20')).toBeNull();
+    });
+
+    it('reads subdomains of localhost', () => {
+      expect(getSubdomainFromHostname('lincoln-high.localhost', 'counselorledger.app')).toBe(
+        'lincoln-high'
+      );
+      expect(getSubdomainFromHostname('localhost')).toBeNull();
+    });
+
+    it('ignores reserved names', () => {
+      expect(getSubdomainFromHostname('www.counselorledger.app', 'counselorledger.app')).toBeNull();
+      expect(getSubdomainFromHostname('app.localhost')).toBeNull();
+    });
+  });
+
+  describe('hexToHslComponents', () => {
+    it('converts hex colors to theme HSL components', () => {
+      expect(hexToHslComponents('#ff0000')).toBe('0 100% 50%');
+      expect(hexToHslComponents('#0EA5E9')).toBe('199 89% 48%');
+      expect(hexToHslComponents('#808080')).toBe('0 0% 50%');
+    });
+
+    it('rejects anything but #rrggbb', () => {
+      expect(hexToHslComponents('red')).toBeNull();
+      expect(hexToHslComponents('#fff')).toBeNull();
+      expect(hexToHslComponents('#ff0000; color: blue')).toBeNull();
+    });
+  });
+
+  describe('validateTenantLogo', () => {
+    it('accepts small images', () => {
+      expect(validateTenantLogo({ type: 'image/png', size: 50_000 })).toEqual([]);
+    });
+
+    it('rejects other file types and large files', () => {
+      expect(validateTenantLogo({ type: 'application/pdf', size: 2_000_000 })).toHaveLength(2);
+      expect(validateTenantLogo({ type: 'image/svg+xml', size: 5_000 })).toEqual([
+        'Choose a PNG, JPEG or WebP image',
+      ]);
+    });
+  });
+});
@@ -7,9 +7,34 @@
 
 import { supabase } from './supabase';
 import { getTenantContext, handleSupabaseError, type SupabaseResponse } from './supabaseHelpers';
-import type { Student, StudentDbResponse } from '@/types/student';
+import { decryptInteractionRows, encryptInteractionNotes } from './noteEncryptionService';
+import { completeFollowUpTask } from './followUpTaskService';
+import type { Student, StudentDbResponse, GradePromotionResult } from '@/types/student';
 import type { Contact, ContactDbResponse } from '@/types/contact';
-import type { Interaction, InteractionFormData, InteractionDbResponse } from '@/types/interaction';
+import type { User, UserDbResponse } from '@/types/user';
+import type {
+  ReportAggregates,
+  ReportAggregatesDbResponse,
+  ReportFilters,
+  TrendBucket,
+} from '@/types/dashboard';
+import { compareGradeLevels, getEndOfReportRange } from '@/utils/reportHelpers';
+import type {
+  ReasonCategory,
+  ReasonCategoryDbResponse,
+  ReasonSubcategory,
+  ReasonSubcategoryDbResponse,
+} from '@/types/reason';
+import type {
+  Interaction,
+  InteractionCursor,
+  InteractionFormData,
+  InteractionDbResponse,
+  InteractionListFilters,
+  InteractionPage,
+  InteractionParticipant,
+  InteractionParticipantDbResponse,
+} from '@/types/interaction';
 
 // ============================================================================
 // STUDENTS API
@@ -227,6 +252,33 @@ export async function deleteStudent(id: string): Promise<SupabaseResponse<null>>
   }
 }
 
+/**
+ * Year-end rollover: promote every active student one grade and archive
+ * graduating seniors. Admin only; runs atomically in the database.
+ */
+export async function promoteStudentGrades(): Promise<SupabaseResponse<GradePromotionResult>> {
+  try {
+    const { data, error } = await supabase.rpc('promote_student_grades');
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return { data: data as GradePromotionResult, error: null };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to promote student grades',
+      },
+    };
+  }
+}
+
 // ============================================================================
 // CONTACTS API
 // ============================================================================
@@ -446,6 +498,11 @@ export async function deleteContact(id: string): Promise<SupabaseResponse<null>>
 // INTERACTIONS API
 // ============================================================================
 
+/**
+ * Interaction columns plus the participant list of group sessions
+ */
+export const INTERACTION_SELECT = '*, interaction_participants(student_id, attended)';
+
 /**
  * Fetch all interactions for the current tenant
  */
@@ -464,7 +521,7 @@ export async function fetchInteractions(): Promise<SupabaseResponse<Interaction[
 
     const { data, error } = await supabase
       .from('interactions')
-      .select('*')
+      .select(INTERACTION_SELECT)
       .eq('tenant_id', context.tenantId)
       .order('start_time', { ascending: false });
 
@@ -475,7 +532,7 @@ export async function fetchInteractions(): Promise<SupabaseResponse<Interaction[
       };
     }
 
-    const interactions = (data || []).map(convertInteractionFromDb);
+    const interactions = (await decryptInteractionRows(data || [])).map(convertInteractionFromDb);
     return { data: interactions, error: null };
   } catch (error) {
     return {
@@ -489,11 +546,183 @@ export async function fetchInteractions(): Promise<SupabaseResponse<Interaction[
 }
 
 /**
- * Fetch a single interaction by ID
+ * Interaction columns with the people, category and counselor shown in lists
+ */
+const INTERACTION_LIST_SELECT = `
+  *,
+  interaction_participants(student_id, attended, student:students(*)),
+  student:students!student_id(*),
+  contact:contacts(*),
+  regarding_student:students!regarding_student_id(*),
+  category:reason_categories(*),
+  subcategory:reason_subcategories(*),
+  counselor:users!counselor_id(*)
+`;
+
+const INTERACTION_PAGE_SIZE = 50;
+
+type InteractionListRow = InteractionDbResponse & {
+  interaction_participants?: Array<
+    InteractionParticipantDbResponse & { student?: StudentDbResponse | null }
+  >;
+  student?: StudentDbResponse | null;
+  contact?: ContactDbResponse | null;
+  regarding_student?: StudentDbResponse | null;
+  category?: ReasonCategoryDbResponse | null;
+  subcategory?: ReasonSubcategoryDbResponse | null;
+  counselor?: UserDbResponse | null;
+};
+
+/**
+ * Fetch one page of interactions matching `filters`, newest first. Pass the
+ * previous page's nextCursor to continue; the first page also returns the
+ * total number of matching interactions.
+ */
+export async function fetchInteractionPage(
+  filters: InteractionListFilters,
+  cursor: InteractionCursor | null = null,
+  pageSize = INTERACTION_PAGE_SIZE
+): Promise<SupabaseResponse<InteractionPage>> {
+  try {
+    const context = await getTenantContext();
+    if (!context) {
+      return {
+        data: null,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'User not authenticated',
+        },
+      };
+    }
+
+    const countOption = cursor ? undefined : { count: 'exact' as const };
+    const search = filters.search?.trim();
+    let query = (
+      search
+        ? supabase
+            .rpc('search_interactions', { p_query: search }, countOption)
+            .select(INTERACTION_LIST_SELECT)
+        : supabase.from('interactions').select(INTERACTION_LIST_SELECT, countOption)
+    ).eq('tenant_id', context.tenantId);
+
+    if (filters.startDate) {
+      query = query.gte('start_time', new Date(filters.startDate).toISOString());
+    }
+    if (filters.endDate) {
+      const end = new Date(filters.endDate);
+      end.setHours(23, 59, 59, 999); // Include the entire end date
+      query = query.lte('start_time', end.toISOString());
+    }
+    if (filters.categoryId) {
+      query = query.eq('category_id', filters.categoryId);
+    }
+    if (filters.contactId) {
+      query = query.eq('contact_id', filters.contactId);
+    }
+    if (filters.counselorId) {
+      query = query.eq('counselor_id', filters.counselorId);
+    }
+
+    switch (filters.followUpStatus) {
+      case 'pending':
+      case 'overdue':
+        query = query
+          .eq('needs_follow_up', true)
+          .eq('is_follow_up_complete', false)
+          .not('follow_up_date', 'is', null);
+        if (filters.followUpStatus === 'overdue') {
+          query = query.lt('follow_up_date', new Date().toISOString());
+        }
+        break;
+      case 'completed':
+        query = query.eq('is_follow_up_complete', true);
+        break;
+    }
+
+    // Conditions with alternatives, combined into a single or= parameter
+    const alternatives: string[] = [];
+
+    if (filters.studentId) {
+      const { data: sessions, error: sessionsError } = await supabase
+        .from('interaction_participants')
+        .select('interaction_id')
+        .eq('tenant_id', context.tenantId)
+        .eq('student_id', filters.studentId);
+
+      if (sessionsError) {
+        return {
+          data: null,
+          error: handleSupabaseError(sessionsError),
+        };
+      }
+
+      const sessionIds = (sessions || []).map(session => session.interaction_id);
+      alternatives.push(
+        sessionIds.length > 0
+          ? `student_id.eq.${filters.studentId},id.in.(${sessionIds.join(',')})`
+          : `student_id.eq.${filters.studentId}`
+      );
+    }
+
+    if (cursor) {
+      alternatives.push(
+        `start_time.lt."${cursor.startTime}",and(start_time.eq."${cursor.startTime}",id.lt.${cursor.id})`
+      );
+    }
+
+    if (alternatives.length === 1) {
+      query = query.or(alternatives[0]);
+    } else if (alternatives.length > 1) {
+      query = query.or(`and(${alternatives.map(condition => `or(${condition})`).join(',')})`);
+    }
+
+    // One extra row tells whether there is another page
+    const { data, error, count } = await query
+      .order('start_time', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(pageSize + 1);
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    const rows = (data || []) as unknown as InteractionListRow[];
+    const pageRows = rows.slice(0, pageSize);
+    const last = pageRows[pageRows.length - 1];
+
+    return {
+      data: {
+        interactions: (await decryptInteractionRows(pageRows)).map(convertInteractionListRowFromDb),
+        nextCursor: rows.length > pageSize ? { startTime: last.start_time, id: last.id } : null,
+        totalCount: count ?? undefined,
+      },
+      error: null,
+    };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to fetch interactions',
+      },
+    };
+  }
+}
+
+/**
+ * Fetch a single interaction by ID, with the people, category and counselor
+ * it refers to
  */
 export async function fetchInteraction(id: string): Promise<SupabaseResponse<Interaction>> {
   try {
-    const { data, error } = await supabase.from('interactions').select('*').eq('id', id).single();
+    const { data, error } = await supabase
+      .from('interactions')
+      .select(INTERACTION_LIST_SELECT)
+      .eq('id', id)
+      .single();
 
     if (error) {
       return {
@@ -502,8 +731,10 @@ export async function fetchInteraction(id: string): Promise<SupabaseResponse<Int
       };
     }
 
+    const [decrypted] = await decryptInteractionRows([data as unknown as InteractionListRow]);
+
     return {
-      data: convertInteractionFromDb(data),
+      data: convertInteractionListRowFromDb(decrypted),
       error: null,
     };
   } catch (error) {
@@ -539,12 +770,15 @@ export async function createInteraction(
     const startTime = new Date(formData.startTime);
     const endTime = new Date(startTime.getTime() + formData.durationMinutes * 60000);
 
-    const insertData = {
+    const isGroup = formData.type === 'group';
+
+    const insertData = await encryptInteractionNotes({
       tenant_id: context.tenantId,
       counselor_id: context.userId,
-      student_id: formData.studentId || null,
-      contact_id: formData.contactId || null,
-      regarding_student_id: formData.regardingStudentId || null,
+      student_id: isGroup ? null : formData.studentId || null,
+      contact_id: isGroup ? null : formData.contactId || null,
+      regarding_student_id: isGroup ? null : formData.regardingStudentId || null,
+      is_group: isGroup,
       category_id: formData.categoryId,
       subcategory_id: formData.subcategoryId || null,
       custom_reason: formData.customReason || null,
@@ -556,7 +790,7 @@ export async function createInteraction(
       follow_up_date: formData.followUpDate || null,
       follow_up_notes: formData.followUpNotes || null,
       is_follow_up_complete: false,
-    };
+    });
 
     const { data, error } = await supabase
       .from('interactions')
@@ -571,8 +805,36 @@ export async function createInteraction(
       };
     }
 
+    // Return the notes as entered rather than their ciphertext
+    const created = {
+      ...data,
+      notes: formData.notes,
+      follow_up_notes: formData.followUpNotes,
+    };
+
+    if (!isGroup) {
+      return {
+        data: convertInteractionFromDb(created),
+        error: null,
+      };
+    }
+
+    const participantsResponse = await saveInteractionParticipants(
+      data.id,
+      formData.participants || []
+    );
+
+    if (participantsResponse.error) {
+      // Don't leave a group session without its participants behind
+      await supabase.from('interactions').delete().eq('id', data.id);
+      return { data: null, error: participantsResponse.error };
+    }
+
     return {
-      data: convertInteractionFromDb(data),
+      data: convertInteractionFromDb({
+        ...created,
+        interaction_participants: participantsResponse.data,
+      }),
       error: null,
     };
   } catch (error) {
@@ -596,10 +858,17 @@ export async function updateInteraction(
   try {
     const updateData: any = {};
 
+    if (updates.type !== undefined) updateData.is_group = updates.type === 'group';
     if (updates.studentId !== undefined) updateData.student_id = updates.studentId || null;
     if (updates.contactId !== undefined) updateData.contact_id = updates.contactId || null;
     if (updates.regardingStudentId !== undefined)
       updateData.regarding_student_id = updates.regardingStudentId || null;
+    // Group sessions record their students as participants
+    if (updates.type === 'group') {
+      updateData.student_id = null;
+      updateData.contact_id = null;
+      updateData.regarding_student_id = null;
+    }
     if (updates.categoryId !== undefined) updateData.category_id = updates.categoryId;
     if (updates.subcategoryId !== undefined)
       updateData.subcategory_id = updates.subcategoryId || null;
@@ -619,12 +888,10 @@ export async function updateInteraction(
     if (updates.followUpNotes !== undefined)
       updateData.follow_up_notes = updates.followUpNotes || null;
 
-    const { data, error } = await supabase
+    const { error } = await supabase
       .from('interactions')
-      .update(updateData)
-      .eq('id', id)
-      .select()
-      .single();
+      .update(await encryptInteractionNotes(updateData))
+      .eq('id', id);
 
     if (error) {
       return {
@@ -633,16 +900,100 @@ export async function updateInteraction(
       };
     }
 
+    if (updates.participants !== undefined || updates.type !== undefined) {
+      const participants = updates.type === 'group' ? updates.participants || [] : [];
+      const participantsResponse = await saveInteractionParticipants(id, participants);
+
+      if (participantsResponse.error) {
+        return { data: null, error: participantsResponse.error };
+      }
+    }
+
+    return fetchInteraction(id);
+  } catch (error) {
     return {
-      data: convertInteractionFromDb(data),
-      error: null,
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to update interaction',
+      },
     };
+  }
+}
+
+/**
+ * Replace the participant list of a group interaction. Students no longer in
+ * the list are removed; the rest are added or have their attendance updated.
+ */
+export async function saveInteractionParticipants(
+  interactionId: string,
+  participants: InteractionParticipant[]
+): Promise<SupabaseResponse<InteractionParticipantDbResponse[]>> {
+  try {
+    const context = await getTenantContext();
+    if (!context) {
+      return {
+        data: null,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'User not authenticated',
+        },
+      };
+    }
+
+    let removeQuery = supabase
+      .from('interaction_participants')
+      .delete()
+      .eq('interaction_id', interactionId);
+
+    if (participants.length > 0) {
+      removeQuery = removeQuery.not(
+        'student_id',
+        'in',
+        `(${participants.map(p => p.studentId).join(',')})`
+      );
+    }
+
+    const { error: removeError } = await removeQuery;
+
+    if (removeError) {
+      return {
+        data: null,
+        error: handleSupabaseError(removeError),
+      };
+    }
+
+    if (participants.length === 0) {
+      return { data: [], error: null };
+    }
+
+    const { data, error } = await supabase
+      .from('interaction_participants')
+      .upsert(
+        participants.map(participant => ({
+          tenant_id: context.tenantId,
+          interaction_id: interactionId,
+          student_id: participant.studentId,
+          attended: participant.attended,
+        })),
+        { onConflict: 'interaction_id,student_id' }
+      )
+      .select('student_id, attended');
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return { data: data || [], error: null };
   } catch (error) {
     return {
       data: null,
       error: {
         code: 'UNKNOWN_ERROR',
-        message: error instanceof Error ? error.message : 'Failed to update interaction',
+        message: error instanceof Error ? error.message : 'Failed to save participants',
       },
     };
   }
@@ -675,53 +1026,79 @@ export async function deleteInteraction(id: string): Promise<SupabaseResponse<nu
 }
 
 /**
- * Complete a follow-up
+ * Complete a follow-up. The completion note is kept on the follow-up task;
+ * the interaction's own notes are never changed.
  */
 export async function completeFollowUp(
   id: string,
   completionNotes?: string
 ): Promise<SupabaseResponse<Interaction>> {
   try {
-    // Get the current interaction to append completion notes
-    const { data: interaction, error: fetchError } = await supabase
+    // Assignees of a handed-off follow-up cannot update the interaction itself
+    const { error: completeError } = await completeFollowUpTask(id, completionNotes);
+
+    if (completeError) {
+      return {
+        data: null,
+        error: completeError,
+      };
+    }
+
+    const { data, error } = await supabase
       .from('interactions')
-      .select('*')
+      .select(INTERACTION_LIST_SELECT)
       .eq('id', id)
       .single();
 
-    if (fetchError) {
+    if (error) {
       return {
         data: null,
-        error: handleSupabaseError(fetchError),
+        error: handleSupabaseError(error),
       };
     }
 
-    const updateData: any = {
-      is_follow_up_complete: true,
-      follow_up_completed_at: new Date().toISOString(),
+    const [decrypted] = await decryptInteractionRows([data as unknown as InteractionListRow]);
+
+    return {
+      data: convertInteractionListRowFromDb(decrypted),
+      error: null,
+    };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to complete follow-up',
+      },
     };
+  }
+}
 
-    // Append completion notes if provided
-    if (completionNotes) {
-      const existingNotes = interaction.notes || '';
-      const completionTimestamp = new Date().toLocaleString('en-US', {
-        month: 'short',
-        day: 'numeric',
-        year: 'numeric',
-        hour: 'numeric',
-        minute: '2-digit',
-        hour12: true,
-      });
-      const completionNote = `\n\n[Follow-up completed on ${completionTimestamp}]\n${completionNotes}`;
-      updateData.notes = existingNotes + completionNote;
-    }
+// ============================================================================
+// REPORTS API
+// ============================================================================
 
-    const { data, error } = await supabase
-      .from('interactions')
-      .update(updateData)
-      .eq('id', id)
-      .select()
-      .single();
+/**
+ * Dashboard and report totals for the interactions matching `filters`,
+ * computed in the database. Matches the helpers in utils/reportHelpers run over
+ * applyReportFilters(interactions, filters).
+ */
+export async function fetchReportAggregates(
+  filters: ReportFilters,
+  trendBucket: TrendBucket = 'day'
+): Promise<SupabaseResponse<ReportAggregates>> {
+  try {
+    const { data, error } = await supabase.rpc('get_report_aggregates', {
+      p_start_time: filters.startDate.toISOString(),
+      p_end_time: getEndOfReportRange(filters).toISOString(),
+      p_grade_level: filters.gradeLevel || null,
+      p_category_id: filters.categoryId || null,
+      p_counselor_id: filters.counselorId || null,
+      p_regarding_student_id: filters.regardingStudentId || null,
+      p_trend_bucket: trendBucket,
+      // Week and month buckets follow the user's calendar
+      p_time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    });
 
     if (error) {
       return {
@@ -731,7 +1108,7 @@ export async function completeFollowUp(
     }
 
     return {
-      data: convertInteractionFromDb(data),
+      data: convertReportAggregatesFromDb(data as ReportAggregatesDbResponse),
       error: null,
     };
   } catch (error) {
@@ -739,7 +1116,53 @@ export async function completeFollowUp(
       data: null,
       error: {
         code: 'UNKNOWN_ERROR',
-        message: error instanceof Error ? error.message : 'Failed to complete follow-up',
+        message: error instanceof Error ? error.message : 'Failed to fetch report totals',
+      },
+    };
+  }
+}
+
+// ============================================================================
+// USERS API
+// ============================================================================
+
+/**
+ * Fetch all users (counselors and admins) for the current tenant
+ */
+export async function fetchUsers(): Promise<SupabaseResponse<User[]>> {
+  try {
+    const context = await getTenantContext();
+    if (!context) {
+      return {
+        data: null,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'User not authenticated',
+        },
+      };
+    }
+
+    const { data, error } = await supabase
+      .from('users')
+      .select('*')
+      .eq('tenant_id', context.tenantId)
+      .order('last_name', { ascending: true });
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    const users = (data || []).map(convertUserFromDb);
+    return { data: users, error: null };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to fetch users',
       },
     };
   }
@@ -760,6 +1183,9 @@ function convertStudentFromDb(dbStudent: StudentDbResponse): Student {
     phone: dbStudent.phone,
     needsFollowUp: dbStudent.needs_follow_up,
     followUpNotes: dbStudent.follow_up_notes,
+    primaryCounselorId: dbStudent.primary_counselor_id ?? undefined,
+    secondaryCounselorId: dbStudent.secondary_counselor_id ?? undefined,
+    archivedAt: dbStudent.archived_at ? new Date(dbStudent.archived_at) : undefined,
     createdAt: new Date(dbStudent.created_at),
     updatedAt: new Date(dbStudent.updated_at),
   };
@@ -787,6 +1213,11 @@ function convertInteractionFromDb(dbInteraction: InteractionDbResponse): Interac
     studentId: dbInteraction.student_id,
     contactId: dbInteraction.contact_id,
     regardingStudentId: dbInteraction.regarding_student_id,
+    isGroup: dbInteraction.is_group ?? false,
+    participants: (dbInteraction.interaction_participants || []).map(participant => ({
+      studentId: participant.student_id,
+      attended: participant.attended,
+    })),
     categoryId: dbInteraction.category_id,
     subcategoryId: dbInteraction.subcategory_id,
     customReason: dbInteraction.custom_reason,
@@ -798,7 +1229,171 @@ function convertInteractionFromDb(dbInteraction: InteractionDbResponse): Interac
     followUpDate: dbInteraction.follow_up_date ? new Date(dbInteraction.follow_up_date) : undefined,
     followUpNotes: dbInteraction.follow_up_notes,
     isFollowUpComplete: dbInteraction.is_follow_up_complete,
+    notesDecryptionFailed: dbInteraction.notes_decryption_failed,
     createdAt: new Date(dbInteraction.created_at),
     updatedAt: new Date(dbInteraction.updated_at),
   };
 }
+
+function convertUserFromDb(dbUser: UserDbResponse): User {
+  return {
+    id: dbUser.id,
+    email: dbUser.email,
+    firstName: dbUser.first_name,
+    lastName: dbUser.last_name,
+    role: dbUser.role,
+    tenantId: dbUser.tenant_id,
+    isActive: dbUser.is_active,
+    createdAt: new Date(dbUser.created_at),
+    updatedAt: new Date(dbUser.updated_at),
+  };
+}
+
+function convertCategoryFromDb(dbCategory: ReasonCategoryDbResponse): ReasonCategory {
+  return {
+    id: dbCategory.id,
+    name: dbCategory.name,
+    color: dbCategory.color,
+    sortOrder: dbCategory.sort_order,
+    createdAt: new Date(dbCategory.created_at),
+    updatedAt: new Date(dbCategory.updated_at),
+  };
+}
+
+function convertSubcategoryFromDb(dbSubcategory: ReasonSubcategoryDbResponse): ReasonSubcategory {
+  return {
+    id: dbSubcategory.id,
+    categoryId: dbSubcategory.category_id,
+    name: dbSubcategory.name,
+    sortOrder: dbSubcategory.sort_order,
+    createdAt: new Date(dbSubcategory.created_at),
+    updatedAt: new Date(dbSubcategory.updated_at),
+  };
+}
+
+// An interaction with the relations embedded by INTERACTION_LIST_SELECT
+function convertInteractionListRowFromDb(row: InteractionListRow): Interaction {
+  const interaction = convertInteractionFromDb(row);
+
+  return {
+    ...interaction,
+    participants: interaction.participants.map((participant, index) => {
+      const student = row.interaction_participants?.[index]?.student;
+      return student ? { ...participant, student: convertStudentFromDb(student) } : participant;
+    }),
+    counselor: row.counselor ? convertUserFromDb(row.counselor) : undefined,
+    student: row.student ? convertStudentFromDb(row.student) : undefined,
+    contact: row.contact ? convertContactFromDb(row.contact) : undefined,
+    regardingStudent: row.regarding_student
+      ? convertStudentFromDb(row.regarding_student)
+      : undefined,
+    category: row.category ? convertCategoryFromDb(row.category) : undefined,
+    subcategory: row.subcategory ? convertSubcategoryFromDb(row.subcategory) : undefined,
+  };
+}
+
+// Students listed by time, as calculateTopStudentsByTime
+const TOP_STUDENTS_BY_TIME = 20;
+
+// Percentages and ordering as in reportHelpers. The client helpers keep ties in
+// the order interactions were loaded (newest first), hence the last start time.
+function convertReportAggregatesFromDb(row: ReportAggregatesDbResponse): ReportAggregates {
+  const totalInteractions = row.total_interactions;
+  const totalMinutes = row.total_duration;
+  const percentOf = (value: number, total: number) =>
+    total > 0 ? Math.round((value / total) * 100) : 0;
+
+  const categories = row.categories.map(category => ({
+    categoryId: category.category_id || 'unknown',
+    categoryName: category.category_name || 'Unknown',
+    color: category.color || undefined,
+    count: category.count,
+    totalDuration: category.total_duration,
+    lastStartTime: new Date(category.last_start_time).getTime(),
+  }));
+  const students = row.students.map(student => ({
+    studentId: student.student_id,
+    studentName: student.student_name,
+    gradeLevel: student.grade_level || 'Unknown',
+    count: student.count,
+    totalDuration: student.total_duration,
+    lastStartTime: new Date(student.last_start_time).getTime(),
+  }));
+  const gradeLevels = [...row.grade_levels].sort((a, b) =>
+    compareGradeLevels(a.grade_level, b.grade_level)
+  );
+
+  const categoryBreakdown = [...categories]
+    .sort((a, b) => b.count - a.count || b.lastStartTime - a.lastStartTime)
+    .map(({ categoryId, categoryName, color, count, totalDuration }) => ({
+      categoryId,
+      categoryName,
+      color,
+      count,
+      percentage: percentOf(count, totalInteractions),
+      totalDuration,
+    }));
+  const gradeLevelBreakdown = gradeLevels.map(grade => ({
+    gradeLevel: grade.grade_level,
+    count: grade.count,
+    percentage: percentOf(grade.count, totalInteractions),
+    totalDuration: grade.total_duration,
+  }));
+
+  return {
+    summary: {
+      totalInteractions,
+      totalStudents: row.total_students,
+      totalContacts: row.total_contacts,
+      totalDuration: totalMinutes,
+      averageDuration: totalInteractions > 0 ? Math.round(totalMinutes / totalInteractions) : 0,
+      mostCommonCategory: categoryBreakdown[0]?.categoryName ?? null,
+      // As in calculateSummaryStats, the first grade in grade order
+      mostCommonGrade: gradeLevelBreakdown[0]?.gradeLevel ?? null,
+    },
+    categoryBreakdown,
+    gradeLevelBreakdown,
+    timeByCategory: [...categories]
+      .sort((a, b) => b.totalDuration - a.totalDuration || b.lastStartTime - a.lastStartTime)
+      .map(category => ({
+        categoryName: category.categoryName,
+        totalMinutes: category.totalDuration,
+        percentage: percentOf(category.totalDuration, totalMinutes),
+        interactionCount: category.count,
+      })),
+    timeByGradeLevel: gradeLevels.map(grade => ({
+      gradeLevel: grade.grade_level,
+      totalMinutes: grade.total_duration,
+      percentage: percentOf(grade.total_duration, totalMinutes),
+      interactionCount: grade.count,
+    })),
+    trend: row.trend.map(bucket => ({
+      date: bucket.date,
+      count: bucket.count,
+      totalDuration: bucket.total_duration,
+    })),
+    studentFrequency: [...students]
+      .sort((a, b) => b.count - a.count || b.lastStartTime - a.lastStartTime)
+      .map(student => ({
+        studentId: student.studentId,
+        studentName: student.studentName,
+        gradeLevel: student.gradeLevel,
+        interactionCount: student.count,
+        totalDuration: student.totalDuration,
+      })),
+    topStudentsByTime: [...students]
+      .sort((a, b) => b.totalDuration - a.totalDuration || b.lastStartTime - a.lastStartTime)
+      .slice(0, TOP_STUDENTS_BY_TIME)
+      .map(student => ({
+        studentId: student.studentId,
+        studentName: student.studentName,
+        gradeLevel: student.gradeLevel,
+        totalMinutes: student.totalDuration,
+        interactionCount: student.count,
+      })),
+    studentTrend: row.student_trend.map(week => ({
+      date: new Date(`${week.date}T00:00`),
+      count: week.count,
+    })),
+  };
+}
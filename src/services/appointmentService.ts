@@ -0,0 +1,428 @@
+/**
+ * Appointment Service
+ *
+ * Handles scheduled appointments and their recurrence. Each series stores the
+ * template and recurrence rule; occurrences are stored as individual rows so
+ * they can be edited, cancelled or marked as held on their own. Notes are
+ * encrypted like interaction notes.
+ */
+
+import { supabase } from './supabase';
+import { getTenantContext, handleSupabaseError, type SupabaseResponse } from './supabaseHelpers';
+import { createInteraction, deleteInteraction } from './api';
+import { decryptInteractionRows, encryptInteractionNotes } from './noteEncryptionService';
+import { MAX_APPOINTMENT_OCCURRENCES } from '@/schemas/appointment';
+import { addDays, endOfDay } from '@/utils/dateHelpers';
+import type {
+  Appointment,
+  AppointmentDbResponse,
+  AppointmentEditScope,
+  AppointmentFormData,
+  RecurrenceRule,
+} from '@/types/appointment';
+import type { Interaction, InteractionFormData } from '@/types/interaction';
+
+const FREQUENCY_INTERVAL_DAYS: Record<RecurrenceRule['frequency'], number> = {
+  NONE: 0,
+  WEEKLY: 7,
+  BIWEEKLY: 14,
+};
+
+const APPOINTMENT_SELECT = '*, appointment_series(frequency, until_date, occurrence_count)';
+
+/**
+ * Expand a recurrence rule into occurrence start times.
+ * Occurrences keep the same local time of day across daylight saving changes.
+ * @param {Date} startTime - Start of the first occurrence
+ * @param {RecurrenceRule} rule - Frequency and end condition
+ * @returns {Date[]} Start times in order, capped at MAX_APPOINTMENT_OCCURRENCES
+ * @example
+ * expandRecurrence(new Date('2024-09-03T10:00'), { frequency: 'WEEKLY', occurrenceCount: 3 })
+ * // [Sep 3 10:00, Sep 10 10:00, Sep 17 10:00]
+ */
+export function expandRecurrence(startTime: Date, rule: RecurrenceRule): Date[] {
+  const interval = FREQUENCY_INTERVAL_DAYS[rule.frequency];
+  if (!interval) {
+    return [new Date(startTime)];
+  }
+
+  const limit = Math.min(
+    rule.occurrenceCount ?? MAX_APPOINTMENT_OCCURRENCES,
+    MAX_APPOINTMENT_OCCURRENCES
+  );
+  const until = rule.untilDate ? endOfDay(`${rule.untilDate}T00:00`) : null;
+
+  const occurrences: Date[] = [];
+  for (let index = 0; index < limit; index++) {
+    const occurrence = addDays(startTime, index * interval);
+    if (until && occurrence > until) break;
+    occurrences.push(occurrence);
+  }
+
+  return occurrences;
+}
+
+/**
+ * Fetch appointments in the current tenant (RLS limits counselors to their own)
+ */
+export async function fetchAppointments(): Promise<SupabaseResponse<Appointment[]>> {
+  try {
+    const context = await getTenantContext();
+    if (!context) {
+      return {
+        data: null,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'User not authenticated',
+        },
+      };
+    }
+
+    const { data, error } = await supabase
+      .from('appointments')
+      .select(APPOINTMENT_SELECT)
+      .eq('tenant_id', context.tenantId)
+      .order('start_time', { ascending: true });
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return { data: await convertAppointmentRows(data || []), error: null };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to fetch appointments',
+      },
+    };
+  }
+}
+
+/**
+ * Create an appointment series and all of its occurrences
+ */
+export async function createAppointmentSeries(
+  formData: AppointmentFormData
+): Promise<SupabaseResponse<Appointment[]>> {
+  try {
+    const context = await getTenantContext();
+    if (!context) {
+      return {
+        data: null,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'User not authenticated',
+        },
+      };
+    }
+
+    const startTime = new Date(formData.startTime);
+    const template = await toTemplateColumns(formData);
+
+    const { data: series, error: seriesError } = await supabase
+      .from('appointment_series')
+      .insert({
+        tenant_id: context.tenantId,
+        counselor_id: context.userId,
+        ...template,
+        start_time: startTime.toISOString(),
+        ...toRecurrenceColumns(formData),
+      })
+      .select('id')
+      .single();
+
+    if (seriesError) {
+      return {
+        data: null,
+        error: handleSupabaseError(seriesError),
+      };
+    }
+
+    const occurrences = expandRecurrence(startTime, formData).map((occurrence, index) => ({
+      tenant_id: context.tenantId,
+      series_id: series.id,
+      occurrence_index: index,
+      counselor_id: context.userId,
+      ...template,
+      start_time: occurrence.toISOString(),
+    }));
+
+    const { data, error } = await supabase
+      .from('appointments')
+      .insert(occurrences)
+      .select(APPOINTMENT_SELECT);
+
+    if (error) {
+      // Remove the empty series so it does not linger without occurrences
+      await supabase.from('appointment_series').delete().eq('id', series.id);
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return { data: await convertAppointmentRows(data || []), error: null };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to create appointment',
+      },
+    };
+  }
+}
+
+/**
+ * Update an appointment for one occurrence or for the whole series.
+ *
+ * Occurrence scope changes only this row and marks it as an exception.
+ * Series scope updates the series template and rule, shifts the series by the
+ * same amount this occurrence moved, and regenerates upcoming scheduled
+ * occurrences. Held, cancelled and individually edited occurrences are kept.
+ */
+export async function updateAppointment(
+  appointment: Appointment,
+  formData: AppointmentFormData,
+  scope: AppointmentEditScope
+): Promise<SupabaseResponse<null>> {
+  try {
+    const newStartTime = new Date(formData.startTime);
+
+    if (scope === 'occurrence') {
+      const { error } = await supabase
+        .from('appointments')
+        .update({
+          ...(await toTemplateColumns(formData)),
+          start_time: newStartTime.toISOString(),
+          is_exception: true,
+        })
+        .eq('id', appointment.id);
+
+      if (error) {
+        return {
+          data: null,
+          error: handleSupabaseError(error),
+        };
+      }
+
+      return { data: null, error: null };
+    }
+
+    const { data: series, error: seriesFetchError } = await supabase
+      .from('appointment_series')
+      .select('id, start_time')
+      .eq('id', appointment.seriesId)
+      .single();
+
+    if (seriesFetchError) {
+      return {
+        data: null,
+        error: handleSupabaseError(seriesFetchError),
+      };
+    }
+
+    const shiftMs = newStartTime.getTime() - new Date(appointment.startTime).getTime();
+    const seriesStartTime = new Date(new Date(series.start_time).getTime() + shiftMs);
+    const template = await toTemplateColumns(formData);
+    const recurrence = toRecurrenceColumns(formData);
+
+    // Regenerate from this occurrence on, even if it is already in the past
+    const cutoff = new Date(Math.min(Date.now(), new Date(appointment.startTime).getTime()));
+
+    // One transaction, so a failed insert never leaves the series without its future occurrences
+    const { error } = await supabase.rpc('update_appointment_series', {
+      p_series_id: series.id,
+      p_student_id: template.student_id,
+      p_contact_id: template.contact_id,
+      p_regarding_student_id: template.regarding_student_id,
+      p_category_id: template.category_id,
+      p_subcategory_id: template.subcategory_id,
+      p_duration_minutes: template.duration_minutes,
+      p_notes: template.notes,
+      p_start_time: seriesStartTime.toISOString(),
+      p_frequency: recurrence.frequency,
+      p_until_date: recurrence.until_date,
+      p_occurrence_count: recurrence.occurrence_count,
+      p_cutoff: cutoff.toISOString(),
+      p_occurrence_start_times: expandRecurrence(seriesStartTime, formData).map(occurrence =>
+        occurrence.toISOString()
+      ),
+    });
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return { data: null, error: null };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to update appointment',
+      },
+    };
+  }
+}
+
+/**
+ * Cancel one occurrence, or this and every later scheduled occurrence of the series
+ */
+export async function cancelAppointment(
+  appointment: Appointment,
+  scope: AppointmentEditScope
+): Promise<SupabaseResponse<null>> {
+  try {
+    const query =
+      scope === 'occurrence'
+        ? supabase.from('appointments').update({ status: 'CANCELLED' }).eq('id', appointment.id)
+        : supabase
+            .from('appointments')
+            .update({ status: 'CANCELLED' })
+            .eq('series_id', appointment.seriesId)
+            .eq('status', 'SCHEDULED')
+            .gte('start_time', new Date(appointment.startTime).toISOString());
+
+    const { error } = await query;
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return { data: null, error: null };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to cancel appointment',
+      },
+    };
+  }
+}
+
+/**
+ * Log an appointment as a held interaction and link the two records.
+ * If the appointment cannot be linked (it is gone or no longer scheduled),
+ * the new interaction is deleted again so it is not logged twice.
+ */
+export async function markAppointmentHeld(
+  appointmentId: string,
+  interactionData: InteractionFormData
+): Promise<SupabaseResponse<Interaction>> {
+  try {
+    const { data: interaction, error: interactionError } = await createInteraction(interactionData);
+
+    if (interactionError || !interaction) {
+      return {
+        data: null,
+        error: interactionError || {
+          code: 'UNKNOWN_ERROR',
+          message: 'Failed to log interaction',
+        },
+      };
+    }
+
+    const { data: appointment, error } = await supabase
+      .from('appointments')
+      .update({ status: 'HELD', interaction_id: interaction.id })
+      .eq('id', appointmentId)
+      .eq('status', 'SCHEDULED')
+      .select('id')
+      .maybeSingle();
+
+    if (error || !appointment) {
+      await deleteInteraction(interaction.id);
+      return {
+        data: null,
+        error: error
+          ? handleSupabaseError(error)
+          : {
+              code: 'NOT_FOUND',
+              message: 'This appointment is no longer scheduled',
+            },
+      };
+    }
+
+    return { data: interaction, error: null };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to mark appointment as held',
+      },
+    };
+  }
+}
+
+// ============================================================================
+// DATA CONVERSION HELPERS
+// ============================================================================
+
+// Columns shared by a series and each of its occurrences, with the notes encrypted
+function toTemplateColumns(formData: AppointmentFormData) {
+  return encryptInteractionNotes({
+    student_id: formData.type === 'student' ? formData.studentId || null : null,
+    contact_id: formData.type === 'contact' ? formData.contactId || null : null,
+    regarding_student_id: formData.type === 'contact' ? formData.regardingStudentId || null : null,
+    category_id: formData.categoryId,
+    subcategory_id: formData.subcategoryId || null,
+    duration_minutes: formData.durationMinutes,
+    notes: formData.notes || null,
+  });
+}
+
+function toRecurrenceColumns(formData: AppointmentFormData) {
+  const isRecurring = formData.frequency !== 'NONE';
+  return {
+    frequency: formData.frequency,
+    until_date: isRecurring ? formData.untilDate || null : null,
+    occurrence_count: isRecurring ? formData.occurrenceCount || null : null,
+  };
+}
+
+async function convertAppointmentRows(rows: AppointmentDbResponse[]): Promise<Appointment[]> {
+  return (await decryptInteractionRows(rows)).map(convertAppointmentFromDb);
+}
+
+function convertAppointmentFromDb(dbAppointment: AppointmentDbResponse): Appointment {
+  return {
+    id: dbAppointment.id,
+    seriesId: dbAppointment.series_id,
+    occurrenceIndex: dbAppointment.occurrence_index,
+    counselorId: dbAppointment.counselor_id,
+    studentId: dbAppointment.student_id,
+    contactId: dbAppointment.contact_id,
+    regardingStudentId: dbAppointment.regarding_student_id,
+    categoryId: dbAppointment.category_id,
+    subcategoryId: dbAppointment.subcategory_id,
+    startTime: new Date(dbAppointment.start_time),
+    durationMinutes: dbAppointment.duration_minutes,
+    endTime: new Date(dbAppointment.end_time),
+    notes: dbAppointment.notes,
+    notesDecryptionFailed: dbAppointment.notes_decryption_failed,
+    status: dbAppointment.status,
+    isException: dbAppointment.is_exception,
+    interactionId: dbAppointment.interaction_id,
+    recurrence: {
+      frequency: dbAppointment.appointment_series?.frequency ?? 'NONE',
+      untilDate: dbAppointment.appointment_series?.until_date,
+      occurrenceCount: dbAppointment.appointment_series?.occurrence_count,
+    },
+    createdAt: new Date(dbAppointment.created_at),
+    updatedAt: new Date(dbAppointment.updated_at),
+  };
+}
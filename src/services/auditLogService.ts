@@ -0,0 +1,166 @@
+/**
+ * Audit Log Service
+ *
+ * Reads the append-only audit trail of changes to students, contacts and
+ * interactions. Changes are recorded by database triggers; views of student
+ * records are recorded through logStudentView.
+ */
+
+import { supabase } from './supabase';
+import { getTenantContext, handleSupabaseError, type SupabaseResponse } from './supabaseHelpers';
+import { isEncryptedNote } from './noteEncryptionService';
+import type {
+  AuditFieldChange,
+  AuditLogDbResponse,
+  AuditLogEntry,
+  AuditLogFilters,
+} from '@/types/audit';
+
+export const AUDIT_LOG_PAGE_SIZE = 200;
+export const AUDIT_LOG_EXPORT_LIMIT = 10000;
+
+// Bookkeeping columns that never need reviewing
+const IGNORED_FIELDS = new Set(['id', 'tenant_id', 'created_at', 'updated_at']);
+// Written by audit_redact_notes in place of note values
+const REDACTED_VALUE = '[redacted]';
+
+/**
+ * Fetch audit log entries for the current tenant, newest first (admins only)
+ */
+export async function fetchAuditLog(
+  filters: AuditLogFilters = {},
+  limit: number = AUDIT_LOG_PAGE_SIZE
+): Promise<SupabaseResponse<AuditLogEntry[]>> {
+  try {
+    const context = await getTenantContext();
+    if (!context) {
+      return {
+        data: null,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'User not authenticated',
+        },
+      };
+    }
+
+    let query = supabase
+      .from('audit_log')
+      .select('*')
+      .eq('tenant_id', context.tenantId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (filters.userId) {
+      query = query.eq('user_id', filters.userId);
+    }
+    if (filters.studentId) {
+      query = query.eq('student_id', filters.studentId);
+    }
+    if (filters.startDate) {
+      query = query.gte('created_at', new Date(`${filters.startDate}T00:00`).toISOString());
+    }
+    if (filters.endDate) {
+      const dayAfter = new Date(`${filters.endDate}T00:00`);
+      dayAfter.setDate(dayAfter.getDate() + 1);
+      query = query.lt('created_at', dayAfter.toISOString());
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return { data: (data || []).map(convertAuditLogFromDb), error: null };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to fetch audit log',
+      },
+    };
+  }
+}
+
+/**
+ * Record that the current user viewed a student's record. Failures are
+ * logged but never block the page.
+ */
+export async function logStudentView(studentId: string): Promise<void> {
+  try {
+    const { error } = await supabase.rpc('log_student_view', { p_student_id: studentId });
+
+    if (error) {
+      console.error('Failed to log student view:', error);
+    }
+  } catch (error) {
+    console.error('Error logging student view:', error);
+  }
+}
+
+/**
+ * List the fields an audit entry changed. Creates list every value set,
+ * deletes every value removed.
+ */
+export function getAuditFieldChanges(entry: AuditLogEntry): AuditFieldChange[] {
+  const fields = new Set([...Object.keys(entry.before || {}), ...Object.keys(entry.after || {})]);
+
+  return [...fields]
+    .filter(field => !IGNORED_FIELDS.has(field))
+    .map(field => ({
+      field,
+      before: entry.before?.[field] ?? null,
+      after: entry.after?.[field] ?? null,
+    }))
+    .filter(change => change.before !== null || change.after !== null);
+}
+
+/**
+ * Format an audited value for display and export. Notes are never shown, only
+ * flagged: the log stores them redacted, and older entries may hold them
+ * encrypted.
+ */
+export function formatAuditValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '(empty)';
+  if (value === REDACTED_VALUE) return '(not logged)';
+  if (isEncryptedNote(value as string)) return '(encrypted)';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Summarize an entry's changes on a single line, e.g. "grade_level: 9th Grade → 10th Grade"
+ */
+export function formatAuditChanges(entry: AuditLogEntry): string {
+  return getAuditFieldChanges(entry)
+    .map(change =>
+      entry.action === 'UPDATE'
+        ? `${change.field}: ${formatAuditValue(change.before)} → ${formatAuditValue(change.after)}`
+        : `${change.field}: ${formatAuditValue(entry.action === 'DELETE' ? change.before : change.after)}`
+    )
+    .join('; ');
+}
+
+// ============================================================================
+// DATA CONVERSION HELPERS
+// ============================================================================
+
+function convertAuditLogFromDb(dbEntry: AuditLogDbResponse): AuditLogEntry {
+  return {
+    id: dbEntry.id,
+    userId: dbEntry.user_id,
+    action: dbEntry.action,
+    entityType: dbEntry.entity_type,
+    entityId: dbEntry.entity_id,
+    recordLabel: dbEntry.record_label,
+    studentId: dbEntry.student_id,
+    studentName: dbEntry.student_name,
+    before: dbEntry.before,
+    after: dbEntry.after,
+    createdAt: new Date(dbEntry.created_at),
+  };
+}
@@ -1,5 +1,5 @@
 import { supabase, type AuthError } from './supabase';
-import type { User } from '../types/user';
+import type { User, UserRole } from '../types/user';
 
 export interface LoginCredentials {
   email: string;
@@ -49,7 +49,7 @@ async function getApplicationUser(authUserId: string): Promise<User | null> {
       email: data.email,
       firstName: data.first_name,
       lastName: data.last_name,
-      role: data.role as 'ADMIN' | 'COUNSELOR',
+      role: data.role as UserRole,
       tenantId: data.tenant_id,
       isActive: data.is_active,
       createdAt: new Date(data.created_at),
@@ -0,0 +1,191 @@
+/**
+ * Calendar Feed Service
+ *
+ * Manages the current user's iCalendar subscription feed. The feed itself is
+ * served by the calendar_feed database function so external calendar clients
+ * can fetch it without signing in.
+ */
+
+import { supabase, supabaseUrl, supabaseAnonKey } from './supabase';
+import { getTenantContext, handleSupabaseError, type SupabaseResponse } from './supabaseHelpers';
+import { generateSecureTokenWithMetadata } from '@/utils/tokenSecurity';
+import type { CalendarFeed, CalendarFeedDbResponse } from '@/types/calendarFeed';
+
+/**
+ * Build the subscription URL for a feed token
+ */
+export function getCalendarFeedUrl(token: string): string {
+  const params = new URLSearchParams({ token, apikey: supabaseAnonKey });
+  return `${supabaseUrl}/rest/v1/rpc/calendar_feed?${params.toString()}`;
+}
+
+/**
+ * Fetch the current user's calendar feed, or null if none has been created
+ */
+export async function fetchCalendarFeed(): Promise<SupabaseResponse<CalendarFeed | null>> {
+  try {
+    const context = await getTenantContext();
+    if (!context) {
+      return {
+        data: null,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'User not authenticated',
+        },
+      };
+    }
+
+    const { data, error } = await supabase
+      .from('calendar_feeds')
+      .select('*')
+      .eq('tenant_id', context.tenantId)
+      .eq('user_id', context.userId)
+      .maybeSingle();
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return { data: data ? convertCalendarFeedFromDb(data) : null, error: null };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to fetch calendar feed',
+      },
+    };
+  }
+}
+
+/**
+ * Create the current user's calendar feed, or issue a new token for an existing
+ * feed. A new token immediately revokes the previous subscription URL.
+ */
+export async function regenerateCalendarFeed(
+  redactStudentNames: boolean
+): Promise<SupabaseResponse<CalendarFeed>> {
+  try {
+    const context = await getTenantContext();
+    if (!context) {
+      return {
+        data: null,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'User not authenticated',
+        },
+      };
+    }
+
+    const { token } = generateSecureTokenWithMetadata();
+
+    const { data, error } = await supabase
+      .from('calendar_feeds')
+      .upsert(
+        {
+          tenant_id: context.tenantId,
+          user_id: context.userId,
+          token,
+          redact_student_names: redactStudentNames,
+        },
+        { onConflict: 'user_id' }
+      )
+      .select()
+      .single();
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return { data: convertCalendarFeedFromDb(data), error: null };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to create calendar feed',
+      },
+    };
+  }
+}
+
+/**
+ * Change whether the feed shows student names or initials
+ */
+export async function updateCalendarFeedRedaction(
+  id: string,
+  redactStudentNames: boolean
+): Promise<SupabaseResponse<CalendarFeed>> {
+  try {
+    const { data, error } = await supabase
+      .from('calendar_feeds')
+      .update({ redact_student_names: redactStudentNames })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return { data: convertCalendarFeedFromDb(data), error: null };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to update calendar feed',
+      },
+    };
+  }
+}
+
+/**
+ * Delete the calendar feed, disabling its subscription URL
+ */
+export async function deleteCalendarFeed(id: string): Promise<SupabaseResponse<null>> {
+  try {
+    const { error } = await supabase.from('calendar_feeds').delete().eq('id', id);
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return { data: null, error: null };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to disable calendar feed',
+      },
+    };
+  }
+}
+
+// ============================================================================
+// DATA CONVERSION HELPERS
+// ============================================================================
+
+function convertCalendarFeedFromDb(dbFeed: CalendarFeedDbResponse): CalendarFeed {
+  return {
+    id: dbFeed.id,
+    token: dbFeed.token,
+    url: getCalendarFeedUrl(dbFeed.token),
+    redactStudentNames: dbFeed.redact_student_names,
+    createdAt: new Date(dbFeed.created_at),
+    updatedAt: new Date(dbFeed.updated_at),
+  };
+}
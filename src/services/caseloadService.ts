@@ -0,0 +1,186 @@
+/**
+ * Caseload Service
+ *
+ * Each student has a primary counselor and optionally a secondary one. Admins
+ * assign caseloads one student at a time from the student form, or in bulk by
+ * last-name range or grade level with the assign_caseload function.
+ */
+
+import { supabase } from './supabase';
+import { getTenantContext, handleSupabaseError, type SupabaseResponse } from './supabaseHelpers';
+import type {
+  CaseloadAssignment,
+  CaseloadRule,
+  CaseloadSize,
+  CaseloadSizeDbResponse,
+} from '@/types/caseload';
+import type { Student } from '@/types/student';
+
+/**
+ * Check whether a student's last name and grade match a caseload rule. Last
+ * names match when their prefix, up to the length of each bound, falls within
+ * the range, so 'A' to 'F' includes "Fuller". Mirrors assign_caseload.
+ */
+export function matchesCaseloadRule(student: Student, rule: CaseloadRule): boolean {
+  const from = rule.lastNameFrom?.trim().toUpperCase();
+  const to = rule.lastNameTo?.trim().toUpperCase();
+  const lastName = student.lastName.toUpperCase();
+
+  if (from && lastName.slice(0, from.length) < from) {
+    return false;
+  }
+  if (to && lastName.slice(0, to.length) > to) {
+    return false;
+  }
+  if (rule.gradeLevels?.length && !rule.gradeLevels.includes(student.gradeLevel)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Check a bulk assignment before applying it; returns a list of problems
+ */
+export function validateCaseloadAssignment(assignment: CaseloadAssignment): string[] {
+  const errors: string[] = [];
+  const from = assignment.rule.lastNameFrom?.trim().toUpperCase();
+  const to = assignment.rule.lastNameTo?.trim().toUpperCase();
+
+  if (!assignment.counselorId) {
+    errors.push('Choose a counselor');
+  }
+
+  if (!from && !to && !assignment.rule.gradeLevels?.length) {
+    errors.push('Enter a last-name range or choose at least one grade');
+  }
+
+  if (from && to && from.slice(0, to.length) > to) {
+    errors.push('The last-name range must start before it ends');
+  }
+
+  return errors;
+}
+
+/**
+ * Find the active students a bulk assignment would change
+ */
+export function previewCaseloadAssignment(
+  students: Student[],
+  assignment: CaseloadAssignment
+): Student[] {
+  const { counselorId, role, rule, onlyUnassigned } = assignment;
+
+  return students.filter(student => {
+    if (student.archivedAt || !matchesCaseloadRule(student, rule)) {
+      return false;
+    }
+
+    if (role === 'primary') {
+      return (
+        student.primaryCounselorId !== counselorId &&
+        (!onlyUnassigned || !student.primaryCounselorId)
+      );
+    }
+
+    return (
+      student.secondaryCounselorId !== counselorId &&
+      student.primaryCounselorId !== counselorId &&
+      (!onlyUnassigned || !student.secondaryCounselorId)
+    );
+  });
+}
+
+/**
+ * Check whether a student is on a counselor's caseload
+ */
+export function isOnCaseload(student: Student, counselorId: string): boolean {
+  return student.primaryCounselorId === counselorId || student.secondaryCounselorId === counselorId;
+}
+
+/**
+ * Count active students per counselor, in the database
+ */
+export async function fetchCaseloadSizes(): Promise<SupabaseResponse<CaseloadSize[]>> {
+  try {
+    const context = await getTenantContext();
+    if (!context) {
+      return {
+        data: null,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'User not authenticated',
+        },
+      };
+    }
+
+    const { data, error } = await supabase.rpc('get_caseload_sizes');
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return {
+      data: ((data || []) as CaseloadSizeDbResponse[]).map(convertCaseloadSizeFromDb),
+      error: null,
+    };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to fetch caseloads',
+      },
+    };
+  }
+}
+
+/**
+ * Assign every active student matching a rule to a counselor (admin only).
+ * Returns the number of students assigned.
+ */
+export async function assignCaseload(
+  assignment: CaseloadAssignment
+): Promise<SupabaseResponse<number>> {
+  try {
+    const { data, error } = await supabase.rpc('assign_caseload', {
+      p_counselor_id: assignment.counselorId,
+      p_role: assignment.role,
+      p_last_name_from: assignment.rule.lastNameFrom?.trim() || null,
+      p_last_name_to: assignment.rule.lastNameTo?.trim() || null,
+      p_grade_levels: assignment.rule.gradeLevels?.length ? assignment.rule.gradeLevels : null,
+      p_only_unassigned: assignment.onlyUnassigned,
+    });
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return { data: (data as number) ?? 0, error: null };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to assign caseload',
+      },
+    };
+  }
+}
+
+// ============================================================================
+// DATA CONVERSION HELPERS
+// ============================================================================
+
+function convertCaseloadSizeFromDb(row: CaseloadSizeDbResponse): CaseloadSize {
+  return {
+    counselorId: row.counselor_id,
+    primary: Number(row.primary_count),
+    secondary: Number(row.secondary_count),
+  };
+}
@@ -0,0 +1,487 @@
+/**
+ * District Service
+ *
+ * A district owns several school tenants. District admins sign in through one
+ * of the schools and see de-identified totals across the district from
+ * get_district_report_aggregates: counts only, over whole months that have
+ * ended, with counts from 1 to 4 withheld along with any count that would
+ * reveal them by subtraction. They also maintain reason-category templates, which
+ * push_district_reason_templates copies into every school; the copies are
+ * read-only for the schools.
+ */
+
+import { supabase } from './supabase';
+import { getTenantContext, handleSupabaseError, type SupabaseResponse } from './supabaseHelpers';
+import { formatDateForInput } from '@/utils/dateHelpers';
+import type {
+  District,
+  DistrictDbResponse,
+  DistrictReasonCategory,
+  DistrictReasonCategoryDbResponse,
+  DistrictReasonCategoryFormData,
+  DistrictReasonSubcategory,
+  DistrictReasonSubcategoryDbResponse,
+  DistrictReportAggregates,
+  DistrictReportAggregatesDbResponse,
+} from '@/types/district';
+
+// Smallest count district reports show; matches district_cell_count
+export const DISTRICT_MIN_CELL_SIZE = 5;
+
+/**
+ * Display a district report count, marking withheld counts
+ */
+export function formatDistrictCount(count: number | null): string {
+  return count === null ? `<${DISTRICT_MIN_CELL_SIZE}` : count.toLocaleString();
+}
+
+/**
+ * Fetch the district of the current user's school; null when the school is
+ * not part of one. District admins see all of its schools.
+ */
+export async function fetchDistrict(): Promise<SupabaseResponse<District | null>> {
+  try {
+    const context = await getTenantContext();
+    if (!context) {
+      return {
+        data: null,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'User not authenticated',
+        },
+      };
+    }
+
+    const { data, error } = await supabase
+      .from('districts')
+      .select('id, name, templates_pushed_at, tenants(id, name, subdomain)')
+      .maybeSingle();
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return {
+      data: data ? convertDistrictFromDb(data as DistrictDbResponse) : null,
+      error: null,
+    };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to fetch district',
+      },
+    };
+  }
+}
+
+/**
+ * De-identified totals per school and reason category across the district,
+ * for `months` calendar months from the month of `startMonth`. The months
+ * must have ended (district admins only).
+ */
+export async function fetchDistrictReportAggregates(
+  startMonth: Date,
+  months: number
+): Promise<SupabaseResponse<DistrictReportAggregates>> {
+  try {
+    const { data, error } = await supabase.rpc('get_district_report_aggregates', {
+      p_start_month: formatDateForInput(
+        new Date(startMonth.getFullYear(), startMonth.getMonth(), 1)
+      ),
+      p_months: months,
+    });
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return {
+      data: convertDistrictAggregatesFromDb(data as DistrictReportAggregatesDbResponse),
+      error: null,
+    };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to fetch district totals',
+      },
+    };
+  }
+}
+
+/**
+ * Fetch the district's reason templates with their subcategories (district
+ * admins only)
+ */
+export async function fetchDistrictReasonTemplates(): Promise<
+  SupabaseResponse<DistrictReasonCategory[]>
+> {
+  try {
+    const context = await getTenantContext();
+    if (!context) {
+      return {
+        data: null,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'User not authenticated',
+        },
+      };
+    }
+
+    const { data, error } = await supabase
+      .from('district_reason_categories')
+      .select('*, district_reason_subcategories(*)')
+      .order('sort_order', { ascending: true })
+      .order('name', { ascending: true });
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return {
+      data: ((data || []) as DistrictReasonCategoryDbResponse[]).map(convertReasonTemplateFromDb),
+      error: null,
+    };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to fetch reason templates',
+      },
+    };
+  }
+}
+
+/**
+ * Add a reason template to a district. Schools get it on the next push.
+ */
+export async function createDistrictReasonCategory(
+  districtId: string,
+  data: DistrictReasonCategoryFormData
+): Promise<SupabaseResponse<DistrictReasonCategory>> {
+  try {
+    const context = await getTenantContext();
+    if (!context) {
+      return {
+        data: null,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'User not authenticated',
+        },
+      };
+    }
+
+    const { data: row, error } = await supabase
+      .from('district_reason_categories')
+      .insert({
+        district_id: districtId,
+        name: data.name.trim(),
+        color: data.color || null,
+        sort_order: data.sortOrder,
+      })
+      .select('*, district_reason_subcategories(*)')
+      .single();
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return {
+      data: convertReasonTemplateFromDb(row as DistrictReasonCategoryDbResponse),
+      error: null,
+    };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to create reason template',
+      },
+    };
+  }
+}
+
+/**
+ * Update a reason template. Schools' copies change on the next push.
+ */
+export async function updateDistrictReasonCategory(
+  id: string,
+  data: DistrictReasonCategoryFormData
+): Promise<SupabaseResponse<DistrictReasonCategory>> {
+  try {
+    const context = await getTenantContext();
+    if (!context) {
+      return {
+        data: null,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'User not authenticated',
+        },
+      };
+    }
+
+    const { data: row, error } = await supabase
+      .from('district_reason_categories')
+      .update({
+        name: data.name.trim(),
+        color: data.color || null,
+        sort_order: data.sortOrder,
+      })
+      .eq('id', id)
+      .select('*, district_reason_subcategories(*)')
+      .single();
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return {
+      data: convertReasonTemplateFromDb(row as DistrictReasonCategoryDbResponse),
+      error: null,
+    };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to update reason template',
+      },
+    };
+  }
+}
+
+/**
+ * Delete a reason template. Schools keep their copies, which become their own.
+ */
+export async function deleteDistrictReasonCategory(id: string): Promise<SupabaseResponse<void>> {
+  try {
+    const context = await getTenantContext();
+    if (!context) {
+      return {
+        data: null,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'User not authenticated',
+        },
+      };
+    }
+
+    const { error } = await supabase.from('district_reason_categories').delete().eq('id', id);
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return { data: null, error: null };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to delete reason template',
+      },
+    };
+  }
+}
+
+/**
+ * Add a subcategory to a reason template
+ */
+export async function createDistrictReasonSubcategory(
+  categoryId: string,
+  name: string,
+  sortOrder: number
+): Promise<SupabaseResponse<DistrictReasonSubcategory>> {
+  try {
+    const context = await getTenantContext();
+    if (!context) {
+      return {
+        data: null,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'User not authenticated',
+        },
+      };
+    }
+
+    const { data, error } = await supabase
+      .from('district_reason_subcategories')
+      .insert({
+        category_id: categoryId,
+        name: name.trim(),
+        sort_order: sortOrder,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return {
+      data: convertReasonSubtemplateFromDb(data as DistrictReasonSubcategoryDbResponse),
+      error: null,
+    };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to create subcategory',
+      },
+    };
+  }
+}
+
+/**
+ * Delete a subcategory from a reason template
+ */
+export async function deleteDistrictReasonSubcategory(id: string): Promise<SupabaseResponse<void>> {
+  try {
+    const context = await getTenantContext();
+    if (!context) {
+      return {
+        data: null,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'User not authenticated',
+        },
+      };
+    }
+
+    const { error } = await supabase.from('district_reason_subcategories').delete().eq('id', id);
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return { data: null, error: null };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to delete subcategory',
+      },
+    };
+  }
+}
+
+/**
+ * Copy the district's reason templates into every school in the district,
+ * returning the number of schools
+ */
+export async function pushDistrictReasonTemplates(): Promise<SupabaseResponse<number>> {
+  try {
+    const { data, error } = await supabase.rpc('push_district_reason_templates');
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return { data: data as number, error: null };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to push reason templates',
+      },
+    };
+  }
+}
+
+// ============================================================================
+// DATA CONVERSION HELPERS
+// ============================================================================
+
+function convertDistrictFromDb(row: DistrictDbResponse): District {
+  return {
+    id: row.id,
+    name: row.name,
+    schools: [...(row.tenants || [])].sort((a, b) => a.name.localeCompare(b.name)),
+    templatesPushedAt: row.templates_pushed_at ? new Date(row.templates_pushed_at) : undefined,
+  };
+}
+
+function convertDistrictAggregatesFromDb(
+  row: DistrictReportAggregatesDbResponse
+): DistrictReportAggregates {
+  return {
+    totalInteractions: row.total_interactions,
+    totalDuration: row.total_duration,
+    totalStudents: row.total_students,
+    schools: row.schools.map(school => ({
+      tenantId: school.tenant_id,
+      tenantName: school.tenant_name,
+      totalInteractions: school.total_interactions,
+      totalDuration: school.total_duration,
+      totalStudents: school.total_students,
+    })),
+    categories: row.categories.map(category => ({
+      districtCategoryId: category.district_category_id || undefined,
+      categoryName: category.category_name,
+      color: category.color || undefined,
+      schoolCount: category.school_count,
+      count: category.count,
+      totalDuration: category.total_duration,
+      totalStudents: category.total_students,
+    })),
+  };
+}
+
+function convertReasonTemplateFromDb(
+  row: DistrictReasonCategoryDbResponse
+): DistrictReasonCategory {
+  return {
+    id: row.id,
+    name: row.name,
+    color: row.color || undefined,
+    sortOrder: row.sort_order,
+    subcategories: (row.district_reason_subcategories || [])
+      .map(convertReasonSubtemplateFromDb)
+      .sort((a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name)),
+  };
+}
+
+function convertReasonSubtemplateFromDb(
+  row: DistrictReasonSubcategoryDbResponse
+): DistrictReasonSubcategory {
+  return {
+    id: row.id,
+    categoryId: row.category_id,
+    name: row.name,
+    sortOrder: row.sort_order,
+  };
+}
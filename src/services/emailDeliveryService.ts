@@ -0,0 +1,211 @@
+/**
+ * Email Delivery Service
+ *
+ * Persists outgoing email in the email_deliveries table, which is both the
+ * queue drained by the email-worker edge function and the delivery history
+ * admins see for each invitation.
+ */
+
+import { supabase } from './supabase';
+import { getTenantContext, handleSupabaseError, type SupabaseResponse } from './supabaseHelpers';
+import type {
+  EmailDelivery,
+  EmailDeliveryDbResponse,
+  EmailQueueStatus,
+  EmailTemplateName,
+} from '@/types/email';
+
+export interface EmailQueueEntry {
+  template: EmailTemplateName;
+  recipient: string;
+  subject: string;
+  htmlBody: string;
+  textBody: string;
+  maxAttempts: number;
+  retryDelayMs: number;
+  maxRetryDelayMs: number;
+  invitationId?: string;
+  /** Enqueueing the same key again returns the existing delivery */
+  idempotencyKey?: string;
+}
+
+// Email bodies are only readable by the worker
+const EMAIL_DELIVERY_COLUMNS =
+  'id, tenant_id, invitation_id, template, recipient, subject, transport, status, attempts, ' +
+  'last_error, provider_message_id, last_attempt_at, sent_at, created_by, created_at, ' +
+  'updated_at, max_attempts, next_attempt_at, dead_lettered_at';
+
+/**
+ * Persistent store the email service queues into. Sending, retries and
+ * dead-lettering happen in the worker that drains it.
+ */
+export interface EmailQueueStore {
+  enqueue(entry: EmailQueueEntry): Promise<SupabaseResponse<{ id: string }>>;
+  getStatus(): Promise<SupabaseResponse<EmailQueueStatus>>;
+  /** Ask the worker to process the queue now instead of on its next run */
+  wake(): Promise<void>;
+}
+
+/**
+ * Queue backed by the email_deliveries table and the email-worker function
+ */
+export const supabaseEmailQueue: EmailQueueStore = {
+  async enqueue(entry) {
+    try {
+      // The function checks the recipient against the invitation or tenant admins
+      const { data, error } = await supabase.rpc('enqueue_email_delivery', {
+        p_template: entry.template,
+        p_recipient: entry.recipient,
+        p_subject: entry.subject,
+        p_html_body: entry.htmlBody,
+        p_text_body: entry.textBody,
+        p_max_attempts: entry.maxAttempts,
+        p_retry_delay_ms: entry.retryDelayMs,
+        p_max_retry_delay_ms: entry.maxRetryDelayMs,
+        p_invitation_id: entry.invitationId || null,
+        p_idempotency_key: entry.idempotencyKey || null,
+      });
+
+      if (error) {
+        return {
+          data: null,
+          error: handleSupabaseError(error),
+        };
+      }
+
+      return { data: { id: data as string }, error: null };
+    } catch (error) {
+      return {
+        data: null,
+        error: {
+          code: 'UNKNOWN_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to queue email',
+        },
+      };
+    }
+  },
+
+  async getStatus() {
+    try {
+      const { data, error } = await supabase.rpc('email_queue_status').single<{
+        pending: number;
+        sending: number;
+        dead_lettered: number;
+      }>();
+
+      if (error) {
+        return {
+          data: null,
+          error: handleSupabaseError(error),
+        };
+      }
+
+      const pending = Number(data.pending);
+      const sending = Number(data.sending);
+
+      return {
+        data: {
+          pending,
+          sending,
+          deadLettered: Number(data.dead_lettered),
+          total: pending + sending,
+        },
+        error: null,
+      };
+    } catch (error) {
+      return {
+        data: null,
+        error: {
+          code: 'UNKNOWN_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to fetch email queue status',
+        },
+      };
+    }
+  },
+
+  async wake() {
+    try {
+      const { error } = await supabase.functions.invoke('email-worker', { body: {} });
+
+      // The scheduled run picks the email up instead
+      if (error) {
+        console.warn('Failed to wake email worker:', error.message);
+      }
+    } catch (error) {
+      console.warn('Error waking email worker:', error);
+    }
+  },
+};
+
+/**
+ * Fetch the delivery history of an invitation, newest first (admins only)
+ */
+export async function fetchEmailDeliveries(
+  invitationId: string
+): Promise<SupabaseResponse<EmailDelivery[]>> {
+  try {
+    const context = await getTenantContext();
+    if (!context) {
+      return {
+        data: null,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'User not authenticated',
+        },
+      };
+    }
+
+    const { data, error } = await supabase
+      .from('email_deliveries')
+      .select(EMAIL_DELIVERY_COLUMNS)
+      .eq('tenant_id', context.tenantId)
+      .eq('invitation_id', invitationId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return {
+      data: ((data || []) as unknown as EmailDeliveryDbResponse[]).map(convertEmailDeliveryFromDb),
+      error: null,
+    };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to fetch email deliveries',
+      },
+    };
+  }
+}
+
+// ============================================================================
+// DATA CONVERSION HELPERS
+// ============================================================================
+
+function convertEmailDeliveryFromDb(dbDelivery: EmailDeliveryDbResponse): EmailDelivery {
+  return {
+    id: dbDelivery.id,
+    invitationId: dbDelivery.invitation_id,
+    template: dbDelivery.template,
+    recipient: dbDelivery.recipient,
+    subject: dbDelivery.subject,
+    transport: dbDelivery.transport,
+    status: dbDelivery.status,
+    attempts: dbDelivery.attempts,
+    lastError: dbDelivery.last_error,
+    providerMessageId: dbDelivery.provider_message_id,
+    maxAttempts: dbDelivery.max_attempts,
+    lastAttemptAt: dbDelivery.last_attempt_at ? new Date(dbDelivery.last_attempt_at) : undefined,
+    nextAttemptAt: new Date(dbDelivery.next_attempt_at),
+    sentAt: dbDelivery.sent_at ? new Date(dbDelivery.sent_at) : undefined,
+    deadLetteredAt: dbDelivery.dead_lettered_at ? new Date(dbDelivery.dead_lettered_at) : undefined,
+    createdBy: dbDelivery.created_by,
+    createdAt: new Date(dbDelivery.created_at),
+  };
+}
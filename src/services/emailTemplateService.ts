@@ -0,0 +1,869 @@
+/**
+ * Email Template Service
+ *
+ * Built-in email templates, tenant overrides of them, and rendering.
+ *
+ * Templates support `{{variable}}` placeholders from a fixed list per template
+ * and `{{#if variable}}...{{else}}...{{/if}}` blocks. HTML bodies are body
+ * fragments: they are sanitized against an allowlist, variables are escaped,
+ * and the result is wrapped in the shared email layout.
+ */
+
+import { supabase } from './supabase';
+import { getTenantContext, handleSupabaseError, type SupabaseResponse } from './supabaseHelpers';
+import { fetchTenantBranding } from './tenantService';
+import type {
+  EmailBranding,
+  EmailTemplate,
+  EmailTemplateName,
+  EmailTemplateVariable,
+  TenantEmailTemplate,
+  TenantEmailTemplateDbResponse,
+} from '@/types/email';
+
+// ============================================================================
+// BUILT-IN TEMPLATES
+// ============================================================================
+
+export const DEFAULT_EMAIL_TEMPLATES: Record<EmailTemplateName, EmailTemplate> = {
+  invitation: {
+    subject: "You're invited to join {{tenantName}} on {{appName}}",
+    htmlBody: `<div class="header">
+  <h1>Welcome to {{appName}}</h1>
+  <p>You've been invited to join <strong>{{tenantName}}</strong></p>
+</div>
+
+<div class="content">
+  <p>Hello,</p>
+
+  <p>{{inviterName}} has invited you to join <strong>{{tenantName}}</strong> on {{appName}} as a <strong>{{role}}</strong>.</p>
+
+  <p>{{appName}} is a comprehensive platform for school counselors to track student interactions, manage contacts, and generate reports.</p>
+
+  <p>To accept this invitation and set up your account, click the button below:</p>
+
+  <a href="{{invitationUrl}}" class="button">Accept Invitation</a>
+
+  <p>Or copy and paste this link into your browser:</p>
+  <p><a href="{{invitationUrl}}">{{invitationUrl}}</a></p>
+
+  <div class="warning">
+    <strong>Important:</strong> This invitation will expire on {{expirationDate}}. Please accept it before then to gain access to your account.
+  </div>
+{{#if adminEmail}}
+  <p>If you have any questions or need assistance, please contact your administrator at {{adminEmail}}.</p>
+{{/if}}
+</div>
+
+<div class="footer">
+  <p>This invitation was sent to {{recipientEmail}}. If you received this email in error, please ignore it.</p>
+  <p>&copy; {{currentYear}} {{appName}}. All rights reserved.</p>
+</div>`,
+    textBody: `Welcome to {{appName}}
+
+You've been invited to join {{tenantName}}
+
+Hello,
+
+{{inviterName}} has invited you to join {{tenantName}} on {{appName}} as a {{role}}.
+
+{{appName}} is a comprehensive platform for school counselors to track student interactions, manage contacts, and generate reports.
+
+To accept this invitation and set up your account, visit:
+{{invitationUrl}}
+
+IMPORTANT: This invitation will expire on {{expirationDate}}. Please accept it before then to gain access to your account.
+{{#if adminEmail}}
+If you have any questions or need assistance, please contact your administrator at {{adminEmail}}.
+{{/if}}
+This invitation was sent to {{recipientEmail}}. If you received this email in error, please ignore it.
+
+© {{currentYear}} {{appName}}. All rights reserved.`,
+  },
+  setup_confirmation: {
+    subject: 'Welcome to {{appName}} - Your {{tenantName}} account is ready!',
+    htmlBody: `<div class="header header-success">
+  <h1>🎉 Welcome to {{appName}}!</h1>
+  <p>Your {{tenantName}} account has been successfully set up</p>
+</div>
+
+<div class="content">
+  <p>Hello {{adminName}},</p>
+
+  <div class="success">
+    <strong>Congratulations!</strong> Your {{tenantName}} organization has been successfully set up on {{appName}}.
+  </div>
+
+  <p>You can now:</p>
+  <ul>
+    <li>Invite counselors and other administrators to join your organization</li>
+    <li>Start tracking student interactions and managing contacts</li>
+    <li>Generate comprehensive reports on counseling activities</li>
+    <li>Customize your organization's settings and preferences</li>
+  </ul>
+
+  <p>Ready to get started? Access your dashboard:</p>
+
+  <a href="{{dashboardUrl}}" class="button">Go to Dashboard</a>
+
+  <p>Or visit: <a href="{{dashboardUrl}}">{{dashboardUrl}}</a></p>
+
+  <h3>Next Steps:</h3>
+  <ol>
+    <li>Complete your profile information</li>
+    <li>Invite your team members</li>
+    <li>Import or add student and contact information</li>
+    <li>Explore the reporting features</li>
+  </ol>
+
+  <p>If you need help getting started, our documentation and support resources are available in your dashboard.</p>
+</div>
+
+<div class="footer">
+  <p>This email was sent to {{adminEmail}} as the administrator of {{tenantName}}.</p>
+  <p>&copy; {{currentYear}} {{appName}}. All rights reserved.</p>
+</div>`,
+    textBody: `Welcome to {{appName}}!
+
+Your {{tenantName}} account has been successfully set up
+
+Hello {{adminName}},
+
+Congratulations! Your {{tenantName}} organization has been successfully set up on {{appName}}.
+
+You can now:
+- Invite counselors and other administrators to join your organization
+- Start tracking student interactions and managing contacts
+- Generate comprehensive reports on counseling activities
+- Customize your organization's settings and preferences
+
+Ready to get started? Access your dashboard:
+{{dashboardUrl}}
+
+Next Steps:
+1. Complete your profile information
+2. Invite your team members
+3. Import or add student and contact information
+4. Explore the reporting features
+
+If you need help getting started, our documentation and support resources are available in your dashboard.
+
+This email was sent to {{adminEmail}} as the administrator of {{tenantName}}.
+
+© {{currentYear}} {{appName}}. All rights reserved.`,
+  },
+};
+
+const COMMON_VARIABLES: EmailTemplateVariable[] = [
+  { name: 'appName', description: 'Application name', sample: 'School Counselor Ledger' },
+  { name: 'tenantName', description: 'Your organization name', sample: 'Lincoln High School' },
+  { name: 'currentYear', description: 'Current year', sample: '2024' },
+];
+
+/**
+ * Variables each template may use. Anything else is rejected when saving.
+ */
+export const EMAIL_TEMPLATE_VARIABLES: Record<EmailTemplateName, EmailTemplateVariable[]> = {
+  invitation: [
+    ...COMMON_VARIABLES,
+    { name: 'inviterName', description: 'Admin who sent the invitation', sample: 'Ada Admin' },
+    { name: 'role', description: 'Role being offered', sample: 'COUNSELOR' },
+    {
+      name: 'invitationUrl',
+      description: 'Link to accept the invitation',
+      sample: 'https://example.com/invite/sample-token',
+    },
+    { name: 'expirationDate', description: 'When the invitation expires', sample: '9/10/2024' },
+    { name: 'adminEmail', description: 'Admin contact email', sample: 'ada.admin@example.com' },
+    {
+      name: 'recipientEmail',
+      description: 'Invitee email address',
+      sample: 'new.counselor@example.com',
+    },
+  ],
+  setup_confirmation: [
+    ...COMMON_VARIABLES,
+    { name: 'adminName', description: 'New administrator name', sample: 'Ada Admin' },
+    { name: 'adminEmail', description: 'New administrator email', sample: 'ada.admin@example.com' },
+    {
+      name: 'dashboardUrl',
+      description: 'Link to the dashboard',
+      sample: 'https://example.com/dashboard',
+    },
+  ],
+};
+
+export const EMAIL_TEMPLATE_LABELS: Record<EmailTemplateName, string> = {
+  invitation: 'User Invitation',
+  setup_confirmation: 'Setup Confirmation',
+};
+
+const EMAIL_LAYOUT_STYLES = `
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background-color: #f8f9fa; padding: 20px; border-radius: 8px; margin-bottom: 20px; }
+    .header-success { background-color: #28a745; color: white; }
+    .content { padding: 20px 0; }
+    .button { display: inline-block; background-color: #007bff; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px; margin: 20px 0; }
+    .footer { margin-top: 30px; padding-top: 20px; border-top: 1px solid #eee; font-size: 14px; color: #666; }
+    .warning { background-color: #fff3cd; border: 1px solid #ffeaa7; padding: 15px; border-radius: 4px; margin: 20px 0; }
+    .success { background-color: #d4edda; border: 1px solid #c3e6cb; padding: 15px; border-radius: 4px; margin: 20px 0; }
+`;
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; name: string }
+  | { type: 'if'; name: string; then: TemplateNode[]; else: TemplateNode[] };
+
+interface ParsedTemplate {
+  nodes: TemplateNode[];
+  variables: string[];
+  errors: string[];
+}
+
+const TAG_PATTERN = /\{\{\s*(#if\s+(\w+)|else|\/if|(\w+))\s*\}\}/g;
+
+/**
+ * Parse placeholders and conditional blocks
+ */
+function parseTemplate(source: string): ParsedTemplate {
+  const root: TemplateNode[] = [];
+  const stack: { node: Extract<TemplateNode, { type: 'if' }>; inElse: boolean }[] = [];
+  const variables = new Set<string>();
+  const errors: string[] = [];
+  const current = () => {
+    const top = stack[stack.length - 1];
+    return top ? (top.inElse ? top.node.else : top.node.then) : root;
+  };
+
+  let lastIndex = 0;
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    if (match.index > lastIndex) {
+      current().push({ type: 'text', value: source.slice(lastIndex, match.index) });
+    }
+    lastIndex = match.index + match[0].length;
+
+    if (match[2]) {
+      const node: TemplateNode = { type: 'if', name: match[2], then: [], else: [] };
+      current().push(node);
+      stack.push({ node, inElse: false });
+      variables.add(match[2]);
+    } else if (match[1] === 'else') {
+      const top = stack[stack.length - 1];
+      if (!top || top.inElse) {
+        errors.push('{{else}} without a matching {{#if}}');
+      } else {
+        top.inElse = true;
+      }
+    } else if (match[1] === '/if') {
+      if (!stack.pop()) {
+        errors.push('{{/if}} without a matching {{#if}}');
+      }
+    } else {
+      current().push({ type: 'variable', name: match[3] });
+      variables.add(match[3]);
+    }
+  }
+
+  if (lastIndex < source.length) {
+    current().push({ type: 'text', value: source.slice(lastIndex) });
+  }
+  if (stack.length > 0) {
+    errors.push(`{{#if ${stack[stack.length - 1].node.name}}} is missing its {{/if}}`);
+  }
+
+  return { nodes: root, variables: [...variables], errors };
+}
+
+function renderNodes(
+  nodes: TemplateNode[],
+  variables: Record<string, string>,
+  fill: (name: string) => string
+): string {
+  return nodes
+    .map(node => {
+      if (node.type === 'text') return node.value;
+      if (node.type === 'variable') return fill(node.name);
+      return renderNodes(variables[node.name] ? node.then : node.else, variables, fill);
+    })
+    .join('');
+}
+
+/**
+ * Fill in a template string. Unknown variables render as empty text.
+ */
+export function renderTemplateString(
+  source: string,
+  variables: Record<string, string>,
+  options: { escapeHtml?: boolean } = {}
+): string {
+  const escape = options.escapeHtml ? escapeHtml : (value: string) => value;
+  return renderNodes(parseTemplate(source).nodes, variables, name => escape(variables[name] || ''));
+}
+
+// Stands in for a variable while the HTML body is sanitized. NUL cannot come
+// from the template: it is stripped from the source and entities decode it to
+// U+FFFD.
+const PLACEHOLDER_PATTERN = /\0(\w+)\0/g;
+
+/**
+ * Render a template into a complete email: the HTML body's conditional
+ * blocks are expanded, then it is sanitized, filled in with escaped values
+ * and wrapped in the email layout. Sanitizing after the blocks are expanded
+ * means a block cannot hide markup, such as an attribute's closing quote,
+ * from the sanitizer.
+ */
+export function renderEmailTemplate(
+  template: EmailTemplate,
+  variables: Record<string, string>,
+  branding: EmailBranding = {}
+): EmailTemplate {
+  // Subjects become mail headers, which must stay on one line
+  const subject = renderTemplateString(template.subject, variables).replace(/[\r\n]+/g, ' ');
+  const expanded = renderNodes(
+    parseTemplate(template.htmlBody.replace(/\0/g, '')).nodes,
+    variables,
+    name => `\0${name}\0`
+  );
+  const body = sanitizeEmailHtml(expanded).replace(PLACEHOLDER_PATTERN, (_, name: string) =>
+    escapeHtml(variables[name] || '')
+  );
+
+  return {
+    subject,
+    htmlBody: `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(subject)}</title>
+  <style>${EMAIL_LAYOUT_STYLES}${renderBrandingStyles(branding)}</style>
+</head>
+<body>
+${renderBrandingLogo(branding)}${body}
+</body>
+</html>`,
+    textBody: renderTemplateString(template.textBody, variables).trim(),
+  };
+}
+
+// Colors reach the stylesheet unescaped, so only hex colors are used
+function renderBrandingStyles(branding: EmailBranding): string {
+  if (!branding.primaryColor || !/^#[0-9a-f]{6}$/i.test(branding.primaryColor)) {
+    return '';
+  }
+  return `
+    .header { border-top: 4px solid ${branding.primaryColor}; }
+    .button { background-color: ${branding.primaryColor}; }
+`;
+}
+
+function renderBrandingLogo(branding: EmailBranding): string {
+  if (!branding.logoUrl || !/^https:\/\//i.test(branding.logoUrl)) {
+    return '';
+  }
+  const alt = branding.tenantName ? `${branding.tenantName} logo` : 'Logo';
+  return `<div class="logo"><img src="${escapeHtml(branding.logoUrl)}" alt="${escapeHtml(alt)}" style="max-height: 48px; margin-bottom: 16px;"></div>
+`;
+}
+
+/**
+ * Sample values for previewing a template
+ */
+export function getSampleEmailVariables(name: EmailTemplateName): Record<string, string> {
+  return Object.fromEntries(
+    EMAIL_TEMPLATE_VARIABLES[name].map(variable => [variable.name, variable.sample])
+  );
+}
+
+/**
+ * Check a template before saving. Returns the problems found, if any.
+ */
+export function validateEmailTemplate(name: EmailTemplateName, template: EmailTemplate): string[] {
+  const allowed = new Set(EMAIL_TEMPLATE_VARIABLES[name].map(variable => variable.name));
+  const errors: string[] = [];
+
+  const fields: [string, string][] = [
+    ['Subject', template.subject],
+    ['HTML body', template.htmlBody],
+    ['Text body', template.textBody],
+  ];
+
+  for (const [label, value] of fields) {
+    if (!value.trim()) {
+      errors.push(`${label} is required`);
+      continue;
+    }
+
+    const parsed = parseTemplate(value);
+    errors.push(...parsed.errors.map(error => `${label}: ${error}`));
+
+    const unknown = parsed.variables.filter(variable => !allowed.has(variable));
+    if (unknown.length > 0) {
+      errors.push(`${label}: unknown variable ${unknown.map(v => `{{${v}}}`).join(', ')}`);
+    }
+  }
+
+  if (template.subject.length > 255) {
+    errors.push('Subject must be 255 characters or less');
+  }
+
+  return errors;
+}
+
+// ============================================================================
+// HTML SANITIZATION
+// ============================================================================
+
+const ALLOWED_TAGS = new Set([
+  'a',
+  'b',
+  'blockquote',
+  'br',
+  'code',
+  'div',
+  'em',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'hr',
+  'i',
+  'img',
+  'li',
+  'ol',
+  'p',
+  'pre',
+  'small',
+  'span',
+  'strong',
+  'table',
+  'tbody',
+  'td',
+  'th',
+  'thead',
+  'tr',
+  'u',
+  'ul',
+]);
+
+const VOID_TAGS = new Set(['br', 'hr', 'img']);
+
+// Removed together with everything inside them
+const DROPPED_CONTENT_TAGS = new Set([
+  'script',
+  'style',
+  'iframe',
+  'object',
+  'embed',
+  'noscript',
+  'template',
+  'head',
+  'title',
+  'textarea',
+  'select',
+  'svg',
+  'math',
+]);
+
+const GLOBAL_ATTRIBUTES = new Set(['class', 'style', 'align', 'title']);
+
+const TAG_ATTRIBUTES: Record<string, Set<string>> = {
+  a: new Set(['href']),
+  img: new Set(['src', 'alt', 'width', 'height']),
+  table: new Set(['width', 'border', 'cellpadding', 'cellspacing']),
+  td: new Set(['width', 'colspan', 'rowspan', 'valign']),
+  th: new Set(['width', 'colspan', 'rowspan', 'valign']),
+};
+
+const URL_ATTRIBUTES = new Set(['href', 'src']);
+
+// Filled in with links the app generates, so may stand in for a whole URL
+const URL_VARIABLES = new Set(['invitationUrl', 'dashboardUrl']);
+
+const ATTRIBUTE_PATTERN = /([^\s"'<>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/y;
+
+/**
+ * Reduce HTML to an allowlist of formatting tags and attributes. Links may
+ * only point to http(s), mailto or be exactly a link variable such as
+ * {{invitationUrl}}, since other variables could fill in any scheme.
+ */
+export function sanitizeEmailHtml(html: string): string {
+  let output = '';
+  let position = 0;
+
+  while (position < html.length) {
+    const tagStart = html.indexOf('<', position);
+    if (tagStart === -1) {
+      output += html.slice(position);
+      break;
+    }
+    output += html.slice(position, tagStart);
+
+    // Comments, doctypes and processing instructions
+    if (/^<[!?]/.test(html.slice(tagStart, tagStart + 2))) {
+      const end = html.startsWith('<!--', tagStart)
+        ? html.indexOf('-->', tagStart + 4)
+        : html.indexOf('>', tagStart);
+      position = end === -1 ? html.length : end + (html.startsWith('<!--', tagStart) ? 3 : 1);
+      continue;
+    }
+
+    const nameMatch = /^<(\/?)([a-zA-Z][a-zA-Z0-9-]*)/.exec(html.slice(tagStart));
+    if (!nameMatch) {
+      output += '&lt;';
+      position = tagStart + 1;
+      continue;
+    }
+
+    const isClosing = nameMatch[1] === '/';
+    const tagName = nameMatch[2].toLowerCase();
+    const { attributes, end } = parseAttributes(html, tagStart + nameMatch[0].length);
+    position = end;
+
+    if (DROPPED_CONTENT_TAGS.has(tagName)) {
+      if (!isClosing) {
+        const closing = html.toLowerCase().indexOf(`</${tagName}`, position);
+        const closingEnd = closing === -1 ? -1 : html.indexOf('>', closing);
+        position = closingEnd === -1 ? html.length : closingEnd + 1;
+      }
+      continue;
+    }
+
+    if (!ALLOWED_TAGS.has(tagName)) {
+      continue;
+    }
+
+    if (isClosing) {
+      if (!VOID_TAGS.has(tagName)) {
+        output += `</${tagName}>`;
+      }
+      continue;
+    }
+
+    const kept = attributes
+      .filter(([name, value]) => isAllowedAttribute(tagName, name, value))
+      .map(([name, value]) => `${name}="${escapeHtml(value)}"`);
+
+    output += `<${tagName}${kept.length > 0 ? ` ${kept.join(' ')}` : ''}>`;
+  }
+
+  return output;
+}
+
+function parseAttributes(html: string, start: number): { attributes: string[][]; end: number } {
+  const attributes: string[][] = [];
+  let position = start;
+
+  while (position < html.length) {
+    const char = html[position];
+    if (char === '>') {
+      return { attributes, end: position + 1 };
+    }
+    if (/\s|\//.test(char)) {
+      position++;
+      continue;
+    }
+
+    ATTRIBUTE_PATTERN.lastIndex = position;
+    const match = ATTRIBUTE_PATTERN.exec(html);
+    if (!match) {
+      position++;
+      continue;
+    }
+
+    attributes.push([
+      match[1].toLowerCase(),
+      decodeEntities(match[2] ?? match[3] ?? match[4] ?? ''),
+    ]);
+    position = ATTRIBUTE_PATTERN.lastIndex;
+  }
+
+  // Unterminated tag: drop the rest
+  return { attributes: [], end: html.length };
+}
+
+function isAllowedAttribute(tagName: string, name: string, value: string): boolean {
+  if (!GLOBAL_ATTRIBUTES.has(name) && !TAG_ATTRIBUTES[tagName]?.has(name)) {
+    return false;
+  }
+
+  if (URL_ATTRIBUTES.has(name)) {
+    const placeholder = /^\0(\w+)\0$/.exec(value);
+    if (placeholder) {
+      return URL_VARIABLES.has(placeholder[1]);
+    }
+
+    const url = Array.from(value)
+      .filter(char => char.charCodeAt(0) > 32)
+      .join('');
+    const variable = /^\{\{\s*(\w+)\s*\}\}$/.exec(url);
+    return variable ? URL_VARIABLES.has(variable[1]) : /^(https?:|mailto:)/i.test(url);
+  }
+
+  if (name === 'style') {
+    return !/expression|url\s*\(|javascript:|@import|behavior/i.test(value);
+  }
+
+  return true;
+}
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);?/gi, (_, entity: string) => {
+    const lower = entity.toLowerCase();
+    if (lower.startsWith('#')) {
+      const code = lower.startsWith('#x')
+        ? parseInt(lower.slice(2), 16)
+        : parseInt(lower.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '\ufffd';
+    }
+    return { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }[lower] as string;
+  });
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// ============================================================================
+// TENANT TEMPLATES
+// ============================================================================
+
+/**
+ * Fetch the current tenant's customized templates (admins only)
+ */
+export async function fetchEmailTemplates(): Promise<SupabaseResponse<TenantEmailTemplate[]>> {
+  try {
+    const context = await getTenantContext();
+    if (!context) {
+      return {
+        data: null,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'User not authenticated',
+        },
+      };
+    }
+
+    const { data, error } = await supabase
+      .from('email_templates')
+      .select('*')
+      .eq('tenant_id', context.tenantId);
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return { data: (data || []).map(convertEmailTemplateFromDb), error: null };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to fetch email templates',
+      },
+    };
+  }
+}
+
+/**
+ * Save the current tenant's version of a template. The HTML is sanitized
+ * before it is stored.
+ */
+export async function saveEmailTemplate(
+  name: EmailTemplateName,
+  template: EmailTemplate
+): Promise<SupabaseResponse<TenantEmailTemplate>> {
+  try {
+    const context = await getTenantContext();
+    if (!context) {
+      return {
+        data: null,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'User not authenticated',
+        },
+      };
+    }
+
+    const errors = validateEmailTemplate(name, template);
+    if (errors.length > 0) {
+      return {
+        data: null,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: errors.join('; '),
+        },
+      };
+    }
+
+    const { data, error } = await supabase
+      .from('email_templates')
+      .upsert(
+        {
+          tenant_id: context.tenantId,
+          template: name,
+          subject: template.subject.trim(),
+          html_body: sanitizeEmailHtml(template.htmlBody),
+          text_body: template.textBody,
+          updated_by: context.userId,
+        },
+        { onConflict: 'tenant_id,template' }
+      )
+      .select()
+      .single();
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return { data: convertEmailTemplateFromDb(data), error: null };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to save email template',
+      },
+    };
+  }
+}
+
+/**
+ * Remove the current tenant's version of a template, restoring the default
+ */
+export async function resetEmailTemplate(name: EmailTemplateName): Promise<SupabaseResponse<null>> {
+  try {
+    const context = await getTenantContext();
+    if (!context) {
+      return {
+        data: null,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'User not authenticated',
+        },
+      };
+    }
+
+    const { error } = await supabase
+      .from('email_templates')
+      .delete()
+      .eq('tenant_id', context.tenantId)
+      .eq('template', name);
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return { data: null, error: null };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to reset email template',
+      },
+    };
+  }
+}
+
+/**
+ * Where the email service gets its templates from
+ */
+export interface EmailTemplateSource {
+  getTemplate(name: EmailTemplateName): Promise<EmailTemplate>;
+}
+
+/**
+ * The tenant's version of each template, falling back to the built-in one
+ * when there is none or it can't be loaded
+ */
+export const tenantEmailTemplates: EmailTemplateSource = {
+  async getTemplate(name) {
+    try {
+      const context = await getTenantContext();
+      if (!context) {
+        return DEFAULT_EMAIL_TEMPLATES[name];
+      }
+
+      const { data, error } = await supabase
+        .from('email_templates')
+        .select('*')
+        .eq('tenant_id', context.tenantId)
+        .eq('template', name)
+        .maybeSingle();
+
+      if (error) {
+        console.warn('Failed to load email template, using default:', error.message);
+        return DEFAULT_EMAIL_TEMPLATES[name];
+      }
+
+      return data ? convertEmailTemplateFromDb(data) : DEFAULT_EMAIL_TEMPLATES[name];
+    } catch (error) {
+      console.warn('Error loading email template, using default:', error);
+      return DEFAULT_EMAIL_TEMPLATES[name];
+    }
+  },
+};
+
+/**
+ * Where the email service gets the tenant's logo and color from
+ */
+export interface EmailBrandingSource {
+  getBranding(): Promise<EmailBranding>;
+}
+
+/**
+ * The signed-in user's tenant branding, or none when it can't be loaded
+ */
+export const tenantEmailBranding: EmailBrandingSource = {
+  async getBranding() {
+    const { data, error } = await fetchTenantBranding();
+
+    if (error || !data) {
+      console.warn('Failed to load tenant branding, sending unbranded:', error?.message);
+      return {};
+    }
+
+    return {
+      tenantName: data.tenantName,
+      logoUrl: data.logoUrl,
+      primaryColor: data.primaryColor,
+    };
+  },
+};
+
+// ============================================================================
+// DATA CONVERSION HELPERS
+// ============================================================================
+
+function convertEmailTemplateFromDb(
+  dbTemplate: TenantEmailTemplateDbResponse
+): TenantEmailTemplate {
+  return {
+    id: dbTemplate.id,
+    template: dbTemplate.template,
+    subject: dbTemplate.subject,
+    htmlBody: dbTemplate.html_body,
+    textBody: dbTemplate.text_body,
+    updatedBy: dbTemplate.updated_by,
+    updatedAt: new Date(dbTemplate.updated_at),
+  };
+}
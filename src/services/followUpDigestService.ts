@@ -0,0 +1,229 @@
+/**
+ * Follow-up Digest Service
+ *
+ * Manages the current user's follow-up digest preferences and the tenant's
+ * surname setting. Digests are queued by the follow-up-digest edge function and
+ * sent through the email queue like other email.
+ */
+
+import { supabase } from './supabase';
+import { getTenantContext, handleSupabaseError, type SupabaseResponse } from './supabaseHelpers';
+import type {
+  FollowUpDigestPreferences,
+  FollowUpDigestPreferencesDbResponse,
+} from '@/types/followUpDigest';
+
+export const DIGEST_DAY_NAMES = [
+  'Sunday',
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+];
+
+/**
+ * Preferences for users who have not saved any, in the browser's timezone.
+ * Matches the column defaults in migration 023 apart from the timezone.
+ */
+export function getDefaultFollowUpDigestPreferences(): FollowUpDigestPreferences {
+  return {
+    cadence: 'daily',
+    weeklyDay: 1,
+    quietDays: [0, 6],
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+  };
+}
+
+/**
+ * Check preferences before saving; returns a list of problems
+ */
+export function validateFollowUpDigestPreferences(
+  preferences: FollowUpDigestPreferences
+): string[] {
+  const errors: string[] = [];
+
+  if (preferences.quietDays.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+    errors.push('Quiet days must be days of the week');
+  }
+
+  if (preferences.cadence === 'daily' && new Set(preferences.quietDays).size >= 7) {
+    errors.push('A daily digest needs at least one day that is not a quiet day');
+  }
+
+  if (preferences.cadence === 'weekly' && preferences.quietDays.includes(preferences.weeklyDay)) {
+    errors.push(`${DIGEST_DAY_NAMES[preferences.weeklyDay]} is a quiet day`);
+  }
+
+  return errors;
+}
+
+/**
+ * Fetch the current user's digest preferences, or the defaults if none are saved
+ */
+export async function fetchFollowUpDigestPreferences(): Promise<
+  SupabaseResponse<FollowUpDigestPreferences>
+> {
+  try {
+    const context = await getTenantContext();
+    if (!context) {
+      return {
+        data: null,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'User not authenticated',
+        },
+      };
+    }
+
+    const { data, error } = await supabase
+      .from('follow_up_digest_preferences')
+      .select('*')
+      .eq('tenant_id', context.tenantId)
+      .eq('user_id', context.userId)
+      .maybeSingle();
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return {
+      data: data ? convertPreferencesFromDb(data) : getDefaultFollowUpDigestPreferences(),
+      error: null,
+    };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to fetch digest preferences',
+      },
+    };
+  }
+}
+
+/**
+ * Save the current user's digest preferences
+ */
+export async function saveFollowUpDigestPreferences(
+  preferences: FollowUpDigestPreferences
+): Promise<SupabaseResponse<FollowUpDigestPreferences>> {
+  try {
+    const context = await getTenantContext();
+    if (!context) {
+      return {
+        data: null,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'User not authenticated',
+        },
+      };
+    }
+
+    const errors = validateFollowUpDigestPreferences(preferences);
+    if (errors.length > 0) {
+      return {
+        data: null,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: errors.join('. '),
+        },
+      };
+    }
+
+    const { data, error } = await supabase
+      .from('follow_up_digest_preferences')
+      .upsert(
+        {
+          tenant_id: context.tenantId,
+          user_id: context.userId,
+          cadence: preferences.cadence,
+          weekly_day: preferences.weeklyDay,
+          quiet_days: [...new Set(preferences.quietDays)].sort((a, b) => a - b),
+          timezone: preferences.timezone,
+        },
+        { onConflict: 'user_id' }
+      )
+      .select()
+      .single();
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return { data: convertPreferencesFromDb(data), error: null };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to save digest preferences',
+      },
+    };
+  }
+}
+
+/**
+ * Choose whether digests show full student names (admin only)
+ */
+export async function updateDigestSurnameSetting(
+  includeSurnames: boolean
+): Promise<SupabaseResponse<null>> {
+  try {
+    const context = await getTenantContext();
+    if (!context) {
+      return {
+        data: null,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'User not authenticated',
+        },
+      };
+    }
+
+    const { error } = await supabase
+      .from('tenants')
+      .update({ digest_include_surnames: includeSurnames })
+      .eq('id', context.tenantId);
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return { data: null, error: null };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to update digest setting',
+      },
+    };
+  }
+}
+
+// ============================================================================
+// DATA CONVERSION HELPERS
+// ============================================================================
+
+function convertPreferencesFromDb(
+  dbPreferences: FollowUpDigestPreferencesDbResponse
+): FollowUpDigestPreferences {
+  return {
+    cadence: dbPreferences.cadence,
+    weeklyDay: dbPreferences.weekly_day,
+    quietDays: dbPreferences.quiet_days,
+    timezone: dbPreferences.timezone,
+    lastDigestOn: dbPreferences.last_digest_on,
+  };
+}
@@ -0,0 +1,367 @@
+/**
+ * Follow-up Task Service
+ *
+ * Follow-up tasks record who is responsible for each interaction's follow-up.
+ * Tasks are created by the database when an interaction needs a follow-up and
+ * can be handed to another counselor with a note; admins can move all of a
+ * user's open tasks at once, e.g. before deactivating them. Completing a task
+ * keeps its completion note on the task, never in the interaction's notes.
+ */
+
+import { supabase } from './supabase';
+import { getTenantContext, handleSupabaseError, type SupabaseResponse } from './supabaseHelpers';
+import { decryptInteractionRows, encryptInteractionNotes } from './noteEncryptionService';
+import type {
+  FollowUpTask,
+  FollowUpTaskAssignment,
+  FollowUpTaskAssignmentDbResponse,
+  FollowUpTaskDbResponse,
+} from '@/types/followUpTask';
+
+const TASK_SELECT = '*, assignee:users!assigned_to(first_name, last_name)';
+
+const ASSIGNMENT_SELECT = `*,
+  from_user:users!from_user_id(first_name, last_name),
+  to_user:users!to_user_id(first_name, last_name),
+  assigned_by_user:users!assigned_by(first_name, last_name)`;
+
+/**
+ * Fetch open follow-up tasks: the user's own, or every task for admins
+ */
+export async function fetchFollowUpTasks(): Promise<SupabaseResponse<FollowUpTask[]>> {
+  try {
+    const context = await getTenantContext();
+    if (!context) {
+      return {
+        data: null,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'User not authenticated',
+        },
+      };
+    }
+
+    const { data, error } = await supabase
+      .from('follow_up_tasks')
+      .select(TASK_SELECT)
+      .eq('tenant_id', context.tenantId)
+      .is('completed_at', null);
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return {
+      data: ((data || []) as unknown as FollowUpTaskDbResponse[]).map(convertTaskFromDb),
+      error: null,
+    };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to fetch follow-ups',
+      },
+    };
+  }
+}
+
+/**
+ * Count a user's open follow-up tasks (admin only)
+ */
+export async function countOpenFollowUpTasks(userId: string): Promise<SupabaseResponse<number>> {
+  try {
+    const context = await getTenantContext();
+    if (!context) {
+      return {
+        data: null,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'User not authenticated',
+        },
+      };
+    }
+
+    const { count, error } = await supabase
+      .from('follow_up_tasks')
+      .select('id', { count: 'exact', head: true })
+      .eq('tenant_id', context.tenantId)
+      .eq('assigned_to', userId)
+      .is('completed_at', null);
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return { data: count ?? 0, error: null };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to count follow-ups',
+      },
+    };
+  }
+}
+
+/**
+ * Fetch who has owned a task, oldest first
+ */
+export async function fetchFollowUpTaskHistory(
+  taskId: string
+): Promise<SupabaseResponse<FollowUpTaskAssignment[]>> {
+  try {
+    const { data, error } = await supabase
+      .from('follow_up_task_assignments')
+      .select(ASSIGNMENT_SELECT)
+      .eq('task_id', taskId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    // Handoff notes are encrypted like interaction notes
+    const rows = (data || []) as unknown as FollowUpTaskAssignmentDbResponse[];
+    const decrypted = await decryptInteractionRows(rows.map(row => ({ ...row, notes: row.note })));
+
+    return {
+      data: decrypted.map(row =>
+        convertAssignmentFromDb(
+          { ...row, note: row.notes ?? undefined },
+          row.notes_decryption_failed
+        )
+      ),
+      error: null,
+    };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to fetch follow-up history',
+      },
+    };
+  }
+}
+
+/**
+ * Hand a follow-up to another counselor with an optional note
+ */
+export async function reassignFollowUpTask(
+  taskId: string,
+  toUserId: string,
+  note?: string
+): Promise<SupabaseResponse<FollowUpTask>> {
+  try {
+    const { notes: encryptedNote } = await encryptInteractionNotes({
+      notes: note?.trim() || null,
+    });
+
+    // Returns the updated row; the previous assignee can no longer read it
+    const { data, error } = await supabase.rpc('reassign_follow_up_task', {
+      p_task_id: taskId,
+      p_to_user_id: toUserId,
+      p_note: encryptedNote,
+    });
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return {
+      data: convertTaskFromDb(data as FollowUpTaskDbResponse),
+      error: null,
+    };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to reassign follow-up',
+      },
+    };
+  }
+}
+
+/**
+ * Move every open follow-up of one user to another (admin only). Returns the
+ * number of follow-ups moved.
+ */
+export async function reassignAllFollowUpTasks(
+  fromUserId: string,
+  toUserId: string,
+  note?: string
+): Promise<SupabaseResponse<number>> {
+  try {
+    const { notes: encryptedNote } = await encryptInteractionNotes({
+      notes: note?.trim() || null,
+    });
+
+    const { data, error } = await supabase.rpc('reassign_follow_up_tasks', {
+      p_from_user_id: fromUserId,
+      p_to_user_id: toUserId,
+      p_note: encryptedNote,
+    });
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return { data: (data as number) ?? 0, error: null };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to reassign follow-ups',
+      },
+    };
+  }
+}
+
+/**
+ * Fetch the follow-up task of an interaction, with its completion note.
+ * Returns null when there is no task or it is not visible to the user.
+ */
+export async function fetchFollowUpTaskForInteraction(
+  interactionId: string
+): Promise<SupabaseResponse<FollowUpTask | null>> {
+  try {
+    const { data, error } = await supabase
+      .from('follow_up_tasks')
+      .select(TASK_SELECT)
+      .eq('interaction_id', interactionId)
+      .maybeSingle();
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    if (!data) {
+      return { data: null, error: null };
+    }
+
+    return {
+      data: await decryptTask(data as unknown as FollowUpTaskDbResponse),
+      error: null,
+    };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to fetch follow-up',
+      },
+    };
+  }
+}
+
+/**
+ * Mark an interaction's follow-up complete with an optional note. Allowed for
+ * the assignee, the interaction's counselor and admins.
+ */
+export async function completeFollowUpTask(
+  interactionId: string,
+  note?: string
+): Promise<SupabaseResponse<FollowUpTask>> {
+  try {
+    const { notes: encryptedNote } = await encryptInteractionNotes({
+      notes: note?.trim() || null,
+    });
+
+    const { data, error } = await supabase.rpc('complete_follow_up', {
+      p_interaction_id: interactionId,
+      p_note: encryptedNote,
+    });
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return {
+      data: await decryptTask(data as FollowUpTaskDbResponse),
+      error: null,
+    };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to complete follow-up',
+      },
+    };
+  }
+}
+
+// ============================================================================
+// DATA CONVERSION HELPERS
+// ============================================================================
+
+function formatUserName(user?: { first_name: string; last_name: string } | null) {
+  return user ? `${user.first_name} ${user.last_name}` : undefined;
+}
+
+function convertTaskFromDb(dbTask: FollowUpTaskDbResponse): FollowUpTask {
+  return {
+    id: dbTask.id,
+    interactionId: dbTask.interaction_id,
+    assignedTo: dbTask.assigned_to,
+    assigneeName: formatUserName(dbTask.assignee),
+    assignedAt: new Date(dbTask.assigned_at),
+    completedAt: dbTask.completed_at ? new Date(dbTask.completed_at) : undefined,
+    completedBy: dbTask.completed_by,
+    completionNote: dbTask.completion_note,
+  };
+}
+
+// Completion notes are encrypted like interaction notes
+async function decryptTask(dbTask: FollowUpTaskDbResponse): Promise<FollowUpTask> {
+  const [decrypted] = await decryptInteractionRows([{ ...dbTask, notes: dbTask.completion_note }]);
+
+  return {
+    ...convertTaskFromDb({ ...dbTask, completion_note: decrypted.notes ?? undefined }),
+    completionNoteDecryptionFailed: decrypted.notes_decryption_failed,
+  };
+}
+
+function convertAssignmentFromDb(
+  dbAssignment: FollowUpTaskAssignmentDbResponse,
+  noteDecryptionFailed?: boolean
+): FollowUpTaskAssignment {
+  return {
+    id: dbAssignment.id,
+    taskId: dbAssignment.task_id,
+    fromUserId: dbAssignment.from_user_id,
+    fromUserName: formatUserName(dbAssignment.from_user),
+    toUserId: dbAssignment.to_user_id,
+    toUserName: formatUserName(dbAssignment.to_user),
+    assignedBy: dbAssignment.assigned_by,
+    assignedByName: formatUserName(dbAssignment.assigned_by_user),
+    note: dbAssignment.note,
+    noteDecryptionFailed,
+    createdAt: new Date(dbAssignment.created_at),
+  };
+}
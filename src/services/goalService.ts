@@ -0,0 +1,436 @@
+/**
+ * Goal Service
+ *
+ * A student's counseling plan is a set of measurable goals in an area
+ * (academic, SEL, college/career). Counselors record progress check-ins on a
+ * 1-5 scale and link the interactions that worked on each goal. Check-in notes
+ * are encrypted like interaction notes.
+ */
+
+import { supabase } from './supabase';
+import { getTenantContext, handleSupabaseError, type SupabaseResponse } from './supabaseHelpers';
+import { decryptInteractionRows, encryptInteractionNotes } from './noteEncryptionService';
+import type {
+  GoalArea,
+  GoalCheckIn,
+  GoalCheckInDbResponse,
+  GoalCheckInFormData,
+  GoalFormData,
+  GoalProgressPoint,
+  GoalRating,
+  GoalStatus,
+  StudentGoal,
+  StudentGoalDbResponse,
+} from '@/types/goal';
+
+export const GOAL_AREA_LABELS: Record<GoalArea, string> = {
+  ACADEMIC: 'Academic',
+  SEL: 'Social-emotional',
+  COLLEGE_CAREER: 'College & career',
+};
+
+export const GOAL_STATUS_LABELS: Record<GoalStatus, string> = {
+  ACTIVE: 'Active',
+  ACHIEVED: 'Achieved',
+  DISCONTINUED: 'Discontinued',
+};
+
+export const GOAL_RATING_LABELS: Record<GoalRating, string> = {
+  1: 'No progress',
+  2: 'Minimal progress',
+  3: 'Some progress',
+  4: 'Significant progress',
+  5: 'Goal met',
+};
+
+const CHECK_IN_SELECT = '*, recorded_by_user:users!recorded_by(first_name, last_name)';
+
+const GOAL_SELECT = `*,
+  created_by_user:users!created_by(first_name, last_name),
+  student_goal_check_ins(${CHECK_IN_SELECT}),
+  interaction_goals(interaction_id)`;
+
+/**
+ * Check a goal before saving; returns a list of problems
+ */
+export function validateGoalForm(form: GoalFormData): string[] {
+  const errors: string[] = [];
+
+  if (!form.title.trim()) {
+    errors.push('Enter a goal');
+  }
+
+  if (!form.measure?.trim()) {
+    errors.push('Describe how progress will be measured');
+  }
+
+  return errors;
+}
+
+/**
+ * The most recent check-in rating for a goal, or null before the first check-in
+ */
+export function getLatestGoalRating(goal: StudentGoal): GoalRating | null {
+  return goal.checkIns.length > 0 ? goal.checkIns[goal.checkIns.length - 1].rating : null;
+}
+
+/**
+ * Chart data for a set of goals: one point per check-in time, carrying the
+ * rating of each goal checked in at that time, oldest first
+ */
+export function buildGoalProgressSeries(goals: StudentGoal[]): GoalProgressPoint[] {
+  const points = new Map<number, GoalProgressPoint>();
+
+  goals.forEach(goal => {
+    goal.checkIns.forEach(checkIn => {
+      const recordedAt = checkIn.recordedAt.getTime();
+      const point = points.get(recordedAt) ?? { recordedAt };
+      point[goal.id] = checkIn.rating;
+      points.set(recordedAt, point);
+    });
+  });
+
+  return Array.from(points.values()).sort((a, b) => a.recordedAt - b.recordedAt);
+}
+
+/**
+ * Fetch a student's goals, oldest first, with their check-ins and linked interactions
+ */
+export async function fetchStudentGoals(
+  studentId: string
+): Promise<SupabaseResponse<StudentGoal[]>> {
+  try {
+    const context = await getTenantContext();
+    if (!context) {
+      return {
+        data: null,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'User not authenticated',
+        },
+      };
+    }
+
+    const { data, error } = await supabase
+      .from('student_goals')
+      .select(GOAL_SELECT)
+      .eq('tenant_id', context.tenantId)
+      .eq('student_id', studentId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    const goals = (data || []) as unknown as StudentGoalDbResponse[];
+    const checkIns = await decryptCheckIns(
+      goals.flatMap(goal => goal.student_goal_check_ins || [])
+    );
+    const checkInsByGoal = new Map<string, GoalCheckIn[]>();
+    checkIns.forEach(checkIn => {
+      checkInsByGoal.set(checkIn.goalId, [...(checkInsByGoal.get(checkIn.goalId) || []), checkIn]);
+    });
+
+    return {
+      data: goals.map(goal => convertGoalFromDb(goal, checkInsByGoal.get(goal.id))),
+      error: null,
+    };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to fetch goals',
+      },
+    };
+  }
+}
+
+/**
+ * Add a goal to a student's plan
+ */
+export async function createGoal(
+  studentId: string,
+  form: GoalFormData
+): Promise<SupabaseResponse<StudentGoal>> {
+  try {
+    const context = await getTenantContext();
+    if (!context) {
+      return {
+        data: null,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'User not authenticated',
+        },
+      };
+    }
+
+    const { data, error } = await supabase
+      .from('student_goals')
+      .insert({
+        tenant_id: context.tenantId,
+        student_id: studentId,
+        created_by: context.userId,
+        ...convertGoalFormToDb(form),
+      })
+      .select(GOAL_SELECT)
+      .single();
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return { data: convertGoalFromDb(data as unknown as StudentGoalDbResponse), error: null };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to create goal',
+      },
+    };
+  }
+}
+
+/**
+ * Edit a goal or change its status. Check-ins are not returned; refetch the
+ * student's goals to see them.
+ */
+export async function updateGoal(
+  goalId: string,
+  form: GoalFormData
+): Promise<SupabaseResponse<StudentGoal>> {
+  try {
+    const { data, error } = await supabase
+      .from('student_goals')
+      .update(convertGoalFormToDb(form))
+      .eq('id', goalId)
+      .select('*')
+      .single();
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return { data: convertGoalFromDb(data as StudentGoalDbResponse), error: null };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to update goal',
+      },
+    };
+  }
+}
+
+/**
+ * Record a progress check-in on a goal
+ */
+export async function recordGoalCheckIn(
+  goalId: string,
+  form: GoalCheckInFormData
+): Promise<SupabaseResponse<GoalCheckIn>> {
+  try {
+    const context = await getTenantContext();
+    if (!context) {
+      return {
+        data: null,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'User not authenticated',
+        },
+      };
+    }
+
+    const { notes: encryptedNote } = await encryptInteractionNotes({
+      notes: form.note?.trim() || null,
+    });
+
+    const { data, error } = await supabase
+      .from('student_goal_check_ins')
+      .insert({
+        tenant_id: context.tenantId,
+        goal_id: goalId,
+        rating: form.rating,
+        note: encryptedNote,
+        recorded_by: context.userId,
+      })
+      .select(CHECK_IN_SELECT)
+      .single();
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return {
+      data: convertCheckInFromDb({
+        ...(data as unknown as GoalCheckInDbResponse),
+        note: form.note?.trim() || null,
+      }),
+      error: null,
+    };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to record check-in',
+      },
+    };
+  }
+}
+
+/**
+ * Link an interaction with the goal's student to the goal
+ */
+export async function linkGoalInteraction(
+  goalId: string,
+  interactionId: string
+): Promise<SupabaseResponse<null>> {
+  try {
+    const context = await getTenantContext();
+    if (!context) {
+      return {
+        data: null,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'User not authenticated',
+        },
+      };
+    }
+
+    const { error } = await supabase.from('interaction_goals').insert({
+      tenant_id: context.tenantId,
+      goal_id: goalId,
+      interaction_id: interactionId,
+    });
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return { data: null, error: null };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to link interaction',
+      },
+    };
+  }
+}
+
+/**
+ * Remove the link between an interaction and a goal
+ */
+export async function unlinkGoalInteraction(
+  goalId: string,
+  interactionId: string
+): Promise<SupabaseResponse<null>> {
+  try {
+    const { error } = await supabase
+      .from('interaction_goals')
+      .delete()
+      .eq('goal_id', goalId)
+      .eq('interaction_id', interactionId);
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return { data: null, error: null };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to unlink interaction',
+      },
+    };
+  }
+}
+
+// ============================================================================
+// DATA CONVERSION HELPERS
+// ============================================================================
+
+async function decryptCheckIns(rows: GoalCheckInDbResponse[]): Promise<GoalCheckIn[]> {
+  const decrypted = await decryptInteractionRows(rows.map(row => ({ ...row, notes: row.note })));
+
+  return decrypted
+    .map(row => convertCheckInFromDb({ ...row, note: row.notes }, row.notes_decryption_failed))
+    .sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime());
+}
+
+function convertGoalFormToDb(form: GoalFormData) {
+  return {
+    area: form.area,
+    title: form.title.trim(),
+    description: form.description?.trim() || null,
+    measure: form.measure?.trim() || null,
+    target_date: form.targetDate || null,
+    ...(form.status && { status: form.status }),
+  };
+}
+
+function formatUserName(user?: { first_name: string; last_name: string } | null) {
+  return user ? `${user.first_name} ${user.last_name}` : undefined;
+}
+
+function convertCheckInFromDb(
+  dbCheckIn: GoalCheckInDbResponse,
+  noteDecryptionFailed?: boolean
+): GoalCheckIn {
+  return {
+    id: dbCheckIn.id,
+    goalId: dbCheckIn.goal_id,
+    rating: dbCheckIn.rating as GoalRating,
+    note: dbCheckIn.note ?? undefined,
+    noteDecryptionFailed,
+    recordedBy: dbCheckIn.recorded_by ?? undefined,
+    recordedByName: formatUserName(dbCheckIn.recorded_by_user),
+    recordedAt: new Date(dbCheckIn.recorded_at),
+  };
+}
+
+function convertGoalFromDb(
+  dbGoal: StudentGoalDbResponse,
+  checkIns: GoalCheckIn[] = []
+): StudentGoal {
+  return {
+    id: dbGoal.id,
+    studentId: dbGoal.student_id,
+    area: dbGoal.area,
+    title: dbGoal.title,
+    description: dbGoal.description ?? undefined,
+    measure: dbGoal.measure ?? undefined,
+    targetDate: dbGoal.target_date ?? undefined,
+    status: dbGoal.status,
+    createdBy: dbGoal.created_by ?? undefined,
+    createdByName: formatUserName(dbGoal.created_by_user),
+    createdAt: new Date(dbGoal.created_at),
+    updatedAt: new Date(dbGoal.updated_at),
+    checkIns,
+    interactionIds: (dbGoal.interaction_goals || []).map(link => link.interaction_id),
+  };
+}
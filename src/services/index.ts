@@ -6,6 +6,25 @@ export * from './supabaseHelpers';
 export * from './setupService';
 export * from './invitationService';
 export * from './emailService';
+export * from './emailDeliveryService';
+export * from './emailTemplateService';
 export * from './tokenCleanupService';
 export * from './tokenPersistenceService';
 export * from './securityEventService';
+export * from './savedReportService';
+export * from './searchService';
+export * from './notificationService';
+export * from './studentImportService';
+export * from './appointmentService';
+export * from './calendarFeedService';
+export * from './noteEncryptionService';
+export * from './auditLogService';
+export * from './followUpDigestService';
+export * from './followUpTaskService';
+export * from './caseloadService';
+export * from './riskFlagService';
+export * from './goalService';
+export * from './studentMergeService';
+export * from './studentContactService';
+export * from './tenantService';
+export * from './districtService';
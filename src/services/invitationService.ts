@@ -217,6 +217,9 @@ export async function createInvitation(
       adminEmail: inviterData
         ? `${inviterData.first_name.toLowerCase()}.${inviterData.last_name.toLowerCase()}@${tenantName.toLowerCase().replace(/\s+/g, '')}.com`
         : 'admin@example.com',
+      invitationId: invitation.id,
+      // One email per token, however often this call is retried
+      idempotencyKey: `invitation:${invitation.id}:${hashedToken}`,
     });
 
     // Log email sending result but don't fail the invitation creation if email fails
@@ -761,6 +764,8 @@ export async function resendInvitation(
         adminEmail: inviterData
           ? `${inviterData.first_name.toLowerCase()}.${inviterData.last_name.toLowerCase()}@${tenantName.toLowerCase().replace(/\s+/g, '')}.com`
           : 'admin@example.com',
+        invitationId,
+        idempotencyKey: `invitation:${invitationId}:${hashedToken}`,
       });
 
       // Log email sending result but don't fail the resend if email fails
@@ -0,0 +1,408 @@
+/**
+ * Note Encryption Service
+ *
+ * Envelope encryption for interaction notes and follow-up notes. Every value
+ * is encrypted in the browser with its own AES-GCM data key. The data key is
+ * wrapped with the tenant's active key by the note-keys edge function and
+ * stored next to the ciphertext:
+ *
+ *   enc:v1:<key version>:<wrapped data key>:<iv>:<ciphertext>
+ *
+ * Tenant keys never leave the edge function; to read a note the browser asks
+ * it to unwrap the data key. Rotating the tenant key only re-wraps the data
+ * keys. Values without the prefix are legacy plaintext and are returned as-is.
+ */
+
+import { supabase } from './supabase';
+import { getTenantContext, handleSupabaseError, type SupabaseResponse } from './supabaseHelpers';
+import type { NoteEncryptionStatus, NoteKeyRotationResult } from '@/types/noteEncryption';
+
+const ENVELOPE_PREFIX = 'enc:v1:';
+const KEY_SERVICE = 'note-keys';
+// Matches the edge function's per-request limit
+const MAX_KEYS_PER_REQUEST = 1000;
+
+interface EncryptedNoteColumns {
+  notes?: string | null;
+  follow_up_notes?: string | null;
+}
+
+interface WrappedDataKey {
+  version: number;
+  wrappedKey: string;
+}
+
+// Unwrapped data keys are cached by wrapped key for the lifetime of the page
+const dataKeyCache = new Map<string, Promise<CryptoKey | null>>();
+
+/**
+ * Check whether a stored value is an encrypted note envelope
+ */
+export function isEncryptedNote(value?: string | null): value is string {
+  return typeof value === 'string' && value.startsWith(ENVELOPE_PREFIX);
+}
+
+/**
+ * Encrypt a note with its data key and build the envelope that stores it
+ * together with the data key as wrapped by the tenant key
+ */
+export async function sealNote(
+  plaintext: string,
+  dataKey: CryptoKey,
+  dataKeyWrapping: WrappedDataKey
+): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    dataKey,
+    new TextEncoder().encode(plaintext)
+  );
+
+  return `${ENVELOPE_PREFIX}${dataKeyWrapping.version}:${dataKeyWrapping.wrappedKey}:${toBase64(iv)}:${toBase64(ciphertext)}`;
+}
+
+/**
+ * Decrypt a note envelope with its unwrapped data key. Throws when the
+ * envelope has been tampered with or the key does not match.
+ */
+export async function openNote(envelope: string, dataKey: CryptoKey): Promise<string> {
+  const { iv, ciphertext } = parseEnvelope(envelope);
+
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(iv) },
+    dataKey,
+    fromBase64(ciphertext)
+  );
+
+  return new TextDecoder().decode(plaintext);
+}
+
+/**
+ * Encrypt the note columns present in an interaction insert or update.
+ * Empty and already encrypted values are left as they are.
+ */
+export async function encryptInteractionNotes<T extends Partial<EncryptedNoteColumns>>(
+  columns: T
+): Promise<T> {
+  const fields = (['notes', 'follow_up_notes'] as const).filter(
+    field => field in columns && columns[field]
+  );
+  if (fields.length === 0) return columns;
+
+  const values = fields.map(field => columns[field] as string);
+  const pending = values.filter(value => !isEncryptedNote(value));
+
+  const dataKeys = await Promise.all(pending.map(() => generateDataKey()));
+  const wrappings = await wrapDataKeys(dataKeys);
+
+  const encrypted = { ...columns };
+  let next = 0;
+  for (const [index, field] of fields.entries()) {
+    const value = values[index];
+    if (isEncryptedNote(value)) continue;
+
+    encrypted[field] = (await sealNote(value, dataKeys[next], wrappings[next])) as T[typeof field];
+    next++;
+  }
+
+  return encrypted;
+}
+
+/**
+ * Decrypt the note columns of interaction rows. Rows whose notes cannot be
+ * decrypted have them cleared and notes_decryption_failed set, so a single bad
+ * note never breaks a whole list.
+ */
+export async function decryptInteractionRows<T extends EncryptedNoteColumns>(
+  rows: T[]
+): Promise<Array<T & { notes_decryption_failed?: boolean }>> {
+  if (!rows.some(row => isEncryptedNote(row.notes) || isEncryptedNote(row.follow_up_notes))) {
+    return rows;
+  }
+
+  const envelopes = rows.flatMap(row =>
+    [row.notes, row.follow_up_notes].filter(value => isEncryptedNote(value))
+  );
+
+  try {
+    await loadDataKeys(envelopes);
+  } catch (error) {
+    console.error('Failed to load note encryption keys:', error);
+  }
+
+  return Promise.all(
+    rows.map(async row => {
+      try {
+        return {
+          ...row,
+          notes: isEncryptedNote(row.notes) ? await decryptNote(row.notes) : row.notes,
+          follow_up_notes: isEncryptedNote(row.follow_up_notes)
+            ? await decryptNote(row.follow_up_notes)
+            : row.follow_up_notes,
+        };
+      } catch (error) {
+        console.error('Failed to decrypt interaction notes:', error);
+        return {
+          ...row,
+          notes: undefined,
+          follow_up_notes: undefined,
+          notes_decryption_failed: true,
+        };
+      }
+    })
+  );
+}
+
+/**
+ * Fetch the current state of the tenant's note encryption key
+ */
+export async function fetchNoteEncryptionStatus(): Promise<SupabaseResponse<NoteEncryptionStatus>> {
+  try {
+    const context = await getTenantContext();
+    if (!context) {
+      return {
+        data: null,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'User not authenticated',
+        },
+      };
+    }
+
+    const { data, error } = await supabase
+      .from('tenant_encryption_keys')
+      .select('version, is_active, created_at')
+      .eq('tenant_id', context.tenantId)
+      .order('version', { ascending: false });
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    const active = (data || []).find(key => key.is_active);
+
+    return {
+      data: {
+        activeVersion: active?.version ?? null,
+        activatedAt: active ? new Date(active.created_at) : null,
+        retiredVersions: (data || []).filter(key => !key.is_active).length,
+      },
+      error: null,
+    };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to fetch encryption status',
+      },
+    };
+  }
+}
+
+/**
+ * Rotate the tenant's note encryption key (admins only). A new key version
+ * becomes active, every encrypted note is re-wrapped with it and any notes
+ * still stored as plaintext are encrypted. The note-keys edge function does
+ * the work and applies it in one transaction, so a failed rotation changes
+ * nothing. Older versions are retired but kept so notes that were edited
+ * during the rotation remain readable.
+ */
+export async function rotateNoteEncryptionKey(): Promise<SupabaseResponse<NoteKeyRotationResult>> {
+  try {
+    const context = await getTenantContext();
+    if (!context) {
+      return {
+        data: null,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'User not authenticated',
+        },
+      };
+    }
+
+    if (context.userRole !== 'ADMIN') {
+      return {
+        data: null,
+        error: {
+          code: 'PERMISSION_DENIED',
+          message: 'Only administrators can rotate the encryption key',
+        },
+      };
+    }
+
+    // Re-wrapping and the key change run server-side in one transaction
+    const { data, error } = await supabase.functions.invoke<NoteKeyRotationResult>(KEY_SERVICE, {
+      body: { action: 'rotate' },
+    });
+
+    if (error || !data) {
+      return {
+        data: null,
+        error: {
+          code: 'ROTATION_FAILED',
+          message: await getKeyServiceErrorMessage(error, 'Failed to rotate encryption key'),
+        },
+      };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to rotate encryption key',
+      },
+    };
+  }
+}
+
+// ============================================================================
+// KEY SERVICE HELPERS
+// ============================================================================
+
+async function generateDataKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+}
+
+/**
+ * Have the key service wrap fresh data keys with the tenant's active key
+ */
+async function wrapDataKeys(dataKeys: CryptoKey[]): Promise<WrappedDataKey[]> {
+  if (dataKeys.length === 0) return [];
+
+  const rawKeys = await Promise.all(
+    dataKeys.map(async key => toBase64(await crypto.subtle.exportKey('raw', key)))
+  );
+
+  const { data, error } = await supabase.functions.invoke<{
+    version: number;
+    wrappedKeys: string[];
+  }>(KEY_SERVICE, { body: { action: 'wrap', dataKeys: rawKeys } });
+
+  if (error || !data) {
+    throw new Error(await getKeyServiceErrorMessage(error, 'Failed to encrypt notes'));
+  }
+
+  return data.wrappedKeys.map(wrappedKey => ({ version: data.version, wrappedKey }));
+}
+
+/**
+ * Have the key service unwrap the data keys of the given envelopes that are
+ * not cached yet. Keys it cannot unwrap are cached as null.
+ */
+async function loadDataKeys(envelopes: string[]): Promise<void> {
+  const missing = new Map<string, WrappedDataKey>();
+  for (const envelope of envelopes) {
+    try {
+      const { version, wrappedKey } = parseEnvelope(envelope);
+      const cacheKey = `${version}:${wrappedKey}`;
+      if (!dataKeyCache.has(cacheKey)) missing.set(cacheKey, { version, wrappedKey });
+    } catch {
+      // Malformed envelopes fail individually in decryptNote
+    }
+  }
+
+  const entries = [...missing.entries()];
+  for (let start = 0; start < entries.length; start += MAX_KEYS_PER_REQUEST) {
+    const batch = entries.slice(start, start + MAX_KEYS_PER_REQUEST);
+    const request = supabase.functions
+      .invoke<{ dataKeys: Array<string | null> }>(KEY_SERVICE, {
+        body: { action: 'unwrap', keys: batch.map(([, key]) => key) },
+      })
+      .then(async ({ data, error }) => {
+        if (error || !data) {
+          throw new Error(await getKeyServiceErrorMessage(error, 'Failed to decrypt notes'));
+        }
+        return data.dataKeys;
+      });
+
+    batch.forEach(([cacheKey], index) => {
+      const dataKey = request.then(rawKeys =>
+        rawKeys[index] ? importDataKey(rawKeys[index]) : null
+      );
+      dataKeyCache.set(cacheKey, dataKey);
+      // Don't cache failures
+      dataKey.catch(() => dataKeyCache.delete(cacheKey));
+    });
+
+    await request;
+  }
+}
+
+async function decryptNote(envelope: string): Promise<string> {
+  const { version, wrappedKey } = parseEnvelope(envelope);
+  const dataKey = await dataKeyCache.get(`${version}:${wrappedKey}`);
+  if (!dataKey) {
+    throw new Error(`Encryption key version ${version} is not available`);
+  }
+
+  return openNote(envelope, dataKey);
+}
+
+function importDataKey(rawKey: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', fromBase64(rawKey), 'AES-GCM', false, [
+    'encrypt',
+    'decrypt',
+  ]);
+}
+
+/**
+ * The key service answers errors with { error }; surface that message
+ */
+async function getKeyServiceErrorMessage(error: unknown, fallback: string): Promise<string> {
+  const context = (error as { context?: unknown } | null)?.context;
+  if (context instanceof Response) {
+    try {
+      const body = await context.json();
+      if (typeof body?.error === 'string') return body.error;
+    } catch {
+      // Not a JSON error body
+    }
+  }
+
+  return error instanceof Error ? error.message : fallback;
+}
+
+// ============================================================================
+// ENCODING HELPERS
+// ============================================================================
+
+function parseEnvelope(envelope: string): {
+  version: number;
+  wrappedKey: string;
+  iv: string;
+  ciphertext: string;
+} {
+  const [version, wrappedKey, iv, ciphertext, ...rest] = envelope
+    .slice(ENVELOPE_PREFIX.length)
+    .split(':');
+
+  if (!version || !wrappedKey || !iv || !ciphertext || rest.length > 0) {
+    throw new Error('Malformed encrypted note');
+  }
+
+  return { version: Number(version), wrappedKey, iv, ciphertext };
+}
+
+function toBase64(data: ArrayBuffer | Uint8Array): string {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
@@ -0,0 +1,168 @@
+/**
+ * Notification Service
+ *
+ * Handles retrieval and read state of in-app notifications shown in the
+ * header notification center.
+ */
+
+import { supabase } from './supabase';
+import { getTenantContext, handleSupabaseError, type SupabaseResponse } from './supabaseHelpers';
+import type { Notification, NotificationDbResponse, NotificationFeed } from '@/types/notification';
+
+const DEFAULT_NOTIFICATION_LIMIT = 20;
+
+/**
+ * Fetch the current user's most recent notifications and unread count.
+ * Overdue follow-ups are synced into notifications first since they are time-based.
+ */
+export async function fetchNotifications(
+  limit: number = DEFAULT_NOTIFICATION_LIMIT
+): Promise<SupabaseResponse<NotificationFeed>> {
+  try {
+    const context = await getTenantContext();
+    if (!context) {
+      return {
+        data: null,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'User not authenticated',
+        },
+      };
+    }
+
+    const { error: syncError } = await supabase.rpc('sync_follow_up_notifications');
+    if (syncError) {
+      // Log to console but still return existing notifications
+      console.error('Failed to sync follow-up notifications:', syncError);
+    }
+
+    const [listResult, countResult] = await Promise.all([
+      supabase
+        .from('notifications')
+        .select('*')
+        .eq('tenant_id', context.tenantId)
+        .eq('user_id', context.userId)
+        .order('created_at', { ascending: false })
+        .limit(limit),
+      supabase
+        .from('notifications')
+        .select('id', { count: 'exact', head: true })
+        .eq('tenant_id', context.tenantId)
+        .eq('user_id', context.userId)
+        .is('read_at', null),
+    ]);
+
+    const firstError = listResult.error || countResult.error;
+    if (firstError) {
+      return {
+        data: null,
+        error: handleSupabaseError(firstError),
+      };
+    }
+
+    return {
+      data: {
+        notifications: (listResult.data || []).map(convertNotificationFromDb),
+        unreadCount: countResult.count || 0,
+      },
+      error: null,
+    };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to fetch notifications',
+      },
+    };
+  }
+}
+
+/**
+ * Mark a single notification as read
+ */
+export async function markNotificationRead(id: string): Promise<SupabaseResponse<null>> {
+  try {
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('id', id)
+      .is('read_at', null);
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return { data: null, error: null };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to mark notification as read',
+      },
+    };
+  }
+}
+
+/**
+ * Mark all of the current user's unread notifications as read
+ */
+export async function markAllNotificationsRead(): Promise<SupabaseResponse<null>> {
+  try {
+    const context = await getTenantContext();
+    if (!context) {
+      return {
+        data: null,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'User not authenticated',
+        },
+      };
+    }
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('tenant_id', context.tenantId)
+      .eq('user_id', context.userId)
+      .is('read_at', null);
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return { data: null, error: null };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to mark notifications as read',
+      },
+    };
+  }
+}
+
+// ============================================================================
+// DATA CONVERSION HELPERS
+// ============================================================================
+
+function convertNotificationFromDb(dbNotification: NotificationDbResponse): Notification {
+  return {
+    id: dbNotification.id,
+    type: dbNotification.type,
+    title: dbNotification.title,
+    message: dbNotification.message,
+    link: dbNotification.link,
+    sourceId: dbNotification.source_id,
+    readAt: dbNotification.read_at ? new Date(dbNotification.read_at) : undefined,
+    createdAt: new Date(dbNotification.created_at),
+  };
+}
@@ -0,0 +1,380 @@
+/**
+ * Risk Flag Service
+ *
+ * Structured risk flags on students (attendance, academic, behavioral, safety)
+ * with a severity level. A HIGH flag needs a safety plan, and raising a flag to
+ * a higher severity notifies admins. Every change is recorded in a timeline;
+ * notes and safety plans are encrypted like interaction notes.
+ */
+
+import { supabase } from './supabase';
+import { getTenantContext, handleSupabaseError, type SupabaseResponse } from './supabaseHelpers';
+import { decryptInteractionRows, encryptInteractionNotes } from './noteEncryptionService';
+import type {
+  RiskFlag,
+  RiskFlagCategory,
+  RiskFlagDbResponse,
+  RiskFlagEvent,
+  RiskFlagEventDbResponse,
+  RiskFlagFormData,
+  RiskFlagSeverity,
+  SafetyPlan,
+  SafetyPlanDbResponse,
+  StudentRiskFlags,
+} from '@/types/riskFlag';
+
+export const RISK_FLAG_CATEGORY_LABELS: Record<RiskFlagCategory, string> = {
+  ATTENDANCE: 'Attendance',
+  ACADEMIC: 'Academic',
+  BEHAVIORAL: 'Behavioral',
+  SAFETY: 'Safety',
+};
+
+export const RISK_FLAG_SEVERITY_LABELS: Record<RiskFlagSeverity, string> = {
+  LOW: 'Low',
+  MEDIUM: 'Medium',
+  HIGH: 'High',
+};
+
+const SEVERITY_ORDER: RiskFlagSeverity[] = ['LOW', 'MEDIUM', 'HIGH'];
+
+const FLAG_SELECT = `*,
+  raised_by_user:users!raised_by(first_name, last_name),
+  cleared_by_user:users!cleared_by(first_name, last_name)`;
+
+const EVENT_SELECT = '*, actor:users!actor_id(first_name, last_name)';
+
+/**
+ * Compare two severities; positive when a is more severe than b
+ */
+export function compareRiskSeverity(a: RiskFlagSeverity, b: RiskFlagSeverity): number {
+  return SEVERITY_ORDER.indexOf(a) - SEVERITY_ORDER.indexOf(b);
+}
+
+/**
+ * The most severe level among a student's open flags, or null if none are open
+ */
+export function getHighestRiskSeverity(flags: RiskFlag[]): RiskFlagSeverity | null {
+  return flags
+    .filter(flag => !flag.clearedAt)
+    .reduce<RiskFlagSeverity | null>(
+      (highest, flag) =>
+        !highest || compareRiskSeverity(flag.severity, highest) > 0 ? flag.severity : highest,
+      null
+    );
+}
+
+/**
+ * Check a new flag or severity change before saving; returns a list of problems.
+ * Pass the flag being changed, if any, so an existing safety plan counts.
+ */
+export function validateRiskFlagForm(form: RiskFlagFormData, existingFlag?: RiskFlag): string[] {
+  const errors: string[] = [];
+
+  if (existingFlag && existingFlag.severity === form.severity) {
+    errors.push(`The flag is already ${RISK_FLAG_SEVERITY_LABELS[form.severity].toLowerCase()}`);
+  }
+
+  const hasSafetyPlan = !!existingFlag?.safetyPlan || !!existingFlag?.safetyPlanDecryptionFailed;
+  if (form.severity === 'HIGH' && !form.safetyPlan && !hasSafetyPlan) {
+    errors.push('A safety plan is required for a high risk flag');
+  }
+
+  if (form.safetyPlan) {
+    if (!form.safetyPlan.warningSigns.trim()) {
+      errors.push('Describe the warning signs in the safety plan');
+    }
+    if (!form.safetyPlan.copingStrategies.trim()) {
+      errors.push('Describe coping strategies in the safety plan');
+    }
+    if (!form.safetyPlan.supportContacts.trim()) {
+      errors.push('List support contacts in the safety plan');
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Fetch a student's flags, newest first, and the timeline of flag changes
+ */
+export async function fetchStudentRiskFlags(
+  studentId: string
+): Promise<SupabaseResponse<StudentRiskFlags>> {
+  try {
+    const context = await getTenantContext();
+    if (!context) {
+      return {
+        data: null,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'User not authenticated',
+        },
+      };
+    }
+
+    const [flagsResult, plansResult, eventsResult] = await Promise.all([
+      supabase
+        .from('student_risk_flags')
+        .select(FLAG_SELECT)
+        .eq('tenant_id', context.tenantId)
+        .eq('student_id', studentId)
+        .order('raised_at', { ascending: false }),
+      supabase
+        .from('student_safety_plans')
+        .select('*')
+        .eq('tenant_id', context.tenantId)
+        .eq('student_id', studentId),
+      supabase
+        .from('student_risk_flag_events')
+        .select(EVENT_SELECT)
+        .eq('tenant_id', context.tenantId)
+        .eq('student_id', studentId)
+        .order('created_at', { ascending: false }),
+    ]);
+
+    const error = flagsResult.error || plansResult.error || eventsResult.error;
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    // Safety plans and event notes are encrypted like interaction notes
+    const plans = await decryptInteractionRows(
+      ((plansResult.data || []) as SafetyPlanDbResponse[]).map(row => ({
+        ...row,
+        notes: row.plan,
+      }))
+    );
+    const events = await decryptInteractionRows(
+      ((eventsResult.data || []) as unknown as RiskFlagEventDbResponse[]).map(row => ({
+        ...row,
+        notes: row.note,
+      }))
+    );
+
+    const plansByFlag = new Map(plans.map(plan => [plan.flag_id, plan]));
+    const flags = ((flagsResult.data || []) as unknown as RiskFlagDbResponse[]).map(row => {
+      const plan = plansByFlag.get(row.id);
+      return convertFlagFromDb(
+        row,
+        plan && !plan.notes_decryption_failed
+          ? convertSafetyPlanFromDb({ ...plan, plan: plan.notes ?? '' })
+          : undefined,
+        plan?.notes_decryption_failed
+      );
+    });
+    const categoriesByFlag = new Map(flags.map(flag => [flag.id, flag.category]));
+
+    return {
+      data: {
+        flags,
+        events: events.map(row =>
+          convertEventFromDb(
+            { ...row, note: row.notes },
+            categoriesByFlag.get(row.flag_id)!,
+            row.notes_decryption_failed
+          )
+        ),
+      },
+      error: null,
+    };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to fetch risk flags',
+      },
+    };
+  }
+}
+
+/**
+ * Raise a flag on a student. HIGH flags need a safety plan.
+ */
+export async function raiseRiskFlag(
+  studentId: string,
+  form: RiskFlagFormData
+): Promise<SupabaseResponse<RiskFlag>> {
+  try {
+    const encrypted = await encryptFlagText(form);
+
+    const { data, error } = await supabase.rpc('raise_risk_flag', {
+      p_student_id: studentId,
+      p_category: form.category,
+      p_severity: form.severity,
+      p_note: encrypted.notes,
+      p_safety_plan: encrypted.follow_up_notes,
+      p_guardian_notified: form.safetyPlan?.guardianNotified ?? false,
+      p_review_date: form.safetyPlan?.reviewDate || null,
+    });
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return { data: convertFlagFromDb(data as RiskFlagDbResponse), error: null };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to raise risk flag',
+      },
+    };
+  }
+}
+
+/**
+ * Escalate or downgrade an open flag. Reaching HIGH needs a safety plan unless
+ * the flag already has one.
+ */
+export async function changeRiskFlagSeverity(
+  flagId: string,
+  form: RiskFlagFormData
+): Promise<SupabaseResponse<RiskFlag>> {
+  try {
+    const encrypted = await encryptFlagText(form);
+
+    const { data, error } = await supabase.rpc('change_risk_flag_severity', {
+      p_flag_id: flagId,
+      p_severity: form.severity,
+      p_note: encrypted.notes,
+      p_safety_plan: encrypted.follow_up_notes,
+      p_guardian_notified: form.safetyPlan?.guardianNotified ?? false,
+      p_review_date: form.safetyPlan?.reviewDate || null,
+    });
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return { data: convertFlagFromDb(data as RiskFlagDbResponse), error: null };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to change risk flag',
+      },
+    };
+  }
+}
+
+/**
+ * Clear an open flag with an optional note
+ */
+export async function clearRiskFlag(
+  flagId: string,
+  note?: string
+): Promise<SupabaseResponse<RiskFlag>> {
+  try {
+    const { notes: encryptedNote } = await encryptInteractionNotes({
+      notes: note?.trim() || null,
+    });
+
+    const { data, error } = await supabase.rpc('clear_risk_flag', {
+      p_flag_id: flagId,
+      p_note: encryptedNote,
+    });
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return { data: convertFlagFromDb(data as RiskFlagDbResponse), error: null };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to clear risk flag',
+      },
+    };
+  }
+}
+
+// ============================================================================
+// DATA CONVERSION HELPERS
+// ============================================================================
+
+// Encrypt the note and the safety plan (as JSON) in one pass
+function encryptFlagText(form: RiskFlagFormData) {
+  return encryptInteractionNotes({
+    notes: form.note?.trim() || null,
+    follow_up_notes: form.safetyPlan
+      ? JSON.stringify({
+          warningSigns: form.safetyPlan.warningSigns.trim(),
+          copingStrategies: form.safetyPlan.copingStrategies.trim(),
+          supportContacts: form.safetyPlan.supportContacts.trim(),
+        })
+      : null,
+  });
+}
+
+function formatUserName(user?: { first_name: string; last_name: string } | null) {
+  return user ? `${user.first_name} ${user.last_name}` : undefined;
+}
+
+function convertSafetyPlanFromDb(dbPlan: SafetyPlanDbResponse): SafetyPlan {
+  const content = dbPlan.plan ? JSON.parse(dbPlan.plan) : {};
+  return {
+    warningSigns: content.warningSigns ?? '',
+    copingStrategies: content.copingStrategies ?? '',
+    supportContacts: content.supportContacts ?? '',
+    guardianNotified: dbPlan.guardian_notified,
+    reviewDate: dbPlan.review_date ?? undefined,
+  };
+}
+
+function convertFlagFromDb(
+  dbFlag: RiskFlagDbResponse,
+  safetyPlan?: SafetyPlan,
+  safetyPlanDecryptionFailed?: boolean
+): RiskFlag {
+  return {
+    id: dbFlag.id,
+    studentId: dbFlag.student_id,
+    category: dbFlag.category,
+    severity: dbFlag.severity,
+    raisedBy: dbFlag.raised_by ?? undefined,
+    raisedByName: formatUserName(dbFlag.raised_by_user),
+    raisedAt: new Date(dbFlag.raised_at),
+    clearedBy: dbFlag.cleared_by ?? undefined,
+    clearedByName: formatUserName(dbFlag.cleared_by_user),
+    clearedAt: dbFlag.cleared_at ? new Date(dbFlag.cleared_at) : undefined,
+    safetyPlan,
+    safetyPlanDecryptionFailed,
+  };
+}
+
+function convertEventFromDb(
+  dbEvent: RiskFlagEventDbResponse,
+  category: RiskFlagCategory,
+  noteDecryptionFailed?: boolean
+): RiskFlagEvent {
+  return {
+    id: dbEvent.id,
+    flagId: dbEvent.flag_id,
+    category,
+    action: dbEvent.action,
+    severity: dbEvent.severity,
+    note: dbEvent.note ?? undefined,
+    noteDecryptionFailed,
+    actorId: dbEvent.actor_id ?? undefined,
+    actorName: formatUserName(dbEvent.actor),
+    createdAt: new Date(dbEvent.created_at),
+  };
+}
@@ -0,0 +1,175 @@
+/**
+ * Saved Report Service
+ *
+ * Handles persistence of named report definitions (report type + filters)
+ * so users can reopen a report configuration from the Reports page.
+ */
+
+import { supabase } from './supabase';
+import { getTenantContext, handleSupabaseError, type SupabaseResponse } from './supabaseHelpers';
+import type { ReportFilters } from '@/types/dashboard';
+import type {
+  ReportType,
+  SavedReport,
+  SavedReportDbResponse,
+  SavedReportFiltersDb,
+} from '@/types/report';
+
+/**
+ * Fetch the current user's saved reports
+ */
+export async function fetchSavedReports(): Promise<SupabaseResponse<SavedReport[]>> {
+  try {
+    const context = await getTenantContext();
+    if (!context) {
+      return {
+        data: null,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'User not authenticated',
+        },
+      };
+    }
+
+    const { data, error } = await supabase
+      .from('saved_reports')
+      .select('*')
+      .eq('tenant_id', context.tenantId)
+      .eq('user_id', context.userId)
+      .order('name', { ascending: true });
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    const reports = (data || []).map(convertSavedReportFromDb);
+    return { data: reports, error: null };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to fetch saved reports',
+      },
+    };
+  }
+}
+
+/**
+ * Save a named report definition for the current user
+ */
+export async function createSavedReport(reportData: {
+  name: string;
+  reportType: ReportType;
+  filters: ReportFilters;
+}): Promise<SupabaseResponse<SavedReport>> {
+  try {
+    const context = await getTenantContext();
+    if (!context) {
+      return {
+        data: null,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'User not authenticated',
+        },
+      };
+    }
+
+    const insertData = {
+      tenant_id: context.tenantId,
+      user_id: context.userId,
+      name: reportData.name,
+      report_type: reportData.reportType,
+      filters: serializeFilters(reportData.filters),
+    };
+
+    const { data, error } = await supabase
+      .from('saved_reports')
+      .insert(insertData)
+      .select()
+      .single();
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return {
+      data: convertSavedReportFromDb(data),
+      error: null,
+    };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to save report',
+      },
+    };
+  }
+}
+
+/**
+ * Delete a saved report
+ */
+export async function deleteSavedReport(id: string): Promise<SupabaseResponse<null>> {
+  try {
+    const { error } = await supabase.from('saved_reports').delete().eq('id', id);
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return { data: null, error: null };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to delete saved report',
+      },
+    };
+  }
+}
+
+// ============================================================================
+// DATA CONVERSION HELPERS
+// ============================================================================
+
+function serializeFilters(filters: ReportFilters): SavedReportFiltersDb {
+  return {
+    startDate: filters.startDate.toISOString(),
+    endDate: filters.endDate.toISOString(),
+    gradeLevel: filters.gradeLevel,
+    categoryId: filters.categoryId,
+    counselorId: filters.counselorId,
+    regardingStudentId: filters.regardingStudentId,
+  };
+}
+
+function convertSavedReportFromDb(dbReport: SavedReportDbResponse): SavedReport {
+  return {
+    id: dbReport.id,
+    userId: dbReport.user_id,
+    name: dbReport.name,
+    reportType: dbReport.report_type,
+    filters: {
+      startDate: new Date(dbReport.filters.startDate),
+      endDate: new Date(dbReport.filters.endDate),
+      gradeLevel: dbReport.filters.gradeLevel,
+      categoryId: dbReport.filters.categoryId,
+      counselorId: dbReport.filters.counselorId,
+      regardingStudentId: dbReport.filters.regardingStudentId,
+    },
+    createdAt: new Date(dbReport.created_at),
+    updatedAt: new Date(dbReport.updated_at),
+  };
+}
@@ -0,0 +1,190 @@
+/**
+ * Global Search Service
+ *
+ * Tenant-scoped search across students, contacts and interactions used by
+ * the header search box.
+ */
+
+import { supabase } from './supabase';
+import { getTenantContext, handleSupabaseError, type SupabaseResponse } from './supabaseHelpers';
+import { formatDate } from '@/utils/dateHelpers';
+import { formatFullName } from '@/utils/nameHelpers';
+import type { GlobalSearchResults, SearchResult } from '@/types/search';
+
+const DEFAULT_RESULT_LIMIT = 5;
+const SNIPPET_RADIUS = 40;
+
+interface InteractionSearchRow {
+  id: string;
+  start_time: string;
+  custom_reason?: string;
+  student?: { first_name: string; last_name: string } | null;
+  contact?: { first_name: string; last_name: string } | null;
+}
+
+/**
+ * Search students (name, student ID), contacts (name, organization) and
+ * interactions (custom reason) for the current tenant. Notes are encrypted and
+ * cannot be matched by the database, so they are not searched.
+ */
+export async function globalSearch(
+  query: string,
+  limit: number = DEFAULT_RESULT_LIMIT
+): Promise<SupabaseResponse<GlobalSearchResults>> {
+  try {
+    const context = await getTenantContext();
+    if (!context) {
+      return {
+        data: null,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'User not authenticated',
+        },
+      };
+    }
+
+    const terms = tokenizeQuery(query);
+    if (terms.length === 0) {
+      return { data: { students: [], contacts: [], interactions: [] }, error: null };
+    }
+
+    // The longest term is the most selective one to send to the database;
+    // the remaining terms are matched client-side against the full record text.
+    const primaryTerm = terms.reduce((a, b) => (b.length > a.length ? b : a));
+    const pattern = `%${primaryTerm}%`;
+    // Over-fetch so client-side term matching still fills the requested limit
+    const fetchLimit = limit * 4;
+
+    const [studentsResult, contactsResult, interactionsResult] = await Promise.all([
+      supabase
+        .from('students')
+        .select('id, student_id, first_name, last_name, grade_level')
+        .eq('tenant_id', context.tenantId)
+        .or(`first_name.ilike.${pattern},last_name.ilike.${pattern},student_id.ilike.${pattern}`)
+        .order('last_name', { ascending: true })
+        .limit(fetchLimit),
+      supabase
+        .from('contacts')
+        .select('id, first_name, last_name, relationship, organization')
+        .eq('tenant_id', context.tenantId)
+        .or(`first_name.ilike.${pattern},last_name.ilike.${pattern},organization.ilike.${pattern}`)
+        .order('last_name', { ascending: true })
+        .limit(fetchLimit),
+      supabase
+        .from('interactions')
+        .select(
+          'id, start_time, custom_reason, student:students!interactions_student_id_fkey(first_name, last_name), contact:contacts(first_name, last_name)'
+        )
+        .eq('tenant_id', context.tenantId)
+        .ilike('custom_reason', pattern)
+        .order('start_time', { ascending: false })
+        .limit(fetchLimit),
+    ]);
+
+    const firstError = studentsResult.error || contactsResult.error || interactionsResult.error;
+    if (firstError) {
+      return {
+        data: null,
+        error: handleSupabaseError(firstError),
+      };
+    }
+
+    const students: SearchResult[] = (studentsResult.data || [])
+      .filter(student =>
+        matchesAllTerms(
+          [student.first_name, student.last_name, student.student_id].join(' '),
+          terms
+        )
+      )
+      .slice(0, limit)
+      .map(student => ({
+        id: student.id,
+        type: 'student',
+        title: formatFullName(student.first_name, student.last_name),
+        subtitle: `${student.student_id} • ${student.grade_level}`,
+      }));
+
+    const contacts: SearchResult[] = (contactsResult.data || [])
+      .filter(contact =>
+        matchesAllTerms(
+          [contact.first_name, contact.last_name, contact.organization || ''].join(' '),
+          terms
+        )
+      )
+      .slice(0, limit)
+      .map(contact => ({
+        id: contact.id,
+        type: 'contact',
+        title: formatFullName(contact.first_name, contact.last_name),
+        subtitle: [contact.relationship, contact.organization].filter(Boolean).join(' • '),
+      }));
+
+    const interactions: SearchResult[] = (
+      (interactionsResult.data || []) as unknown as InteractionSearchRow[]
+    )
+      .filter(interaction => matchesAllTerms(interaction.custom_reason || '', terms))
+      .slice(0, limit)
+      .map(interaction => {
+        const person = interaction.student || interaction.contact;
+        return {
+          id: interaction.id,
+          type: 'interaction',
+          title: person
+            ? `Interaction with ${formatFullName(person.first_name, person.last_name)}`
+            : 'Interaction',
+          subtitle: formatDate(interaction.start_time, 'long'),
+          snippet: buildSnippet(interaction.custom_reason || '', primaryTerm),
+        };
+      });
+
+    return { data: { students, contacts, interactions }, error: null };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to search',
+      },
+    };
+  }
+}
+
+// ============================================================================
+// QUERY HELPERS
+// ============================================================================
+
+/**
+ * Split a query into lowercase terms, stripping characters that have meaning
+ * in PostgREST filter syntax (commas, parentheses, wildcards)
+ */
+function tokenizeQuery(query: string): string[] {
+  return query
+    .toLowerCase()
+    .replace(/[,()%*\\:"]/g, ' ')
+    .split(/\s+/)
+    .filter(term => term.length > 0);
+}
+
+function matchesAllTerms(text: string, terms: string[]): boolean {
+  const haystack = text.toLowerCase();
+  return terms.every(term => haystack.includes(term));
+}
+
+/**
+ * Build a short excerpt of text centred on the first occurrence of a term
+ */
+function buildSnippet(text: string, term: string): string {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  const index = normalized.toLowerCase().indexOf(term);
+
+  if (index === -1) {
+    return normalized.length > SNIPPET_RADIUS * 2
+      ? `${normalized.slice(0, SNIPPET_RADIUS * 2)}…`
+      : normalized;
+  }
+
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(normalized.length, index + term.length + SNIPPET_RADIUS);
+
+  return `${start > 0 ? '…' : ''}${normalized.slice(start, end)}${end < normalized.length ? '…' : ''}`;
+}
@@ -355,6 +355,24 @@ export async function logTokenManipulation(
   });
 }
 
+/**
+ * Helper function to log a sign-in by a user of another tenant on a tenant's
+ * subdomain. Recorded against the tenant whose subdomain was used.
+ */
+export async function logTenantMismatch(
+  hostTenantId: string,
+  email?: string,
+  details?: Record<string, unknown>
+): Promise<void> {
+  await logSecurityEvent({
+    eventType: 'TENANT_MISMATCH',
+    severity: 'MEDIUM',
+    tenantId: hostTenantId,
+    email,
+    details,
+  });
+}
+
 /**
  * Helper function to log suspicious activity patterns
  */
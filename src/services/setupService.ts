@@ -368,6 +368,7 @@ export async function completeInitialSetup(
       tenantName: setupData.tenantName,
       adminName,
       dashboardUrl,
+      idempotencyKey: `setup_confirmation:${result.data.tenant!.id}`,
     });
 
     // Log email sending result but don't fail the setup if email fails
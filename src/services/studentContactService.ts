@@ -0,0 +1,266 @@
+/**
+ * Student Contact Service
+ *
+ * Links contacts to the students they relate to. Each link has its own
+ * relationship, so a teacher can be linked to several students and a parent
+ * to each of their children, plus primary guardian, custody and no-contact
+ * flags. A student has at most one primary guardian; the database replaces the
+ * previous one when another contact is named.
+ */
+
+import { supabase } from './supabase';
+import { getTenantContext, handleSupabaseError, type SupabaseResponse } from './supabaseHelpers';
+import type {
+  ContactRelationship,
+  StudentContactDbResponse,
+  StudentContactFormData,
+  StudentContactLink,
+} from '@/types/contact';
+
+export const CONTACT_RELATIONSHIPS: ContactRelationship[] = [
+  'Parent',
+  'Guardian',
+  'Teacher',
+  'Administrator',
+  'Counselor',
+  'Social Worker',
+  'Other',
+];
+
+const LINK_SELECT = `
+  *,
+  student:students(first_name, last_name),
+  contact:contacts(first_name, last_name, phone, email)
+`;
+
+/**
+ * Order links for display: primary guardian first, then custody holders, then
+ * no-contact links last, each group by name
+ */
+export function sortStudentContactLinks(
+  links: StudentContactLink[],
+  by: 'contact' | 'student'
+): StudentContactLink[] {
+  const rank = (link: StudentContactLink) =>
+    link.isPrimaryGuardian ? 0 : link.noContact ? 3 : link.hasCustody ? 1 : 2;
+  const name = (link: StudentContactLink) =>
+    (by === 'contact' ? link.contactName : link.studentName) || '';
+
+  return [...links].sort((a, b) => rank(a) - rank(b) || name(a).localeCompare(name(b)));
+}
+
+/**
+ * Problems that prevent saving a link; empty when it can be saved
+ */
+export function validateStudentContactLink(form: StudentContactFormData): string[] {
+  const errors: string[] = [];
+
+  if (!form.studentId) {
+    errors.push('Choose a student');
+  }
+
+  if (!form.contactId) {
+    errors.push('Choose a contact');
+  }
+
+  if (!form.relationship.trim()) {
+    errors.push('Enter the relationship');
+  }
+
+  if (form.isPrimaryGuardian && form.noContact) {
+    errors.push('A primary guardian cannot be marked no-contact');
+  }
+
+  return errors;
+}
+
+/**
+ * Fetch the links for one student or one contact
+ */
+export async function fetchStudentContactLinks(
+  filter: { studentId: string } | { contactId: string }
+): Promise<SupabaseResponse<StudentContactLink[]>> {
+  try {
+    const context = await getTenantContext();
+    if (!context) {
+      return {
+        data: null,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'User not authenticated',
+        },
+      };
+    }
+
+    let query = supabase
+      .from('student_contacts')
+      .select(LINK_SELECT)
+      .eq('tenant_id', context.tenantId);
+
+    query =
+      'studentId' in filter
+        ? query.eq('student_id', filter.studentId)
+        : query.eq('contact_id', filter.contactId);
+
+    const { data, error } = await query;
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return {
+      data: ((data || []) as StudentContactDbResponse[]).map(convertLinkFromDb),
+      error: null,
+    };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to fetch student contacts',
+      },
+    };
+  }
+}
+
+/**
+ * Link a contact to a student
+ */
+export async function createStudentContactLink(
+  data: StudentContactFormData
+): Promise<SupabaseResponse<StudentContactLink>> {
+  try {
+    const context = await getTenantContext();
+    if (!context) {
+      return {
+        data: null,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'User not authenticated',
+        },
+      };
+    }
+
+    const { data: row, error } = await supabase
+      .from('student_contacts')
+      .insert({
+        tenant_id: context.tenantId,
+        student_id: data.studentId,
+        contact_id: data.contactId,
+        ...convertLinkToDb(data),
+      })
+      .select(LINK_SELECT)
+      .single();
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return { data: convertLinkFromDb(row as StudentContactDbResponse), error: null };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to link contact',
+      },
+    };
+  }
+}
+
+/**
+ * Change a link's relationship, flags or notes
+ */
+export async function updateStudentContactLink(
+  id: string,
+  data: StudentContactFormData
+): Promise<SupabaseResponse<StudentContactLink>> {
+  try {
+    const { data: row, error } = await supabase
+      .from('student_contacts')
+      .update(convertLinkToDb(data))
+      .eq('id', id)
+      .select(LINK_SELECT)
+      .single();
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return { data: convertLinkFromDb(row as StudentContactDbResponse), error: null };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to update link',
+      },
+    };
+  }
+}
+
+/**
+ * Remove the link between a contact and a student
+ */
+export async function deleteStudentContactLink(id: string): Promise<SupabaseResponse<null>> {
+  try {
+    const { error } = await supabase.from('student_contacts').delete().eq('id', id);
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return { data: null, error: null };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to remove link',
+      },
+    };
+  }
+}
+
+// ============================================================================
+// DATA CONVERSION HELPERS
+// ============================================================================
+
+function convertLinkFromDb(row: StudentContactDbResponse): StudentContactLink {
+  return {
+    id: row.id,
+    studentId: row.student_id,
+    studentName: row.student ? `${row.student.first_name} ${row.student.last_name}` : undefined,
+    contactId: row.contact_id,
+    contactName: row.contact ? `${row.contact.first_name} ${row.contact.last_name}` : undefined,
+    contactPhone: row.contact?.phone || undefined,
+    contactEmail: row.contact?.email || undefined,
+    relationship: row.relationship,
+    isPrimaryGuardian: row.is_primary_guardian,
+    hasCustody: row.has_custody,
+    noContact: row.no_contact,
+    notes: row.notes || undefined,
+  };
+}
+
+function convertLinkToDb(data: StudentContactFormData) {
+  return {
+    relationship: data.relationship.trim(),
+    is_primary_guardian: data.isPrimaryGuardian,
+    has_custody: data.hasCustody,
+    no_contact: data.noContact,
+    notes: data.notes?.trim() || null,
+  };
+}
@@ -0,0 +1,354 @@
+/**
+ * Student Import Service
+ *
+ * Parses CSV rosters, builds a dry-run plan (create/update/skip per row)
+ * against the tenant's existing students, and commits the plan in batches.
+ */
+
+import {
+  getTenantContext,
+  batchInsert,
+  batchUpdate,
+  type SupabaseResponse,
+} from './supabaseHelpers';
+import { studentFormSchema, gradeLevelSchema } from '@/schemas/student';
+import type {
+  Student,
+  StudentDbResponse,
+  StudentImportColumnMapping,
+  StudentImportField,
+  StudentImportFieldChange,
+  StudentImportPlan,
+  StudentImportResult,
+  StudentImportRow,
+} from '@/types/student';
+
+const INSERT_CHUNK_SIZE = 500;
+
+export const STUDENT_IMPORT_FIELDS: {
+  field: StudentImportField;
+  label: string;
+  required: boolean;
+  aliases: string[];
+}[] = [
+  {
+    field: 'studentId',
+    label: 'Student ID',
+    required: true,
+    aliases: ['student id', 'studentid', 'student number', 'id', 'student #'],
+  },
+  {
+    field: 'firstName',
+    label: 'First Name',
+    required: true,
+    aliases: ['first name', 'firstname', 'first', 'given name'],
+  },
+  {
+    field: 'lastName',
+    label: 'Last Name',
+    required: true,
+    aliases: ['last name', 'lastname', 'last', 'surname', 'family name'],
+  },
+  {
+    field: 'gradeLevel',
+    label: 'Grade Level',
+    required: true,
+    aliases: ['grade level', 'gradelevel', 'grade'],
+  },
+  { field: 'email', label: 'Email', required: false, aliases: ['email', 'email address'] },
+  {
+    field: 'phone',
+    label: 'Phone',
+    required: false,
+    aliases: ['phone', 'phone number', 'telephone'],
+  },
+];
+
+const DB_COLUMNS: Record<StudentImportField, keyof StudentDbResponse> = {
+  studentId: 'student_id',
+  firstName: 'first_name',
+  lastName: 'last_name',
+  gradeLevel: 'grade_level',
+  email: 'email',
+  phone: 'phone',
+};
+
+// ============================================================================
+// CSV PARSING
+// ============================================================================
+
+/**
+ * Parse CSV text into rows of cells. Handles quoted cells, escaped quotes ("")
+ * and line breaks inside quotes. Blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  // Strip a UTF-8 byte order mark left by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+}
+
+/**
+ * Guess the column for each import field from the CSV header row
+ */
+export function autoMapColumns(headers: string[]): StudentImportColumnMapping {
+  const normalizedHeaders = headers.map(header =>
+    header.trim().toLowerCase().replace(/[_-]+/g, ' ')
+  );
+  const mapping: StudentImportColumnMapping = {};
+
+  STUDENT_IMPORT_FIELDS.forEach(({ field, aliases }) => {
+    const index = normalizedHeaders.findIndex(header => aliases.includes(header));
+    if (index !== -1) {
+      mapping[field] = index;
+    }
+  });
+
+  return mapping;
+}
+
+/**
+ * Normalize common grade spellings ("9", "9th", "Grade 9", "K", "PK") to the
+ * grade level values used by the app. Unrecognized values are returned as-is
+ * so validation reports them.
+ */
+export function normalizeGradeLevel(value: string): string {
+  const trimmed = value.trim();
+  const lower = trimmed.toLowerCase();
+
+  const exact = gradeLevelSchema.options.find(option => option.toLowerCase() === lower);
+  if (exact) return exact;
+
+  if (['k', 'kg', 'kinder', 'kindergarten'].includes(lower)) return 'Kindergarten';
+  if (['pk', 'prek', 'pre k', 'pre-k', 'prekindergarten'].includes(lower)) return 'Pre-K';
+
+  const match = lower.match(/^(?:grade\s*)?(\d{1,2})(?:st|nd|rd|th)?(?:\s*grade)?$/);
+  if (match) {
+    const grade = Number(match[1]);
+    const option = gradeLevelSchema.options.find(o => parseInt(o, 10) === grade);
+    if (option) return option;
+  }
+
+  return trimmed;
+}
+
+// ============================================================================
+// DRY RUN
+// ============================================================================
+
+/**
+ * Validate every data row and decide whether it creates, updates or skips a
+ * student. Existing students are matched by student ID. Empty optional cells
+ * leave the existing value unchanged.
+ */
+export function buildStudentImportPlan(
+  dataRows: string[][],
+  mapping: StudentImportColumnMapping,
+  existingStudents: Student[]
+): StudentImportPlan {
+  const existingByStudentId = new Map(existingStudents.map(s => [s.studentId, s]));
+  const seenStudentIds = new Set<string>();
+
+  const rows = dataRows.map((cells, index): StudentImportRow => {
+    // Row 1 is the header row
+    const rowNumber = index + 2;
+    const values: Partial<Record<StudentImportField, string>> = {};
+
+    STUDENT_IMPORT_FIELDS.forEach(({ field }) => {
+      const column = mapping[field];
+      if (column === undefined) return;
+      const raw = (cells[column] ?? '').trim();
+      if (raw === '') return;
+      values[field] = field === 'gradeLevel' ? normalizeGradeLevel(raw) : raw;
+    });
+
+    const studentId = values.studentId ?? '';
+    const existingStudent = studentId ? existingByStudentId.get(studentId) : undefined;
+    const errors: string[] = [];
+
+    if (studentId && seenStudentIds.has(studentId)) {
+      errors.push(`Duplicate student ID ${studentId} in file`);
+    }
+    if (studentId) seenStudentIds.add(studentId);
+
+    // Validate the record as it would look after the import
+    const merged = {
+      studentId,
+      firstName: values.firstName ?? existingStudent?.firstName ?? '',
+      lastName: values.lastName ?? existingStudent?.lastName ?? '',
+      gradeLevel: values.gradeLevel ?? existingStudent?.gradeLevel ?? '',
+      email: values.email ?? existingStudent?.email ?? '',
+      phone: values.phone ?? existingStudent?.phone ?? '',
+    };
+    const result = studentFormSchema.safeParse(merged);
+    if (!result.success) {
+      result.error.issues.forEach(issue => {
+        const field = STUDENT_IMPORT_FIELDS.find(f => f.field === issue.path[0]);
+        errors.push(field ? `${field.label}: ${issue.message}` : issue.message);
+      });
+    }
+
+    if (errors.length > 0) {
+      return {
+        rowNumber,
+        action: 'error',
+        studentId,
+        values,
+        existingStudent,
+        changes: [],
+        errors,
+      };
+    }
+
+    if (!existingStudent) {
+      return { rowNumber, action: 'create', studentId, values, changes: [], errors };
+    }
+
+    const changes: StudentImportFieldChange[] = [];
+    STUDENT_IMPORT_FIELDS.forEach(({ field }) => {
+      const next = values[field];
+      const current = existingStudent[field] ?? '';
+      if (next !== undefined && next !== current) {
+        changes.push({ field, from: current || undefined, to: next });
+      }
+    });
+
+    return {
+      rowNumber,
+      action: changes.length > 0 ? 'update' : 'skip',
+      studentId,
+      values,
+      existingStudent,
+      changes,
+      errors,
+    };
+  });
+
+  return {
+    rows,
+    createCount: rows.filter(r => r.action === 'create').length,
+    updateCount: rows.filter(r => r.action === 'update').length,
+    skipCount: rows.filter(r => r.action === 'skip').length,
+    errorCount: rows.filter(r => r.action === 'error').length,
+  };
+}
+
+// ============================================================================
+// COMMIT
+// ============================================================================
+
+/**
+ * Write the create and update rows of an import plan. Error and skip rows are ignored.
+ */
+export async function commitStudentImport(
+  plan: StudentImportPlan
+): Promise<SupabaseResponse<StudentImportResult>> {
+  try {
+    const context = await getTenantContext();
+    if (!context) {
+      return {
+        data: null,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'User not authenticated',
+        },
+      };
+    }
+
+    const result: StudentImportResult = { created: 0, updated: 0, failed: 0 };
+
+    const inserts = plan.rows
+      .filter(row => row.action === 'create')
+      .map(row => ({
+        tenant_id: context.tenantId,
+        student_id: row.studentId,
+        first_name: row.values.firstName,
+        last_name: row.values.lastName,
+        grade_level: row.values.gradeLevel,
+        email: row.values.email || null,
+        phone: row.values.phone || null,
+      }));
+
+    for (let i = 0; i < inserts.length; i += INSERT_CHUNK_SIZE) {
+      const chunk = inserts.slice(i, i + INSERT_CHUNK_SIZE);
+      const { data, error } = await batchInsert<StudentDbResponse>(
+        'students',
+        chunk as Partial<StudentDbResponse>[]
+      );
+
+      if (error) {
+        console.error('Failed to import student batch:', error);
+        result.failed += chunk.length;
+      } else {
+        result.created += data?.length ?? chunk.length;
+      }
+    }
+
+    for (const row of plan.rows.filter(r => r.action === 'update' && r.existingStudent)) {
+      const updateData: Partial<StudentDbResponse> = {};
+      row.changes.forEach(change => {
+        (updateData as Record<string, string>)[DB_COLUMNS[change.field]] = change.to;
+      });
+
+      const { error } = await batchUpdate<StudentDbResponse>('students', updateData, {
+        column: 'id',
+        value: row.existingStudent!.id,
+      });
+
+      if (error) {
+        console.error(`Failed to update student ${row.studentId}:`, error);
+        result.failed += 1;
+      } else {
+        result.updated += 1;
+      }
+    }
+
+    return { data: result, error: null };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to import students',
+      },
+    };
+  }
+}
@@ -0,0 +1,301 @@
+/**
+ * Student Merge Service
+ *
+ * Student IDs are typed by hand, so the same child is sometimes entered twice
+ * under slightly different names. Possible duplicates are found here from
+ * names, emails and phone numbers; admins review each pair and either dismiss
+ * it or merge the duplicate into the record that survives with merge_students,
+ * which moves its interactions and logs the merge in the audit log.
+ */
+
+import { supabase } from './supabase';
+import { getTenantContext, handleSupabaseError, type SupabaseResponse } from './supabaseHelpers';
+import { compareNames, parseFullName } from '@/utils/nameHelpers';
+import type { DuplicateCandidate, DuplicateReason } from '@/types/studentMerge';
+import type { Student } from '@/types/student';
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  SAME_NAME: 'Same name',
+  SIMILAR_NAME: 'Similar name',
+  SWAPPED_NAME: 'First and last name swapped',
+  SAME_EMAIL: 'Same email',
+  SAME_PHONE: 'Same phone',
+};
+
+const REASON_SCORES: Record<DuplicateReason, number> = {
+  SAME_NAME: 3,
+  SIMILAR_NAME: 2,
+  SWAPPED_NAME: 2,
+  SAME_EMAIL: 3,
+  SAME_PHONE: 1,
+};
+
+// Shortest first name treated as a short form of a longer one (Alex, Alexander)
+const MIN_NAME_PREFIX = 3;
+
+/**
+ * Key identifying an unordered pair of students, matching how dismissals are stored
+ */
+export function getDuplicatePairKey(studentId: string, otherStudentId: string): string {
+  return studentId < otherStudentId
+    ? `${studentId}:${otherStudentId}`
+    : `${otherStudentId}:${studentId}`;
+}
+
+/**
+ * Why two students might be the same child; empty when nothing matches.
+ * A shared phone alone is not a reason, since siblings often share one.
+ */
+export function getDuplicateReasons(a: Student, b: Student): DuplicateReason[] {
+  const reasons: DuplicateReason[] = [];
+  const nameA = normalizeName(a);
+  const nameB = normalizeName(b);
+
+  if (compareNames(nameA, nameB) === 0) {
+    reasons.push('SAME_NAME');
+  } else if (
+    nameA.lastName === nameB.lastName
+      ? isSimilarName(nameA.firstName, nameB.firstName)
+      : nameA.firstName === nameB.firstName && isSimilarName(nameA.lastName, nameB.lastName)
+  ) {
+    reasons.push('SIMILAR_NAME');
+  } else if (nameA.firstName === nameB.lastName && nameA.lastName === nameB.firstName) {
+    reasons.push('SWAPPED_NAME');
+  }
+
+  const emailA = a.email?.trim().toLowerCase();
+  if (emailA && emailA === b.email?.trim().toLowerCase()) {
+    reasons.push('SAME_EMAIL');
+  }
+
+  if (reasons.length === 0) {
+    return reasons;
+  }
+
+  const phoneA = normalizePhone(a.phone);
+  if (phoneA && phoneA === normalizePhone(b.phone)) {
+    reasons.push('SAME_PHONE');
+  }
+
+  return reasons;
+}
+
+/**
+ * Find pairs of students that may be duplicates, most likely first. Pairs in
+ * `dismissed` (keys from getDuplicatePairKey) are skipped.
+ */
+export function findDuplicateStudents(
+  students: Student[],
+  dismissed: ReadonlySet<string> = new Set()
+): DuplicateCandidate[] {
+  // Only compare students sharing a name part or email, rather than every pair
+  const buckets = new Map<string, Student[]>();
+  const addToBucket = (key: string, student: Student) => {
+    buckets.set(key, [...(buckets.get(key) || []), student]);
+  };
+
+  students.forEach(student => {
+    const name = normalizeName(student);
+    const keys = new Set([`name:${name.firstName}`, `name:${name.lastName}`]);
+    const email = student.email?.trim().toLowerCase();
+    if (email) keys.add(`email:${email}`);
+    keys.forEach(key => addToBucket(key, student));
+  });
+
+  const candidates = new Map<string, DuplicateCandidate>();
+  buckets.forEach(bucket => {
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        const key = getDuplicatePairKey(bucket[i].id, bucket[j].id);
+        if (candidates.has(key) || dismissed.has(key)) continue;
+
+        const reasons = getDuplicateReasons(bucket[i], bucket[j]);
+        if (reasons.length === 0) continue;
+
+        const [student, other] = [bucket[i], bucket[j]].sort(compareNames);
+        candidates.set(key, {
+          student,
+          other,
+          reasons,
+          score: reasons.reduce((sum, reason) => sum + REASON_SCORES[reason], 0),
+        });
+      }
+    }
+  });
+
+  return Array.from(candidates.values()).sort(
+    (a, b) => b.score - a.score || compareNames(a.student, b.student)
+  );
+}
+
+/**
+ * Fetch the pairs admins have marked as different students, as pair keys
+ */
+export async function fetchDuplicateDismissals(): Promise<SupabaseResponse<string[]>> {
+  try {
+    const context = await getTenantContext();
+    if (!context) {
+      return {
+        data: null,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'User not authenticated',
+        },
+      };
+    }
+
+    const { data, error } = await supabase
+      .from('student_duplicate_dismissals')
+      .select('student_id, other_student_id')
+      .eq('tenant_id', context.tenantId);
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return {
+      data: (data || []).map(row => getDuplicatePairKey(row.student_id, row.other_student_id)),
+      error: null,
+    };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to fetch dismissed duplicates',
+      },
+    };
+  }
+}
+
+/**
+ * Mark a pair as different students so it leaves the review queue (admin only)
+ */
+export async function dismissDuplicate(
+  studentId: string,
+  otherStudentId: string
+): Promise<SupabaseResponse<null>> {
+  try {
+    const context = await getTenantContext();
+    if (!context) {
+      return {
+        data: null,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'User not authenticated',
+        },
+      };
+    }
+
+    const [first, second] = [studentId, otherStudentId].sort();
+    const { error } = await supabase.from('student_duplicate_dismissals').insert({
+      tenant_id: context.tenantId,
+      student_id: first,
+      other_student_id: second,
+      dismissed_by: context.userId,
+    });
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return { data: null, error: null };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to dismiss duplicate',
+      },
+    };
+  }
+}
+
+/**
+ * Merge a duplicate student into the survivor and delete the duplicate (admin
+ * only). Returns the number of interactions moved.
+ */
+export async function mergeStudents(
+  survivorId: string,
+  duplicateId: string
+): Promise<SupabaseResponse<number>> {
+  try {
+    const { data, error } = await supabase.rpc('merge_students', {
+      p_survivor_id: survivorId,
+      p_duplicate_id: duplicateId,
+    });
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return { data: (data as number) ?? 0, error: null };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to merge students',
+      },
+    };
+  }
+}
+
+// ============================================================================
+// DATA CONVERSION HELPERS
+// ============================================================================
+
+// Lowercase, unaccented names, re-split so a middle name typed into either
+// field ("Mary Ann" + "Lee" or "Mary" + "Ann Lee") compares the same
+function normalizeName(student: Student): { firstName: string; lastName: string } {
+  const fullName = `${student.firstName} ${student.lastName}`
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, '');
+
+  return parseFullName(fullName);
+}
+
+function normalizePhone(phone?: string): string {
+  return (phone || '').replace(/\D/g, '').slice(-10);
+}
+
+// Names one typo apart, or a short form of the other (Alex, Alexander)
+function isSimilarName(a: string, b: string): boolean {
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  if (shorter.length >= MIN_NAME_PREFIX && longer.startsWith(shorter)) {
+    return true;
+  }
+  return shorter.length >= MIN_NAME_PREFIX && isOneEditApart(shorter, longer);
+}
+
+function isOneEditApart(shorter: string, longer: string): boolean {
+  if (longer.length - shorter.length > 1) return false;
+
+  let i = 0;
+  let j = 0;
+  let edits = 0;
+  while (i < shorter.length && j < longer.length) {
+    if (shorter[i] === longer[j]) {
+      i++;
+      j++;
+      continue;
+    }
+    if (++edits > 1) return false;
+    // Substitution when the lengths match, otherwise skip the extra letter
+    if (shorter.length === longer.length) i++;
+    j++;
+  }
+
+  return edits + (longer.length - j) <= 1;
+}
@@ -7,6 +7,7 @@
 
 import { supabase } from './supabase';
 import { PostgrestError, RealtimeChannel } from '@supabase/supabase-js';
+import type { UserRole } from '@/types/user';
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -33,7 +34,7 @@ export interface QueryOptions {
 export interface TenantContext {
   tenantId: string;
   userId: string;
-  userRole: 'ADMIN' | 'COUNSELOR';
+  userRole: UserRole;
 }
 
 // ============================================================================
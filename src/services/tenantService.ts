@@ -0,0 +1,330 @@
+/**
+ * Tenant Service
+ *
+ * Resolves the tenant from the subdomain the app is served on, e.g.
+ * lincoln-high.example.com. Set VITE_APP_DOMAIN to the domain tenants are
+ * served under; without it no hostname names a tenant, so deploys on shared
+ * hosts such as my-app.vercel.app sign users in to their own tenant as before.
+ * On localhost, VITE_TENANT_SUBDOMAIN picks the tenant, and
+ * lincoln-high.localhost works as it would in production.
+ *
+ * Also manages the tenant's branding: logo, primary color, landing page and
+ * date format. Logos are stored in the public tenant-logos bucket under the
+ * tenant's ID.
+ */
+
+import { supabase } from './supabase';
+import { getTenantContext, handleSupabaseError, type SupabaseResponse } from './supabaseHelpers';
+import { RESERVED_SUBDOMAINS } from '@/schemas/setup';
+import type {
+  DateFormat,
+  HostTenant,
+  HostTenantDbResponse,
+  LandingPage,
+  TenantBranding,
+  TenantBrandingDbResponse,
+  TenantBrandingFormData,
+} from '@/types/tenant';
+
+const LOCAL_HOSTNAMES = ['localhost', '127.0.0.1', '[::1]'];
+
+const LOGO_BUCKET = 'tenant-logos';
+const LOGO_MAX_BYTES = 1024 * 1024;
+const LOGO_TYPES: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+};
+
+export const LANDING_PAGES: { value: LandingPage; label: string }[] = [
+  { value: '/dashboard', label: 'Dashboard' },
+  { value: '/interactions', label: 'Interactions' },
+  { value: '/calendar', label: 'Calendar' },
+  { value: '/students', label: 'Students' },
+  { value: '/contacts', label: 'Contacts' },
+  { value: '/reports', label: 'Reports' },
+];
+
+export const DATE_FORMATS: { value: DateFormat; label: string }[] = [
+  { value: 'MM/DD/YYYY', label: 'MM/DD/YYYY (01/31/2025)' },
+  { value: 'DD/MM/YYYY', label: 'DD/MM/YYYY (31/01/2025)' },
+  { value: 'YYYY-MM-DD', label: 'YYYY-MM-DD (2025-01-31)' },
+];
+
+const BRANDING_SELECT = 'name, logo_url, primary_color, default_landing_page, date_format';
+
+/**
+ * The tenant subdomain in a hostname, or null when it names no tenant
+ */
+export function getSubdomainFromHostname(hostname: string, appDomain?: string): string | null {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  const domain = host.endsWith('.localhost') ? 'localhost' : appDomain?.toLowerCase();
+  if (!domain || !host.endsWith(`.${domain}`)) return null;
+
+  const subdomain = host.slice(0, -domain.length - 1);
+  if (!subdomain || subdomain.includes('.') || RESERVED_SUBDOMAINS.includes(subdomain)) {
+    return null;
+  }
+  return subdomain;
+}
+
+/**
+ * The tenant subdomain for the current page, honouring the local development
+ * override
+ */
+export function getHostSubdomain(): string | null {
+  const { hostname } = window.location;
+  const override = import.meta.env.VITE_TENANT_SUBDOMAIN as string | undefined;
+
+  if (override && LOCAL_HOSTNAMES.includes(hostname)) {
+    return override.toLowerCase();
+  }
+  return getSubdomainFromHostname(hostname, import.meta.env.VITE_APP_DOMAIN);
+}
+
+/**
+ * Fetch the tenant served on a subdomain; null when no tenant uses it.
+ * Works before sign-in.
+ */
+export async function fetchHostTenant(
+  subdomain: string
+): Promise<SupabaseResponse<HostTenant | null>> {
+  try {
+    const { data, error } = await supabase.rpc('get_tenant_by_subdomain', {
+      p_subdomain: subdomain,
+    });
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    const row = ((data || []) as HostTenantDbResponse[])[0];
+    return { data: row ? convertHostTenantFromDb(row) : null, error: null };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to fetch tenant',
+      },
+    };
+  }
+}
+
+/**
+ * Convert a #rrggbb color to the "h s% l%" form the theme's CSS variables use;
+ * null when the color is not a hex color
+ */
+export function hexToHslComponents(hex: string): string | null {
+  const match = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex);
+  if (!match) return null;
+
+  const [r, g, b] = match.slice(1).map(part => parseInt(part, 16) / 255);
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const lightness = (max + min) / 2;
+  const delta = max - min;
+
+  let hue = 0;
+  let saturation = 0;
+  if (delta > 0) {
+    saturation = delta / (1 - Math.abs(2 * lightness - 1));
+    if (max === r) hue = ((g - b) / delta) % 6;
+    else if (max === g) hue = (b - r) / delta + 2;
+    else hue = (r - g) / delta + 4;
+    hue = (hue * 60 + 360) % 360;
+  }
+
+  return `${Math.round(hue)} ${Math.round(saturation * 100)}% ${Math.round(lightness * 100)}%`;
+}
+
+/**
+ * Problems that prevent a file being used as the logo; empty when it can be
+ */
+export function validateTenantLogo(file: Pick<File, 'type' | 'size'>): string[] {
+  const errors: string[] = [];
+
+  if (!LOGO_TYPES[file.type]) {
+    errors.push('Choose a PNG, JPEG or WebP image');
+  }
+
+  if (file.size > LOGO_MAX_BYTES) {
+    errors.push('The logo must be 1 MB or smaller');
+  }
+
+  return errors;
+}
+
+/**
+ * Fetch the current tenant's branding
+ */
+export async function fetchTenantBranding(): Promise<SupabaseResponse<TenantBranding>> {
+  try {
+    const context = await getTenantContext();
+    if (!context) {
+      return {
+        data: null,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'User not authenticated',
+        },
+      };
+    }
+
+    const { data, error } = await supabase
+      .from('tenants')
+      .select(BRANDING_SELECT)
+      .eq('id', context.tenantId)
+      .single();
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return { data: convertBrandingFromDb(data as TenantBrandingDbResponse), error: null };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to fetch branding',
+      },
+    };
+  }
+}
+
+/**
+ * Save the current tenant's branding (admin only)
+ */
+export async function updateTenantBranding(
+  data: TenantBrandingFormData
+): Promise<SupabaseResponse<TenantBranding>> {
+  try {
+    const context = await getTenantContext();
+    if (!context) {
+      return {
+        data: null,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'User not authenticated',
+        },
+      };
+    }
+
+    const { data: row, error } = await supabase
+      .from('tenants')
+      .update({
+        logo_url: data.logoUrl || null,
+        primary_color: data.primaryColor?.toLowerCase() || null,
+        default_landing_page: data.defaultLandingPage,
+        date_format: data.dateFormat,
+      })
+      .eq('id', context.tenantId)
+      .select(BRANDING_SELECT)
+      .single();
+
+    if (error) {
+      return {
+        data: null,
+        error: handleSupabaseError(error),
+      };
+    }
+
+    return { data: convertBrandingFromDb(row as TenantBrandingDbResponse), error: null };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to save branding',
+      },
+    };
+  }
+}
+
+/**
+ * Upload a logo for the current tenant and return its public URL. The logo
+ * isn't shown until the URL is saved with updateTenantBranding.
+ */
+export async function uploadTenantLogo(file: File): Promise<SupabaseResponse<string>> {
+  try {
+    const context = await getTenantContext();
+    if (!context) {
+      return {
+        data: null,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'User not authenticated',
+        },
+      };
+    }
+
+    const errors = validateTenantLogo(file);
+    if (errors.length > 0) {
+      return {
+        data: null,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: errors[0],
+        },
+      };
+    }
+
+    // A new name each time, so emails and browsers never show a cached old logo
+    const path = `${context.tenantId}/logo-${Date.now()}.${LOGO_TYPES[file.type]}`;
+    const { error } = await supabase.storage
+      .from(LOGO_BUCKET)
+      .upload(path, file, { contentType: file.type });
+
+    if (error) {
+      return {
+        data: null,
+        error: {
+          code: 'UPLOAD_ERROR',
+          message: error.message,
+        },
+      };
+    }
+
+    const { data } = supabase.storage.from(LOGO_BUCKET).getPublicUrl(path);
+    return { data: data.publicUrl, error: null };
+  } catch (error) {
+    return {
+      data: null,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to upload logo',
+      },
+    };
+  }
+}
+
+// ============================================================================
+// DATA CONVERSION HELPERS
+// ============================================================================
+
+function convertHostTenantFromDb(row: HostTenantDbResponse): HostTenant {
+  return {
+    id: row.id,
+    name: row.name,
+    subdomain: row.subdomain,
+    logoUrl: row.logo_url || undefined,
+    primaryColor: row.primary_color || undefined,
+  };
+}
+
+function convertBrandingFromDb(row: TenantBrandingDbResponse): TenantBranding {
+  return {
+    tenantName: row.name,
+    logoUrl: row.logo_url || undefined,
+    primaryColor: row.primary_color || undefined,
+    defaultLandingPage: row.default_landing_page,
+    dateFormat: row.date_format,
+  };
+}
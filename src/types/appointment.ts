@@ -0,0 +1,107 @@
+import type { Student } from './student';
+import type { Contact } from './contact';
+import type { ReasonCategory } from './reason';
+
+// Appointment types
+export type AppointmentFrequency = 'NONE' | 'WEEKLY' | 'BIWEEKLY';
+
+export type AppointmentStatus = 'SCHEDULED' | 'HELD' | 'CANCELLED';
+
+// Whether an edit applies to one occurrence or to every upcoming occurrence of the series
+export type AppointmentEditScope = 'occurrence' | 'series';
+
+export interface RecurrenceRule {
+  frequency: AppointmentFrequency;
+  untilDate?: string;
+  occurrenceCount?: number;
+}
+
+export interface Appointment {
+  id: string;
+  seriesId: string;
+  occurrenceIndex: number;
+  counselorId: string;
+  studentId?: string;
+  contactId?: string;
+  regardingStudentId?: string;
+  categoryId: string;
+  subcategoryId?: string;
+  startTime: Date;
+  durationMinutes: number;
+  endTime: Date;
+  notes?: string;
+  notesDecryptionFailed?: boolean; // Notes are encrypted and could not be decrypted
+  status: AppointmentStatus;
+  isException: boolean;
+  interactionId?: string;
+  recurrence: RecurrenceRule;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Populated relations
+  student?: Student;
+  contact?: Contact;
+  category?: ReasonCategory;
+}
+
+export interface AppointmentFormData {
+  type: 'student' | 'contact';
+  studentId?: string;
+  contactId?: string;
+  regardingStudentId?: string;
+  categoryId: string;
+  subcategoryId?: string;
+  startTime: string;
+  durationMinutes: number;
+  notes?: string;
+  frequency: AppointmentFrequency;
+  untilDate?: string;
+  occurrenceCount?: number;
+}
+
+// Database response types for Supabase
+export interface AppointmentSeriesDbResponse {
+  id: string;
+  tenant_id: string;
+  counselor_id: string;
+  student_id?: string;
+  contact_id?: string;
+  regarding_student_id?: string;
+  category_id: string;
+  subcategory_id?: string;
+  start_time: string;
+  duration_minutes: number;
+  notes?: string;
+  frequency: AppointmentFrequency;
+  until_date?: string;
+  occurrence_count?: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AppointmentDbResponse {
+  id: string;
+  tenant_id: string;
+  series_id: string;
+  occurrence_index: number;
+  counselor_id: string;
+  student_id?: string;
+  contact_id?: string;
+  regarding_student_id?: string;
+  category_id: string;
+  subcategory_id?: string;
+  start_time: string;
+  duration_minutes: number;
+  end_time: string;
+  notes?: string;
+  notes_decryption_failed?: boolean; // Set client-side by decryptInteractionRows
+  status: AppointmentStatus;
+  is_exception: boolean;
+  interaction_id?: string;
+  created_at: string;
+  updated_at: string;
+  appointment_series?: Pick<
+    AppointmentSeriesDbResponse,
+    'frequency' | 'until_date' | 'occurrence_count'
+  >;
+}
@@ -0,0 +1,47 @@
+// Audit log types
+export type AuditAction = 'CREATE' | 'UPDATE' | 'DELETE' | 'VIEW' | 'MERGE';
+
+export type AuditEntityType = 'student' | 'contact' | 'interaction' | 'participant';
+
+export interface AuditLogEntry {
+  id: string;
+  userId?: string;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  recordLabel?: string;
+  studentId?: string;
+  studentName?: string;
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+  createdAt: Date;
+}
+
+export interface AuditLogFilters {
+  userId?: string;
+  studentId?: string;
+  startDate?: string; // YYYY-MM-DD, inclusive
+  endDate?: string; // YYYY-MM-DD, inclusive
+}
+
+export interface AuditFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+// Database response types for Supabase
+export interface AuditLogDbResponse {
+  id: string;
+  tenant_id: string;
+  user_id?: string;
+  action: AuditAction;
+  entity_type: AuditEntityType;
+  entity_id: string;
+  record_label?: string;
+  student_id?: string;
+  student_name?: string;
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+  created_at: string;
+}
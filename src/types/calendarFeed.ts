@@ -0,0 +1,20 @@
+// Calendar feed types
+export interface CalendarFeed {
+  id: string;
+  token: string;
+  url: string;
+  redactStudentNames: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Database response types for Supabase
+export interface CalendarFeedDbResponse {
+  id: string;
+  tenant_id: string;
+  user_id: string;
+  token: string;
+  redact_student_names: boolean;
+  created_at: string;
+  updated_at: string;
+}
@@ -0,0 +1,30 @@
+// Caseload types
+export type CaseloadRole = 'primary' | 'secondary';
+
+// Matches active students by an inclusive last-name prefix range and/or grade
+export interface CaseloadRule {
+  lastNameFrom?: string;
+  lastNameTo?: string;
+  gradeLevels?: string[];
+}
+
+export interface CaseloadAssignment {
+  counselorId: string;
+  role: CaseloadRole;
+  rule: CaseloadRule;
+  onlyUnassigned: boolean;
+}
+
+// Active students per counselor
+export interface CaseloadSize {
+  counselorId: string;
+  primary: number;
+  secondary: number;
+}
+
+// Database response types for Supabase
+export interface CaseloadSizeDbResponse {
+  counselor_id: string;
+  primary_count: number;
+  secondary_count: number;
+}
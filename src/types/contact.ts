@@ -24,6 +24,32 @@ export interface Contact {
   interactionCount?: number;
 }
 
+// A contact's relationship to one student
+export interface StudentContactLink {
+  id: string;
+  studentId: string;
+  studentName?: string;
+  contactId: string;
+  contactName?: string;
+  contactPhone?: string;
+  contactEmail?: string;
+  relationship: string;
+  isPrimaryGuardian: boolean;
+  hasCustody: boolean;
+  noContact: boolean;
+  notes?: string;
+}
+
+export interface StudentContactFormData {
+  studentId: string;
+  contactId: string;
+  relationship: string;
+  isPrimaryGuardian: boolean;
+  hasCustody: boolean;
+  noContact: boolean;
+  notes?: string;
+}
+
 // Database response types for Supabase
 export interface ContactDbResponse {
   id: string;
@@ -38,3 +64,24 @@ export interface ContactDbResponse {
   created_at: string;
   updated_at: string;
 }
+
+export interface StudentContactDbResponse {
+  id: string;
+  tenant_id: string;
+  student_id: string;
+  contact_id: string;
+  relationship: string;
+  is_primary_guardian: boolean;
+  has_custody: boolean;
+  no_contact: boolean;
+  notes?: string | null;
+  created_at: string;
+  updated_at: string;
+  student?: { first_name: string; last_name: string } | null;
+  contact?: {
+    first_name: string;
+    last_name: string;
+    phone?: string | null;
+    email?: string | null;
+  } | null;
+}
@@ -70,3 +70,104 @@ export interface TimeAllocationReportData {
     totalMinutes: number;
   }[];
 }
+
+// Server-side report aggregates
+export type TrendBucket = 'day' | 'week' | 'month';
+
+export interface ReportAggregates {
+  summary: {
+    totalInteractions: number;
+    totalStudents: number;
+    totalContacts: number;
+    totalDuration: number;
+    averageDuration: number;
+    mostCommonCategory: string | null;
+    mostCommonGrade: string | null;
+  };
+  categoryBreakdown: {
+    categoryId: string;
+    categoryName: string;
+    color?: string;
+    count: number;
+    percentage: number;
+    totalDuration: number;
+  }[];
+  gradeLevelBreakdown: {
+    gradeLevel: string;
+    count: number;
+    percentage: number;
+    totalDuration: number;
+  }[];
+  timeByCategory: {
+    categoryName: string;
+    totalMinutes: number;
+    percentage: number;
+    interactionCount: number;
+  }[];
+  timeByGradeLevel: {
+    gradeLevel: string;
+    totalMinutes: number;
+    percentage: number;
+    interactionCount: number;
+  }[];
+  trend: {
+    date: string;
+    count: number;
+    totalDuration: number;
+  }[];
+  studentFrequency: {
+    studentId: string;
+    studentName: string;
+    gradeLevel: string;
+    interactionCount: number;
+    totalDuration: number;
+  }[];
+  topStudentsByTime: {
+    studentId: string;
+    studentName: string;
+    gradeLevel: string;
+    totalMinutes: number;
+    interactionCount: number;
+  }[];
+  studentTrend: {
+    date: Date; // Sunday starting the week, local midnight
+    count: number;
+  }[];
+}
+
+export interface ReportAggregatesDbResponse {
+  total_interactions: number;
+  total_duration: number;
+  total_students: number;
+  total_contacts: number;
+  categories: {
+    category_id: string | null;
+    category_name: string | null;
+    color: string | null;
+    count: number;
+    total_duration: number;
+    last_start_time: string;
+  }[];
+  grade_levels: {
+    grade_level: string;
+    count: number;
+    total_duration: number;
+  }[];
+  trend: {
+    date: string;
+    count: number;
+    total_duration: number;
+  }[];
+  students: {
+    student_id: string;
+    student_name: string;
+    grade_level: string;
+    count: number;
+    total_duration: number;
+    last_start_time: string;
+  }[];
+  student_trend: {
+    date: string;
+    count: number;
+  }[];
+}
@@ -0,0 +1,108 @@
+// District types
+export interface DistrictSchool {
+  id: string;
+  name: string;
+  subdomain: string;
+}
+
+export interface District {
+  id: string;
+  name: string;
+  schools: DistrictSchool[];
+  templatesPushedAt?: Date;
+}
+
+// District-wide totals. Counts from 1 to 4 are withheld (null) so no student
+// can be picked out, along with the minutes behind them and any count that
+// would reveal them by subtraction.
+export interface DistrictReportAggregates {
+  totalInteractions: number | null;
+  totalDuration: number | null;
+  totalStudents: number | null;
+  schools: {
+    tenantId: string;
+    tenantName: string;
+    totalInteractions: number | null;
+    totalDuration: number | null;
+    totalStudents: number | null;
+  }[];
+  categories: {
+    /** Set for categories pushed from the district; unset for the row
+     * combining the schools' own categories */
+    districtCategoryId?: string;
+    categoryName: string;
+    color?: string;
+    schoolCount: number;
+    count: number | null;
+    totalDuration: number | null;
+    totalStudents: number | null;
+  }[];
+}
+
+// Reason categories the district pushes to its schools
+export interface DistrictReasonCategory {
+  id: string;
+  name: string;
+  color?: string;
+  sortOrder: number;
+  subcategories: DistrictReasonSubcategory[];
+}
+
+export interface DistrictReasonSubcategory {
+  id: string;
+  categoryId: string;
+  name: string;
+  sortOrder: number;
+}
+
+export interface DistrictReasonCategoryFormData {
+  name: string;
+  color?: string;
+  sortOrder: number;
+}
+
+// Database response types for Supabase
+export interface DistrictDbResponse {
+  id: string;
+  name: string;
+  templates_pushed_at: string | null;
+  tenants: DistrictSchool[];
+}
+
+export interface DistrictReportAggregatesDbResponse {
+  total_interactions: number | null;
+  total_duration: number | null;
+  total_students: number | null;
+  schools: {
+    tenant_id: string;
+    tenant_name: string;
+    total_interactions: number | null;
+    total_duration: number | null;
+    total_students: number | null;
+  }[];
+  categories: {
+    district_category_id: string | null;
+    category_name: string;
+    color: string | null;
+    school_count: number;
+    count: number | null;
+    total_duration: number | null;
+    total_students: number | null;
+  }[];
+}
+
+export interface DistrictReasonCategoryDbResponse {
+  id: string;
+  district_id: string;
+  name: string;
+  color: string | null;
+  sort_order: number;
+  district_reason_subcategories: DistrictReasonSubcategoryDbResponse[];
+}
+
+export interface DistrictReasonSubcategoryDbResponse {
+  id: string;
+  category_id: string;
+  name: string;
+  sort_order: number;
+}
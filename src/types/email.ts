@@ -0,0 +1,95 @@
+// Email delivery types
+export type EmailDeliveryStatus = 'queued' | 'sent' | 'failed' | 'bounced';
+
+export type EmailTemplateName = 'invitation' | 'setup_confirmation';
+
+// Follow-up digests are built by the follow-up-digest function, not from a template
+export type EmailDeliveryTemplate = EmailTemplateName | 'follow_up_digest';
+
+export interface EmailDelivery {
+  id: string;
+  invitationId?: string;
+  template: EmailDeliveryTemplate;
+  recipient: string;
+  subject: string;
+  transport?: string;
+  status: EmailDeliveryStatus;
+  attempts: number;
+  maxAttempts: number;
+  lastError?: string;
+  providerMessageId?: string;
+  lastAttemptAt?: Date;
+  nextAttemptAt: Date;
+  sentAt?: Date;
+  deadLetteredAt?: Date;
+  createdBy?: string;
+  createdAt: Date;
+}
+
+export interface EmailQueueStatus {
+  pending: number;
+  sending: number;
+  deadLettered: number;
+  total: number;
+}
+
+export interface EmailTemplate {
+  subject: string;
+  htmlBody: string;
+  textBody: string;
+}
+
+// Tenant look applied to the email layout
+export interface EmailBranding {
+  tenantName?: string;
+  logoUrl?: string;
+  primaryColor?: string;
+}
+
+export interface EmailTemplateVariable {
+  name: string;
+  description: string;
+  sample: string;
+}
+
+export interface TenantEmailTemplate extends EmailTemplate {
+  id: string;
+  template: EmailTemplateName;
+  updatedBy?: string;
+  updatedAt: Date;
+}
+
+// Database response types for Supabase
+export interface EmailDeliveryDbResponse {
+  id: string;
+  tenant_id: string;
+  invitation_id?: string;
+  template: EmailDeliveryTemplate;
+  recipient: string;
+  subject: string;
+  transport?: string;
+  status: EmailDeliveryStatus;
+  attempts: number;
+  max_attempts: number;
+  last_error?: string;
+  provider_message_id?: string;
+  last_attempt_at?: string;
+  next_attempt_at: string;
+  sent_at?: string;
+  dead_lettered_at?: string;
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TenantEmailTemplateDbResponse {
+  id: string;
+  tenant_id: string;
+  template: EmailTemplateName;
+  subject: string;
+  html_body: string;
+  text_body: string;
+  updated_by?: string;
+  created_at: string;
+  updated_at: string;
+}
@@ -0,0 +1,25 @@
+// Follow-up digest types
+export type FollowUpDigestCadence = 'daily' | 'weekly' | 'off';
+
+// Days are 0 (Sunday) to 6 (Saturday), as in Date.getDay()
+export interface FollowUpDigestPreferences {
+  cadence: FollowUpDigestCadence;
+  weeklyDay: number;
+  quietDays: number[];
+  timezone: string;
+  lastDigestOn?: string;
+}
+
+// Database response types for Supabase
+export interface FollowUpDigestPreferencesDbResponse {
+  id: string;
+  tenant_id: string;
+  user_id: string;
+  cadence: FollowUpDigestCadence;
+  weekly_day: number;
+  quiet_days: number[];
+  timezone: string;
+  last_digest_on?: string;
+  created_at: string;
+  updated_at: string;
+}
@@ -0,0 +1,61 @@
+// Follow-up task types
+export interface FollowUpTask {
+  id: string;
+  interactionId: string;
+  assignedTo: string;
+  assigneeName?: string;
+  assignedAt: Date;
+  completedAt?: Date;
+  completedBy?: string;
+  completionNote?: string;
+  completionNoteDecryptionFailed?: boolean;
+}
+
+// One entry in a task's ownership history; the first has no fromUserId
+export interface FollowUpTaskAssignment {
+  id: string;
+  taskId: string;
+  fromUserId?: string;
+  fromUserName?: string;
+  toUserId?: string;
+  toUserName?: string;
+  assignedBy?: string;
+  assignedByName?: string;
+  note?: string;
+  noteDecryptionFailed?: boolean;
+  createdAt: Date;
+}
+
+// Database response types for Supabase
+interface UserNameDbResponse {
+  first_name: string;
+  last_name: string;
+}
+
+export interface FollowUpTaskDbResponse {
+  id: string;
+  tenant_id: string;
+  interaction_id: string;
+  assigned_to: string;
+  assigned_at: string;
+  completed_at?: string;
+  completed_by?: string;
+  completion_note?: string;
+  created_at: string;
+  updated_at: string;
+  assignee?: UserNameDbResponse | null;
+}
+
+export interface FollowUpTaskAssignmentDbResponse {
+  id: string;
+  tenant_id: string;
+  task_id: string;
+  from_user_id?: string;
+  to_user_id?: string;
+  assigned_by?: string;
+  note?: string;
+  created_at: string;
+  from_user?: UserNameDbResponse | null;
+  to_user?: UserNameDbResponse | null;
+  assigned_by_user?: UserNameDbResponse | null;
+}
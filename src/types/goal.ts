@@ -0,0 +1,92 @@
+// Counseling plan types
+export type GoalArea = 'ACADEMIC' | 'SEL' | 'COLLEGE_CAREER';
+
+export type GoalStatus = 'ACTIVE' | 'ACHIEVED' | 'DISCONTINUED';
+
+// 1 = no progress ... 5 = goal met
+export type GoalRating = 1 | 2 | 3 | 4 | 5;
+
+export interface GoalCheckIn {
+  id: string;
+  goalId: string;
+  rating: GoalRating;
+  note?: string;
+  noteDecryptionFailed?: boolean;
+  recordedBy?: string;
+  recordedByName?: string;
+  recordedAt: Date;
+}
+
+export interface StudentGoal {
+  id: string;
+  studentId: string;
+  area: GoalArea;
+  title: string;
+  description?: string;
+  measure?: string;
+  targetDate?: string;
+  status: GoalStatus;
+  createdBy?: string;
+  createdByName?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  // Oldest first
+  checkIns: GoalCheckIn[];
+  interactionIds: string[];
+}
+
+// Creating or editing a goal
+export interface GoalFormData {
+  area: GoalArea;
+  title: string;
+  description?: string;
+  measure?: string;
+  targetDate?: string;
+  status?: GoalStatus;
+}
+
+export interface GoalCheckInFormData {
+  rating: GoalRating;
+  note?: string;
+}
+
+// One point on the progress chart: a check-in date and each goal's rating then
+export interface GoalProgressPoint {
+  recordedAt: number;
+  [goalId: string]: number;
+}
+
+// Database response types for Supabase
+interface UserNameDbResponse {
+  first_name: string;
+  last_name: string;
+}
+
+export interface GoalCheckInDbResponse {
+  id: string;
+  tenant_id: string;
+  goal_id: string;
+  rating: number;
+  note?: string | null;
+  recorded_by?: string | null;
+  recorded_at: string;
+  recorded_by_user?: UserNameDbResponse | null;
+}
+
+export interface StudentGoalDbResponse {
+  id: string;
+  tenant_id: string;
+  student_id: string;
+  area: GoalArea;
+  title: string;
+  description?: string | null;
+  measure?: string | null;
+  target_date?: string | null;
+  status: GoalStatus;
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+  created_by_user?: UserNameDbResponse | null;
+  student_goal_check_ins?: GoalCheckInDbResponse[];
+  interaction_goals?: { interaction_id: string }[];
+}
@@ -1,14 +1,87 @@
 // Central export file for all types
 export type { User, UserRole, AuthState, UserDbResponse } from './user';
-export type { Student, StudentDbResponse } from './student';
-export type { Contact, ContactRelationship, ContactDbResponse } from './contact';
+export type {
+  Student,
+  StudentDbResponse,
+  StudentImportField,
+  StudentImportColumnMapping,
+  StudentImportAction,
+  StudentImportFieldChange,
+  StudentImportRow,
+  StudentImportPlan,
+  StudentImportResult,
+  GradePromotionResult,
+} from './student';
+export type {
+  CaseloadRole,
+  CaseloadRule,
+  CaseloadAssignment,
+  CaseloadSize,
+  CaseloadSizeDbResponse,
+} from './caseload';
+export type {
+  RiskFlagCategory,
+  RiskFlagSeverity,
+  RiskFlagAction,
+  SafetyPlan,
+  RiskFlag,
+  RiskFlagEvent,
+  StudentRiskFlags,
+  RiskFlagFormData,
+  SafetyPlanDbResponse,
+  RiskFlagDbResponse,
+  RiskFlagEventDbResponse,
+} from './riskFlag';
+export type {
+  GoalArea,
+  GoalStatus,
+  GoalRating,
+  GoalCheckIn,
+  StudentGoal,
+  GoalFormData,
+  GoalCheckInFormData,
+  GoalProgressPoint,
+  GoalCheckInDbResponse,
+  StudentGoalDbResponse,
+} from './goal';
+export type {
+  DuplicateReason,
+  DuplicateCandidate,
+  DuplicateDismissalDbResponse,
+} from './studentMerge';
+export type {
+  Contact,
+  ContactRelationship,
+  ContactDbResponse,
+  StudentContactLink,
+  StudentContactFormData,
+  StudentContactDbResponse,
+} from './contact';
 export type {
   ReasonCategory,
   ReasonSubcategory,
   ReasonCategoryDbResponse,
   ReasonSubcategoryDbResponse,
 } from './reason';
-export type { Interaction, InteractionFormData, InteractionDbResponse } from './interaction';
+export type {
+  Interaction,
+  InteractionFormData,
+  InteractionDbResponse,
+  FollowUpStatusFilter,
+  InteractionListFilters,
+  InteractionCursor,
+  InteractionPage,
+} from './interaction';
+export type {
+  AppointmentFrequency,
+  AppointmentStatus,
+  AppointmentEditScope,
+  RecurrenceRule,
+  Appointment,
+  AppointmentFormData,
+  AppointmentSeriesDbResponse,
+  AppointmentDbResponse,
+} from './appointment';
 export type {
   DashboardStats,
   CategoryBreakdown,
@@ -17,8 +90,84 @@ export type {
   FrequencyReportData,
   GradeLevelReportData,
   TimeAllocationReportData,
+  TrendBucket,
+  ReportAggregates,
+  ReportAggregatesDbResponse,
 } from './dashboard';
-export type { Tenant, TenantDbResponse } from './tenant';
+export type {
+  ReportType,
+  SavedReport,
+  SavedReportFiltersDb,
+  SavedReportDbResponse,
+} from './report';
+export type { SearchResultType, SearchResult, GlobalSearchResults } from './search';
+export type { CalendarFeed, CalendarFeedDbResponse } from './calendarFeed';
+export type {
+  FollowUpDigestCadence,
+  FollowUpDigestPreferences,
+  FollowUpDigestPreferencesDbResponse,
+} from './followUpDigest';
+export type {
+  FollowUpTask,
+  FollowUpTaskAssignment,
+  FollowUpTaskDbResponse,
+  FollowUpTaskAssignmentDbResponse,
+} from './followUpTask';
+export type {
+  AuditAction,
+  AuditEntityType,
+  AuditLogEntry,
+  AuditLogFilters,
+  AuditFieldChange,
+  AuditLogDbResponse,
+} from './audit';
+export type {
+  NoteEncryptionStatus,
+  NoteKeyRotationResult,
+  TenantEncryptionKeyDbResponse,
+} from './noteEncryption';
+export type {
+  EmailDeliveryStatus,
+  EmailTemplateName,
+  EmailDeliveryTemplate,
+  EmailDelivery,
+  EmailQueueStatus,
+  EmailTemplate,
+  EmailBranding,
+  EmailTemplateVariable,
+  TenantEmailTemplate,
+  EmailDeliveryDbResponse,
+  TenantEmailTemplateDbResponse,
+} from './email';
+export type {
+  NotificationType,
+  Notification,
+  NotificationDbResponse,
+  NotificationFeed,
+} from './notification';
+export type {
+  Tenant,
+  TenantDbResponse,
+  DateFormat,
+  LandingPage,
+  HostTenant,
+  HostTenantDbResponse,
+  TenantBranding,
+  TenantBrandingFormData,
+  TenantBrandingDbResponse,
+} from './tenant';
+export type {
+  District,
+  DistrictSchool,
+  DistrictReportAggregates,
+  DistrictReasonCategory,
+  DistrictReasonSubcategory,
+  DistrictReasonCategoryFormData,
+  DistrictDbResponse,
+  DistrictReportAggregatesDbResponse,
+  DistrictReasonCategoryDbResponse,
+  DistrictReasonSubcategoryDbResponse,
+} from './district';
 export type {
   SetupToken,
   SetupTokenDbResponse,
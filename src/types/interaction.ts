@@ -4,12 +4,24 @@ import type { Contact } from './contact';
 import type { ReasonCategory, ReasonSubcategory } from './reason';
 
 // Interaction types
+export type InteractionType = 'student' | 'contact' | 'group';
+
+export interface InteractionParticipant {
+  studentId: string;
+  attended: boolean;
+
+  // Populated relations
+  student?: Student;
+}
+
 export interface Interaction {
   id: string;
   counselorId: string;
   studentId?: string;
   contactId?: string;
   regardingStudentId?: string; // NEW: For contact interactions - which student is this about
+  isGroup: boolean;
+  participants: InteractionParticipant[]; // Group sessions only
   categoryId: string;
   subcategoryId?: string;
   customReason?: string;
@@ -21,6 +33,7 @@ export interface Interaction {
   followUpDate?: Date;
   followUpNotes?: string;
   isFollowUpComplete: boolean;
+  notesDecryptionFailed?: boolean; // Notes are encrypted and could not be decrypted
   createdAt: Date;
   updatedAt: Date;
 
@@ -34,10 +47,11 @@ export interface Interaction {
 }
 
 export interface InteractionFormData {
-  type: 'student' | 'contact';
+  type: InteractionType;
   studentId?: string;
   contactId?: string;
   regardingStudentId?: string; // NEW: For contact interactions - which student is this about
+  participants?: InteractionParticipant[]; // Group sessions only
   categoryId: string;
   subcategoryId?: string;
   customReason?: string;
@@ -49,6 +63,33 @@ export interface InteractionFormData {
   followUpNotes?: string;
 }
 
+// Filters for paginated interaction lists. Dates are YYYY-MM-DD; the whole
+// end day is included.
+export type FollowUpStatusFilter = 'all' | 'pending' | 'overdue' | 'completed';
+
+export interface InteractionListFilters {
+  startDate?: string;
+  endDate?: string;
+  categoryId?: string;
+  studentId?: string; // Direct interactions and group sessions
+  contactId?: string;
+  counselorId?: string;
+  followUpStatus?: FollowUpStatusFilter;
+  search?: string; // Names, category and custom reason; notes are encrypted
+}
+
+// Position after the last interaction of a page, newest first
+export interface InteractionCursor {
+  startTime: string;
+  id: string;
+}
+
+export interface InteractionPage {
+  interactions: Interaction[];
+  nextCursor: InteractionCursor | null;
+  totalCount?: number; // First page only
+}
+
 // Database response types for Supabase
 export interface InteractionDbResponse {
   id: string;
@@ -57,6 +98,8 @@ export interface InteractionDbResponse {
   student_id?: string;
   contact_id?: string;
   regarding_student_id?: string; // NEW: For contact interactions
+  is_group?: boolean;
+  interaction_participants?: InteractionParticipantDbResponse[];
   category_id: string;
   subcategory_id?: string;
   custom_reason?: string;
@@ -70,4 +113,10 @@ export interface InteractionDbResponse {
   is_follow_up_complete: boolean;
   created_at: string;
   updated_at: string;
+  notes_decryption_failed?: boolean; // Set client-side by decryptInteractionRows
+}
+
+export interface InteractionParticipantDbResponse {
+  student_id: string;
+  attended: boolean;
 }
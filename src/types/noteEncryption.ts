@@ -0,0 +1,24 @@
+// Note encryption types
+export interface NoteEncryptionStatus {
+  activeVersion: number | null;
+  activatedAt: Date | null;
+  retiredVersions: number;
+}
+
+export interface NoteKeyRotationResult {
+  version: number;
+  rewrapped: number;
+  encrypted: number;
+  failed: number;
+}
+
+// Database response types for Supabase
+export interface TenantEncryptionKeyDbResponse {
+  id: string;
+  tenant_id: string;
+  version: number;
+  is_active: boolean;
+  created_by?: string;
+  created_at: string;
+  retired_at?: string;
+}
@@ -0,0 +1,38 @@
+// Notification types
+export type NotificationType =
+  | 'FOLLOW_UP_OVERDUE'
+  | 'FOLLOW_UP_ASSIGNED'
+  | 'INVITATION_ACCEPTED'
+  | 'RISK_FLAG_ESCALATED'
+  | 'SECURITY_ALERT';
+
+export interface Notification {
+  id: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  link?: string;
+  sourceId: string;
+  readAt?: Date;
+  createdAt: Date;
+}
+
+// Database response types for Supabase
+export interface NotificationDbResponse {
+  id: string;
+  tenant_id: string;
+  user_id: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  link?: string;
+  source_id: string;
+  read_at?: string;
+  created_at: string;
+}
+
+// Recent notifications plus the total unread count for the bell badge
+export interface NotificationFeed {
+  notifications: Notification[];
+  unreadCount: number;
+}
@@ -4,6 +4,8 @@ export interface ReasonCategory {
   name: string;
   color?: string;
   sortOrder: number;
+  /** Set when the category is a copy of a district template */
+  districtCategoryId?: string;
   createdAt: Date;
   updatedAt: Date;
   subcategories?: ReasonSubcategory[];
@@ -14,6 +16,8 @@ export interface ReasonSubcategory {
   categoryId: string;
   name: string;
   sortOrder: number;
+  /** Set when the subcategory is a copy of a district template */
+  districtSubcategoryId?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -25,6 +29,7 @@ export interface ReasonCategoryDbResponse {
   name: string;
   color?: string;
   sort_order: number;
+  district_category_id?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -34,6 +39,7 @@ export interface ReasonSubcategoryDbResponse {
   category_id: string;
   name: string;
   sort_order: number;
+  district_subcategory_id?: string | null;
   created_at: string;
   updated_at: string;
 }
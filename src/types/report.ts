@@ -0,0 +1,36 @@
+import type { ReportFilters } from './dashboard';
+
+// Saved report types
+export type ReportType = 'volume' | 'frequency' | 'gradeLevel' | 'timeAllocation';
+
+export interface SavedReport {
+  id: string;
+  userId: string;
+  name: string;
+  reportType: ReportType;
+  filters: ReportFilters;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Filters as persisted in the JSONB column (dates serialized as ISO strings)
+export interface SavedReportFiltersDb {
+  startDate: string;
+  endDate: string;
+  gradeLevel?: string;
+  categoryId?: string;
+  counselorId?: string;
+  regardingStudentId?: string;
+}
+
+// Database response types for Supabase
+export interface SavedReportDbResponse {
+  id: string;
+  tenant_id: string;
+  user_id: string;
+  name: string;
+  report_type: ReportType;
+  filters: SavedReportFiltersDb;
+  created_at: string;
+  updated_at: string;
+}
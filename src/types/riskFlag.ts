@@ -0,0 +1,104 @@
+// Student risk flag types
+export type RiskFlagCategory = 'ATTENDANCE' | 'ACADEMIC' | 'BEHAVIORAL' | 'SAFETY';
+
+export type RiskFlagSeverity = 'LOW' | 'MEDIUM' | 'HIGH';
+
+export type RiskFlagAction = 'RAISED' | 'ESCALATED' | 'DOWNGRADED' | 'CLEARED';
+
+export interface SafetyPlan {
+  warningSigns: string;
+  copingStrategies: string;
+  supportContacts: string;
+  guardianNotified: boolean;
+  reviewDate?: string;
+}
+
+export interface RiskFlag {
+  id: string;
+  studentId: string;
+  category: RiskFlagCategory;
+  severity: RiskFlagSeverity;
+  raisedBy?: string;
+  raisedByName?: string;
+  raisedAt: Date;
+  clearedBy?: string;
+  clearedByName?: string;
+  clearedAt?: Date;
+  safetyPlan?: SafetyPlan;
+  safetyPlanDecryptionFailed?: boolean;
+}
+
+export interface RiskFlagEvent {
+  id: string;
+  flagId: string;
+  category: RiskFlagCategory;
+  action: RiskFlagAction;
+  severity: RiskFlagSeverity;
+  note?: string;
+  noteDecryptionFailed?: boolean;
+  actorId?: string;
+  actorName?: string;
+  createdAt: Date;
+}
+
+export interface StudentRiskFlags {
+  flags: RiskFlag[];
+  events: RiskFlagEvent[];
+}
+
+// Raising a flag or changing its severity
+export interface RiskFlagFormData {
+  category: RiskFlagCategory;
+  severity: RiskFlagSeverity;
+  note?: string;
+  safetyPlan?: SafetyPlan;
+}
+
+// Database response types for Supabase
+interface UserNameDbResponse {
+  first_name: string;
+  last_name: string;
+}
+
+export interface SafetyPlanDbResponse {
+  id: string;
+  tenant_id: string;
+  flag_id: string;
+  student_id: string;
+  plan: string;
+  guardian_notified: boolean;
+  review_date?: string | null;
+  created_by?: string | null;
+  updated_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RiskFlagDbResponse {
+  id: string;
+  tenant_id: string;
+  student_id: string;
+  category: RiskFlagCategory;
+  severity: RiskFlagSeverity;
+  raised_by?: string | null;
+  raised_at: string;
+  cleared_by?: string | null;
+  cleared_at?: string | null;
+  created_at: string;
+  updated_at: string;
+  raised_by_user?: UserNameDbResponse | null;
+  cleared_by_user?: UserNameDbResponse | null;
+}
+
+export interface RiskFlagEventDbResponse {
+  id: string;
+  tenant_id: string;
+  flag_id: string;
+  student_id: string;
+  action: RiskFlagAction;
+  severity: RiskFlagSeverity;
+  note?: string | null;
+  actor_id?: string | null;
+  created_at: string;
+  actor?: UserNameDbResponse | null;
+}
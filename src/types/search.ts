@@ -0,0 +1,16 @@
+// Global search types
+export type SearchResultType = 'student' | 'contact' | 'interaction';
+
+export interface SearchResult {
+  id: string;
+  type: SearchResultType;
+  title: string;
+  subtitle?: string;
+  snippet?: string;
+}
+
+export interface GlobalSearchResults {
+  students: SearchResult[];
+  contacts: SearchResult[];
+  interactions: SearchResult[];
+}
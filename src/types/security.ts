@@ -18,7 +18,8 @@ export type SecurityEventType =
   | 'AUTH_FAILURE'
   | 'TOKEN_MANIPULATION'
   | 'DUPLICATE_EMAIL_ATTEMPT'
-  | 'INVALID_TOKEN_ACCESS';
+  | 'INVALID_TOKEN_ACCESS'
+  | 'TENANT_MISMATCH';
 
 export type SecurityEventSeverity = 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
 
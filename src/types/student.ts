@@ -9,6 +9,9 @@ export interface Student {
   phone?: string;
   needsFollowUp: boolean;
   followUpNotes?: string;
+  primaryCounselorId?: string;
+  secondaryCounselorId?: string;
+  archivedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 
@@ -29,6 +32,60 @@ export interface StudentDbResponse {
   phone?: string;
   needs_follow_up: boolean;
   follow_up_notes?: string;
+  primary_counselor_id?: string | null;
+  secondary_counselor_id?: string | null;
+  archived_at?: string;
   created_at: string;
   updated_at: string;
 }
+
+// Result of the year-end grade promotion
+export interface GradePromotionResult {
+  promoted: number;
+  archived: number;
+  skipped: number;
+}
+
+// CSV roster import types
+export type StudentImportField =
+  | 'studentId'
+  | 'firstName'
+  | 'lastName'
+  | 'gradeLevel'
+  | 'email'
+  | 'phone';
+
+// Maps each import field to a CSV column index
+export type StudentImportColumnMapping = Partial<Record<StudentImportField, number>>;
+
+export type StudentImportAction = 'create' | 'update' | 'skip' | 'error';
+
+export interface StudentImportFieldChange {
+  field: StudentImportField;
+  from?: string;
+  to: string;
+}
+
+export interface StudentImportRow {
+  rowNumber: number;
+  action: StudentImportAction;
+  studentId: string;
+  values: Partial<Record<StudentImportField, string>>;
+  existingStudent?: Student;
+  changes: StudentImportFieldChange[];
+  errors: string[];
+}
+
+export interface StudentImportPlan {
+  rows: StudentImportRow[];
+  createCount: number;
+  updateCount: number;
+  skipCount: number;
+  errorCount: number;
+}
+
+export interface StudentImportResult {
+  created: number;
+  updated: number;
+  failed: number;
+}
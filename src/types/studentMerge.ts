@@ -0,0 +1,26 @@
+import type { Student } from './student';
+
+// Student duplicate detection and merge types
+export type DuplicateReason =
+  | 'SAME_NAME'
+  | 'SIMILAR_NAME'
+  | 'SWAPPED_NAME'
+  | 'SAME_EMAIL'
+  | 'SAME_PHONE';
+
+// A pair of students that may be the same child; higher scores are more likely
+export interface DuplicateCandidate {
+  student: Student;
+  other: Student;
+  reasons: DuplicateReason[];
+  score: number;
+}
+
+// Database response types for Supabase
+export interface DuplicateDismissalDbResponse {
+  tenant_id: string;
+  student_id: string;
+  other_student_id: string;
+  dismissed_by?: string | null;
+  dismissed_at: string;
+}
@@ -1,12 +1,28 @@
 // Tenant types
+export type DateFormat = 'MM/DD/YYYY' | 'DD/MM/YYYY' | 'YYYY-MM-DD';
+
+export type LandingPage =
+  | '/dashboard'
+  | '/interactions'
+  | '/calendar'
+  | '/students'
+  | '/contacts'
+  | '/reports';
+
 export interface Tenant {
   id: string;
   name: string;
   subdomain: string;
+  districtId?: string;
+  logoUrl?: string;
+  primaryColor?: string;
+  defaultLandingPage: LandingPage;
+  dateFormat: DateFormat;
   contactPhone?: string;
   contactAddress?: string;
   contactEmail?: string;
   contactPersonName?: string;
+  digestIncludeSurnames: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -16,10 +32,58 @@ export interface TenantDbResponse {
   id: string;
   name: string;
   subdomain: string;
+  district_id?: string | null;
+  logo_url?: string | null;
+  primary_color?: string | null;
+  default_landing_page: LandingPage;
+  date_format: DateFormat;
   contact_phone?: string;
   contact_address?: string;
   contact_email?: string;
   contact_person_name?: string;
+  digest_include_surnames: boolean;
   created_at: string;
   updated_at: string;
 }
+
+// The tenant served on the current hostname, as shown before sign-in
+export interface HostTenant {
+  id: string;
+  name: string;
+  subdomain: string;
+  logoUrl?: string;
+  primaryColor?: string;
+}
+
+export interface HostTenantDbResponse {
+  id: string;
+  name: string;
+  subdomain: string;
+  logo_url: string | null;
+  primary_color: string | null;
+}
+
+// Look and display preferences of the signed-in user's tenant
+export interface TenantBranding {
+  tenantName: string;
+  logoUrl?: string;
+  /** Hex color, e.g. #0ea5e9; the app default when unset */
+  primaryColor?: string;
+  defaultLandingPage: LandingPage;
+  dateFormat: DateFormat;
+}
+
+export interface TenantBrandingFormData {
+  logoUrl?: string;
+  primaryColor?: string;
+  defaultLandingPage: LandingPage;
+  dateFormat: DateFormat;
+}
+
+export interface TenantBrandingDbResponse {
+  name: string;
+  logo_url: string | null;
+  primary_color: string | null;
+  default_landing_page: LandingPage;
+  date_format: DateFormat;
+}
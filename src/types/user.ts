@@ -1,5 +1,5 @@
 // User types
-export type UserRole = 'ADMIN' | 'COUNSELOR';
+export type UserRole = 'ADMIN' | 'COUNSELOR' | 'DISTRICT_ADMIN';
 
 export interface User {
   id: string;
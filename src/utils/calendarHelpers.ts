@@ -1,5 +1,11 @@
 import type { Interaction } from '@/types/interaction';
+import type { Appointment, AppointmentFormData } from '@/types/appointment';
+import type { Student } from '@/types/student';
+import type { Contact } from '@/types/contact';
+import type { ReasonCategory } from '@/types/reason';
 import type { EventInput } from '@fullcalendar/core';
+import { formatDateTimeForInput } from './dateHelpers';
+import { getInitials } from './nameHelpers';
 
 /**
  * Get CSS class for event based on category name
@@ -43,7 +49,9 @@ export function transformInteractionsToEvents(interactions: Interaction[]): Even
 
     // Determine the title based on whether it's a student or contact interaction
     let title = '';
-    if (interaction.student) {
+    if (interaction.isGroup) {
+      title = `Group session (${interaction.participants.length})`;
+    } else if (interaction.student) {
       title = `${interaction.student.firstName} ${interaction.student.lastName}`;
     } else if (interaction.contact) {
       title = `${interaction.contact.firstName} ${interaction.contact.lastName}`;
@@ -78,3 +86,243 @@ export function transformInteractionsToEvents(interactions: Interaction[]): Even
     };
   });
 }
+
+/**
+ * Transform scheduled appointments into FullCalendar "planned" events.
+ * Held and cancelled appointments are left out (held ones appear as interactions).
+ */
+export function transformAppointmentsToEvents(
+  appointments: Appointment[],
+  students: Student[],
+  contacts: Contact[],
+  categories: ReasonCategory[]
+): EventInput[] {
+  return appointments
+    .filter(appointment => appointment.status === 'SCHEDULED')
+    .map(appointment => {
+      const student = students.find(s => s.id === appointment.studentId);
+      const contact = contacts.find(c => c.id === appointment.contactId);
+      const regardingStudent = students.find(s => s.id === appointment.regardingStudentId);
+      const category = categories.find(c => c.id === appointment.categoryId);
+      const categoryName = category?.name || 'Other';
+      const color = getCategoryColor(categoryName, category?.color);
+
+      const studentName = student ? `${student.firstName} ${student.lastName}` : undefined;
+      const contactName = contact ? `${contact.firstName} ${contact.lastName}` : undefined;
+
+      return {
+        id: `appointment-${appointment.id}`,
+        title: `${studentName || contactName || 'Unknown'} - ${categoryName}`,
+        start: appointment.startTime,
+        end: appointment.endTime,
+        backgroundColor: '#ffffff',
+        borderColor: color,
+        textColor: color,
+        className: 'event-planned',
+        extendedProps: {
+          appointment: { ...appointment, student, contact, category },
+          isPlanned: true,
+          isRecurring: appointment.recurrence.frequency !== 'NONE',
+          categoryName,
+          studentName,
+          contactName,
+          regardingStudentName: regardingStudent
+            ? `${regardingStudent.firstName} ${regardingStudent.lastName}`
+            : undefined,
+          durationMinutes: appointment.durationMinutes,
+          notes: appointment.notes,
+        },
+      };
+    });
+}
+
+/**
+ * Build appointment form values from an existing appointment occurrence
+ */
+export function appointmentToFormData(appointment: Appointment): AppointmentFormData {
+  return {
+    type: appointment.studentId ? 'student' : 'contact',
+    studentId: appointment.studentId,
+    contactId: appointment.contactId,
+    regardingStudentId: appointment.regardingStudentId,
+    categoryId: appointment.categoryId,
+    subcategoryId: appointment.subcategoryId,
+    startTime: formatDateTimeForInput(appointment.startTime),
+    durationMinutes: appointment.durationMinutes,
+    notes: appointment.notes,
+    frequency: appointment.recurrence.frequency,
+    untilDate: appointment.recurrence.untilDate,
+    occurrenceCount: appointment.recurrence.occurrenceCount,
+  };
+}
+
+// ============================================================================
+// ICALENDAR (RFC 5545) EXPORT
+// ============================================================================
+
+// Must match the product identifier used by the calendar_feed database function
+const ICS_PRODUCT_ID = '-//CounselorLedger//Counselor Calendar//EN';
+const ICS_UID_DOMAIN = 'counselorledger';
+
+export interface IcsExportOptions {
+  calendarName?: string;
+  // Show students as initials so names are not stored in external calendar clients
+  redactStudentNames?: boolean;
+}
+
+/**
+ * Escape a value for use in an iCalendar TEXT property
+ */
+function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line so no line is longer than 75 octets
+ */
+function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts toward the limit
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+/**
+ * Format a date as an iCalendar UTC date-time (e.g. 20240115T143000Z)
+ */
+function formatIcsDateTime(date: Date | string): string {
+  return new Date(date)
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+/**
+ * Format a date as an iCalendar DATE value (e.g. 20240115) using the UTC calendar day
+ */
+function formatIcsDate(date: Date | string): string {
+  return new Date(date).toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+function formatIcsPersonName(
+  person: { firstName: string; lastName: string },
+  redact: boolean
+): string {
+  return redact
+    ? getInitials(person.firstName, person.lastName)
+    : `${person.firstName} ${person.lastName}`;
+}
+
+/**
+ * Build the event summary for an interaction, e.g. "Jane Doe - Academic" or
+ * "Mary Smith (re: JD) - Behavioral" when student names are redacted
+ */
+function getInteractionIcsSummary(interaction: Interaction, redact: boolean): string {
+  const categoryName = interaction.category?.name || 'Other';
+
+  if (interaction.isGroup) {
+    return `Group session (${interaction.participants.length}) - ${categoryName}`;
+  }
+
+  if (interaction.student) {
+    return `${formatIcsPersonName(interaction.student, redact)} - ${categoryName}`;
+  }
+
+  if (interaction.contact) {
+    const contactName = formatIcsPersonName(interaction.contact, false);
+    const regarding = interaction.regardingStudent
+      ? ` (re: ${formatIcsPersonName(interaction.regardingStudent, redact)})`
+      : '';
+    return `${contactName}${regarding} - ${categoryName}`;
+  }
+
+  return `Unknown - ${categoryName}`;
+}
+
+/**
+ * Generate an iCalendar (.ics) document for interactions and their open follow-ups.
+ * Interactions become timed events; pending follow-ups become all-day events on
+ * the follow-up date. Notes are never included since they leave the application.
+ * @param {Interaction[]} interactions - Interactions with populated relations
+ * @param {IcsExportOptions} options - Calendar name and name redaction
+ * @returns {string} iCalendar document with CRLF line endings
+ * @example
+ * const ics = generateInteractionsIcs(interactions, { redactStudentNames: true });
+ */
+export function generateInteractionsIcs(
+  interactions: Interaction[],
+  options: IcsExportOptions = {}
+): string {
+  const { calendarName = 'Counseling Schedule', redactStudentNames = false } = options;
+  const timestamp = formatIcsDateTime(new Date());
+
+  const lines: string[] = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${ICS_PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(calendarName)}`,
+  ];
+
+  interactions.forEach(interaction => {
+    const summary = getInteractionIcsSummary(interaction, redactStudentNames);
+    const reason = interaction.subcategory?.name || interaction.customReason;
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:interaction-${interaction.id}@${ICS_UID_DOMAIN}`,
+      `DTSTAMP:${timestamp}`,
+      `DTSTART:${formatIcsDateTime(interaction.startTime)}`,
+      `DTEND:${formatIcsDateTime(interaction.endTime)}`,
+      `SUMMARY:${escapeIcsText(summary)}`
+    );
+    if (reason) {
+      lines.push(`DESCRIPTION:${escapeIcsText(`Reason: ${reason}`)}`);
+    }
+    if (interaction.category?.name) {
+      lines.push(`CATEGORIES:${escapeIcsText(interaction.category.name)}`);
+    }
+    lines.push('END:VEVENT');
+
+    if (interaction.needsFollowUp && interaction.followUpDate && !interaction.isFollowUpComplete) {
+      const followUpDay = new Date(interaction.followUpDate);
+      const nextDay = new Date(followUpDay.getTime() + 24 * 60 * 60 * 1000);
+
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:follow-up-${interaction.id}@${ICS_UID_DOMAIN}`,
+        `DTSTAMP:${timestamp}`,
+        `DTSTART;VALUE=DATE:${formatIcsDate(followUpDay)}`,
+        `DTEND;VALUE=DATE:${formatIcsDate(nextDay)}`,
+        `SUMMARY:${escapeIcsText(`Follow-up: ${summary}`)}`,
+        'TRANSP:TRANSPARENT',
+        'END:VEVENT'
+      );
+    }
+  });
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
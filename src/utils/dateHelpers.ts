@@ -3,13 +3,29 @@
  * @module dateHelpers
  */
 
+import type { DateFormat } from '@/types/tenant';
+
+// The tenant's choice for short dates, set once its branding loads
+let shortDateFormat: DateFormat = 'MM/DD/YYYY';
+
+/**
+ * Set how short dates are written across the app
+ * @param {DateFormat} format - The tenant's date format
+ * @example
+ * setDateFormat('DD/MM/YYYY');
+ * formatDate(new Date(2024, 0, 15)) // "15/01/2024"
+ */
+export function setDateFormat(format: DateFormat): void {
+  shortDateFormat = format;
+}
+
 /**
  * Format a date for display in various formats
  * @param {Date | string} date - The date to format (Date object or ISO string)
  * @param {'short' | 'long' | 'full'} format - The format style to use
  * @returns {string} Formatted date string
  * @example
- * formatDate(new Date(), 'short') // "01/15/2024"
+ * formatDate(new Date(), 'short') // "01/15/2024", or as set by setDateFormat
  * formatDate(new Date(), 'long') // "January 15, 2024"
  * formatDate(new Date(), 'full') // "Monday, January 15, 2024"
  */
@@ -24,13 +40,20 @@ export function formatDate(
   }
 
   switch (format) {
-    case 'short':
-      // MM/DD/YYYY
-      return new Intl.DateTimeFormat('en-US', {
-        month: '2-digit',
-        day: '2-digit',
-        year: 'numeric',
-      }).format(dateObj);
+    case 'short': {
+      const day = String(dateObj.getDate()).padStart(2, '0');
+      const month = String(dateObj.getMonth() + 1).padStart(2, '0');
+      const year = String(dateObj.getFullYear());
+
+      switch (shortDateFormat) {
+        case 'DD/MM/YYYY':
+          return `${day}/${month}/${year}`;
+        case 'YYYY-MM-DD':
+          return `${year}-${month}-${day}`;
+        default:
+          return `${month}/${day}/${year}`;
+      }
+    }
 
     case 'long':
       // January 1, 2024
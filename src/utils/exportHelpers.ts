@@ -4,6 +4,9 @@
  * Run: npm install jspdf html2canvas
  */
 
+import { formatDate } from './dateHelpers';
+import type { TenantBranding } from '@/types/tenant';
+
 /**
  * Escape CSV value to handle special characters
  */
@@ -82,11 +85,44 @@ export function exportToCSVWithMapping(
   exportToCSV(transformedData, filename, headers);
 }
 
+const PDF_HEADER_HEIGHT = 20; // mm
+
+// The formats tenant logos are uploaded in
+const PDF_IMAGE_FORMATS: Record<string, string> = {
+  'image/png': 'PNG',
+  'image/jpeg': 'JPEG',
+  'image/webp': 'WEBP',
+};
+
+/**
+ * Load an image as a data URL for jsPDF; null when it can't be drawn
+ */
+async function loadPdfImage(url: string): Promise<{ dataUrl: string; format: string } | null> {
+  try {
+    const response = await fetch(url);
+    const blob = await response.blob();
+    const format = PDF_IMAGE_FORMATS[blob.type];
+    if (!response.ok || !format) return null;
+
+    const dataUrl = await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+    return { dataUrl, format };
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Export element to PDF
  * Requires jsPDF and html2canvas
+ * @param branding - When given, the first page starts with the tenant's logo,
+ * name and color
  */
-export async function exportToPDF(elementId: string, filename: string) {
+export async function exportToPDF(elementId: string, filename: string, branding?: TenantBranding) {
   try {
     // Dynamic imports to avoid errors if libraries aren't installed
     const html2canvas = (await import('html2canvas')).default;
@@ -115,14 +151,37 @@ export async function exportToPDF(elementId: string, filename: string) {
     const imgWidth = 210; // A4 width in mm
     const pageHeight = 297; // A4 height in mm
     const imgHeight = (canvas.height * imgWidth) / canvas.width;
+    const headerHeight = branding ? PDF_HEADER_HEIGHT : 0;
     let heightLeft = imgHeight;
     let position = 0;
 
-    // Add first page
-    pdf.addImage(imgData, 'PNG', 0, position, imgWidth, imgHeight);
-    heightLeft -= pageHeight;
+    if (branding) {
+      const color = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(branding.primaryColor ?? '');
+      if (color) {
+        const [r, g, b] = color.slice(1).map(part => parseInt(part, 16));
+        pdf.setFillColor(r, g, b);
+        pdf.rect(0, 0, imgWidth, 3, 'F');
+      }
+
+      const logo = branding.logoUrl ? await loadPdfImage(branding.logoUrl) : null;
+      if (logo) {
+        const props = pdf.getImageProperties(logo.dataUrl);
+        const logoHeight = 10;
+        const logoWidth = Math.min((props.width * logoHeight) / props.height, 40);
+        pdf.addImage(logo.dataUrl, logo.format, 10, 6, logoWidth, logoHeight);
+        pdf.setFontSize(14);
+        pdf.text(branding.tenantName, 14 + logoWidth, 13);
+      } else {
+        pdf.setFontSize(14);
+        pdf.text(branding.tenantName, 10, 13);
+      }
+    }
 
-    // Add additional pages if needed
+    // Add first page, below the header
+    pdf.addImage(imgData, 'PNG', 0, headerHeight, imgWidth, imgHeight);
+    heightLeft -= pageHeight - headerHeight;
+
+    // Add additional pages if needed, each continuing where the last ended
     while (heightLeft > 0) {
       position = heightLeft - imgHeight;
       pdf.addPage();
@@ -145,11 +204,7 @@ export async function exportToPDF(elementId: string, filename: string) {
  * Format date for export
  */
 export function formatDateForExport(date: Date): string {
-  return new Intl.DateTimeFormat('en-US', {
-    year: 'numeric',
-    month: '2-digit',
-    day: '2-digit',
-  }).format(date);
+  return formatDate(date, 'short');
 }
 
 /**
@@ -191,6 +246,14 @@ export function exportToJSON(data: any, filename: string) {
   downloadBlob(blob, `${filename}.json`);
 }
 
+/**
+ * Export an iCalendar document as a .ics file
+ */
+export function exportToICS(icsContent: string, filename: string) {
+  const blob = new Blob([icsContent], { type: 'text/calendar;charset=utf-8;' });
+  downloadBlob(blob, `${filename}.ics`);
+}
+
 /**
  * Export table element to CSV
  */
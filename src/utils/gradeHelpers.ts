@@ -0,0 +1,82 @@
+/**
+ * Grade level utility functions for year-end promotion
+ * @module gradeHelpers
+ */
+
+import { gradeLevelSchema } from '@/schemas/student';
+import type { Student } from '@/types/student';
+
+const GRADE_ORDER: readonly string[] = gradeLevelSchema.options;
+
+/**
+ * Get the grade a student moves to at year end
+ * @param {string} gradeLevel - The current grade level
+ * @returns {string | null} The next grade level, or null for the final grade or an unknown grade
+ * @example
+ * getNextGradeLevel('9th Grade') // "10th Grade"
+ * getNextGradeLevel('12th Grade') // null
+ */
+export function getNextGradeLevel(gradeLevel: string): string | null {
+  const index = GRADE_ORDER.indexOf(gradeLevel);
+  if (index === -1 || index === GRADE_ORDER.length - 1) {
+    return null;
+  }
+  return GRADE_ORDER[index + 1];
+}
+
+/**
+ * Check whether a grade level is the final grade (students graduate instead of promoting)
+ * @param {string} gradeLevel - The grade level to check
+ * @returns {boolean} True for the last grade in the enum order
+ * @example
+ * isGraduatingGrade('12th Grade') // true
+ */
+export function isGraduatingGrade(gradeLevel: string): boolean {
+  return gradeLevel === GRADE_ORDER[GRADE_ORDER.length - 1];
+}
+
+/**
+ * Check whether a student has been archived
+ * @param {Student} student - The student to check
+ * @returns {boolean} True if the student is archived
+ */
+export function isArchivedStudent(student: Student): boolean {
+  return !!student.archivedAt;
+}
+
+/**
+ * Preview the effect of a grade promotion on active students, grouped by current grade
+ * @param {Student[]} students - Students to preview (archived students are ignored)
+ * @returns Rows in grade order plus totals that mirror the promote_student_grades function
+ * @example
+ * const { rows, promoted, archived } = previewGradePromotion(students);
+ */
+export function previewGradePromotion(students: Student[]): {
+  rows: { gradeLevel: string; nextGradeLevel: string | null; count: number }[];
+  promoted: number;
+  archived: number;
+  skipped: number;
+} {
+  const counts = new Map<string, number>();
+  students
+    .filter(student => !isArchivedStudent(student))
+    .forEach(student => {
+      counts.set(student.gradeLevel, (counts.get(student.gradeLevel) || 0) + 1);
+    });
+
+  const rows = GRADE_ORDER.filter(grade => counts.has(grade)).map(grade => ({
+    gradeLevel: grade,
+    nextGradeLevel: getNextGradeLevel(grade),
+    count: counts.get(grade) || 0,
+  }));
+
+  const archived = rows
+    .filter(row => isGraduatingGrade(row.gradeLevel))
+    .reduce((sum, row) => sum + row.count, 0);
+  const promoted = rows.filter(row => row.nextGradeLevel).reduce((sum, row) => sum + row.count, 0);
+  const skipped = Array.from(counts.entries())
+    .filter(([grade]) => !GRADE_ORDER.includes(grade))
+    .reduce((sum, [, count]) => sum + count, 0);
+
+  return { rows, promoted, archived, skipped };
+}
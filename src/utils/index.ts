@@ -9,6 +9,9 @@ export * from './dateHelpers';
 // Name formatting utilities
 export * from './nameHelpers';
 
+// Grade level utilities
+export * from './gradeHelpers';
+
 // Report and data aggregation utilities
 export * from './reportHelpers';
 
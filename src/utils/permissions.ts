@@ -13,6 +13,10 @@ export function isCounselor(user: User | null): boolean {
   return hasRole(user, ['COUNSELOR']);
 }
 
+export function isDistrictAdmin(user: User | null): boolean {
+  return hasRole(user, ['DISTRICT_ADMIN']);
+}
+
 export function canAccessAdminFeatures(user: User | null): boolean {
   return isAdmin(user);
 }
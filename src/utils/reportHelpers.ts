@@ -3,6 +3,55 @@
  */
 
 import type { Interaction } from '@/types/interaction';
+import type { Student } from '@/types/student';
+import type { ReportFilters } from '@/types/dashboard';
+
+/**
+ * Students credited with an interaction: the student of a direct interaction,
+ * or the participants of a group session who attended
+ */
+export function getCreditedStudents(
+  interaction: Interaction
+): Array<{ studentId: string; student?: Student }> {
+  if (interaction.isGroup) {
+    return (interaction.participants || [])
+      .filter(participant => participant.attended)
+      .map(({ studentId, student }) => ({ studentId, student }));
+  }
+
+  return interaction.studentId
+    ? [{ studentId: interaction.studentId, student: interaction.student }]
+    : [];
+}
+
+/**
+ * Grade level an interaction is reported under, or undefined when no student is
+ * credited. Group sessions spanning several grades are reported as "Mixed" so
+ * their minutes are only counted once.
+ */
+export function getInteractionGradeLevel(interaction: Interaction): string | undefined {
+  const gradeLevels = new Set(
+    getCreditedStudents(interaction).map(({ student }) => student?.gradeLevel || 'Unknown')
+  );
+
+  if (gradeLevels.size === 0) return undefined;
+  return gradeLevels.size === 1 ? [...gradeLevels][0] : 'Mixed';
+}
+
+/**
+ * Order grade levels for reports: numerically where both are numbered grades,
+ * otherwise alphabetically
+ */
+export function compareGradeLevels(a: string, b: string): number {
+  const aNum = parseInt(a);
+  const bNum = parseInt(b);
+
+  if (!isNaN(aNum) && !isNaN(bNum)) {
+    return aNum - bNum;
+  }
+
+  return a.localeCompare(b);
+}
 
 /**
  * Group interactions by a specific field
@@ -28,7 +77,8 @@ export function groupBy<T>(
 }
 
 /**
- * Calculate total duration from interactions
+ * Calculate total duration from interactions. Group sessions count once, so
+ * this is the counselor's time rather than the sum of student time.
  */
 export function calculateTotalDuration(interactions: Interaction[]): number {
   return interactions.reduce((total, interaction) => {
@@ -40,7 +90,9 @@ export function calculateTotalDuration(interactions: Interaction[]): number {
  * Count unique students from interactions
  */
 export function countUniqueStudents(interactions: Interaction[]): number {
-  const uniqueStudentIds = new Set(interactions.filter(i => i.studentId).map(i => i.studentId));
+  const uniqueStudentIds = new Set(
+    interactions.flatMap(i => getCreditedStudents(i).map(({ studentId }) => studentId))
+  );
 
   return uniqueStudentIds.size;
 }
@@ -129,7 +181,7 @@ export function groupByGradeLevel(interactions: Interaction[]): Array<{
   >();
 
   interactions.forEach(interaction => {
-    const gradeLevel = interaction.student?.gradeLevel || 'Unknown';
+    const gradeLevel = getInteractionGradeLevel(interaction) || 'Unknown';
 
     const existing = gradeMap.get(gradeLevel);
 
@@ -153,21 +205,12 @@ export function groupByGradeLevel(interactions: Interaction[]): Array<{
       percentage: Math.round((data.count / total) * 100),
       totalDuration: data.totalDuration,
     }))
-    .sort((a, b) => {
-      // Sort by grade level numerically if possible
-      const aNum = parseInt(a.gradeLevel);
-      const bNum = parseInt(b.gradeLevel);
-
-      if (!isNaN(aNum) && !isNaN(bNum)) {
-        return aNum - bNum;
-      }
-
-      return a.gradeLevel.localeCompare(b.gradeLevel);
-    });
+    .sort((a, b) => compareGradeLevels(a.gradeLevel, b.gradeLevel));
 }
 
 /**
- * Calculate student frequency (students seen most often)
+ * Calculate student frequency (students seen most often). Each attended group
+ * participant is credited with the full session.
  */
 export function calculateStudentFrequency(interactions: Interaction[]): Array<{
   studentId: string;
@@ -188,25 +231,26 @@ export function calculateStudentFrequency(interactions: Interaction[]): Array<{
   >();
 
   interactions.forEach(interaction => {
-    if (!interaction.studentId || !interaction.student) {
-      return;
-    }
-
-    const studentId = interaction.studentId;
-    const existing = studentMap.get(studentId);
+    getCreditedStudents(interaction).forEach(({ studentId, student }) => {
+      if (!student) {
+        return;
+      }
 
-    if (existing) {
-      existing.interactionCount++;
-      existing.totalDuration += interaction.durationMinutes || 0;
-    } else {
-      studentMap.set(studentId, {
-        studentId,
-        studentName: `${interaction.student.firstName} ${interaction.student.lastName}`,
-        gradeLevel: interaction.student.gradeLevel || 'Unknown',
-        interactionCount: 1,
-        totalDuration: interaction.durationMinutes || 0,
-      });
-    }
+      const existing = studentMap.get(studentId);
+
+      if (existing) {
+        existing.interactionCount++;
+        existing.totalDuration += interaction.durationMinutes || 0;
+      } else {
+        studentMap.set(studentId, {
+          studentId,
+          studentName: `${student.firstName} ${student.lastName}`,
+          gradeLevel: student.gradeLevel || 'Unknown',
+          interactionCount: 1,
+          totalDuration: interaction.durationMinutes || 0,
+        });
+      }
+    });
   });
 
   return Array.from(studentMap.values()).sort((a, b) => b.interactionCount - a.interactionCount);
@@ -288,7 +332,7 @@ export function calculateTimeAllocationByGrade(interactions: Interaction[]): Arr
   let totalMinutes = 0;
 
   interactions.forEach(interaction => {
-    const gradeLevel = interaction.student?.gradeLevel || 'Unknown';
+    const gradeLevel = getInteractionGradeLevel(interaction) || 'Unknown';
     const duration = interaction.durationMinutes || 0;
 
     totalMinutes += duration;
@@ -313,21 +357,12 @@ export function calculateTimeAllocationByGrade(interactions: Interaction[]): Arr
       percentage: totalMinutes > 0 ? Math.round((data.totalMinutes / totalMinutes) * 100) : 0,
       interactionCount: data.interactionCount,
     }))
-    .sort((a, b) => {
-      // Sort by grade level numerically if possible
-      const aNum = parseInt(a.gradeLevel);
-      const bNum = parseInt(b.gradeLevel);
-
-      if (!isNaN(aNum) && !isNaN(bNum)) {
-        return aNum - bNum;
-      }
-
-      return a.gradeLevel.localeCompare(b.gradeLevel);
-    });
+    .sort((a, b) => compareGradeLevels(a.gradeLevel, b.gradeLevel));
 }
 
 /**
- * Calculate top students by time spent
+ * Calculate top students by time spent, crediting each attended group
+ * participant with the full session
  */
 export function calculateTopStudentsByTime(
   interactions: Interaction[],
@@ -351,26 +386,28 @@ export function calculateTopStudentsByTime(
   >();
 
   interactions.forEach(interaction => {
-    if (!interaction.studentId || !interaction.student) {
-      return;
-    }
-
-    const studentId = interaction.studentId;
     const duration = interaction.durationMinutes || 0;
-    const existing = studentMap.get(studentId);
 
-    if (existing) {
-      existing.totalMinutes += duration;
-      existing.interactionCount++;
-    } else {
-      studentMap.set(studentId, {
-        studentId,
-        studentName: `${interaction.student.firstName} ${interaction.student.lastName}`,
-        gradeLevel: interaction.student.gradeLevel || 'Unknown',
-        totalMinutes: duration,
-        interactionCount: 1,
-      });
-    }
+    getCreditedStudents(interaction).forEach(({ studentId, student }) => {
+      if (!student) {
+        return;
+      }
+
+      const existing = studentMap.get(studentId);
+
+      if (existing) {
+        existing.totalMinutes += duration;
+        existing.interactionCount++;
+      } else {
+        studentMap.set(studentId, {
+          studentId,
+          studentName: `${student.firstName} ${student.lastName}`,
+          gradeLevel: student.gradeLevel || 'Unknown',
+          totalMinutes: duration,
+          interactionCount: 1,
+        });
+      }
+    });
   });
 
   return Array.from(studentMap.values())
@@ -405,7 +442,8 @@ export function filterByDateRange(
 }
 
 /**
- * Filter interactions by grade level
+ * Filter interactions by grade level. Group sessions match when any attended
+ * participant is in one of the grades.
  */
 export function filterByGradeLevel(
   interactions: Interaction[],
@@ -415,10 +453,11 @@ export function filterByGradeLevel(
     return interactions;
   }
 
-  return interactions.filter(interaction => {
-    const gradeLevel = interaction.student?.gradeLevel;
-    return gradeLevel && gradeLevels.includes(gradeLevel);
-  });
+  return interactions.filter(interaction =>
+    getCreditedStudents(interaction).some(
+      ({ student }) => student?.gradeLevel && gradeLevels.includes(student.gradeLevel)
+    )
+  );
 }
 
 /**
@@ -453,6 +492,46 @@ export function filterByCounselor(
   });
 }
 
+/**
+ * Filter interactions by the student a contact interaction was about
+ */
+export function filterByRegardingStudent(
+  interactions: Interaction[],
+  studentId?: string
+): Interaction[] {
+  if (!studentId) {
+    return interactions;
+  }
+
+  return interactions.filter(interaction => interaction.regardingStudentId === studentId);
+}
+
+/**
+ * End of a report's date range. The whole end day is included so "today"
+ * covers interactions logged later today.
+ */
+export function getEndOfReportRange(filters: ReportFilters): Date {
+  const endOfRange = new Date(filters.endDate);
+  endOfRange.setHours(23, 59, 59, 999);
+  return endOfRange;
+}
+
+/**
+ * Apply a full ReportFilters set (date range, grade, category, counselor, regarding student)
+ */
+export function applyReportFilters(
+  interactions: Interaction[],
+  filters: ReportFilters
+): Interaction[] {
+  let filtered = filterByDateRange(interactions, filters.startDate, getEndOfReportRange(filters));
+  filtered = filterByGradeLevel(filtered, filters.gradeLevel ? [filters.gradeLevel] : []);
+  filtered = filterByCategory(filtered, filters.categoryId ? [filters.categoryId] : []);
+  filtered = filterByCounselor(filtered, filters.counselorId ? [filters.counselorId] : []);
+  filtered = filterByRegardingStudent(filtered, filters.regardingStudentId);
+
+  return filtered;
+}
+
 /**
  * Calculate trend data over time (by day, week, or month)
  */
@@ -0,0 +1,73 @@
+/**
+ * Email transports used by the email worker
+ *
+ * EMAIL_TRANSPORT selects the transport: 'smtp' (default) sends through the
+ * SMTP_* settings, 'log' prints emails to the function logs for local work.
+ */
+
+import { getSmtpConfig, sendSmtpMail, SmtpError } from './smtp.ts';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  htmlBody: string;
+  textBody: string;
+}
+
+export interface EmailSendResult {
+  success: boolean;
+  messageId?: string;
+  error?: string;
+  /** The recipient or message was rejected outright; retrying will not help */
+  permanent?: boolean;
+}
+
+export interface EmailTransport {
+  /** Recorded with each delivery, e.g. 'smtp' */
+  readonly name: string;
+  send(message: EmailMessage): Promise<EmailSendResult>;
+}
+
+export class SmtpEmailTransport implements EmailTransport {
+  readonly name = 'smtp';
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    try {
+      const result = await sendSmtpMail(getSmtpConfig(), {
+        to: message.to,
+        subject: message.subject,
+        text: message.textBody,
+        html: message.htmlBody,
+      });
+
+      return { success: true, messageId: result.messageId };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'SMTP delivery failed',
+        permanent: error instanceof SmtpError && error.permanent,
+      };
+    }
+  }
+}
+
+export class LogEmailTransport implements EmailTransport {
+  readonly name = 'log';
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    console.log('=== EMAIL ===');
+    console.log(`To: ${message.to}`);
+    console.log(`Subject: ${message.subject}`);
+    console.log('--- Text Body ---');
+    console.log(message.textBody);
+    console.log('=== END EMAIL ===');
+
+    return { success: true, messageId: `log-${crypto.randomUUID()}` };
+  }
+}
+
+export function createEmailTransport(): EmailTransport {
+  return Deno.env.get('EMAIL_TRANSPORT') === 'log'
+    ? new LogEmailTransport()
+    : new SmtpEmailTransport();
+}
@@ -0,0 +1,239 @@
+/**
+ * Minimal SMTP client
+ *
+ * Sends a single multipart (text + HTML) message per connection. Supports
+ * implicit TLS, STARTTLS and plain connections (for local mail sinks such as
+ * Mailpit), and AUTH PLAIN.
+ */
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: 'tls' | 'starttls' | 'none';
+  username?: string;
+  password?: string;
+  from: string;
+  timeoutMs: number;
+}
+
+export interface SmtpMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface SmtpSendResult {
+  messageId: string;
+  response: string;
+}
+
+/**
+ * Error carrying the SMTP reply code. 5xx replies are permanent: retrying
+ * the same message will not succeed.
+ */
+export class SmtpError extends Error {
+  code: number;
+
+  constructor(code: number, message: string) {
+    super(message);
+    this.name = 'SmtpError';
+    this.code = code;
+  }
+
+  get permanent(): boolean {
+    return this.code >= 500;
+  }
+}
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Read the configuration from environment variables
+ */
+export function getSmtpConfig(): SmtpConfig {
+  const host = Deno.env.get('SMTP_HOST');
+  const from = Deno.env.get('SMTP_FROM');
+  if (!host || !from) {
+    throw new Error('SMTP_HOST and SMTP_FROM must be set');
+  }
+
+  const secure = (Deno.env.get('SMTP_SECURE') || 'starttls') as SmtpConfig['secure'];
+
+  return {
+    host,
+    port: Number(Deno.env.get('SMTP_PORT') || (secure === 'tls' ? 465 : 587)),
+    secure,
+    username: Deno.env.get('SMTP_USER') || undefined,
+    password: Deno.env.get('SMTP_PASS') || undefined,
+    from,
+    timeoutMs: Number(Deno.env.get('SMTP_TIMEOUT_MS') || 30000),
+  };
+}
+
+/**
+ * Deliver a message to the configured SMTP server
+ */
+export async function sendSmtpMail(
+  config: SmtpConfig,
+  message: SmtpMessage
+): Promise<SmtpSendResult> {
+  let conn: Deno.Conn =
+    config.secure === 'tls'
+      ? await Deno.connectTls({ hostname: config.host, port: config.port })
+      : await Deno.connect({ hostname: config.host, port: config.port });
+
+  const timer = setTimeout(() => conn.close(), config.timeoutMs);
+  let buffer = '';
+
+  const readReply = async (): Promise<SmtpReply> => {
+    const chunk = new Uint8Array(4096);
+    for (;;) {
+      // A reply ends with a line whose code is followed by a space
+      const lines = buffer.split('\r\n');
+      const lastIndex = lines.findIndex(line => /^\d{3}( |$)/.test(line));
+      if (lastIndex !== -1 && lastIndex < lines.length - 1) {
+        const replyLines = lines.slice(0, lastIndex + 1);
+        buffer = lines.slice(lastIndex + 1).join('\r\n');
+        return {
+          code: Number(replyLines[lastIndex].slice(0, 3)),
+          text: replyLines.map(line => line.slice(4)).join(' '),
+        };
+      }
+
+      const read = await conn.read(chunk);
+      if (read === null) {
+        throw new Error('SMTP connection closed unexpectedly');
+      }
+      buffer += decoder.decode(chunk.subarray(0, read));
+    }
+  };
+
+  const command = async (line: string, expected: number[]): Promise<SmtpReply> => {
+    await write(conn, `${line}\r\n`);
+    return expectReply(await readReply(), expected);
+  };
+
+  try {
+    expectReply(await readReply(), [220]);
+
+    const heloName = new URL(`smtp://${config.from.split('@')[1] || 'localhost'}`).hostname;
+    let ehlo = await command(`EHLO ${heloName}`, [250]);
+
+    if (config.secure === 'starttls') {
+      if (!/STARTTLS/i.test(ehlo.text)) {
+        throw new Error('SMTP server does not support STARTTLS');
+      }
+      await command('STARTTLS', [220]);
+      conn = await Deno.startTls(conn as Deno.TcpConn, { hostname: config.host });
+      ehlo = await command(`EHLO ${heloName}`, [250]);
+    }
+
+    if (config.username) {
+      const credentials = btoa(`\0${config.username}\0${config.password || ''}`);
+      await command(`AUTH PLAIN ${credentials}`, [235]);
+    }
+
+    const messageId = `<${crypto.randomUUID()}@${heloName}>`;
+
+    await command(`MAIL FROM:<${extractAddress(config.from)}>`, [250]);
+    await command(`RCPT TO:<${extractAddress(message.to)}>`, [250, 251]);
+    await command('DATA', [354]);
+
+    const body = buildMimeMessage(config.from, message, messageId)
+      .split('\r\n')
+      .map(line => (line.startsWith('.') ? `.${line}` : line))
+      .join('\r\n');
+    const accepted = await command(`${body}\r\n.`, [250]);
+
+    await command('QUIT', [221]).catch(() => undefined);
+
+    return { messageId, response: `${accepted.code} ${accepted.text}` };
+  } finally {
+    clearTimeout(timer);
+    try {
+      conn.close();
+    } catch {
+      // Already closed by QUIT or the timeout
+    }
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+async function write(conn: Deno.Conn, data: string): Promise<void> {
+  const bytes = encoder.encode(data);
+  let written = 0;
+  while (written < bytes.length) {
+    written += await conn.write(bytes.subarray(written));
+  }
+}
+
+function expectReply(reply: SmtpReply, expected: number[]): SmtpReply {
+  if (!expected.includes(reply.code)) {
+    throw new SmtpError(reply.code, `${reply.code} ${reply.text}`);
+  }
+  return reply;
+}
+
+function extractAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return stripLineBreaks(match ? match[1] : value).trim();
+}
+
+function stripLineBreaks(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ');
+}
+
+function encodeHeader(value: string): string {
+  const clean = stripLineBreaks(value);
+  return /^[\x20-\x7e]*$/.test(clean) ? clean : `=?UTF-8?B?${toBase64(clean)}?=`;
+}
+
+function toBase64(value: string): string {
+  let binary = '';
+  encoder.encode(value).forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function wrapBase64(value: string): string {
+  return toBase64(value)
+    .replace(/.{1,76}/g, '$&\r\n')
+    .trimEnd();
+}
+
+function buildMimeMessage(from: string, message: SmtpMessage, messageId: string): string {
+  const boundary = `boundary-${crypto.randomUUID()}`;
+
+  return [
+    `From: ${stripLineBreaks(from)}`,
+    `To: ${extractAddress(message.to)}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: ${messageId}`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    wrapBase64(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    wrapBase64(message.html),
+    `--${boundary}--`,
+  ].join('\r\n');
+}
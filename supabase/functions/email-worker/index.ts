@@ -0,0 +1,191 @@
+/**
+ * email-worker Edge Function
+ *
+ * Drains the email_deliveries queue: claims due emails, sends them and
+ * records the outcome. Failed sends are retried with exponential backoff
+ * capped at each email's max_retry_delay_ms; after max_attempts the email is
+ * dead-lettered (status 'failed'). A 5xx SMTP reply marks it 'bounced'.
+ *
+ * The app calls this function right after queueing an email. Schedule it as
+ * well so retries run when nobody is signed in, e.g. every minute with
+ * pg_cron + pg_net:
+ *
+ *   select cron.schedule('email-worker', '* * * * *', $$
+ *     select net.http_post(
+ *       url := '<project-url>/functions/v1/email-worker',
+ *       headers := jsonb_build_object('Authorization', 'Bearer <service-role-key>')
+ *     )
+ *   $$);
+ *
+ * Secrets: EMAIL_TRANSPORT (smtp | log) and the SMTP_* settings in
+ * ../_shared/smtp.ts. To test against a local SMTP sink such as Mailpit:
+ *   docker run -p 1025:1025 -p 8025:8025 axllent/mailpit
+ *   SMTP_HOST=host.docker.internal SMTP_PORT=1025 SMTP_SECURE=none
+ *   SMTP_FROM="Counselor Ledger <noreply@example.com>" supabase functions serve email-worker
+ */
+
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { createEmailTransport, type EmailSendResult } from '../_shared/emailTransports.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const BATCH_SIZE = 20;
+// Stop claiming new batches before the platform's wall-clock limit
+const TIME_BUDGET_MS = 50_000;
+
+const EMAIL_PATTERN = /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/;
+
+interface ClaimedDelivery {
+  id: string;
+  recipient: string;
+  subject: string;
+  html_body: string | null;
+  text_body: string | null;
+  attempts: number;
+  max_attempts: number;
+  retry_delay_ms: number;
+  max_retry_delay_ms: number;
+}
+
+function json(body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Exponential backoff with up to 10% jitter, never above maxRetryDelayMs
+ */
+function getRetryDelayMs(attempts: number, retryDelayMs: number, maxRetryDelayMs: number): number {
+  const baseDelay = Math.min(retryDelayMs * Math.pow(2, attempts - 1), maxRetryDelayMs);
+  const jitter = Math.random() * 0.1 * baseDelay;
+  return Math.min(baseDelay + jitter, maxRetryDelayMs);
+}
+
+/**
+ * Columns to update after an attempt
+ */
+function getAttemptOutcome(delivery: ClaimedDelivery, result: EmailSendResult) {
+  const now = new Date();
+  const finished = { locked_until: null, html_body: null, text_body: null };
+
+  if (result.success) {
+    return {
+      ...finished,
+      status: 'sent',
+      sent_at: now.toISOString(),
+      provider_message_id: result.messageId ?? null,
+      last_error: null,
+    };
+  }
+
+  const lastError = result.error || 'Email sending failed';
+
+  if (result.permanent) {
+    return { ...finished, status: 'bounced', last_error: lastError };
+  }
+
+  if (delivery.attempts >= delivery.max_attempts) {
+    return {
+      ...finished,
+      status: 'failed',
+      dead_lettered_at: now.toISOString(),
+      last_error: lastError,
+    };
+  }
+
+  const delay = getRetryDelayMs(
+    delivery.attempts,
+    delivery.retry_delay_ms,
+    delivery.max_retry_delay_ms
+  );
+
+  return {
+    status: 'queued',
+    locked_until: null,
+    next_attempt_at: new Date(now.getTime() + delay).toISOString(),
+    last_error: lastError,
+  };
+}
+
+Deno.serve(async req => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey);
+
+  // Callers are the scheduler (service role) or a signed-in user nudging the queue
+  const token = (req.headers.get('Authorization') ?? '').replace(/^Bearer\s+/i, '');
+  if (token !== serviceRoleKey) {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser(token);
+    if (!user) {
+      return json({ error: 'Not authenticated' }, 401);
+    }
+  }
+
+  const transport = createEmailTransport();
+  const startedAt = Date.now();
+  let processed = 0;
+
+  while (Date.now() - startedAt < TIME_BUDGET_MS) {
+    const { data: claimed, error } = await supabase.rpc('claim_email_deliveries', {
+      p_limit: BATCH_SIZE,
+    });
+
+    if (error) {
+      console.error('Failed to claim emails:', error);
+      return json({ error: error.message, processed }, 500);
+    }
+
+    const deliveries = (claimed || []) as ClaimedDelivery[];
+    if (deliveries.length === 0) {
+      break;
+    }
+
+    for (const delivery of deliveries) {
+      let result: EmailSendResult;
+      if (!EMAIL_PATTERN.test(delivery.recipient)) {
+        result = { success: false, error: 'Invalid recipient address', permanent: true };
+      } else if (!delivery.html_body || !delivery.text_body) {
+        result = { success: false, error: 'Email has no body', permanent: true };
+      } else {
+        try {
+          result = await transport.send({
+            to: delivery.recipient,
+            subject: delivery.subject,
+            htmlBody: delivery.html_body,
+            textBody: delivery.text_body,
+          });
+        } catch (sendError) {
+          result = {
+            success: false,
+            error: sendError instanceof Error ? sendError.message : 'Unknown error',
+          };
+        }
+      }
+
+      const { error: updateError } = await supabase
+        .from('email_deliveries')
+        .update({ ...getAttemptOutcome(delivery, result), transport: transport.name })
+        .eq('id', delivery.id);
+
+      // The lease expires and the email is retried; a duplicate beats a lost invitation
+      if (updateError) {
+        console.error(`Failed to record delivery ${delivery.id}:`, updateError);
+      }
+
+      processed++;
+    }
+  }
+
+  return json({ processed });
+});
@@ -0,0 +1,315 @@
+/**
+ * follow-up-digest Edge Function
+ *
+ * Queues the follow-up digest email for every user whose digest is due (see
+ * due_follow_up_digests in migration 023), then wakes the email-worker to send
+ * them. Each digest lists the user's overdue follow-ups and those due soon.
+ * Students and contacts are shown as first name and last initial unless the
+ * tenant has turned on digest_include_surnames; notes are never included.
+ *
+ * Digests go out from 7am in each user's timezone, so schedule this hourly
+ * with pg_cron + pg_net:
+ *
+ *   select cron.schedule('follow-up-digest', '0 * * * *', $$
+ *     select net.http_post(
+ *       url := '<project-url>/functions/v1/follow-up-digest',
+ *       headers := jsonb_build_object('Authorization', 'Bearer <service-role-key>')
+ *     )
+ *   $$);
+ *
+ * Secrets: APP_URL (optional) links the digest to the app's follow-up list;
+ * APP_NAME (optional) brands it.
+ */
+
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+// Matches the retry policy EmailService queues with
+const RETRY_POLICY = { max_attempts: 3, retry_delay_ms: 1000, max_retry_delay_ms: 30000 };
+
+interface DueDigest {
+  user_id: string;
+  tenant_id: string;
+  tenant_name: string;
+  email: string;
+  first_name: string;
+  cadence: 'daily' | 'weekly';
+  timezone: string;
+  digest_date: string;
+  due_before: string;
+  include_surnames: boolean;
+}
+
+interface PendingFollowUp {
+  id: string;
+  follow_up_date: string;
+  is_overdue: boolean;
+  student_first_name: string | null;
+  student_last_name: string | null;
+  contact_first_name: string | null;
+  contact_last_name: string | null;
+}
+
+interface TenantBranding {
+  logo_url: string | null;
+  primary_color: string | null;
+}
+
+interface DigestEmail {
+  subject: string;
+  htmlBody: string;
+  textBody: string;
+}
+
+function json(body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Full name, or first name and last initial. Contacts are shortened too since
+ * a parent's surname is usually the student's.
+ */
+function formatName(first: string, last: string, includeSurname: boolean): string {
+  if (includeSurname || !last) {
+    return `${first} ${last}`.trim();
+  }
+  return `${first} ${last.charAt(0).toUpperCase()}.`;
+}
+
+function getFollowUpName(followUp: PendingFollowUp, includeSurnames: boolean): string {
+  if (followUp.student_first_name) {
+    return formatName(
+      followUp.student_first_name,
+      followUp.student_last_name ?? '',
+      includeSurnames
+    );
+  }
+  if (followUp.contact_first_name) {
+    return formatName(
+      followUp.contact_first_name,
+      followUp.contact_last_name ?? '',
+      includeSurnames
+    );
+  }
+  return 'Unknown';
+}
+
+function renderDigest(
+  digest: DueDigest,
+  followUps: PendingFollowUp[],
+  branding: TenantBranding | null
+): DigestEmail {
+  const appName = Deno.env.get('APP_NAME') || 'School Counselor Ledger';
+  const appUrl = Deno.env.get('APP_URL')?.replace(/\/$/, '');
+  const formatDate = (value: string) =>
+    new Date(value).toLocaleDateString('en-US', {
+      timeZone: digest.timezone,
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+    });
+
+  const overdue = followUps.filter(followUp => followUp.is_overdue);
+  const upcoming = followUps.filter(followUp => !followUp.is_overdue);
+  const upcomingLabel = digest.cadence === 'weekly' ? 'Due this week' : 'Due today and tomorrow';
+
+  const counts = [
+    overdue.length > 0 ? `${overdue.length} overdue` : null,
+    upcoming.length > 0 ? `${upcoming.length} due soon` : null,
+  ].filter(Boolean);
+  const subject = `Your follow-ups: ${counts.join(', ')}`;
+
+  const sections = [
+    { title: 'Overdue', items: overdue },
+    { title: upcomingLabel, items: upcoming },
+  ].filter(section => section.items.length > 0);
+
+  const htmlSections = sections
+    .map(
+      section => `<h2 style="font-size: 16px; margin: 24px 0 8px;">${section.title} (${section.items.length})</h2>
+<ul style="padding-left: 20px; margin: 0;">
+${section.items
+  .map(
+    followUp =>
+      `  <li>${escapeHtml(getFollowUpName(followUp, digest.include_surnames))} &mdash; ${formatDate(followUp.follow_up_date)}</li>`
+  )
+  .join('\n')}
+</ul>`
+    )
+    .join('\n');
+
+  // Only hex colors and https logos reach the markup
+  const buttonColor =
+    branding?.primary_color && /^#[0-9a-f]{6}$/i.test(branding.primary_color)
+      ? branding.primary_color
+      : '#3b82f6';
+  const logo =
+    branding?.logo_url && /^https:\/\//i.test(branding.logo_url)
+      ? `  <img src="${escapeHtml(branding.logo_url)}" alt="${escapeHtml(digest.tenant_name)} logo" style="max-height: 48px; margin-bottom: 16px;">\n`
+      : '';
+
+  const htmlBody = `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(subject)}</title>
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+${logo}  <p>Hello ${escapeHtml(digest.first_name)},</p>
+  <p>Here are your open follow-ups in ${escapeHtml(digest.tenant_name)}.</p>
+${htmlSections}
+${appUrl ? `  <p style="margin-top: 24px;"><a href="${escapeHtml(appUrl)}/interactions" style="background: ${buttonColor}; color: white; padding: 10px 20px; text-decoration: none; border-radius: 6px;">Open Follow-ups</a></p>\n` : ''}  <p style="margin-top: 32px; font-size: 12px; color: #666;">You can change how often you receive this email, or turn it off, from the Follow-ups tab in ${escapeHtml(appName)}.</p>
+</body>
+</html>`;
+
+  const textSections = sections
+    .map(
+      section =>
+        `${section.title} (${section.items.length}):\n${section.items
+          .map(
+            followUp =>
+              `- ${getFollowUpName(followUp, digest.include_surnames)} - ${formatDate(followUp.follow_up_date)}`
+          )
+          .join('\n')}`
+    )
+    .join('\n\n');
+
+  const textBody = `Hello ${digest.first_name},
+
+Here are your open follow-ups in ${digest.tenant_name}.
+
+${textSections}
+${appUrl ? `\nOpen your follow-ups: ${appUrl}/interactions\n` : ''}
+You can change how often you receive this email, or turn it off, from the Follow-ups tab in ${appName}.`;
+
+  return { subject, htmlBody, textBody };
+}
+
+Deno.serve(async req => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey);
+
+  // Only the scheduler may run this; it reads every tenant's follow-ups
+  const token = (req.headers.get('Authorization') ?? '').replace(/^Bearer\s+/i, '');
+  if (token !== serviceRoleKey) {
+    return json({ error: 'Not authorized' }, 401);
+  }
+
+  const { data: due, error } = await supabase.rpc('due_follow_up_digests');
+
+  if (error) {
+    console.error('Failed to find due digests:', error);
+    return json({ error: error.message }, 500);
+  }
+
+  let queued = 0;
+  const brandingByTenant = new Map<string, TenantBranding | null>();
+
+  for (const digest of (due || []) as DueDigest[]) {
+    const { data: followUps, error: followUpError } = await supabase
+      .from('pending_follow_ups')
+      .select(
+        'id, follow_up_date, is_overdue, student_first_name, student_last_name, contact_first_name, contact_last_name'
+      )
+      .eq('tenant_id', digest.tenant_id)
+      .eq('assigned_to', digest.user_id)
+      .lt('follow_up_date', digest.due_before)
+      .order('follow_up_date', { ascending: true });
+
+    if (followUpError) {
+      console.error(`Failed to load follow-ups for ${digest.user_id}:`, followUpError);
+      continue;
+    }
+
+    if (!followUps || followUps.length === 0) {
+      continue;
+    }
+
+    if (!brandingByTenant.has(digest.tenant_id)) {
+      const { data: branding, error: brandingError } = await supabase
+        .from('tenants')
+        .select('logo_url, primary_color')
+        .eq('id', digest.tenant_id)
+        .single();
+
+      // An unbranded digest is better than none
+      if (brandingError) {
+        console.error(`Failed to load branding for ${digest.tenant_id}:`, brandingError);
+      }
+      brandingByTenant.set(digest.tenant_id, (branding as TenantBranding | null) ?? null);
+    }
+
+    const email = renderDigest(
+      digest,
+      followUps as PendingFollowUp[],
+      brandingByTenant.get(digest.tenant_id) ?? null
+    );
+
+    // The idempotency key stops a retried run from queueing the same digest twice
+    const { error: insertError } = await supabase.from('email_deliveries').insert({
+      tenant_id: digest.tenant_id,
+      template: 'follow_up_digest',
+      recipient: digest.email,
+      subject: email.subject,
+      html_body: email.htmlBody,
+      text_body: email.textBody,
+      idempotency_key: `follow_up_digest:${digest.user_id}:${digest.digest_date}`,
+      ...RETRY_POLICY,
+    });
+
+    if (insertError && insertError.code !== '23505') {
+      console.error(`Failed to queue digest for ${digest.user_id}:`, insertError);
+      continue;
+    }
+
+    const { error: markError } = await supabase.from('follow_up_digest_preferences').upsert(
+      {
+        tenant_id: digest.tenant_id,
+        user_id: digest.user_id,
+        last_digest_on: digest.digest_date,
+      },
+      { onConflict: 'user_id' }
+    );
+
+    // Harmless: the next run finds the digest already queued
+    if (markError) {
+      console.error(`Failed to record digest for ${digest.user_id}:`, markError);
+    }
+
+    if (!insertError) {
+      queued++;
+    }
+  }
+
+  if (queued > 0) {
+    const { error: wakeError } = await supabase.functions.invoke('email-worker');
+    // The scheduled worker run sends them instead
+    if (wakeError) {
+      console.error('Failed to wake the email worker:', wakeError);
+    }
+  }
+
+  return json({ queued });
+});
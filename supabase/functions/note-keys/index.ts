@@ -0,0 +1,428 @@
+/**
+ * note-keys Edge Function
+ *
+ * Key service for encrypted interaction notes. Every note is encrypted in the
+ * browser with its own AES-GCM data key; this function wraps those data keys
+ * with the tenant's key (AES-KW) and unwraps them again for signed-in members
+ * of the tenant. Tenant keys are stored in tenant_encryption_keys wrapped with
+ * NOTE_KEYS_MASTER_KEY, which only exists as a secret of this function, so
+ * neither the browser nor the database ever holds a key that can open a note.
+ *
+ * Actions (POST, JSON body):
+ *   { action: 'wrap', dataKeys: string[] }
+ *     -> { version, wrappedKeys }   creates the tenant's first key if needed
+ *   { action: 'unwrap', keys: { version, wrappedKey }[] }
+ *     -> { dataKeys }               null for keys that cannot be unwrapped
+ *   { action: 'rotate' }            admins only
+ *     -> { version, rewrapped, encrypted, failed }
+ *
+ * Rotation re-wraps every note with a new tenant key (and encrypts legacy
+ * plaintext notes), then applies the key change and the updated notes in one
+ * transaction through apply_note_key_rotation (migration 018).
+ *
+ * Secrets: NOTE_KEYS_MASTER_KEY, a base64-encoded 256-bit key, e.g.
+ *   supabase secrets set NOTE_KEYS_MASTER_KEY=$(openssl rand -base64 32)
+ * Losing it makes every encrypted note unreadable.
+ */
+
+import { createClient, type SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const ENVELOPE_PREFIX = 'enc:v1:';
+const PAGE_SIZE = 1000;
+const MAX_KEYS_PER_REQUEST = 1000;
+
+interface Caller {
+  id: string;
+  tenant_id: string;
+  role: 'ADMIN' | 'COUNSELOR';
+}
+
+interface TenantKeyring {
+  activeVersion: number | null;
+  keys: Map<number, CryptoKey>;
+}
+
+interface NoteRow {
+  id: string;
+  notes: string | null;
+  follow_up_notes: string | null;
+}
+
+function json(body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+// ============================================================================
+// KEY HELPERS
+// ============================================================================
+
+function getMasterKey(): Promise<CryptoKey> {
+  const secret = Deno.env.get('NOTE_KEYS_MASTER_KEY');
+  if (!secret) {
+    throw new Error('NOTE_KEYS_MASTER_KEY is not configured');
+  }
+
+  return crypto.subtle.importKey('raw', fromBase64(secret), 'AES-KW', false, [
+    'wrapKey',
+    'unwrapKey',
+  ]);
+}
+
+async function loadTenantKeyring(
+  supabase: SupabaseClient,
+  tenantId: string,
+  masterKey: CryptoKey
+): Promise<TenantKeyring> {
+  const { data, error } = await supabase
+    .from('tenant_encryption_keys')
+    .select('version, wrapped_key, is_active')
+    .eq('tenant_id', tenantId);
+
+  if (error) throw error;
+
+  const keys = new Map<number, CryptoKey>();
+  let activeVersion: number | null = null;
+
+  for (const row of data || []) {
+    keys.set(row.version, await unwrapTenantKey(row.wrapped_key, masterKey));
+    if (row.is_active) activeVersion = row.version;
+  }
+
+  return { activeVersion, keys };
+}
+
+async function createFirstTenantKey(
+  supabase: SupabaseClient,
+  caller: Caller,
+  masterKey: CryptoKey
+): Promise<TenantKeyring> {
+  const tenantKey = await generateTenantKey();
+
+  const { error } = await supabase.from('tenant_encryption_keys').insert({
+    tenant_id: caller.tenant_id,
+    version: 1,
+    wrapped_key: await wrapTenantKey(tenantKey, masterKey),
+    is_active: true,
+    created_by: caller.id,
+  });
+
+  // Another request created the first key at the same time; use theirs
+  if (error?.code === '23505') {
+    return loadTenantKeyring(supabase, caller.tenant_id, masterKey);
+  }
+  if (error) throw error;
+
+  return { activeVersion: 1, keys: new Map([[1, tenantKey]]) };
+}
+
+function generateTenantKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: 'AES-KW', length: 256 }, true, [
+    'wrapKey',
+    'unwrapKey',
+  ]) as Promise<CryptoKey>;
+}
+
+async function wrapTenantKey(tenantKey: CryptoKey, masterKey: CryptoKey): Promise<string> {
+  return toBase64(await crypto.subtle.wrapKey('raw', tenantKey, masterKey, 'AES-KW'));
+}
+
+function unwrapTenantKey(wrappedKey: string, masterKey: CryptoKey): Promise<CryptoKey> {
+  return crypto.subtle.unwrapKey(
+    'raw',
+    fromBase64(wrappedKey),
+    masterKey,
+    'AES-KW',
+    'AES-KW',
+    true,
+    ['wrapKey', 'unwrapKey']
+  );
+}
+
+async function wrapDataKey(rawKey: Uint8Array, tenantKey: CryptoKey): Promise<string> {
+  const dataKey = await crypto.subtle.importKey('raw', rawKey, 'AES-GCM', true, [
+    'encrypt',
+    'decrypt',
+  ]);
+  return toBase64(await crypto.subtle.wrapKey('raw', dataKey, tenantKey, 'AES-KW'));
+}
+
+async function unwrapDataKey(wrappedKey: string, tenantKey: CryptoKey): Promise<Uint8Array> {
+  const dataKey = await crypto.subtle.unwrapKey(
+    'raw',
+    fromBase64(wrappedKey),
+    tenantKey,
+    'AES-KW',
+    'AES-GCM',
+    true,
+    ['encrypt', 'decrypt']
+  );
+  return new Uint8Array(await crypto.subtle.exportKey('raw', dataKey));
+}
+
+// ============================================================================
+// ENVELOPE HELPERS
+// ============================================================================
+
+function parseEnvelope(envelope: string) {
+  const [version, wrappedKey, iv, ciphertext, ...rest] = envelope
+    .slice(ENVELOPE_PREFIX.length)
+    .split(':');
+
+  if (!version || !wrappedKey || !iv || !ciphertext || rest.length > 0) {
+    throw new Error('Malformed encrypted note');
+  }
+
+  return { version: Number(version), wrappedKey, iv, ciphertext };
+}
+
+/**
+ * Move an encrypted note to another tenant key, or encrypt a plaintext one
+ */
+async function reencryptNote(
+  value: string,
+  keyring: TenantKeyring,
+  tenantKey: CryptoKey,
+  version: number
+): Promise<{ value: string; encrypted: boolean }> {
+  if (value.startsWith(ENVELOPE_PREFIX)) {
+    const parsed = parseEnvelope(value);
+    const oldKey = keyring.keys.get(parsed.version);
+    if (!oldKey) {
+      throw new Error(`Encryption key version ${parsed.version} is not available`);
+    }
+
+    const wrappedKey = await wrapDataKey(await unwrapDataKey(parsed.wrappedKey, oldKey), tenantKey);
+    return {
+      value: `${ENVELOPE_PREFIX}${version}:${wrappedKey}:${parsed.iv}:${parsed.ciphertext}`,
+      encrypted: false,
+    };
+  }
+
+  const dataKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, [
+    'encrypt',
+    'decrypt',
+  ]);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    dataKey,
+    new TextEncoder().encode(value)
+  );
+  const wrappedKey = toBase64(await crypto.subtle.wrapKey('raw', dataKey, tenantKey, 'AES-KW'));
+
+  return {
+    value: `${ENVELOPE_PREFIX}${version}:${wrappedKey}:${toBase64(iv)}:${toBase64(ciphertext)}`,
+    encrypted: true,
+  };
+}
+
+// ============================================================================
+// ACTIONS
+// ============================================================================
+
+async function wrap(
+  supabase: SupabaseClient,
+  caller: Caller,
+  masterKey: CryptoKey,
+  dataKeys: string[]
+): Promise<Response> {
+  let keyring = await loadTenantKeyring(supabase, caller.tenant_id, masterKey);
+  if (keyring.activeVersion === null) {
+    keyring = await createFirstTenantKey(supabase, caller, masterKey);
+  }
+
+  const version = keyring.activeVersion!;
+  const tenantKey = keyring.keys.get(version)!;
+  const wrappedKeys = await Promise.all(
+    dataKeys.map(dataKey => wrapDataKey(fromBase64(dataKey), tenantKey))
+  );
+
+  return json({ version, wrappedKeys });
+}
+
+async function unwrap(
+  supabase: SupabaseClient,
+  caller: Caller,
+  masterKey: CryptoKey,
+  keys: Array<{ version: number; wrappedKey: string }>
+): Promise<Response> {
+  const keyring = await loadTenantKeyring(supabase, caller.tenant_id, masterKey);
+
+  const dataKeys = await Promise.all(
+    keys.map(async ({ version, wrappedKey }) => {
+      const tenantKey = keyring.keys.get(version);
+      if (!tenantKey) return null;
+      try {
+        return toBase64(await unwrapDataKey(wrappedKey, tenantKey));
+      } catch {
+        return null;
+      }
+    })
+  );
+
+  return json({ dataKeys });
+}
+
+async function rotate(
+  supabase: SupabaseClient,
+  caller: Caller,
+  masterKey: CryptoKey
+): Promise<Response> {
+  if (caller.role !== 'ADMIN') {
+    return json({ error: 'Only administrators can rotate the encryption key' }, 403);
+  }
+
+  const keyring = await loadTenantKeyring(supabase, caller.tenant_id, masterKey);
+  const version = Math.max(0, ...keyring.keys.keys()) + 1;
+  const tenantKey = await generateTenantKey();
+
+  const result = { version, rewrapped: 0, encrypted: 0, failed: 0 };
+  const notes: Array<Record<string, string | null>> = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data: rows, error } = await supabase
+      .from('interactions')
+      .select('id, notes, follow_up_notes')
+      .eq('tenant_id', caller.tenant_id)
+      .or('notes.not.is.null,follow_up_notes.not.is.null')
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    for (const row of (rows || []) as NoteRow[]) {
+      const update: Record<string, string | null> = {
+        id: row.id,
+        previous_notes: row.notes,
+        previous_follow_up_notes: row.follow_up_notes,
+      };
+      let rewrapped = 0;
+      let encrypted = 0;
+
+      try {
+        for (const field of ['notes', 'follow_up_notes'] as const) {
+          const value = row[field];
+          if (!value) continue;
+
+          const next = await reencryptNote(value, keyring, tenantKey, version);
+          update[field] = next.value;
+          if (next.encrypted) encrypted++;
+          else rewrapped++;
+        }
+      } catch (error) {
+        console.error(`Failed to re-encrypt notes for interaction ${row.id}:`, error);
+        result.failed++;
+        continue;
+      }
+
+      notes.push(update);
+      result.rewrapped += rewrapped;
+      result.encrypted += encrypted;
+    }
+
+    if (!rows || rows.length < PAGE_SIZE) break;
+  }
+
+  const { data: skipped, error } = await supabase.rpc('apply_note_key_rotation', {
+    p_tenant_id: caller.tenant_id,
+    p_expected_version: keyring.activeVersion,
+    p_version: version,
+    p_wrapped_key: await wrapTenantKey(tenantKey, masterKey),
+    p_created_by: caller.id,
+    p_notes: notes,
+  });
+
+  if (error) {
+    return json({ error: error.message }, error.code === '40001' ? 409 : 500);
+  }
+
+  // Notes edited during the rotation keep their retired-key envelope
+  result.failed += (skipped as number) || 0;
+
+  return json(result);
+}
+
+Deno.serve(async req => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  );
+
+  const token = (req.headers.get('Authorization') ?? '').replace(/^Bearer\s+/i, '');
+  const {
+    data: { user },
+  } = await supabase.auth.getUser(token);
+  if (!user) {
+    return json({ error: 'Not authenticated' }, 401);
+  }
+
+  const { data: caller } = await supabase
+    .from('users')
+    .select('id, tenant_id, role')
+    .eq('id', user.id)
+    .eq('is_active', true)
+    .maybeSingle();
+  if (!caller) {
+    return json({ error: 'Not a member of an organization' }, 403);
+  }
+
+  try {
+    const body = await req.json();
+    const masterKey = await getMasterKey();
+
+    switch (body?.action) {
+      case 'wrap':
+        if (!Array.isArray(body.dataKeys) || body.dataKeys.length > MAX_KEYS_PER_REQUEST) {
+          return json({ error: 'Invalid dataKeys' }, 400);
+        }
+        return await wrap(supabase, caller as Caller, masterKey, body.dataKeys);
+      case 'unwrap':
+        if (!Array.isArray(body.keys) || body.keys.length > MAX_KEYS_PER_REQUEST) {
+          return json({ error: 'Invalid keys' }, 400);
+        }
+        return await unwrap(supabase, caller as Caller, masterKey, body.keys);
+      case 'rotate':
+        return await rotate(supabase, caller as Caller, masterKey);
+      default:
+        return json({ error: 'Unknown action' }, 400);
+    }
+  } catch (error) {
+    console.error('note-keys failed:', error);
+    return json({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
+
+// ============================================================================
+// ENCODING HELPERS
+// ============================================================================
+
+function toBase64(data: ArrayBuffer | Uint8Array): string {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
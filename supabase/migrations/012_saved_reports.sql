@@ -0,0 +1,74 @@
+-- Saved Reports Migration
+-- This migration adds per-user saved report definitions (named filter + report combinations)
+
+-- ============================================================================
+-- SAVED REPORTS TABLE
+-- ============================================================================
+-- Stores named report definitions so users can reopen a filter set later
+CREATE TABLE saved_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  report_type TEXT NOT NULL CHECK (report_type IN (
+    'volume',
+    'frequency',
+    'gradeLevel',
+    'timeAllocation'
+  )),
+  filters JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(user_id, name)
+);
+
+-- Indexes for saved_reports
+CREATE INDEX idx_saved_reports_tenant ON saved_reports(tenant_id);
+CREATE INDEX idx_saved_reports_user ON saved_reports(tenant_id, user_id);
+
+-- ============================================================================
+-- TRIGGERS FOR UPDATED_AT
+-- ============================================================================
+
+CREATE TRIGGER update_saved_reports_updated_at
+  BEFORE UPDATE ON saved_reports
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE saved_reports ENABLE ROW LEVEL SECURITY;
+
+-- Users can only view their own saved reports
+CREATE POLICY saved_reports_select_policy ON saved_reports
+  FOR SELECT
+  USING (tenant_id = get_user_tenant_id() AND user_id = auth.uid());
+
+-- Users can only create saved reports for themselves
+CREATE POLICY saved_reports_insert_policy ON saved_reports
+  FOR INSERT
+  WITH CHECK (tenant_id = get_user_tenant_id() AND user_id = auth.uid());
+
+-- Users can only update their own saved reports
+CREATE POLICY saved_reports_update_policy ON saved_reports
+  FOR UPDATE
+  USING (tenant_id = get_user_tenant_id() AND user_id = auth.uid());
+
+-- Users can only delete their own saved reports
+CREATE POLICY saved_reports_delete_policy ON saved_reports
+  FOR DELETE
+  USING (tenant_id = get_user_tenant_id() AND user_id = auth.uid());
+
+-- ============================================================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================================================
+
+COMMENT ON TABLE saved_reports IS
+  'Stores named report definitions (report type and filters) owned by a single user';
+
+COMMENT ON COLUMN saved_reports.filters IS
+  'Serialized ReportFilters with ISO date strings for startDate and endDate';
+
+COMMENT ON CONSTRAINT saved_reports_user_id_name_key ON saved_reports IS
+  'Prevents a user from saving two reports with the same name';
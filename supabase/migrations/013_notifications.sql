@@ -0,0 +1,186 @@
+-- Notifications Migration
+-- This migration adds per-user in-app notifications shown in the header notification center
+
+-- ============================================================================
+-- NOTIFICATIONS TABLE
+-- ============================================================================
+-- Stores notifications for a single recipient. source_id points at the record
+-- that produced the notification so the same event is never delivered twice.
+CREATE TABLE notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN (
+    'FOLLOW_UP_OVERDUE',
+    'INVITATION_ACCEPTED',
+    'SECURITY_ALERT'
+  )),
+  title TEXT NOT NULL,
+  message TEXT NOT NULL,
+  link TEXT,
+  source_id UUID NOT NULL,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(user_id, type, source_id)
+);
+
+-- Indexes for notifications
+CREATE INDEX idx_notifications_tenant ON notifications(tenant_id);
+CREATE INDEX idx_notifications_user_time ON notifications(user_id, created_at DESC);
+CREATE INDEX idx_notifications_unread ON notifications(user_id)
+  WHERE read_at IS NULL;
+
+-- ============================================================================
+-- NOTIFICATION SOURCES
+-- ============================================================================
+
+-- Notify the inviting user when an invitation is accepted
+CREATE OR REPLACE FUNCTION notify_invitation_accepted()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.accepted_at IS NULL AND NEW.accepted_at IS NOT NULL THEN
+    INSERT INTO notifications (tenant_id, user_id, type, title, message, link, source_id)
+    VALUES (
+      NEW.tenant_id,
+      NEW.invited_by,
+      'INVITATION_ACCEPTED',
+      'Invitation accepted',
+      NEW.email || ' has joined as ' || INITCAP(NEW.role),
+      '/admin',
+      NEW.id
+    )
+    ON CONFLICT (user_id, type, source_id) DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER invitations_notify_accepted
+  AFTER UPDATE OF accepted_at ON invitations
+  FOR EACH ROW EXECUTE FUNCTION notify_invitation_accepted();
+
+-- Notify every active admin in the tenant about HIGH and CRITICAL security events
+CREATE OR REPLACE FUNCTION notify_security_event()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.tenant_id IS NOT NULL AND NEW.severity IN ('HIGH', 'CRITICAL') THEN
+    INSERT INTO notifications (tenant_id, user_id, type, title, message, link, source_id)
+    SELECT
+      NEW.tenant_id,
+      u.id,
+      'SECURITY_ALERT',
+      INITCAP(NEW.severity) || ' security event',
+      REPLACE(NEW.event_type, '_', ' ') || COALESCE(' (' || NEW.email || ')', ''),
+      '/admin',
+      NEW.id
+    FROM users u
+    WHERE u.tenant_id = NEW.tenant_id
+      AND u.role = 'ADMIN'
+      AND u.is_active = TRUE
+    ON CONFLICT (user_id, type, source_id) DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER security_events_notify_admins
+  AFTER INSERT ON security_events
+  FOR EACH ROW EXECUTE FUNCTION notify_security_event();
+
+-- Create notifications for the current user's overdue follow-ups.
+-- Overdue status is time-based, so this is called when notifications are loaded
+-- rather than from a trigger. Returns the number of new notifications.
+CREATE OR REPLACE FUNCTION sync_follow_up_notifications()
+RETURNS INTEGER AS $$
+DECLARE
+  inserted_count INTEGER;
+BEGIN
+  INSERT INTO notifications (tenant_id, user_id, type, title, message, link, source_id)
+  SELECT
+    pf.tenant_id,
+    pf.counselor_id,
+    'FOLLOW_UP_OVERDUE',
+    'Follow-up overdue',
+    'Follow-up with '
+      || COALESCE(
+        pf.student_first_name || ' ' || pf.student_last_name,
+        pf.contact_first_name || ' ' || pf.contact_last_name,
+        'unknown'
+      )
+      || ' was due ' || TO_CHAR(pf.follow_up_date, 'Mon DD, YYYY'),
+    '/interactions?interactionId=' || pf.id,
+    pf.id
+  FROM pending_follow_ups pf
+  WHERE pf.counselor_id = auth.uid()
+    AND pf.is_overdue = TRUE
+  ON CONFLICT (user_id, type, source_id) DO NOTHING;
+
+  GET DIAGNOSTICS inserted_count = ROW_COUNT;
+  RETURN inserted_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Remove read notifications older than 90 days
+CREATE OR REPLACE FUNCTION cleanup_old_notifications() RETURNS INTEGER AS $$
+DECLARE
+  deleted_count INTEGER;
+BEGIN
+  DELETE FROM notifications
+  WHERE read_at IS NOT NULL
+    AND created_at < NOW() - INTERVAL '90 days';
+
+  GET DIAGNOSTICS deleted_count = ROW_COUNT;
+  RETURN deleted_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Cleanup is scheduled with the service role; users must not purge other users' notifications
+REVOKE EXECUTE ON FUNCTION cleanup_old_notifications() FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+-- Users can only view their own notifications
+CREATE POLICY notifications_select_policy ON notifications
+  FOR SELECT
+  USING (tenant_id = get_user_tenant_id() AND user_id = auth.uid());
+
+-- Users can only update (mark as read) their own notifications
+CREATE POLICY notifications_update_policy ON notifications
+  FOR UPDATE
+  USING (tenant_id = get_user_tenant_id() AND user_id = auth.uid())
+  WITH CHECK (tenant_id = get_user_tenant_id() AND user_id = auth.uid());
+
+-- Marking as read is the only change users make, so read_at is the only
+-- column they can update
+REVOKE UPDATE ON notifications FROM anon, authenticated;
+GRANT UPDATE (read_at) ON notifications TO authenticated;
+
+-- Users can only dismiss their own notifications
+CREATE POLICY notifications_delete_policy ON notifications
+  FOR DELETE
+  USING (tenant_id = get_user_tenant_id() AND user_id = auth.uid());
+
+-- No insert policy: notifications are only created by the SECURITY DEFINER
+-- functions above
+
+-- ============================================================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================================================
+
+COMMENT ON TABLE notifications IS
+  'In-app notifications for a single user (overdue follow-ups, accepted invitations, security alerts)';
+
+COMMENT ON COLUMN notifications.source_id IS
+  'ID of the interaction, invitation or security event that produced the notification';
+
+COMMENT ON COLUMN notifications.read_at IS
+  'When the recipient marked the notification as read; NULL while unread';
+
+COMMENT ON FUNCTION sync_follow_up_notifications() IS
+  'Creates FOLLOW_UP_OVERDUE notifications for the current user from pending_follow_ups';
@@ -0,0 +1,91 @@
+-- Student Archival Migration
+-- This migration adds student archival and the year-end grade promotion operation
+
+-- ============================================================================
+-- STUDENTS: ARCHIVED STATE
+-- ============================================================================
+-- Archived students (e.g. graduated seniors) are kept so their interaction
+-- history survives, but are hidden from day-to-day student lists
+ALTER TABLE students
+ADD COLUMN archived_at TIMESTAMPTZ;
+
+CREATE INDEX idx_students_active ON students(tenant_id, grade_level)
+  WHERE archived_at IS NULL;
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Move every active student in the caller's tenant up one grade and archive
+-- 12th graders. Grade order must match gradeLevelSchema in src/schemas/student.ts.
+-- Students with an unrecognized grade level are left unchanged.
+CREATE OR REPLACE FUNCTION promote_student_grades()
+RETURNS JSON AS $$
+DECLARE
+  v_tenant_id UUID;
+  v_grades TEXT[] := ARRAY[
+    'Pre-K',
+    'Kindergarten',
+    '1st Grade',
+    '2nd Grade',
+    '3rd Grade',
+    '4th Grade',
+    '5th Grade',
+    '6th Grade',
+    '7th Grade',
+    '8th Grade',
+    '9th Grade',
+    '10th Grade',
+    '11th Grade',
+    '12th Grade'
+  ];
+  v_archived INTEGER;
+  v_promoted INTEGER;
+  v_skipped INTEGER;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only administrators can promote student grades';
+  END IF;
+
+  v_tenant_id := get_user_tenant_id();
+
+  -- Archive graduating seniors first so newly promoted 11th graders are not archived
+  UPDATE students
+  SET archived_at = NOW()
+  WHERE tenant_id = v_tenant_id
+    AND archived_at IS NULL
+    AND grade_level = '12th Grade';
+
+  GET DIAGNOSTICS v_archived = ROW_COUNT;
+
+  UPDATE students
+  SET grade_level = v_grades[array_position(v_grades, grade_level) + 1]
+  WHERE tenant_id = v_tenant_id
+    AND archived_at IS NULL
+    AND array_position(v_grades, grade_level) < array_length(v_grades, 1);
+
+  GET DIAGNOSTICS v_promoted = ROW_COUNT;
+
+  SELECT COUNT(*) INTO v_skipped
+  FROM students
+  WHERE tenant_id = v_tenant_id
+    AND archived_at IS NULL
+    AND array_position(v_grades, grade_level) IS NULL;
+
+  RETURN json_build_object(
+    'promoted', v_promoted,
+    'archived', v_archived,
+    'skipped', v_skipped
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================================================
+
+COMMENT ON COLUMN students.archived_at IS
+  'When the student was archived (e.g. graduated); NULL for active students';
+
+COMMENT ON FUNCTION promote_student_grades() IS
+  'Admin-only year-end rollover: promotes active students one grade and archives 12th graders';
@@ -0,0 +1,259 @@
+-- Appointments Migration
+-- This migration adds scheduled (planned) appointments with optional weekly or
+-- biweekly recurrence. Held appointments are logged as regular interactions.
+
+-- ============================================================================
+-- APPOINTMENT SERIES TABLE
+-- ============================================================================
+-- Template and recurrence rule for a set of appointments. One-off appointments
+-- are a series with frequency NONE and a single occurrence.
+CREATE TABLE appointment_series (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  counselor_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  student_id UUID REFERENCES students(id) ON DELETE CASCADE,
+  contact_id UUID REFERENCES contacts(id) ON DELETE CASCADE,
+  regarding_student_id UUID REFERENCES students(id) ON DELETE SET NULL,
+  category_id UUID NOT NULL REFERENCES reason_categories(id) ON DELETE RESTRICT,
+  subcategory_id UUID REFERENCES reason_subcategories(id) ON DELETE SET NULL,
+  start_time TIMESTAMPTZ NOT NULL,
+  duration_minutes INT NOT NULL CHECK (duration_minutes > 0),
+  notes TEXT,
+  frequency TEXT NOT NULL DEFAULT 'NONE' CHECK (frequency IN ('NONE', 'WEEKLY', 'BIWEEKLY')),
+  until_date DATE,
+  occurrence_count INT CHECK (occurrence_count > 0),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (student_id IS NOT NULL OR contact_id IS NOT NULL),
+  CHECK (student_id IS NULL OR contact_id IS NULL),
+  CHECK (frequency = 'NONE' OR until_date IS NOT NULL OR occurrence_count IS NOT NULL)
+);
+
+CREATE INDEX idx_appointment_series_tenant ON appointment_series(tenant_id);
+CREATE INDEX idx_appointment_series_counselor ON appointment_series(tenant_id, counselor_id);
+
+CREATE TRIGGER update_appointment_series_updated_at
+  BEFORE UPDATE ON appointment_series
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- ============================================================================
+-- APPOINTMENTS TABLE
+-- ============================================================================
+-- One row per occurrence of a series. Occurrences copy the series fields so a
+-- single occurrence can be moved or changed without affecting the rest
+-- (is_exception). interaction_id links to the interaction logged when held.
+CREATE TABLE appointments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  series_id UUID NOT NULL REFERENCES appointment_series(id) ON DELETE CASCADE,
+  occurrence_index INT NOT NULL CHECK (occurrence_index >= 0),
+  counselor_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  student_id UUID REFERENCES students(id) ON DELETE CASCADE,
+  contact_id UUID REFERENCES contacts(id) ON DELETE CASCADE,
+  regarding_student_id UUID REFERENCES students(id) ON DELETE SET NULL,
+  category_id UUID NOT NULL REFERENCES reason_categories(id) ON DELETE RESTRICT,
+  subcategory_id UUID REFERENCES reason_subcategories(id) ON DELETE SET NULL,
+  start_time TIMESTAMPTZ NOT NULL,
+  duration_minutes INT NOT NULL CHECK (duration_minutes > 0),
+  end_time TIMESTAMPTZ,
+  notes TEXT,
+  status TEXT NOT NULL DEFAULT 'SCHEDULED' CHECK (status IN ('SCHEDULED', 'HELD', 'CANCELLED')),
+  is_exception BOOLEAN NOT NULL DEFAULT FALSE,
+  interaction_id UUID REFERENCES interactions(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(series_id, occurrence_index),
+  CHECK (student_id IS NOT NULL OR contact_id IS NOT NULL),
+  CHECK (student_id IS NULL OR contact_id IS NULL)
+);
+
+CREATE TRIGGER trg_appointments_set_end_time
+BEFORE INSERT OR UPDATE OF start_time, duration_minutes
+ON appointments
+FOR EACH ROW
+EXECUTE FUNCTION set_end_time();
+
+CREATE TRIGGER update_appointments_updated_at
+  BEFORE UPDATE ON appointments
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+CREATE INDEX idx_appointments_tenant ON appointments(tenant_id);
+CREATE INDEX idx_appointments_series ON appointments(series_id);
+CREATE INDEX idx_appointments_counselor_time ON appointments(tenant_id, counselor_id, start_time);
+CREATE INDEX idx_appointments_scheduled ON appointments(tenant_id, start_time)
+  WHERE status = 'SCHEDULED';
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE appointment_series ENABLE ROW LEVEL SECURITY;
+ALTER TABLE appointments ENABLE ROW LEVEL SECURITY;
+
+-- Counselors can view their own series, admins can view all in tenant
+CREATE POLICY appointment_series_select_policy ON appointment_series
+  FOR SELECT
+  USING (
+    tenant_id = get_user_tenant_id() AND
+    (counselor_id = auth.uid() OR is_admin())
+  );
+
+-- Users can only create series assigned to themselves
+CREATE POLICY appointment_series_insert_policy ON appointment_series
+  FOR INSERT
+  WITH CHECK (
+    tenant_id = get_user_tenant_id() AND
+    counselor_id = auth.uid()
+  );
+
+CREATE POLICY appointment_series_update_policy ON appointment_series
+  FOR UPDATE
+  USING (
+    tenant_id = get_user_tenant_id() AND
+    (counselor_id = auth.uid() OR is_admin())
+  );
+
+CREATE POLICY appointment_series_delete_policy ON appointment_series
+  FOR DELETE
+  USING (
+    tenant_id = get_user_tenant_id() AND
+    (counselor_id = auth.uid() OR is_admin())
+  );
+
+-- Counselors can view their own appointments, admins can view all in tenant
+CREATE POLICY appointments_select_policy ON appointments
+  FOR SELECT
+  USING (
+    tenant_id = get_user_tenant_id() AND
+    (counselor_id = auth.uid() OR is_admin())
+  );
+
+-- Occurrences belong to their series' counselor. Users add them to their own
+-- series; admins can also regenerate occurrences when editing anyone's series.
+CREATE POLICY appointments_insert_policy ON appointments
+  FOR INSERT
+  WITH CHECK (
+    tenant_id = get_user_tenant_id() AND
+    (counselor_id = auth.uid() OR is_admin()) AND
+    EXISTS (
+      SELECT 1 FROM appointment_series s
+      WHERE s.id = appointments.series_id
+        AND s.tenant_id = get_user_tenant_id()
+        AND s.counselor_id = appointments.counselor_id
+    )
+  );
+
+CREATE POLICY appointments_update_policy ON appointments
+  FOR UPDATE
+  USING (
+    tenant_id = get_user_tenant_id() AND
+    (counselor_id = auth.uid() OR is_admin())
+  );
+
+CREATE POLICY appointments_delete_policy ON appointments
+  FOR DELETE
+  USING (
+    tenant_id = get_user_tenant_id() AND
+    (counselor_id = auth.uid() OR is_admin())
+  );
+
+-- ============================================================================
+-- SERIES UPDATES
+-- ============================================================================
+
+-- Update a series' template and rule and regenerate its upcoming scheduled
+-- occurrences in one transaction, so a failed insert never leaves a series
+-- without its future appointments. The app expands the rule (it keeps the
+-- local time of day across daylight saving changes) and passes every start
+-- time; occurrences before p_cutoff, and held, cancelled or individually
+-- edited ones, are kept. Runs with the caller's permissions.
+CREATE OR REPLACE FUNCTION update_appointment_series(
+  p_series_id UUID,
+  p_student_id UUID,
+  p_contact_id UUID,
+  p_regarding_student_id UUID,
+  p_category_id UUID,
+  p_subcategory_id UUID,
+  p_duration_minutes INT,
+  p_notes TEXT,
+  p_start_time TIMESTAMPTZ,
+  p_frequency TEXT,
+  p_until_date DATE,
+  p_occurrence_count INT,
+  p_cutoff TIMESTAMPTZ,
+  p_occurrence_start_times TIMESTAMPTZ[]
+) RETURNS VOID AS $$
+BEGIN
+  UPDATE appointment_series
+  SET student_id = p_student_id,
+      contact_id = p_contact_id,
+      regarding_student_id = p_regarding_student_id,
+      category_id = p_category_id,
+      subcategory_id = p_subcategory_id,
+      duration_minutes = p_duration_minutes,
+      notes = p_notes,
+      start_time = p_start_time,
+      frequency = p_frequency,
+      until_date = p_until_date,
+      occurrence_count = p_occurrence_count
+  WHERE id = p_series_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Appointment series not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  DELETE FROM appointments
+  WHERE series_id = p_series_id
+    AND status = 'SCHEDULED'
+    AND is_exception = FALSE
+    AND start_time >= p_cutoff;
+
+  -- Kept occurrences hold their index, so they are not generated again
+  INSERT INTO appointments (
+    tenant_id, series_id, occurrence_index, counselor_id, student_id, contact_id,
+    regarding_student_id, category_id, subcategory_id, duration_minutes, notes, start_time
+  )
+  SELECT
+    s.tenant_id, s.id, o.position - 1, s.counselor_id, s.student_id, s.contact_id,
+    s.regarding_student_id, s.category_id, s.subcategory_id, s.duration_minutes, s.notes,
+    o.start_time
+  FROM appointment_series s
+  CROSS JOIN unnest(p_occurrence_start_times) WITH ORDINALITY AS o(start_time, position)
+  WHERE s.id = p_series_id
+    AND o.start_time >= p_cutoff
+  ON CONFLICT (series_id, occurrence_index) DO NOTHING;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================================================
+
+COMMENT ON TABLE appointment_series IS
+  'Planned appointment template with an optional weekly or biweekly recurrence rule';
+
+COMMENT ON COLUMN appointment_series.notes IS
+  'Appointment notes; encrypted like interactions.notes and copied to each occurrence';
+
+COMMENT ON COLUMN appointment_series.until_date IS
+  'Last date (inclusive) a recurring series can occur on';
+
+COMMENT ON COLUMN appointment_series.occurrence_count IS
+  'Maximum number of occurrences for a recurring series';
+
+COMMENT ON TABLE appointments IS
+  'Individual occurrences of an appointment series shown as planned events on the calendar';
+
+COMMENT ON COLUMN appointments.notes IS
+  'Appointment notes; encrypted like interactions.notes';
+
+COMMENT ON COLUMN appointments.is_exception IS
+  'TRUE when this occurrence was edited on its own and is no longer regenerated from the series';
+
+COMMENT ON COLUMN appointments.interaction_id IS
+  'Interaction logged when the appointment was marked as held';
+
+COMMENT ON FUNCTION update_appointment_series(
+  UUID, UUID, UUID, UUID, UUID, UUID, INT, TEXT, TIMESTAMPTZ, TEXT, DATE, INT, TIMESTAMPTZ, TIMESTAMPTZ[]
+) IS
+  'Updates a series and regenerates its upcoming scheduled occurrences in one transaction';
@@ -0,0 +1,227 @@
+-- Calendar Feeds Migration
+-- This migration adds per-user iCalendar subscription feeds so counselors can
+-- see their interactions and follow-ups in external calendar clients
+
+-- ============================================================================
+-- CALENDAR FEEDS TABLE
+-- ============================================================================
+-- One feed per user. The token is the only credential in the subscription URL,
+-- so it is kept in plain text to allow showing the URL again; regenerating the
+-- token revokes the old URL.
+CREATE TABLE calendar_feeds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+  token TEXT UNIQUE NOT NULL,
+  redact_student_names BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_calendar_feeds_tenant ON calendar_feeds(tenant_id);
+
+CREATE TRIGGER update_calendar_feeds_updated_at
+  BEFORE UPDATE ON calendar_feeds
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- ============================================================================
+-- FEED GENERATION
+-- ============================================================================
+
+-- PostgREST serves functions returning this domain with a text/calendar
+-- content type instead of JSON
+CREATE DOMAIN "text/calendar" AS TEXT;
+
+-- Escape a value for use in an iCalendar TEXT property
+CREATE OR REPLACE FUNCTION ics_escape(p_value TEXT)
+RETURNS TEXT AS $$
+  SELECT REPLACE(REPLACE(REPLACE(REPLACE(REPLACE(
+    p_value, E'\\', E'\\\\'), ';', E'\\;'), ',', E'\\,'), E'\r', ''), E'\n', E'\\n');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Fold a content line so no line is longer than 75 octets, joining the parts
+-- with CRLF + space. Multi-byte characters are never split. Mirrors
+-- foldIcsLine in src/utils/calendarHelpers.ts.
+CREATE OR REPLACE FUNCTION ics_fold(p_line TEXT)
+RETURNS TEXT AS $$
+DECLARE
+  v_result TEXT := '';
+  v_current TEXT := '';
+  v_octets INTEGER := 0;
+  -- Continuation lines start with a space, which counts toward the limit
+  v_limit INTEGER := 75;
+  v_char TEXT;
+BEGIN
+  IF p_line IS NULL OR octet_length(p_line) <= 75 THEN
+    RETURN p_line;
+  END IF;
+
+  FOREACH v_char IN ARRAY regexp_split_to_array(p_line, '')
+  LOOP
+    IF v_octets + octet_length(v_char) > v_limit THEN
+      v_result := v_result || v_current || E'\r\n ';
+      v_current := '';
+      v_octets := 0;
+      v_limit := 74;
+    END IF;
+    v_current := v_current || v_char;
+    v_octets := v_octets + octet_length(v_char);
+  END LOOP;
+
+  RETURN v_result || v_current;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Fold and join the content lines of one component, skipping NULL lines
+CREATE OR REPLACE FUNCTION ics_lines(p_lines TEXT[])
+RETURNS TEXT AS $$
+  SELECT string_agg(ics_fold(u.line), E'\r\n' ORDER BY u.position)
+  FROM UNNEST(p_lines) WITH ORDINALITY AS u(line, position)
+  WHERE u.line IS NOT NULL;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Student display name, reduced to initials when the feed redacts names
+CREATE OR REPLACE FUNCTION ics_person_name(p_first TEXT, p_last TEXT, p_redact BOOLEAN)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN p_redact THEN UPPER(LEFT(p_first, 1) || LEFT(p_last, 1))
+    ELSE p_first || ' ' || p_last
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Public iCalendar feed for the user that owns the token. Mirrors
+-- generateInteractionsIcs in src/utils/calendarHelpers.ts: interactions from the
+-- last 180 days onward as timed events and open follow-ups as all-day events.
+-- Notes are never included.
+CREATE OR REPLACE FUNCTION calendar_feed(token TEXT)
+RETURNS "text/calendar" AS $$
+DECLARE
+  v_feed calendar_feeds%ROWTYPE;
+  v_stamp TEXT := TO_CHAR(NOW() AT TIME ZONE 'UTC', 'YYYYMMDD"T"HH24MISS"Z"');
+  v_events TEXT;
+BEGIN
+  -- Feeds stop working while their owner is deactivated
+  SELECT cf.* INTO v_feed
+  FROM calendar_feeds cf
+  JOIN users u ON u.id = cf.user_id
+  WHERE cf.token = calendar_feed.token AND u.is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Calendar feed not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  WITH feed_interactions AS (
+    SELECT
+      i.*,
+      rc.name AS category_name,
+      COALESCE(rs.name, i.custom_reason) AS reason,
+      COALESCE(
+        ics_person_name(s.first_name, s.last_name, v_feed.redact_student_names),
+        c.first_name || ' ' || c.last_name
+          || COALESCE(
+            ' (re: ' || ics_person_name(r.first_name, r.last_name, v_feed.redact_student_names) || ')',
+            ''
+          ),
+        'Unknown'
+      ) || ' - ' || COALESCE(rc.name, 'Other') AS summary
+    FROM interactions i
+    LEFT JOIN students s ON s.id = i.student_id
+    LEFT JOIN contacts c ON c.id = i.contact_id
+    LEFT JOIN students r ON r.id = i.regarding_student_id
+    LEFT JOIN reason_categories rc ON rc.id = i.category_id
+    LEFT JOIN reason_subcategories rs ON rs.id = i.subcategory_id
+    WHERE i.tenant_id = v_feed.tenant_id
+      AND i.counselor_id = v_feed.user_id
+      AND (
+        i.start_time >= NOW() - INTERVAL '180 days'
+        OR (i.needs_follow_up AND NOT i.is_follow_up_complete)
+      )
+  ),
+  event_lines AS (
+    SELECT i.start_time AS sort_time, ics_lines(ARRAY[
+      'BEGIN:VEVENT',
+      'UID:interaction-' || i.id || '@counselorledger',
+      'DTSTAMP:' || v_stamp,
+      'DTSTART:' || TO_CHAR(i.start_time AT TIME ZONE 'UTC', 'YYYYMMDD"T"HH24MISS"Z"'),
+      'DTEND:' || TO_CHAR(i.end_time AT TIME ZONE 'UTC', 'YYYYMMDD"T"HH24MISS"Z"'),
+      'SUMMARY:' || ics_escape(i.summary),
+      'DESCRIPTION:' || ics_escape('Reason: ' || i.reason),
+      'CATEGORIES:' || ics_escape(i.category_name),
+      'END:VEVENT'
+    ]) AS event
+    FROM feed_interactions i
+    UNION ALL
+    SELECT i.follow_up_date, ics_lines(ARRAY[
+      'BEGIN:VEVENT',
+      'UID:follow-up-' || i.id || '@counselorledger',
+      'DTSTAMP:' || v_stamp,
+      'DTSTART;VALUE=DATE:' || TO_CHAR(i.follow_up_date AT TIME ZONE 'UTC', 'YYYYMMDD'),
+      'DTEND;VALUE=DATE:' || TO_CHAR((i.follow_up_date AT TIME ZONE 'UTC') + INTERVAL '1 day', 'YYYYMMDD'),
+      'SUMMARY:' || ics_escape('Follow-up: ' || i.summary),
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    ])
+    FROM feed_interactions i
+    WHERE i.needs_follow_up
+      AND NOT i.is_follow_up_complete
+      AND i.follow_up_date IS NOT NULL
+  )
+  SELECT string_agg(e.event, E'\r\n' ORDER BY e.sort_time)
+  INTO v_events
+  FROM event_lines e;
+
+  RETURN concat_ws(
+    E'\r\n',
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//CounselorLedger//Counselor Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:Counseling Schedule',
+    v_events,
+    'END:VCALENDAR'
+  ) || E'\r\n';
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Calendar clients cannot sign in, so the feed is reachable with the anon key
+GRANT EXECUTE ON FUNCTION calendar_feed(TEXT) TO anon, authenticated;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+-- Users can only manage their own feed
+CREATE POLICY calendar_feeds_select_policy ON calendar_feeds
+  FOR SELECT
+  USING (tenant_id = get_user_tenant_id() AND user_id = auth.uid());
+
+CREATE POLICY calendar_feeds_insert_policy ON calendar_feeds
+  FOR INSERT
+  WITH CHECK (tenant_id = get_user_tenant_id() AND user_id = auth.uid());
+
+CREATE POLICY calendar_feeds_update_policy ON calendar_feeds
+  FOR UPDATE
+  USING (tenant_id = get_user_tenant_id() AND user_id = auth.uid());
+
+CREATE POLICY calendar_feeds_delete_policy ON calendar_feeds
+  FOR DELETE
+  USING (tenant_id = get_user_tenant_id() AND user_id = auth.uid());
+
+-- ============================================================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================================================
+
+COMMENT ON TABLE calendar_feeds IS
+  'Per-user iCalendar subscription feed settings';
+
+COMMENT ON COLUMN calendar_feeds.token IS
+  'Secret token in the subscription URL; regenerate to revoke access';
+
+COMMENT ON COLUMN calendar_feeds.redact_student_names IS
+  'Show students as initials in the feed';
+
+COMMENT ON FUNCTION calendar_feed(TEXT) IS
+  'Returns the iCalendar document for the feed that owns the token';
@@ -0,0 +1,249 @@
+-- Group Interactions Migration
+-- This migration adds group counseling sessions: a single interaction with a
+-- list of student participants and per-participant attendance
+
+-- ============================================================================
+-- INTERACTIONS TABLE CHANGES
+-- ============================================================================
+
+ALTER TABLE interactions
+ADD COLUMN is_group BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Group sessions reference their students through interaction_participants,
+-- so they have neither a student nor a contact on the interaction itself
+ALTER TABLE interactions
+DROP CONSTRAINT IF EXISTS interactions_check;
+
+ALTER TABLE interactions
+ADD CONSTRAINT interactions_check
+CHECK (
+  (is_group AND student_id IS NULL AND contact_id IS NULL) OR
+  (NOT is_group AND student_id IS NOT NULL AND contact_id IS NULL) OR
+  (NOT is_group AND student_id IS NULL AND contact_id IS NOT NULL)
+);
+
+-- ============================================================================
+-- INTERACTION PARTICIPANTS TABLE
+-- ============================================================================
+-- Students taking part in a group session. Students who were expected but did
+-- not attend are kept with attended = FALSE so the roster is preserved.
+CREATE TABLE interaction_participants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  interaction_id UUID NOT NULL REFERENCES interactions(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  attended BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(interaction_id, student_id)
+);
+
+CREATE INDEX idx_interaction_participants_interaction ON interaction_participants(interaction_id);
+CREATE INDEX idx_interaction_participants_student ON interaction_participants(tenant_id, student_id);
+
+-- ============================================================================
+-- VIEWS
+-- ============================================================================
+
+-- Student statistics now include group sessions the student attended
+CREATE OR REPLACE VIEW student_stats AS
+SELECT
+  s.id,
+  s.tenant_id,
+  s.student_id,
+  s.first_name,
+  s.last_name,
+  s.grade_level,
+  s.needs_follow_up,
+  COUNT(i.id) AS interaction_count,
+  COALESCE(SUM(i.duration_minutes), 0) AS total_time_minutes,
+  MAX(i.start_time) AS last_interaction_date
+FROM students s
+LEFT JOIN (
+  -- Direct interactions and attended group sessions, each once per student
+  SELECT student_id, id AS interaction_id
+  FROM interactions
+  WHERE student_id IS NOT NULL
+  UNION
+  SELECT student_id, interaction_id
+  FROM interaction_participants
+  WHERE attended
+) seen ON seen.student_id = s.id
+LEFT JOIN interactions i ON i.id = seen.interaction_id
+GROUP BY s.id, s.tenant_id, s.student_id, s.first_name, s.last_name, s.grade_level, s.needs_follow_up;
+
+-- ============================================================================
+-- CALENDAR FEED
+-- ============================================================================
+
+-- Recreate the calendar feed so group sessions are titled by participant count
+CREATE OR REPLACE FUNCTION calendar_feed(token TEXT)
+RETURNS "text/calendar" AS $$
+DECLARE
+  v_feed calendar_feeds%ROWTYPE;
+  v_stamp TEXT := TO_CHAR(NOW() AT TIME ZONE 'UTC', 'YYYYMMDD"T"HH24MISS"Z"');
+  v_events TEXT;
+BEGIN
+  -- Feeds stop working while their owner is deactivated
+  SELECT cf.* INTO v_feed
+  FROM calendar_feeds cf
+  JOIN users u ON u.id = cf.user_id
+  WHERE cf.token = calendar_feed.token AND u.is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Calendar feed not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  WITH feed_interactions AS (
+    SELECT
+      i.*,
+      rc.name AS category_name,
+      COALESCE(rs.name, i.custom_reason) AS reason,
+      COALESCE(
+        CASE WHEN i.is_group THEN
+          'Group session (' || (
+            SELECT COUNT(*) FROM interaction_participants ip WHERE ip.interaction_id = i.id
+          ) || ')'
+        END,
+        ics_person_name(s.first_name, s.last_name, v_feed.redact_student_names),
+        c.first_name || ' ' || c.last_name
+          || COALESCE(
+            ' (re: ' || ics_person_name(r.first_name, r.last_name, v_feed.redact_student_names) || ')',
+            ''
+          ),
+        'Unknown'
+      ) || ' - ' || COALESCE(rc.name, 'Other') AS summary
+    FROM interactions i
+    LEFT JOIN students s ON s.id = i.student_id
+    LEFT JOIN contacts c ON c.id = i.contact_id
+    LEFT JOIN students r ON r.id = i.regarding_student_id
+    LEFT JOIN reason_categories rc ON rc.id = i.category_id
+    LEFT JOIN reason_subcategories rs ON rs.id = i.subcategory_id
+    WHERE i.tenant_id = v_feed.tenant_id
+      AND i.counselor_id = v_feed.user_id
+      AND (
+        i.start_time >= NOW() - INTERVAL '180 days'
+        OR (i.needs_follow_up AND NOT i.is_follow_up_complete)
+      )
+  ),
+  event_lines AS (
+    SELECT i.start_time AS sort_time, ics_lines(ARRAY[
+      'BEGIN:VEVENT',
+      'UID:interaction-' || i.id || '@counselorledger',
+      'DTSTAMP:' || v_stamp,
+      'DTSTART:' || TO_CHAR(i.start_time AT TIME ZONE 'UTC', 'YYYYMMDD"T"HH24MISS"Z"'),
+      'DTEND:' || TO_CHAR(i.end_time AT TIME ZONE 'UTC', 'YYYYMMDD"T"HH24MISS"Z"'),
+      'SUMMARY:' || ics_escape(i.summary),
+      'DESCRIPTION:' || ics_escape('Reason: ' || i.reason),
+      'CATEGORIES:' || ics_escape(i.category_name),
+      'END:VEVENT'
+    ]) AS event
+    FROM feed_interactions i
+    UNION ALL
+    SELECT i.follow_up_date, ics_lines(ARRAY[
+      'BEGIN:VEVENT',
+      'UID:follow-up-' || i.id || '@counselorledger',
+      'DTSTAMP:' || v_stamp,
+      'DTSTART;VALUE=DATE:' || TO_CHAR(i.follow_up_date AT TIME ZONE 'UTC', 'YYYYMMDD'),
+      'DTEND;VALUE=DATE:' || TO_CHAR((i.follow_up_date AT TIME ZONE 'UTC') + INTERVAL '1 day', 'YYYYMMDD'),
+      'SUMMARY:' || ics_escape('Follow-up: ' || i.summary),
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    ])
+    FROM feed_interactions i
+    WHERE i.needs_follow_up
+      AND NOT i.is_follow_up_complete
+      AND i.follow_up_date IS NOT NULL
+  )
+  SELECT string_agg(e.event, E'\r\n' ORDER BY e.sort_time)
+  INTO v_events
+  FROM event_lines e;
+
+  RETURN concat_ws(
+    E'\r\n',
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//CounselorLedger//Counselor Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:Counseling Schedule',
+    v_events,
+    'END:VCALENDAR'
+  ) || E'\r\n';
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE interaction_participants ENABLE ROW LEVEL SECURITY;
+
+-- Participants follow the visibility of their interaction
+CREATE POLICY interaction_participants_select_policy ON interaction_participants
+  FOR SELECT
+  USING (
+    tenant_id = get_user_tenant_id()
+    AND EXISTS (
+      SELECT 1 FROM interactions i
+      WHERE i.id = interaction_participants.interaction_id
+        AND (i.counselor_id = auth.uid() OR is_admin())
+    )
+  );
+
+-- Participants must be students of the caller's tenant
+CREATE POLICY interaction_participants_insert_policy ON interaction_participants
+  FOR INSERT
+  WITH CHECK (
+    tenant_id = get_user_tenant_id()
+    AND EXISTS (
+      SELECT 1 FROM interactions i
+      WHERE i.id = interaction_participants.interaction_id
+        AND i.is_group
+        AND (i.counselor_id = auth.uid() OR is_admin())
+    )
+    AND EXISTS (SELECT 1 FROM students s WHERE s.id = student_id AND s.tenant_id = get_user_tenant_id())
+  );
+
+CREATE POLICY interaction_participants_update_policy ON interaction_participants
+  FOR UPDATE
+  USING (
+    tenant_id = get_user_tenant_id()
+    AND EXISTS (
+      SELECT 1 FROM interactions i
+      WHERE i.id = interaction_participants.interaction_id
+        AND (i.counselor_id = auth.uid() OR is_admin())
+    )
+  )
+  WITH CHECK (
+    tenant_id = get_user_tenant_id()
+    AND EXISTS (
+      SELECT 1 FROM interactions i
+      WHERE i.id = interaction_participants.interaction_id
+        AND (i.counselor_id = auth.uid() OR is_admin())
+    )
+    AND EXISTS (SELECT 1 FROM students s WHERE s.id = student_id AND s.tenant_id = get_user_tenant_id())
+  );
+
+CREATE POLICY interaction_participants_delete_policy ON interaction_participants
+  FOR DELETE
+  USING (
+    tenant_id = get_user_tenant_id()
+    AND EXISTS (
+      SELECT 1 FROM interactions i
+      WHERE i.id = interaction_participants.interaction_id
+        AND (i.counselor_id = auth.uid() OR is_admin())
+    )
+  );
+
+-- ============================================================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================================================
+
+COMMENT ON COLUMN interactions.is_group IS
+  'Group session with students listed in interaction_participants';
+
+COMMENT ON TABLE interaction_participants IS
+  'Students taking part in a group interaction';
+
+COMMENT ON COLUMN interaction_participants.attended IS
+  'Whether the student attended; only attended students are credited with the session time';
@@ -0,0 +1,139 @@
+-- Note Encryption Keys Migration
+-- This migration adds per-tenant keys for envelope encryption of interaction
+-- notes and follow-up notes
+
+-- ============================================================================
+-- TENANT ENCRYPTION KEYS TABLE
+-- ============================================================================
+-- Each encrypted note carries its own data key, wrapped with one of these
+-- tenant keys. Rotation adds a new active version and re-wraps the data keys;
+-- retired versions are kept so notes that could not be re-wrapped stay readable.
+--
+-- Tenant keys are stored wrapped with a master key that only exists as a
+-- secret of the note-keys edge function, which wraps and unwraps data keys on
+-- behalf of signed-in users. The database, its backups and exports never
+-- hold a key that can open a note.
+CREATE TABLE tenant_encryption_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  version INT NOT NULL CHECK (version > 0),
+  wrapped_key TEXT NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  retired_at TIMESTAMPTZ,
+  UNIQUE(tenant_id, version)
+);
+
+-- Only one key per tenant encrypts new notes
+CREATE UNIQUE INDEX idx_tenant_encryption_keys_active
+  ON tenant_encryption_keys(tenant_id) WHERE is_active;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE tenant_encryption_keys ENABLE ROW LEVEL SECURITY;
+
+-- Users may see which key versions exist but never the wrapped key; keys are
+-- created and rotated by the note-keys edge function with the service role
+REVOKE ALL ON tenant_encryption_keys FROM anon, authenticated;
+GRANT SELECT (id, tenant_id, version, is_active, created_by, created_at, retired_at)
+  ON tenant_encryption_keys TO authenticated;
+
+CREATE POLICY tenant_encryption_keys_select_policy ON tenant_encryption_keys
+  FOR SELECT
+  USING (tenant_id = get_user_tenant_id());
+
+-- Keys are never deleted: notes wrapped with them would become unreadable
+
+-- ============================================================================
+-- KEY ROTATION FUNCTION
+-- ============================================================================
+
+-- Apply a key rotation prepared by the note-keys edge function in one
+-- transaction: retire the active key, add the new one and store the
+-- re-wrapped notes. A note that changed since the function read it keeps its
+-- current value (it is still readable with the retired key) and is counted as
+-- skipped.
+CREATE OR REPLACE FUNCTION apply_note_key_rotation(
+  p_tenant_id UUID,
+  p_expected_version INT,
+  p_version INT,
+  p_wrapped_key TEXT,
+  p_created_by UUID,
+  p_notes JSONB
+)
+RETURNS INT AS $$
+DECLARE
+  v_active_version INT;
+  v_note JSONB;
+  v_skipped INT := 0;
+BEGIN
+  -- Serialize rotations of the same tenant
+  PERFORM pg_advisory_xact_lock(hashtext('note_key_rotation:' || p_tenant_id::TEXT));
+
+  SELECT version INTO v_active_version
+  FROM tenant_encryption_keys
+  WHERE tenant_id = p_tenant_id AND is_active;
+
+  IF v_active_version IS DISTINCT FROM p_expected_version THEN
+    RAISE EXCEPTION 'The encryption key was rotated by someone else; try again'
+      USING ERRCODE = '40001';
+  END IF;
+
+  UPDATE tenant_encryption_keys
+  SET is_active = FALSE, retired_at = NOW()
+  WHERE tenant_id = p_tenant_id AND is_active;
+
+  INSERT INTO tenant_encryption_keys (tenant_id, version, wrapped_key, is_active, created_by)
+  VALUES (p_tenant_id, p_version, p_wrapped_key, TRUE, p_created_by);
+
+  FOR v_note IN SELECT * FROM jsonb_array_elements(COALESCE(p_notes, '[]'::JSONB))
+  LOOP
+    UPDATE interactions
+    SET
+      notes = CASE WHEN v_note ? 'notes' THEN v_note->>'notes' ELSE notes END,
+      follow_up_notes = CASE
+        WHEN v_note ? 'follow_up_notes' THEN v_note->>'follow_up_notes'
+        ELSE follow_up_notes
+      END
+    WHERE id = (v_note->>'id')::UUID
+      AND tenant_id = p_tenant_id
+      AND notes IS NOT DISTINCT FROM v_note->>'previous_notes'
+      AND follow_up_notes IS NOT DISTINCT FROM v_note->>'previous_follow_up_notes';
+
+    IF NOT FOUND THEN
+      v_skipped := v_skipped + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_skipped;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the edge function (service role) may rotate keys
+REVOKE EXECUTE ON FUNCTION apply_note_key_rotation(UUID, INT, INT, TEXT, UUID, JSONB)
+  FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================================================
+
+COMMENT ON TABLE tenant_encryption_keys IS
+  'Per-tenant key versions used to wrap the data keys of encrypted interaction notes';
+
+COMMENT ON COLUMN tenant_encryption_keys.wrapped_key IS
+  'Base64-encoded AES-256 tenant key, wrapped (AES-KW) with the note-keys edge function master key';
+
+COMMENT ON COLUMN tenant_encryption_keys.is_active IS
+  'Whether new notes are encrypted under this version';
+
+COMMENT ON FUNCTION apply_note_key_rotation(UUID, INT, INT, TEXT, UUID, JSONB) IS
+  'Atomically activates a new tenant key and stores notes re-wrapped with it (service role only)';
+
+COMMENT ON COLUMN interactions.notes IS
+  'Counseling notes; encrypted as enc:v1:<key version>:<wrapped key>:<iv>:<ciphertext>';
+
+COMMENT ON COLUMN interactions.follow_up_notes IS
+  'Follow-up notes; encrypted in the same format as notes';
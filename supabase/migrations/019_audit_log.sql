@@ -0,0 +1,259 @@
+-- Audit Log Migration
+-- This migration adds an append-only audit trail of changes to students,
+-- contacts and interactions, and of views of student records
+
+-- ============================================================================
+-- AUDIT LOG TABLE
+-- ============================================================================
+-- Entries are written only by the triggers and function below. Record and
+-- student IDs are not foreign keys so entries outlive the records they describe;
+-- names are copied at the time of the event for the same reason. Entries are
+-- removed only together with their tenant.
+CREATE TABLE audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  user_id UUID,
+  action TEXT NOT NULL CHECK (action IN ('CREATE', 'UPDATE', 'DELETE', 'VIEW')),
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('student', 'contact', 'interaction', 'participant')),
+  entity_id UUID NOT NULL,
+  record_label TEXT,
+  student_id UUID,
+  student_name TEXT,
+  before JSONB,
+  after JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_audit_log_tenant_time ON audit_log(tenant_id, created_at DESC);
+CREATE INDEX idx_audit_log_user ON audit_log(tenant_id, user_id, created_at DESC);
+CREATE INDEX idx_audit_log_student ON audit_log(tenant_id, student_id, created_at DESC);
+
+-- ============================================================================
+-- IMMUTABILITY
+-- ============================================================================
+
+-- Deleting a tenant cascades to its entries; nothing else may remove them
+CREATE OR REPLACE FUNCTION prevent_audit_log_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' AND NOT EXISTS (SELECT 1 FROM tenants WHERE id = OLD.tenant_id) THEN
+    RETURN OLD;
+  END IF;
+
+  RAISE EXCEPTION 'The audit log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER audit_log_immutable
+  BEFORE UPDATE OR DELETE ON audit_log
+  FOR EACH ROW EXECUTE FUNCTION prevent_audit_log_changes();
+
+CREATE TRIGGER audit_log_no_truncate
+  BEFORE TRUNCATE ON audit_log
+  FOR EACH STATEMENT EXECUTE FUNCTION prevent_audit_log_changes();
+
+-- ============================================================================
+-- CHANGE TRACKING
+-- ============================================================================
+
+-- Note columns are free text (plaintext until encrypted, re-wrapped on key
+-- rotation), so the log records only whether they were set, never their value
+CREATE OR REPLACE FUNCTION audit_redact_notes(p_values JSONB)
+RETURNS JSONB AS $$
+  SELECT jsonb_object_agg(
+    e.key,
+    CASE
+      WHEN e.key IN ('notes', 'follow_up_notes') AND e.value <> 'null'::JSONB
+        THEN to_jsonb('[redacted]'::TEXT)
+      ELSE e.value
+    END
+  )
+  FROM jsonb_each(p_values) e;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Record a create, update or delete. Updates store only the changed columns.
+CREATE OR REPLACE FUNCTION audit_record_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_old JSONB := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  v_new JSONB := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  v_row JSONB := COALESCE(v_new, v_old);
+  v_before JSONB := v_old;
+  v_after JSONB := v_new;
+  v_entity_type TEXT;
+  v_entity_id UUID := (v_row ->> 'id')::UUID;
+  v_label TEXT;
+  v_student_id UUID;
+  v_student_name TEXT;
+BEGIN
+  -- The record is going away with its tenant, which takes the log with it
+  IF TG_OP = 'DELETE'
+    AND NOT EXISTS (SELECT 1 FROM tenants WHERE id = (v_row ->> 'tenant_id')::UUID) THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT jsonb_object_agg(n.key, v_old -> n.key), jsonb_object_agg(n.key, n.value)
+    INTO v_before, v_after
+    FROM jsonb_each(v_new) n
+    WHERE n.key <> 'updated_at'
+      AND v_old -> n.key IS DISTINCT FROM n.value;
+
+    -- Nothing but the timestamp changed
+    IF v_after IS NULL THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  v_before := audit_redact_notes(v_before);
+  v_after := audit_redact_notes(v_after);
+
+  CASE TG_TABLE_NAME
+    WHEN 'students' THEN
+      v_entity_type := 'student';
+      v_student_id := v_entity_id;
+      v_label := concat_ws(' ', v_row ->> 'first_name', v_row ->> 'last_name');
+    WHEN 'contacts' THEN
+      v_entity_type := 'contact';
+      v_label := concat_ws(' ', v_row ->> 'first_name', v_row ->> 'last_name');
+    WHEN 'interactions' THEN
+      v_entity_type := 'interaction';
+      v_student_id := COALESCE(
+        (v_row ->> 'student_id')::UUID,
+        (v_row ->> 'regarding_student_id')::UUID
+      );
+      v_label := 'Interaction on ' || TO_CHAR((v_row ->> 'start_time')::TIMESTAMPTZ, 'YYYY-MM-DD');
+    WHEN 'interaction_participants' THEN
+      -- Participants are logged against their group interaction
+      v_entity_type := 'participant';
+      v_entity_id := (v_row ->> 'interaction_id')::UUID;
+      v_student_id := (v_row ->> 'student_id')::UUID;
+      v_label := 'Group session participant';
+  END CASE;
+
+  IF v_student_id IS NOT NULL THEN
+    IF v_entity_type = 'student' THEN
+      v_student_name := v_label;
+    ELSE
+      SELECT s.first_name || ' ' || s.last_name INTO v_student_name
+      FROM students s WHERE s.id = v_student_id;
+    END IF;
+  END IF;
+
+  INSERT INTO audit_log (
+    tenant_id,
+    user_id,
+    action,
+    entity_type,
+    entity_id,
+    record_label,
+    student_id,
+    student_name,
+    before,
+    after
+  ) VALUES (
+    (v_row ->> 'tenant_id')::UUID,
+    auth.uid(),
+    CASE TG_OP WHEN 'INSERT' THEN 'CREATE' WHEN 'UPDATE' THEN 'UPDATE' ELSE 'DELETE' END,
+    v_entity_type,
+    v_entity_id,
+    v_label,
+    v_student_id,
+    v_student_name,
+    v_before,
+    v_after
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER audit_students
+  AFTER INSERT OR UPDATE OR DELETE ON students
+  FOR EACH ROW EXECUTE FUNCTION audit_record_change();
+
+CREATE TRIGGER audit_contacts
+  AFTER INSERT OR UPDATE OR DELETE ON contacts
+  FOR EACH ROW EXECUTE FUNCTION audit_record_change();
+
+CREATE TRIGGER audit_interactions
+  AFTER INSERT OR UPDATE OR DELETE ON interactions
+  FOR EACH ROW EXECUTE FUNCTION audit_record_change();
+
+CREATE TRIGGER audit_interaction_participants
+  AFTER INSERT OR UPDATE OR DELETE ON interaction_participants
+  FOR EACH ROW EXECUTE FUNCTION audit_record_change();
+
+-- ============================================================================
+-- VIEW TRACKING
+-- ============================================================================
+
+-- Record that the current user opened a student's record
+CREATE OR REPLACE FUNCTION log_student_view(p_student_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_student students%ROWTYPE;
+BEGIN
+  SELECT * INTO v_student
+  FROM students
+  WHERE id = p_student_id AND tenant_id = get_user_tenant_id();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Student not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO audit_log (
+    tenant_id,
+    user_id,
+    action,
+    entity_type,
+    entity_id,
+    record_label,
+    student_id,
+    student_name
+  ) VALUES (
+    v_student.tenant_id,
+    auth.uid(),
+    'VIEW',
+    'student',
+    v_student.id,
+    v_student.first_name || ' ' || v_student.last_name,
+    v_student.id,
+    v_student.first_name || ' ' || v_student.last_name
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Only admins can review the audit log. There are no insert, update or delete
+-- policies: entries are written by the functions above.
+CREATE POLICY audit_log_select_policy ON audit_log
+  FOR SELECT
+  USING (tenant_id = get_user_tenant_id() AND is_admin());
+
+-- ============================================================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================================================
+
+COMMENT ON TABLE audit_log IS
+  'Append-only record of who created, changed, deleted or viewed student-related records';
+
+COMMENT ON COLUMN audit_log.entity_id IS
+  'ID of the affected record; for participants, the group interaction';
+
+COMMENT ON COLUMN audit_log.before IS
+  'Previous values: the full row for deletes, only the changed columns for updates; notes are redacted';
+
+COMMENT ON COLUMN audit_log.after IS
+  'New values: the full row for creates, only the changed columns for updates';
+
+COMMENT ON FUNCTION audit_redact_notes(JSONB) IS
+  'Replaces note values in audited columns with a [redacted] marker';
+
+COMMENT ON FUNCTION log_student_view(UUID) IS
+  'Logs a view of a student record by the current user';
@@ -0,0 +1,71 @@
+-- Email Deliveries Migration
+-- This migration adds a delivery log for outgoing email so admins can see
+-- whether an invitation was sent, retried, failed or bounced
+
+-- ============================================================================
+-- EMAIL DELIVERIES TABLE
+-- ============================================================================
+-- One row per email. Retries update the same row; status stays 'queued' while
+-- attempts remain and becomes 'failed' once they are used up. 'bounced' means
+-- the mail server permanently rejected the recipient or message.
+CREATE TABLE email_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  invitation_id UUID REFERENCES invitations(id) ON DELETE SET NULL,
+  template TEXT NOT NULL CHECK (template IN ('invitation', 'setup_confirmation')),
+  recipient TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  transport TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'sent', 'failed', 'bounced')),
+  attempts INT NOT NULL DEFAULT 0 CHECK (attempts >= 0),
+  last_error TEXT,
+  provider_message_id TEXT,
+  last_attempt_at TIMESTAMPTZ,
+  sent_at TIMESTAMPTZ,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_email_deliveries_tenant_time ON email_deliveries(tenant_id, created_at DESC);
+CREATE INDEX idx_email_deliveries_invitation ON email_deliveries(invitation_id);
+CREATE INDEX idx_email_deliveries_recipient ON email_deliveries(tenant_id, recipient);
+
+CREATE TRIGGER update_email_deliveries_updated_at
+  BEFORE UPDATE ON email_deliveries
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE email_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Only admins send invitation and setup email, so only admins see and record it
+CREATE POLICY email_deliveries_select_policy ON email_deliveries
+  FOR SELECT
+  USING (tenant_id = get_user_tenant_id() AND is_admin());
+
+CREATE POLICY email_deliveries_insert_policy ON email_deliveries
+  FOR INSERT
+  WITH CHECK (tenant_id = get_user_tenant_id() AND is_admin());
+
+CREATE POLICY email_deliveries_update_policy ON email_deliveries
+  FOR UPDATE
+  USING (tenant_id = get_user_tenant_id() AND is_admin());
+
+-- ============================================================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================================================
+
+COMMENT ON TABLE email_deliveries IS
+  'Delivery history of outgoing email such as invitations and setup confirmations';
+
+COMMENT ON COLUMN email_deliveries.transport IS
+  'Transport that handled the email, e.g. smtp or console';
+
+COMMENT ON COLUMN email_deliveries.status IS
+  'queued (waiting or retrying), sent, failed (retries used up) or bounced (permanently rejected)';
+
+COMMENT ON COLUMN email_deliveries.last_error IS
+  'Error from the most recent failed attempt, including the SMTP reply when available';
@@ -0,0 +1,223 @@
+-- Email Queue Migration
+-- This migration turns email_deliveries into a persistent queue. The browser
+-- only enqueues email; the email-worker edge function claims due rows, sends
+-- them and schedules retries, so closing a tab no longer drops pending email.
+
+-- ============================================================================
+-- QUEUE COLUMNS
+-- ============================================================================
+
+ALTER TABLE email_deliveries
+  ADD COLUMN idempotency_key TEXT,
+  ADD COLUMN html_body TEXT,
+  ADD COLUMN text_body TEXT,
+  ADD COLUMN max_attempts INT NOT NULL DEFAULT 3 CHECK (max_attempts BETWEEN 1 AND 10),
+  ADD COLUMN retry_delay_ms INT NOT NULL DEFAULT 1000 CHECK (retry_delay_ms BETWEEN 1000 AND 3600000),
+  ADD COLUMN max_retry_delay_ms INT NOT NULL DEFAULT 30000 CHECK (max_retry_delay_ms BETWEEN 1000 AND 86400000),
+  ADD COLUMN next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  ADD COLUMN locked_until TIMESTAMPTZ,
+  ADD COLUMN dead_lettered_at TIMESTAMPTZ;
+
+-- The worker records which transport sent the email
+ALTER TABLE email_deliveries ALTER COLUMN transport DROP NOT NULL;
+
+-- Rows queued by the old in-browser queue have no body to send
+UPDATE email_deliveries
+SET status = 'failed',
+    last_error = COALESCE(last_error, 'Dropped when the email queue moved to the server'),
+    dead_lettered_at = NOW()
+WHERE status = 'queued';
+
+-- The same email is only queued once per tenant, e.g. one per invitation token
+CREATE UNIQUE INDEX idx_email_deliveries_idempotency
+  ON email_deliveries(tenant_id, idempotency_key)
+  WHERE idempotency_key IS NOT NULL;
+
+CREATE INDEX idx_email_deliveries_due
+  ON email_deliveries(next_attempt_at)
+  WHERE status = 'queued';
+
+-- ============================================================================
+-- ACCESS
+-- ============================================================================
+
+-- Bodies can contain invitation links, so only the worker (service role) reads them
+REVOKE SELECT ON email_deliveries FROM anon, authenticated;
+GRANT SELECT (
+  id, tenant_id, invitation_id, template, recipient, subject, transport, status,
+  attempts, last_error, provider_message_id, last_attempt_at, sent_at, created_by,
+  created_at, updated_at, idempotency_key, max_attempts, next_attempt_at, dead_lettered_at
+) ON email_deliveries TO authenticated;
+
+-- Delivery attempts are recorded by the worker only
+DROP POLICY IF EXISTS email_deliveries_update_policy ON email_deliveries;
+
+-- The app queues email through enqueue_email_delivery(), which checks the recipient
+DROP POLICY IF EXISTS email_deliveries_insert_policy ON email_deliveries;
+
+-- ============================================================================
+-- APP FUNCTIONS
+-- ============================================================================
+
+-- Queue an invitation or setup confirmation from the app. The recipient must
+-- be the invitee of a pending invitation or an active admin of the caller's
+-- tenant, so admins cannot send mail to arbitrary addresses through the
+-- school's mail account. Returns the existing delivery for a repeated
+-- idempotency key.
+CREATE OR REPLACE FUNCTION enqueue_email_delivery(
+  p_template TEXT,
+  p_recipient TEXT,
+  p_subject TEXT,
+  p_html_body TEXT,
+  p_text_body TEXT,
+  p_max_attempts INT,
+  p_retry_delay_ms INT,
+  p_max_retry_delay_ms INT,
+  p_invitation_id UUID DEFAULT NULL,
+  p_idempotency_key TEXT DEFAULT NULL
+) RETURNS UUID AS $$
+DECLARE
+  v_tenant_id UUID := get_user_tenant_id();
+  v_delivery_id UUID;
+BEGIN
+  IF v_tenant_id IS NULL OR NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can send email' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_template = 'invitation' THEN
+    IF NOT EXISTS (
+      SELECT 1
+      FROM invitations i
+      WHERE i.id = p_invitation_id
+        AND i.tenant_id = v_tenant_id
+        AND i.accepted_at IS NULL
+        AND LOWER(i.email) = LOWER(p_recipient)
+    ) THEN
+      RAISE EXCEPTION 'Invitation email must go to the invitee' USING ERRCODE = '22023';
+    END IF;
+  ELSIF p_template = 'setup_confirmation' THEN
+    IF p_invitation_id IS NOT NULL OR NOT EXISTS (
+      SELECT 1
+      FROM users u
+      WHERE u.tenant_id = v_tenant_id
+        AND u.role = 'ADMIN'
+        AND u.is_active = TRUE
+        AND LOWER(u.email) = LOWER(p_recipient)
+    ) THEN
+      RAISE EXCEPTION 'Setup confirmation must go to an admin' USING ERRCODE = '22023';
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'Unknown email template %', p_template USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO email_deliveries (
+    tenant_id, invitation_id, idempotency_key, template, recipient, subject,
+    html_body, text_body, max_attempts, retry_delay_ms, max_retry_delay_ms, created_by
+  ) VALUES (
+    v_tenant_id, p_invitation_id, p_idempotency_key, p_template, p_recipient, p_subject,
+    p_html_body, p_text_body, p_max_attempts, p_retry_delay_ms, p_max_retry_delay_ms, auth.uid()
+  )
+  ON CONFLICT (tenant_id, idempotency_key) WHERE idempotency_key IS NOT NULL DO NOTHING
+  RETURNING id INTO v_delivery_id;
+
+  IF v_delivery_id IS NULL THEN
+    SELECT ed.id INTO v_delivery_id
+    FROM email_deliveries ed
+    WHERE ed.tenant_id = v_tenant_id
+      AND ed.idempotency_key = p_idempotency_key;
+  END IF;
+
+  RETURN v_delivery_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- WORKER FUNCTIONS
+-- ============================================================================
+
+-- Claim due emails for sending. Each claimed row counts as an attempt and is
+-- leased so concurrent workers skip it; if a worker dies mid-send the lease
+-- expires and the email is picked up again.
+CREATE OR REPLACE FUNCTION claim_email_deliveries(
+  p_limit INT DEFAULT 20,
+  p_lease_seconds INT DEFAULT 120
+) RETURNS SETOF email_deliveries AS $$
+BEGIN
+  -- Dead-letter emails whose worker stopped during their final attempt
+  UPDATE email_deliveries
+  SET status = 'failed',
+      last_error = COALESCE(last_error, 'Worker stopped during the final attempt'),
+      dead_lettered_at = NOW(),
+      locked_until = NULL,
+      html_body = NULL,
+      text_body = NULL
+  WHERE status = 'queued'
+    AND attempts >= max_attempts
+    AND locked_until < NOW();
+
+  RETURN QUERY
+  UPDATE email_deliveries
+  SET attempts = attempts + 1,
+      last_attempt_at = NOW(),
+      locked_until = NOW() + make_interval(secs => p_lease_seconds)
+  WHERE id IN (
+    SELECT id
+    FROM email_deliveries
+    WHERE status = 'queued'
+      AND attempts < max_attempts
+      AND next_attempt_at <= NOW()
+      AND (locked_until IS NULL OR locked_until < NOW())
+    ORDER BY next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION claim_email_deliveries(INT, INT) FROM PUBLIC, anon, authenticated;
+
+-- Queue counts for the current user's tenant
+CREATE OR REPLACE FUNCTION email_queue_status()
+RETURNS TABLE (
+  pending BIGINT,
+  sending BIGINT,
+  dead_lettered BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    COUNT(*) FILTER (
+      WHERE ed.status = 'queued' AND (ed.locked_until IS NULL OR ed.locked_until < NOW())
+    ),
+    COUNT(*) FILTER (WHERE ed.status = 'queued' AND ed.locked_until >= NOW()),
+    COUNT(*) FILTER (WHERE ed.dead_lettered_at IS NOT NULL)
+  FROM email_deliveries ed
+  WHERE ed.tenant_id = get_user_tenant_id();
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- ============================================================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================================================
+
+COMMENT ON COLUMN email_deliveries.idempotency_key IS
+  'Caller-supplied key; enqueueing the same key twice returns the existing delivery';
+
+COMMENT ON COLUMN email_deliveries.html_body IS
+  'Rendered body, cleared once the email is sent or dead-lettered';
+
+COMMENT ON COLUMN email_deliveries.max_retry_delay_ms IS
+  'Upper bound on the exponential backoff between attempts';
+
+COMMENT ON COLUMN email_deliveries.locked_until IS
+  'Lease held by the worker while sending; expired leases are claimed again';
+
+COMMENT ON COLUMN email_deliveries.dead_lettered_at IS
+  'When the email was given up on after max_attempts';
+
+COMMENT ON FUNCTION claim_email_deliveries(INT, INT) IS
+  'Lease due emails to the email-worker edge function (service role only)';
+
+COMMENT ON FUNCTION enqueue_email_delivery(TEXT, TEXT, TEXT, TEXT, TEXT, INT, INT, INT, UUID, TEXT) IS
+  'Queue an invitation or setup confirmation for its invitee or a tenant admin (admins only)';
@@ -0,0 +1,59 @@
+-- Email Templates Migration
+-- This migration lets each tenant override the built-in invitation and setup
+-- confirmation emails. Tenants without an override get the built-in default.
+
+-- ============================================================================
+-- EMAIL TEMPLATES TABLE
+-- ============================================================================
+-- html_body is a sanitized body fragment; the app wraps it in the shared email
+-- layout when rendering.
+CREATE TABLE email_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  template TEXT NOT NULL CHECK (template IN ('invitation', 'setup_confirmation')),
+  subject TEXT NOT NULL CHECK (length(subject) BETWEEN 1 AND 255),
+  html_body TEXT NOT NULL,
+  text_body TEXT NOT NULL,
+  updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (tenant_id, template)
+);
+
+CREATE TRIGGER update_email_templates_updated_at
+  BEFORE UPDATE ON email_templates
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE email_templates ENABLE ROW LEVEL SECURITY;
+
+-- Templates are rendered by admins (invitations, setup), so only admins need them
+CREATE POLICY email_templates_select_policy ON email_templates
+  FOR SELECT
+  USING (tenant_id = get_user_tenant_id() AND is_admin());
+
+CREATE POLICY email_templates_insert_policy ON email_templates
+  FOR INSERT
+  WITH CHECK (tenant_id = get_user_tenant_id() AND is_admin());
+
+CREATE POLICY email_templates_update_policy ON email_templates
+  FOR UPDATE
+  USING (tenant_id = get_user_tenant_id() AND is_admin())
+  WITH CHECK (tenant_id = get_user_tenant_id() AND is_admin());
+
+CREATE POLICY email_templates_delete_policy ON email_templates
+  FOR DELETE
+  USING (tenant_id = get_user_tenant_id() AND is_admin());
+
+-- ============================================================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================================================
+
+COMMENT ON TABLE email_templates IS
+  'Tenant overrides of the built-in email templates; deleting a row restores the default';
+
+COMMENT ON COLUMN email_templates.html_body IS
+  'Sanitized HTML body fragment with {{variable}} and {{#if variable}} placeholders';
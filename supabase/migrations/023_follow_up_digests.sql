@@ -0,0 +1,158 @@
+-- Follow-up Digests Migration
+-- This migration adds scheduled email digests of each counselor's overdue and
+-- upcoming follow-ups. The follow-up-digest edge function picks the users that
+-- are due and queues their digest in email_deliveries; the email-worker sends
+-- and retries it like any other email.
+
+-- ============================================================================
+-- TENANT SETTING
+-- ============================================================================
+
+-- Digests show students as first name and last initial unless the tenant opts in
+ALTER TABLE tenants
+  ADD COLUMN digest_include_surnames BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- ============================================================================
+-- DIGEST PREFERENCES TABLE
+-- ============================================================================
+-- One row per user. Users without a row get the defaults: a daily digest,
+-- skipped on Saturday and Sunday, in UTC. Days are 0 (Sunday) to 6 (Saturday).
+CREATE TABLE follow_up_digest_preferences (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+  cadence TEXT NOT NULL DEFAULT 'daily' CHECK (cadence IN ('daily', 'weekly', 'off')),
+  weekly_day SMALLINT NOT NULL DEFAULT 1 CHECK (weekly_day BETWEEN 0 AND 6),
+  quiet_days SMALLINT[] NOT NULL DEFAULT '{0,6}'
+    CHECK (quiet_days <@ '{0,1,2,3,4,5,6}'::SMALLINT[]),
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  last_digest_on DATE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (cadence <> 'weekly' OR NOT (weekly_day = ANY(quiet_days)))
+);
+
+CREATE INDEX idx_follow_up_digest_preferences_tenant ON follow_up_digest_preferences(tenant_id);
+
+CREATE TRIGGER update_follow_up_digest_preferences_updated_at
+  BEFORE UPDATE ON follow_up_digest_preferences
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- Digests are logged alongside invitation and setup email
+ALTER TABLE email_deliveries
+  DROP CONSTRAINT email_deliveries_template_check,
+  ADD CONSTRAINT email_deliveries_template_check
+    CHECK (template IN ('invitation', 'setup_confirmation', 'follow_up_digest'));
+
+-- ============================================================================
+-- DIGEST SCHEDULING
+-- ============================================================================
+
+-- Users whose digest should go out now: from 7am on a non-quiet day in their
+-- timezone (any day for daily, their chosen day for weekly), at most once per
+-- local day, and only when they have follow-ups that are overdue or due before
+-- due_before (end of tomorrow for daily, the next 7 days for weekly). Unknown
+-- timezones fall back to UTC.
+CREATE OR REPLACE FUNCTION due_follow_up_digests(p_now TIMESTAMPTZ DEFAULT NOW())
+RETURNS TABLE (
+  user_id UUID,
+  tenant_id UUID,
+  tenant_name TEXT,
+  email TEXT,
+  first_name TEXT,
+  cadence TEXT,
+  timezone TEXT,
+  digest_date DATE,
+  due_before TIMESTAMPTZ,
+  include_surnames BOOLEAN
+) AS $$
+  WITH settings AS (
+    SELECT
+      u.id,
+      u.tenant_id,
+      u.email,
+      u.first_name,
+      COALESCE(p.cadence, 'daily') AS cadence,
+      COALESCE(p.weekly_day, 1) AS weekly_day,
+      COALESCE(p.quiet_days, '{0,6}') AS quiet_days,
+      COALESCE(tz.name, 'UTC') AS timezone,
+      p.last_digest_on,
+      p_now AT TIME ZONE COALESCE(tz.name, 'UTC') AS local_time
+    FROM users u
+    LEFT JOIN follow_up_digest_preferences p ON p.user_id = u.id
+    LEFT JOIN pg_timezone_names tz ON tz.name = p.timezone
+    WHERE u.is_active = TRUE
+  ),
+  due AS (
+    SELECT
+      s.*,
+      s.local_time::DATE AS digest_date,
+      (s.local_time::DATE + CASE WHEN s.cadence = 'weekly' THEN 7 ELSE 2 END)::TIMESTAMP
+        AT TIME ZONE s.timezone AS due_before
+    FROM settings s
+    WHERE s.cadence <> 'off'
+      AND EXTRACT(HOUR FROM s.local_time) >= 7
+      AND NOT (EXTRACT(DOW FROM s.local_time)::SMALLINT = ANY(s.quiet_days))
+      AND (s.cadence = 'daily' OR EXTRACT(DOW FROM s.local_time) = s.weekly_day)
+      AND s.last_digest_on IS DISTINCT FROM s.local_time::DATE
+  )
+  SELECT
+    d.id,
+    d.tenant_id,
+    t.name,
+    d.email,
+    d.first_name,
+    d.cadence,
+    d.timezone,
+    d.digest_date,
+    d.due_before,
+    t.digest_include_surnames
+  FROM due d
+  JOIN tenants t ON t.id = d.tenant_id
+  WHERE EXISTS (
+    SELECT 1
+    FROM pending_follow_ups pf
+    WHERE pf.tenant_id = d.tenant_id
+      AND pf.counselor_id = d.id
+      AND pf.follow_up_date < d.due_before
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Returns users of every tenant, so only the digest function may call it
+REVOKE EXECUTE ON FUNCTION due_follow_up_digests(TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE follow_up_digest_preferences ENABLE ROW LEVEL SECURITY;
+
+-- Users manage only their own digest preferences
+CREATE POLICY follow_up_digest_preferences_select_policy ON follow_up_digest_preferences
+  FOR SELECT
+  USING (tenant_id = get_user_tenant_id() AND user_id = auth.uid());
+
+CREATE POLICY follow_up_digest_preferences_insert_policy ON follow_up_digest_preferences
+  FOR INSERT
+  WITH CHECK (tenant_id = get_user_tenant_id() AND user_id = auth.uid());
+
+CREATE POLICY follow_up_digest_preferences_update_policy ON follow_up_digest_preferences
+  FOR UPDATE
+  USING (tenant_id = get_user_tenant_id() AND user_id = auth.uid())
+  WITH CHECK (tenant_id = get_user_tenant_id() AND user_id = auth.uid());
+
+-- ============================================================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================================================
+
+COMMENT ON TABLE follow_up_digest_preferences IS
+  'Per-user cadence, quiet days and timezone for the follow-up digest email';
+
+COMMENT ON COLUMN follow_up_digest_preferences.last_digest_on IS
+  'Local date of the last digest queued for the user, set by the follow-up-digest function';
+
+COMMENT ON COLUMN tenants.digest_include_surnames IS
+  'Show full student and contact names in follow-up digests instead of last initials';
+
+COMMENT ON FUNCTION due_follow_up_digests(TIMESTAMPTZ) IS
+  'Users whose follow-up digest is due now (service role only)';
@@ -0,0 +1,509 @@
+-- Follow-up Tasks Migration
+-- This migration makes follow-ups tasks with their own assignee, so a counselor
+-- can hand a follow-up to a colleague and admins can reassign everything a
+-- departing counselor owns. The interaction keeps the follow-up date, notes and
+-- completion flag; the task records who is responsible for it and the note
+-- left when it was completed.
+
+-- ============================================================================
+-- FOLLOW-UP TASKS TABLE
+-- ============================================================================
+-- One task per interaction that needs a follow-up, created and kept in sync by
+-- the interactions trigger below. Tasks are only reassigned through
+-- reassign_follow_up_task() and reassign_follow_up_tasks().
+CREATE TABLE follow_up_tasks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  interaction_id UUID NOT NULL UNIQUE REFERENCES interactions(id) ON DELETE CASCADE,
+  assigned_to UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  assigned_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ,
+  completed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  completion_note TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_follow_up_tasks_tenant ON follow_up_tasks(tenant_id);
+CREATE INDEX idx_follow_up_tasks_open ON follow_up_tasks(assigned_to)
+  WHERE completed_at IS NULL;
+
+CREATE TRIGGER update_follow_up_tasks_updated_at
+  BEFORE UPDATE ON follow_up_tasks
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- ============================================================================
+-- ASSIGNMENT HISTORY TABLE
+-- ============================================================================
+-- Append-only record of who owned each task. The first row (from_user_id NULL)
+-- is the counselor who recorded the interaction. Handoff notes are encrypted
+-- in the app like interaction notes; key rotation does not re-wrap them, but
+-- retired keys are kept so they stay readable.
+CREATE TABLE follow_up_task_assignments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  task_id UUID NOT NULL REFERENCES follow_up_tasks(id) ON DELETE CASCADE,
+  from_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  to_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  assigned_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  note TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_follow_up_task_assignments_task ON follow_up_task_assignments(task_id, created_at);
+
+-- Existing follow-ups belong to the counselor who recorded the interaction
+INSERT INTO follow_up_tasks (tenant_id, interaction_id, assigned_to, assigned_at, completed_at)
+SELECT
+  i.tenant_id,
+  i.id,
+  i.counselor_id,
+  i.created_at,
+  CASE WHEN i.is_follow_up_complete THEN COALESCE(i.follow_up_completed_at, i.updated_at) END
+FROM interactions i
+WHERE i.needs_follow_up = TRUE;
+
+INSERT INTO follow_up_task_assignments (tenant_id, task_id, to_user_id, assigned_by, created_at)
+SELECT t.tenant_id, t.id, t.assigned_to, t.assigned_to, t.assigned_at
+FROM follow_up_tasks t;
+
+-- ============================================================================
+-- TASK SYNC
+-- ============================================================================
+
+-- Create the task when an interaction needs a follow-up, track completion, and
+-- remove it when the follow-up is no longer needed
+CREATE OR REPLACE FUNCTION sync_follow_up_task()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_task follow_up_tasks%ROWTYPE;
+BEGIN
+  IF NOT COALESCE(NEW.needs_follow_up, FALSE) THEN
+    DELETE FROM follow_up_tasks WHERE interaction_id = NEW.id;
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_task FROM follow_up_tasks WHERE interaction_id = NEW.id;
+
+  IF NOT FOUND THEN
+    INSERT INTO follow_up_tasks (tenant_id, interaction_id, assigned_to, completed_at, completed_by)
+    VALUES (
+      NEW.tenant_id,
+      NEW.id,
+      NEW.counselor_id,
+      CASE WHEN NEW.is_follow_up_complete THEN COALESCE(NEW.follow_up_completed_at, NOW()) END,
+      CASE WHEN NEW.is_follow_up_complete THEN auth.uid() END
+    )
+    RETURNING * INTO v_task;
+
+    INSERT INTO follow_up_task_assignments (tenant_id, task_id, to_user_id, assigned_by)
+    VALUES (NEW.tenant_id, v_task.id, NEW.counselor_id, NEW.counselor_id);
+  ELSIF NEW.is_follow_up_complete AND v_task.completed_at IS NULL THEN
+    UPDATE follow_up_tasks
+    SET completed_at = COALESCE(NEW.follow_up_completed_at, NOW()),
+        completed_by = auth.uid()
+    WHERE id = v_task.id;
+  ELSIF NOT COALESCE(NEW.is_follow_up_complete, FALSE) AND v_task.completed_at IS NOT NULL THEN
+    UPDATE follow_up_tasks
+    SET completed_at = NULL,
+        completed_by = NULL,
+        completion_note = NULL
+    WHERE id = v_task.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER interactions_sync_follow_up_task
+  AFTER INSERT OR UPDATE OF needs_follow_up, is_follow_up_complete ON interactions
+  FOR EACH ROW EXECUTE FUNCTION sync_follow_up_task();
+
+-- ============================================================================
+-- TASK FUNCTIONS
+-- ============================================================================
+
+-- Hand an open task to another active user in the tenant. Allowed for the
+-- current assignee and admins; the new assignee is notified.
+CREATE OR REPLACE FUNCTION reassign_follow_up_task(
+  p_task_id UUID,
+  p_to_user_id UUID,
+  p_note TEXT DEFAULT NULL
+) RETURNS follow_up_tasks AS $$
+DECLARE
+  v_task follow_up_tasks%ROWTYPE;
+  v_assignment_id UUID;
+BEGIN
+  SELECT * INTO v_task
+  FROM follow_up_tasks
+  WHERE id = p_task_id AND tenant_id = get_user_tenant_id()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Follow-up not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_task.assigned_to <> auth.uid() AND NOT is_admin() THEN
+    RAISE EXCEPTION 'Only the assignee or an admin can reassign this follow-up'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF v_task.completed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This follow-up is already complete' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_task.assigned_to = p_to_user_id THEN
+    RAISE EXCEPTION 'This follow-up is already assigned to that user' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = p_to_user_id AND tenant_id = v_task.tenant_id AND is_active = TRUE
+  ) THEN
+    RAISE EXCEPTION 'Follow-ups can only be assigned to active users' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE follow_up_tasks
+  SET assigned_to = p_to_user_id,
+      assigned_at = NOW()
+  WHERE id = p_task_id;
+
+  INSERT INTO follow_up_task_assignments (tenant_id, task_id, from_user_id, to_user_id, assigned_by, note)
+  VALUES (v_task.tenant_id, v_task.id, v_task.assigned_to, p_to_user_id, auth.uid(), NULLIF(p_note, ''))
+  RETURNING id INTO v_assignment_id;
+
+  IF p_to_user_id <> auth.uid() THEN
+    INSERT INTO notifications (tenant_id, user_id, type, title, message, link, source_id)
+    SELECT
+      v_task.tenant_id,
+      p_to_user_id,
+      'FOLLOW_UP_ASSIGNED',
+      'Follow-up assigned to you',
+      u.first_name || ' ' || u.last_name || ' handed a follow-up to you',
+      '/interactions?interactionId=' || v_task.interaction_id,
+      v_assignment_id
+    FROM users u
+    WHERE u.id = auth.uid();
+  END IF;
+
+  SELECT * INTO v_task FROM follow_up_tasks WHERE id = p_task_id;
+  RETURN v_task;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Reassign every open task of one user, e.g. before deactivating them (admin
+-- only). Returns the number of tasks reassigned.
+CREATE OR REPLACE FUNCTION reassign_follow_up_tasks(
+  p_from_user_id UUID,
+  p_to_user_id UUID,
+  p_note TEXT DEFAULT NULL
+) RETURNS INTEGER AS $$
+DECLARE
+  v_tenant_id UUID := get_user_tenant_id();
+  v_count INTEGER;
+  v_assignment_id UUID;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can reassign all follow-ups' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_from_user_id = p_to_user_id THEN
+    RAISE EXCEPTION 'Choose a different user to take over the follow-ups' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = p_to_user_id AND tenant_id = v_tenant_id AND is_active = TRUE
+  ) THEN
+    RAISE EXCEPTION 'Follow-ups can only be assigned to active users' USING ERRCODE = '22023';
+  END IF;
+
+  WITH moved AS (
+    UPDATE follow_up_tasks
+    SET assigned_to = p_to_user_id,
+        assigned_at = NOW()
+    WHERE tenant_id = v_tenant_id
+      AND assigned_to = p_from_user_id
+      AND completed_at IS NULL
+    RETURNING id
+  ),
+  history AS (
+    INSERT INTO follow_up_task_assignments (tenant_id, task_id, from_user_id, to_user_id, assigned_by, note)
+    SELECT v_tenant_id, m.id, p_from_user_id, p_to_user_id, auth.uid(), NULLIF(p_note, '')
+    FROM moved m
+    RETURNING id
+  )
+  SELECT COUNT(*), (ARRAY_AGG(h.id))[1] INTO v_count, v_assignment_id FROM history h;
+
+  IF v_count > 0 AND p_to_user_id <> auth.uid() THEN
+    INSERT INTO notifications (tenant_id, user_id, type, title, message, link, source_id)
+    SELECT
+      v_tenant_id,
+      p_to_user_id,
+      'FOLLOW_UP_ASSIGNED',
+      'Follow-ups assigned to you',
+      v_count || ' follow-up' || CASE WHEN v_count = 1 THEN '' ELSE 's' END
+        || ' from ' || u.first_name || ' ' || u.last_name || ' are now yours',
+      '/interactions',
+      v_assignment_id
+    FROM users u
+    WHERE u.id = p_from_user_id;
+  END IF;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Mark a follow-up complete with an optional completion note (encrypted by the
+-- app), which is kept on the task. Assignees may not otherwise edit the
+-- interaction, so only its completion columns are changed. Allowed for the
+-- assignee, the interaction's counselor and admins.
+CREATE OR REPLACE FUNCTION complete_follow_up(
+  p_interaction_id UUID,
+  p_note TEXT DEFAULT NULL
+) RETURNS follow_up_tasks AS $$
+DECLARE
+  v_task follow_up_tasks%ROWTYPE;
+  v_counselor_id UUID;
+BEGIN
+  SELECT * INTO v_task
+  FROM follow_up_tasks
+  WHERE interaction_id = p_interaction_id AND tenant_id = get_user_tenant_id()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Follow-up not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT counselor_id INTO v_counselor_id FROM interactions WHERE id = p_interaction_id;
+
+  IF v_task.assigned_to <> auth.uid() AND v_counselor_id <> auth.uid() AND NOT is_admin() THEN
+    RAISE EXCEPTION 'Only the assignee or an admin can complete this follow-up'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF v_task.completed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This follow-up is already complete' USING ERRCODE = '22023';
+  END IF;
+
+  -- sync_follow_up_task marks the task complete
+  UPDATE interactions
+  SET is_follow_up_complete = TRUE,
+      follow_up_completed_at = NOW()
+  WHERE id = p_interaction_id;
+
+  UPDATE follow_up_tasks
+  SET completion_note = NULLIF(p_note, '')
+  WHERE id = v_task.id
+  RETURNING * INTO v_task;
+
+  RETURN v_task;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- NOTIFICATIONS AND VIEWS
+-- ============================================================================
+
+ALTER TABLE notifications
+  DROP CONSTRAINT notifications_type_check,
+  ADD CONSTRAINT notifications_type_check CHECK (type IN (
+    'FOLLOW_UP_OVERDUE',
+    'FOLLOW_UP_ASSIGNED',
+    'INVITATION_ACCEPTED',
+    'SECURITY_ALERT'
+  ));
+
+-- Pending follow-ups now carry their task and assignee
+CREATE OR REPLACE VIEW pending_follow_ups AS
+SELECT
+  i.id,
+  i.tenant_id,
+  i.counselor_id,
+  i.student_id,
+  i.contact_id,
+  i.start_time AS interaction_date,
+  i.follow_up_date,
+  i.follow_up_notes,
+  CASE
+    WHEN i.follow_up_date < NOW() THEN TRUE
+    ELSE FALSE
+  END AS is_overdue,
+  s.first_name AS student_first_name,
+  s.last_name AS student_last_name,
+  c.first_name AS contact_first_name,
+  c.last_name AS contact_last_name,
+  t.id AS task_id,
+  COALESCE(t.assigned_to, i.counselor_id) AS assigned_to
+FROM interactions i
+LEFT JOIN students s ON i.student_id = s.id
+LEFT JOIN contacts c ON i.contact_id = c.id
+LEFT JOIN follow_up_tasks t ON t.interaction_id = i.id
+WHERE i.needs_follow_up = TRUE
+  AND i.is_follow_up_complete = FALSE
+ORDER BY i.follow_up_date ASC;
+
+-- Overdue notifications go to the assignee
+CREATE OR REPLACE FUNCTION sync_follow_up_notifications()
+RETURNS INTEGER AS $$
+DECLARE
+  inserted_count INTEGER;
+BEGIN
+  INSERT INTO notifications (tenant_id, user_id, type, title, message, link, source_id)
+  SELECT
+    pf.tenant_id,
+    pf.assigned_to,
+    'FOLLOW_UP_OVERDUE',
+    'Follow-up overdue',
+    'Follow-up with '
+      || COALESCE(
+        pf.student_first_name || ' ' || pf.student_last_name,
+        pf.contact_first_name || ' ' || pf.contact_last_name,
+        'unknown'
+      )
+      || ' was due ' || TO_CHAR(pf.follow_up_date, 'Mon DD, YYYY'),
+    '/interactions?interactionId=' || pf.id,
+    pf.id
+  FROM pending_follow_ups pf
+  WHERE pf.assigned_to = auth.uid()
+    AND pf.is_overdue = TRUE
+  ON CONFLICT (user_id, type, source_id) DO NOTHING;
+
+  GET DIAGNOSTICS inserted_count = ROW_COUNT;
+  RETURN inserted_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Digests list the follow-ups assigned to the user
+CREATE OR REPLACE FUNCTION due_follow_up_digests(p_now TIMESTAMPTZ DEFAULT NOW())
+RETURNS TABLE (
+  user_id UUID,
+  tenant_id UUID,
+  tenant_name TEXT,
+  email TEXT,
+  first_name TEXT,
+  cadence TEXT,
+  timezone TEXT,
+  digest_date DATE,
+  due_before TIMESTAMPTZ,
+  include_surnames BOOLEAN
+) AS $$
+  WITH settings AS (
+    SELECT
+      u.id,
+      u.tenant_id,
+      u.email,
+      u.first_name,
+      COALESCE(p.cadence, 'daily') AS cadence,
+      COALESCE(p.weekly_day, 1) AS weekly_day,
+      COALESCE(p.quiet_days, '{0,6}') AS quiet_days,
+      COALESCE(tz.name, 'UTC') AS timezone,
+      p.last_digest_on,
+      p_now AT TIME ZONE COALESCE(tz.name, 'UTC') AS local_time
+    FROM users u
+    LEFT JOIN follow_up_digest_preferences p ON p.user_id = u.id
+    LEFT JOIN pg_timezone_names tz ON tz.name = p.timezone
+    WHERE u.is_active = TRUE
+  ),
+  due AS (
+    SELECT
+      s.*,
+      s.local_time::DATE AS digest_date,
+      (s.local_time::DATE + CASE WHEN s.cadence = 'weekly' THEN 7 ELSE 2 END)::TIMESTAMP
+        AT TIME ZONE s.timezone AS due_before
+    FROM settings s
+    WHERE s.cadence <> 'off'
+      AND EXTRACT(HOUR FROM s.local_time) >= 7
+      AND NOT (EXTRACT(DOW FROM s.local_time)::SMALLINT = ANY(s.quiet_days))
+      AND (s.cadence = 'daily' OR EXTRACT(DOW FROM s.local_time) = s.weekly_day)
+      AND s.last_digest_on IS DISTINCT FROM s.local_time::DATE
+  )
+  SELECT
+    d.id,
+    d.tenant_id,
+    t.name,
+    d.email,
+    d.first_name,
+    d.cadence,
+    d.timezone,
+    d.digest_date,
+    d.due_before,
+    t.digest_include_surnames
+  FROM due d
+  JOIN tenants t ON t.id = d.tenant_id
+  WHERE EXISTS (
+    SELECT 1
+    FROM pending_follow_ups pf
+    WHERE pf.tenant_id = d.tenant_id
+      AND pf.assigned_to = d.id
+      AND pf.follow_up_date < d.due_before
+  );
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE follow_up_tasks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE follow_up_task_assignments ENABLE ROW LEVEL SECURITY;
+
+-- Users see the tasks assigned to them, admins see all tasks in their tenant
+CREATE POLICY follow_up_tasks_select_policy ON follow_up_tasks
+  FOR SELECT
+  USING (tenant_id = get_user_tenant_id() AND (assigned_to = auth.uid() OR is_admin()));
+
+-- History is visible to whoever can see the task
+CREATE POLICY follow_up_task_assignments_select_policy ON follow_up_task_assignments
+  FOR SELECT
+  USING (
+    tenant_id = get_user_tenant_id() AND
+    EXISTS (SELECT 1 FROM follow_up_tasks t WHERE t.id = follow_up_task_assignments.task_id)
+  );
+
+-- No insert, update or delete policies: tasks and history are only written by
+-- the SECURITY DEFINER functions above
+
+-- Assignees can read the interaction behind their task for context
+DROP POLICY interactions_select_policy ON interactions;
+
+CREATE POLICY interactions_select_policy ON interactions
+  FOR SELECT
+  USING (
+    tenant_id = get_user_tenant_id() AND
+    (
+      counselor_id = auth.uid() OR
+      is_admin() OR
+      EXISTS (
+        SELECT 1 FROM follow_up_tasks t
+        WHERE t.interaction_id = interactions.id AND t.assigned_to = auth.uid()
+      )
+    )
+  );
+
+-- ============================================================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================================================
+
+COMMENT ON TABLE follow_up_tasks IS
+  'Follow-up of an interaction and the user currently responsible for it';
+
+COMMENT ON COLUMN follow_up_tasks.completion_note IS
+  'Note left when the follow-up was completed, encrypted by the app with the tenant note key';
+
+COMMENT ON TABLE follow_up_task_assignments IS
+  'Append-only history of follow-up task owners and handoff notes';
+
+COMMENT ON COLUMN follow_up_task_assignments.note IS
+  'Handoff note, encrypted by the app with the tenant note key';
+
+COMMENT ON POLICY interactions_select_policy ON interactions IS
+  'Counselors see their interactions and those behind follow-ups assigned to them, admins see all interactions in their tenant';
+
+COMMENT ON FUNCTION reassign_follow_up_task(UUID, UUID, TEXT) IS
+  'Hand an open follow-up to another active user (assignee or admin)';
+
+COMMENT ON FUNCTION reassign_follow_up_tasks(UUID, UUID, TEXT) IS
+  'Move all open follow-ups from one user to another (admin only)';
+
+COMMENT ON FUNCTION complete_follow_up(UUID, TEXT) IS
+  'Mark a follow-up complete as its assignee, counselor or an admin';
@@ -0,0 +1,164 @@
+-- Caseloads Migration
+-- This migration assigns students to a primary and an optional secondary
+-- counselor, and adds rule-based bulk assignment by last-name range or grade
+
+-- ============================================================================
+-- STUDENTS: CASELOAD COUNSELORS
+-- ============================================================================
+ALTER TABLE students
+ADD COLUMN primary_counselor_id UUID REFERENCES users(id) ON DELETE SET NULL,
+ADD COLUMN secondary_counselor_id UUID REFERENCES users(id) ON DELETE SET NULL,
+ADD CONSTRAINT students_caseload_distinct_check
+  CHECK (primary_counselor_id IS NULL OR primary_counselor_id <> secondary_counselor_id);
+
+CREATE INDEX idx_students_primary_counselor ON students(tenant_id, primary_counselor_id)
+  WHERE archived_at IS NULL;
+CREATE INDEX idx_students_secondary_counselor ON students(tenant_id, secondary_counselor_id)
+  WHERE archived_at IS NULL;
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+-- Counselors may edit students, but only admins decide caseloads. Assigned
+-- counselors must belong to the student's tenant.
+CREATE OR REPLACE FUNCTION check_student_caseload()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (TG_OP = 'INSERT' AND (NEW.primary_counselor_id IS NOT NULL OR NEW.secondary_counselor_id IS NOT NULL))
+    OR (TG_OP = 'UPDATE' AND (
+      NEW.primary_counselor_id IS DISTINCT FROM OLD.primary_counselor_id
+      OR NEW.secondary_counselor_id IS DISTINCT FROM OLD.secondary_counselor_id
+    ))
+  THEN
+    IF auth.uid() IS NOT NULL AND NOT is_admin() THEN
+      RAISE EXCEPTION 'Only administrators can change caseload assignments';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1
+      FROM unnest(ARRAY[NEW.primary_counselor_id, NEW.secondary_counselor_id]) AS c(id)
+      WHERE c.id IS NOT NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM users u WHERE u.id = c.id AND u.tenant_id = NEW.tenant_id
+        )
+    ) THEN
+      RAISE EXCEPTION 'Caseload counselor must belong to the same tenant';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER check_student_caseload
+  BEFORE INSERT OR UPDATE OF primary_counselor_id, secondary_counselor_id ON students
+  FOR EACH ROW
+  EXECUTE FUNCTION check_student_caseload();
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Assign every active student matching a rule to a counselor. A rule matches
+-- last names within an inclusive prefix range (e.g. 'A' to 'F', or 'Ma' to
+-- 'Mz') and/or a set of grade levels; at least one must be given. Matching
+-- must stay in sync with matchesCaseloadRule in src/services/caseloadService.ts.
+-- Returns the number of students assigned.
+CREATE OR REPLACE FUNCTION assign_caseload(
+  p_counselor_id UUID,
+  p_role TEXT,
+  p_last_name_from TEXT DEFAULT NULL,
+  p_last_name_to TEXT DEFAULT NULL,
+  p_grade_levels TEXT[] DEFAULT NULL,
+  p_only_unassigned BOOLEAN DEFAULT FALSE
+) RETURNS INTEGER AS $$
+DECLARE
+  v_tenant_id UUID;
+  v_from TEXT := NULLIF(upper(trim(p_last_name_from)), '');
+  v_to TEXT := NULLIF(upper(trim(p_last_name_to)), '');
+  v_grades TEXT[] := NULLIF(p_grade_levels, '{}');
+  v_count INTEGER;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only administrators can assign caseloads';
+  END IF;
+
+  IF p_role NOT IN ('primary', 'secondary') THEN
+    RAISE EXCEPTION 'Caseload role must be primary or secondary';
+  END IF;
+
+  IF v_from IS NULL AND v_to IS NULL AND v_grades IS NULL THEN
+    RAISE EXCEPTION 'A caseload rule needs a last-name range or grade levels';
+  END IF;
+
+  v_tenant_id := get_user_tenant_id();
+
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = p_counselor_id AND tenant_id = v_tenant_id AND is_active = TRUE
+  ) THEN
+    RAISE EXCEPTION 'Counselor not found or inactive';
+  END IF;
+
+  UPDATE students s
+  SET primary_counselor_id = CASE WHEN p_role = 'primary' THEN p_counselor_id ELSE s.primary_counselor_id END,
+      secondary_counselor_id = CASE
+        WHEN p_role = 'secondary' THEN p_counselor_id
+        -- A counselor cannot be both; promoting a secondary clears that slot
+        WHEN s.secondary_counselor_id = p_counselor_id THEN NULL
+        ELSE s.secondary_counselor_id
+      END
+  WHERE s.tenant_id = v_tenant_id
+    AND s.archived_at IS NULL
+    AND (v_from IS NULL OR upper(left(s.last_name, length(v_from))) COLLATE "C" >= v_from)
+    AND (v_to IS NULL OR upper(left(s.last_name, length(v_to))) COLLATE "C" <= v_to)
+    AND (v_grades IS NULL OR s.grade_level = ANY(v_grades))
+    AND CASE p_role
+      WHEN 'primary' THEN
+        s.primary_counselor_id IS DISTINCT FROM p_counselor_id
+        AND (NOT p_only_unassigned OR s.primary_counselor_id IS NULL)
+      ELSE
+        s.secondary_counselor_id IS DISTINCT FROM p_counselor_id
+        AND s.primary_counselor_id IS DISTINCT FROM p_counselor_id
+        AND (NOT p_only_unassigned OR s.secondary_counselor_id IS NULL)
+    END;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Active students per counselor, counted as primary and as secondary
+-- counselor. Counselors without students are left out.
+CREATE OR REPLACE FUNCTION get_caseload_sizes()
+RETURNS TABLE (counselor_id UUID, primary_count BIGINT, secondary_count BIGINT) AS $$
+  SELECT
+    c.counselor_id,
+    COUNT(*) FILTER (WHERE c.role = 'primary'),
+    COUNT(*) FILTER (WHERE c.role = 'secondary')
+  FROM students s
+  CROSS JOIN LATERAL (
+    VALUES ('primary', s.primary_counselor_id), ('secondary', s.secondary_counselor_id)
+  ) AS c(role, counselor_id)
+  WHERE s.tenant_id = get_user_tenant_id()
+    AND s.archived_at IS NULL
+    AND c.counselor_id IS NOT NULL
+  GROUP BY c.counselor_id;
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
+-- ============================================================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================================================
+
+COMMENT ON COLUMN students.primary_counselor_id IS
+  'Counselor responsible for the student; NULL when unassigned';
+
+COMMENT ON COLUMN students.secondary_counselor_id IS
+  'Optional second counselor sharing the student''s caseload';
+
+COMMENT ON FUNCTION assign_caseload(UUID, TEXT, TEXT, TEXT, TEXT[], BOOLEAN) IS
+  'Admin-only bulk caseload assignment by last-name range and/or grade levels';
+
+COMMENT ON FUNCTION get_caseload_sizes() IS
+  'Active students per counselor in the caller''s tenant, as primary and as secondary counselor';
@@ -0,0 +1,345 @@
+-- Student Risk Flags Migration
+-- This migration adds structured risk flags with severity levels, a safety plan
+-- required for HIGH flags, a timeline of flag changes and admin notifications
+-- when a flag is escalated
+
+-- ============================================================================
+-- RISK FLAGS TABLE
+-- ============================================================================
+-- Current state of each flag. A student has at most one open flag per category;
+-- a cleared flag is kept for the timeline and a new one is raised if needed.
+CREATE TABLE student_risk_flags (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  category TEXT NOT NULL CHECK (category IN ('ATTENDANCE', 'ACADEMIC', 'BEHAVIORAL', 'SAFETY')),
+  severity TEXT NOT NULL CHECK (severity IN ('LOW', 'MEDIUM', 'HIGH')),
+  raised_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  raised_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  cleared_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  cleared_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_student_risk_flags_open ON student_risk_flags(student_id, category)
+  WHERE cleared_at IS NULL;
+CREATE INDEX idx_student_risk_flags_tenant ON student_risk_flags(tenant_id, severity)
+  WHERE cleared_at IS NULL;
+
+CREATE TRIGGER update_student_risk_flags_updated_at
+  BEFORE UPDATE ON student_risk_flags
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+-- ============================================================================
+-- RISK FLAG EVENTS TABLE
+-- ============================================================================
+-- Append-only timeline of who raised, escalated, downgraded or cleared a flag.
+-- Notes are encrypted by the application like interaction notes.
+CREATE TABLE student_risk_flag_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  flag_id UUID NOT NULL REFERENCES student_risk_flags(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  action TEXT NOT NULL CHECK (action IN ('RAISED', 'ESCALATED', 'DOWNGRADED', 'CLEARED')),
+  severity TEXT NOT NULL CHECK (severity IN ('LOW', 'MEDIUM', 'HIGH')),
+  note TEXT,
+  actor_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_student_risk_flag_events_student ON student_risk_flag_events(student_id, created_at DESC);
+CREATE INDEX idx_student_risk_flag_events_flag ON student_risk_flag_events(flag_id);
+
+-- ============================================================================
+-- SAFETY PLANS TABLE
+-- ============================================================================
+-- Required before a flag can be HIGH. The plan is encrypted JSON written by the
+-- application; guardian notification and review date stay queryable.
+CREATE TABLE student_safety_plans (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  flag_id UUID NOT NULL UNIQUE REFERENCES student_risk_flags(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  plan TEXT NOT NULL,
+  guardian_notified BOOLEAN NOT NULL DEFAULT FALSE,
+  review_date DATE,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_student_safety_plans_student ON student_safety_plans(student_id);
+
+CREATE TRIGGER update_student_safety_plans_updated_at
+  BEFORE UPDATE ON student_safety_plans
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+-- ============================================================================
+-- NOTIFICATIONS
+-- ============================================================================
+
+ALTER TABLE notifications
+  DROP CONSTRAINT notifications_type_check,
+  ADD CONSTRAINT notifications_type_check CHECK (type IN (
+    'FOLLOW_UP_OVERDUE',
+    'FOLLOW_UP_ASSIGNED',
+    'INVITATION_ACCEPTED',
+    'RISK_FLAG_ESCALATED',
+    'SECURITY_ALERT'
+  ));
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION risk_severity_rank(p_severity TEXT)
+RETURNS INTEGER AS $$
+  SELECT array_position(ARRAY['LOW', 'MEDIUM', 'HIGH'], p_severity);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Save the safety plan for a flag, replacing any earlier version
+CREATE OR REPLACE FUNCTION save_safety_plan(
+  p_flag student_risk_flags,
+  p_plan TEXT,
+  p_guardian_notified BOOLEAN,
+  p_review_date DATE
+) RETURNS VOID AS $$
+BEGIN
+  INSERT INTO student_safety_plans (
+    tenant_id, flag_id, student_id, plan, guardian_notified, review_date, created_by, updated_by
+  )
+  VALUES (
+    p_flag.tenant_id, p_flag.id, p_flag.student_id, p_plan,
+    COALESCE(p_guardian_notified, FALSE), p_review_date, auth.uid(), auth.uid()
+  )
+  ON CONFLICT (flag_id) DO UPDATE
+  SET plan = EXCLUDED.plan,
+      guardian_notified = EXCLUDED.guardian_notified,
+      review_date = EXCLUDED.review_date,
+      updated_by = auth.uid();
+END;
+$$ LANGUAGE plpgsql;
+
+-- Tell every other active admin that a flag reached a higher severity
+CREATE OR REPLACE FUNCTION notify_risk_flag_escalated(
+  p_flag student_risk_flags,
+  p_event_id UUID
+) RETURNS VOID AS $$
+BEGIN
+  INSERT INTO notifications (tenant_id, user_id, type, title, message, link, source_id)
+  SELECT
+    p_flag.tenant_id,
+    admin.id,
+    'RISK_FLAG_ESCALATED',
+    INITCAP(p_flag.severity) || ' ' || LOWER(p_flag.category) || ' risk flag',
+    s.first_name || ' ' || s.last_name || ' was flagged '
+      || LOWER(p_flag.severity) || ' by ' || actor.first_name || ' ' || actor.last_name,
+    '/students/' || p_flag.student_id,
+    p_event_id
+  FROM users admin
+  JOIN students s ON s.id = p_flag.student_id
+  JOIN users actor ON actor.id = auth.uid()
+  WHERE admin.tenant_id = p_flag.tenant_id
+    AND admin.role = 'ADMIN'
+    AND admin.is_active = TRUE
+    AND admin.id <> auth.uid()
+  ON CONFLICT (user_id, type, source_id) DO NOTHING;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Raise a flag on a student. HIGH flags need a safety plan; raising one
+-- notifies admins.
+CREATE OR REPLACE FUNCTION raise_risk_flag(
+  p_student_id UUID,
+  p_category TEXT,
+  p_severity TEXT,
+  p_note TEXT DEFAULT NULL,
+  p_safety_plan TEXT DEFAULT NULL,
+  p_guardian_notified BOOLEAN DEFAULT FALSE,
+  p_review_date DATE DEFAULT NULL
+) RETURNS student_risk_flags AS $$
+DECLARE
+  v_flag student_risk_flags%ROWTYPE;
+  v_event_id UUID;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM students WHERE id = p_student_id AND tenant_id = get_user_tenant_id()
+  ) THEN
+    RAISE EXCEPTION 'Student not found';
+  END IF;
+
+  IF p_severity = 'HIGH' AND p_safety_plan IS NULL THEN
+    RAISE EXCEPTION 'A safety plan is required for a high risk flag';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM student_risk_flags
+    WHERE student_id = p_student_id AND category = p_category AND cleared_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'The student already has an open % flag', LOWER(p_category);
+  END IF;
+
+  INSERT INTO student_risk_flags (tenant_id, student_id, category, severity, raised_by)
+  VALUES (get_user_tenant_id(), p_student_id, p_category, p_severity, auth.uid())
+  RETURNING * INTO v_flag;
+
+  INSERT INTO student_risk_flag_events (tenant_id, flag_id, student_id, action, severity, note, actor_id)
+  VALUES (v_flag.tenant_id, v_flag.id, v_flag.student_id, 'RAISED', p_severity, p_note, auth.uid())
+  RETURNING id INTO v_event_id;
+
+  IF p_safety_plan IS NOT NULL THEN
+    PERFORM save_safety_plan(v_flag, p_safety_plan, p_guardian_notified, p_review_date);
+  END IF;
+
+  IF p_severity = 'HIGH' THEN
+    PERFORM notify_risk_flag_escalated(v_flag, v_event_id);
+  END IF;
+
+  RETURN v_flag;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Change the severity of an open flag. Raising it notifies admins; reaching
+-- HIGH needs a safety plan unless the flag already has one.
+CREATE OR REPLACE FUNCTION change_risk_flag_severity(
+  p_flag_id UUID,
+  p_severity TEXT,
+  p_note TEXT DEFAULT NULL,
+  p_safety_plan TEXT DEFAULT NULL,
+  p_guardian_notified BOOLEAN DEFAULT FALSE,
+  p_review_date DATE DEFAULT NULL
+) RETURNS student_risk_flags AS $$
+DECLARE
+  v_flag student_risk_flags%ROWTYPE;
+  v_old_severity TEXT;
+  v_event_id UUID;
+BEGIN
+  SELECT * INTO v_flag
+  FROM student_risk_flags
+  WHERE id = p_flag_id AND tenant_id = get_user_tenant_id()
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_flag.cleared_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Open risk flag not found';
+  END IF;
+
+  IF v_flag.severity = p_severity THEN
+    RAISE EXCEPTION 'The flag is already %', LOWER(p_severity);
+  END IF;
+
+  IF p_severity = 'HIGH' AND p_safety_plan IS NULL
+    AND NOT EXISTS (SELECT 1 FROM student_safety_plans WHERE flag_id = p_flag_id)
+  THEN
+    RAISE EXCEPTION 'A safety plan is required for a high risk flag';
+  END IF;
+
+  v_old_severity := v_flag.severity;
+
+  UPDATE student_risk_flags
+  SET severity = p_severity
+  WHERE id = p_flag_id
+  RETURNING * INTO v_flag;
+
+  INSERT INTO student_risk_flag_events (tenant_id, flag_id, student_id, action, severity, note, actor_id)
+  VALUES (
+    v_flag.tenant_id,
+    v_flag.id,
+    v_flag.student_id,
+    CASE WHEN risk_severity_rank(p_severity) > risk_severity_rank(v_old_severity)
+      THEN 'ESCALATED' ELSE 'DOWNGRADED' END,
+    p_severity,
+    p_note,
+    auth.uid()
+  )
+  RETURNING id INTO v_event_id;
+
+  IF p_safety_plan IS NOT NULL THEN
+    PERFORM save_safety_plan(v_flag, p_safety_plan, p_guardian_notified, p_review_date);
+  END IF;
+
+  IF risk_severity_rank(p_severity) > risk_severity_rank(v_old_severity) THEN
+    PERFORM notify_risk_flag_escalated(v_flag, v_event_id);
+  END IF;
+
+  RETURN v_flag;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Clear an open flag
+CREATE OR REPLACE FUNCTION clear_risk_flag(
+  p_flag_id UUID,
+  p_note TEXT DEFAULT NULL
+) RETURNS student_risk_flags AS $$
+DECLARE
+  v_flag student_risk_flags%ROWTYPE;
+BEGIN
+  UPDATE student_risk_flags
+  SET cleared_at = NOW(),
+      cleared_by = auth.uid()
+  WHERE id = p_flag_id
+    AND tenant_id = get_user_tenant_id()
+    AND cleared_at IS NULL
+  RETURNING * INTO v_flag;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Open risk flag not found';
+  END IF;
+
+  INSERT INTO student_risk_flag_events (tenant_id, flag_id, student_id, action, severity, note, actor_id)
+  VALUES (v_flag.tenant_id, v_flag.id, v_flag.student_id, 'CLEARED', v_flag.severity, p_note, auth.uid());
+
+  RETURN v_flag;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Internal helpers run only inside the functions above
+REVOKE EXECUTE ON FUNCTION save_safety_plan(student_risk_flags, TEXT, BOOLEAN, DATE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION notify_risk_flag_escalated(student_risk_flags, UUID) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+-- Everyone in the tenant can read flags, like students. All writes go through
+-- the functions above so the safety plan rule and timeline cannot be bypassed.
+
+ALTER TABLE student_risk_flags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE student_risk_flag_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE student_safety_plans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY student_risk_flags_select_policy ON student_risk_flags
+  FOR SELECT
+  USING (tenant_id = get_user_tenant_id());
+
+CREATE POLICY student_risk_flag_events_select_policy ON student_risk_flag_events
+  FOR SELECT
+  USING (tenant_id = get_user_tenant_id());
+
+CREATE POLICY student_safety_plans_select_policy ON student_safety_plans
+  FOR SELECT
+  USING (tenant_id = get_user_tenant_id());
+
+-- ============================================================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================================================
+
+COMMENT ON TABLE student_risk_flags IS
+  'Attendance, academic, behavioral and safety flags on students with a severity level';
+
+COMMENT ON TABLE student_risk_flag_events IS
+  'Timeline of who raised, escalated, downgraded and cleared each risk flag';
+
+COMMENT ON TABLE student_safety_plans IS
+  'Safety plan recorded for a HIGH risk flag; plan is encrypted by the application';
+
+COMMENT ON FUNCTION raise_risk_flag(UUID, TEXT, TEXT, TEXT, TEXT, BOOLEAN, DATE) IS
+  'Raise a risk flag on a student; HIGH flags need a safety plan and notify admins';
+
+COMMENT ON FUNCTION change_risk_flag_severity(UUID, TEXT, TEXT, TEXT, BOOLEAN, DATE) IS
+  'Escalate or downgrade an open risk flag; escalations notify admins';
+
+COMMENT ON FUNCTION clear_risk_flag(UUID, TEXT) IS
+  'Clear an open risk flag';
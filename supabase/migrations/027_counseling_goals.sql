@@ -0,0 +1,173 @@
+-- Counseling Goals Migration
+-- This migration adds a per-student counseling plan: measurable goals in an
+-- area (academic, SEL, college/career), progress check-ins on a 1-5 rating
+-- scale and links between interactions and the goals they worked on
+
+-- ============================================================================
+-- STUDENT GOALS TABLE
+-- ============================================================================
+CREATE TABLE student_goals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  area TEXT NOT NULL CHECK (area IN ('ACADEMIC', 'SEL', 'COLLEGE_CAREER')),
+  title TEXT NOT NULL CHECK (length(trim(title)) > 0),
+  description TEXT,
+  -- How progress is measured, e.g. "Turns in 90% of homework"
+  measure TEXT,
+  target_date DATE,
+  status TEXT NOT NULL DEFAULT 'ACTIVE' CHECK (status IN ('ACTIVE', 'ACHIEVED', 'DISCONTINUED')),
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_student_goals_student ON student_goals(student_id, created_at);
+CREATE INDEX idx_student_goals_tenant ON student_goals(tenant_id, status);
+
+CREATE TRIGGER update_student_goals_updated_at
+  BEFORE UPDATE ON student_goals
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+-- ============================================================================
+-- GOAL CHECK-INS TABLE
+-- ============================================================================
+-- Progress ratings recorded over time. Notes are encrypted by the application
+-- like interaction notes.
+CREATE TABLE student_goal_check_ins (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  goal_id UUID NOT NULL REFERENCES student_goals(id) ON DELETE CASCADE,
+  rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  note TEXT,
+  recorded_by UUID REFERENCES users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_student_goal_check_ins_goal ON student_goal_check_ins(goal_id, recorded_at);
+
+-- ============================================================================
+-- INTERACTION GOALS TABLE
+-- ============================================================================
+-- Interactions that worked on a goal
+CREATE TABLE interaction_goals (
+  interaction_id UUID NOT NULL REFERENCES interactions(id) ON DELETE CASCADE,
+  goal_id UUID NOT NULL REFERENCES student_goals(id) ON DELETE CASCADE,
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (interaction_id, goal_id)
+);
+
+CREATE INDEX idx_interaction_goals_goal ON interaction_goals(goal_id);
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+-- A goal's interactions must involve its student, directly, as the student the
+-- interaction was regarding, or as a group session participant
+CREATE OR REPLACE FUNCTION check_interaction_goal()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM interactions i
+    JOIN student_goals g ON g.id = NEW.goal_id
+    WHERE i.id = NEW.interaction_id
+      AND i.tenant_id = NEW.tenant_id
+      AND g.tenant_id = NEW.tenant_id
+      AND (
+        i.student_id = g.student_id OR
+        i.regarding_student_id = g.student_id OR
+        EXISTS (
+          SELECT 1 FROM interaction_participants p
+          WHERE p.interaction_id = i.id AND p.student_id = g.student_id
+        )
+      )
+  ) THEN
+    RAISE EXCEPTION 'Interaction does not involve the goal''s student';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER check_interaction_goal
+  BEFORE INSERT ON interaction_goals
+  FOR EACH ROW
+  EXECUTE FUNCTION check_interaction_goal();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+-- Everyone in the tenant can read and work on a student's plan, like students.
+-- Goals are discontinued rather than deleted and check-ins are append-only;
+-- links follow interaction visibility.
+
+ALTER TABLE student_goals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE student_goal_check_ins ENABLE ROW LEVEL SECURITY;
+ALTER TABLE interaction_goals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY student_goals_select_policy ON student_goals
+  FOR SELECT
+  USING (tenant_id = get_user_tenant_id());
+
+CREATE POLICY student_goals_insert_policy ON student_goals
+  FOR INSERT
+  WITH CHECK (
+    tenant_id = get_user_tenant_id() AND
+    EXISTS (SELECT 1 FROM students s WHERE s.id = student_id AND s.tenant_id = get_user_tenant_id())
+  );
+
+CREATE POLICY student_goals_update_policy ON student_goals
+  FOR UPDATE
+  USING (tenant_id = get_user_tenant_id())
+  WITH CHECK (tenant_id = get_user_tenant_id());
+
+CREATE POLICY student_goal_check_ins_select_policy ON student_goal_check_ins
+  FOR SELECT
+  USING (tenant_id = get_user_tenant_id());
+
+CREATE POLICY student_goal_check_ins_insert_policy ON student_goal_check_ins
+  FOR INSERT
+  WITH CHECK (
+    tenant_id = get_user_tenant_id() AND
+    recorded_by = auth.uid() AND
+    EXISTS (SELECT 1 FROM student_goals g WHERE g.id = goal_id)
+  );
+
+CREATE POLICY interaction_goals_select_policy ON interaction_goals
+  FOR SELECT
+  USING (tenant_id = get_user_tenant_id());
+
+-- Linking or unlinking requires being able to see the interaction
+CREATE POLICY interaction_goals_insert_policy ON interaction_goals
+  FOR INSERT
+  WITH CHECK (
+    tenant_id = get_user_tenant_id() AND
+    EXISTS (SELECT 1 FROM interactions i WHERE i.id = interaction_id)
+  );
+
+CREATE POLICY interaction_goals_delete_policy ON interaction_goals
+  FOR DELETE
+  USING (
+    tenant_id = get_user_tenant_id() AND
+    EXISTS (SELECT 1 FROM interactions i WHERE i.id = interaction_id)
+  );
+
+-- ============================================================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================================================
+
+COMMENT ON TABLE student_goals IS
+  'Measurable goals in a student''s counseling plan';
+
+COMMENT ON COLUMN student_goals.measure IS
+  'How progress toward the goal is measured';
+
+COMMENT ON TABLE student_goal_check_ins IS
+  'Progress ratings from 1 (no progress) to 5 (goal met); note is encrypted by the application';
+
+COMMENT ON TABLE interaction_goals IS
+  'Interactions that worked on a counseling goal';
@@ -0,0 +1,209 @@
+-- Student Merges Migration
+-- This migration lets admins merge a duplicate student record into the record
+-- that survives, dismiss pairs that are not duplicates, and records each merge
+-- in the audit log
+
+-- ============================================================================
+-- AUDIT LOG: MERGE ACTION
+-- ============================================================================
+ALTER TABLE audit_log DROP CONSTRAINT audit_log_action_check;
+
+ALTER TABLE audit_log
+ADD CONSTRAINT audit_log_action_check
+  CHECK (action IN ('CREATE', 'UPDATE', 'DELETE', 'VIEW', 'MERGE'));
+
+-- ============================================================================
+-- DUPLICATE DISMISSALS TABLE
+-- ============================================================================
+-- Candidate pairs an admin reviewed and decided are different students. Each
+-- pair is stored once, with the lower ID first.
+CREATE TABLE student_duplicate_dismissals (
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  other_student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  dismissed_by UUID REFERENCES users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  dismissed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (student_id, other_student_id),
+  CHECK (student_id < other_student_id)
+);
+
+CREATE INDEX idx_student_duplicate_dismissals_tenant ON student_duplicate_dismissals(tenant_id);
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Merge a duplicate student into the survivor: move interactions (direct,
+-- regarding and group), appointments, risk flags and goals, fill the survivor's
+-- missing contact details, log the merge and delete the duplicate. Returns the
+-- number of interactions moved.
+CREATE OR REPLACE FUNCTION merge_students(
+  p_survivor_id UUID,
+  p_duplicate_id UUID
+) RETURNS INTEGER AS $$
+DECLARE
+  v_tenant_id UUID;
+  v_survivor students%ROWTYPE;
+  v_duplicate students%ROWTYPE;
+  v_direct INTEGER;
+  v_regarding INTEGER;
+  v_group INTEGER;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only administrators can merge students';
+  END IF;
+
+  IF p_survivor_id = p_duplicate_id THEN
+    RAISE EXCEPTION 'A student cannot be merged into itself';
+  END IF;
+
+  v_tenant_id := get_user_tenant_id();
+
+  SELECT * INTO v_survivor FROM students
+  WHERE id = p_survivor_id AND tenant_id = v_tenant_id
+  FOR UPDATE;
+
+  SELECT * INTO v_duplicate FROM students
+  WHERE id = p_duplicate_id AND tenant_id = v_tenant_id
+  FOR UPDATE;
+
+  IF v_survivor.id IS NULL OR v_duplicate.id IS NULL THEN
+    RAISE EXCEPTION 'Student not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Interactions
+  UPDATE interactions SET student_id = p_survivor_id
+  WHERE student_id = p_duplicate_id;
+  GET DIAGNOSTICS v_direct = ROW_COUNT;
+
+  UPDATE interactions
+  SET regarding_student_id = CASE WHEN student_id = p_survivor_id THEN NULL ELSE p_survivor_id END
+  WHERE regarding_student_id = p_duplicate_id;
+  GET DIAGNOSTICS v_regarding = ROW_COUNT;
+
+  -- Group sessions both records attended keep the survivor's attendance
+  DELETE FROM interaction_participants p
+  WHERE p.student_id = p_duplicate_id
+    AND EXISTS (
+      SELECT 1 FROM interaction_participants s
+      WHERE s.interaction_id = p.interaction_id AND s.student_id = p_survivor_id
+    );
+
+  UPDATE interaction_participants SET student_id = p_survivor_id
+  WHERE student_id = p_duplicate_id;
+  GET DIAGNOSTICS v_group = ROW_COUNT;
+
+  -- Appointments
+  UPDATE appointment_series SET student_id = p_survivor_id WHERE student_id = p_duplicate_id;
+  UPDATE appointment_series SET regarding_student_id = p_survivor_id
+  WHERE regarding_student_id = p_duplicate_id;
+  UPDATE appointments SET student_id = p_survivor_id WHERE student_id = p_duplicate_id;
+  UPDATE appointments SET regarding_student_id = p_survivor_id
+  WHERE regarding_student_id = p_duplicate_id;
+
+  -- Risk flags: where both records have an open flag in a category, the
+  -- survivor's stays open and the duplicate's is cleared
+  WITH cleared AS (
+    UPDATE student_risk_flags d
+    SET cleared_at = NOW(), cleared_by = auth.uid()
+    WHERE d.student_id = p_duplicate_id
+      AND d.cleared_at IS NULL
+      AND EXISTS (
+        SELECT 1 FROM student_risk_flags s
+        WHERE s.student_id = p_survivor_id AND s.category = d.category AND s.cleared_at IS NULL
+      )
+    RETURNING d.id, d.tenant_id, d.severity
+  )
+  INSERT INTO student_risk_flag_events (tenant_id, flag_id, student_id, action, severity, actor_id)
+  SELECT tenant_id, id, p_duplicate_id, 'CLEARED', severity, auth.uid() FROM cleared;
+
+  UPDATE student_risk_flags SET student_id = p_survivor_id WHERE student_id = p_duplicate_id;
+  UPDATE student_risk_flag_events SET student_id = p_survivor_id WHERE student_id = p_duplicate_id;
+  UPDATE student_safety_plans SET student_id = p_survivor_id WHERE student_id = p_duplicate_id;
+
+  -- Counseling plan
+  UPDATE student_goals SET student_id = p_survivor_id WHERE student_id = p_duplicate_id;
+
+  -- Keep contact details and follow-ups the survivor is missing
+  UPDATE students
+  SET email = COALESCE(email, v_duplicate.email),
+      phone = COALESCE(phone, v_duplicate.phone),
+      needs_follow_up = COALESCE(needs_follow_up, FALSE) OR COALESCE(v_duplicate.needs_follow_up, FALSE),
+      follow_up_notes = COALESCE(follow_up_notes, v_duplicate.follow_up_notes)
+  WHERE id = p_survivor_id;
+
+  INSERT INTO audit_log (
+    tenant_id,
+    user_id,
+    action,
+    entity_type,
+    entity_id,
+    record_label,
+    student_id,
+    student_name,
+    after
+  ) VALUES (
+    v_tenant_id,
+    auth.uid(),
+    'MERGE',
+    'student',
+    p_survivor_id,
+    v_survivor.first_name || ' ' || v_survivor.last_name,
+    p_survivor_id,
+    v_survivor.first_name || ' ' || v_survivor.last_name,
+    jsonb_build_object(
+      'merged_student_id', v_duplicate.id,
+      'merged_student', v_duplicate.first_name || ' ' || v_duplicate.last_name
+        || ' (' || v_duplicate.student_id || ')',
+      'interactions_moved', v_direct,
+      'regarding_interactions_moved', v_regarding,
+      'group_sessions_moved', v_group
+    )
+  );
+
+  -- The delete is logged with the duplicate's full record
+  DELETE FROM students WHERE id = p_duplicate_id;
+
+  RETURN v_direct + v_regarding + v_group;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+-- Only admins review duplicates
+
+ALTER TABLE student_duplicate_dismissals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY student_duplicate_dismissals_select_policy ON student_duplicate_dismissals
+  FOR SELECT
+  USING (tenant_id = get_user_tenant_id() AND is_admin());
+
+CREATE POLICY student_duplicate_dismissals_insert_policy ON student_duplicate_dismissals
+  FOR INSERT
+  WITH CHECK (
+    tenant_id = get_user_tenant_id() AND
+    is_admin() AND
+    EXISTS (
+      SELECT 1 FROM students s
+      WHERE s.id = student_id AND s.tenant_id = get_user_tenant_id()
+    ) AND
+    EXISTS (
+      SELECT 1 FROM students s
+      WHERE s.id = other_student_id AND s.tenant_id = get_user_tenant_id()
+    )
+  );
+
+CREATE POLICY student_duplicate_dismissals_delete_policy ON student_duplicate_dismissals
+  FOR DELETE
+  USING (tenant_id = get_user_tenant_id() AND is_admin());
+
+-- ============================================================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================================================
+
+COMMENT ON TABLE student_duplicate_dismissals IS
+  'Possible duplicate student pairs an admin marked as different students';
+
+COMMENT ON FUNCTION merge_students(UUID, UUID) IS
+  'Admin-only merge of a duplicate student into a survivor; returns the number of interactions moved';
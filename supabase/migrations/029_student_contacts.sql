@@ -0,0 +1,278 @@
+-- Student Contacts Migration
+-- This migration links contacts to the students they relate to, with a
+-- relationship per link, a primary guardian per student and custody and
+-- no-contact flags, and keeps the links when duplicate students are merged
+
+-- ============================================================================
+-- STUDENT CONTACTS TABLE
+-- ============================================================================
+CREATE TABLE student_contacts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  contact_id UUID NOT NULL REFERENCES contacts(id) ON DELETE CASCADE,
+  relationship TEXT NOT NULL,
+  is_primary_guardian BOOLEAN NOT NULL DEFAULT FALSE,
+  has_custody BOOLEAN NOT NULL DEFAULT FALSE,
+  -- e.g. a court order: the contact must not be given access to the student
+  no_contact BOOLEAN NOT NULL DEFAULT FALSE,
+  notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(student_id, contact_id),
+  CHECK (NOT (is_primary_guardian AND no_contact))
+);
+
+CREATE INDEX idx_student_contacts_contact ON student_contacts(contact_id);
+CREATE UNIQUE INDEX idx_student_contacts_primary_guardian ON student_contacts(student_id)
+  WHERE is_primary_guardian;
+
+CREATE TRIGGER update_student_contacts_updated_at
+  BEFORE UPDATE ON student_contacts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+-- A student has one primary guardian; naming a new one replaces the old
+CREATE OR REPLACE FUNCTION replace_primary_guardian()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.is_primary_guardian THEN
+    UPDATE student_contacts
+    SET is_primary_guardian = FALSE
+    WHERE student_id = NEW.student_id
+      AND id <> NEW.id
+      AND is_primary_guardian;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER replace_primary_guardian
+  BEFORE INSERT OR UPDATE OF is_primary_guardian ON student_contacts
+  FOR EACH ROW
+  EXECUTE FUNCTION replace_primary_guardian();
+
+-- ============================================================================
+-- STUDENT MERGES
+-- ============================================================================
+
+-- merge_students (migration 028) now also moves the duplicate's contact links,
+-- which would otherwise be deleted with it. A contact linked to both records
+-- keeps one link that carries every flag either had; no_contact always wins
+-- and clears primary guardian. The survivor's primary guardian stays primary.
+CREATE OR REPLACE FUNCTION merge_students(
+  p_survivor_id UUID,
+  p_duplicate_id UUID
+) RETURNS INTEGER AS $$
+DECLARE
+  v_tenant_id UUID;
+  v_survivor students%ROWTYPE;
+  v_duplicate students%ROWTYPE;
+  v_direct INTEGER;
+  v_regarding INTEGER;
+  v_group INTEGER;
+  v_has_primary BOOLEAN;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only administrators can merge students';
+  END IF;
+
+  IF p_survivor_id = p_duplicate_id THEN
+    RAISE EXCEPTION 'A student cannot be merged into itself';
+  END IF;
+
+  v_tenant_id := get_user_tenant_id();
+
+  SELECT * INTO v_survivor FROM students
+  WHERE id = p_survivor_id AND tenant_id = v_tenant_id
+  FOR UPDATE;
+
+  SELECT * INTO v_duplicate FROM students
+  WHERE id = p_duplicate_id AND tenant_id = v_tenant_id
+  FOR UPDATE;
+
+  IF v_survivor.id IS NULL OR v_duplicate.id IS NULL THEN
+    RAISE EXCEPTION 'Student not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Interactions
+  UPDATE interactions SET student_id = p_survivor_id
+  WHERE student_id = p_duplicate_id;
+  GET DIAGNOSTICS v_direct = ROW_COUNT;
+
+  UPDATE interactions
+  SET regarding_student_id = CASE WHEN student_id = p_survivor_id THEN NULL ELSE p_survivor_id END
+  WHERE regarding_student_id = p_duplicate_id;
+  GET DIAGNOSTICS v_regarding = ROW_COUNT;
+
+  -- Group sessions both records attended keep the survivor's attendance
+  DELETE FROM interaction_participants p
+  WHERE p.student_id = p_duplicate_id
+    AND EXISTS (
+      SELECT 1 FROM interaction_participants s
+      WHERE s.interaction_id = p.interaction_id AND s.student_id = p_survivor_id
+    );
+
+  UPDATE interaction_participants SET student_id = p_survivor_id
+  WHERE student_id = p_duplicate_id;
+  GET DIAGNOSTICS v_group = ROW_COUNT;
+
+  -- Appointments
+  UPDATE appointment_series SET student_id = p_survivor_id WHERE student_id = p_duplicate_id;
+  UPDATE appointment_series SET regarding_student_id = p_survivor_id
+  WHERE regarding_student_id = p_duplicate_id;
+  UPDATE appointments SET student_id = p_survivor_id WHERE student_id = p_duplicate_id;
+  UPDATE appointments SET regarding_student_id = p_survivor_id
+  WHERE regarding_student_id = p_duplicate_id;
+
+  -- Risk flags: where both records have an open flag in a category, the
+  -- survivor's stays open and the duplicate's is cleared
+  WITH cleared AS (
+    UPDATE student_risk_flags d
+    SET cleared_at = NOW(), cleared_by = auth.uid()
+    WHERE d.student_id = p_duplicate_id
+      AND d.cleared_at IS NULL
+      AND EXISTS (
+        SELECT 1 FROM student_risk_flags s
+        WHERE s.student_id = p_survivor_id AND s.category = d.category AND s.cleared_at IS NULL
+      )
+    RETURNING d.id, d.tenant_id, d.severity
+  )
+  INSERT INTO student_risk_flag_events (tenant_id, flag_id, student_id, action, severity, actor_id)
+  SELECT tenant_id, id, p_duplicate_id, 'CLEARED', severity, auth.uid() FROM cleared;
+
+  UPDATE student_risk_flags SET student_id = p_survivor_id WHERE student_id = p_duplicate_id;
+  UPDATE student_risk_flag_events SET student_id = p_survivor_id WHERE student_id = p_duplicate_id;
+  UPDATE student_safety_plans SET student_id = p_survivor_id WHERE student_id = p_duplicate_id;
+
+  -- Counseling plan
+  UPDATE student_goals SET student_id = p_survivor_id WHERE student_id = p_duplicate_id;
+
+  -- Contact links
+  v_has_primary := EXISTS (
+    SELECT 1 FROM student_contacts
+    WHERE student_id = p_survivor_id AND is_primary_guardian
+  );
+
+  UPDATE student_contacts s
+  SET no_contact = s.no_contact OR d.no_contact,
+      has_custody = s.has_custody OR d.has_custody,
+      is_primary_guardian = (s.is_primary_guardian OR (d.is_primary_guardian AND NOT v_has_primary))
+        AND NOT (s.no_contact OR d.no_contact),
+      notes = COALESCE(s.notes, d.notes)
+  FROM student_contacts d
+  WHERE s.student_id = p_survivor_id
+    AND d.student_id = p_duplicate_id
+    AND d.contact_id = s.contact_id;
+
+  DELETE FROM student_contacts d
+  WHERE d.student_id = p_duplicate_id
+    AND EXISTS (
+      SELECT 1 FROM student_contacts s
+      WHERE s.student_id = p_survivor_id AND s.contact_id = d.contact_id
+    );
+
+  v_has_primary := EXISTS (
+    SELECT 1 FROM student_contacts
+    WHERE student_id = p_survivor_id AND is_primary_guardian
+  );
+
+  UPDATE student_contacts
+  SET student_id = p_survivor_id,
+      is_primary_guardian = is_primary_guardian AND NOT v_has_primary
+  WHERE student_id = p_duplicate_id;
+
+  -- Keep contact details and follow-ups the survivor is missing
+  UPDATE students
+  SET email = COALESCE(email, v_duplicate.email),
+      phone = COALESCE(phone, v_duplicate.phone),
+      needs_follow_up = COALESCE(needs_follow_up, FALSE) OR COALESCE(v_duplicate.needs_follow_up, FALSE),
+      follow_up_notes = COALESCE(follow_up_notes, v_duplicate.follow_up_notes)
+  WHERE id = p_survivor_id;
+
+  INSERT INTO audit_log (
+    tenant_id,
+    user_id,
+    action,
+    entity_type,
+    entity_id,
+    record_label,
+    student_id,
+    student_name,
+    after
+  ) VALUES (
+    v_tenant_id,
+    auth.uid(),
+    'MERGE',
+    'student',
+    p_survivor_id,
+    v_survivor.first_name || ' ' || v_survivor.last_name,
+    p_survivor_id,
+    v_survivor.first_name || ' ' || v_survivor.last_name,
+    jsonb_build_object(
+      'merged_student_id', v_duplicate.id,
+      'merged_student', v_duplicate.first_name || ' ' || v_duplicate.last_name
+        || ' (' || v_duplicate.student_id || ')',
+      'interactions_moved', v_direct,
+      'regarding_interactions_moved', v_regarding,
+      'group_sessions_moved', v_group
+    )
+  );
+
+  -- The delete is logged with the duplicate's full record
+  DELETE FROM students WHERE id = p_duplicate_id;
+
+  RETURN v_direct + v_regarding + v_group;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+-- Links follow contacts: everyone in the tenant can read, create and change
+-- them, and the student and contact must belong to the tenant.
+
+ALTER TABLE student_contacts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY student_contacts_select_policy ON student_contacts
+  FOR SELECT
+  USING (tenant_id = get_user_tenant_id());
+
+CREATE POLICY student_contacts_insert_policy ON student_contacts
+  FOR INSERT
+  WITH CHECK (
+    tenant_id = get_user_tenant_id() AND
+    EXISTS (SELECT 1 FROM students s WHERE s.id = student_id AND s.tenant_id = get_user_tenant_id()) AND
+    EXISTS (SELECT 1 FROM contacts c WHERE c.id = contact_id AND c.tenant_id = get_user_tenant_id())
+  );
+
+CREATE POLICY student_contacts_update_policy ON student_contacts
+  FOR UPDATE
+  USING (tenant_id = get_user_tenant_id())
+  WITH CHECK (
+    tenant_id = get_user_tenant_id() AND
+    EXISTS (SELECT 1 FROM students s WHERE s.id = student_id AND s.tenant_id = get_user_tenant_id()) AND
+    EXISTS (SELECT 1 FROM contacts c WHERE c.id = contact_id AND c.tenant_id = get_user_tenant_id())
+  );
+
+CREATE POLICY student_contacts_delete_policy ON student_contacts
+  FOR DELETE
+  USING (tenant_id = get_user_tenant_id());
+
+-- ============================================================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================================================
+
+COMMENT ON TABLE student_contacts IS
+  'Which contacts relate to which students, and how';
+
+COMMENT ON COLUMN student_contacts.relationship IS
+  'The contact''s relationship to this student, e.g. Parent or Teacher';
+
+COMMENT ON COLUMN student_contacts.no_contact IS
+  'The contact must not be given access to or information about the student';
@@ -0,0 +1,209 @@
+-- Report Aggregates Migration
+-- This migration computes dashboard and report totals in the database, so the
+-- browser no longer downloads every interaction to add them up
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Totals, category and grade-level breakdowns and trend buckets for the
+-- interactions matching a set of report filters. The rules follow
+-- src/utils/reportHelpers.ts:
+--   * group sessions credit their attended participants, other interactions
+--     their student
+--   * an interaction is reported under its credited students' grade, "Mixed"
+--     when they span grades and "Unknown" when no student is credited
+--   * the grade filter matches when any credited student is in the grade
+--   * trend buckets are keyed like calculateTrendData: days by UTC date, weeks
+--     by the Sunday starting them and months in the caller's time zone
+--   * per-student totals follow calculateStudentFrequency, crediting each
+--     attended participant with the whole session
+--   * the student trend counts distinct students per week, starting on Sunday
+--     in the caller's time zone
+-- Percentages and ordering are left to the client.
+--
+-- SECURITY INVOKER, so row level security limits counselors to the
+-- interactions they can already see. Not a materialized view for the same
+-- reason: a view refreshed by the database could not apply each user's policies.
+CREATE OR REPLACE FUNCTION get_report_aggregates(
+  p_start_time TIMESTAMPTZ,
+  p_end_time TIMESTAMPTZ,
+  p_grade_level TEXT DEFAULT NULL,
+  p_category_id UUID DEFAULT NULL,
+  p_counselor_id UUID DEFAULT NULL,
+  p_regarding_student_id UUID DEFAULT NULL,
+  p_trend_bucket TEXT DEFAULT 'day',
+  p_time_zone TEXT DEFAULT 'UTC'
+) RETURNS JSONB AS $$
+  WITH base AS (
+    SELECT
+      i.id,
+      i.is_group,
+      i.student_id,
+      i.contact_id,
+      i.category_id,
+      i.start_time,
+      COALESCE(i.duration_minutes, 0) AS duration
+    FROM interactions i
+    WHERE i.tenant_id = get_user_tenant_id()
+      AND i.start_time BETWEEN p_start_time AND p_end_time
+      AND (p_category_id IS NULL OR i.category_id = p_category_id)
+      AND (p_counselor_id IS NULL OR i.counselor_id = p_counselor_id)
+      AND (p_regarding_student_id IS NULL OR i.regarding_student_id = p_regarding_student_id)
+  ),
+  credited AS (
+    SELECT b.id AS interaction_id, b.student_id, s.grade_level
+    FROM base b
+    LEFT JOIN students s ON s.id = b.student_id
+    WHERE NOT b.is_group AND b.student_id IS NOT NULL
+    UNION ALL
+    SELECT b.id, p.student_id, s.grade_level
+    FROM base b
+    JOIN interaction_participants p ON p.interaction_id = b.id AND p.attended
+    LEFT JOIN students s ON s.id = p.student_id
+    WHERE b.is_group
+  ),
+  filtered AS (
+    SELECT b.*
+    FROM base b
+    WHERE p_grade_level IS NULL OR EXISTS (
+      SELECT 1 FROM credited c
+      WHERE c.interaction_id = b.id AND c.grade_level = p_grade_level
+    )
+  ),
+  graded AS (
+    SELECT
+      f.id,
+      f.duration,
+      CASE COUNT(DISTINCT COALESCE(NULLIF(c.grade_level, ''), 'Unknown'))
+        FILTER (WHERE c.interaction_id IS NOT NULL)
+        WHEN 0 THEN 'Unknown'
+        WHEN 1 THEN MIN(COALESCE(NULLIF(c.grade_level, ''), 'Unknown'))
+        ELSE 'Mixed'
+      END AS grade_level
+    FROM filtered f
+    LEFT JOIN credited c ON c.interaction_id = f.id
+    GROUP BY f.id, f.duration
+  ),
+  bucketed AS (
+    SELECT
+      CASE p_trend_bucket
+        WHEN 'week' THEN to_char(
+          (
+            (f.start_time AT TIME ZONE p_time_zone)
+            - EXTRACT(DOW FROM f.start_time AT TIME ZONE p_time_zone) * INTERVAL '1 day'
+          ) AT TIME ZONE p_time_zone AT TIME ZONE 'UTC',
+          'YYYY-MM-DD'
+        )
+        WHEN 'month' THEN to_char(f.start_time AT TIME ZONE p_time_zone, 'YYYY-MM')
+        ELSE to_char(f.start_time AT TIME ZONE 'UTC', 'YYYY-MM-DD')
+      END AS bucket,
+      f.duration
+    FROM filtered f
+  )
+  SELECT jsonb_build_object(
+    'total_interactions', (SELECT COUNT(*) FROM filtered),
+    'total_duration', (SELECT COALESCE(SUM(duration), 0) FROM filtered),
+    'total_students', (
+      SELECT COUNT(DISTINCT c.student_id)
+      FROM credited c
+      JOIN filtered f ON f.id = c.interaction_id
+    ),
+    'total_contacts', (SELECT COUNT(DISTINCT contact_id) FROM filtered),
+    'categories', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'category_id', x.category_id,
+        'category_name', x.name,
+        'color', x.color,
+        'count', x.count,
+        'total_duration', x.total_duration,
+        'last_start_time', x.last_start_time
+      ))
+      FROM (
+        SELECT
+          f.category_id,
+          rc.name,
+          rc.color,
+          COUNT(*) AS count,
+          SUM(f.duration) AS total_duration,
+          MAX(f.start_time) AS last_start_time
+        FROM filtered f
+        LEFT JOIN reason_categories rc ON rc.id = f.category_id
+        GROUP BY f.category_id, rc.name, rc.color
+      ) x
+    ), '[]'::jsonb),
+    'grade_levels', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'grade_level', x.grade_level,
+        'count', x.count,
+        'total_duration', x.total_duration
+      ))
+      FROM (
+        SELECT grade_level, COUNT(*) AS count, SUM(duration) AS total_duration
+        FROM graded
+        GROUP BY grade_level
+      ) x
+    ), '[]'::jsonb),
+    'students', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'student_id', x.student_id,
+        'student_name', x.student_name,
+        'grade_level', x.grade_level,
+        'count', x.count,
+        'total_duration', x.total_duration,
+        'last_start_time', x.last_start_time
+      ))
+      FROM (
+        SELECT
+          c.student_id,
+          s.first_name || ' ' || s.last_name AS student_name,
+          s.grade_level,
+          COUNT(*) AS count,
+          SUM(f.duration) AS total_duration,
+          MAX(f.start_time) AS last_start_time
+        FROM credited c
+        JOIN filtered f ON f.id = c.interaction_id
+        JOIN students s ON s.id = c.student_id
+        GROUP BY c.student_id, s.first_name, s.last_name, s.grade_level
+      ) x
+    ), '[]'::jsonb),
+    'student_trend', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'date', x.week,
+        'count', x.count
+      ) ORDER BY x.week)
+      FROM (
+        SELECT
+          to_char(
+            (f.start_time AT TIME ZONE p_time_zone)::DATE
+              - EXTRACT(DOW FROM f.start_time AT TIME ZONE p_time_zone)::INT,
+            'YYYY-MM-DD'
+          ) AS week,
+          COUNT(DISTINCT c.student_id) AS count
+        FROM credited c
+        JOIN filtered f ON f.id = c.interaction_id
+        JOIN students s ON s.id = c.student_id
+        GROUP BY 1
+      ) x
+    ), '[]'::jsonb),
+    'trend', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'date', x.bucket,
+        'count', x.count,
+        'total_duration', x.total_duration
+      ) ORDER BY x.bucket)
+      FROM (
+        SELECT bucket, COUNT(*) AS count, SUM(duration) AS total_duration
+        FROM bucketed
+        GROUP BY bucket
+      ) x
+    ), '[]'::jsonb)
+  );
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
+-- ============================================================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================================================
+
+COMMENT ON FUNCTION get_report_aggregates(TIMESTAMPTZ, TIMESTAMPTZ, TEXT, UUID, UUID, UUID, TEXT, TEXT) IS
+  'Dashboard and report totals for the interactions the caller can see that match the report filters';
@@ -0,0 +1,61 @@
+-- Interaction Pagination Migration
+-- This migration supports keyset pagination of interaction lists, newest
+-- first, so lists load a page at a time instead of every interaction, and
+-- searches interactions in the database so a search covers every page
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+-- Pages are ordered by (start_time, id) descending and continue after the last
+-- row of the previous page. The id breaks ties between interactions starting
+-- at the same time.
+CREATE INDEX idx_interactions_page ON interactions(tenant_id, start_time DESC, id DESC);
+
+DROP INDEX idx_interactions_time;
+
+-- ============================================================================
+-- SEARCH
+-- ============================================================================
+
+-- Interactions where every word of the query appears in the student, contact,
+-- regarding student or group participant names, the category name or the
+-- custom reason. Notes are encrypted, so cannot be searched. Lists filter,
+-- order and page the result like the interactions table itself.
+CREATE OR REPLACE FUNCTION search_interactions(p_query TEXT)
+RETURNS SETOF interactions AS $$
+  SELECT i.*
+  FROM interactions i
+  LEFT JOIN students s ON s.id = i.student_id
+  LEFT JOIN contacts c ON c.id = i.contact_id
+  LEFT JOIN students r ON r.id = i.regarding_student_id
+  LEFT JOIN reason_categories rc ON rc.id = i.category_id
+  CROSS JOIN LATERAL (
+    SELECT lower(concat_ws(' ',
+      s.first_name || ' ' || s.last_name,
+      c.first_name || ' ' || c.last_name,
+      r.first_name || ' ' || r.last_name,
+      rc.name,
+      i.custom_reason,
+      (
+        SELECT string_agg(ps.first_name || ' ' || ps.last_name, ' ')
+        FROM interaction_participants p
+        JOIN students ps ON ps.id = p.student_id
+        WHERE p.interaction_id = i.id
+      )
+    )) AS haystack
+  ) h
+  WHERE i.tenant_id = get_user_tenant_id()
+    AND NOT EXISTS (
+      SELECT 1
+      FROM regexp_split_to_table(lower(p_query), '\s+') AS term
+      WHERE term <> '' AND strpos(h.haystack, term) = 0
+    );
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
+-- ============================================================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================================================
+
+COMMENT ON FUNCTION search_interactions IS
+  'Interactions matching every word of a search by name, category or custom reason';
@@ -0,0 +1,70 @@
+-- Tenant Subdomains Migration
+-- This migration lets the app resolve the tenant from the subdomain it is
+-- served on, so the login page can show the school's name and logo and turn
+-- away users from other schools
+
+-- ============================================================================
+-- TENANT LOGO
+-- ============================================================================
+
+ALTER TABLE tenants
+ADD COLUMN logo_url TEXT;
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- The public face of the tenant served on a subdomain. Runs before sign-in,
+-- so it returns only what the login page shows and nothing when the
+-- subdomain is unknown.
+CREATE OR REPLACE FUNCTION get_tenant_by_subdomain(p_subdomain TEXT)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  subdomain TEXT,
+  logo_url TEXT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT t.id, t.name, t.subdomain, t.logo_url
+  FROM tenants t
+  WHERE t.subdomain = lower(p_subdomain);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- The login page is shown before sign-in, so it is reachable with the anon key
+GRANT EXECUTE ON FUNCTION get_tenant_by_subdomain(TEXT) TO anon, authenticated;
+
+-- ============================================================================
+-- SECURITY EVENTS
+-- ============================================================================
+
+ALTER TABLE security_events
+  DROP CONSTRAINT security_events_event_type_check,
+  ADD CONSTRAINT security_events_event_type_check CHECK (event_type IN (
+    'INVITATION_CREATED',
+    'INVITATION_ACCEPTED',
+    'INVITATION_FAILED',
+    'INVITATION_EXPIRED',
+    'INVITATION_CANCELLED',
+    'INVITATION_RESENT',
+    'SETUP_TOKEN_USED',
+    'SETUP_TOKEN_FAILED',
+    'RATE_LIMIT_EXCEEDED',
+    'SUSPICIOUS_ACTIVITY',
+    'AUTH_FAILURE',
+    'TOKEN_MANIPULATION',
+    'DUPLICATE_EMAIL_ATTEMPT',
+    'INVALID_TOKEN_ACCESS',
+    'TENANT_MISMATCH'
+  ));
+
+-- ============================================================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================================================
+
+COMMENT ON COLUMN tenants.logo_url IS
+  'Logo shown on the login page of the tenant''s subdomain';
+
+COMMENT ON FUNCTION get_tenant_by_subdomain(TEXT) IS
+  'Name and logo of the tenant served on a subdomain, for the login page';
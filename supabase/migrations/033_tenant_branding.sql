@@ -0,0 +1,106 @@
+-- Tenant Branding Migration
+-- This migration adds a school's logo upload, primary color, default landing
+-- page and date format. The app applies them after sign-in and uses the logo
+-- and color in outgoing emails and exported PDFs.
+
+-- ============================================================================
+-- BRANDING SETTINGS
+-- ============================================================================
+
+ALTER TABLE tenants
+ADD COLUMN primary_color TEXT CHECK (primary_color ~ '^#[0-9a-fA-F]{6}$'),
+ADD COLUMN default_landing_page TEXT NOT NULL DEFAULT '/dashboard' CHECK (default_landing_page IN (
+  '/dashboard',
+  '/interactions',
+  '/calendar',
+  '/students',
+  '/contacts',
+  '/reports'
+)),
+ADD COLUMN date_format TEXT NOT NULL DEFAULT 'MM/DD/YYYY' CHECK (date_format IN (
+  'MM/DD/YYYY',
+  'DD/MM/YYYY',
+  'YYYY-MM-DD'
+));
+
+-- ============================================================================
+-- LOGO STORAGE
+-- ============================================================================
+
+-- Logos are public: they appear on the login page and in emails. SVG is not
+-- allowed, as a public SVG can carry scripts that run when it is opened.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'tenant-logos',
+  'tenant-logos',
+  TRUE,
+  1048576,
+  ARRAY['image/png', 'image/jpeg', 'image/webp']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Admins manage the logos in their tenant's folder
+CREATE POLICY tenant_logos_insert_policy ON storage.objects
+  FOR INSERT
+  WITH CHECK (
+    bucket_id = 'tenant-logos'
+    AND (storage.foldername(name))[1] = get_user_tenant_id()::TEXT
+    AND is_admin()
+  );
+
+CREATE POLICY tenant_logos_update_policy ON storage.objects
+  FOR UPDATE
+  USING (
+    bucket_id = 'tenant-logos'
+    AND (storage.foldername(name))[1] = get_user_tenant_id()::TEXT
+    AND is_admin()
+  );
+
+CREATE POLICY tenant_logos_delete_policy ON storage.objects
+  FOR DELETE
+  USING (
+    bucket_id = 'tenant-logos'
+    AND (storage.foldername(name))[1] = get_user_tenant_id()::TEXT
+    AND is_admin()
+  );
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- The login page shows the school's color as well as its name and logo
+DROP FUNCTION get_tenant_by_subdomain(TEXT);
+
+CREATE FUNCTION get_tenant_by_subdomain(p_subdomain TEXT)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  subdomain TEXT,
+  logo_url TEXT,
+  primary_color TEXT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT t.id, t.name, t.subdomain, t.logo_url, t.primary_color
+  FROM tenants t
+  WHERE t.subdomain = lower(p_subdomain);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_tenant_by_subdomain(TEXT) TO anon, authenticated;
+
+-- ============================================================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================================================
+
+COMMENT ON COLUMN tenants.primary_color IS
+  'Hex color (#rrggbb) for the sidebar, header, buttons, emails and PDFs; the app default when null';
+
+COMMENT ON COLUMN tenants.default_landing_page IS
+  'Page users land on after signing in';
+
+COMMENT ON COLUMN tenants.date_format IS
+  'How short dates are displayed and exported';
+
+COMMENT ON FUNCTION get_tenant_by_subdomain(TEXT) IS
+  'Name, logo and color of the tenant served on a subdomain, for the login page';
@@ -0,0 +1,646 @@
+-- Districts Migration
+-- This migration groups school tenants under a parent district. A district
+-- admin signs in through one of the district's schools, sees de-identified
+-- totals across every school in the district and maintains reason-category
+-- templates that are pushed to each school.
+--
+-- Districts are set up by the service operator: create the district, set
+-- tenants.district_id on its schools and set users.role to DISTRICT_ADMIN for
+-- its admins. None of these can be changed from the app.
+
+-- ============================================================================
+-- DISTRICTS TABLE
+-- ============================================================================
+CREATE TABLE districts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL,
+  templates_pushed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TRIGGER update_districts_updated_at
+  BEFORE UPDATE ON districts
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE tenants
+ADD COLUMN district_id UUID REFERENCES districts(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_tenants_district ON tenants(district_id);
+
+-- ============================================================================
+-- DISTRICT ADMIN ROLE
+-- ============================================================================
+ALTER TABLE users DROP CONSTRAINT users_role_check;
+
+ALTER TABLE users
+ADD CONSTRAINT users_role_check
+  CHECK (role IN ('ADMIN', 'COUNSELOR', 'DISTRICT_ADMIN'));
+
+-- ============================================================================
+-- DISTRICT REASON TEMPLATES
+-- ============================================================================
+-- Reason categories the district wants every school to use. Pushing copies
+-- them into each school's reason_categories, linked back to the template.
+CREATE TABLE district_reason_categories (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  district_id UUID NOT NULL REFERENCES districts(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  color TEXT,
+  sort_order INT DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(district_id, name)
+);
+
+CREATE INDEX idx_district_reason_categories_district
+  ON district_reason_categories(district_id, sort_order);
+
+CREATE TABLE district_reason_subcategories (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  category_id UUID NOT NULL REFERENCES district_reason_categories(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  sort_order INT DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(category_id, name)
+);
+
+CREATE INDEX idx_district_reason_subcategories_category
+  ON district_reason_subcategories(category_id, sort_order);
+
+CREATE TRIGGER update_district_reason_categories_updated_at
+  BEFORE UPDATE ON district_reason_categories
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+CREATE TRIGGER update_district_reason_subcategories_updated_at
+  BEFORE UPDATE ON district_reason_subcategories
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- A school's copy of a template. Deleting the template hands the copy over to
+-- the school, keeping its interactions.
+ALTER TABLE reason_categories
+ADD COLUMN district_category_id UUID REFERENCES district_reason_categories(id) ON DELETE SET NULL;
+
+ALTER TABLE reason_subcategories
+ADD COLUMN district_subcategory_id UUID REFERENCES district_reason_subcategories(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX idx_reason_categories_district_category
+  ON reason_categories(tenant_id, district_category_id)
+  WHERE district_category_id IS NOT NULL;
+
+CREATE UNIQUE INDEX idx_reason_subcategories_district_subcategory
+  ON reason_subcategories(category_id, district_subcategory_id)
+  WHERE district_subcategory_id IS NOT NULL;
+
+-- ============================================================================
+-- HELPER FUNCTIONS FOR RLS
+-- ============================================================================
+
+-- Function to check if current user is a district admin
+CREATE OR REPLACE FUNCTION is_district_admin()
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN COALESCE((SELECT role = 'DISTRICT_ADMIN' FROM users WHERE id = auth.uid()), FALSE);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to get the district of the current user's school
+CREATE OR REPLACE FUNCTION get_user_district_id()
+RETURNS UUID AS $$
+BEGIN
+  RETURN (
+    SELECT t.district_id
+    FROM users u
+    JOIN tenants t ON t.id = u.tenant_id
+    WHERE u.id = auth.uid()
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Tenants the current user can see: their own school, and for district admins
+-- every school in the district. Student-level data stays limited to
+-- get_user_tenant_id(); district admins see other schools only through
+-- get_district_report_aggregates.
+CREATE OR REPLACE FUNCTION get_user_tenant_ids()
+RETURNS SETOF UUID AS $$
+  SELECT get_user_tenant_id()
+  UNION
+  SELECT t.id
+  FROM tenants t
+  WHERE is_district_admin() AND t.district_id = get_user_district_id();
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Small counts are withheld from district reports so no student can be
+-- picked out of a school's totals
+CREATE OR REPLACE FUNCTION district_cell_count(p_count BIGINT)
+RETURNS BIGINT AS $$
+  SELECT CASE WHEN p_count BETWEEN 1 AND 4 THEN NULL ELSE p_count END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ============================================================================
+-- HIERARCHY PROTECTION
+-- ============================================================================
+-- Tenant admins can update their own tenant and users, so the district links
+-- are guarded by triggers. Requests without a signed-in user (the operator's
+-- service role) may change them.
+
+CREATE OR REPLACE FUNCTION protect_tenant_district()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NEW.district_id IS DISTINCT FROM OLD.district_id THEN
+    RAISE EXCEPTION 'A school''s district cannot be changed from the app'
+      USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trg_protect_tenant_district
+  BEFORE UPDATE ON tenants
+  FOR EACH ROW EXECUTE FUNCTION protect_tenant_district();
+
+CREATE OR REPLACE FUNCTION protect_district_admin_role()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.role = 'DISTRICT_ADMIN' THEN
+      RAISE EXCEPTION 'District admins are appointed by the district' USING ERRCODE = '42501';
+    END IF;
+  ELSIF (NEW.role = 'DISTRICT_ADMIN') <> (OLD.role = 'DISTRICT_ADMIN')
+    OR (OLD.role = 'DISTRICT_ADMIN' AND NEW.tenant_id <> OLD.tenant_id) THEN
+    RAISE EXCEPTION 'District admins are appointed by the district' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trg_protect_district_admin_role
+  BEFORE INSERT OR UPDATE ON users
+  FOR EACH ROW EXECUTE FUNCTION protect_district_admin_role();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+-- District admins can view the schools in their district
+DROP POLICY tenant_select_policy ON tenants;
+
+CREATE POLICY tenant_select_policy ON tenants
+  FOR SELECT
+  USING (id IN (SELECT get_user_tenant_ids()));
+
+-- Everyone in a district's schools can view the district
+ALTER TABLE districts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY districts_select_policy ON districts
+  FOR SELECT
+  USING (id = get_user_district_id());
+
+-- District admins manage their district's templates
+ALTER TABLE district_reason_categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE district_reason_subcategories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY district_reason_categories_select_policy ON district_reason_categories
+  FOR SELECT
+  USING (district_id = get_user_district_id() AND is_district_admin());
+
+CREATE POLICY district_reason_categories_insert_policy ON district_reason_categories
+  FOR INSERT
+  WITH CHECK (district_id = get_user_district_id() AND is_district_admin());
+
+CREATE POLICY district_reason_categories_update_policy ON district_reason_categories
+  FOR UPDATE
+  USING (district_id = get_user_district_id() AND is_district_admin());
+
+CREATE POLICY district_reason_categories_delete_policy ON district_reason_categories
+  FOR DELETE
+  USING (district_id = get_user_district_id() AND is_district_admin());
+
+CREATE POLICY district_reason_subcategories_select_policy ON district_reason_subcategories
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM district_reason_categories
+      WHERE id = district_reason_subcategories.category_id
+        AND district_id = get_user_district_id()
+    ) AND is_district_admin()
+  );
+
+CREATE POLICY district_reason_subcategories_insert_policy ON district_reason_subcategories
+  FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM district_reason_categories
+      WHERE id = district_reason_subcategories.category_id
+        AND district_id = get_user_district_id()
+    ) AND is_district_admin()
+  );
+
+CREATE POLICY district_reason_subcategories_update_policy ON district_reason_subcategories
+  FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM district_reason_categories
+      WHERE id = district_reason_subcategories.category_id
+        AND district_id = get_user_district_id()
+    ) AND is_district_admin()
+  );
+
+CREATE POLICY district_reason_subcategories_delete_policy ON district_reason_subcategories
+  FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM district_reason_categories
+      WHERE id = district_reason_subcategories.category_id
+        AND district_id = get_user_district_id()
+    ) AND is_district_admin()
+  );
+
+-- Schools can't edit or delete the copies pushed from the district; they can
+-- still add their own categories and subcategories alongside them
+DROP POLICY reason_categories_update_policy ON reason_categories;
+DROP POLICY reason_categories_delete_policy ON reason_categories;
+DROP POLICY reason_subcategories_update_policy ON reason_subcategories;
+DROP POLICY reason_subcategories_delete_policy ON reason_subcategories;
+
+CREATE POLICY reason_categories_update_policy ON reason_categories
+  FOR UPDATE
+  USING (tenant_id = get_user_tenant_id() AND is_admin() AND district_category_id IS NULL);
+
+CREATE POLICY reason_categories_delete_policy ON reason_categories
+  FOR DELETE
+  USING (tenant_id = get_user_tenant_id() AND is_admin() AND district_category_id IS NULL);
+
+CREATE POLICY reason_subcategories_update_policy ON reason_subcategories
+  FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM reason_categories
+      WHERE id = reason_subcategories.category_id
+        AND tenant_id = get_user_tenant_id()
+    ) AND is_admin() AND district_subcategory_id IS NULL
+  );
+
+CREATE POLICY reason_subcategories_delete_policy ON reason_subcategories
+  FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM reason_categories
+      WHERE id = reason_subcategories.category_id
+        AND tenant_id = get_user_tenant_id()
+    ) AND is_admin() AND district_subcategory_id IS NULL
+  );
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Copy the district's reason templates into every school in the district. A
+-- school category or subcategory with a template's exact name becomes the
+-- school's copy, so its past interactions stay where they are; existing copies
+-- take the template's current name, color and order; schools missing a
+-- template get a new copy. Category names are unique within a school, so a
+-- copy keeps its old name, and a missing copy is left out, while another
+-- category in the school still has the template's name; pushing again picks
+-- them up once it is free. Returns the number of schools.
+CREATE OR REPLACE FUNCTION push_district_reason_templates()
+RETURNS INTEGER AS $$
+DECLARE
+  v_district_id UUID;
+  v_schools INTEGER;
+BEGIN
+  IF NOT is_district_admin() THEN
+    RAISE EXCEPTION 'Only district admins can push reason templates';
+  END IF;
+
+  v_district_id := get_user_district_id();
+  IF v_district_id IS NULL THEN
+    RAISE EXCEPTION 'District not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Categories
+  UPDATE reason_categories rc
+  SET district_category_id = dc.id
+  FROM district_reason_categories dc
+  JOIN tenants t ON t.district_id = dc.district_id
+  WHERE dc.district_id = v_district_id
+    AND rc.tenant_id = t.id
+    AND rc.district_category_id IS NULL
+    AND rc.name = dc.name
+    AND NOT EXISTS (
+      SELECT 1 FROM reason_categories c
+      WHERE c.tenant_id = t.id AND c.district_category_id = dc.id
+    );
+
+  UPDATE reason_categories rc
+  SET name = CASE
+        WHEN EXISTS (
+          SELECT 1 FROM reason_categories c
+          WHERE c.tenant_id = rc.tenant_id AND c.name = dc.name AND c.id <> rc.id
+        ) THEN rc.name
+        ELSE dc.name
+      END,
+      color = dc.color,
+      sort_order = dc.sort_order
+  FROM district_reason_categories dc
+  JOIN tenants t ON t.district_id = dc.district_id
+  WHERE dc.district_id = v_district_id
+    AND rc.tenant_id = t.id
+    AND rc.district_category_id = dc.id;
+
+  INSERT INTO reason_categories (tenant_id, name, color, sort_order, district_category_id)
+  SELECT t.id, dc.name, dc.color, dc.sort_order, dc.id
+  FROM district_reason_categories dc
+  JOIN tenants t ON t.district_id = dc.district_id
+  WHERE dc.district_id = v_district_id
+    AND NOT EXISTS (
+      SELECT 1 FROM reason_categories c
+      WHERE c.tenant_id = t.id AND (c.district_category_id = dc.id OR c.name = dc.name)
+    );
+
+  -- Subcategories of the copies; school subcategory names aren't unique, so
+  -- the oldest match is adopted
+  WITH copies AS (
+    SELECT rc.id AS category_id, rc.district_category_id
+    FROM reason_categories rc
+    JOIN tenants t ON t.id = rc.tenant_id
+    WHERE t.district_id = v_district_id AND rc.district_category_id IS NOT NULL
+  ),
+  matches AS (
+    SELECT DISTINCT ON (c.category_id, ds.id) rs.id, ds.id AS template_id
+    FROM copies c
+    JOIN district_reason_subcategories ds ON ds.category_id = c.district_category_id
+    JOIN reason_subcategories rs ON rs.category_id = c.category_id AND rs.name = ds.name
+    WHERE rs.district_subcategory_id IS NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM reason_subcategories s
+        WHERE s.category_id = c.category_id AND s.district_subcategory_id = ds.id
+      )
+    ORDER BY c.category_id, ds.id, rs.created_at
+  )
+  UPDATE reason_subcategories rs
+  SET district_subcategory_id = m.template_id
+  FROM matches m
+  WHERE rs.id = m.id;
+
+  UPDATE reason_subcategories rs
+  SET name = ds.name, sort_order = ds.sort_order
+  FROM district_reason_subcategories ds
+  JOIN reason_categories rc ON rc.district_category_id = ds.category_id
+  JOIN tenants t ON t.id = rc.tenant_id
+  WHERE t.district_id = v_district_id
+    AND rs.category_id = rc.id
+    AND rs.district_subcategory_id = ds.id;
+
+  INSERT INTO reason_subcategories (category_id, name, sort_order, district_subcategory_id)
+  SELECT rc.id, ds.name, ds.sort_order, ds.id
+  FROM district_reason_subcategories ds
+  JOIN reason_categories rc ON rc.district_category_id = ds.category_id
+  JOIN tenants t ON t.id = rc.tenant_id
+  WHERE t.district_id = v_district_id
+    AND NOT EXISTS (
+      SELECT 1 FROM reason_subcategories s
+      WHERE s.category_id = rc.id AND s.district_subcategory_id = ds.id
+    );
+
+  UPDATE districts SET templates_pushed_at = NOW() WHERE id = v_district_id;
+
+  SELECT COUNT(*) INTO v_schools FROM tenants WHERE district_id = v_district_id;
+  RETURN v_schools;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- De-identified totals for every school in the district admin's district:
+-- interactions, minutes and students per school and per reason category, and
+-- for the district as a whole. Students are credited as in
+-- get_report_aggregates.
+--
+-- Counts from 1 to 4 come back null (see district_cell_count), as do the
+-- minutes behind them. Where a column of cells adds up to a total that is
+-- shown, a single withheld cell could be worked out by subtraction, so the
+-- next smallest cell is withheld with it. Periods are whole calendar months
+-- (UTC) that have ended, so overlapping ranges can't be subtracted to reach
+-- single days. Categories pushed from the district are reported together;
+-- the schools' own categories are combined into one row, since their names
+-- can identify students.
+--
+-- SECURITY DEFINER, since row level security keeps interactions in their own
+-- school; only counts leave this function.
+CREATE OR REPLACE FUNCTION get_district_report_aggregates(
+  p_start_month DATE,
+  p_months INTEGER
+) RETURNS JSONB AS $$
+DECLARE
+  v_district_id UUID;
+  v_start TIMESTAMPTZ;
+  v_end TIMESTAMPTZ;
+BEGIN
+  IF NOT is_district_admin() THEN
+    RAISE EXCEPTION 'Only district admins can view district reports';
+  END IF;
+
+  v_district_id := get_user_district_id();
+  IF v_district_id IS NULL THEN
+    RAISE EXCEPTION 'District not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_start_month IS NULL OR p_start_month <> date_trunc('month', p_start_month)::DATE
+    OR p_months IS NULL OR p_months NOT BETWEEN 1 AND 12 THEN
+    RAISE EXCEPTION 'District reports cover 1 to 12 whole months' USING ERRCODE = '22023';
+  END IF;
+
+  v_start := p_start_month::TIMESTAMP AT TIME ZONE 'UTC';
+  v_end := (p_start_month + make_interval(months => p_months))::TIMESTAMP AT TIME ZONE 'UTC';
+
+  IF v_end > date_trunc('month', NOW() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC' THEN
+    RAISE EXCEPTION 'District reports cover months that have ended' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN (
+    WITH schools AS (
+      SELECT t.id, t.name
+      FROM tenants t
+      WHERE t.district_id = v_district_id
+    ),
+    base AS (
+      SELECT
+        i.id,
+        i.tenant_id,
+        i.is_group,
+        i.student_id,
+        i.category_id,
+        COALESCE(i.duration_minutes, 0) AS duration
+      FROM interactions i
+      JOIN schools s ON s.id = i.tenant_id
+      WHERE i.start_time >= v_start AND i.start_time < v_end
+    ),
+    credited AS (
+      SELECT b.id AS interaction_id, b.tenant_id, b.student_id
+      FROM base b
+      WHERE NOT b.is_group AND b.student_id IS NOT NULL
+      UNION ALL
+      SELECT b.id, b.tenant_id, p.student_id
+      FROM base b
+      JOIN interaction_participants p ON p.interaction_id = b.id AND p.attended
+      WHERE b.is_group
+    ),
+    school_totals AS (
+      SELECT
+        s.id,
+        s.name,
+        (SELECT COUNT(*) FROM base b WHERE b.tenant_id = s.id) AS interactions,
+        (SELECT COALESCE(SUM(b.duration), 0) FROM base b WHERE b.tenant_id = s.id) AS duration,
+        (SELECT COUNT(DISTINCT c.student_id) FROM credited c WHERE c.tenant_id = s.id) AS students
+      FROM schools s
+    ),
+    -- Students belong to one school, so school student counts add up to the
+    -- district's too. The smallest cell that is neither withheld nor zero
+    -- comes first in each ordering.
+    school_cells AS (
+      SELECT
+        st.*,
+        district_cell_count(st.interactions) IS NULL AS interactions_small,
+        district_cell_count(st.students) IS NULL AS students_small
+      FROM school_totals st
+    ),
+    school_suppressed AS (
+      SELECT
+        sc.*,
+        sc.interactions_small OR (
+          COUNT(*) FILTER (WHERE sc.interactions_small) OVER () = 1
+          AND sc.id = FIRST_VALUE(sc.id) OVER (
+            ORDER BY sc.interactions_small OR sc.interactions = 0, sc.interactions, sc.id
+          )
+        ) AS hide_interactions,
+        sc.students_small OR (
+          COUNT(*) FILTER (WHERE sc.students_small) OVER () = 1
+          AND sc.id = FIRST_VALUE(sc.id) OVER (
+            ORDER BY sc.students_small OR sc.students = 0, sc.students, sc.id
+          )
+        ) AS hide_students
+      FROM school_cells sc
+    ),
+    categorized AS (
+      SELECT
+        b.id,
+        b.tenant_id,
+        b.duration,
+        COALESCE(dc.id::TEXT, 'school') AS group_key,
+        dc.id AS district_category_id,
+        COALESCE(dc.name, 'Other school categories') AS name,
+        dc.color
+      FROM base b
+      JOIN reason_categories rc ON rc.id = b.category_id
+      LEFT JOIN district_reason_categories dc
+        ON dc.id = rc.district_category_id AND dc.district_id = v_district_id
+    ),
+    category_students AS (
+      SELECT k.group_key, COUNT(DISTINCT c.student_id) AS students
+      FROM categorized k
+      JOIN credited c ON c.interaction_id = k.id
+      GROUP BY k.group_key
+    ),
+    category_totals AS (
+      SELECT
+        k.group_key,
+        MIN(k.district_category_id::TEXT)::UUID AS district_category_id,
+        MIN(k.name) AS name,
+        MIN(k.color) AS color,
+        COUNT(*) AS interactions,
+        SUM(k.duration) AS duration,
+        COUNT(DISTINCT k.tenant_id) AS schools,
+        COALESCE(MIN(cs.students), 0) AS students
+      FROM categorized k
+      LEFT JOIN category_students cs ON cs.group_key = k.group_key
+      GROUP BY k.group_key
+    ),
+    -- Interactions have one category, so category counts add up to the
+    -- district's; a student can be seen for several, so student counts don't
+    category_suppressed AS (
+      SELECT
+        ct.*,
+        district_cell_count(ct.interactions) IS NULL OR (
+          COUNT(*) FILTER (WHERE district_cell_count(ct.interactions) IS NULL) OVER () = 1
+          AND ct.group_key = FIRST_VALUE(ct.group_key) OVER (
+            ORDER BY district_cell_count(ct.interactions) IS NULL, ct.interactions, ct.group_key
+          )
+        ) AS hide_interactions
+      FROM category_totals ct
+    )
+    SELECT jsonb_build_object(
+      'total_interactions', district_cell_count((SELECT COUNT(*) FROM base)),
+      'total_duration', CASE
+        WHEN district_cell_count((SELECT COUNT(*) FROM base)) IS NULL THEN NULL
+        ELSE (SELECT COALESCE(SUM(duration), 0) FROM base)
+      END,
+      'total_students', district_cell_count((SELECT COUNT(DISTINCT student_id) FROM credited)),
+      'schools', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object(
+          'tenant_id', ss.id,
+          'tenant_name', ss.name,
+          'total_interactions', CASE WHEN ss.hide_interactions THEN NULL ELSE ss.interactions END,
+          'total_duration', CASE WHEN ss.hide_interactions THEN NULL ELSE ss.duration END,
+          'total_students', CASE WHEN ss.hide_students THEN NULL ELSE ss.students END
+        ) ORDER BY ss.name)
+        FROM school_suppressed ss
+      ), '[]'::jsonb),
+      'categories', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object(
+          'district_category_id', cs.district_category_id,
+          'category_name', cs.name,
+          'color', cs.color,
+          'school_count', cs.schools,
+          'count', CASE WHEN cs.hide_interactions THEN NULL ELSE cs.interactions END,
+          'total_duration', CASE WHEN cs.hide_interactions THEN NULL ELSE cs.duration END,
+          'total_students', district_cell_count(cs.students)
+        ) ORDER BY CASE WHEN cs.hide_interactions THEN NULL ELSE cs.interactions END DESC NULLS LAST,
+          cs.name)
+        FROM category_suppressed cs
+      ), '[]'::jsonb)
+    )
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- ============================================================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================================================
+
+COMMENT ON TABLE districts IS
+  'School districts; each owns the tenants whose district_id points to it';
+
+COMMENT ON COLUMN districts.templates_pushed_at IS
+  'When the district''s reason templates were last pushed to its schools';
+
+COMMENT ON COLUMN tenants.district_id IS
+  'District the school belongs to, if any; set by the service operator';
+
+COMMENT ON TABLE district_reason_categories IS
+  'Reason categories a district pushes to all of its schools';
+
+COMMENT ON TABLE district_reason_subcategories IS
+  'Subcategories of district reason templates';
+
+COMMENT ON COLUMN reason_categories.district_category_id IS
+  'District template this category is a copy of; copies are read-only for the school';
+
+COMMENT ON COLUMN reason_subcategories.district_subcategory_id IS
+  'District template this subcategory is a copy of; copies are read-only for the school';
+
+COMMENT ON FUNCTION get_user_tenant_ids() IS
+  'The caller''s tenant, plus every school in the district for district admins';
+
+COMMENT ON FUNCTION district_cell_count(BIGINT) IS
+  'Null for counts from 1 to 4, so district reports never show small groups of students';
+
+COMMENT ON FUNCTION push_district_reason_templates() IS
+  'District admin only; copies the district''s reason templates into each school and returns the number of schools';
+
+COMMENT ON FUNCTION get_district_report_aggregates(DATE, INTEGER) IS
+  'District admin only; de-identified interaction, minute and student totals per school and category over whole months';
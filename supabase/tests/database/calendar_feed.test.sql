@@ -0,0 +1,67 @@
+-- Calendar feeds must fold lines at 75 octets and stop working for deactivated
+-- users. Run with `supabase test db`.
+BEGIN;
+
+SELECT plan(5);
+
+-- ============================================================================
+-- FIXTURE
+-- ============================================================================
+
+INSERT INTO auth.users (id, email)
+VALUES ('20000000-0000-0000-0000-000000000001', 'feed-counselor@example.com');
+
+INSERT INTO tenants (id, name, subdomain)
+VALUES ('10000000-0000-0000-0000-000000000001', 'Feed Test School', 'feed-test');
+
+INSERT INTO users (id, tenant_id, email, first_name, last_name, role)
+VALUES (
+  '20000000-0000-0000-0000-000000000001',
+  '10000000-0000-0000-0000-000000000001',
+  'feed-counselor@example.com',
+  'Cora',
+  'Counselor',
+  'COUNSELOR'
+);
+
+INSERT INTO calendar_feeds (tenant_id, user_id, token)
+VALUES (
+  '10000000-0000-0000-0000-000000000001',
+  '20000000-0000-0000-0000-000000000001',
+  'feed-test-token'
+);
+
+-- ============================================================================
+-- TESTS
+-- ============================================================================
+
+SELECT is(
+  (SELECT array_agg(octet_length(part)) FROM regexp_split_to_table(ics_fold(repeat('a', 160)), E'\r\n') AS part),
+  ARRAY[75, 75, 12],
+  'ASCII lines fold at 75 octets, counting the leading space of continuation lines'
+);
+
+SELECT is(
+  (SELECT array_agg(octet_length(part)) FROM regexp_split_to_table(ics_fold(repeat('é', 40)), E'\r\n') AS part),
+  ARRAY[74, 7],
+  'multi-byte characters count by octet and are never split'
+);
+
+SELECT is(ics_fold('SUMMARY:Short'), 'SUMMARY:Short', 'short lines are left alone');
+
+SELECT lives_ok(
+  $$ SELECT calendar_feed('feed-test-token') $$,
+  'an active user''s feed is served'
+);
+
+UPDATE users SET is_active = FALSE WHERE id = '20000000-0000-0000-0000-000000000001';
+
+SELECT throws_ok(
+  $$ SELECT calendar_feed('feed-test-token') $$,
+  'P0002',
+  'Calendar feed not found',
+  'a deactivated user''s feed is not served'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,150 @@
+-- District reports must not let a withheld count be worked out, and pushing
+-- reason templates must cope with names a school already uses. Run with
+-- `supabase test db`.
+BEGIN;
+
+SELECT plan(8);
+
+-- ============================================================================
+-- FIXTURE
+-- ============================================================================
+
+INSERT INTO districts (id, name)
+VALUES ('11000000-0000-0000-0000-000000000001', 'Test District');
+
+-- Three schools that see 3, 6 and 10 students in September 2024
+INSERT INTO tenants (id, name, subdomain, district_id) VALUES
+  ('10000000-0000-0000-0000-00000000000a', 'Adams Elementary', 'district-test-a', '11000000-0000-0000-0000-000000000001'),
+  ('10000000-0000-0000-0000-00000000000b', 'Baker Middle', 'district-test-b', '11000000-0000-0000-0000-000000000001'),
+  ('10000000-0000-0000-0000-00000000000c', 'Clark High', 'district-test-c', '11000000-0000-0000-0000-000000000001');
+
+INSERT INTO auth.users (id, email)
+VALUES ('20000000-0000-0000-0000-000000000001', 'district-admin@example.com');
+
+INSERT INTO users (id, tenant_id, email, first_name, last_name, role)
+VALUES (
+  '20000000-0000-0000-0000-000000000001',
+  '10000000-0000-0000-0000-00000000000a',
+  'district-admin@example.com',
+  'Dana',
+  'District',
+  'DISTRICT_ADMIN'
+);
+
+INSERT INTO district_reason_categories (id, district_id, name, color)
+VALUES ('31000000-0000-0000-0000-000000000001', '11000000-0000-0000-0000-000000000001', 'Attendance', '#3b82f6');
+
+-- Adams and Baker file everything under their own category, which names the
+-- reason too closely to be shown to the district
+INSERT INTO reason_categories (tenant_id, name) VALUES
+  ('10000000-0000-0000-0000-00000000000a', 'Grief after the Lee family fire'),
+  ('10000000-0000-0000-0000-00000000000a', 'Wellbeing'),
+  ('10000000-0000-0000-0000-00000000000b', 'Grief after the Lee family fire');
+
+INSERT INTO students (tenant_id, student_id, first_name, last_name, grade_level)
+SELECT t.id, t.subdomain || '-' || n, 'Student', n::TEXT, '9'
+FROM tenants t
+JOIN (VALUES ('district-test-a', 3), ('district-test-b', 6), ('district-test-c', 10)) AS sizes(subdomain, size)
+  ON sizes.subdomain = t.subdomain
+CROSS JOIN LATERAL generate_series(1, sizes.size) AS n;
+
+-- Run as the district admin
+SELECT set_config(
+  'request.jwt.claims',
+  '{"sub": "20000000-0000-0000-0000-000000000001", "role": "authenticated"}',
+  TRUE
+);
+SET LOCAL ROLE authenticated;
+
+SELECT is(push_district_reason_templates(), 3, 'templates are pushed to every school');
+
+RESET ROLE;
+
+-- Clark files everything under the district's category
+INSERT INTO interactions (tenant_id, counselor_id, student_id, category_id, start_time, duration_minutes)
+SELECT
+  s.tenant_id,
+  '20000000-0000-0000-0000-000000000001',
+  s.id,
+  rc.id,
+  '2024-09-10T10:00:00Z',
+  30
+FROM students s
+JOIN reason_categories rc ON rc.tenant_id = s.tenant_id
+WHERE rc.name = CASE
+  WHEN s.tenant_id = '10000000-0000-0000-0000-00000000000c' THEN 'Attendance'
+  ELSE 'Grief after the Lee family fire'
+END;
+
+SET LOCAL ROLE authenticated;
+
+CREATE TEMP TABLE report AS
+SELECT get_district_report_aggregates('2024-09-01', 1) AS result;
+
+-- ============================================================================
+-- TESTS
+-- ============================================================================
+
+SELECT is(
+  (SELECT result -> 'total_interactions' FROM report),
+  '19'::JSONB,
+  'the district total is shown'
+);
+
+SELECT is(
+  (SELECT jsonb_agg(jsonb_build_array(
+     s -> 'tenant_name', s -> 'total_interactions', s -> 'total_duration', s -> 'total_students'
+   ) ORDER BY s ->> 'tenant_name')
+   FROM report, jsonb_array_elements(result -> 'schools') s),
+  '[
+    ["Adams Elementary", null, null, null],
+    ["Baker Middle", null, null, null],
+    ["Clark High", 10, 300, 10]
+  ]'::JSONB,
+  'the next smallest school is withheld with a small one, so neither follows from the total'
+);
+
+SELECT is(
+  (SELECT jsonb_agg(c -> 'category_name' ORDER BY c ->> 'category_name')
+   FROM report, jsonb_array_elements(result -> 'categories') c),
+  '["Attendance", "Other school categories"]'::JSONB,
+  'the schools'' own category names are not shown'
+);
+
+SELECT throws_ok(
+  $$ SELECT get_district_report_aggregates('2024-09-15', 1) $$,
+  '22023',
+  NULL,
+  'reports start on the first of a month'
+);
+
+SELECT throws_ok(
+  $$ SELECT get_district_report_aggregates(date_trunc('month', NOW() AT TIME ZONE 'UTC')::DATE, 1) $$,
+  '22023',
+  NULL,
+  'reports only cover months that have ended'
+);
+
+-- Adams already has its own Wellbeing category
+UPDATE district_reason_categories
+SET name = 'Wellbeing'
+WHERE id = '31000000-0000-0000-0000-000000000001';
+
+SELECT lives_ok(
+  $$ SELECT push_district_reason_templates() $$,
+  'a rename to a name a school already uses does not fail the push'
+);
+
+RESET ROLE;
+
+SELECT is(
+  (SELECT jsonb_agg(rc.name ORDER BY t.name)
+   FROM reason_categories rc
+   JOIN tenants t ON t.id = rc.tenant_id
+   WHERE rc.district_category_id = '31000000-0000-0000-0000-000000000001'),
+  '["Attendance", "Wellbeing", "Wellbeing"]'::JSONB,
+  'the copy keeps its old name only where the new one is taken'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,96 @@
+-- Admins may only queue email for an invitee or a tenant admin, with a
+-- bounded retry policy. Run with `supabase test db`.
+BEGIN;
+
+SELECT plan(5);
+
+-- ============================================================================
+-- FIXTURE
+-- ============================================================================
+
+INSERT INTO auth.users (id, email)
+VALUES ('20000000-0000-0000-0000-000000000001', 'queue-admin@example.com');
+
+INSERT INTO tenants (id, name, subdomain)
+VALUES ('10000000-0000-0000-0000-000000000001', 'Queue Test School', 'queue-test');
+
+INSERT INTO users (id, tenant_id, email, first_name, last_name, role)
+VALUES (
+  '20000000-0000-0000-0000-000000000001',
+  '10000000-0000-0000-0000-000000000001',
+  'queue-admin@example.com',
+  'Quinn',
+  'Admin',
+  'ADMIN'
+);
+
+INSERT INTO invitations (id, tenant_id, email, role, invited_by, token, expires_at)
+VALUES (
+  '90000000-0000-0000-0000-000000000001',
+  '10000000-0000-0000-0000-000000000001',
+  'new.counselor@example.com',
+  'COUNSELOR',
+  '20000000-0000-0000-0000-000000000001',
+  'queue-test-token',
+  NOW() + INTERVAL '7 days'
+);
+
+-- Run as the admin
+SELECT set_config(
+  'request.jwt.claims',
+  '{"sub": "20000000-0000-0000-0000-000000000001", "role": "authenticated"}',
+  TRUE
+);
+SET LOCAL ROLE authenticated;
+
+CREATE TEMP TABLE queued AS
+SELECT enqueue_email_delivery(
+  'invitation', 'New.Counselor@example.com', 'Join us', '<p>Hi</p>', 'Hi', 3, 1000, 30000,
+  '90000000-0000-0000-0000-000000000001', 'invitation:test'
+) AS id;
+
+-- ============================================================================
+-- TESTS
+-- ============================================================================
+
+SELECT isnt((SELECT id FROM queued), NULL, 'an invitation email to the invitee is queued');
+
+SELECT is(
+  enqueue_email_delivery(
+    'invitation', 'new.counselor@example.com', 'Join us', '<p>Hi</p>', 'Hi', 3, 1000, 30000,
+    '90000000-0000-0000-0000-000000000001', 'invitation:test'
+  ),
+  (SELECT id FROM queued),
+  'a repeated idempotency key returns the existing delivery'
+);
+
+SELECT throws_ok(
+  $$ SELECT enqueue_email_delivery(
+    'invitation', 'someone@example.org', 'Join us', '<p>Hi</p>', 'Hi', 3, 1000, 30000,
+    '90000000-0000-0000-0000-000000000001'
+  ) $$,
+  '22023',
+  NULL,
+  'invitation email cannot go to another address'
+);
+
+SELECT throws_ok(
+  $$ SELECT enqueue_email_delivery(
+    'setup_confirmation', 'someone@example.org', 'Welcome', '<p>Hi</p>', 'Hi', 3, 1000, 30000
+  ) $$,
+  '22023',
+  NULL,
+  'setup confirmations only go to tenant admins'
+);
+
+SELECT throws_ok(
+  $$ SELECT enqueue_email_delivery(
+    'setup_confirmation', 'queue-admin@example.com', 'Welcome', '<p>Hi</p>', 'Hi', 1000, 0, 0
+  ) $$,
+  '23514',
+  NULL,
+  'the retry policy is bounded'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
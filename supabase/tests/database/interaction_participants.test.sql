@@ -0,0 +1,75 @@
+-- Group interaction participants must be students of the caller's tenant.
+-- Run with `supabase test db`.
+BEGIN;
+
+SELECT plan(2);
+
+-- ============================================================================
+-- FIXTURE
+-- ============================================================================
+
+INSERT INTO auth.users (id, email)
+VALUES ('20000000-0000-0000-0000-000000000001', 'group-counselor@example.com');
+
+INSERT INTO tenants (id, name, subdomain) VALUES
+  ('10000000-0000-0000-0000-000000000001', 'Group Test School', 'group-test'),
+  ('10000000-0000-0000-0000-000000000002', 'Other School', 'group-test-other');
+
+INSERT INTO users (id, tenant_id, email, first_name, last_name, role)
+VALUES (
+  '20000000-0000-0000-0000-000000000001',
+  '10000000-0000-0000-0000-000000000001',
+  'group-counselor@example.com',
+  'Gia',
+  'Counselor',
+  'COUNSELOR'
+);
+
+INSERT INTO reason_categories (id, tenant_id, name)
+VALUES ('30000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001', 'Social');
+
+INSERT INTO students (id, tenant_id, student_id, first_name, last_name, grade_level) VALUES
+  ('40000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001', '0001', 'Ada', 'Lovelace', '9'),
+  ('40000000-0000-0000-0000-000000000002', '10000000-0000-0000-0000-000000000002', '0001', 'Ben', 'Carter', '9');
+
+INSERT INTO interactions (id, tenant_id, counselor_id, is_group, category_id, start_time, duration_minutes)
+VALUES (
+  '60000000-0000-0000-0000-000000000001',
+  '10000000-0000-0000-0000-000000000001',
+  '20000000-0000-0000-0000-000000000001',
+  TRUE,
+  '30000000-0000-0000-0000-000000000001',
+  '2024-09-03T14:00:00Z',
+  45
+);
+
+-- Run as the counselor
+SELECT set_config(
+  'request.jwt.claims',
+  '{"sub": "20000000-0000-0000-0000-000000000001", "role": "authenticated"}',
+  TRUE
+);
+SET LOCAL ROLE authenticated;
+
+-- ============================================================================
+-- TESTS
+-- ============================================================================
+
+SELECT lives_ok(
+  $$ INSERT INTO interaction_participants (tenant_id, interaction_id, student_id)
+     VALUES ('10000000-0000-0000-0000-000000000001', '60000000-0000-0000-0000-000000000001',
+             '40000000-0000-0000-0000-000000000001') $$,
+  'a student of the tenant can join the group'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO interaction_participants (tenant_id, interaction_id, student_id)
+     VALUES ('10000000-0000-0000-0000-000000000001', '60000000-0000-0000-0000-000000000001',
+             '40000000-0000-0000-0000-000000000002') $$,
+  '42501',
+  NULL,
+  'another tenant''s student cannot be added'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
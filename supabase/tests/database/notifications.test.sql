@@ -0,0 +1,78 @@
+-- Users may only mark their own notifications as read, and may not run the
+-- cleanup job. Run with `supabase test db`.
+BEGIN;
+
+SELECT plan(4);
+
+-- ============================================================================
+-- FIXTURE
+-- ============================================================================
+
+INSERT INTO auth.users (id, email)
+VALUES ('20000000-0000-0000-0000-000000000001', 'notified-counselor@example.com');
+
+INSERT INTO tenants (id, name, subdomain)
+VALUES ('10000000-0000-0000-0000-000000000001', 'Notification Test School', 'notification-test');
+
+INSERT INTO users (id, tenant_id, email, first_name, last_name, role)
+VALUES (
+  '20000000-0000-0000-0000-000000000001',
+  '10000000-0000-0000-0000-000000000001',
+  'notified-counselor@example.com',
+  'Nia',
+  'Counselor',
+  'COUNSELOR'
+);
+
+INSERT INTO notifications (id, tenant_id, user_id, type, title, message, link, source_id)
+VALUES (
+  '70000000-0000-0000-0000-000000000001',
+  '10000000-0000-0000-0000-000000000001',
+  '20000000-0000-0000-0000-000000000001',
+  'SECURITY_ALERT',
+  'High security event',
+  'LOGIN FAILED',
+  '/admin',
+  '80000000-0000-0000-0000-000000000001'
+);
+
+-- Run as the recipient
+SELECT set_config(
+  'request.jwt.claims',
+  '{"sub": "20000000-0000-0000-0000-000000000001", "role": "authenticated"}',
+  TRUE
+);
+SET LOCAL ROLE authenticated;
+
+-- ============================================================================
+-- TESTS
+-- ============================================================================
+
+SELECT lives_ok(
+  $$ UPDATE notifications SET read_at = NOW() WHERE id = '70000000-0000-0000-0000-000000000001' $$,
+  'the recipient can mark a notification as read'
+);
+
+SELECT throws_ok(
+  $$ UPDATE notifications SET link = 'https://example.com' WHERE id = '70000000-0000-0000-0000-000000000001' $$,
+  '42501',
+  NULL,
+  'the recipient cannot change the link'
+);
+
+SELECT throws_ok(
+  $$ UPDATE notifications SET user_id = user_id WHERE id = '70000000-0000-0000-0000-000000000001' $$,
+  '42501',
+  NULL,
+  'the recipient cannot move the notification to someone else'
+);
+
+SELECT throws_ok(
+  $$ SELECT cleanup_old_notifications() $$,
+  '42501',
+  NULL,
+  'users cannot run the cleanup job'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
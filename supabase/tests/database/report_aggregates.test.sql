@@ -0,0 +1,159 @@
+-- get_report_aggregates must agree with src/utils/reportHelpers.ts. The fixture
+-- and expected values are those of src/services/__tests__/reportAggregates.test.ts,
+-- which checks the same values against the helpers. Run with `supabase test db`.
+BEGIN;
+
+SELECT plan(7);
+
+SET LOCAL TIME ZONE 'UTC';
+
+-- ============================================================================
+-- FIXTURE
+-- ============================================================================
+
+INSERT INTO auth.users (id, email)
+VALUES ('20000000-0000-0000-0000-000000000001', 'reports-admin@example.com');
+
+INSERT INTO tenants (id, name, subdomain)
+VALUES ('10000000-0000-0000-0000-000000000001', 'Report Test School', 'report-test');
+
+INSERT INTO users (id, tenant_id, email, first_name, last_name, role)
+VALUES (
+  '20000000-0000-0000-0000-000000000001',
+  '10000000-0000-0000-0000-000000000001',
+  'reports-admin@example.com',
+  'Ann',
+  'Admin',
+  'ADMIN'
+);
+
+INSERT INTO reason_categories (id, tenant_id, name, color) VALUES
+  ('30000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001', 'Academic', '#3b82f6'),
+  ('30000000-0000-0000-0000-000000000002', '10000000-0000-0000-0000-000000000001', 'Social', '#10b981');
+
+-- Cy has no grade on file, so is reported as Unknown
+INSERT INTO students (id, tenant_id, student_id, first_name, last_name, grade_level) VALUES
+  ('40000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001', '0001', 'Ada', 'Lovelace', '9'),
+  ('40000000-0000-0000-0000-000000000002', '10000000-0000-0000-0000-000000000001', '0002', 'Ben', 'Carter', '10'),
+  ('40000000-0000-0000-0000-000000000003', '10000000-0000-0000-0000-000000000001', '0003', 'Cy', 'Dunn', '');
+
+INSERT INTO contacts (id, tenant_id, first_name, last_name, relationship)
+VALUES ('50000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001', 'Pat', 'Parent', 'Parent');
+
+INSERT INTO interactions (
+  id, tenant_id, counselor_id, student_id, contact_id, is_group, category_id, start_time, duration_minutes
+) VALUES
+  ('60000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001', '20000000-0000-0000-0000-000000000001',
+   '40000000-0000-0000-0000-000000000001', NULL, FALSE, '30000000-0000-0000-0000-000000000001', '2024-09-02T10:00:00Z', 30),
+  ('60000000-0000-0000-0000-000000000002', '10000000-0000-0000-0000-000000000001', '20000000-0000-0000-0000-000000000001',
+   '40000000-0000-0000-0000-000000000001', NULL, FALSE, '30000000-0000-0000-0000-000000000001', '2024-09-03T10:00:00Z', 20),
+  -- Grades 9 and 10 attended, so reported as Mixed
+  ('60000000-0000-0000-0000-000000000003', '10000000-0000-0000-0000-000000000001', '20000000-0000-0000-0000-000000000001',
+   NULL, NULL, TRUE, '30000000-0000-0000-0000-000000000002', '2024-09-03T14:00:00Z', 45),
+  ('60000000-0000-0000-0000-000000000004', '10000000-0000-0000-0000-000000000001', '20000000-0000-0000-0000-000000000001',
+   NULL, '50000000-0000-0000-0000-000000000001', FALSE, '30000000-0000-0000-0000-000000000002', '2024-09-04T09:00:00Z', 15),
+  ('60000000-0000-0000-0000-000000000005', '10000000-0000-0000-0000-000000000001', '20000000-0000-0000-0000-000000000001',
+   '40000000-0000-0000-0000-000000000003', NULL, FALSE, '30000000-0000-0000-0000-000000000001', '2024-09-05T11:00:00Z', 25),
+  ('60000000-0000-0000-0000-000000000006', '10000000-0000-0000-0000-000000000001', '20000000-0000-0000-0000-000000000001',
+   NULL, NULL, TRUE, '30000000-0000-0000-0000-000000000001', '2024-09-05T15:00:00Z', 40),
+  -- Outside the report range
+  ('60000000-0000-0000-0000-000000000007', '10000000-0000-0000-0000-000000000001', '20000000-0000-0000-0000-000000000001',
+   '40000000-0000-0000-0000-000000000002', NULL, FALSE, '30000000-0000-0000-0000-000000000001', '2024-10-15T10:00:00Z', 30);
+
+INSERT INTO interaction_participants (tenant_id, interaction_id, student_id, attended) VALUES
+  ('10000000-0000-0000-0000-000000000001', '60000000-0000-0000-0000-000000000003', '40000000-0000-0000-0000-000000000001', TRUE),
+  ('10000000-0000-0000-0000-000000000001', '60000000-0000-0000-0000-000000000003', '40000000-0000-0000-0000-000000000002', TRUE),
+  ('10000000-0000-0000-0000-000000000001', '60000000-0000-0000-0000-000000000003', '40000000-0000-0000-0000-000000000003', FALSE),
+  ('10000000-0000-0000-0000-000000000001', '60000000-0000-0000-0000-000000000006', '40000000-0000-0000-0000-000000000002', TRUE);
+
+-- Run the reports as the admin
+SELECT set_config(
+  'request.jwt.claims',
+  '{"sub": "20000000-0000-0000-0000-000000000001", "role": "authenticated"}',
+  TRUE
+);
+SET LOCAL ROLE authenticated;
+
+CREATE TEMP TABLE report AS
+SELECT get_report_aggregates('2024-09-01T00:00:00Z', '2024-09-30T23:59:59.999Z') AS result;
+
+-- ============================================================================
+-- TESTS
+-- ============================================================================
+
+SELECT is(
+  (SELECT jsonb_build_object(
+    'total_interactions', result -> 'total_interactions',
+    'total_duration', result -> 'total_duration',
+    'total_students', result -> 'total_students',
+    'total_contacts', result -> 'total_contacts'
+  ) FROM report),
+  '{"total_interactions": 6, "total_duration": 175, "total_students": 3, "total_contacts": 1}'::JSONB,
+  'totals count group sessions once and their attended participants as students'
+);
+
+SELECT is(
+  (SELECT jsonb_agg(c ORDER BY c ->> 'category_name')
+   FROM report, jsonb_array_elements(result -> 'categories') c),
+  '[
+    {"category_id": "30000000-0000-0000-0000-000000000001", "category_name": "Academic", "color": "#3b82f6",
+     "count": 4, "total_duration": 115, "last_start_time": "2024-09-05T15:00:00+00:00"},
+    {"category_id": "30000000-0000-0000-0000-000000000002", "category_name": "Social", "color": "#10b981",
+     "count": 2, "total_duration": 60, "last_start_time": "2024-09-04T09:00:00+00:00"}
+  ]'::JSONB,
+  'categories match calculateCategoryBreakdown'
+);
+
+SELECT is(
+  (SELECT jsonb_agg(g ORDER BY g ->> 'grade_level')
+   FROM report, jsonb_array_elements(result -> 'grade_levels') g),
+  '[
+    {"grade_level": "10", "count": 1, "total_duration": 40},
+    {"grade_level": "9", "count": 2, "total_duration": 50},
+    {"grade_level": "Mixed", "count": 1, "total_duration": 45},
+    {"grade_level": "Unknown", "count": 2, "total_duration": 40}
+  ]'::JSONB,
+  'grade levels report mixed-grade group sessions as Mixed, and contacts and missing grades as Unknown'
+);
+
+SELECT is(
+  (SELECT result -> 'trend' FROM report),
+  '[
+    {"date": "2024-09-02", "count": 1, "total_duration": 30},
+    {"date": "2024-09-03", "count": 2, "total_duration": 65},
+    {"date": "2024-09-04", "count": 1, "total_duration": 15},
+    {"date": "2024-09-05", "count": 2, "total_duration": 65}
+  ]'::JSONB,
+  'daily trend matches calculateTrendData'
+);
+
+SELECT is(
+  (SELECT jsonb_agg(s ORDER BY s ->> 'student_name')
+   FROM report, jsonb_array_elements(result -> 'students') s),
+  '[
+    {"student_id": "40000000-0000-0000-0000-000000000001", "student_name": "Ada Lovelace", "grade_level": "9",
+     "count": 3, "total_duration": 95, "last_start_time": "2024-09-03T14:00:00+00:00"},
+    {"student_id": "40000000-0000-0000-0000-000000000002", "student_name": "Ben Carter", "grade_level": "10",
+     "count": 2, "total_duration": 85, "last_start_time": "2024-09-05T15:00:00+00:00"},
+    {"student_id": "40000000-0000-0000-0000-000000000003", "student_name": "Cy Dunn", "grade_level": "",
+     "count": 1, "total_duration": 25, "last_start_time": "2024-09-05T11:00:00+00:00"}
+  ]'::JSONB,
+  'students match calculateStudentFrequency, leaving out participants who did not attend'
+);
+
+SELECT is(
+  (SELECT result -> 'student_trend' FROM report),
+  '[{"date": "2024-09-01", "count": 3}]'::JSONB,
+  'student trend counts distinct students per week starting Sunday'
+);
+
+SELECT is(
+  get_report_aggregates(
+    '2024-09-01T00:00:00Z', '2024-09-30T23:59:59.999Z', p_grade_level => '10'
+  ) -> 'total_interactions',
+  '2'::JSONB,
+  'the grade filter matches group sessions on any attended participant'
+);
+
+SELECT * FROM finish();
+ROLLBACK;